@@ -41,6 +41,11 @@ const config = [
         MouseEvent: 'readonly',
         TouchEvent: 'readonly',
         TextEncoder: 'readonly',
+        fetch: 'readonly',
+        Headers: 'readonly',
+        Response: 'readonly',
+        URLSearchParams: 'readonly',
+        AbortSignal: 'readonly',
         // Node.js globals
         Buffer: 'readonly',
         process: 'readonly',
@@ -6,15 +6,42 @@ import {
   TransferParams,
   TokenIdentifier,
   TransactionConfirmationParams,
-  TransactionConfirmationResult
+  TransactionConfirmationResult,
+  UnsignedTransaction,
+  SignedTransaction,
+  TransferSimulationResult,
+  DerivationOptions,
+  AccountRange,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  WatchOnlyAccount
 } from './types/wallet';
+import { ConnectionState, WalletEventListener, WalletEventMap, WalletEventName } from './types/events';
+import { Address } from './types/branded';
 import { ILogger, NoOpLogger, LoggerValue } from './utils/logger';
-import { MnemonicError, HibitIdSdkErrorCode } from './types/errors';
-import { ChainAccount, ChainId } from '@delandlabs/hibit-basic-types';
-import { validateMnemonic } from '@delandlabs/crypto-lib';
+import { ArgumentError, HibitIdSdkErrorCode } from './types/errors';
+import { GeneralWalletError } from './types/general-wallet-error';
+import { ISigner, SignerKeyType } from './types/signer';
+import { ChainAccount, ChainAssetType, ChainId } from '@delandlabs/hibit-basic-types';
+import { MnemonicSigner } from './signer/mnemonic-signer';
 import { withErrorHandling } from './decorators/error-handling';
 import { withLogging } from './decorators/logging';
 import { cleanSensitiveData } from './decorators/sensitive-data';
+import { TypedEventEmitter } from './utils/event-emitter';
+import { EndpointHealth, EndpointPool } from './utils/endpoint-pool';
+import {
+  createFailedTransferSimulation,
+  createTransferBalanceChanges,
+  assertValidAccountIndex,
+  assertValidAccountRange,
+  assertValidBatchTransfers,
+  assertValidDerivationPath,
+  assertValidMnemonic,
+  assertValidWatchOnlyAccount,
+  isSigner,
+  isWatchOnlyAccount,
+  resolveHistoryLimit
+} from './utils/wallet-utils';
 
 // Constants
 /**
@@ -22,6 +49,11 @@ import { cleanSensitiveData } from './decorators/sensitive-data';
  */
 const MESSAGE_PREVIEW_LENGTH = 50;
 
+/**
+ * Interval of the balance and connection polling that feeds wallet events
+ */
+const EVENT_POLL_INTERVAL_MS = 15000;
+
 /**
  * Convert ChainId to loggable object
  * @param chainId - The chain identifier to convert
@@ -42,14 +74,15 @@ function chainIdToLoggerValue(chainId: ChainId): LoggerValue {
 function tokenToLoggerValue(token: TokenIdentifier): LoggerValue {
   return {
     assetType: token.assetType.toString(),
-    tokenAddress: token.tokenAddress || undefined
+    tokenAddress: token.tokenAddress || undefined,
+    tokenId: token.tokenId
   };
 }
 
 /**
  * Configuration for BaseChainWallet
  */
-export interface WalletConfig {
+export interface WalletConfig extends DerivationOptions {
   /** Chain-specific configuration and metadata */
   chainInfo: ChainInfo;
   /** Optional logger instance for wallet operations */
@@ -69,7 +102,7 @@ export interface WalletConfig {
  * import { ChainInfo, ChainAccount, ChainId, ChainType, ChainNetwork } from '@delandlabs/hibit-basic-types';
  *
  * class MyChainWallet extends BaseChainWallet {
- *   constructor(mnemonic: string) {
+ *   constructor(mnemonicOrSigner: string | ISigner) {
  *     const config: WalletConfig = {
  *       chainInfo: {
  *         chainId: new ChainId(ChainType.Ethereum, ChainNetwork.EthereumMainNet),
@@ -85,7 +118,7 @@ export interface WalletConfig {
  *         rpc: { primary: 'https://mychain-rpc.com' }
  *       }
  *     };
- *     super(config, mnemonic);
+ *     super(config, mnemonicOrSigner);
  *   }
  *
  *   isValidAddress(address: string): boolean {
@@ -109,10 +142,20 @@ export interface WalletConfig {
  *     return await this.rpcCall('getBalance', [params.address]);
  *   }
  *
- *   protected async transferImpl(params: TransferParams): Promise<string> {
- *     // Create and send transaction
- *     const tx = await this.createTransaction(params);
- *     return await this.sendTransaction(tx);
+ *   protected async buildTransferImpl(params: TransferParams): Promise<UnsignedTransaction> {
+ *     // Create the unsigned transaction
+ *     return createUnsignedTransaction(this.chainInfo, params, await this.createTransaction(params));
+ *   }
+ *
+ *   protected async signTransactionImpl(transaction: UnsignedTransaction): Promise<SignedTransaction> {
+ *     // Sign with private key
+ *     const signedTx = await this.signWithPrivateKey(transaction.data);
+ *     return createSignedTransaction(transaction, signedTx.raw, signedTx.hash);
+ *   }
+ *
+ *   protected async broadcastTransactionImpl(transaction: SignedTransaction): Promise<string> {
+ *     // Send the signed transaction
+ *     return await this.sendRawTransaction(transaction.data);
  *   }
  *
  *   protected async estimateFeeImpl(params: TransferParams): Promise<BigNumber> {
@@ -128,49 +171,116 @@ export abstract class BaseChainWallet {
 
   // === Protected Fields ===
   protected readonly logger: ILogger;
+  /** HD account index of the wallet's own account */
+  protected readonly accountIndex: number;
+  /** Custom derivation path of the wallet's own account, if configured */
+  protected readonly derivationPath?: string;
+  /** Primary and fallback RPC endpoints; subclasses connect to its current URL */
+  protected readonly endpointPool: EndpointPool;
+
+  // === Private Fields ===
+  /** Retained only to derive further accounts in getAccounts, cleared by destroy() */
+  private mnemonic: string | null = null;
+  /** Signer the wallet was constructed with instead of a mnemonic */
+  private readonly externalSigner?: ISigner;
+  /** Signer derived from the mnemonic by createSigner, destroyed with the wallet */
+  private mnemonicSigner: MnemonicSigner | null = null;
+  /** Account the wallet was constructed to observe instead of a key */
+  private readonly watchOnlyAccount?: WatchOnlyAccount;
+  /** Listeners of wallet events registered with on() */
+  private readonly events: TypedEventEmitter<WalletEventMap>;
+  /** Last observed connection state, undefined until the first observation */
+  private connectionState?: ConnectionState;
+  /** Timer of the polling that runs while balanceChanged or connectionStateChanged has listeners */
+  private eventPollTimer: ReturnType<typeof setInterval> | null = null;
+  /** Last polled native balance of the wallet's account */
+  private watchedBalance?: BigNumber;
+  /** Tail of the serialized wallet state refreshes */
+  private walletStateRefresh: Promise<void> = Promise.resolve();
 
   // === Constructor ===
   /**
    * Creates a new BaseChainWallet instance
-   * @param config - Wallet configuration including chain info and logger
-   * @param mnemonic - The mnemonic phrase for key derivation
-   * @throws {MnemonicError} When mnemonic is invalid or empty
+   * @param config - Wallet configuration including chain info, logger and derivation options
+   * @param mnemonicOrSigner - The mnemonic phrase for key derivation, a signer holding the wallet key,
+   * or the account to observe without a key
+   * @throws {MnemonicError} When mnemonic is invalid or empty, or the derivation path is invalid
+   * @throws {ArgumentError} When the account index is invalid, combined with a derivation path, a signer or a
+   * watch-only account, or when the watch-only account is invalid
    */
-  protected constructor(config: WalletConfig, mnemonic: string) {
+  protected constructor(config: WalletConfig, mnemonicOrSigner: string | ISigner | WatchOnlyAccount) {
     this.logger = config.logger ?? new NoOpLogger();
     this.chainInfo = config.chainInfo;
+    this.events = new TypedEventEmitter(this.logger, 'BaseChainWallet');
+    this.endpointPool = new EndpointPool(this.chainInfo.rpc, {
+      chainName: this.chainInfo.name,
+      logger: this.logger,
+      onFailover: async (event) => {
+        try {
+          await this.onRpcEndpointChanged(event.to);
+        } catch (error) {
+          this.logger.error('Failed to switch RPC endpoint', {
+            error: error instanceof Error ? error : new Error(String(error)),
+            context: 'BaseChainWallet.onRpcEndpointChanged',
+            data: { from: event.from, to: event.to }
+          });
+        }
+        this.emit('rpcFailover', event);
+      }
+    });
 
     // Sensitive data protection for mnemonic parameter
     try {
-      // Validate mnemonic - this should happen before any other operations to fail fast
-      if (!mnemonic || typeof mnemonic !== 'string') {
-        throw new MnemonicError(HibitIdSdkErrorCode.INVALID_MNEMONIC, 'Mnemonic cannot be empty');
-      }
-
-      if (!validateMnemonic(mnemonic)) {
-        const words = mnemonic.trim().split(/\s+/);
-        const wordCount = words.length;
-        if (wordCount !== 12 && wordCount !== 24) {
-          throw new MnemonicError(
-            HibitIdSdkErrorCode.INVALID_MNEMONIC,
-            `Invalid mnemonic length (got ${wordCount} words, expected 12 or 24)`
+      if (isSigner(mnemonicOrSigner) || isWatchOnlyAccount(mnemonicOrSigner)) {
+        // A signer or watch-only account already stands for one account
+        if (config.accountIndex !== undefined || config.derivationPath !== undefined) {
+          throw new ArgumentError(
+            HibitIdSdkErrorCode.INVALID_ARGUMENT,
+            `${this.chainInfo.name}: accountIndex and derivationPath cannot be combined with a signer or watch-only account`,
+            { argumentName: config.derivationPath !== undefined ? 'derivationPath' : 'accountIndex' }
           );
-        } else {
-          throw new MnemonicError(HibitIdSdkErrorCode.INVALID_MNEMONIC, 'Invalid mnemonic phrase');
         }
       }
 
+      if (isSigner(mnemonicOrSigner)) {
+        this.externalSigner = mnemonicOrSigner;
+      } else if (isWatchOnlyAccount(mnemonicOrSigner)) {
+        assertValidWatchOnlyAccount(mnemonicOrSigner, this.chainInfo.chainId.chain, this.chainInfo.name);
+        this.watchOnlyAccount = { ...mnemonicOrSigner };
+      } else {
+        // Validate mnemonic - this should happen before any other operations to fail fast
+        assertValidMnemonic(mnemonicOrSigner);
+        this.mnemonic = mnemonicOrSigner;
+      }
+
+      if (config.accountIndex !== undefined && config.derivationPath !== undefined) {
+        throw new ArgumentError(
+          HibitIdSdkErrorCode.INVALID_ARGUMENT,
+          `${this.chainInfo.name}: accountIndex and derivationPath cannot be combined`,
+          { argumentName: 'derivationPath' }
+        );
+      }
+      if (config.accountIndex !== undefined) {
+        assertValidAccountIndex(config.accountIndex, this.chainInfo.name);
+      }
+      if (config.derivationPath !== undefined) {
+        assertValidDerivationPath(config.derivationPath, this.chainInfo.name);
+      }
+      this.accountIndex = config.accountIndex ?? 0;
+      this.derivationPath = config.derivationPath;
+
       this.logger.info('BaseChainWallet initialized', {
         context: 'BaseChainWallet.constructor',
         data: {
           chainName: this.chainInfo.name,
-          chainId: chainIdToLoggerValue(this.chainInfo.chainId)
+          chainId: chainIdToLoggerValue(this.chainInfo.chainId),
+          signer: this.watchOnlyAccount ? 'watch-only' : this.externalSigner ? 'external' : 'mnemonic'
         }
       });
 
       // At this point the mnemonic has been validated and can be used by subclasses
       // Note: JavaScript doesn't provide true memory clearing for strings,
-      // but we should avoid storing or logging the mnemonic parameter
+      // so the mnemonic is never logged and only kept until destroy()
     } catch (error) {
       // Error handling that protects sensitive data
       this.logger.error('BaseChainWallet initialization failed', {
@@ -189,6 +299,52 @@ export abstract class BaseChainWallet {
     }
   }
 
+  /**
+   * Whether the wallet was constructed from a watch-only account
+   * Watch-only wallets answer read methods but reject transfer, signTransaction and signMessage
+   * with WATCH_ONLY_WALLET.
+   */
+  public isWatchOnly(): boolean {
+    return this.watchOnlyAccount !== undefined;
+  }
+
+  /**
+   * Registers a listener for a wallet event
+   *
+   * - `balanceChanged`: the native balance of the wallet's account changed
+   * - `transactionConfirmed`: a transaction broadcast by this wallet was confirmed
+   * - `connectionStateChanged`: the connection to the chain was established, lost or is being re-established
+   * - `rpcFailover`: the wallet switched to another RPC endpoint
+   *
+   * While balanceChanged or connectionStateChanged has listeners, the wallet polls the balance of its
+   * account; chains with push notifications report changes as soon as they are pushed.
+   *
+   * @param event - Name of the event
+   * @param listener - Listener called with the event payload
+   *
+   * @example
+   * ```typescript
+   * const onBalance = (event: BalanceChangedEvent) => console.log(event.balance.toString());
+   * wallet.on('balanceChanged', onBalance);
+   * // Later
+   * wallet.off('balanceChanged', onBalance);
+   * ```
+   */
+  public on<E extends WalletEventName>(event: E, listener: WalletEventListener<E>): void {
+    this.events.on(event, listener);
+    this.updateEventPolling();
+  }
+
+  /**
+   * Removes a listener registered with on
+   * @param event - Name of the event
+   * @param listener - The listener to remove
+   */
+  public off<E extends WalletEventName>(event: E, listener: WalletEventListener<E>): void {
+    this.events.off(event, listener);
+    this.updateEventPolling();
+  }
+
   /**
    * Retrieves the account information for this wallet
    * @returns A promise that resolves to the chain account details
@@ -205,6 +361,173 @@ export abstract class BaseChainWallet {
    */
   protected abstract getAccountImpl(): Promise<ChainAccount>;
 
+  /**
+   * Derives the accounts at a range of HD account indexes from the wallet's mnemonic
+   * Accounts are derived with the chain's standard derivation path, ignoring any custom path.
+   * @param range - First account index and number of accounts to derive
+   * @returns A promise that resolves to the accounts, ordered by account index
+   *
+   * @example
+   * ```typescript
+   * // Accounts 0 to 4
+   * const accounts = await wallet.getAccounts({ count: 5 });
+   * ```
+   */
+  @withLogging(
+    'Get accounts',
+    (args: [AccountRange]) => ({ start: args[0].start ?? 0, count: args[0].count }),
+    (result: ChainAccount[]) => ({ addresses: result.map((account) => account.address) })
+  )
+  @withErrorHandling({ errorType: 'general' }, 'Failed to get accounts')
+  @cleanSensitiveData()
+  public async getAccounts(range: AccountRange): Promise<ChainAccount[]> {
+    assertValidAccountRange(range, this.chainInfo.name);
+
+    if (this.externalSigner || this.watchOnlyAccount) {
+      throw new GeneralWalletError(
+        HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+        `${this.chainInfo.name}: Multi-account derivation requires a mnemonic`
+      );
+    }
+    if (!this.mnemonic) {
+      throw new GeneralWalletError(
+        HibitIdSdkErrorCode.WALLET_NOT_CONNECTED,
+        `${this.chainInfo.name}: Wallet has been destroyed`
+      );
+    }
+
+    const start = range.start ?? 0;
+    const accounts: ChainAccount[] = [];
+    for (let accountIndex = start; accountIndex < start + range.count; accountIndex++) {
+      accounts.push(await this.deriveAccountImpl(this.mnemonic, accountIndex));
+    }
+    return accounts;
+  }
+
+  /**
+   * Internal implementation for deriving the account at an HD account index
+   * Default implementation reports that multi-account derivation is not supported
+   * @param _mnemonic - The wallet's mnemonic phrase
+   * @param _accountIndex - Account index substituted into the chain's standard derivation path
+   */
+  protected async deriveAccountImpl(_mnemonic: string, _accountIndex: number): Promise<ChainAccount> {
+    throw new GeneralWalletError(
+      HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+      `${this.chainInfo.name}: Multi-account derivation is not supported`
+    );
+  }
+
+  /**
+   * Resolves the derivation path of the wallet's own account
+   * @param pathForAccount - The chain's standard derivation path for an account index
+   * @returns The custom derivation path if configured, otherwise the standard path for the account index
+   */
+  protected resolveDerivationPath(pathForAccount: (accountIndex: number) => string): string {
+    return this.derivationPath ?? pathForAccount(this.accountIndex);
+  }
+
+  /**
+   * Resolves the signer of the wallet's own account
+   * Returns the signer the wallet was constructed with, otherwise a MnemonicSigner for the resolved derivation path.
+   * @param keyType - Key algorithm the chain signs with
+   * @param pathForAccount - The chain's standard derivation path for an account index
+   * @throws {ArgumentError} When the wallet's signer holds a key of another algorithm
+   * @throws {GeneralWalletError} When the wallet is watch-only
+   */
+  protected createSigner(keyType: SignerKeyType, pathForAccount: (accountIndex: number) => string): ISigner {
+    this.assertCanSign();
+
+    if (this.externalSigner) {
+      if (this.externalSigner.keyType !== keyType) {
+        throw new ArgumentError(
+          HibitIdSdkErrorCode.INVALID_ARGUMENT,
+          `${this.chainInfo.name}: Signer key type ${this.externalSigner.keyType} is not supported`,
+          { argumentName: 'signer', expectedType: keyType, providedValue: this.externalSigner.keyType }
+        );
+      }
+      return this.externalSigner;
+    }
+
+    if (!this.mnemonic) {
+      throw new GeneralWalletError(
+        HibitIdSdkErrorCode.WALLET_NOT_CONNECTED,
+        `${this.chainInfo.name}: Wallet has been destroyed`
+      );
+    }
+
+    this.mnemonicSigner?.destroy();
+    this.mnemonicSigner = new MnemonicSigner(this.mnemonic, {
+      keyType,
+      derivationPath: this.resolveDerivationPath(pathForAccount)
+    });
+    return this.mnemonicSigner;
+  }
+
+  /**
+   * Returns the account the wallet was constructed to observe
+   * Subclasses initialize from it instead of a signer when the wallet is watch-only.
+   * @returns The watch-only account, or undefined if the wallet holds a key
+   */
+  protected getWatchOnlyAccount(): WatchOnlyAccount | undefined {
+    return this.watchOnlyAccount;
+  }
+
+  /**
+   * Rejects operations that need the wallet's key when the wallet is watch-only
+   * @throws {GeneralWalletError} When the wallet is watch-only
+   */
+  protected assertCanSign(): void {
+    if (this.watchOnlyAccount) {
+      throw new GeneralWalletError(
+        HibitIdSdkErrorCode.WATCH_ONLY_WALLET,
+        `${this.chainInfo.name}: Watch-only wallets cannot sign`
+      );
+    }
+  }
+
+  /**
+   * Calls the listeners of a wallet event
+   * @param event - Name of the event
+   * @param payload - Event payload
+   */
+  protected emit<E extends WalletEventName>(event: E, payload: WalletEventMap[E]): void {
+    this.events.emit(event, payload);
+  }
+
+  /**
+   * Records the connection state and emits connectionStateChanged when it changed
+   * Subclasses with connection notifications (WebSocket providers) report them here.
+   * @param state - Current connection state
+   * @param error - Error that caused the change, if any
+   */
+  protected setConnectionState(state: ConnectionState, error?: Error): void {
+    if (state === this.connectionState) {
+      return;
+    }
+    const previousState = this.connectionState;
+    this.connectionState = state;
+    this.emit('connectionStateChanged', { state, previousState, error });
+  }
+
+  /**
+   * Returns the token whose balance changes are reported by balanceChanged
+   * Defaults to the chain's native asset; chains with a dedicated native asset type override it.
+   */
+  protected getNativeToken(): TokenIdentifier {
+    return { assetType: ChainAssetType.Native };
+  }
+
+  /**
+   * Re-queries the native balance of the wallet's account
+   * Emits balanceChanged when the balance differs from the last one, and connectionStateChanged
+   * when the query succeeds or fails after the opposite outcome. Runs on the event polling interval;
+   * subclasses call it when the chain pushes a balance change. Does nothing while no listener needs it.
+   */
+  protected refreshWalletState(): Promise<void> {
+    this.walletStateRefresh = this.walletStateRefresh.then(() => this.queryWalletState());
+    return this.walletStateRefresh;
+  }
+
   /**
    * Signs a message using the wallet's cryptographic key
    * Implementation is delegated to subclasses
@@ -219,6 +542,7 @@ export abstract class BaseChainWallet {
   @withErrorHandling({ errorType: 'signing' }, 'Failed to sign message')
   @cleanSensitiveData()
   public async signMessage(params: SignMessageParams): Promise<Uint8Array> {
+    this.assertCanSign();
     return this.signMessageImpl(params);
   }
 
@@ -243,7 +567,7 @@ export abstract class BaseChainWallet {
   )
   @withErrorHandling({ errorType: 'balance' }, 'Failed to query balance')
   public async balanceOf(params: BalanceQueryParams): Promise<BigNumber> {
-    return this.balanceOfImpl(params);
+    return this.endpointPool.execute(() => this.balanceOfImpl(params));
   }
 
   /**
@@ -254,6 +578,9 @@ export abstract class BaseChainWallet {
 
   /**
    * Transfers tokens to another address
+   *
+   * Equivalent to building, signing and broadcasting the transfer in one call.
+   *
    * @param params - Parameters for the transfer
    * @returns A promise that resolves to the transaction hash
    */
@@ -269,14 +596,156 @@ export abstract class BaseChainWallet {
   @withErrorHandling({ errorType: 'transaction' }, 'Failed to transfer tokens')
   @cleanSensitiveData()
   public async transfer(params: TransferParams): Promise<string> {
-    return this.transferImpl(params);
+    this.assertCanSign();
+    const txHash = await this.executeWithoutRetry(() => this.transferImpl(params));
+    this.trackConfirmations([txHash]);
+    return txHash;
   }
 
   /**
    * Internal implementation for token transfer
+   * Composes buildTransferImpl, signTransactionImpl and broadcastTransactionImpl.
+   * Subclasses may override it for assets that cannot be split into separate steps.
+   */
+  protected async transferImpl(params: TransferParams): Promise<string> {
+    const unsigned = await this.buildTransferImpl(params);
+    const signed = await this.signTransactionImpl(unsigned);
+    return this.broadcastTransactionImpl(signed);
+  }
+
+  /**
+   * Sends several transfers, batching them into as few transactions as the chain allows
+   *
+   * Chains with native batching (Kaspa, TON, Solana) pack several transfers into one
+   * transaction; other chains send the transfers one after another. When a transfer fails,
+   * the transfers before it may already have been broadcast.
+   *
+   * @param transfers - Transfers to send, in order
+   * @returns A promise that resolves to the hash of the transaction carrying each transfer, in input order.
+   * Transfers batched into one transaction share its hash.
+   *
+   * @example
+   * ```typescript
+   * const txHashes = await wallet.batchTransfer([
+   *   { recipientAddress: alice, amount: new BigNumber('1000'), token: { assetType: ChainAssetType.Native } },
+   *   { recipientAddress: bob, amount: new BigNumber('2000'), token: { assetType: ChainAssetType.Native } }
+   * ]);
+   * ```
+   */
+  @withLogging(
+    'Batch transfer tokens',
+    (args: [TransferParams[]]) => ({ count: args[0]?.length }),
+    (result: string[]) => ({ txHashes: [...new Set(result)] })
+  )
+  @withErrorHandling({ errorType: 'transaction' }, 'Failed to batch transfer tokens')
+  @cleanSensitiveData()
+  public async batchTransfer(transfers: TransferParams[]): Promise<string[]> {
+    this.assertCanSign();
+    assertValidBatchTransfers(transfers, this.chainInfo.name);
+    const txHashes = await this.executeWithoutRetry(() => this.batchTransferImpl(transfers));
+    this.trackConfirmations(txHashes);
+    return txHashes;
+  }
+
+  /**
+   * Internal implementation for batch transfers
+   * Default implementation sends the transfers sequentially, each after the previous one
+   * was broadcast. Chains that can carry several transfers in one transaction override it.
+   */
+  protected async batchTransferImpl(transfers: TransferParams[]): Promise<string[]> {
+    const txHashes: string[] = [];
+    for (const params of transfers) {
+      txHashes.push(await this.transferImpl(params));
+    }
+    return txHashes;
+  }
+
+  /**
+   * Builds an unsigned transfer transaction without signing or sending it
+   * @param params - Parameters for the transfer
+   * @returns A promise that resolves to a serializable unsigned transaction
+   *
+   * @example
+   * ```typescript
+   * const unsigned = await wallet.buildTransfer({
+   *   recipientAddress: createAddress('0x123...', ChainType.Ethereum),
+   *   amount: new BigNumber('1000000000000000000'),
+   *   token: { assetType: ChainAssetType.Native }
+   * });
+   * // Show `unsigned` on a review screen, then:
+   * const signed = await wallet.signTransaction(unsigned);
+   * const txHash = await wallet.broadcastTransaction(signed);
+   * ```
+   */
+  @withLogging(
+    'Build transfer',
+    (args: [TransferParams]) => ({
+      to: args[0].recipientAddress,
+      amount: args[0].amount.toString(),
+      token: tokenToLoggerValue(args[0].token)
+    }),
+    (result: UnsignedTransaction) => ({ chain: result.chain, network: result.network })
+  )
+  @withErrorHandling({ errorType: 'transaction' }, 'Failed to build transfer')
+  public async buildTransfer(params: TransferParams): Promise<UnsignedTransaction> {
+    return this.endpointPool.execute(() => this.buildTransferImpl(params));
+  }
+
+  /**
+   * Internal implementation for building an unsigned transfer
    * Must be implemented by subclasses
    */
-  protected abstract transferImpl(params: TransferParams): Promise<string>;
+  protected abstract buildTransferImpl(params: TransferParams): Promise<UnsignedTransaction>;
+
+  /**
+   * Signs a transaction previously produced by buildTransfer
+   * @param transaction - The unsigned transaction
+   * @returns A promise that resolves to a serializable signed transaction
+   */
+  @withLogging(
+    'Sign transaction',
+    (args: [UnsignedTransaction]) => ({
+      to: args[0]?.recipientAddress,
+      amount: args[0]?.amount
+    }),
+    (result: SignedTransaction) => ({ txHash: result.txHash })
+  )
+  @withErrorHandling({ errorType: 'transaction' }, 'Failed to sign transaction')
+  @cleanSensitiveData()
+  public async signTransaction(transaction: UnsignedTransaction): Promise<SignedTransaction> {
+    this.assertCanSign();
+    return this.signTransactionImpl(transaction);
+  }
+
+  /**
+   * Internal implementation for transaction signing
+   * Must be implemented by subclasses
+   */
+  protected abstract signTransactionImpl(transaction: UnsignedTransaction): Promise<SignedTransaction>;
+
+  /**
+   * Broadcasts a signed transaction to the network
+   * Broadcasting the same signed transaction again does not require signing it again.
+   * @param transaction - The signed transaction
+   * @returns A promise that resolves to the transaction hash
+   */
+  @withLogging(
+    'Broadcast transaction',
+    (args: [SignedTransaction]) => ({ txHash: args[0]?.txHash }),
+    (result: string) => ({ txHash: result })
+  )
+  @withErrorHandling({ errorType: 'transaction' }, 'Failed to broadcast transaction')
+  public async broadcastTransaction(transaction: SignedTransaction): Promise<string> {
+    const txHash = await this.executeWithoutRetry(() => this.broadcastTransactionImpl(transaction));
+    this.trackConfirmations([txHash]);
+    return txHash;
+  }
+
+  /**
+   * Internal implementation for transaction broadcasting
+   * Must be implemented by subclasses
+   */
+  protected abstract broadcastTransactionImpl(transaction: SignedTransaction): Promise<string>;
 
   /**
    * Estimates the fee for a transfer transaction
@@ -294,7 +763,7 @@ export abstract class BaseChainWallet {
   )
   @withErrorHandling({ errorType: 'fee' }, 'Failed to estimate fee')
   public async estimateFee(params: TransferParams): Promise<BigNumber> {
-    return this.estimateFeeImpl(params);
+    return this.endpointPool.execute(() => this.estimateFeeImpl(params));
   }
 
   /**
@@ -303,6 +772,93 @@ export abstract class BaseChainWallet {
    */
   protected abstract estimateFeeImpl(params: TransferParams): Promise<BigNumber>;
 
+  /**
+   * Simulates a transfer without signing or broadcasting it
+   * Returns the expected fee and balance changes, or the reason the transfer would fail.
+   * Chains that cannot simulate transfers reject with OPERATION_NOT_SUPPORTED.
+   * @param params - Parameters for the transfer
+   * @returns A promise that resolves to the simulation result
+   *
+   * @example
+   * ```typescript
+   * const simulation = await wallet.simulateTransfer(params);
+   * if (!simulation.success) {
+   *   console.log(`Transfer would fail: ${simulation.failureReason}`);
+   * }
+   * ```
+   */
+  @withLogging(
+    'Simulate transfer',
+    (args: [TransferParams]) => ({
+      to: args[0].recipientAddress,
+      amount: args[0].amount.toString(),
+      token: tokenToLoggerValue(args[0].token)
+    }),
+    (result: TransferSimulationResult) => ({
+      success: result.success,
+      fee: result.fee.toString(),
+      failureReason: result.failureReason
+    })
+  )
+  @withErrorHandling({ errorType: 'transaction' }, 'Failed to simulate transfer')
+  public async simulateTransfer(params: TransferParams): Promise<TransferSimulationResult> {
+    return this.endpointPool.execute(() => this.simulateTransferImpl(params));
+  }
+
+  /**
+   * Internal implementation for transfer simulation
+   * Default implementation reports that simulation is not supported
+   */
+  protected async simulateTransferImpl(_params: TransferParams): Promise<TransferSimulationResult> {
+    throw new GeneralWalletError(
+      HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+      `${this.chainInfo.name}: Transfer simulation is not supported`
+    );
+  }
+
+  /**
+   * Completes a transfer simulation by checking the sender's current balances
+   * Fails the simulation when the sender cannot cover the amount and the fee.
+   * Used by chains without a dry-run facility, and after a chain-specific dry run.
+   * @param params - Parameters for the transfer
+   * @param fee - Expected fee in smallest unit of the fee token
+   * @param nativeToken - Token the fee is paid in, normally the chain's native asset
+   */
+  protected async simulateTransferWithBalances(
+    params: TransferParams,
+    fee: BigNumber,
+    nativeToken: TokenIdentifier
+  ): Promise<TransferSimulationResult> {
+    const { address } = await this.getAccountImpl();
+    const sender = address as Address;
+    const isNativeTransfer = params.token.assetType === nativeToken.assetType;
+
+    const nativeBalance = await this.balanceOfImpl({ address: sender, token: nativeToken });
+    const nativeRequired = isNativeTransfer ? params.amount.plus(fee) : fee;
+    if (nativeBalance.lt(nativeRequired)) {
+      return createFailedTransferSimulation(
+        `Insufficient balance: ${nativeRequired.toFixed()} required, ${nativeBalance.toFixed()} available`,
+        fee
+      );
+    }
+
+    if (!isNativeTransfer) {
+      const tokenBalance = await this.balanceOfImpl({ address: sender, token: params.token });
+      if (tokenBalance.lt(params.amount)) {
+        return createFailedTransferSimulation(
+          `Insufficient token balance: ${params.amount.toFixed()} required, ${tokenBalance.toFixed()} available`,
+          fee
+        );
+      }
+    }
+
+    return {
+      success: true,
+      fee,
+      balanceChanges: createTransferBalanceChanges(address, params, fee, nativeToken)
+    };
+  }
+
   /**
    * Waits for transaction confirmation on the blockchain
    * @param params - Confirmation parameters including transaction hash and requirements
@@ -347,7 +903,7 @@ export abstract class BaseChainWallet {
   )
   @withErrorHandling({ errorType: 'transaction' }, 'Failed to wait for transaction confirmation')
   public async waitForConfirmation(params: TransactionConfirmationParams): Promise<TransactionConfirmationResult> {
-    return this.waitForConfirmationImpl(params);
+    return this.endpointPool.execute(() => this.waitForConfirmationImpl(params));
   }
 
   /**
@@ -366,13 +922,129 @@ export abstract class BaseChainWallet {
     params: TransactionConfirmationParams
   ): Promise<TransactionConfirmationResult>;
 
+  /**
+   * Lists transfers of an asset to and from an address, newest first
+   * Pass the returned nextCursor back as cursor to fetch older transfers.
+   * Chains that cannot list history for the asset reject with OPERATION_NOT_SUPPORTED.
+   * @param params - Address, asset, cursor and page size
+   * @returns A promise that resolves to one page of normalized transaction records
+   *
+   * @example
+   * ```typescript
+   * const page = await wallet.getTransactionHistory({ address, token, limit: 10 });
+   * const older = await wallet.getTransactionHistory({ address, token, cursor: page.nextCursor });
+   * ```
+   */
+  @withLogging(
+    'Get transaction history',
+    (args: [TransactionHistoryParams]) => ({
+      address: args[0].address,
+      token: tokenToLoggerValue(args[0].token),
+      cursor: args[0].cursor,
+      limit: args[0].limit
+    }),
+    (result: TransactionHistoryPage) => ({
+      count: result.records.length,
+      nextCursor: result.nextCursor
+    })
+  )
+  @withErrorHandling({ errorType: 'general' }, 'Failed to get transaction history')
+  public async getTransactionHistory(params: TransactionHistoryParams): Promise<TransactionHistoryPage> {
+    const limit = resolveHistoryLimit(params.limit, this.chainInfo.name);
+    return this.endpointPool.execute(() => this.getTransactionHistoryImpl({ ...params, limit }));
+  }
+
+  /**
+   * Internal implementation for transaction history queries
+   * Receives params with the page size already validated and defaulted.
+   * Default implementation reports that transaction history is not supported
+   */
+  protected async getTransactionHistoryImpl(
+    _params: TransactionHistoryParams & { limit: number }
+  ): Promise<TransactionHistoryPage> {
+    throw new GeneralWalletError(
+      HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+      `${this.chainInfo.name}: Transaction history is not supported`
+    );
+  }
+
+  /**
+   * Returns the health of the wallet's RPC endpoints as observed by its requests
+   * Endpoints come from chainInfo.rpc.primary and chainInfo.rpc.fallbacks, in that order.
+   * @returns Health of each endpoint; empty when the chain has no configured endpoints
+   */
+  public getEndpointHealth(): EndpointHealth[] {
+    return this.endpointPool.getHealth();
+  }
+
+  /**
+   * Probes every RPC endpoint with a lightweight request and returns their health
+   * Switches to a healthy endpoint when the current one fails its probe.
+   * Chains that cannot probe endpoints reject with OPERATION_NOT_SUPPORTED.
+   * @returns A promise that resolves to the health of each endpoint after the probes
+   *
+   * @example
+   * ```typescript
+   * const health = await wallet.checkEndpointHealth();
+   * const unhealthy = health.filter((endpoint) => !endpoint.healthy).map((endpoint) => endpoint.url);
+   * ```
+   */
+  @withLogging('Check endpoint health', undefined, (result: EndpointHealth[]) => ({
+    endpoints: result.map((endpoint) => ({ url: endpoint.url, latencyMs: endpoint.latencyMs }))
+  }))
+  @withErrorHandling({ errorType: 'general' }, 'Failed to check endpoint health')
+  public async checkEndpointHealth(): Promise<EndpointHealth[]> {
+    return this.endpointPool.checkHealth((url) => this.checkEndpointImpl(url));
+  }
+
+  /**
+   * Internal implementation for probing an RPC endpoint
+   * Resolves when the endpoint answers a lightweight request and rejects otherwise.
+   * Default implementation reports that endpoint probing is not supported
+   * @param _url - URL of the endpoint to probe
+   */
+  protected async checkEndpointImpl(_url: string): Promise<void> {
+    throw new GeneralWalletError(
+      HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+      `${this.chainInfo.name}: Endpoint health checks are not supported`
+    );
+  }
+
+  /**
+   * Called after the endpoint pool switched to another endpoint
+   * Subclasses with clients bound to an endpoint URL recreate them here; requests that
+   * failed on the previous endpoint are repeated once the returned promise resolves.
+   * Default implementation does nothing
+   * @param _url - URL of the endpoint used from now on
+   */
+  protected async onRpcEndpointChanged(_url: string): Promise<void> {
+    // Default implementation - clients that read the current URL per request need no update
+  }
+
+  /**
+   * Runs an operation that sends a transaction against the current endpoint
+   * An endpoint error still switches endpoints, but the operation is not repeated on the next
+   * one: the failed attempt may have been broadcast, and repeating it could send it twice.
+   * @param operation - Operation sending the transaction
+   * @returns The operation result
+   */
+  protected executeWithoutRetry<T>(operation: () => Promise<T>): Promise<T> {
+    return this.endpointPool.execute(operation, { retry: false });
+  }
+
   /**
    * Cleans up resources used by the wallet to prevent memory leaks
-   * This method should be called when the wallet is no longer needed
+   * This method should be called when the wallet is no longer needed.
+   * A signer passed to the constructor is left to its owner and not destroyed.
    */
   @withLogging('Cleanup wallet resources', undefined, () => ({ cleaned: true }))
   public destroy(): void {
     try {
+      this.mnemonic = null;
+      this.mnemonicSigner?.destroy();
+      this.mnemonicSigner = null;
+      this.events.removeAllListeners();
+      this.updateEventPolling();
       this.destroyImpl();
       this.logger.info('BaseChainWallet resources cleaned up', {
         context: 'BaseChainWallet.destroy'
@@ -427,7 +1099,7 @@ export abstract class BaseChainWallet {
   )
   @withErrorHandling({ errorType: 'general' }, 'Failed to get asset decimals')
   public async getAssetDecimals(token: TokenIdentifier): Promise<number> {
-    return this.getAssetDecimalsImpl(token);
+    return this.endpointPool.execute(() => this.getAssetDecimalsImpl(token));
   }
 
   /**
@@ -440,4 +1112,80 @@ export abstract class BaseChainWallet {
    * - Default to a sensible value if decimals cannot be determined
    */
   protected abstract getAssetDecimalsImpl(token: TokenIdentifier): Promise<number>;
+
+  /**
+   * Starts the event polling when balanceChanged or connectionStateChanged got its first listener
+   * and stops it when both lost their last one
+   */
+  private updateEventPolling(): void {
+    const needed =
+      this.events.listenerCount('balanceChanged') > 0 || this.events.listenerCount('connectionStateChanged') > 0;
+
+    if (needed && !this.eventPollTimer) {
+      this.eventPollTimer = setInterval(() => this.refreshWalletState(), EVENT_POLL_INTERVAL_MS);
+      this.refreshWalletState();
+    } else if (!needed && this.eventPollTimer) {
+      clearInterval(this.eventPollTimer);
+      this.eventPollTimer = null;
+      this.watchedBalance = undefined;
+    }
+  }
+
+  /**
+   * Queries the native balance of the wallet's account for refreshWalletState; never rejects
+   */
+  private async queryWalletState(): Promise<void> {
+    if (!this.eventPollTimer) {
+      return;
+    }
+
+    try {
+      const { address } = await this.getAccountImpl();
+      const token = this.getNativeToken();
+      const balance = await this.endpointPool.execute(() => this.balanceOfImpl({ address: address as Address, token }));
+      this.setConnectionState('connected');
+
+      if (this.watchedBalance && !balance.eq(this.watchedBalance)) {
+        this.emit('balanceChanged', { address, token, balance, previousBalance: this.watchedBalance });
+      }
+      // Polling may have stopped while the balance was queried
+      if (this.eventPollTimer) {
+        this.watchedBalance = balance;
+      }
+    } catch (error) {
+      const cause = error instanceof Error ? error : new Error(String(error));
+      this.logger.debug('Wallet state refresh failed', {
+        context: 'BaseChainWallet.queryWalletState',
+        data: { error: cause.message }
+      });
+      this.setConnectionState('disconnected', cause);
+    }
+  }
+
+  /**
+   * Waits in the background for transactions broadcast by this wallet and emits transactionConfirmed
+   * Only runs while transactionConfirmed has listeners.
+   * @param txHashes - Hashes of the broadcast transactions; duplicates are waited for once
+   */
+  private trackConfirmations(txHashes: string[]): void {
+    if (this.events.listenerCount('transactionConfirmed') === 0) {
+      return;
+    }
+
+    for (const txHash of new Set(txHashes)) {
+      this.endpointPool
+        .execute(() => this.waitForConfirmationImpl({ txHash }))
+        .then((result) => {
+          if (result.isConfirmed) {
+            this.emit('transactionConfirmed', { txHash, result });
+          }
+        })
+        .catch((error) => {
+          this.logger.debug('Background confirmation wait failed', {
+            context: 'BaseChainWallet.trackConfirmations',
+            data: { txHash, error: error instanceof Error ? error.message : String(error) }
+          });
+        });
+    }
+  }
 }
@@ -73,7 +73,7 @@ const COMMON_NETWORK_ERROR_PATTERNS = [
 /**
  * Check if an error is a network error that should be retried
  */
-function isRetriableNetworkError(error: unknown, additionalPatterns: readonly string[] = []): boolean {
+export function isRetriableNetworkError(error: unknown, additionalPatterns: readonly string[] = []): boolean {
   if (error instanceof Error) {
     const message = error.message.toLowerCase();
 
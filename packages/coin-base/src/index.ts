@@ -4,6 +4,9 @@ export * from './types';
 // Export base classes
 export * from './base-chain-wallet';
 
+// Export signers
+export * from './signer';
+
 // Export decorators
 export * from './decorators';
 
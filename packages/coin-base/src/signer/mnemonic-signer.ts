@@ -0,0 +1,113 @@
+import {
+  deriveEcdsaPrivateKey,
+  deriveEd25519PrivateKey,
+  getEcdsaPublicKey,
+  getEd25519PublicKey,
+  signEcdsaDigest,
+  signEd25519,
+  clearSensitiveArrays,
+  EncodingFormat,
+  base
+} from '@delandlabs/crypto-lib';
+import { ISigner, SignerKeyType } from '../types/signer';
+import { ArgumentError, HibitIdSdkErrorCode } from '../types/errors';
+import { GeneralWalletError } from '../types/general-wallet-error';
+import { assertValidMnemonic, assertValidDerivationPath } from '../utils/wallet-utils';
+
+/**
+ * Options for MnemonicSigner
+ */
+export interface MnemonicSignerOptions {
+  /** Key algorithm to derive */
+  keyType: SignerKeyType;
+  /** Derivation path of the signing key, e.g. "m/44'/60'/0'/0/0" */
+  derivationPath: string;
+}
+
+/**
+ * Default signer holding a key derived from a BIP39 mnemonic
+ *
+ * secp256k1 keys are derived with BIP32, Ed25519 keys with SLIP-0010.
+ * The key is derived on first use; the mnemonic is released as soon as it has been derived.
+ */
+export class MnemonicSigner implements ISigner {
+  public readonly keyType: SignerKeyType;
+  private readonly derivationPath: string;
+  private mnemonic: string | null;
+  private privateKey: Promise<Uint8Array> | null = null;
+
+  /**
+   * Creates a new MnemonicSigner
+   * @param mnemonic - The mnemonic phrase to derive the key from
+   * @param options - Key algorithm and derivation path
+   * @throws {MnemonicError} When the mnemonic or the derivation path is invalid
+   */
+  constructor(mnemonic: string, options: MnemonicSignerOptions) {
+    assertValidMnemonic(mnemonic);
+    assertValidDerivationPath(options.derivationPath, 'MnemonicSigner', options.keyType === 'ed25519');
+
+    this.keyType = options.keyType;
+    this.derivationPath = options.derivationPath;
+    this.mnemonic = mnemonic;
+  }
+
+  public async getPublicKey(): Promise<Uint8Array> {
+    const privateKey = await this.getPrivateKey();
+    return this.keyType === 'ed25519' ? getEd25519PublicKey(privateKey) : getEcdsaPublicKey(privateKey);
+  }
+
+  public async signBytes(message: Uint8Array): Promise<Uint8Array> {
+    if (this.keyType === 'secp256k1') {
+      return this.signDigest(base.sha256(message));
+    }
+    return signEd25519(await this.getPrivateKey(), message);
+  }
+
+  public async signDigest(digest: Uint8Array): Promise<Uint8Array> {
+    if (this.keyType !== 'secp256k1') {
+      throw new GeneralWalletError(
+        HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+        'MnemonicSigner: Ed25519 keys cannot sign precomputed digests'
+      );
+    }
+    if (digest.length !== 32) {
+      throw new ArgumentError(HibitIdSdkErrorCode.INVALID_ARGUMENT, 'MnemonicSigner: Digest must be 32 bytes', {
+        argumentName: 'digest',
+        expectedType: '32-byte Uint8Array',
+        providedValue: `${digest.length} bytes`
+      });
+    }
+    return signEcdsaDigest(await this.getPrivateKey(), digest);
+  }
+
+  public destroy(): void {
+    this.mnemonic = null;
+    this.privateKey?.then((privateKey) => clearSensitiveArrays(privateKey)).catch(() => undefined);
+    this.privateKey = null;
+  }
+
+  /**
+   * Derive the private key on first use and cache it
+   */
+  private getPrivateKey(): Promise<Uint8Array> {
+    if (!this.privateKey) {
+      if (!this.mnemonic) {
+        throw new GeneralWalletError(
+          HibitIdSdkErrorCode.WALLET_NOT_CONNECTED,
+          'MnemonicSigner: Signer has been destroyed'
+        );
+      }
+      this.privateKey = this.derivePrivateKey(this.mnemonic);
+      this.mnemonic = null;
+    }
+    return this.privateKey;
+  }
+
+  private async derivePrivateKey(mnemonic: string): Promise<Uint8Array> {
+    const privateKeyHex =
+      this.keyType === 'ed25519'
+        ? await deriveEd25519PrivateKey(mnemonic, this.derivationPath, false, EncodingFormat.HEX)
+        : await deriveEcdsaPrivateKey(mnemonic, this.derivationPath);
+    return base.fromHex(privateKeyHex);
+  }
+}
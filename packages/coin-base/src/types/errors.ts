@@ -62,6 +62,7 @@ export enum HibitIdSdkErrorCode {
   // --- User Interaction & Connection Errors ---
   USER_CANCEL_CONNECTION = 'USER_CANCEL_CONNECTION',
   WALLET_NOT_CONNECTED = 'WALLET_NOT_CONNECTED',
+  WATCH_ONLY_WALLET = 'WATCH_ONLY_WALLET',
 
   // --- Mnemonic & Key Errors ---
   INVALID_MNEMONIC = 'INVALID_MNEMONIC',
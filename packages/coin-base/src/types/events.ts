@@ -0,0 +1,79 @@
+import BigNumber from 'bignumber.js';
+import { TokenIdentifier, TransactionConfirmationResult } from './wallet';
+
+/**
+ * State of a wallet's connection to its chain
+ */
+export type ConnectionState = 'connected' | 'reconnecting' | 'disconnected';
+
+/**
+ * Payload of the balanceChanged event
+ */
+export interface BalanceChangedEvent {
+  /** Address of the wallet's account */
+  address: string;
+  /** Asset whose balance changed */
+  token: TokenIdentifier;
+  /** New balance in smallest unit */
+  balance: BigNumber;
+  /** Previous balance in smallest unit */
+  previousBalance: BigNumber;
+}
+
+/**
+ * Payload of the transactionConfirmed event
+ */
+export interface TransactionConfirmedEvent {
+  /** Hash of the confirmed transaction */
+  txHash: string;
+  /** Confirmation details */
+  result: TransactionConfirmationResult;
+}
+
+/**
+ * Payload of the connectionStateChanged event
+ */
+export interface ConnectionStateChangedEvent {
+  /** New connection state */
+  state: ConnectionState;
+  /** Previous connection state, undefined for the first observation */
+  previousState?: ConnectionState;
+  /** Error that caused the change, if any */
+  error?: Error;
+}
+
+/**
+ * Payload of the rpcFailover event
+ */
+export interface RpcFailoverEvent {
+  /** Endpoint that failed */
+  from: string;
+  /** Endpoint used from now on */
+  to: string;
+  /** Error that caused the failover */
+  error?: Error;
+}
+
+/**
+ * Events emitted by chain wallets, keyed by event name
+ */
+export interface WalletEventMap {
+  /** Native balance of the wallet's account changed */
+  balanceChanged: BalanceChangedEvent;
+  /** A transaction broadcast by the wallet was confirmed */
+  transactionConfirmed: TransactionConfirmedEvent;
+  /** The connection to the chain was established, lost or is being re-established */
+  connectionStateChanged: ConnectionStateChangedEvent;
+  /** The wallet switched to another RPC endpoint */
+  rpcFailover: RpcFailoverEvent;
+}
+
+/**
+ * Name of a wallet event
+ */
+export type WalletEventName = keyof WalletEventMap;
+
+/**
+ * Listener of a wallet event
+ */
+export type WalletEventListener<E extends WalletEventName> = (event: WalletEventMap[E]) => void;
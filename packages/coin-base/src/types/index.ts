@@ -5,3 +5,5 @@ export * from './errors';
 export * from './general-wallet-error';
 export * from './wallet';
 export * from './branded';
+export * from './signer';
+export * from './events';
@@ -0,0 +1,49 @@
+/**
+ * Key algorithm of a signer
+ */
+export type SignerKeyType = 'secp256k1' | 'ed25519';
+
+/**
+ * Signing backend a chain wallet can be constructed from instead of a mnemonic
+ *
+ * Implementations only expose signing operations, so the key may live outside the
+ * process (an MPC service, a secure enclave, a hardware device).
+ *
+ * @example
+ * ```typescript
+ * const signer = new MnemonicSigner(mnemonic, { keyType: 'secp256k1', derivationPath: "m/44'/60'/0'/0/0" });
+ * const wallet = new EthereumChainWallet(chainInfo, signer);
+ * ```
+ */
+export interface ISigner {
+  /** Key algorithm of the signing key */
+  readonly keyType: SignerKeyType;
+
+  /**
+   * Get the public key
+   * @returns The 33-byte compressed secp256k1 key or the 32-byte Ed25519 key
+   */
+  getPublicKey(): Promise<Uint8Array>;
+
+  /**
+   * Sign a message
+   * Ed25519 signs the message itself, secp256k1 signs its SHA-256 digest.
+   * @param message - Message bytes
+   * @returns The 64-byte Ed25519 signature or a secp256k1 signature as returned by signDigest
+   */
+  signBytes(message: Uint8Array): Promise<Uint8Array>;
+
+  /**
+   * Sign a precomputed 32-byte digest
+   * Only supported by secp256k1 signers.
+   * @param digest - 32-byte digest
+   * @returns The 65-byte low-s signature: r (32 bytes) || s (32 bytes) || recovery id (1 byte)
+   */
+  signDigest(digest: Uint8Array): Promise<Uint8Array>;
+
+  /**
+   * Release key material held by the signer
+   * Wallets only destroy signers they created themselves.
+   */
+  destroy?(): void;
+}
@@ -8,6 +8,8 @@ import { Address } from './branded';
 export interface TokenIdentifier {
   assetType: ChainAssetType;
   tokenAddress?: string;
+  /** Token ID within the contract, as a decimal string, for non-fungible and multi-token assets */
+  tokenId?: string;
 }
 
 /**
@@ -75,3 +77,157 @@ export interface TransactionConfirmationResult {
   /** Final transaction fee */
   transactionFee?: BigNumber;
 }
+
+/**
+ * Unsigned transaction produced by buildTransfer
+ *
+ * Only plain JSON values are used so the object can be persisted, shown on a
+ * review screen or handed to an offline signer before signTransaction.
+ */
+export interface UnsignedTransaction<TData = unknown> {
+  /** Chain the transaction was built for */
+  chain: string;
+  /** Network the transaction was built for */
+  network: string;
+  /** Recipient address of the transfer */
+  recipientAddress: string;
+  /** Transfer amount in the asset's smallest unit, as a decimal string */
+  amount: string;
+  /** Asset being transferred */
+  token: TokenIdentifier;
+  /** Optional memo/payload attached to the transfer */
+  payload?: string;
+  /** Chain-specific unsigned transaction data */
+  data: TData;
+}
+
+/**
+ * Signed transaction produced by signTransaction
+ *
+ * Can be stored and passed to broadcastTransaction any number of times
+ * without signing again.
+ */
+export interface SignedTransaction<TData = unknown> {
+  /** Chain the transaction was signed for */
+  chain: string;
+  /** Network the transaction was signed for */
+  network: string;
+  /** Asset being transferred */
+  token: TokenIdentifier;
+  /** Transaction hash/ID when it can be derived before broadcast */
+  txHash?: string;
+  /** Chain-specific signed transaction data */
+  data: TData;
+}
+
+/**
+ * Expected change of one address's balance in one asset
+ */
+export interface BalanceChange {
+  /** Address whose balance changes */
+  address: string;
+  /** Asset whose balance changes */
+  token: TokenIdentifier;
+  /** Signed change in the asset's smallest unit, negative when funds leave the address */
+  amount: BigNumber;
+}
+
+/**
+ * Result of simulateTransfer
+ */
+export interface TransferSimulationResult {
+  /** Whether the transfer is expected to succeed */
+  success: boolean;
+  /** Expected fee in the smallest unit of the asset it is paid in, normally the native asset */
+  fee: BigNumber;
+  /** Expected balance changes, empty when the transfer would fail */
+  balanceChanges: BalanceChange[];
+  /** Revert or failure reason when the transfer would fail */
+  failureReason?: string;
+}
+
+/**
+ * HD derivation options accepted by chain wallet constructors
+ */
+export interface DerivationOptions {
+  /** Account index substituted into the chain's standard derivation path (default: 0) */
+  accountIndex?: number;
+  /** Custom derivation path such as "m/44'/60'/0'/0/5", used instead of the chain's standard path */
+  derivationPath?: string;
+}
+
+/**
+ * Account observed by a watch-only wallet, which holds no key
+ */
+export interface WatchOnlyAccount {
+  /** Address of the account */
+  address: string;
+  /**
+   * Hex-encoded public key of the account
+   * Reported by getAccount; required by chains that derive the wallet contract from it (TON)
+   */
+  publicKeyHex?: string;
+}
+
+/**
+ * Range of HD account indexes for getAccounts
+ */
+export interface AccountRange {
+  /** First account index (default: 0) */
+  start?: number;
+  /** Number of consecutive accounts to derive */
+  count: number;
+}
+
+/**
+ * Transaction history query parameters
+ */
+export interface TransactionHistoryParams<Chain extends ChainType = ChainType> {
+  /** Address whose transactions are listed */
+  address: Address<Chain>;
+  /** Asset whose transfers are listed */
+  token: TokenIdentifier;
+  /** Opaque cursor returned as nextCursor by the previous page; omit for the newest transactions */
+  cursor?: string;
+  /** Maximum number of records to return (default: 20, maximum: 100) */
+  limit?: number;
+}
+
+/**
+ * Direction of a transfer relative to the queried address
+ */
+export type TransactionDirection = 'incoming' | 'outgoing' | 'self';
+
+/**
+ * Normalized transfer of one asset from a chain's transaction history
+ */
+export interface TransactionRecord {
+  /** Transaction hash/ID */
+  hash: string;
+  /** Direction relative to the queried address */
+  direction: TransactionDirection;
+  /** Sender for incoming transfers, recipient otherwise */
+  counterparty: string;
+  /** Transferred amount in the asset's smallest unit */
+  amount: BigNumber;
+  /** Transferred asset */
+  token: TokenIdentifier;
+  /** Fee paid by the sender in the native asset's smallest unit, when known */
+  fee?: BigNumber;
+  /** Transaction status */
+  status: 'pending' | 'confirmed' | 'failed';
+  /** Block time in milliseconds since the epoch, when known */
+  timestamp?: number;
+  /** Memo attached to the transaction, on chains that support memos */
+  memo?: string;
+}
+
+/**
+ * One page of transaction history, newest first
+ */
+export interface TransactionHistoryPage {
+  /** Transfers on this page */
+  records: TransactionRecord[];
+  /** Cursor for the next (older) page, undefined when there are no older transactions */
+  nextCursor?: string;
+}
@@ -0,0 +1,318 @@
+import { RpcConfiguration } from '../types/chain';
+import { RpcFailoverEvent } from '../types/events';
+import { NetworkError, WalletError, HibitIdSdkErrorCode } from '../types/errors';
+import { isRetriableNetworkError } from '../decorators/retry';
+import { ILogger, NoOpLogger } from './logger';
+
+/**
+ * Weight of the newest sample in the latency moving average
+ */
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * Error codes of NetworkError that indicate an unreachable or failing endpoint
+ */
+const ENDPOINT_ERROR_CODES: readonly HibitIdSdkErrorCode[] = [
+  HibitIdSdkErrorCode.NETWORK_REQUEST_FAILED,
+  HibitIdSdkErrorCode.NETWORK_TIMEOUT,
+  HibitIdSdkErrorCode.NETWORK_UNAVAILABLE
+];
+
+/**
+ * Default check whether an error was caused by the endpoint
+ * SDK errors count only as network errors; other errors are matched by their message.
+ */
+function isDefaultEndpointError(error: unknown): boolean {
+  if (error instanceof WalletError) {
+    return error instanceof NetworkError && ENDPOINT_ERROR_CODES.includes(error.code);
+  }
+  return isRetriableNetworkError(error);
+}
+
+/**
+ * Options for EndpointPool
+ */
+export interface EndpointPoolOptions {
+  /** Name of the chain for log and error messages */
+  chainName: string;
+  /** Logger instance */
+  logger?: ILogger;
+  /** Consecutive failures after which an endpoint is skipped for the cooldown (default: 3) */
+  failureThreshold?: number;
+  /** How long an endpoint with an open circuit is skipped in milliseconds (default: 30000) */
+  cooldownMs?: number;
+  /** Whether an error was caused by the endpoint (default: network errors and network error messages) */
+  isEndpointError?: (error: unknown) => boolean;
+  /** Called after the pool switched to another endpoint; awaited before a failed operation is repeated */
+  onFailover?: (event: RpcFailoverEvent) => void | Promise<void>;
+}
+
+/**
+ * Health of an RPC endpoint as tracked by EndpointPool
+ */
+export interface EndpointHealth {
+  /** Endpoint URL */
+  url: string;
+  /** Whether the endpoint is the one requests currently go to */
+  active: boolean;
+  /** False while the endpoint's circuit is open after repeated failures */
+  healthy: boolean;
+  /** Moving average of the request latency in milliseconds, undefined before the first success */
+  latencyMs?: number;
+  /** Failures since the last success */
+  consecutiveFailures: number;
+  /** Requests sent to the endpoint */
+  totalRequests: number;
+  /** Requests that failed because of the endpoint */
+  totalFailures: number;
+  /** Message of the last endpoint error */
+  lastError?: string;
+  /** Time (ms since epoch) until which the endpoint is skipped, set while its circuit is open */
+  circuitOpenUntil?: number;
+}
+
+/**
+ * Options for EndpointPool.execute
+ */
+export interface EndpointExecuteOptions {
+  /**
+   * Whether to repeat the operation on the next endpoint after an endpoint error (default: true)
+   * Disable for operations that must not be repeated, such as broadcasting a transfer.
+   */
+  retry?: boolean;
+}
+
+/**
+ * Pool of the RPC endpoints of a chain with latency tracking, circuit breaking and failover
+ *
+ * Requests go to one active endpoint at a time, starting with the primary endpoint, so clients
+ * bound to a URL only need to be recreated when the pool fails over. An endpoint error moves the
+ * pool to the healthy endpoint with the fewest recent failures and the lowest latency; after
+ * `failureThreshold` consecutive failures an endpoint's circuit opens and it is skipped until the
+ * cooldown has passed.
+ *
+ * @example
+ * ```typescript
+ * const pool = new EndpointPool(chainInfo.rpc, {
+ *   chainName: 'Ethereum',
+ *   onFailover: (event) => (client = createClient(event.to))
+ * });
+ * const blockNumber = await pool.execute(() => client.getBlockNumber());
+ * ```
+ */
+export class EndpointPool {
+  private readonly endpoints: EndpointHealth[];
+  private readonly chainName: string;
+  private readonly logger: ILogger;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly isEndpointError: (error: unknown) => boolean;
+  private readonly onFailover?: (event: RpcFailoverEvent) => void | Promise<void>;
+  private activeIndex = 0;
+
+  /**
+   * Creates a pool of the primary and fallback endpoints of an RPC configuration
+   * Empty and duplicate URLs are ignored; the WebSocket endpoint is not part of the pool.
+   * @param rpc - RPC configuration of the chain
+   * @param options - Pool options
+   */
+  constructor(rpc: RpcConfiguration | undefined, options: EndpointPoolOptions) {
+    const urls = [rpc?.primary, ...(rpc?.fallbacks ?? [])]
+      .map((url) => url?.trim())
+      .filter((url): url is string => !!url);
+    this.endpoints = [...new Set(urls)].map((url) => ({
+      url,
+      active: false,
+      healthy: true,
+      consecutiveFailures: 0,
+      totalRequests: 0,
+      totalFailures: 0
+    }));
+
+    this.chainName = options.chainName;
+    this.logger = options.logger ?? new NoOpLogger();
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.cooldownMs = options.cooldownMs ?? 30000;
+    this.isEndpointError = options.isEndpointError ?? isDefaultEndpointError;
+    this.onFailover = options.onFailover;
+  }
+
+  /**
+   * Whether any endpoint is configured
+   */
+  hasEndpoints(): boolean {
+    return this.endpoints.length > 0;
+  }
+
+  /**
+   * URL of the endpoint requests currently go to
+   * @throws {NetworkError} When no endpoint is configured
+   */
+  getCurrentUrl(): string {
+    if (!this.hasEndpoints()) {
+      throw new NetworkError(
+        HibitIdSdkErrorCode.INVALID_CONFIGURATION,
+        `${this.chainName}: RPC URL must be provided in chainInfo.rpc.primary`
+      );
+    }
+    return this.endpoints[this.activeIndex].url;
+  }
+
+  /**
+   * Health of all endpoints, in configuration order
+   */
+  getHealth(): EndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map((endpoint, index) => ({
+      ...endpoint,
+      active: index === this.activeIndex,
+      healthy: this.isAvailable(endpoint, now)
+    }));
+  }
+
+  /**
+   * Runs an operation against the current endpoint and records its outcome
+   * Errors that are not caused by the endpoint are rethrown without affecting its health.
+   * With no endpoint configured the operation runs unrecorded.
+   * @param operation - Operation reading the current endpoint from the pool or from a client bound to it
+   * @param options - Execution options
+   * @returns The operation result
+   */
+  async execute<T>(operation: () => Promise<T>, options: EndpointExecuteOptions = {}): Promise<T> {
+    if (!this.hasEndpoints()) {
+      return operation();
+    }
+
+    const attempted = new Set<number>();
+    for (;;) {
+      const index = this.activeIndex;
+      attempted.add(index);
+      const startTime = Date.now();
+      try {
+        const result = await operation();
+        this.recordSuccess(index, Date.now() - startTime);
+        return result;
+      } catch (error) {
+        if (!this.isEndpointError(error)) {
+          throw error;
+        }
+        this.recordFailure(index, error);
+
+        const switched = await this.failover(index, error);
+        if (options.retry === false || !switched || attempted.has(this.activeIndex)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Probes every endpoint and records the outcome like a request
+   * Moves to a healthy endpoint if the current one fails its probe.
+   * @param probe - Request sent to an endpoint URL, rejecting when the endpoint is unusable
+   * @returns Health of all endpoints after the probes
+   * @throws {WalletError} When the probe rejects with OPERATION_NOT_SUPPORTED
+   */
+  async checkHealth(probe: (url: string) => Promise<void>): Promise<EndpointHealth[]> {
+    const results = await Promise.allSettled(
+      this.endpoints.map(async (endpoint) => {
+        const startTime = Date.now();
+        await probe(endpoint.url);
+        return Date.now() - startTime;
+      })
+    );
+
+    // A probe the chain does not implement says nothing about the endpoints
+    const unsupported = results.find(
+      (result): result is PromiseRejectedResult =>
+        result.status === 'rejected' &&
+        result.reason instanceof WalletError &&
+        result.reason.code === HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED
+    );
+    if (unsupported) {
+      throw unsupported.reason;
+    }
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        this.recordSuccess(index, result.value);
+      } else {
+        this.recordFailure(index, result.reason);
+      }
+    });
+
+    const active = this.endpoints[this.activeIndex];
+    if (active && active.consecutiveFailures > 0) {
+      await this.failover(this.activeIndex, new Error(active.lastError));
+    }
+    return this.getHealth();
+  }
+
+  private recordSuccess(index: number, latencyMs: number): void {
+    const endpoint = this.endpoints[index];
+    endpoint.totalRequests++;
+    endpoint.consecutiveFailures = 0;
+    endpoint.circuitOpenUntil = undefined;
+    endpoint.latencyMs =
+      endpoint.latencyMs === undefined
+        ? latencyMs
+        : Math.round(LATENCY_SMOOTHING * latencyMs + (1 - LATENCY_SMOOTHING) * endpoint.latencyMs);
+  }
+
+  private recordFailure(index: number, error: unknown): void {
+    const endpoint = this.endpoints[index];
+    endpoint.totalRequests++;
+    endpoint.totalFailures++;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = error instanceof Error ? error.message : String(error);
+
+    if (endpoint.consecutiveFailures >= this.failureThreshold) {
+      endpoint.circuitOpenUntil = Date.now() + this.cooldownMs;
+      this.logger.warn('RPC endpoint circuit opened', {
+        context: 'EndpointPool.recordFailure',
+        data: { chain: this.chainName, url: endpoint.url, cooldownMs: this.cooldownMs }
+      });
+    }
+  }
+
+  /**
+   * Moves away from a failed endpoint to the best available other endpoint
+   * @returns Whether the active endpoint changed
+   */
+  private async failover(failedIndex: number, error: unknown): Promise<boolean> {
+    if (failedIndex !== this.activeIndex) {
+      // Another request already moved the pool
+      return true;
+    }
+
+    const now = Date.now();
+    const candidates = this.endpoints
+      .map((endpoint, index) => ({ endpoint, index }))
+      .filter(({ endpoint, index }) => index !== failedIndex && this.isAvailable(endpoint, now))
+      .sort(
+        (a, b) =>
+          a.endpoint.consecutiveFailures - b.endpoint.consecutiveFailures ||
+          (a.endpoint.latencyMs ?? Infinity) - (b.endpoint.latencyMs ?? Infinity) ||
+          a.index - b.index
+      );
+    if (candidates.length === 0) {
+      return false;
+    }
+
+    const from = this.endpoints[failedIndex].url;
+    this.activeIndex = candidates[0].index;
+    const to = this.endpoints[this.activeIndex].url;
+    const cause = error instanceof Error ? error : new Error(String(error));
+
+    this.logger.warn('RPC endpoint failover', {
+      context: 'EndpointPool.failover',
+      data: { chain: this.chainName, from, to, error: cause.message }
+    });
+    await this.onFailover?.({ from, to, error: cause });
+    return true;
+  }
+
+  private isAvailable(endpoint: EndpointHealth, now: number): boolean {
+    return endpoint.circuitOpenUntil === undefined || endpoint.circuitOpenUntil <= now;
+  }
+}
@@ -0,0 +1,82 @@
+import { ILogger } from './logger';
+
+/**
+ * Event emitter whose event names and payloads are typed by an event map
+ *
+ * Listeners are called synchronously in registration order. A listener that throws is
+ * logged and does not prevent the remaining listeners from being called.
+ *
+ * @example
+ * ```typescript
+ * const emitter = new TypedEventEmitter<{ ready: { at: number } }>(logger, 'MyService');
+ * emitter.on('ready', (event) => console.log(event.at));
+ * emitter.emit('ready', { at: Date.now() });
+ * ```
+ */
+export class TypedEventEmitter<TEvents extends object> {
+  private readonly listeners = new Map<keyof TEvents, Set<(payload: TEvents[keyof TEvents]) => void>>();
+
+  /**
+   * @param logger - Logger for listener failures
+   * @param context - Log context of the owner
+   */
+  constructor(
+    private readonly logger: ILogger,
+    private readonly context: string
+  ) {}
+
+  /**
+   * Register a listener; registering the same listener twice has no effect
+   */
+  on<E extends keyof TEvents>(event: E, listener: (payload: TEvents[E]) => void): void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener as (payload: TEvents[keyof TEvents]) => void);
+  }
+
+  /**
+   * Remove a listener registered with on
+   */
+  off<E extends keyof TEvents>(event: E, listener: (payload: TEvents[E]) => void): void {
+    const listeners = this.listeners.get(event);
+    listeners?.delete(listener as (payload: TEvents[keyof TEvents]) => void);
+    if (listeners?.size === 0) {
+      this.listeners.delete(event);
+    }
+  }
+
+  /**
+   * Call the listeners of an event
+   */
+  emit<E extends keyof TEvents>(event: E, payload: TEvents[E]): void {
+    // Copy so listeners may remove themselves while being called
+    for (const listener of [...(this.listeners.get(event) ?? [])]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.logger.error('Event listener failed', {
+          error: error instanceof Error ? error : new Error(String(error)),
+          context: `${this.context}.emit`,
+          data: { event: String(event) }
+        });
+      }
+    }
+  }
+
+  /**
+   * Number of listeners registered for an event
+   */
+  listenerCount(event: keyof TEvents): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  /**
+   * Remove all listeners of all events
+   */
+  removeAllListeners(): void {
+    this.listeners.clear();
+  }
+}
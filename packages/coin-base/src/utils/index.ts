@@ -1,3 +1,5 @@
 export * from './wallet-utils';
 export * from './chain-helpers';
 export * from './logger';
+export * from './event-emitter';
+export * from './endpoint-pool';
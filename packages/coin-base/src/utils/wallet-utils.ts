@@ -1,6 +1,28 @@
-import { BalanceQueryError, TransactionError, FeeEstimationError, HibitIdSdkErrorCode } from '../types/errors';
+import BigNumber from 'bignumber.js';
+import {
+  BalanceQueryError,
+  TransactionError,
+  FeeEstimationError,
+  ArgumentError,
+  MnemonicError,
+  HibitIdSdkErrorCode
+} from '../types/errors';
+import { ChainInfo } from '../types/chain';
+import {
+  TransferParams,
+  TokenIdentifier,
+  UnsignedTransaction,
+  SignedTransaction,
+  BalanceChange,
+  TransferSimulationResult,
+  AccountRange,
+  TransactionDirection,
+  WatchOnlyAccount
+} from '../types/wallet';
+import { ISigner } from '../types/signer';
 import { ChainValidation } from '../validation/chain-validation';
 import { ChainType } from '@delandlabs/hibit-basic-types';
+import { validateMnemonic } from '@delandlabs/crypto-lib';
 
 /**
  * Common utility functions for wallet implementations
@@ -266,3 +288,368 @@ export function createReadyPromise(initFunction: () => Promise<void>): Promise<v
     initFunction().then(resolve).catch(reject);
   });
 }
+
+/**
+ * Wraps chain-specific unsigned data together with the transfer intent
+ * @param chainInfo - Chain the transaction is built for
+ * @param params - Original transfer parameters
+ * @param data - Chain-specific unsigned transaction data
+ * @returns Serializable unsigned transaction
+ */
+export function createUnsignedTransaction<TData>(
+  chainInfo: ChainInfo,
+  params: TransferParams,
+  data: TData
+): UnsignedTransaction<TData> {
+  return {
+    chain: chainInfo.chainId.chain.toString(),
+    network: chainInfo.chainId.network.toString(),
+    recipientAddress: params.recipientAddress,
+    amount: params.amount.toFixed(),
+    token: {
+      assetType: params.token.assetType,
+      tokenAddress: params.token.tokenAddress,
+      tokenId: params.token.tokenId
+    },
+    payload: params.payload,
+    data
+  };
+}
+
+/**
+ * Wraps chain-specific signed data, keeping the chain binding of the unsigned transaction
+ * @param unsigned - The unsigned transaction that was signed
+ * @param data - Chain-specific signed transaction data
+ * @param txHash - Transaction hash if known before broadcast
+ * @returns Serializable signed transaction
+ */
+export function createSignedTransaction<TData>(
+  unsigned: UnsignedTransaction,
+  data: TData,
+  txHash?: string
+): SignedTransaction<TData> {
+  return {
+    chain: unsigned.chain,
+    network: unsigned.network,
+    token: unsigned.token,
+    txHash,
+    data
+  };
+}
+
+/**
+ * Validates that a built or signed transaction belongs to the given chain
+ * @param transaction - Unsigned or signed transaction to check
+ * @param chainInfo - Chain of the wallet handling the transaction
+ * @param chainName - Name of the chain for error message
+ */
+export function assertTransactionForChain(
+  transaction: Pick<UnsignedTransaction, 'chain' | 'network'> | undefined,
+  chainInfo: ChainInfo,
+  chainName: string
+): void {
+  if (!transaction || transaction.chain === undefined || transaction.network === undefined) {
+    throw new ArgumentError(HibitIdSdkErrorCode.INVALID_ARGUMENT, `${chainName}: Missing transaction`, {
+      argumentName: 'transaction'
+    });
+  }
+
+  if (
+    transaction.chain !== chainInfo.chainId.chain.toString() ||
+    transaction.network !== chainInfo.chainId.network.toString()
+  ) {
+    throw new ArgumentError(
+      HibitIdSdkErrorCode.INVALID_ARGUMENT,
+      `${chainName}: Transaction was built for a different chain`,
+      {
+        argumentName: 'transaction',
+        providedValue: `${transaction.chain}/${transaction.network}`
+      }
+    );
+  }
+}
+
+/**
+ * Lists the balance changes of a successful transfer
+ * @param senderAddress - Address the transfer is sent from
+ * @param params - Transfer parameters
+ * @param fee - Fee in smallest unit of the fee token
+ * @param nativeToken - Token the fee is paid in, normally the chain's native asset
+ * @returns Balance changes of the sender and the recipient
+ */
+export function createTransferBalanceChanges(
+  senderAddress: string,
+  params: TransferParams,
+  fee: BigNumber,
+  nativeToken: TokenIdentifier
+): BalanceChange[] {
+  const token = { assetType: params.token.assetType, tokenAddress: params.token.tokenAddress };
+
+  if (token.assetType === nativeToken.assetType) {
+    return [
+      { address: senderAddress, token, amount: params.amount.plus(fee).negated() },
+      { address: params.recipientAddress, token, amount: params.amount }
+    ];
+  }
+
+  return [
+    { address: senderAddress, token, amount: params.amount.negated() },
+    { address: params.recipientAddress, token, amount: params.amount },
+    { address: senderAddress, token: nativeToken, amount: fee.negated() }
+  ];
+}
+
+/**
+ * Creates the simulation result of a transfer that is expected to fail
+ * @param failureReason - Revert or failure reason reported by the chain
+ * @param fee - Fee estimate, if one could be obtained
+ * @returns Failed simulation result
+ */
+export function createFailedTransferSimulation(
+  failureReason: string,
+  fee: BigNumber = new BigNumber(0)
+): TransferSimulationResult {
+  return {
+    success: false,
+    fee,
+    balanceChanges: [],
+    failureReason
+  };
+}
+
+/**
+ * Highest HD account index; indexes at or above 2^31 are reserved for hardened derivation
+ */
+const MAX_ACCOUNT_INDEX = 0x7fffffff;
+
+/**
+ * Maximum number of accounts derived by a single getAccounts call
+ */
+const MAX_ACCOUNT_RANGE_COUNT = 100;
+
+/**
+ * Validates an HD account index and throws ArgumentError if invalid
+ * @param accountIndex - The account index to validate
+ * @param chainName - Name of the chain for error message
+ */
+export function assertValidAccountIndex(accountIndex: number, chainName: string): void {
+  if (!Number.isInteger(accountIndex) || accountIndex < 0 || accountIndex > MAX_ACCOUNT_INDEX) {
+    throw new ArgumentError(HibitIdSdkErrorCode.INVALID_ARGUMENT, `${chainName}: Invalid account index`, {
+      argumentName: 'accountIndex',
+      expectedType: `integer between 0 and ${MAX_ACCOUNT_INDEX}`,
+      providedValue: String(accountIndex)
+    });
+  }
+}
+
+/**
+ * Validates an account range and throws ArgumentError if invalid
+ * @param range - The account range to validate
+ * @param chainName - Name of the chain for error message
+ */
+export function assertValidAccountRange(range: AccountRange, chainName: string): void {
+  const start = range.start ?? 0;
+  assertValidAccountIndex(start, chainName);
+
+  if (!Number.isInteger(range.count) || range.count < 1 || range.count > MAX_ACCOUNT_RANGE_COUNT) {
+    throw new ArgumentError(HibitIdSdkErrorCode.INVALID_ARGUMENT, `${chainName}: Invalid account count`, {
+      argumentName: 'count',
+      expectedType: `integer between 1 and ${MAX_ACCOUNT_RANGE_COUNT}`,
+      providedValue: String(range.count)
+    });
+  }
+
+  assertValidAccountIndex(start + range.count - 1, chainName);
+}
+
+/**
+ * Validates a BIP32 derivation path and throws MnemonicError if invalid
+ * @param derivationPath - The derivation path to validate, e.g. "m/44'/60'/0'/0/0"
+ * @param chainName - Name of the chain for error message
+ * @param hardenedOnly - Whether every segment must be hardened (SLIP-0010 Ed25519 derivation)
+ */
+export function assertValidDerivationPath(derivationPath: string, chainName: string, hardenedOnly = false): void {
+  const segments = derivationPath.split('/');
+  const isValid =
+    segments.length > 1 &&
+    segments[0] === 'm' &&
+    segments.slice(1).every((segment) => {
+      const match = /^(\d+)('?)$/.exec(segment);
+      return !!match && Number(match[1]) <= MAX_ACCOUNT_INDEX && (!hardenedOnly || match[2] === "'");
+    });
+
+  if (!isValid) {
+    throw new MnemonicError(
+      HibitIdSdkErrorCode.INVALID_DERIVATION_PATH,
+      `${chainName}: Invalid derivation path${hardenedOnly ? ', all segments must be hardened' : ''}`,
+      { derivationPath }
+    );
+  }
+}
+
+/**
+ * Validates a BIP39 mnemonic phrase and throws MnemonicError if invalid
+ * @param mnemonic - The mnemonic phrase to validate
+ */
+export function assertValidMnemonic(mnemonic: unknown): asserts mnemonic is string {
+  if (!mnemonic || typeof mnemonic !== 'string') {
+    throw new MnemonicError(HibitIdSdkErrorCode.INVALID_MNEMONIC, 'Mnemonic cannot be empty');
+  }
+
+  if (!validateMnemonic(mnemonic)) {
+    const wordCount = mnemonic.trim().split(/\s+/).length;
+    if (wordCount !== 12 && wordCount !== 24) {
+      throw new MnemonicError(
+        HibitIdSdkErrorCode.INVALID_MNEMONIC,
+        `Invalid mnemonic length (got ${wordCount} words, expected 12 or 24)`
+      );
+    }
+    throw new MnemonicError(HibitIdSdkErrorCode.INVALID_MNEMONIC, 'Invalid mnemonic phrase');
+  }
+}
+
+/**
+ * Checks whether a wallet credential is a signer
+ * @param value - Mnemonic phrase, signer or watch-only account passed to a wallet constructor
+ * @returns True if the value implements ISigner
+ */
+export function isSigner(value: unknown): value is ISigner {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const candidate = value as Partial<ISigner>;
+  return (
+    typeof candidate.getPublicKey === 'function' &&
+    typeof candidate.signBytes === 'function' &&
+    typeof candidate.signDigest === 'function'
+  );
+}
+
+/**
+ * Checks whether a wallet credential is a watch-only account
+ * @param value - Mnemonic phrase, signer or watch-only account passed to a wallet constructor
+ * @returns True if the value is a WatchOnlyAccount
+ */
+export function isWatchOnlyAccount(value: unknown): value is WatchOnlyAccount {
+  return typeof value === 'object' && value !== null && !isSigner(value) && 'address' in value;
+}
+
+/**
+ * Validates the account of a watch-only wallet and throws ArgumentError if invalid
+ * The address is checked with the chain's registered validator, if any.
+ * @param account - The watch-only account to validate
+ * @param chainType - The chain type enum
+ * @param chainName - Name of the chain for error message
+ */
+export function assertValidWatchOnlyAccount(account: WatchOnlyAccount, chainType: ChainType, chainName: string): void {
+  const { address, publicKeyHex } = account;
+  if (
+    typeof address !== 'string' ||
+    address.trim() === '' ||
+    (ChainValidation.hasValidator(chainType) && !ChainValidation.isValidWalletAddress(address, chainType))
+  ) {
+    throw new ArgumentError(HibitIdSdkErrorCode.INVALID_ARGUMENT, `${chainName}: Invalid watch-only address`, {
+      argumentName: 'address',
+      providedValue: String(address)
+    });
+  }
+
+  if (publicKeyHex !== undefined && !/^(0x)?([0-9a-fA-F]{2})+$/.test(publicKeyHex)) {
+    throw new ArgumentError(HibitIdSdkErrorCode.INVALID_ARGUMENT, `${chainName}: Invalid watch-only public key`, {
+      argumentName: 'publicKeyHex',
+      expectedType: 'hex string'
+    });
+  }
+}
+
+/**
+ * Default number of records per transaction history page
+ */
+const DEFAULT_HISTORY_LIMIT = 20;
+
+/**
+ * Maximum number of records per transaction history page
+ */
+const MAX_HISTORY_LIMIT = 100;
+
+/**
+ * Validates the page size of a transaction history query and applies the default
+ * @param limit - Requested page size
+ * @param chainName - Name of the chain for error message
+ * @returns The page size to use
+ */
+export function resolveHistoryLimit(limit: number | undefined, chainName: string): number {
+  if (limit === undefined) {
+    return DEFAULT_HISTORY_LIMIT;
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+    throw new ArgumentError(HibitIdSdkErrorCode.INVALID_ARGUMENT, `${chainName}: Invalid history limit`, {
+      argumentName: 'limit',
+      expectedType: `integer between 1 and ${MAX_HISTORY_LIMIT}`,
+      providedValue: String(limit)
+    });
+  }
+
+  return limit;
+}
+
+/**
+ * Determines the direction of a transfer relative to the queried address
+ * @param address - The queried address
+ * @param from - Sender of the transfer
+ * @param to - Recipient of the transfer
+ * @param normalize - Maps addresses to a comparable form, e.g. lower case for EVM addresses
+ * @returns Transfer direction
+ */
+export function getTransactionDirection(
+  address: string,
+  from: string,
+  to: string,
+  normalize: (value: string) => string = (value) => value
+): TransactionDirection {
+  const owner = normalize(address);
+  const isSender = normalize(from) === owner;
+  const isRecipient = normalize(to) === owner;
+
+  if (isSender && isRecipient) {
+    return 'self';
+  }
+  return isSender ? 'outgoing' : 'incoming';
+}
+
+/**
+ * Maximum number of transfers sent by a single batchTransfer call
+ */
+const MAX_BATCH_TRANSFER_COUNT = 100;
+
+/**
+ * Validates the transfer list of a batch transfer and throws ArgumentError if invalid
+ * The transfers themselves are validated by the chain wallet like single transfers.
+ * @param transfers - Transfers of the batch
+ * @param chainName - Name of the chain for error message
+ */
+export function assertValidBatchTransfers(transfers: TransferParams[], chainName: string): void {
+  if (!Array.isArray(transfers) || transfers.length < 1 || transfers.length > MAX_BATCH_TRANSFER_COUNT) {
+    throw new ArgumentError(HibitIdSdkErrorCode.INVALID_ARGUMENT, `${chainName}: Invalid batch transfer count`, {
+      argumentName: 'transfers',
+      expectedType: `array of 1 to ${MAX_BATCH_TRANSFER_COUNT} transfers`,
+      providedValue: Array.isArray(transfers) ? String(transfers.length) : typeof transfers
+    });
+  }
+}
+
+/**
+ * Splits items into consecutive chunks of at most `size` items
+ * Used to spread a batch transfer over transactions with a limited number of outputs.
+ * @param items - Items to split
+ * @param size - Maximum chunk size
+ * @returns Chunks in input order
+ */
+export function chunkItems<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
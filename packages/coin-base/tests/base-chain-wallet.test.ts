@@ -3,7 +3,13 @@ import { describe, expect, test, beforeEach, afterEach, vi } from 'vitest';
 import BigNumber from 'bignumber.js';
 import { BaseChainWallet } from '../src/base-chain-wallet';
 import { ChainInfo, Ecosystem } from '../src/types/chain';
-import { MnemonicError, HibitIdSdkErrorCode, MessageSigningError, TransactionError } from '../src/types/errors';
+import {
+  MnemonicError,
+  HibitIdSdkErrorCode,
+  MessageSigningError,
+  TransactionError,
+  ArgumentError
+} from '../src/types/errors';
 import { createAddress } from '../src/types/branded';
 import { setupTestValidators, cleanupTestValidators, TEST_ADDRESSES } from './test-validators';
 import {
@@ -14,9 +20,24 @@ import {
   WalletSignatureSchema,
   ChainAssetType
 } from '@delandlabs/hibit-basic-types';
-import { SignMessageParams, BalanceQueryParams, TransferParams, TokenIdentifier } from '../src/types/wallet';
+import {
+  SignMessageParams,
+  BalanceQueryParams,
+  TransferParams,
+  TokenIdentifier,
+  UnsignedTransaction,
+  SignedTransaction,
+  TransferSimulationResult,
+  DerivationOptions,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  WatchOnlyAccount
+} from '../src/types/wallet';
+import { createUnsignedTransaction, createSignedTransaction, assertTransactionForChain } from '../src/utils/wallet-utils';
 import { WalletConfig } from '../src/base-chain-wallet';
 import { ConsoleLogger, LogLevel } from '../src/utils/logger';
+import { ISigner, SignerKeyType } from '../src/types/signer';
+import { MnemonicSigner } from '../src/signer/mnemonic-signer';
 
 // Mock implementation for testing abstract class
 class MockChainWallet extends BaseChainWallet {
@@ -25,14 +46,6 @@ class MockChainWallet extends BaseChainWallet {
     return `0x${hdPath.replace(/[^0-9]/g, '')}address`;
   }
 
-  async signTransaction(transaction: any, hdPath: string): Promise<any> {
-    return { ...transaction, signature: 'mock-signature', hdPath };
-  }
-
-  async sendTransaction(signedTransaction: any): Promise<any> {
-    return { ...signedTransaction, hash: '0xmockhash' };
-  }
-
   isValidAddress(address: string): boolean {
     return address.startsWith('0x');
   }
@@ -40,11 +53,16 @@ class MockChainWallet extends BaseChainWallet {
   async getTransaction(txHash: string): Promise<any> {
     return { hash: txHash, status: 'confirmed' };
   }
-  constructor(chainInfo: ChainInfo, mnemonicPhrase: string) {
+  constructor(
+    chainInfo: ChainInfo,
+    mnemonicOrSigner: string | ISigner | WatchOnlyAccount,
+    derivationOptions?: DerivationOptions
+  ) {
     const config: WalletConfig = {
-      chainInfo
+      chainInfo,
+      ...derivationOptions
     };
-    super(config, mnemonicPhrase);
+    super(config, mnemonicOrSigner);
   }
 
   protected async getAccountImpl(): Promise<ChainAccount> {
@@ -60,8 +78,17 @@ class MockChainWallet extends BaseChainWallet {
     return new BigNumber('1000000000');
   }
 
-  protected async transferImpl(params: TransferParams): Promise<string> {
-    return `mock_tx_hash_${params.amount}`;
+  protected async buildTransferImpl(params: TransferParams): Promise<UnsignedTransaction> {
+    return createUnsignedTransaction(this.chainInfo, params, { nonce: 1 });
+  }
+
+  protected async signTransactionImpl(transaction: UnsignedTransaction): Promise<SignedTransaction> {
+    assertTransactionForChain(transaction, this.chainInfo, this.chainInfo.name);
+    return createSignedTransaction(transaction, `signed_${transaction.amount}`, `mock_tx_hash_${transaction.amount}`);
+  }
+
+  protected async broadcastTransactionImpl(transaction: SignedTransaction): Promise<string> {
+    return transaction.txHash!;
   }
 
   protected async estimateFeeImpl(_params: TransferParams): Promise<BigNumber> {
@@ -94,6 +121,45 @@ class MockChainWallet extends BaseChainWallet {
   }
 }
 
+// Mock implementation simulating transfers from current balances
+class MultiAccountChainWallet extends MockChainWallet {
+  readonly derivedWith: Array<{ mnemonic: string; accountIndex: number }> = [];
+
+  get ownDerivationPath(): string {
+    return this.resolveDerivationPath((accountIndex) => `m/44'/60'/0'/0/${accountIndex}`);
+  }
+
+  protected async deriveAccountImpl(mnemonic: string, accountIndex: number): Promise<ChainAccount> {
+    this.derivedWith.push({ mnemonic, accountIndex });
+    return new ChainAccount(this.chainInfo.chainId, `mock_address_${accountIndex}`, 'mock_public_key');
+  }
+}
+
+// Mock implementation resolving its signer like chain wallets do
+class SignerChainWallet extends MockChainWallet {
+  resolveSigner(keyType: SignerKeyType): ISigner {
+    return this.createSigner(keyType, (accountIndex) => `m/44'/60'/0'/0/${accountIndex}`);
+  }
+}
+
+class SimulatingChainWallet extends MockChainWallet {
+  protected async simulateTransferImpl(params: TransferParams): Promise<TransferSimulationResult> {
+    const fee = await this.estimateFeeImpl(params);
+    return this.simulateTransferWithBalances(params, fee, { assetType: ChainAssetType.Native });
+  }
+}
+
+class HistoryChainWallet extends MockChainWallet {
+  public historyRequests: Array<TransactionHistoryParams & { limit: number }> = [];
+
+  protected async getTransactionHistoryImpl(
+    params: TransactionHistoryParams & { limit: number }
+  ): Promise<TransactionHistoryPage> {
+    this.historyRequests.push(params);
+    return { records: [], nextCursor: undefined };
+  }
+}
+
 describe('BaseChainWallet', () => {
   beforeEach(() => {
     setupTestValidators();
@@ -233,6 +299,64 @@ describe('BaseChainWallet', () => {
       expect(txHash).toBe('mock_tx_hash_100');
     });
 
+    test('buildTransfer should return serializable unsigned transaction', async () => {
+      const params: TransferParams = {
+        recipientAddress: createAddress(TEST_ADDRESSES.generic.recipient, ChainType.Tron),
+        amount: new BigNumber('100'),
+        token: { assetType: ChainAssetType.Native }
+      };
+      const unsigned = await wallet.buildTransfer(params);
+
+      expect(unsigned).toEqual({
+        chain: testChainInfo.chainId.chain.toString(),
+        network: testChainInfo.chainId.network.toString(),
+        recipientAddress: TEST_ADDRESSES.generic.recipient,
+        amount: '100',
+        token: { assetType: ChainAssetType.Native, tokenAddress: undefined },
+        payload: undefined,
+        data: { nonce: 1 }
+      });
+    });
+
+    test('signTransaction and broadcastTransaction should complete a built transfer', async () => {
+      const unsigned = await wallet.buildTransfer({
+        recipientAddress: createAddress(TEST_ADDRESSES.generic.recipient, ChainType.Tron),
+        amount: new BigNumber('100'),
+        token: { assetType: ChainAssetType.Native }
+      });
+
+      const signed = await wallet.signTransaction(JSON.parse(JSON.stringify(unsigned)));
+      expect(signed.txHash).toBe('mock_tx_hash_100');
+      expect(signed.data).toBe('signed_100');
+
+      // Broadcasting twice reuses the same signature
+      await expect(wallet.broadcastTransaction(signed)).resolves.toBe('mock_tx_hash_100');
+      await expect(wallet.broadcastTransaction(signed)).resolves.toBe('mock_tx_hash_100');
+    });
+
+    test('buildTransfer should record the token ID of an NFT transfer', async () => {
+      const nft = { assetType: ChainAssetType.ERC721, tokenAddress: 'collection', tokenId: '42' };
+      const unsigned = await wallet.buildTransfer({
+        recipientAddress: createAddress(TEST_ADDRESSES.generic.recipient, ChainType.Tron),
+        amount: new BigNumber('1'),
+        token: nft
+      });
+
+      expect(unsigned.token).toEqual(nft);
+      const signed = await wallet.signTransaction(JSON.parse(JSON.stringify(unsigned)));
+      expect(signed.token.tokenId).toBe('42');
+    });
+
+    test('signTransaction should reject transactions built for another chain', async () => {
+      const unsigned = await wallet.buildTransfer({
+        recipientAddress: createAddress(TEST_ADDRESSES.generic.recipient, ChainType.Tron),
+        amount: new BigNumber('100'),
+        token: { assetType: ChainAssetType.Native }
+      });
+
+      await expect(wallet.signTransaction({ ...unsigned, network: 'other' })).rejects.toThrow(ArgumentError);
+    });
+
     test('estimateFee should return BigNumber', async () => {
       const params: TransferParams = {
         recipientAddress: createAddress(TEST_ADDRESSES.generic.recipient, ChainType.Tron),
@@ -248,6 +372,451 @@ describe('BaseChainWallet', () => {
     });
   });
 
+  describe('Multiple Accounts', () => {
+    test('should resolve the standard path of the configured account index', () => {
+      expect(new MultiAccountChainWallet(testChainInfo, validMnemonic).ownDerivationPath).toBe("m/44'/60'/0'/0/0");
+      expect(new MultiAccountChainWallet(testChainInfo, validMnemonic, { accountIndex: 3 }).ownDerivationPath).toBe(
+        "m/44'/60'/0'/0/3"
+      );
+    });
+
+    test('should prefer a custom derivation path', () => {
+      const wallet = new MultiAccountChainWallet(testChainInfo, validMnemonic, { derivationPath: "m/44'/60'/1'/0/0" });
+      expect(wallet.ownDerivationPath).toBe("m/44'/60'/1'/0/0");
+    });
+
+    test('should reject invalid derivation options', () => {
+      expect(() => new MockChainWallet(testChainInfo, validMnemonic, { accountIndex: -1 })).toThrow(ArgumentError);
+      expect(() => new MockChainWallet(testChainInfo, validMnemonic, { accountIndex: 1.5 })).toThrow(ArgumentError);
+      expect(
+        () => new MockChainWallet(testChainInfo, validMnemonic, { accountIndex: 1, derivationPath: "m/44'/60'/0'/0/1" })
+      ).toThrow(ArgumentError);
+      expect(() => new MockChainWallet(testChainInfo, validMnemonic, { derivationPath: "44'/60'/0'" })).toThrow(
+        expect.objectContaining({ code: HibitIdSdkErrorCode.INVALID_DERIVATION_PATH })
+      );
+    });
+
+    test('getAccounts should derive each account index in the range', async () => {
+      const wallet = new MultiAccountChainWallet(testChainInfo, validMnemonic);
+
+      const accounts = await wallet.getAccounts({ start: 2, count: 3 });
+
+      expect(accounts.map((account) => account.address)).toEqual([
+        'mock_address_2',
+        'mock_address_3',
+        'mock_address_4'
+      ]);
+      expect(wallet.derivedWith).toEqual([
+        { mnemonic: validMnemonic, accountIndex: 2 },
+        { mnemonic: validMnemonic, accountIndex: 3 },
+        { mnemonic: validMnemonic, accountIndex: 4 }
+      ]);
+    });
+
+    test('getAccounts should reject invalid ranges', async () => {
+      const wallet = new MultiAccountChainWallet(testChainInfo, validMnemonic);
+
+      await expect(wallet.getAccounts({ count: 0 })).rejects.toThrow(ArgumentError);
+      await expect(wallet.getAccounts({ start: -1, count: 1 })).rejects.toThrow(ArgumentError);
+      await expect(wallet.getAccounts({ count: 101 })).rejects.toThrow(ArgumentError);
+    });
+
+    test('getAccounts should report OPERATION_NOT_SUPPORTED by default', async () => {
+      const wallet = new MockChainWallet(testChainInfo, validMnemonic);
+
+      await expect(wallet.getAccounts({ count: 1 })).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED
+      });
+    });
+
+    test('getAccounts should fail after the wallet is destroyed', async () => {
+      const wallet = new MultiAccountChainWallet(testChainInfo, validMnemonic);
+      wallet.destroy();
+
+      await expect(wallet.getAccounts({ count: 1 })).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.WALLET_NOT_CONNECTED
+      });
+      expect(wallet.derivedWith).toEqual([]);
+    });
+  });
+
+  describe('Signers', () => {
+    const createExternalSigner = (keyType: SignerKeyType = 'secp256k1'): ISigner => ({
+      keyType,
+      getPublicKey: vi.fn().mockResolvedValue(new Uint8Array(33)),
+      signBytes: vi.fn().mockResolvedValue(new Uint8Array(65)),
+      signDigest: vi.fn().mockResolvedValue(new Uint8Array(65)),
+      destroy: vi.fn()
+    });
+
+    test('should use the signer the wallet was constructed with', () => {
+      const signer = createExternalSigner();
+      const wallet = new SignerChainWallet(testChainInfo, signer);
+
+      expect(wallet.resolveSigner('secp256k1')).toBe(signer);
+    });
+
+    test('should derive a mnemonic signer when constructed with a mnemonic', async () => {
+      const wallet = new SignerChainWallet(testChainInfo, validMnemonic, { accountIndex: 2 });
+      const expected = new MnemonicSigner(validMnemonic, { keyType: 'secp256k1', derivationPath: "m/44'/60'/0'/0/2" });
+
+      const signer = wallet.resolveSigner('secp256k1');
+
+      expect(signer).toBeInstanceOf(MnemonicSigner);
+      expect(await signer.getPublicKey()).toEqual(await expected.getPublicKey());
+    });
+
+    test('should reject derivation options combined with a signer', () => {
+      expect(() => new SignerChainWallet(testChainInfo, createExternalSigner(), { accountIndex: 1 })).toThrow(
+        ArgumentError
+      );
+    });
+
+    test('should reject a signer of another key type', () => {
+      const wallet = new SignerChainWallet(testChainInfo, createExternalSigner('ed25519'));
+
+      expect(() => wallet.resolveSigner('secp256k1')).toThrow(ArgumentError);
+    });
+
+    test('getAccounts should require a mnemonic', async () => {
+      const wallet = new MultiAccountChainWallet(testChainInfo, createExternalSigner());
+
+      await expect(wallet.getAccounts({ count: 1 })).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED
+      });
+      expect(wallet.derivedWith).toEqual([]);
+    });
+
+    test('destroy should only destroy signers the wallet created', async () => {
+      const external = createExternalSigner();
+      new SignerChainWallet(testChainInfo, external).destroy();
+      expect(external.destroy).not.toHaveBeenCalled();
+
+      const wallet = new SignerChainWallet(testChainInfo, validMnemonic);
+      const derived = wallet.resolveSigner('secp256k1');
+      wallet.destroy();
+      await expect(derived.signBytes(new Uint8Array([1]))).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.WALLET_NOT_CONNECTED
+      });
+    });
+  });
+
+  describe('Watch-only wallets', () => {
+    const watchOnlyAccount: WatchOnlyAccount = { address: TEST_ADDRESSES.ethereum.valid };
+
+    test('should answer read methods', async () => {
+      const wallet = new MockChainWallet(testChainInfo, watchOnlyAccount);
+
+      expect(wallet.isWatchOnly()).toBe(true);
+      await expect(
+        wallet.balanceOf({
+          address: createAddress(TEST_ADDRESSES.ethereum.valid, ChainType.Ethereum),
+          token: { assetType: ChainAssetType.Native }
+        })
+      ).resolves.toEqual(new BigNumber('1000000000'));
+    });
+
+    test('should reject signing operations with WATCH_ONLY_WALLET', async () => {
+      const wallet = new MockChainWallet(testChainInfo, watchOnlyAccount);
+      const params: TransferParams = {
+        recipientAddress: createAddress(TEST_ADDRESSES.ethereum.valid, ChainType.Ethereum),
+        amount: new BigNumber(1),
+        token: { assetType: ChainAssetType.Native }
+      };
+      const unsigned = await wallet.buildTransfer(params);
+
+      const watchOnlyError = { code: HibitIdSdkErrorCode.WATCH_ONLY_WALLET };
+      await expect(wallet.transfer(params)).rejects.toMatchObject(watchOnlyError);
+      await expect(wallet.signTransaction(unsigned)).rejects.toMatchObject(watchOnlyError);
+      await expect(wallet.signMessage({ message: 'Hello World' })).rejects.toMatchObject(watchOnlyError);
+    });
+
+    test('should not report mnemonic wallets as watch-only', () => {
+      expect(new MockChainWallet(testChainInfo, validMnemonic).isWatchOnly()).toBe(false);
+    });
+
+    test('should reject invalid addresses', () => {
+      expect(() => new MockChainWallet(testChainInfo, { address: TEST_ADDRESSES.ethereum.invalid })).toThrow(
+        ArgumentError
+      );
+      expect(
+        () => new MockChainWallet(testChainInfo, { address: TEST_ADDRESSES.ethereum.valid, publicKeyHex: 'xyz' })
+      ).toThrow(ArgumentError);
+    });
+
+    test('should reject derivation options', () => {
+      expect(() => new MockChainWallet(testChainInfo, watchOnlyAccount, { accountIndex: 1 })).toThrow(ArgumentError);
+    });
+
+    test('getAccounts should require a mnemonic', async () => {
+      const wallet = new MultiAccountChainWallet(testChainInfo, watchOnlyAccount);
+
+      await expect(wallet.getAccounts({ count: 1 })).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED
+      });
+    });
+
+    test('should not create signers', () => {
+      const wallet = new SignerChainWallet(testChainInfo, watchOnlyAccount);
+
+      expect(() => wallet.resolveSigner('secp256k1')).toThrow(
+        expect.objectContaining({ code: HibitIdSdkErrorCode.WATCH_ONLY_WALLET })
+      );
+    });
+  });
+
+  describe('Batch Transfers', () => {
+    const batchParams = (amount: string): TransferParams => ({
+      recipientAddress: createAddress(TEST_ADDRESSES.generic.recipient, ChainType.Tron),
+      amount: new BigNumber(amount),
+      token: { assetType: ChainAssetType.Native }
+    });
+
+    test('batchTransfer should send the transfers sequentially by default', async () => {
+      const wallet = new MockChainWallet(testChainInfo, validMnemonic);
+      const transferSpy = vi.spyOn(wallet as any, 'transferImpl');
+
+      const txHashes = await wallet.batchTransfer([batchParams('100'), batchParams('200')]);
+
+      expect(txHashes).toEqual(['mock_tx_hash_100', 'mock_tx_hash_200']);
+      expect(transferSpy).toHaveBeenCalledTimes(2);
+    });
+
+    test('batchTransfer should reject empty and oversized batches', async () => {
+      const wallet = new MockChainWallet(testChainInfo, validMnemonic);
+
+      await expect(wallet.batchTransfer([])).rejects.toMatchObject({ code: HibitIdSdkErrorCode.INVALID_ARGUMENT });
+      await expect(wallet.batchTransfer(Array.from({ length: 101 }, () => batchParams('1')))).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.INVALID_ARGUMENT
+      });
+    });
+
+    test('batchTransfer should reject watch-only wallets', async () => {
+      const wallet = new MockChainWallet(testChainInfo, { address: TEST_ADDRESSES.generic.user });
+
+      await expect(wallet.batchTransfer([batchParams('100')])).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.WATCH_ONLY_WALLET
+      });
+    });
+  });
+
+  describe('Events', () => {
+    test('should emit balanceChanged when the polled balance changes', async () => {
+      const wallet = new MockChainWallet(testChainInfo, validMnemonic);
+      vi.spyOn(wallet as any, 'balanceOfImpl')
+        .mockResolvedValueOnce(new BigNumber(100))
+        .mockResolvedValueOnce(new BigNumber(100))
+        .mockResolvedValueOnce(new BigNumber(250));
+      const listener = vi.fn();
+
+      wallet.on('balanceChanged', listener);
+      await (wallet as any).refreshWalletState();
+      expect(listener).not.toHaveBeenCalled();
+
+      await (wallet as any).refreshWalletState();
+      expect(listener).toHaveBeenCalledWith({
+        address: 'mock_address',
+        token: { assetType: ChainAssetType.Native },
+        balance: new BigNumber(250),
+        previousBalance: new BigNumber(100)
+      });
+      wallet.destroy();
+    });
+
+    test('should emit connectionStateChanged when the chain becomes unreachable and reachable again', async () => {
+      const wallet = new MockChainWallet(testChainInfo, validMnemonic);
+      const balanceSpy = vi.spyOn(wallet as any, 'balanceOfImpl').mockRejectedValueOnce(new Error('offline'));
+      const listener = vi.fn();
+
+      wallet.on('connectionStateChanged', listener);
+      await (wallet as any).refreshWalletState();
+
+      expect(balanceSpy).toHaveBeenCalledTimes(2);
+      expect(listener.mock.calls.map(([event]) => [event.previousState, event.state])).toEqual([
+        [undefined, 'disconnected'],
+        ['disconnected', 'connected']
+      ]);
+      wallet.destroy();
+    });
+
+    test('should stop polling once the last listener is removed', async () => {
+      const wallet = new MockChainWallet(testChainInfo, validMnemonic);
+      const balanceSpy = vi.spyOn(wallet as any, 'balanceOfImpl');
+      const listener = vi.fn();
+
+      wallet.on('balanceChanged', listener);
+      wallet.off('balanceChanged', listener);
+      await (wallet as any).refreshWalletState();
+
+      expect((wallet as any).eventPollTimer).toBeNull();
+      expect(balanceSpy).not.toHaveBeenCalled();
+    });
+
+    test('should emit transactionConfirmed for transfers sent by the wallet', async () => {
+      const wallet = new MockChainWallet(testChainInfo, validMnemonic);
+      const listener = vi.fn();
+      wallet.on('transactionConfirmed', listener);
+
+      const txHash = await wallet.transfer({
+        recipientAddress: createAddress(TEST_ADDRESSES.generic.recipient, ChainType.Tron),
+        amount: new BigNumber('100'),
+        token: { assetType: ChainAssetType.Native }
+      });
+
+      await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1));
+      expect(listener.mock.calls[0][0]).toMatchObject({ txHash, result: { isConfirmed: true } });
+    });
+  });
+
+  describe('RPC Endpoints', () => {
+    const failoverChainInfo = {
+      ...testChainInfo,
+      rpc: { primary: 'https://test-rpc.com', fallbacks: ['https://test-rpc-2.com'] }
+    };
+    const balanceParams = {
+      address: createAddress(TEST_ADDRESSES.generic.recipient, ChainType.Tron),
+      token: { assetType: ChainAssetType.Native }
+    };
+
+    test('should repeat reads on the fallback endpoint and emit rpcFailover', async () => {
+      const wallet = new MockChainWallet(failoverChainInfo, validMnemonic);
+      const endpointSpy = vi.spyOn(wallet as any, 'onRpcEndpointChanged');
+      vi.spyOn(wallet as any, 'balanceOfImpl').mockRejectedValueOnce(new Error('fetch failed'));
+      const listener = vi.fn();
+      wallet.on('rpcFailover', listener);
+
+      const balance = await wallet.balanceOf(balanceParams);
+
+      expect(balance.toString()).toBe('1000000000');
+      expect(endpointSpy).toHaveBeenCalledWith('https://test-rpc-2.com');
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ from: 'https://test-rpc.com', to: 'https://test-rpc-2.com' })
+      );
+      expect(wallet.getEndpointHealth().map((endpoint) => [endpoint.url, endpoint.active])).toEqual([
+        ['https://test-rpc.com', false],
+        ['https://test-rpc-2.com', true]
+      ]);
+    });
+
+    test('should not repeat a failed broadcast on the fallback endpoint', async () => {
+      const wallet = new MockChainWallet(failoverChainInfo, validMnemonic);
+      const broadcastSpy = vi
+        .spyOn(wallet as any, 'broadcastTransactionImpl')
+        .mockRejectedValueOnce(new Error('fetch failed'));
+      const unsigned = await wallet.buildTransfer({
+        recipientAddress: balanceParams.address,
+        amount: new BigNumber('100'),
+        token: balanceParams.token
+      });
+      const signed = await wallet.signTransaction(unsigned);
+
+      await expect(wallet.broadcastTransaction(signed)).rejects.toThrow();
+
+      expect(broadcastSpy).toHaveBeenCalledTimes(1);
+      expect(wallet.getEndpointHealth()[1].active).toBe(true);
+    });
+
+    test('checkEndpointHealth should report OPERATION_NOT_SUPPORTED by default', async () => {
+      const wallet = new MockChainWallet(failoverChainInfo, validMnemonic);
+
+      await expect(wallet.checkEndpointHealth()).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED
+      });
+    });
+  });
+
+  describe('Transfer Simulation', () => {
+    const simulationParams = (amount: string, token: TokenIdentifier = { assetType: ChainAssetType.Native }) => ({
+      recipientAddress: createAddress(TEST_ADDRESSES.generic.recipient, ChainType.Tron),
+      amount: new BigNumber(amount),
+      token
+    });
+
+    test('simulateTransfer should report OPERATION_NOT_SUPPORTED by default', async () => {
+      const wallet = new MockChainWallet(testChainInfo, validMnemonic);
+
+      await expect(wallet.simulateTransfer(simulationParams('100'))).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED
+      });
+    });
+
+    test('simulateTransfer should return fee and balance changes for a native transfer', async () => {
+      const wallet = new SimulatingChainWallet(testChainInfo, validMnemonic);
+
+      const result = await wallet.simulateTransfer(simulationParams('100'));
+
+      expect(result.success).toBe(true);
+      expect(result.fee.toString()).toBe('100000');
+      expect(result.balanceChanges).toEqual([
+        { address: 'mock_address', token: { assetType: ChainAssetType.Native }, amount: new BigNumber('-100100') },
+        {
+          address: TEST_ADDRESSES.generic.recipient,
+          token: { assetType: ChainAssetType.Native },
+          amount: new BigNumber('100')
+        }
+      ]);
+    });
+
+    test('simulateTransfer should charge the fee in the native asset for token transfers', async () => {
+      const wallet = new SimulatingChainWallet(testChainInfo, validMnemonic);
+      const token = { assetType: ChainAssetType.TRC20, tokenAddress: 'token' };
+
+      const result = await wallet.simulateTransfer(simulationParams('100', token));
+
+      expect(result.success).toBe(true);
+      expect(result.balanceChanges).toContainEqual({
+        address: 'mock_address',
+        token: { assetType: ChainAssetType.Native },
+        amount: new BigNumber('-100000')
+      });
+      expect(result.balanceChanges).toContainEqual({ address: 'mock_address', token, amount: new BigNumber('-100') });
+    });
+
+    test('simulateTransfer should fail when the balance cannot cover amount and fee', async () => {
+      const wallet = new SimulatingChainWallet(testChainInfo, validMnemonic);
+
+      const result = await wallet.simulateTransfer(simulationParams('999950000'));
+
+      expect(result.success).toBe(false);
+      expect(result.balanceChanges).toEqual([]);
+      expect(result.failureReason).toContain('Insufficient balance');
+    });
+  });
+
+  describe('Transaction History', () => {
+    const historyParams = (limit?: number): TransactionHistoryParams => ({
+      address: createAddress(TEST_ADDRESSES.generic.user, ChainType.Tron),
+      token: { assetType: ChainAssetType.Native },
+      limit
+    });
+
+    test('getTransactionHistory should report OPERATION_NOT_SUPPORTED by default', async () => {
+      const wallet = new MockChainWallet(testChainInfo, validMnemonic);
+
+      await expect(wallet.getTransactionHistory(historyParams())).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED
+      });
+    });
+
+    test('getTransactionHistory should apply the default page size', async () => {
+      const wallet = new HistoryChainWallet(testChainInfo, validMnemonic);
+
+      await wallet.getTransactionHistory(historyParams());
+      await wallet.getTransactionHistory(historyParams(50));
+
+      expect(wallet.historyRequests.map((request) => request.limit)).toEqual([20, 50]);
+    });
+
+    test('getTransactionHistory should reject invalid page sizes', async () => {
+      const wallet = new HistoryChainWallet(testChainInfo, validMnemonic);
+
+      await expect(wallet.getTransactionHistory(historyParams(0))).rejects.toThrow(ArgumentError);
+      await expect(wallet.getTransactionHistory(historyParams(101))).rejects.toThrow(ArgumentError);
+      await expect(wallet.getTransactionHistory(historyParams(2.5))).rejects.toThrow(ArgumentError);
+      expect(wallet.historyRequests).toEqual([]);
+    });
+  });
+
   describe('Memory Management', () => {
     let wallet: MockChainWallet;
 
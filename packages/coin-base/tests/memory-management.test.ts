@@ -4,7 +4,8 @@ import { BaseChainWallet } from '../src/base-chain-wallet';
 import { ChainInfo } from '../src/types/chain';
 import { ChainAccount, ChainId, ChainNetwork, ChainType, WalletSignatureSchema } from '@delandlabs/hibit-basic-types';
 import BigNumber from 'bignumber.js';
-import { cleanupReferences } from '../src/utils/wallet-utils';
+import { cleanupReferences, createUnsignedTransaction, createSignedTransaction } from '../src/utils/wallet-utils';
+import { TransferParams, UnsignedTransaction, SignedTransaction } from '../src/types/wallet';
 
 // Mock chain info
 const mockChainInfo: ChainInfo = {
@@ -53,7 +54,15 @@ class TestWallet extends BaseChainWallet {
     return new BigNumber(0);
   }
 
-  protected async transferImpl(): Promise<string> {
+  protected async buildTransferImpl(params: TransferParams): Promise<UnsignedTransaction> {
+    return createUnsignedTransaction(this.chainInfo, params, {});
+  }
+
+  protected async signTransactionImpl(transaction: UnsignedTransaction): Promise<SignedTransaction> {
+    return createSignedTransaction(transaction, {}, '0xhash');
+  }
+
+  protected async broadcastTransactionImpl(): Promise<string> {
     return '0xhash';
   }
 
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { base } from '@delandlabs/crypto-lib';
+import { MnemonicSigner } from '../../src/signer/mnemonic-signer';
+import { isSigner } from '../../src/utils/wallet-utils';
+import { MnemonicError, HibitIdSdkErrorCode } from '../../src/types/errors';
+
+describe('MnemonicSigner', () => {
+  const mnemonic = 'eight record heavy smile elephant venue spend burst initial cousin casual order';
+  const message = new TextEncoder().encode('Hello World');
+
+  describe('secp256k1', () => {
+    const createSigner = () =>
+      new MnemonicSigner(mnemonic, { keyType: 'secp256k1', derivationPath: "m/44'/60'/0'/0/0" });
+
+    it('should expose a compressed public key', async () => {
+      const publicKey = await createSigner().getPublicKey();
+
+      expect(publicKey.length).toBe(33);
+      expect([0x02, 0x03]).toContain(publicKey[0]);
+    });
+
+    it('should sign digests deterministically with a recovery id', async () => {
+      const signer = createSigner();
+      const digest = base.sha256(message);
+
+      const signature = await signer.signDigest(digest);
+
+      expect(signature.length).toBe(65);
+      expect([0, 1]).toContain(signature[64]);
+      expect(await signer.signDigest(digest)).toEqual(signature);
+    });
+
+    it('should sign messages as their SHA-256 digest', async () => {
+      const signer = createSigner();
+
+      expect(await signer.signBytes(message)).toEqual(await signer.signDigest(base.sha256(message)));
+    });
+
+    it('should reject digests that are not 32 bytes', async () => {
+      await expect(createSigner().signDigest(new Uint8Array(20))).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.INVALID_ARGUMENT
+      });
+    });
+
+    it('should derive different keys for different paths', async () => {
+      const other = new MnemonicSigner(mnemonic, { keyType: 'secp256k1', derivationPath: "m/44'/60'/0'/0/1" });
+
+      expect(await other.getPublicKey()).not.toEqual(await createSigner().getPublicKey());
+    });
+  });
+
+  describe('ed25519', () => {
+    const createSigner = () => new MnemonicSigner(mnemonic, { keyType: 'ed25519', derivationPath: "m/44'/501'/0'/0'" });
+
+    it('should sign messages with a 32-byte public key', async () => {
+      const signer = createSigner();
+
+      expect((await signer.getPublicKey()).length).toBe(32);
+      expect((await signer.signBytes(message)).length).toBe(64);
+    });
+
+    it('should not sign digests', async () => {
+      await expect(createSigner().signDigest(base.sha256(message))).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED
+      });
+    });
+
+    it('should reject non-hardened derivation paths', () => {
+      expect(() => new MnemonicSigner(mnemonic, { keyType: 'ed25519', derivationPath: "m/44'/501'/0'/0" })).toThrow(
+        expect.objectContaining({ code: HibitIdSdkErrorCode.INVALID_DERIVATION_PATH })
+      );
+    });
+  });
+
+  it('should reject invalid mnemonics', () => {
+    const options = { keyType: 'secp256k1', derivationPath: "m/44'/60'/0'/0/0" } as const;
+
+    expect(() => new MnemonicSigner('word1 word2 word3', options)).toThrow(MnemonicError);
+  });
+
+  it('should stop signing once destroyed', async () => {
+    const signer = new MnemonicSigner(mnemonic, { keyType: 'ed25519', derivationPath: "m/44'/501'/0'/0'" });
+    await signer.signBytes(message);
+
+    signer.destroy();
+
+    await expect(signer.signBytes(message)).rejects.toMatchObject({
+      code: HibitIdSdkErrorCode.WALLET_NOT_CONNECTED
+    });
+  });
+
+  it('should be recognized as a signer', () => {
+    const signer = new MnemonicSigner(mnemonic, { keyType: 'ed25519', derivationPath: "m/44'/501'/0'/0'" });
+
+    expect(isSigner(signer)).toBe(true);
+    expect(isSigner(mnemonic)).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EndpointPool } from '../../src/utils/endpoint-pool';
+import { GeneralWalletError } from '../../src/types/general-wallet-error';
+import { HibitIdSdkErrorCode, NetworkError } from '../../src/types/errors';
+
+describe('EndpointPool', () => {
+  const rpc = { primary: 'https://primary.example', fallbacks: ['https://fallback.example'] };
+  const networkError = () => new Error('fetch failed');
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start on the primary endpoint and ignore empty and duplicate URLs', () => {
+    const pool = new EndpointPool(
+      { primary: 'https://primary.example', fallbacks: ['', 'https://primary.example', 'https://fallback.example'] },
+      { chainName: 'Test' }
+    );
+
+    expect(pool.getCurrentUrl()).toBe('https://primary.example');
+    expect(pool.getHealth().map((endpoint) => [endpoint.url, endpoint.active])).toEqual([
+      ['https://primary.example', true],
+      ['https://fallback.example', false]
+    ]);
+  });
+
+  it('should repeat a failed operation on the fallback endpoint and report the failover', async () => {
+    const onFailover = vi.fn();
+    const pool = new EndpointPool(rpc, { chainName: 'Test', onFailover });
+    const operation = vi.fn().mockRejectedValueOnce(networkError()).mockResolvedValueOnce('ok');
+
+    await expect(pool.execute(operation)).resolves.toBe('ok');
+
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(pool.getCurrentUrl()).toBe('https://fallback.example');
+    expect(onFailover).toHaveBeenCalledWith({
+      from: 'https://primary.example',
+      to: 'https://fallback.example',
+      error: expect.objectContaining({ message: 'fetch failed' })
+    });
+    expect(pool.getHealth()).toEqual([
+      expect.objectContaining({
+        consecutiveFailures: 1,
+        totalRequests: 1,
+        totalFailures: 1,
+        lastError: 'fetch failed'
+      }),
+      expect.objectContaining({ consecutiveFailures: 0, totalRequests: 1, totalFailures: 0 })
+    ]);
+  });
+
+  it('should fail over without repeating operations that must not be repeated', async () => {
+    const pool = new EndpointPool(rpc, { chainName: 'Test' });
+    const operation = vi.fn().mockRejectedValue(networkError());
+
+    await expect(pool.execute(operation, { retry: false })).rejects.toThrow('fetch failed');
+
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(pool.getCurrentUrl()).toBe('https://fallback.example');
+  });
+
+  it('should rethrow errors not caused by the endpoint without failing over', async () => {
+    const pool = new EndpointPool(rpc, { chainName: 'Test' });
+    const error = new NetworkError(HibitIdSdkErrorCode.INVALID_CONFIGURATION, 'Test: Invalid network');
+
+    await expect(pool.execute(() => Promise.reject(error))).rejects.toBe(error);
+
+    expect(pool.getCurrentUrl()).toBe('https://primary.example');
+    expect(pool.getHealth()[0].totalFailures).toBe(0);
+  });
+
+  it('should skip an endpoint with an open circuit until the cooldown has passed', async () => {
+    vi.useFakeTimers();
+    const pool = new EndpointPool(rpc, { chainName: 'Test', failureThreshold: 1, cooldownMs: 1000 });
+
+    await expect(pool.execute(() => Promise.reject(networkError()), { retry: false })).rejects.toThrow();
+    await expect(pool.execute(() => Promise.reject(networkError()), { retry: false })).rejects.toThrow();
+
+    // Both circuits are open, so the pool stays on the fallback endpoint
+    expect(pool.getCurrentUrl()).toBe('https://fallback.example');
+    expect(pool.getHealth().map((endpoint) => endpoint.healthy)).toEqual([false, false]);
+
+    vi.advanceTimersByTime(1000);
+    expect(pool.getHealth().map((endpoint) => endpoint.healthy)).toEqual([true, true]);
+  });
+
+  it('should run operations unrecorded when no endpoint is configured', async () => {
+    const pool = new EndpointPool({ primary: '' }, { chainName: 'Test' });
+
+    await expect(pool.execute(() => Promise.resolve('ok'))).resolves.toBe('ok');
+
+    expect(pool.hasEndpoints()).toBe(false);
+    expect(pool.getHealth()).toEqual([]);
+    expect(() => pool.getCurrentUrl()).toThrow(NetworkError);
+  });
+
+  describe('checkHealth', () => {
+    it('should probe every endpoint and move away from a failing current endpoint', async () => {
+      const pool = new EndpointPool(rpc, { chainName: 'Test' });
+      const probe = vi.fn((url: string) =>
+        url === 'https://primary.example' ? Promise.reject(networkError()) : Promise.resolve()
+      );
+
+      const health = await pool.checkHealth(probe);
+
+      expect(probe).toHaveBeenCalledTimes(2);
+      expect(health).toEqual([
+        expect.objectContaining({ url: 'https://primary.example', active: false, consecutiveFailures: 1 }),
+        expect.objectContaining({ url: 'https://fallback.example', active: true, latencyMs: expect.any(Number) })
+      ]);
+    });
+
+    it('should reject when the chain cannot probe endpoints', async () => {
+      const pool = new EndpointPool(rpc, { chainName: 'Test' });
+      const unsupported = new GeneralWalletError(HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED, 'Test: Not supported');
+
+      await expect(pool.checkHealth(() => Promise.reject(unsupported))).rejects.toBe(unsupported);
+
+      expect(pool.getHealth().every((endpoint) => endpoint.totalRequests === 0)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TypedEventEmitter } from '../../src/utils/event-emitter';
+import { NoOpLogger } from '../../src/utils/logger';
+
+interface TestEvents {
+  ping: { count: number };
+  pong: string;
+}
+
+describe('TypedEventEmitter', () => {
+  const createEmitter = () => new TypedEventEmitter<TestEvents>(new NoOpLogger(), 'Test');
+
+  it('should call the listeners of the emitted event only', () => {
+    const emitter = createEmitter();
+    const onPing = vi.fn();
+    const onPong = vi.fn();
+    emitter.on('ping', onPing);
+    emitter.on('pong', onPong);
+
+    emitter.emit('ping', { count: 1 });
+
+    expect(onPing).toHaveBeenCalledWith({ count: 1 });
+    expect(onPong).not.toHaveBeenCalled();
+  });
+
+  it('should stop calling removed listeners', () => {
+    const emitter = createEmitter();
+    const listener = vi.fn();
+    emitter.on('ping', listener);
+    emitter.on('ping', listener);
+    expect(emitter.listenerCount('ping')).toBe(1);
+
+    emitter.off('ping', listener);
+    emitter.emit('ping', { count: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(emitter.listenerCount('ping')).toBe(0);
+  });
+
+  it('should keep calling listeners after one throws', () => {
+    const logger = new NoOpLogger();
+    const errorSpy = vi.spyOn(logger, 'error');
+    const emitter = new TypedEventEmitter<TestEvents>(logger, 'Test');
+    const listener = vi.fn();
+    emitter.on('pong', () => {
+      throw new Error('listener failed');
+    });
+    emitter.on('pong', listener);
+
+    emitter.emit('pong', 'hello');
+
+    expect(listener).toHaveBeenCalledWith('hello');
+    expect(errorSpy).toHaveBeenCalledWith('Event listener failed', expect.objectContaining({ context: 'Test.emit' }));
+  });
+
+  it('should remove all listeners', () => {
+    const emitter = createEmitter();
+    emitter.on('ping', vi.fn());
+    emitter.on('pong', vi.fn());
+
+    emitter.removeAllListeners();
+
+    expect(emitter.listenerCount('ping')).toBe(0);
+    expect(emitter.listenerCount('pong')).toBe(0);
+  });
+});
@@ -8,7 +8,8 @@ import {
   assertValidTransferAmount,
   assertValidAmountForFeeEstimation,
   cleanupReferences,
-  createReadyPromise
+  createReadyPromise,
+  getTransactionDirection
 } from '../../src/utils/wallet-utils';
 import { BalanceQueryError, TransactionError, FeeEstimationError, HibitIdSdkErrorCode } from '../../src/types/errors';
 import { ChainType } from '@delandlabs/hibit-basic-types';
@@ -190,4 +191,18 @@ describe('wallet-utils', () => {
       await expect(promise).rejects.toThrow('Sync error');
     });
   });
+
+  describe('getTransactionDirection', () => {
+    it('should classify transfers relative to the queried address', () => {
+      expect(getTransactionDirection('alice', 'alice', 'bob')).toBe('outgoing');
+      expect(getTransactionDirection('alice', 'bob', 'alice')).toBe('incoming');
+      expect(getTransactionDirection('alice', 'alice', 'alice')).toBe('self');
+    });
+
+    it('should compare normalized addresses', () => {
+      const toLower = (value: string) => value.toLowerCase();
+      expect(getTransactionDirection('0xABC', '0xabc', '0xdef', toLower)).toBe('outgoing');
+      expect(getTransactionDirection('0xABC', '0xabc', '0xdef')).toBe('incoming');
+    });
+  });
 });
@@ -1,7 +1,18 @@
 import BigNumber from 'bignumber.js';
-import { ILogger, BalanceQueryParams, TransferParams } from '@delandlabs/coin-base';
+import {
+  ILogger,
+  BalanceQueryParams,
+  TransferParams,
+  TokenIdentifier,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  ArgumentError,
+  HibitIdSdkErrorCode
+} from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
 import { AgentManager } from '../shared/agent-manager';
+import { IcpLedgerCall, IcpUnsignedTransactionData } from '../types';
+import { CHAIN_CONFIG } from '../config';
 
 /**
  * Abstract base class for asset handlers in Dfinity chain wallet.
@@ -26,11 +37,36 @@ export abstract class BaseAssetHandler {
   abstract balanceOf(params: BalanceQueryParams): Promise<BigNumber>;
 
   /**
-   * Execute transfer for the specified asset
+   * Build an unsigned transfer for the specified asset
    * @param params - Transfer parameters including recipient, amount, and token info
-   * @returns Promise resolving to the transaction ID
+   * @returns Promise resolving to the chain-specific unsigned transaction data, without created_at_time
    */
-  abstract transfer(params: TransferParams): Promise<string>;
+  abstract buildTransfer(params: TransferParams): Promise<Omit<IcpUnsignedTransactionData, 'createdAtTime'>>;
+
+  /**
+   * Submit a built transfer to the ledger through the authenticated agent
+   * @param token - Token the transfer was built for
+   * @param data - Chain-specific unsigned transaction data
+   * @returns Promise resolving to the block index of the transfer
+   */
+  abstract submitTransfer(token: TokenIdentifier, data: IcpUnsignedTransactionData): Promise<string>;
+
+  /**
+   * Encode the ledger call of a built transfer, for signing
+   * @param token - Token the transfer was built for
+   * @param data - Chain-specific unsigned transaction data
+   * @returns The ledger canister, method and candid-encoded arguments of the transfer
+   */
+  abstract encodeTransfer(token: TokenIdentifier, data: IcpUnsignedTransactionData): IcpLedgerCall;
+
+  /**
+   * Decode the ledger's reply to a signed transfer call
+   * A transfer the ledger already executed counts as success.
+   * @param reply - Candid-encoded reply of the ledger
+   * @returns The block index of the transfer
+   * @throws The ledger's transfer error
+   */
+  abstract decodeTransferReply(reply: ArrayBuffer): string;
 
   /**
    * Estimate transaction fee for the specified asset
@@ -39,6 +75,13 @@ export abstract class BaseAssetHandler {
    */
   abstract estimateFee(params: TransferParams): Promise<BigNumber>;
 
+  /**
+   * List transfers of the specified asset for an account, newest first
+   * @param params - History parameters with the resolved page size
+   * @returns Promise resolving to one page of transaction records
+   */
+  abstract getTransactionHistory(params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage>;
+
   /**
    * Get the asset type this handler supports
    * @returns The ChainAssetType this handler is responsible for
@@ -50,4 +93,40 @@ export abstract class BaseAssetHandler {
    * Called when the wallet is being destroyed
    */
   abstract cleanup(): void;
+
+  /**
+   * Parse a history cursor into the transaction id to resume from
+   */
+  protected parseHistoryCursor(cursor: string): bigint {
+    if (!/^\d+$/.test(cursor)) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Invalid history cursor`,
+        {
+          argumentName: 'cursor',
+          expectedType: 'cursor returned by getTransactionHistory',
+          providedValue: cursor
+        }
+      );
+    }
+    return BigInt(cursor);
+  }
+
+  /**
+   * Trim an index canister response to one page.
+   *
+   * Index canisters list from the start transaction inclusively, so callers request one extra
+   * transaction when resuming and the already returned one is dropped here.
+   */
+  protected sliceHistoryPage<T extends { id: bigint }>(
+    transactions: T[],
+    start: bigint | undefined,
+    limit: number,
+    oldestId: bigint | undefined
+  ): { transactions: T[]; nextCursor?: string } {
+    const page = transactions.filter((transaction) => transaction.id !== start).slice(0, limit);
+    const last = page[page.length - 1];
+    const hasMore = page.length === limit && last.id !== oldestId;
+    return { transactions: page, nextCursor: hasMore ? last.id.toString() : undefined };
+  }
 }
@@ -1,13 +1,39 @@
 import BigNumber from 'bignumber.js';
-import { LedgerCanister } from '@dfinity/ledger-icp';
+import {
+  IndexCanister,
+  LedgerCanister,
+  TransactionWithId,
+  mapTransferError,
+  toTransferRawRequest
+} from '@dfinity/ledger-icp';
+import { idlFactory as ledgerIdlFactory } from '@dfinity/ledger-icp/dist/candid/ledger.idl';
+import { IDL } from '@dfinity/candid';
 import { Principal } from '@dfinity/principal';
 import { BaseAssetHandler } from './base-asset-handler';
-import { BalanceQueryParams, TransferParams, Memoize } from '@delandlabs/coin-base';
+import {
+  BalanceQueryParams,
+  TransferParams,
+  TokenIdentifier,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  TransactionRecord,
+  Memoize,
+  getTransactionDirection
+} from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
-import { addressToAccountIdentifier } from '../utils';
+import { addressToAccountIdentifier, getCandidMethod, getDuplicateBlockIndex } from '../utils';
+import { IcpLedgerCall, IcpUnsignedTransactionData } from '../types';
 import { IC_CANISTERS, CACHE_CONFIG, DfinityRetry } from '../config';
 
 const ICP_LEDGER_CANISTER_ID = Principal.fromText(IC_CANISTERS.ICP_LEDGER);
+const ICP_INDEX_CANISTER_ID = Principal.fromText(IC_CANISTERS.ICP_INDEX);
+/** The ledger's transfer method, which accepts AccountIdentifier recipients */
+const TRANSFER_METHOD = getCandidMethod(ledgerIdlFactory, 'transfer');
+
+/**
+ * Reply of the ICP ledger's transfer method
+ */
+type TransferResult = { Ok: bigint } | { Err: Parameters<typeof mapTransferError>[0] };
 
 /**
  * Asset handler for Native ICP tokens.
@@ -84,37 +110,58 @@ export class IcpNativeHandler extends BaseAssetHandler {
     return result;
   }
 
-  public async transfer(params: TransferParams): Promise<string> {
+  public async buildTransfer(params: TransferParams): Promise<Omit<IcpUnsignedTransactionData, 'createdAtTime'>> {
     const { recipientAddress, amount } = params;
 
     // Address, amount and token validation is handled at wallet level
     // ICP native supports both Principal and AccountIdentifier formats
     // Amount is expected in e8s (smallest unit)
+    const amountInE8s = amount.integerValue(BigNumber.ROUND_FLOOR).toFixed();
+
+    return {
+      recipientAddress,
+      amount: amountInE8s
+    };
+  }
+
+  public async submitTransfer(_token: TokenIdentifier, data: IcpUnsignedTransactionData): Promise<string> {
+    const { recipientAddress, amount, createdAtTime } = data;
 
     const ledger = this.getIcpLedger();
     const toAccountId = addressToAccountIdentifier(recipientAddress);
-    const amountInE8s = BigInt(amount.integerValue(BigNumber.ROUND_FLOOR).toString());
+    const amountInE8s = BigInt(amount);
 
     this.logger.debug(`Initiating ICP native transfer`, {
-      context: 'IcpNativeHandler.transfer',
+      context: 'IcpNativeHandler.submitTransfer',
       data: {
         recipientAddress,
-        amountE8s: amountInE8s.toString()
+        amountE8s: amount
       }
     });
 
-    const blockHeight = await ledger.transfer({
-      to: toAccountId,
-      amount: amountInE8s
-    });
+    let blockHeight: bigint;
+    try {
+      blockHeight = await ledger.transfer({
+        to: toAccountId,
+        amount: amountInE8s,
+        createdAt: BigInt(createdAtTime)
+      });
+    } catch (error) {
+      // A resubmitted transfer is rejected with the block of the original one
+      const duplicateOf = getDuplicateBlockIndex(error);
+      if (duplicateOf === undefined) {
+        throw error;
+      }
+      blockHeight = duplicateOf;
+    }
 
     const transactionId = String(blockHeight);
 
     this.logger.info(`ICP native transfer completed successfully`, {
-      context: 'IcpNativeHandler.transfer',
+      context: 'IcpNativeHandler.submitTransfer',
       data: {
         recipientAddress,
-        amountE8s: amountInE8s.toString(),
+        amountE8s: amount,
         blockHeight: transactionId
       }
     });
@@ -122,6 +169,34 @@ export class IcpNativeHandler extends BaseAssetHandler {
     return transactionId;
   }
 
+  public encodeTransfer(_token: TokenIdentifier, data: IcpUnsignedTransactionData): IcpLedgerCall {
+    const rawRequest = toTransferRawRequest({
+      to: addressToAccountIdentifier(data.recipientAddress),
+      amount: BigInt(data.amount),
+      createdAt: BigInt(data.createdAtTime)
+    });
+    return {
+      canisterId: IC_CANISTERS.ICP_LEDGER,
+      methodName: 'transfer',
+      arg: new Uint8Array(IDL.encode(TRANSFER_METHOD.argTypes, [rawRequest]))
+    };
+  }
+
+  public decodeTransferReply(reply: ArrayBuffer): string {
+    const [result] = IDL.decode(TRANSFER_METHOD.retTypes, reply) as unknown as [TransferResult];
+    if ('Ok' in result) {
+      return String(result.Ok);
+    }
+
+    // A resubmitted transfer is rejected with the block of the original one
+    const error = mapTransferError(result.Err);
+    const duplicateOf = getDuplicateBlockIndex(error);
+    if (duplicateOf === undefined) {
+      throw error;
+    }
+    return String(duplicateOf);
+  }
+
   public async estimateFee(_params: TransferParams): Promise<BigNumber> {
     // Note: Address, amount and token validation is handled at wallet level
     const fee = await this.fetchIcpTransferFee();
@@ -136,6 +211,42 @@ export class IcpNativeHandler extends BaseAssetHandler {
     return result;
   }
 
+  /**
+   * List ICP transfers of an account from the ICP index canister
+   * Note: Address validation is handled at wallet level
+   */
+  @DfinityRetry({})
+  public async getTransactionHistory(
+    params: TransactionHistoryParams & { limit: number }
+  ): Promise<TransactionHistoryPage> {
+    const { address, token, cursor, limit } = params;
+    const accountIdentifier = addressToAccountIdentifier(address).toHex();
+    const start = cursor ? this.parseHistoryCursor(cursor) : undefined;
+
+    const index = IndexCanister.create({
+      agent: this.agentManager.getAnonymousAgent(),
+      canisterId: ICP_INDEX_CANISTER_ID
+    });
+    const response = await index.getTransactions({
+      accountIdentifier,
+      start,
+      maxResults: BigInt(start === undefined ? limit : limit + 1)
+    });
+
+    const { transactions, nextCursor } = this.sliceHistoryPage(
+      response.transactions,
+      start,
+      limit,
+      response.oldest_tx_id[0]
+    );
+    const records = transactions.flatMap((transaction) => {
+      const record = this.toTransactionRecord(transaction, accountIdentifier, token);
+      return record ? [record] : [];
+    });
+
+    return { records, nextCursor };
+  }
+
   public cleanup(): void {
     this.ledger = undefined;
     this.logger.debug('ICP native handler resources cleaned up', {
@@ -189,4 +300,33 @@ export class IcpNativeHandler extends BaseAssetHandler {
     const ledger = this.getIcpLedgerForQuery();
     return await ledger.transactionFee();
   }
+
+  /**
+   * Map an indexed ledger block to a transaction record, skipping everything but plain transfers
+   */
+  private toTransactionRecord(
+    { id, transaction }: TransactionWithId,
+    accountIdentifier: string,
+    token: TokenIdentifier
+  ): TransactionRecord | undefined {
+    if (!('Transfer' in transaction.operation)) {
+      return undefined;
+    }
+
+    const { from, to, amount, fee } = transaction.operation.Transfer;
+    const direction = getTransactionDirection(accountIdentifier, from, to);
+    const timestamp = transaction.timestamp[0] ?? transaction.created_at_time[0];
+
+    return {
+      hash: id.toString(),
+      direction,
+      counterparty: direction === 'incoming' ? from : to,
+      amount: new BigNumber(String(amount.e8s)),
+      token,
+      fee: new BigNumber(String(fee.e8s)),
+      // Ledger blocks are final once indexed
+      status: 'confirmed',
+      timestamp: timestamp ? Number(timestamp.timestamp_nanos / 1_000_000n) : undefined
+    };
+  }
 }
@@ -1,25 +1,48 @@
 import BigNumber from 'bignumber.js';
-import { IcrcLedgerCanister } from '@dfinity/ledger-icrc';
+import {
+  IcrcIndexNgCanister,
+  IcrcLedgerCanister,
+  IcrcTransactionWithId,
+  IcrcTransferError,
+  IcrcTransferVariantError,
+  toTransferArg
+} from '@dfinity/ledger-icrc';
+import { idlFactory as icrcLedgerIdlFactory } from '@dfinity/ledger-icrc/dist/candid/icrc_ledger.idl';
+import { IDL } from '@dfinity/candid';
 import { Principal } from '@dfinity/principal';
 import { LRUCache } from 'lru-cache';
 import { BaseAssetHandler } from './base-asset-handler';
 import {
   BalanceQueryParams,
   TransferParams,
+  TokenIdentifier,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  TransactionRecord,
   BalanceQueryError,
   TransactionError,
   HibitIdSdkErrorCode,
   ILogger,
   NetworkError,
-  Memoize
+  Memoize,
+  getTransactionDirection
 } from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
-import { isValidIcrcAddress } from '../utils';
+import { isValidIcrcAddress, getCandidMethod, getDuplicateBlockIndex } from '../utils';
 import { CHAIN_CONFIG, CACHE_CONFIG, DfinityRetry } from '../config';
 import ic from 'ic0';
 import { AgentManager } from '../shared/agent-manager';
 import { IC_CANISTERS } from '../config';
 import { IcrcMetadataResponseEntries } from '@dfinity/ledger-icrc';
+import { IcpLedgerCall, IcpUnsignedTransactionData } from '../types';
+
+/** The ICRC-1 transfer method of token ledgers */
+const ICRC1_TRANSFER_METHOD = getCandidMethod(icrcLedgerIdlFactory, 'icrc1_transfer');
+
+/**
+ * Reply of the icrc1_transfer method
+ */
+type Icrc1TransferResult = { Ok: bigint } | { Err: IcrcTransferVariantError };
 
 /**
  * Asset handler for ICRC tokens (ICRC-1 standard fungible tokens).
@@ -124,7 +147,7 @@ export class IcrcTokenHandler extends BaseAssetHandler {
     return result;
   }
 
-  public async transfer(params: TransferParams): Promise<string> {
+  public async buildTransfer(params: TransferParams): Promise<Omit<IcpUnsignedTransactionData, 'createdAtTime'>> {
     const { recipientAddress, amount, token } = params;
 
     // Token address validation is handled at wallet level
@@ -141,37 +164,57 @@ export class IcrcTokenHandler extends BaseAssetHandler {
 
     await this.assertIcrc3Support(token.tokenAddress!);
 
+    // Amount is already in smallest unit
+    const amountInSmallestUnit = amount.integerValue(BigNumber.ROUND_FLOOR).toFixed();
+
+    return {
+      recipientAddress,
+      amount: amountInSmallestUnit
+    };
+  }
+
+  public async submitTransfer(token: TokenIdentifier, data: IcpUnsignedTransactionData): Promise<string> {
+    const { recipientAddress, amount, createdAtTime } = data;
+
     const ledger = this.getIcrcLedger(token.tokenAddress!);
     const toPrincipal = Principal.fromText(recipientAddress);
 
-    // Amount is already in smallest unit
-    const amountInSmallestUnit = BigInt(amount.integerValue(BigNumber.ROUND_FLOOR).toString());
-
     this.logger.debug(`Initiating ICRC token transfer`, {
-      context: 'IcrcTokenHandler.transfer',
+      context: 'IcrcTokenHandler.submitTransfer',
       data: {
         recipientAddress,
         tokenAddress: token.tokenAddress,
-        amountSmallestUnit: amountInSmallestUnit.toString()
+        amountSmallestUnit: amount
       }
     });
 
-    const blockIndex = await ledger.transfer({
-      to: {
-        owner: toPrincipal,
-        subaccount: []
-      },
-      amount: amountInSmallestUnit
-    });
+    let blockIndex: bigint;
+    try {
+      blockIndex = await ledger.transfer({
+        to: {
+          owner: toPrincipal,
+          subaccount: []
+        },
+        amount: BigInt(amount),
+        created_at_time: BigInt(createdAtTime)
+      });
+    } catch (error) {
+      // A resubmitted transfer is rejected with the block of the original one
+      const duplicateOf = getDuplicateBlockIndex(error);
+      if (duplicateOf === undefined) {
+        throw error;
+      }
+      blockIndex = duplicateOf;
+    }
 
     const transactionId = String(blockIndex);
 
     this.logger.info(`ICRC token transfer completed successfully`, {
-      context: 'IcrcTokenHandler.transfer',
+      context: 'IcrcTokenHandler.submitTransfer',
       data: {
         recipientAddress,
         tokenAddress: token.tokenAddress,
-        amountSmallestUnit: amountInSmallestUnit.toString(),
+        amountSmallestUnit: amount,
         blockIndex: transactionId
       }
     });
@@ -179,6 +222,37 @@ export class IcrcTokenHandler extends BaseAssetHandler {
     return transactionId;
   }
 
+  public encodeTransfer(token: TokenIdentifier, data: IcpUnsignedTransactionData): IcpLedgerCall {
+    const arg = toTransferArg({
+      to: {
+        owner: Principal.fromText(data.recipientAddress),
+        subaccount: []
+      },
+      amount: BigInt(data.amount),
+      created_at_time: BigInt(data.createdAtTime)
+    });
+    return {
+      canisterId: token.tokenAddress!,
+      methodName: 'icrc1_transfer',
+      arg: new Uint8Array(IDL.encode(ICRC1_TRANSFER_METHOD.argTypes, [arg]))
+    };
+  }
+
+  public decodeTransferReply(reply: ArrayBuffer): string {
+    const [result] = IDL.decode(ICRC1_TRANSFER_METHOD.retTypes, reply) as unknown as [Icrc1TransferResult];
+    if ('Ok' in result) {
+      return String(result.Ok);
+    }
+
+    // A resubmitted transfer is rejected with the block of the original one
+    const error = new IcrcTransferError({ errorType: result.Err, msg: 'Failed to transfer' });
+    const duplicateOf = getDuplicateBlockIndex(error);
+    if (duplicateOf === undefined) {
+      throw error;
+    }
+    return String(duplicateOf);
+  }
+
   public async estimateFee(params: TransferParams): Promise<BigNumber> {
     const { token } = params;
 
@@ -202,6 +276,80 @@ export class IcrcTokenHandler extends BaseAssetHandler {
     return result;
   }
 
+  /**
+   * List transfers of an account from the index canister advertised by the token ledger (ICRC-106)
+   * Note: Address and token validation is handled at wallet level
+   */
+  @DfinityRetry({})
+  public async getTransactionHistory(
+    params: TransactionHistoryParams & { limit: number }
+  ): Promise<TransactionHistoryPage> {
+    const { address, token, cursor, limit } = params;
+
+    // Dfinity-specific check: ICRC tokens only support Principal format, not AccountIdentifier
+    if (!isValidIcrcAddress(address)) {
+      throw new BalanceQueryError(
+        HibitIdSdkErrorCode.INVALID_RECIPIENT_ADDRESS,
+        `${CHAIN_CONFIG.CHAIN_NAME}: ICRC tokens only support Principal addresses, not AccountIdentifier format`
+      );
+    }
+
+    const start = cursor ? this.parseHistoryCursor(cursor) : undefined;
+    const index = IcrcIndexNgCanister.create({
+      agent: this.agentManager.getAnonymousAgent(),
+      canisterId: await this.fetchIndexPrincipal(token.tokenAddress!)
+    });
+    const response = await index.getTransactions({
+      account: { owner: Principal.fromText(address) },
+      start,
+      max_results: BigInt(start === undefined ? limit : limit + 1)
+    });
+
+    const { transactions, nextCursor } = this.sliceHistoryPage(
+      response.transactions,
+      start,
+      limit,
+      response.oldest_tx_id[0]
+    );
+    const records = transactions.flatMap((transaction) => {
+      const record = this.toTransactionRecord(transaction, address, token);
+      return record ? [record] : [];
+    });
+
+    return { records, nextCursor };
+  }
+
+  /**
+   * Map an indexed ledger block to a transaction record, skipping everything but plain transfers
+   */
+  private toTransactionRecord(
+    { id, transaction }: IcrcTransactionWithId,
+    address: string,
+    token: TokenIdentifier
+  ): TransactionRecord | undefined {
+    const transfer = transaction.transfer[0];
+    if (!transfer) {
+      return undefined;
+    }
+
+    const from = transfer.from.owner.toText();
+    const to = transfer.to.owner.toText();
+    const direction = getTransactionDirection(address, from, to);
+    const fee = transfer.fee[0];
+
+    return {
+      hash: id.toString(),
+      direction,
+      counterparty: direction === 'incoming' ? from : to,
+      amount: new BigNumber(String(transfer.amount)),
+      token,
+      fee: fee !== undefined ? new BigNumber(String(fee)) : undefined,
+      // Ledger blocks are final once indexed
+      status: 'confirmed',
+      timestamp: Number(transaction.timestamp / 1_000_000n)
+    };
+  }
+
   /**
    * Assert that the token supports ICRC-3 standard
    * @param tokenAddress - The token canister ID to check
@@ -312,6 +460,19 @@ export class IcrcTokenHandler extends BaseAssetHandler {
     return await ledger.transactionFee({});
   }
 
+  /**
+   * Fetch the index canister of a token ledger (ICRC-106) with caching
+   */
+  @Memoize({
+    ttl: CACHE_CONFIG.TTL.LEDGER,
+    max: CACHE_CONFIG.SIZE.LEDGER,
+    key: (tokenAddress: string) => `index:${tokenAddress}`
+  })
+  private async fetchIndexPrincipal(tokenAddress: string): Promise<Principal> {
+    const ledger = this.getIcrcLedgerForQuery(tokenAddress);
+    return await ledger.getIndexPrincipal({});
+  }
+
   /**
    * Check ICRC-3 support with caching and retry
    */
@@ -23,6 +23,14 @@ export const CHAIN_CONFIG = {
   DERIVING_PATH: "m/44'/223'/0'/0'/0'"
 } as const;
 
+/**
+ * HD wallet derivation path of the account at the given index
+ * Accounts differ in the (hardened) address index of the default BIP-44 account
+ */
+export function getDerivingPath(accountIndex: number): string {
+  return `m/44'/223'/0'/0'/${accountIndex}'`;
+}
+
 /**
  * Internet Computer protocol constants.
  *
@@ -56,6 +64,15 @@ export const IC_PROTOCOL = {
   ADDRESS_FORMAT: {
     /** AccountIdentifier hex string length */
     ACCOUNT_IDENTIFIER_HEX_LENGTH: 64
+  },
+  /**
+   * Signed update call constants.
+   */
+  SIGNED_CALL: {
+    /** Domain separator prepended to the request ID before signing */
+    DOMAIN_SEPARATOR: '\x0Aic-request',
+    /** Time a signed call stays valid; the IC rejects ingress expiries more than 5 minutes ahead */
+    INGRESS_EXPIRY_MS: 4 * 60 * 1000 // 4 minutes
   }
 } as const;
 
@@ -64,7 +81,9 @@ export const IC_PROTOCOL = {
  */
 export const IC_CANISTERS = {
   /** ICP Ledger Canister ID - manages native ICP token operations */
-  ICP_LEDGER: 'ryjl3-tyaaa-aaaaa-aaaba-cai'
+  ICP_LEDGER: 'ryjl3-tyaaa-aaaaa-aaaba-cai',
+  /** ICP Index Canister ID - indexes ICP ledger transactions by account */
+  ICP_INDEX: 'qhbym-qaaaa-aaaaa-aaafq-cai'
 } as const;
 
 /**
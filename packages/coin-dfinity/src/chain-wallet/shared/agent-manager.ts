@@ -1,8 +1,19 @@
-import { HttpAgent, AnonymousIdentity } from '@dfinity/agent';
+import { HttpAgent, AnonymousIdentity, Cbor, RequestId, pollForResponse, requestIdOf } from '@dfinity/agent';
 import { createAgent } from '@dfinity/utils';
-import { Secp256k1KeyIdentity } from '@dfinity/identity-secp256k1';
-import { NetworkError, HibitIdSdkErrorCode, ILogger, ChainInfo } from '@delandlabs/coin-base';
-import { CHAIN_CONFIG } from '../config';
+import { Principal } from '@dfinity/principal';
+import * as cbor from 'cborg';
+import {
+  NetworkError,
+  TransactionError,
+  HibitIdSdkErrorCode,
+  ILogger,
+  ChainInfo,
+  EndpointPool
+} from '@delandlabs/coin-base';
+import { base } from '@delandlabs/crypto-lib';
+import { CHAIN_CONFIG, IC_PROTOCOL } from '../config';
+import { IcpLedgerCall, IcpSignedCall } from '../types';
+import { SignerIdentity } from './signer-identity';
 
 /**
  * Manages the HttpAgent and Identity for Dfinity interactions.
@@ -16,47 +27,47 @@ import { CHAIN_CONFIG } from '../config';
 export class AgentManager {
   private authenticatedAgent?: HttpAgent;
   private anonymousAgent?: HttpAgent;
-  private identity?: Secp256k1KeyIdentity;
+  private identity?: SignerIdentity;
 
+  /**
+   * @param chainInfo - Chain configuration of the Internet Computer network
+   * @param logger - Logger instance
+   * @param endpointPool - Pool choosing the host of the agents; defaults to rpc.primary
+   */
   constructor(
     private readonly chainInfo: ChainInfo,
-    private readonly logger: ILogger
+    private readonly logger: ILogger,
+    private readonly endpointPool?: EndpointPool
   ) {}
 
   /**
    * Initialize the agent with the provided identity
-   * @param identity - The Secp256k1KeyIdentity to use for authentication
+   * @param identity - The identity of the wallet's signer, omitted for watch-only wallets
    */
-  public async initialize(identity: Secp256k1KeyIdentity): Promise<void> {
-    try {
-      this.identity = identity;
-
-      // Create authenticated agent with the identity and RPC endpoint
-      this.authenticatedAgent = await createAgent({
-        identity,
-        host: this.chainInfo.rpc?.primary
-      });
-
-      // Create anonymous agent for faster queries
-      this.anonymousAgent = await createAgent({
-        identity: new AnonymousIdentity(),
-        host: this.chainInfo.rpc?.primary
-      });
+  public async initialize(identity?: SignerIdentity): Promise<void> {
+    this.identity = identity;
+    await this.createAgents(this.getHost(), 'AgentManager.initialize');
+  }
 
-      this.logger.debug('HttpAgents initialized successfully', {
-        context: 'AgentManager.initialize',
-        data: { host: this.chainInfo.rpc?.primary }
-      });
-    } catch (error) {
-      this.logger.error('Failed to create HttpAgent', {
-        error: error instanceof Error ? error : new Error(String(error)),
-        context: 'AgentManager.initialize'
-      });
-      throw new NetworkError(
-        HibitIdSdkErrorCode.NETWORK_UNAVAILABLE,
-        `${CHAIN_CONFIG.CHAIN_NAME}: Failed to create agent: ${error instanceof Error ? error.message : String(error)}`
-      );
+  /**
+   * Replace the agents with agents for another host, keeping the identity
+   * Does nothing before initialize, which uses the endpoint pool's current host.
+   * @param host - URL of the host to use from now on
+   */
+  public async switchHost(host: string): Promise<void> {
+    if (!this.isInitialized()) {
+      return;
     }
+    await this.createAgents(host, 'AgentManager.switchHost');
+  }
+
+  /**
+   * Request the status of a host, rejecting when it does not answer
+   * @param host - URL of the host to check
+   */
+  public async checkHost(host: string): Promise<void> {
+    const agent = await createAgent({ identity: new AnonymousIdentity(), host });
+    await agent.status();
   }
 
   /**
@@ -85,22 +96,106 @@ export class AgentManager {
 
   /**
    * Get the initialized Identity
-   * @returns The Secp256k1KeyIdentity instance
+   * @returns The SignerIdentity instance
    * @throws Error if identity is not initialized
    */
-  public getIdentity(): Secp256k1KeyIdentity {
+  public getIdentity(): SignerIdentity {
     if (!this.identity) {
       throw new Error('Identity not initialized. Call initialize() first.');
     }
     return this.identity;
   }
 
+  /**
+   * Sign an update call with the identity, for submission with submitSignedCall
+   * The call is valid until its ingress expiry, IC_PROTOCOL.SIGNED_CALL.INGRESS_EXPIRY_MS from now.
+   * @param call - Canister, method and candid-encoded arguments of the call
+   * @returns The CBOR envelope of the signed call with its request ID and ingress expiry
+   * @throws Error if identity is not initialized
+   */
+  public async signCall(call: IcpLedgerCall): Promise<IcpSignedCall> {
+    const identity = this.getIdentity();
+    const ingressExpiry = BigInt(Date.now() + IC_PROTOCOL.SIGNED_CALL.INGRESS_EXPIRY_MS) * 1_000_000n;
+    const content = {
+      request_type: 'call',
+      canister_id: Principal.fromText(call.canisterId).toUint8Array(),
+      method_name: call.methodName,
+      arg: call.arg,
+      sender: identity.getPrincipal().toUint8Array(),
+      ingress_expiry: ingressExpiry
+    };
+
+    // The identity signs the request ID, prefixed with the IC request domain separator
+    const requestId = new Uint8Array(requestIdOf(content));
+    const domainSeparator = new TextEncoder().encode(IC_PROTOCOL.SIGNED_CALL.DOMAIN_SEPARATOR);
+    const signature = await identity.sign(new Uint8Array([...domainSeparator, ...requestId]));
+    const envelope = cbor.encode({
+      content,
+      sender_pubkey: new Uint8Array(identity.getPublicKey().toDer()),
+      sender_sig: new Uint8Array(signature)
+    });
+
+    return {
+      canisterId: call.canisterId,
+      requestId: base.toHex(requestId),
+      ingressExpiry: ingressExpiry.toString(),
+      envelope: base.toBase64(envelope)
+    };
+  }
+
+  /**
+   * Submit a signed update call and wait for its reply
+   * Submitting a call again returns the reply of the first submission.
+   * @param call - Call signed by signCall
+   * @returns The candid-encoded reply of the canister
+   * @throws {TransactionError} When the call expired or the IC rejects it
+   */
+  public async submitSignedCall(call: IcpSignedCall): Promise<ArrayBuffer> {
+    if (BigInt(call.ingressExpiry) <= BigInt(Date.now()) * 1_000_000n) {
+      throw new TransactionError(
+        HibitIdSdkErrorCode.TRANSACTION_BROADCAST_FAILED,
+        `${CHAIN_CONFIG.CHAIN_NAME}: The signed call expired, sign the transfer again`
+      );
+    }
+
+    // Replies to a call can only be read by its sender
+    const agent = this.getAgent();
+    const canisterId = Principal.fromText(call.canisterId);
+    const url = `${agent.host.origin}/api/v3/canister/${canisterId.toText()}/call`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/cbor' },
+      body: base.fromBase64(call.envelope)
+    });
+    if (!response.ok) {
+      throw new TransactionError(
+        HibitIdSdkErrorCode.TRANSACTION_BROADCAST_FAILED,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Call submission failed with http status ${response.status}: ${await response.text()}`
+      );
+    }
+
+    // 200 answers calls that completed or were rejected in time, 202 calls still being processed
+    if (response.status === 200) {
+      const body = Cbor.decode<{ status: string; reject_message?: string }>(await response.arrayBuffer());
+      if (body.status === 'non_replicated_rejection') {
+        throw new TransactionError(
+          HibitIdSdkErrorCode.TRANSACTION_BROADCAST_FAILED,
+          `${CHAIN_CONFIG.CHAIN_NAME}: Call rejected: ${body.reject_message}`
+        );
+      }
+    }
+
+    const requestId = new Uint8Array(base.fromHex(call.requestId)).buffer as RequestId;
+    const { reply } = await pollForResponse(agent, canisterId, requestId);
+    return reply;
+  }
+
   /**
    * Check if the agent is initialized
    * @returns True if agent is ready to use
    */
   public isInitialized(): boolean {
-    return this.authenticatedAgent !== undefined && this.anonymousAgent !== undefined && this.identity !== undefined;
+    return this.anonymousAgent !== undefined && (this.identity === undefined || this.authenticatedAgent !== undefined);
   }
 
   /**
@@ -114,4 +209,49 @@ export class AgentManager {
       context: 'AgentManager.cleanup'
     });
   }
+
+  /**
+   * Get the host from the endpoint pool, or from chain configuration without one
+   */
+  private getHost(): string | undefined {
+    if (this.endpointPool?.hasEndpoints()) {
+      return this.endpointPool.getCurrentUrl();
+    }
+    return this.chainInfo.rpc?.primary;
+  }
+
+  /**
+   * Create the authenticated agent for the identity, if any, and the anonymous agent for a host
+   * @param host - URL of the host
+   * @param context - Log context of the caller
+   */
+  private async createAgents(host: string | undefined, context: string): Promise<void> {
+    try {
+      // Create authenticated agent with the identity and RPC endpoint
+      const authenticatedAgent = this.identity ? await createAgent({ identity: this.identity, host }) : undefined;
+
+      // Create anonymous agent for faster queries
+      const anonymousAgent = await createAgent({
+        identity: new AnonymousIdentity(),
+        host
+      });
+
+      this.authenticatedAgent = authenticatedAgent;
+      this.anonymousAgent = anonymousAgent;
+
+      this.logger.debug('HttpAgents initialized successfully', {
+        context,
+        data: { host }
+      });
+    } catch (error) {
+      this.logger.error('Failed to create HttpAgent', {
+        error: error instanceof Error ? error : new Error(String(error)),
+        context
+      });
+      throw new NetworkError(
+        HibitIdSdkErrorCode.NETWORK_UNAVAILABLE,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Failed to create agent: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
 }
@@ -0,0 +1,46 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { Signature, SignIdentity } from '@dfinity/agent';
+import { Secp256k1PublicKey } from '@dfinity/identity-secp256k1';
+import { ISigner } from '@delandlabs/coin-base';
+
+/**
+ * Internet Computer identity backed by an ISigner.
+ *
+ * Mirrors Secp256k1KeyIdentity but never holds the private key: every signature is
+ * requested from the underlying signer.
+ */
+export class SignerIdentity extends SignIdentity {
+  /**
+   * @param signer - The secp256k1 signer holding the key
+   * @param publicKey - Public key of the signer's key
+   */
+  private constructor(
+    private readonly signer: ISigner,
+    private readonly publicKey: Secp256k1PublicKey
+  ) {
+    super();
+  }
+
+  /**
+   * Create an identity for an ISigner
+   * @param signer - The secp256k1 signer holding the key
+   */
+  static async create(signer: ISigner): Promise<SignerIdentity> {
+    const publicKey = secp256k1.ProjectivePoint.fromHex(await signer.getPublicKey()).toRawBytes(false);
+    return new SignerIdentity(signer, Secp256k1PublicKey.fromRaw(publicKey.buffer as ArrayBuffer));
+  }
+
+  getPublicKey(): Secp256k1PublicKey {
+    return this.publicKey;
+  }
+
+  /**
+   * Sign a blob as Secp256k1KeyIdentity does: an ECDSA signature of its SHA-256 hash
+   * @param blob - Data to sign
+   * @returns The 64-byte r || s signature
+   */
+  async sign(blob: ArrayBuffer): Promise<Signature> {
+    const signature = await this.signer.signBytes(new Uint8Array(blob));
+    return signature.slice(0, 64).buffer as Signature;
+  }
+}
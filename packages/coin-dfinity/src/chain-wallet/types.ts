@@ -163,3 +163,40 @@ export type Icrc49CallCanisterResult = {
   contentMap: string; // base64 encoded
   certificate: string; // base64 encoded
 };
+
+/**
+ * Chain-specific data of an unsigned ICP or ICRC transfer
+ * created_at_time is fixed when the transfer is built: the ledger deduplicates every
+ * submission of the transfer by it.
+ */
+export type IcpUnsignedTransactionData = {
+  recipientAddress: string; // Principal, or AccountIdentifier for native ICP
+  amount: string; // smallest unit
+  createdAtTime: string; // nanoseconds since epoch
+};
+
+/**
+ * Update call to a ledger canister, before it is signed
+ */
+export type IcpLedgerCall = {
+  canisterId: string;
+  methodName: string;
+  arg: Uint8Array; // candid-encoded arguments
+};
+
+/**
+ * Update call signed for later submission
+ * The IC only accepts the call until its ingress expiry, about four minutes after signing.
+ */
+export type IcpSignedCall = {
+  canisterId: string; // canister the call is sent to
+  requestId: string; // hex-encoded request ID of the call
+  ingressExpiry: string; // nanoseconds since epoch
+  envelope: string; // base64-encoded CBOR envelope of the signed call
+};
+
+/**
+ * Chain-specific data of a signed ICP or ICRC transfer: the signed ledger call
+ * A transfer broadcast after its ingress expiry is rejected and must be signed again.
+ */
+export type IcpSignedTransactionData = IcpUnsignedTransactionData & IcpSignedCall;
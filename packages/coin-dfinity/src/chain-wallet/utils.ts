@@ -1,3 +1,4 @@
+import { IDL } from '@dfinity/candid';
 import { Principal } from '@dfinity/principal';
 import { IcrcMethods, JsonRpcRequest, JsonRpcResponseError, JsonRpcResponseSuccess } from './types';
 import { CHAIN_CONFIG, IC_PROTOCOL } from './config';
@@ -376,3 +377,44 @@ export const addressToAccountIdentifier = (address: string): AccountIdentifier =
   }
   return accountId;
 };
+
+/**
+ * Extract the original block index from a ledger duplicate transfer error.
+ *
+ * Both the ICP ledger (TxDuplicateError) and ICRC ledgers (Duplicate error type)
+ * reject a resubmitted transfer with the block index of the original one.
+ *
+ * @param error - Error thrown by a ledger transfer call
+ * @returns Block index of the original transfer, or undefined for other errors
+ *
+ * @internal
+ */
+export const getDuplicateBlockIndex = (error: unknown): bigint | undefined => {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+
+  if ('duplicateOf' in error && typeof error.duplicateOf === 'bigint') {
+    return error.duplicateOf;
+  }
+
+  const errorType = 'errorType' in error ? (error.errorType as { Duplicate?: { duplicate_of: bigint } }) : undefined;
+  return errorType?.Duplicate?.duplicate_of;
+};
+
+/**
+ * Get a method of a canister interface, to encode its arguments and decode its reply.
+ *
+ * @param idlFactory - Candid interface factory of the canister
+ * @param methodName - Name of the method
+ * @returns The candid function type of the method
+ *
+ * @internal
+ */
+export const getCandidMethod = (idlFactory: IDL.InterfaceFactory, methodName: string): IDL.FuncClass => {
+  const method = idlFactory({ IDL })._fields.find(([name]) => name === methodName);
+  if (!method) {
+    throw new Error(`Candid method ${methodName} not found`);
+  }
+  return method[1];
+};
@@ -5,6 +5,8 @@ import * as cbor from 'cborg';
 import {
   Icrc49CallCanisterRequest,
   Icrc49CallCanisterResult,
+  IcpUnsignedTransactionData,
+  IcpSignedTransactionData,
   IcrcErrorCode,
   JsonRpcResponseError,
   JsonRpcResponseSuccess
@@ -13,13 +15,21 @@ import { buildJsonRpcError, buildJsonRpcResponse } from './utils';
 import {
   BaseChainWallet,
   WalletConfig,
+  DerivationOptions,
   ChainInfo,
   SignMessageParams,
   BalanceQueryParams,
   TransferParams,
+  UnsignedTransaction,
+  SignedTransaction,
+  TransferSimulationResult,
   TransactionConfirmationParams,
   TransactionConfirmationResult,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
   TokenIdentifier,
+  ISigner,
+  WatchOnlyAccount,
   ILogger,
   NetworkError,
   MessageSigningError,
@@ -38,12 +48,16 @@ import {
   withErrorHandling,
   withLogging,
   cleanSensitiveData,
-  getAssetTypeName
+  getAssetTypeName,
+  createUnsignedTransaction,
+  createSignedTransaction,
+  assertTransactionForChain
 } from '@delandlabs/coin-base';
 import { ChainAccount, ChainAssetType } from '@delandlabs/hibit-basic-types';
 import { base, deriveEcdsaPrivateKey, clearSensitiveArrays } from '@delandlabs/crypto-lib';
-import { CHAIN_CONFIG } from './config';
+import { CHAIN_CONFIG, getDerivingPath } from './config';
 import { AgentManager } from './shared/agent-manager';
+import { SignerIdentity } from './shared/signer-identity';
 import { BaseAssetHandler, IcpNativeHandler, IcrcTokenHandler } from './asset-handlers';
 
 // Register Dfinity validators
@@ -80,24 +94,37 @@ export class IcpChainWallet extends BaseChainWallet {
   private readonly agentManager: AgentManager;
   private readonly assetHandlers: Map<ChainAssetType, BaseAssetHandler>;
 
-  constructor(chainInfo: ChainInfo, mnemonic: string, options?: { logger?: ILogger }) {
+  /**
+   * @param chainInfo - Chain configuration of the Internet Computer network
+   * @param mnemonicOrSigner - Mnemonic phrase, a secp256k1 signer holding the wallet key, or an account to watch
+   * @param options - Logger and derivation options; derivation options only apply to mnemonics
+   */
+  constructor(
+    chainInfo: ChainInfo,
+    mnemonicOrSigner: string | ISigner | WatchOnlyAccount,
+    options?: { logger?: ILogger } & DerivationOptions
+  ) {
     if (chainInfo.chainId.chain !== CHAIN_CONFIG.CHAIN) {
       throw new NetworkError(HibitIdSdkErrorCode.INVALID_CONFIGURATION, `${CHAIN_CONFIG.CHAIN_NAME}: invalid chain type`);
     }
 
     const config: WalletConfig = {
       chainInfo,
-      logger: options?.logger
+      logger: options?.logger,
+      accountIndex: options?.accountIndex,
+      derivationPath: options?.derivationPath
     };
-    super(config, mnemonic);
+    super(config, mnemonicOrSigner);
 
     // Initialize managers
-    this.agentManager = new AgentManager(chainInfo, this.logger);
+    this.agentManager = new AgentManager(chainInfo, this.logger, this.endpointPool);
 
     // Initialize an asset handlers map
     this.assetHandlers = new Map<ChainAssetType, BaseAssetHandler>();
 
-    this.readyPromise = createReadyPromise(() => this.initWallet(mnemonic));
+    this.readyPromise = createReadyPromise(() =>
+      this.getWatchOnlyAccount() ? this.initWatchOnlyWallet() : this.initWallet()
+    );
   }
 
   // ========== PUBLIC METHODS ==========
@@ -138,6 +165,7 @@ export class IcpChainWallet extends BaseChainWallet {
     await this.readyPromise;
 
     try {
+      this.assertCanSign();
       const agent = this.agentManager.getAgent();
       const params = request.params;
       const argBytes = base.fromBase64(params.arg);
@@ -176,6 +204,10 @@ export class IcpChainWallet extends BaseChainWallet {
 
   protected async getAccountImpl(): Promise<ChainAccount> {
     await this.readyPromise;
+    const watchOnlyAccount = this.getWatchOnlyAccount();
+    if (watchOnlyAccount) {
+      return new ChainAccount(this.chainInfo.chainId, watchOnlyAccount.address, watchOnlyAccount.publicKeyHex ?? '');
+    }
     const identity = this.agentManager.getIdentity();
     const address = identity.getPrincipal().toString();
     return new ChainAccount(
@@ -185,6 +217,19 @@ export class IcpChainWallet extends BaseChainWallet {
     );
   }
 
+  /**
+   * Derives the account at an account index for getAccounts.
+   */
+  @cleanSensitiveData()
+  protected async deriveAccountImpl(mnemonic: string, accountIndex: number): Promise<ChainAccount> {
+    const identity = await this.deriveIdentity(mnemonic, getDerivingPath(accountIndex));
+    return new ChainAccount(
+      this.chainInfo.chainId,
+      identity.getPrincipal().toString(),
+      base.toHex(new Uint8Array(identity.getPublicKey().toRaw()))
+    );
+  }
+
   protected async signMessageImpl(params: SignMessageParams): Promise<Uint8Array> {
     const { message } = params;
     if (!message) {
@@ -217,7 +262,21 @@ export class IcpChainWallet extends BaseChainWallet {
     return await handler.balanceOf(params);
   }
 
+  /**
+   * Implementation of transfer
+   * Built transfers are submitted through the agent in one update call, without a separate signed call
+   */
   protected async transferImpl(params: TransferParams): Promise<string> {
+    const unsigned = await this.buildTransferImpl(params);
+
+    const handler = this.getAssetHandler(unsigned.token?.assetType);
+    return await handler.submitTransfer(unsigned.token, unsigned.data);
+  }
+
+  /**
+   * Implementation of transfer building using strategy pattern
+   */
+  protected async buildTransferImpl(params: TransferParams): Promise<UnsignedTransaction<IcpUnsignedTransactionData>> {
     await this.readyPromise;
 
     assertValidAddressForTransaction(params.recipientAddress, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
@@ -233,7 +292,43 @@ export class IcpChainWallet extends BaseChainWallet {
     }
 
     const handler = this.getAssetHandler(params.token?.assetType);
-    return await handler.transfer(params);
+    const data = await handler.buildTransfer(params);
+    // Fixed here so that the ledger deduplicates every submission of the transfer
+    const createdAtTime = BigInt(Date.now()) * 1_000_000n;
+    return createUnsignedTransaction(this.chainInfo, params, { ...data, createdAtTime: createdAtTime.toString() });
+  }
+
+  /**
+   * Implementation of transaction signing
+   *
+   * Signs the ledger's update call of the transfer with the identity. The IC accepts the
+   * signed call until its ingress expiry, IC_PROTOCOL.SIGNED_CALL.INGRESS_EXPIRY_MS after signing.
+   */
+  protected async signTransactionImpl(
+    transaction: UnsignedTransaction<IcpUnsignedTransactionData>
+  ): Promise<SignedTransaction<IcpSignedTransactionData>> {
+    await this.readyPromise;
+
+    assertTransactionForChain(transaction, this.chainInfo, CHAIN_CONFIG.CHAIN_NAME);
+
+    const handler = this.getAssetHandler(transaction.token?.assetType);
+    const signedCall = await this.agentManager.signCall(handler.encodeTransfer(transaction.token, transaction.data));
+    return createSignedTransaction(transaction, { ...transaction.data, ...signedCall });
+  }
+
+  /**
+   * Implementation of transaction broadcasting
+   * Returns the ledger block index, which serves as the transaction hash on ICP. Broadcasting
+   * a transfer again returns the block index of the first broadcast.
+   */
+  protected async broadcastTransactionImpl(transaction: SignedTransaction<IcpSignedTransactionData>): Promise<string> {
+    await this.readyPromise;
+
+    assertTransactionForChain(transaction, this.chainInfo, CHAIN_CONFIG.CHAIN_NAME);
+
+    const handler = this.getAssetHandler(transaction.token?.assetType);
+    const reply = await this.agentManager.submitSignedCall(transaction.data);
+    return handler.decodeTransferReply(reply);
   }
 
   protected async estimateFeeImpl(params: TransferParams): Promise<BigNumber> {
@@ -255,6 +350,23 @@ export class IcpChainWallet extends BaseChainWallet {
     return await handler.estimateFee(params);
   }
 
+  /**
+   * ICP is the native asset, reported by balanceChanged
+   */
+  protected getNativeToken(): TokenIdentifier {
+    return { assetType: ChainAssetType.ICP };
+  }
+
+  /**
+   * ICRC ledgers charge the fee in the transferred token, so the token takes the place of the native asset
+   */
+  protected async simulateTransferImpl(params: TransferParams): Promise<TransferSimulationResult> {
+    const fee = await this.estimateFeeImpl(params);
+    const feeToken =
+      params.token?.assetType === ChainAssetType.ICRC3 ? params.token : { assetType: ChainAssetType.ICP };
+    return this.simulateTransferWithBalances(params, fee, feeToken);
+  }
+
   /**
    * Wait for transaction confirmation on Dfinity blockchain.
    *
@@ -320,6 +432,25 @@ export class IcpChainWallet extends BaseChainWallet {
     };
   }
 
+  /**
+   * List transaction history - delegates to appropriate handler
+   */
+  protected async getTransactionHistoryImpl(
+    params: TransactionHistoryParams & { limit: number }
+  ): Promise<TransactionHistoryPage> {
+    await this.readyPromise;
+
+    assertValidAddressForBalance(params.address, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+
+    // Validate token address for ICRC tokens
+    if (params.token?.assetType === ChainAssetType.ICRC3) {
+      await assertValidTokenAddressForBalance(params.token.tokenAddress, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+    }
+
+    const handler = this.getAssetHandler(params.token?.assetType);
+    return handler.getTransactionHistory(params);
+  }
+
   /**
    * Implementation of getAssetDecimals
    * Returns the number of decimals for the specified asset
@@ -345,6 +476,24 @@ export class IcpChainWallet extends BaseChainWallet {
     throw new Error(`Cannot get decimals for asset type: ${token.assetType}`);
   }
 
+  /**
+   * Implementation of endpoint probing: requests the replica status
+   */
+  protected async checkEndpointImpl(url: string): Promise<void> {
+    await this.agentManager.checkHost(url);
+  }
+
+  /**
+   * Recreate the agents for the host the endpoint pool switched to
+   * Asset handlers drop their cached ledgers so they are recreated with the new agents.
+   */
+  protected async onRpcEndpointChanged(url: string): Promise<void> {
+    await this.agentManager.switchHost(url);
+    for (const handler of this.assetHandlers.values()) {
+      handler.cleanup();
+    }
+  }
+
   protected destroyImpl(): void {
     // Clean up asset handlers
     for (const handler of this.assetHandlers.values()) {
@@ -409,15 +558,35 @@ export class IcpChainWallet extends BaseChainWallet {
   }
 
   /**
-   * Initialize the wallet with the provided mnemonic
-   * @param mnemonic - The mnemonic phrase to derive keys from
+   * Initialize the wallet with the identity of its signer
    */
   @withErrorHandling({ errorType: 'general' }, 'Failed to initialize wallet')
   @withLogging('Initialize wallet')
-  @cleanSensitiveData()
-  private async initWallet(mnemonic: string): Promise<void> {
-    // Generate identity from mnemonic
-    const privateKeyHex = await deriveEcdsaPrivateKey(mnemonic, CHAIN_CONFIG.DERIVING_PATH);
+  private async initWallet(): Promise<void> {
+    // Sign with the constructor's signer or a key derived from the mnemonic
+    const identity = await SignerIdentity.create(this.createSigner('secp256k1', getDerivingPath));
+
+    // Initialize agent manager
+    await this.agentManager.initialize(identity);
+
+    // Initialize asset handlers
+    this.initAssetHandlers();
+  }
+
+  /**
+   * Initialize a watch-only wallet with anonymous agents only
+   */
+  @withErrorHandling({ errorType: 'general' }, 'Failed to initialize watch-only wallet')
+  @withLogging('Initialize watch-only wallet')
+  private async initWatchOnlyWallet(): Promise<void> {
+    await this.agentManager.initialize();
+    this.initAssetHandlers();
+  }
+  /**
+   * Derives the secp256k1 identity at a derivation path.
+   */
+  private async deriveIdentity(mnemonic: string, derivationPath: string): Promise<Secp256k1KeyIdentity> {
+    const privateKeyHex = await deriveEcdsaPrivateKey(mnemonic, derivationPath);
     const privateKeyBytes = base.fromHex(privateKeyHex);
 
     // Create a copy for the identity since it will reference the buffer
@@ -427,13 +596,10 @@ export class IcpChainWallet extends BaseChainWallet {
     // Clear sensitive data from memory
     clearSensitiveArrays(privateKeyBytes);
 
-    // Initialize agent manager
-    await this.agentManager.initialize(identity);
-
-    // Initialize asset handlers
-    this.initAssetHandlers();
+    return identity;
   }
 
+
   /**
    * Parse block height from transaction hash.
    * In Dfinity, the transaction hash is typically the block height as a string.
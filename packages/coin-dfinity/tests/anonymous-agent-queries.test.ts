@@ -1,8 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { HttpAgent, AnonymousIdentity } from '@dfinity/agent';
-import { Secp256k1KeyIdentity } from '@dfinity/identity-secp256k1';
 import { createAgent } from '@dfinity/utils';
 import { AgentManager } from '../src/chain-wallet/shared/agent-manager';
+import { SignerIdentity } from '../src/chain-wallet/shared/signer-identity';
 import { ChainInfo, Ecosystem } from '@delandlabs/coin-base';
 import { ChainType, ChainNetwork, ChainId, WalletSignatureSchema } from '@delandlabs/hibit-basic-types';
 // Mock the @dfinity/utils module
@@ -23,7 +23,7 @@ describe('Anonymous Agent for Queries', () => {
   let agentManager: AgentManager;
   let mockAuthenticatedAgent: HttpAgent;
   let mockAnonymousAgent: HttpAgent;
-  let identity: Secp256k1KeyIdentity;
+  let identity: SignerIdentity;
 
   const chainInfo: ChainInfo = {
     chainId: new ChainId(ChainType.Dfinity, ChainNetwork.DfinityMainNet),
@@ -4,16 +4,20 @@ import { IcpNativeHandler } from '../../src/chain-wallet/asset-handlers/icp-nati
 import { AgentManager } from '../../src/chain-wallet/shared/agent-manager';
 import { ILogger, BalanceQueryParams, TransferParams } from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
-import { LedgerCanister } from '@dfinity/ledger-icp';
+import { IndexCanister, LedgerCanister } from '@dfinity/ledger-icp';
+import { addressToAccountIdentifier } from '../../src/chain-wallet/utils';
 import { createMockLogger, createMockAgent, createMockAgentManager, createMockLedger } from '../test-helpers';
 
-// Mock only LedgerCanister, keep other exports like AccountIdentifier unmocked
+// Mock only the canisters, keep other exports like AccountIdentifier unmocked
 vi.mock('@dfinity/ledger-icp', async () => {
   const actual = await vi.importActual('@dfinity/ledger-icp');
   return {
     ...actual,
     LedgerCanister: {
       create: vi.fn()
+    },
+    IndexCanister: {
+      create: vi.fn()
     }
   };
 });
@@ -75,32 +79,64 @@ describe('IcpNativeHandler', () => {
     // 余额查询功能测试已简化 - 装饰器行为已在coin-base中测试
   });
 
-  describe('transfer', () => {
-    it('should handle transfer with e8s amount', async () => {
-      // Setup
-      const mockBlockHeight = BigInt(12345);
-      mockLedger.transfer.mockResolvedValue(mockBlockHeight);
-
-      // Amount is now in e8s (smallest unit) - 1 ICP = 100000000 e8s
-      const amountInE8s = '100000000';
+  describe('buildTransfer', () => {
+    it('should build transfer data with e8s amount', async () => {
+      // Amount is in e8s (smallest unit) - 1 ICP = 100000000 e8s
       const validParams = {
         recipientAddress: 'ryjl3-tyaaa-aaaaa-aaaba-cai',
-        amount: new BigNumber(amountInE8s),
+        amount: new BigNumber('100000000'),
         token: { assetType: ChainAssetType.ICP }
       } as TransferParams;
 
-      const result = await handler.transfer(validParams);
+      const data = await handler.buildTransfer(validParams);
+
+      expect(data).toEqual({ recipientAddress: 'ryjl3-tyaaa-aaaaa-aaaba-cai', amount: '100000000' });
+      expect(mockLedger.transfer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('submitTransfer', () => {
+    const signedData = {
+      recipientAddress: 'ryjl3-tyaaa-aaaaa-aaaba-cai',
+      amount: '100000000',
+      createdAtTime: '1700000000000000000'
+    };
+
+    it('should submit transfer with pinned created_at_time', async () => {
+      mockLedger.transfer.mockResolvedValue(BigInt(12345));
+
+      const result = await handler.submitTransfer({ assetType: ChainAssetType.ICP }, signedData);
 
       expect(result).toBe('12345');
+      expect(mockLedger.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: BigInt(100000000),
+          createdAt: BigInt('1700000000000000000')
+        })
+      );
       expect(mockLogger.info).toHaveBeenCalledWith(
         expect.stringContaining('transfer completed successfully'),
         expect.objectContaining({
-          context: 'IcpNativeHandler.transfer'
+          context: 'IcpNativeHandler.submitTransfer'
         })
       );
     });
 
-    // 转账功能测试已简化 - 装饰器行为已在coin-base中测试
+    it('should return the original block when the ledger reports a duplicate', async () => {
+      mockLedger.transfer.mockRejectedValue(Object.assign(new Error('Duplicate'), { duplicateOf: BigInt(12345) }));
+
+      const result = await handler.submitTransfer({ assetType: ChainAssetType.ICP }, signedData);
+
+      expect(result).toBe('12345');
+    });
+
+    it('should rethrow other ledger errors', async () => {
+      mockLedger.transfer.mockRejectedValue(new Error('Insufficient funds'));
+
+      await expect(handler.submitTransfer({ assetType: ChainAssetType.ICP }, signedData)).rejects.toThrow(
+        'Insufficient funds'
+      );
+    });
   });
 
   describe('estimateFee', () => {
@@ -129,6 +165,73 @@ describe('IcpNativeHandler', () => {
     // 费用估算错误处理测试已简化 - 装饰器行为已在coin-base中测试
   });
 
+  describe('getTransactionHistory', () => {
+    const address = 'ryjl3-tyaaa-aaaaa-aaaba-cai';
+    const counterparty = 'a'.repeat(64);
+
+    const createTransfer = (id: number, from: string, to: string) => ({
+      id: BigInt(id),
+      transaction: {
+        memo: BigInt(0),
+        icrc1_memo: [],
+        operation: {
+          Transfer: { from, to, amount: { e8s: BigInt(500) }, fee: { e8s: BigInt(10000) }, spender: [] }
+        },
+        created_at_time: [],
+        timestamp: [{ timestamp_nanos: BigInt('1700000000000000000') }]
+      }
+    });
+
+    it('should map index canister transfers and drop the cursor transaction', async () => {
+      const own = addressToAccountIdentifier(address).toHex();
+      const mockIndex = {
+        getTransactions: vi.fn().mockResolvedValue({
+          balance: BigInt(0),
+          oldest_tx_id: [BigInt(1)],
+          transactions: [createTransfer(42, counterparty, own), createTransfer(41, own, counterparty)]
+        })
+      };
+      vi.mocked(IndexCanister.create).mockReturnValue(mockIndex as any);
+
+      const page = await handler.getTransactionHistory({
+        address,
+        token: { assetType: ChainAssetType.ICP },
+        cursor: '42',
+        limit: 1
+      });
+
+      expect(mockIndex.getTransactions).toHaveBeenCalledWith({
+        accountIdentifier: own,
+        start: BigInt(42),
+        maxResults: BigInt(2)
+      });
+      expect(page.nextCursor).toBe('41');
+      expect(page.records).toEqual([
+        {
+          hash: '41',
+          direction: 'outgoing',
+          counterparty,
+          amount: new BigNumber(500),
+          token: { assetType: ChainAssetType.ICP },
+          fee: new BigNumber(10000),
+          status: 'confirmed',
+          timestamp: 1700000000000
+        }
+      ]);
+    });
+
+    it('should reject malformed cursors', async () => {
+      await expect(
+        handler.getTransactionHistory({
+          address,
+          token: { assetType: ChainAssetType.ICP },
+          cursor: 'not-a-block',
+          limit: 20
+        })
+      ).rejects.toThrow('Invalid history cursor');
+    });
+  });
+
   describe('cleanup', () => {
     it('should clean up resources', () => {
       handler.cleanup();
@@ -83,7 +83,7 @@ describe('IcrcTokenHandler', () => {
     // 余额查询功能测试已简化 - 装饰器和ICRC-3支持检查行为已在coin-base中测试
   });
 
-  describe('transfer', () => {
+  describe('buildTransfer', () => {
     it('should throw error for invalid recipient address (AccountIdentifier format)', async () => {
       const invalidParams = {
         recipientAddress: '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
@@ -91,35 +91,59 @@ describe('IcrcTokenHandler', () => {
         token: testToken
       } as TransferParams;
 
-      await expect(handler.transfer(invalidParams)).rejects.toThrow(TransactionError);
+      await expect(handler.buildTransfer(invalidParams)).rejects.toThrow(TransactionError);
     });
 
-    it('should handle transfer successfully', async () => {
-      // Setup
-      const mockBlockIndex = BigInt(12345);
-      mockLedger.transfer.mockResolvedValue(mockBlockIndex);
-
-      // Mock metadata for decimals
-      mockLedger.metadata.mockResolvedValue([['icrc1:decimals', { Nat: BigInt(8) }]]);
-
+    it('should build transfer data without submitting', async () => {
       const validParams = {
         recipientAddress: 'be2us-64aaa-aaaaa-qaabq-cai',
         amount: new BigNumber('1'),
         token: testToken
       } as TransferParams;
 
-      const result = await handler.transfer(validParams);
+      const data = await handler.buildTransfer(validParams);
+
+      expect(data).toEqual({ recipientAddress: 'be2us-64aaa-aaaaa-qaabq-cai', amount: '1' });
+      expect(mockLedger.transfer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('submitTransfer', () => {
+    const signedData = {
+      recipientAddress: 'be2us-64aaa-aaaaa-qaabq-cai',
+      amount: '1',
+      createdAtTime: '1700000000000000000'
+    };
+
+    it('should handle transfer successfully', async () => {
+      mockLedger.transfer.mockResolvedValue(BigInt(12345));
+
+      const result = await handler.submitTransfer(testToken, signedData);
 
       expect(result).toBe('12345');
+      expect(mockLedger.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: BigInt(1),
+          created_at_time: BigInt('1700000000000000000')
+        })
+      );
       expect(mockLogger.info).toHaveBeenCalledWith(
         expect.stringContaining('transfer completed successfully'),
         expect.objectContaining({
-          context: 'IcrcTokenHandler.transfer'
+          context: 'IcrcTokenHandler.submitTransfer'
         })
       );
     });
 
-    // 转账功能测试已简化 - 装饰器行为已在coin-base中测试
+    it('should return the original block when the ledger reports a duplicate', async () => {
+      mockLedger.transfer.mockRejectedValue(
+        Object.assign(new Error('Duplicate'), { errorType: { Duplicate: { duplicate_of: BigInt(54321) } } })
+      );
+
+      const result = await handler.submitTransfer(testToken, signedData);
+
+      expect(result).toBe('54321');
+    });
   });
 
   describe('estimateFee', () => {
@@ -192,6 +192,30 @@ test('Network Error - Transfer Connection Lost', async () => {
   ).rejects.toThrow(/(Connection lost|Unauthorized)/);
 });
 
+test('Transfer - Built Transfer Keeps Its created_at_time', async () => {
+  const { LedgerCanister } = await import('@dfinity/ledger-icp');
+  const mockLedger = {
+    transfer: vi.fn().mockResolvedValue(BigInt(42))
+  };
+  vi.mocked(LedgerCanister.create).mockReturnValue(mockLedger as any);
+
+  const wallet = createTestWallet(testMnemonic);
+  const params = {
+    recipientAddress: createDfinityAddress(TEST_ADDRESSES.VALID_PRINCIPAL_1),
+    amount: new BigNumber('1'),
+    token: createNativeToken()
+  };
+
+  const unsigned = await wallet.buildTransfer(params);
+  expect(BigInt((unsigned.data as any).createdAtTime)).toBeGreaterThan(0n);
+
+  // transfer submits the built transfer directly
+  await expect(wallet.transfer(params)).resolves.toBe('42');
+  expect(mockLedger.transfer).toHaveBeenCalledWith(
+    expect.objectContaining({ amount: 1n, createdAt: expect.any(BigInt) })
+  );
+});
+
 // Canister Errors
 test('Canister Error - Non-Existent Canister', async () => {
   const { createAgent } = await import('@dfinity/utils');
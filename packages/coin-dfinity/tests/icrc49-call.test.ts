@@ -301,3 +301,31 @@ test('ICRC49 Call Canister - Large Argument', async () => {
     result: expect.any(Object)
   });
 });
+
+test('ICRC49 Call Canister - Watch-only Wallet', async () => {
+  const watchOnlyWallet = new IcpChainWallet(Dfinity, { address: TEST_ADDRESSES.VALID_PRINCIPAL_2 });
+
+  const request = {
+    id: 7,
+    jsonrpc: '2.0' as const,
+    method: IcrcMethods.ICRC49_CALL_CANISTER,
+    params: {
+      canisterId: TEST_ADDRESSES.VALID_PRINCIPAL_1,
+      sender: TEST_ADDRESSES.VALID_PRINCIPAL_2,
+      method: 'test_method',
+      arg: base.toBase64(new Uint8Array([1, 2, 3, 4]))
+    }
+  } as Icrc49CallCanisterRequest;
+
+  const result = await watchOnlyWallet.icrc49CallCanister(request);
+
+  expect((await watchOnlyWallet.getAccount()).address).toBe(TEST_ADDRESSES.VALID_PRINCIPAL_2);
+  expect(result).toMatchObject({
+    id: 7,
+    jsonrpc: '2.0',
+    error: expect.objectContaining({ message: expect.stringContaining('Watch-only wallets cannot sign') })
+  });
+  expect(mockAgent.call).not.toHaveBeenCalled();
+
+  watchOnlyWallet.destroy();
+});
@@ -21,7 +21,8 @@ vi.mock('@dfinity/agent', async () => {
 });
 
 // Mock other Dfinity modules
-vi.mock('@dfinity/identity-secp256k1', () => ({
+vi.mock('@dfinity/identity-secp256k1', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@dfinity/identity-secp256k1')>()),
   Secp256k1KeyIdentity: {
     fromSecretKey: vi.fn()
   }
@@ -0,0 +1,183 @@
+import { expect, test, beforeEach, afterEach, vi } from 'vitest';
+import { IDL } from '@dfinity/candid';
+import { Principal } from '@dfinity/principal';
+import { pollForResponse, requestIdOf } from '@dfinity/agent';
+import { idlFactory as ledgerIdlFactory } from '@dfinity/ledger-icp/dist/candid/ledger.idl';
+import { idlFactory as icrcLedgerIdlFactory } from '@dfinity/ledger-icrc/dist/candid/icrc_ledger.idl';
+import * as cbor from 'cborg';
+import BigNumber from 'bignumber.js';
+import * as secp256k1 from '@noble/secp256k1';
+import { ISigner, MnemonicSigner } from '@delandlabs/coin-base';
+import { base } from '@delandlabs/crypto-lib';
+import { IcpChainWallet } from '../src/chain-wallet/wallet';
+import { IcpSignedTransactionData } from '../src/chain-wallet/types';
+import { getCandidMethod } from '../src/chain-wallet/utils';
+import { IC_CANISTERS, IC_PROTOCOL } from '../src/chain-wallet/config';
+import { Dfinity } from './test-chains';
+import { createDfinityAddress, createIcrcToken, createNativeToken, TEST_ADDRESSES } from './test-utils';
+
+const testMnemonic = 'eight record heavy smile elephant venue spend burst initial cousin casual order';
+const TRANSFER_METHOD = getCandidMethod(ledgerIdlFactory, 'transfer');
+const ICRC1_TRANSFER_METHOD = getCandidMethod(icrcLedgerIdlFactory, 'icrc1_transfer');
+
+// Sign with the real identity; only the network is mocked
+vi.mock('@dfinity/identity-secp256k1', async (importOriginal) => await importOriginal());
+
+vi.mock('@dfinity/agent', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@dfinity/agent')>()),
+  pollForResponse: vi.fn()
+}));
+
+vi.mock('@dfinity/utils', () => ({
+  createAgent: vi.fn()
+}));
+
+vi.mock('@dfinity/ledger-icp', async (importOriginal) => await importOriginal());
+
+vi.mock('@dfinity/ledger-icrc', async (importOriginal) => await importOriginal());
+
+vi.mock('ic0', () => ({
+  default: vi.fn()
+}));
+
+let wallet: IcpChainWallet;
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(async () => {
+  const { createAgent } = await import('@dfinity/utils');
+  vi.mocked(createAgent).mockResolvedValue({ host: new URL('https://ic0.app') } as any);
+
+  const mockIc = vi.fn().mockReturnValue({
+    call: vi.fn().mockResolvedValue([{ name: 'ICRC-3', url: 'https://github.com/dfinity/ICRC-3' }])
+  });
+  vi.mocked(await import('ic0')).default = mockIc;
+
+  // The IC accepted the call and is still processing it
+  fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 202 }));
+  vi.stubGlobal('fetch', fetchMock);
+
+  wallet = new IcpChainWallet(Dfinity, testMnemonic);
+});
+
+afterEach(() => {
+  wallet.destroy();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+function mockReply(types: IDL.Type[], result: unknown) {
+  vi.mocked(pollForResponse).mockResolvedValue({ reply: IDL.encode(types, [result]), certificate: {} as any });
+}
+
+test('Signed Transfer - Sign Ledger Call And Broadcast It', async () => {
+  const unsigned = await wallet.buildTransfer({
+    recipientAddress: createDfinityAddress(TEST_ADDRESSES.VALID_PRINCIPAL_1),
+    amount: new BigNumber('1000'),
+    token: createNativeToken()
+  });
+  const signed = await wallet.signTransaction(unsigned);
+  const data = signed.data as IcpSignedTransactionData;
+
+  const { content } = cbor.decode(base.fromBase64(data.envelope)) as { content: Record<string, any> };
+  expect(content.method_name).toBe('transfer');
+  expect(content.canister_id).toEqual(Principal.fromText(IC_CANISTERS.ICP_LEDGER).toUint8Array());
+  expect(content.ingress_expiry).toBe(BigInt(data.ingressExpiry));
+  expect(base.toHex(new Uint8Array(requestIdOf(content)))).toBe(data.requestId);
+  const [args] = IDL.decode(TRANSFER_METHOD.argTypes, content.arg) as any[];
+  expect(args.amount.e8s).toBe(1000n);
+  expect(args.created_at_time).toEqual([{ timestamp_nanos: BigInt(data.createdAtTime) }]);
+
+  mockReply(TRANSFER_METHOD.retTypes, { Ok: 42n });
+  await expect(wallet.broadcastTransaction(signed)).resolves.toBe('42');
+
+  const [url, request] = fetchMock.mock.calls[0];
+  expect(String(url)).toBe(`https://ic0.app/api/v3/canister/${IC_CANISTERS.ICP_LEDGER}/call`);
+  expect(request.body).toEqual(base.fromBase64(data.envelope));
+});
+
+test('Signed Transfer - Duplicate Of A Broadcast Transfer Returns Its Block', async () => {
+  const token = createIcrcToken('mxzaz-hqaaa-aaaar-qaada-cai');
+  const unsigned = await wallet.buildTransfer({
+    recipientAddress: createDfinityAddress(TEST_ADDRESSES.VALID_PRINCIPAL_1),
+    amount: new BigNumber('1000'),
+    token
+  });
+  const signed = await wallet.signTransaction(unsigned);
+
+  mockReply(ICRC1_TRANSFER_METHOD.retTypes, { Err: { Duplicate: { duplicate_of: 7n } } });
+  await expect(wallet.broadcastTransaction(signed)).resolves.toBe('7');
+
+  const [url] = fetchMock.mock.calls[0];
+  expect(String(url)).toBe(`https://ic0.app/api/v3/canister/${token.tokenAddress}/call`);
+});
+
+test('Signed Transfer - Reject Broadcast After Ingress Expiry', async () => {
+  const unsigned = await wallet.buildTransfer({
+    recipientAddress: createDfinityAddress(TEST_ADDRESSES.VALID_PRINCIPAL_1),
+    amount: new BigNumber('1000'),
+    token: createNativeToken()
+  });
+  const signed = await wallet.signTransaction(unsigned);
+
+  const expiredAt = Number(BigInt((signed.data as IcpSignedTransactionData).ingressExpiry) / 1_000_000n);
+  vi.spyOn(Date, 'now').mockReturnValue(expiredAt + 1);
+
+  await expect(wallet.broadcastTransaction(signed)).rejects.toThrow('sign the transfer again');
+  expect(fetchMock).not.toHaveBeenCalled();
+});
+
+test('Signed Transfer - Sign Through The Signer The Wallet Was Constructed With', async () => {
+  const mnemonicSigner = new MnemonicSigner(testMnemonic, {
+    keyType: 'secp256k1',
+    derivationPath: "m/44'/223'/0'/0'/1'"
+  });
+  // Stand-in for a remote signer that never exposes its key
+  const signer: ISigner = {
+    keyType: 'secp256k1',
+    getPublicKey: () => mnemonicSigner.getPublicKey(),
+    signBytes: vi.fn((message: Uint8Array) => mnemonicSigner.signBytes(message)),
+    signDigest: (digest) => mnemonicSigner.signDigest(digest)
+  };
+  const indexWallet = new IcpChainWallet(Dfinity, testMnemonic, { accountIndex: 1 });
+  const expected = await indexWallet.getAccount();
+  indexWallet.destroy();
+  wallet.destroy();
+  wallet = new IcpChainWallet(Dfinity, signer);
+
+  const account = await wallet.getAccount();
+  const signature = await wallet.signMessage({ message: 'Hello World' });
+  const signed = await wallet.signTransaction(
+    await wallet.buildTransfer({
+      recipientAddress: createDfinityAddress(TEST_ADDRESSES.VALID_PRINCIPAL_1),
+      amount: new BigNumber('1000'),
+      token: createNativeToken()
+    })
+  );
+  const envelope = cbor.decode(base.fromBase64((signed.data as IcpSignedTransactionData).envelope)) as {
+    content: Record<string, any>;
+    sender_sig: Uint8Array;
+  };
+  const domainSeparator = new TextEncoder().encode(IC_PROTOCOL.SIGNED_CALL.DOMAIN_SEPARATOR);
+  const requestId = new Uint8Array(requestIdOf(envelope.content));
+
+  expect(account.address).toBe(expected.address);
+  expect(account.publicKeyHex).toBe(expected.publicKeyHex);
+  expect(secp256k1.verify(signature, base.sha256(base.toUtf8('Hello World')), account.publicKeyHex)).toBe(true);
+  expect(envelope.content.sender).toEqual(Principal.fromText(account.address).toUint8Array());
+  expect(
+    secp256k1.verify(
+      envelope.sender_sig,
+      base.sha256(new Uint8Array([...domainSeparator, ...requestId])),
+      account.publicKeyHex
+    )
+  ).toBe(true);
+  expect(signer.signBytes).toHaveBeenCalledTimes(2);
+});
+
+test('Signed Transfer - Reject Ed25519 Signers', async () => {
+  const signer = new MnemonicSigner(testMnemonic, { keyType: 'ed25519', derivationPath: "m/44'/501'/0'/0'" });
+  wallet.destroy();
+  wallet = new IcpChainWallet(Dfinity, signer);
+
+  await expect(wallet.getAccount()).rejects.toThrow('Signer key type ed25519 is not supported');
+});
@@ -1,7 +1,23 @@
 import BigNumber from 'bignumber.js';
-import { ILogger, BalanceQueryParams, TransferParams } from '@delandlabs/coin-base';
+import { Transaction, TransactionLike, TransactionRequest } from 'ethers';
+import {
+  ILogger,
+  BalanceQueryParams,
+  TransferParams,
+  TransactionHistoryParams,
+  TransactionHistoryPage
+} from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
 import { ConnectionManager } from '../shared/connection-manager';
+import { NonceManager } from '../shared/nonce-manager';
+import { FeeManager } from '../shared/fee-manager';
+import {
+  EthereumCall,
+  EthereumFeeEstimate,
+  EthereumFeeTier,
+  EthereumTransferParams,
+  EthereumUnsignedTransactionData
+} from '../types';
 
 /**
  * Abstract base class for asset handlers.
@@ -15,7 +31,9 @@ import { ConnectionManager } from '../shared/connection-manager';
 export abstract class BaseAssetHandler {
   constructor(
     protected readonly connectionManager: ConnectionManager,
-    protected readonly logger: ILogger
+    protected readonly logger: ILogger,
+    protected readonly nonceManager: NonceManager,
+    protected readonly feeManager: FeeManager
   ) {}
 
   /**
@@ -26,18 +44,33 @@ export abstract class BaseAssetHandler {
   abstract balanceOf(params: BalanceQueryParams): Promise<BigNumber>;
 
   /**
-   * Execute transfer for the specified asset
-   * @param params - Transfer parameters including recipient, amount, and token info
-   * @returns Promise resolving to the transaction hash
+   * Build an unsigned transfer transaction for the specified asset
+   * @param params - Transfer parameters including recipient, amount, token info and fee tier
+   * @returns Promise resolving to the unsigned transaction data
    */
-  abstract transfer(params: TransferParams): Promise<string>;
+  abstract buildTransfer(params: EthereumTransferParams): Promise<EthereumUnsignedTransactionData>;
+
+  /**
+   * Build the call transferring the asset, for smart accounts executing it in a user operation
+   * @param params - Transfer parameters including recipient, amount and token info
+   * @param sender - Address the asset is transferred from
+   * @returns Promise resolving to the call
+   */
+  abstract buildCall(params: TransferParams, sender: string): Promise<EthereumCall>;
 
   /**
    * Estimate transaction fee for the specified asset
    * @param params - Transfer parameters to estimate fee for
-   * @returns Promise resolving to the estimated fee amount
+   * @returns Promise resolving to the estimated gas limit and the fee of every fee tier
+   */
+  abstract estimateFee(params: TransferParams): Promise<EthereumFeeEstimate>;
+
+  /**
+   * List transfers of the asset to and from an address, newest first
+   * @param params - History query parameters with the page size already resolved
+   * @returns Promise resolving to one page of transaction records
    */
-  abstract estimateFee(params: TransferParams): Promise<BigNumber>;
+  abstract getTransactionHistory(params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage>;
 
   /**
    * Get the asset type this handler supports
@@ -57,4 +90,34 @@ export abstract class BaseAssetHandler {
    * @returns Promise resolving to the number of decimals
    */
   abstract getDecimals(tokenAddress?: string): Promise<number>;
+
+  /**
+   * Fill nonce, gas limit, fee and chain id fields and serialize the transaction unsigned
+   * A nonce reserved for the request is released if the transaction cannot be populated.
+   * @param request - Partial transaction request built by the handler
+   * @param feeTier - Fee tier to pay (default: normal)
+   * @returns Promise resolving to the unsigned transaction data
+   */
+  protected async populateUnsignedTransaction(
+    request: TransactionRequest,
+    feeTier?: EthereumFeeTier
+  ): Promise<EthereumUnsignedTransactionData> {
+    const provider = this.connectionManager.getProvider();
+    const wallet = this.connectionManager.getConnectedWallet(provider);
+
+    let populated: TransactionLike<string>;
+    try {
+      const fees = await this.feeManager.getTransactionFees(feeTier);
+      populated = await wallet.populateTransaction({ ...request, ...fees });
+    } catch (error) {
+      if (request.nonce != null) {
+        this.nonceManager.release(request.nonce);
+      }
+      throw error;
+    }
+
+    // An unsigned transaction cannot carry a sender, it is recovered from the signature
+    const transaction = Transaction.from({ ...populated, from: undefined });
+    return { serializedTransaction: transaction.unsignedSerialized };
+  }
 }
@@ -0,0 +1,289 @@
+import { decodeBase64, toUtf8String } from 'ethers';
+import { ChainAssetType } from '@delandlabs/hibit-basic-types';
+import {
+  ILogger,
+  TransferParams,
+  TokenIdentifier,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  ArgumentError,
+  GeneralWalletError,
+  HibitIdSdkErrorCode
+} from '@delandlabs/coin-base';
+import { BaseAssetHandler } from './base-asset-handler';
+import { ConnectionManager } from '../shared/connection-manager';
+import { NonceManager } from '../shared/nonce-manager';
+import { FeeManager } from '../shared/fee-manager';
+import { CHAIN_CONFIG, NFT_CONFIG, EthereumRetry } from '../config';
+import {
+  EthereumCall,
+  EthereumFeeEstimate,
+  EthereumNftMetadata,
+  EthereumTransferParams,
+  EthereumUnsignedTransactionData
+} from '../types';
+
+/**
+ * Base class for NFT handlers (ERC-721 and ERC-1155).
+ *
+ * Transfers go through the standard's safeTransferFrom, so contracts receiving the token must
+ * accept it. Subclasses encode the calls of their standard; building, fee estimation and
+ * metadata fetching are shared.
+ */
+export abstract class BaseNftHandler extends BaseAssetHandler {
+  constructor(
+    connectionManager: ConnectionManager,
+    logger: ILogger,
+    nonceManager: NonceManager,
+    feeManager: FeeManager
+  ) {
+    super(connectionManager, logger, nonceManager, feeManager);
+  }
+
+  // ============================================================================
+  // Public Methods
+  // ============================================================================
+
+  /**
+   * Build an unsigned safeTransferFrom of the NFT
+   * Note: Address and token address validation is handled at wallet level
+   * Note: Transaction building should NOT have retry decorators per requirements
+   */
+  async buildTransfer(params: EthereumTransferParams): Promise<EthereumUnsignedTransactionData> {
+    const { recipientAddress, amount, token, feeTier } = params;
+    const data = this.encodeTransfer(params, await this.getSenderAddress());
+
+    // Reserve the next nonce so concurrent transfers do not share it
+    const nonce = await this.nonceManager.reserve();
+    const unsigned = await this.populateUnsignedTransaction({ to: token.tokenAddress!, data, nonce }, feeTier);
+
+    this.logger.debug('NFT transfer built', {
+      context: 'BaseNftHandler.buildTransfer',
+      data: {
+        to: recipientAddress,
+        amount: amount.toString(),
+        token: token.tokenAddress,
+        tokenId: token.tokenId,
+        nonce
+      }
+    });
+
+    return unsigned;
+  }
+
+  /**
+   * Build the safeTransferFrom call of the NFT from the given sender
+   */
+  async buildCall(params: TransferParams, sender: string): Promise<EthereumCall> {
+    return { to: params.token.tokenAddress!, value: 0n, data: this.encodeTransfer(params, sender) };
+  }
+
+  /**
+   * Estimate gas fee for the NFT transfer in wei, for every fee tier
+   * Note: Address and token address validation is handled at wallet level
+   */
+  @EthereumRetry()
+  async estimateFee(params: TransferParams): Promise<EthereumFeeEstimate> {
+    const data = this.encodeTransfer(params, await this.getSenderAddress());
+
+    const provider = this.connectionManager.getProvider();
+    const wallet = this.connectionManager.getConnectedWallet(provider);
+    const request = { to: params.token.tokenAddress!, data };
+    const gasLimit = await wallet.estimateGas(request);
+
+    // Price the gas limit in every fee tier
+    return this.feeManager.estimateFees(gasLimit, request);
+  }
+
+  /**
+   * Get the metadata URI of an NFT from its contract
+   * @param token - Token address and token ID of the NFT
+   * @returns Promise resolving to the token URI
+   */
+  async getTokenUri(token: TokenIdentifier): Promise<string> {
+    return this.readTokenUri(token.tokenAddress!, this.requireTokenId(token));
+  }
+
+  /**
+   * Fetch the metadata document published at a token URI
+   * ipfs:// and ar:// URIs are fetched through HTTPS gateways; data: URIs are decoded in place.
+   * @param tokenUri - Token URI returned by getTokenUri
+   * @returns Promise resolving to the metadata
+   * @throws {GeneralWalletError} When the metadata cannot be fetched or is not a JSON object
+   */
+  async fetchMetadata(tokenUri: string): Promise<EthereumNftMetadata> {
+    let raw: unknown;
+    try {
+      raw = await this.fetchMetadataDocument(tokenUri);
+    } catch (error) {
+      throw new GeneralWalletError(
+        HibitIdSdkErrorCode.UNKNOWN_ERROR,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Failed to fetch NFT metadata from ${tokenUri}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new GeneralWalletError(
+        HibitIdSdkErrorCode.UNKNOWN_ERROR,
+        `${CHAIN_CONFIG.CHAIN_NAME}: NFT metadata at ${tokenUri} is not a JSON object`
+      );
+    }
+
+    const metadata = raw as Record<string, unknown>;
+    return {
+      tokenUri,
+      name: typeof metadata.name === 'string' ? metadata.name : undefined,
+      description: typeof metadata.description === 'string' ? metadata.description : undefined,
+      image: typeof metadata.image === 'string' ? resolveMetadataUri(metadata.image) : undefined,
+      attributes: Array.isArray(metadata.attributes) ? metadata.attributes : undefined,
+      raw: metadata
+    };
+  }
+
+  /**
+   * NFT transfers are not indexed by this SDK; use the collection's indexer or marketplace API
+   */
+  async getTransactionHistory(_params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage> {
+    throw new GeneralWalletError(
+      HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+      `${CHAIN_CONFIG.CHAIN_NAME}: NFT transaction history is not supported`
+    );
+  }
+
+  /**
+   * Get the asset type this handler manages
+   * ERC-1155 tokens share the ERC721 asset type, the wallet tells the standards apart by ERC-165
+   */
+  getAssetType(): ChainAssetType {
+    return ChainAssetType.ERC721;
+  }
+
+  /**
+   * Get decimals for NFTs
+   * @returns Always returns 0, NFT amounts are whole tokens
+   */
+  async getDecimals(): Promise<number> {
+    return 0;
+  }
+
+  // ============================================================================
+  // Protected Methods
+  // ============================================================================
+
+  /**
+   * Encode the safeTransferFrom call of a transfer
+   * @param params - Transfer parameters with the token ID in the token identifier
+   * @param from - Address the token is transferred from
+   * @returns The call data
+   */
+  protected abstract encodeTransfer(params: TransferParams, from: string): string;
+
+  /**
+   * Read the metadata URI of a token from its contract
+   * @param tokenAddress - The NFT contract address
+   * @param tokenId - The token ID
+   */
+  protected abstract readTokenUri(tokenAddress: string, tokenId: bigint): Promise<string>;
+
+  /**
+   * Get the token ID of an NFT identifier
+   * @throws {ArgumentError} When the token ID is missing or not a non-negative integer
+   */
+  protected requireTokenId(token: TokenIdentifier): bigint {
+    if (token.tokenId === undefined || !/^\d+$/.test(token.tokenId)) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: NFT token ID must be a non-negative integer`,
+        { argumentName: 'token.tokenId', expectedType: 'decimal string', providedValue: token.tokenId }
+      );
+    }
+    return BigInt(token.tokenId);
+  }
+
+  /**
+   * Address of the wallet sending the transfer
+   */
+  protected async getSenderAddress(): Promise<string> {
+    const provider = this.connectionManager.getProvider();
+    return this.connectionManager.getConnectedWallet(provider).getAddress();
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Read the metadata document of a token URI
+   * @private
+   */
+  private async fetchMetadataDocument(tokenUri: string): Promise<unknown> {
+    const dataUri = /^data:application\/json(;[^,]*)?,(.*)$/s.exec(tokenUri);
+    if (dataUri) {
+      const isBase64 = dataUri[1]?.includes(';base64') ?? false;
+      const json = isBase64 ? toUtf8String(decodeBase64(dataUri[2])) : decodeURIComponent(dataUri[2]);
+      return JSON.parse(json);
+    }
+
+    const response = await fetch(resolveMetadataUri(tokenUri), {
+      signal: AbortSignal.timeout(NFT_CONFIG.METADATA_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Request failed with status ${response.status}`);
+    }
+    const body = await readLimitedBody(response, NFT_CONFIG.MAX_METADATA_BYTES);
+    return JSON.parse(toUtf8String(body));
+  }
+}
+
+/**
+ * Read a response body, failing once it grows beyond maxBytes
+ */
+async function readLimitedBody(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const tooLarge = () => new Error(`Response exceeds ${maxBytes} bytes`);
+  if (Number(response.headers.get('content-length') ?? 0) > maxBytes) {
+    throw tooLarge();
+  }
+  if (!response.body) {
+    const buffer = new Uint8Array(await response.arrayBuffer());
+    if (buffer.length > maxBytes) {
+      throw tooLarge();
+    }
+    return buffer;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+/**
+ * Resolve ipfs:// and ar:// URIs to their HTTPS gateways, other URIs are returned unchanged
+ */
+function resolveMetadataUri(uri: string): string {
+  if (uri.startsWith('ipfs://')) {
+    return NFT_CONFIG.IPFS_GATEWAY + uri.slice('ipfs://'.length).replace(/^ipfs\//, '');
+  }
+  if (uri.startsWith('ar://')) {
+    return NFT_CONFIG.ARWEAVE_GATEWAY + uri.slice('ar://'.length);
+  }
+  return uri;
+}
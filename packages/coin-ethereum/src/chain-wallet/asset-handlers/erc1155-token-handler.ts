@@ -0,0 +1,105 @@
+import BigNumber from 'bignumber.js';
+import { Contract, Interface, isError } from 'ethers';
+import { ILogger, BalanceQueryParams, TransferParams, Memoize } from '@delandlabs/coin-base';
+import { BaseNftHandler } from './base-nft-handler';
+import { ConnectionManager } from '../shared/connection-manager';
+import { NonceManager } from '../shared/nonce-manager';
+import { FeeManager } from '../shared/fee-manager';
+import { erc1155Abi } from '../utils';
+import { CACHE_CONFIG, NFT_CONFIG } from '../config';
+
+const erc1155Interface = new Interface(erc1155Abi);
+
+/**
+ * Handler for ERC1155 multi-token operations.
+ *
+ * Implements all operations specific to ERC1155 tokens:
+ * - Balance of a token ID
+ * - safeTransferFrom transfers of any amount of a token ID
+ * - Gas estimation for token transfers
+ * - Metadata from uri, with the {id} placeholder substituted
+ */
+export class Erc1155TokenHandler extends BaseNftHandler {
+  constructor(
+    connectionManager: ConnectionManager,
+    logger: ILogger,
+    nonceManager: NonceManager,
+    feeManager: FeeManager
+  ) {
+    super(connectionManager, logger, nonceManager, feeManager);
+  }
+
+  /**
+   * Get the balance of a token ID in whole tokens
+   * Note: Address and token validation is handled at wallet level
+   * Note: Balance queries should NOT have retry decorators per requirements
+   */
+  async balanceOf(params: BalanceQueryParams): Promise<BigNumber> {
+    const provider = this.connectionManager.getProvider();
+    const contract = new Contract(params.token.tokenAddress!, erc1155Abi, provider);
+    const balance = await contract.balanceOf(params.address, this.requireTokenId(params.token));
+    return new BigNumber(balance.toString());
+  }
+
+  /**
+   * Whether a contract implements ERC1155, according to ERC-165
+   * Contracts without ERC-165 support are reported as not implementing it.
+   * @param tokenAddress - The token contract address
+   */
+  @Memoize({
+    ttl: CACHE_CONFIG.TTL.NFT_STANDARD,
+    max: CACHE_CONFIG.SIZE.NFT_STANDARD,
+    key: function (this: Erc1155TokenHandler, tokenAddress: string) {
+      const provider = this.connectionManager.getProvider();
+      const chainId = provider._network?.chainId?.toString() || 'default';
+      return `erc1155:${chainId}:${tokenAddress.toLowerCase()}`;
+    }
+  })
+  async isErc1155Contract(tokenAddress: string): Promise<boolean> {
+    const contract = new Contract(tokenAddress, erc1155Abi, this.connectionManager.getProvider());
+    try {
+      return await contract.supportsInterface(NFT_CONFIG.ERC1155_INTERFACE_ID);
+    } catch (error) {
+      // Contracts without ERC-165 revert or return no data
+      if (isError(error, 'CALL_EXCEPTION') || isError(error, 'BAD_DATA')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Clean up resources and references
+   * Called when the wallet is being destroyed
+   */
+  cleanup(): void {
+    // ERC1155 handler doesn't maintain internal state that needs cleanup
+    // The connectionManager is managed by the parent wallet
+    this.logger.debug('ERC1155 token handler cleanup completed', {
+      context: 'Erc1155TokenHandler.cleanup'
+    });
+  }
+
+  /**
+   * Encode safeTransferFrom(from, to, id, amount, data) with empty data
+   */
+  protected encodeTransfer(params: TransferParams, from: string): string {
+    const tokenId = this.requireTokenId(params.token);
+    return erc1155Interface.encodeFunctionData('safeTransferFrom', [
+      from,
+      params.recipientAddress,
+      tokenId,
+      BigInt(params.amount.toFixed(0)),
+      '0x'
+    ]);
+  }
+
+  /**
+   * The URI may contain an {id} placeholder for the token ID as 64 lowercase hex digits
+   */
+  protected async readTokenUri(tokenAddress: string, tokenId: bigint): Promise<string> {
+    const contract = new Contract(tokenAddress, erc1155Abi, this.connectionManager.getProvider());
+    const uri: string = await contract.uri(tokenId);
+    return uri.replace(/\{id\}/g, tokenId.toString(16).padStart(64, '0'));
+  }
+}
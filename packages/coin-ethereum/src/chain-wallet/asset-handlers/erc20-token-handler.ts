@@ -1,18 +1,63 @@
 import BigNumber from 'bignumber.js';
-import { Contract } from 'ethers';
+import {
+  Contract,
+  Interface,
+  Log,
+  TypedDataDomain,
+  TypedDataEncoder,
+  dataSlice,
+  getAddress,
+  isError,
+  zeroPadValue
+} from 'ethers';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
 import {
   ILogger,
   BalanceQueryParams,
   TransferParams,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  TransactionRecord,
   BalanceQueryError,
+  ArgumentError,
+  GeneralWalletError,
   HibitIdSdkErrorCode,
-  Memoize
+  Memoize,
+  getTransactionDirection
 } from '@delandlabs/coin-base';
 import { BaseAssetHandler } from './base-asset-handler';
 import { ConnectionManager } from '../shared/connection-manager';
-import { erc20Abi } from '../utils';
-import { CHAIN_CONFIG, CACHE_CONFIG, EthereumRetry } from '../config';
+import { NonceManager } from '../shared/nonce-manager';
+import { FeeManager } from '../shared/fee-manager';
+import { erc20Abi, erc20PermitAbi, permit2Abi } from '../utils';
+import {
+  CHAIN_CONFIG,
+  CACHE_CONFIG,
+  HISTORY_CONFIG,
+  ALLOWANCE_CONFIG,
+  PERMIT_CONFIG,
+  EthereumRetry
+} from '../config';
+import {
+  EthereumAllowance,
+  EthereumApprovalParams,
+  EthereumCall,
+  EthereumFeeEstimate,
+  EthereumTransferParams,
+  EthereumUnsignedTransactionData
+} from '../types';
+
+const erc20Interface = new Interface(erc20Abi);
+const transferTopic = erc20Interface.getEvent('Transfer')!.topicHash;
+const approvalTopic = erc20Interface.getEvent('Approval')!.topicHash;
+
+/**
+ * Position of a log in the chain, used as the history cursor
+ */
+interface LogPosition {
+  blockNumber: number;
+  logIndex: number;
+}
 
 /**
  * Handler for ERC20 token operations.
@@ -21,11 +66,18 @@ import { CHAIN_CONFIG, CACHE_CONFIG, EthereumRetry } from '../config';
  * - Token balance queries with decimals handling
  * - ERC20 transfer transactions
  * - Gas estimation for token transfers
+ * - Allowance approvals and listing
+ * - EIP-2612 and Permit2 permit data
  * - Token contract validation
  */
 export class Erc20TokenHandler extends BaseAssetHandler {
-  constructor(connectionManager: ConnectionManager, logger: ILogger) {
-    super(connectionManager, logger);
+  constructor(
+    connectionManager: ConnectionManager,
+    logger: ILogger,
+    nonceManager: NonceManager,
+    feeManager: FeeManager
+  ) {
+    super(connectionManager, logger, nonceManager, feeManager);
   }
 
   // ============================================================================
@@ -50,55 +102,62 @@ export class Erc20TokenHandler extends BaseAssetHandler {
   }
 
   /**
-   * Transfer ERC20 tokens
+   * Build an unsigned ERC20 transfer
    * Note: Address, amount and token validation is handled at wallet level
    * Note: Amount is expected in smallest unit
-   * Note: Transaction submissions should NOT have retry decorators per requirements
+   * Note: Transaction building should NOT have retry decorators per requirements
    */
-  async transfer(params: TransferParams): Promise<string> {
-    const { recipientAddress, amount, token } = params;
+  async buildTransfer(params: EthereumTransferParams): Promise<EthereumUnsignedTransactionData> {
+    const { recipientAddress, amount, token, feeTier } = params;
 
     // Address, amount and token validation is handled at wallet level
 
-    const provider = this.connectionManager.getProvider();
-    const wallet = this.connectionManager.getConnectedWallet(provider);
-    const walletAddress = wallet.address;
+    // Reserve the next nonce so concurrent transfers do not share it
+    const nonce = await this.nonceManager.reserve();
 
-    // Create contract instance connected to wallet
-    const contract = new Contract(token.tokenAddress!, erc20Abi, wallet);
-
-    // Get current nonce
-    const nonce = await this.getWalletNonce();
-
-    // Prepare transaction options
-    const txOptions = {
-      nonce
-    };
+    // Encode transfer call (amount is already in smallest unit)
+    const unsigned = await this.populateUnsignedTransaction(
+      {
+        to: token.tokenAddress!,
+        data: erc20Interface.encodeFunctionData('transfer', [recipientAddress, BigInt(amount.toFixed(0))]),
+        nonce
+      },
+      feeTier
+    );
 
-    // Send transfer transaction (amount is already in smallest unit)
-    const txResponse = await contract.transfer(recipientAddress, BigInt(amount.toFixed(0)), txOptions);
-
-    this.logger.info('ERC20 transfer sent', {
-      context: 'Erc20TokenHandler.transfer',
+    this.logger.debug('ERC20 transfer built', {
+      context: 'Erc20TokenHandler.buildTransfer',
       data: {
-        hash: txResponse.hash,
-        from: walletAddress,
         to: recipientAddress,
         amountSmallestUnit: amount.toString(),
-        token: token.tokenAddress
+        token: token.tokenAddress,
+        nonce
       }
     });
 
-    return txResponse.hash;
+    return unsigned;
+  }
+
+  /**
+   * Build the ERC20 transfer call
+   * Note: Amount is expected in smallest unit
+   */
+  async buildCall(params: TransferParams): Promise<EthereumCall> {
+    const { recipientAddress, amount, token } = params;
+    return {
+      to: token.tokenAddress!,
+      value: 0n,
+      data: erc20Interface.encodeFunctionData('transfer', [recipientAddress, BigInt(amount.toFixed(0))])
+    };
   }
 
   /**
-   * Estimate gas fee for ERC20 transfer in wei
+   * Estimate gas fee for ERC20 transfer in wei, for every fee tier
    * Note: Address, amount and token validation is handled at wallet level
    * Note: Amount is expected in smallest unit
    */
   @EthereumRetry()
-  async estimateFee(params: TransferParams): Promise<BigNumber> {
+  async estimateFee(params: TransferParams): Promise<EthereumFeeEstimate> {
     const { recipientAddress, amount, token } = params;
 
     // Address, amount and token validation is handled at wallet level
@@ -106,18 +165,221 @@ export class Erc20TokenHandler extends BaseAssetHandler {
     const provider = this.connectionManager.getProvider();
     const wallet = this.connectionManager.getConnectedWallet(provider);
 
-    // Get gas price from cache or network
-    const gasPrice = await this.getGasPrice();
-
     // Create contract instance
     const contract = new Contract(token.tokenAddress!, erc20Abi, wallet);
 
     // Estimate gas limit for transfer (amount is already in smallest unit)
-    const gasLimit = await contract.transfer.estimateGas(recipientAddress, BigInt(amount.toFixed(0)));
+    const value = BigInt(amount.toFixed(0));
+    const gasLimit = await contract.transfer.estimateGas(recipientAddress, value);
+
+    // Price the gas limit in every fee tier
+    const data = erc20Interface.encodeFunctionData('transfer', [recipientAddress, value]);
+    return this.feeManager.estimateFees(gasLimit, { to: token.tokenAddress!, data });
+  }
+
+  /**
+   * List ERC20 transfers to and from an address, newest first
+   * Scans Transfer logs backwards in block windows; the cursor is the position of the last returned log.
+   * Note: Address and token validation is handled at wallet level
+   */
+  @EthereumRetry()
+  async getTransactionHistory(params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage> {
+    const { address, token, cursor, limit } = params;
+    const provider = this.connectionManager.getProvider();
+    const before = cursor ? this.parseHistoryCursor(cursor) : undefined;
+    const addressTopic = zeroPadValue(address, 32);
+
+    let toBlock = before ? before.blockNumber : await provider.getBlockNumber();
+    let logs: Log[] = [];
+    let scanned = 0;
+
+    while (toBlock >= 0 && logs.length <= limit && scanned < HISTORY_CONFIG.MAX_BLOCK_RANGES) {
+      const fromBlock = Math.max(0, toBlock - HISTORY_CONFIG.BLOCK_RANGE + 1);
+      const filter = { address: token.tokenAddress!, fromBlock, toBlock };
+      const [sent, received] = await Promise.all([
+        provider.getLogs({ ...filter, topics: [transferTopic, addressTopic] }),
+        provider.getLogs({ ...filter, topics: [transferTopic, null, addressTopic] })
+      ]);
+
+      // Self transfers match both filters
+      const window = new Map<string, Log>();
+      for (const log of [...sent, ...received]) {
+        if (!before || this.isBefore(log, before)) {
+          window.set(`${log.blockNumber}:${log.index}`, log);
+        }
+      }
+      logs = logs.concat([...window.values()].sort((a, b) => b.blockNumber - a.blockNumber || b.index - a.index));
+
+      toBlock = fromBlock - 1;
+      scanned++;
+    }
+
+    const page = logs.slice(0, limit);
+    let nextCursor: string | undefined;
+    if (logs.length > limit) {
+      const last = page[page.length - 1];
+      nextCursor = `${last.blockNumber}:${last.index}`;
+    } else if (toBlock >= 0) {
+      // Scan budget exhausted: continue below the last scanned window
+      nextCursor = `${toBlock + 1}:0`;
+    }
+
+    const records = await Promise.all(page.map((log) => this.toTransactionRecord(log, params)));
+    return { records, nextCursor };
+  }
+
+  /**
+   * Build an unsigned approve(spender, amount)
+   * Note: Spender, amount and token validation is handled at wallet level
+   * Note: Transaction building should NOT have retry decorators per requirements
+   */
+  async buildApprove(params: EthereumApprovalParams): Promise<EthereumUnsignedTransactionData> {
+    const { token, spender, amount, feeTier } = params;
+
+    // Reserve the next nonce so concurrent transactions do not share it
+    const nonce = await this.nonceManager.reserve();
+
+    const unsigned = await this.populateUnsignedTransaction(
+      {
+        to: token.tokenAddress!,
+        data: erc20Interface.encodeFunctionData('approve', [spender, BigInt(amount.toFixed(0))]),
+        nonce
+      },
+      feeTier
+    );
+
+    this.logger.debug('ERC20 approval built', {
+      context: 'Erc20TokenHandler.buildApprove',
+      data: {
+        spender,
+        amountSmallestUnit: amount.toString(),
+        token: token.tokenAddress,
+        nonce
+      }
+    });
+
+    return unsigned;
+  }
+
+  /**
+   * Get the allowance an owner granted a spender, in smallest unit
+   * Note: Address and token validation is handled at wallet level
+   * @param tokenAddress - The token contract address
+   * @param owner - Address whose tokens may be spent
+   * @param spender - Address allowed to spend them
+   */
+  async getAllowance(tokenAddress: string, owner: string, spender: string): Promise<EthereumAllowance> {
+    const contract = new Contract(tokenAddress, erc20Abi, this.connectionManager.getProvider());
+    const allowance: bigint = await contract.allowance(owner, spender);
+    return {
+      spender: getAddress(spender),
+      amount: new BigNumber(allowance.toString()),
+      isInfinite: allowance >= ALLOWANCE_CONFIG.INFINITE_THRESHOLD
+    };
+  }
 
-    // Calculate total fee in wei
-    const fee = gasPrice * gasLimit;
-    return new BigNumber(fee.toString());
+  /**
+   * List the spenders an owner still has an allowance with, most recently approved first
+   * Spenders are found in the Approval logs of the blocks from fromBlock on; their current allowances
+   * are read from the contract, so spent and revoked allowances are left out.
+   * Note: Address and token validation is handled at wallet level
+   * @param tokenAddress - The token contract address
+   * @param owner - Address whose approvals are listed
+   * @param fromBlock - First block scanned (default: the last SCAN_BLOCK_RANGES block windows)
+   */
+  @EthereumRetry()
+  async listAllowances(tokenAddress: string, owner: string, fromBlock?: number): Promise<EthereumAllowance[]> {
+    const provider = this.connectionManager.getProvider();
+    const ownerTopic = zeroPadValue(owner, 32);
+    const latestBlock = await provider.getBlockNumber();
+    const firstBlock = Math.max(
+      0,
+      fromBlock ?? latestBlock - HISTORY_CONFIG.BLOCK_RANGE * ALLOWANCE_CONFIG.SCAN_BLOCK_RANGES + 1
+    );
+
+    // Spenders in the order of their most recent approval
+    const spenders = new Set<string>();
+    for (let toBlock = latestBlock; toBlock >= firstBlock; toBlock -= HISTORY_CONFIG.BLOCK_RANGE) {
+      const logs = await provider.getLogs({
+        address: tokenAddress,
+        fromBlock: Math.max(firstBlock, toBlock - HISTORY_CONFIG.BLOCK_RANGE + 1),
+        toBlock,
+        topics: [approvalTopic, ownerTopic]
+      });
+      for (const log of logs.sort((a, b) => b.blockNumber - a.blockNumber || b.index - a.index)) {
+        spenders.add(getAddress(dataSlice(log.topics[2], 12)));
+      }
+    }
+
+    const allowances = await Promise.all(
+      [...spenders].map((spender) => this.getAllowance(tokenAddress, owner, spender))
+    );
+    return allowances.filter((allowance) => !allowance.amount.isZero());
+  }
+
+  /**
+   * Get the EIP-712 domain and the owner's nonce of an EIP-2612 permit
+   * The domain version is read from version(), or is '1' for tokens without it; the domain is checked
+   * against the token's DOMAIN_SEPARATOR, so permits the token would reject are never signed.
+   * Note: Address and token validation is handled at wallet level
+   * @param tokenAddress - The token contract address
+   * @param owner - Address granting the allowance
+   * @param chainId - Chain ID of the network
+   * @throws {GeneralWalletError} When the token does not implement EIP-2612 or has a non-standard domain
+   */
+  async getPermitData(
+    tokenAddress: string,
+    owner: string,
+    chainId: bigint
+  ): Promise<{ domain: TypedDataDomain; nonce: bigint }> {
+    const contract = new Contract(tokenAddress, [...erc20Abi, ...erc20PermitAbi], this.connectionManager.getProvider());
+
+    let nonce: bigint;
+    let domainSeparator: string;
+    let name: string;
+    try {
+      [nonce, domainSeparator, name] = await Promise.all([
+        contract.nonces(owner),
+        contract.DOMAIN_SEPARATOR(),
+        contract.name()
+      ]);
+    } catch (error) {
+      if (isMissingFunction(error)) {
+        throw new GeneralWalletError(
+          HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+          `${CHAIN_CONFIG.CHAIN_NAME}: Token ${tokenAddress} does not support EIP-2612 permits`
+        );
+      }
+      throw error;
+    }
+    const version: string = await contract.version().catch((error: unknown) => {
+      if (isMissingFunction(error)) {
+        return PERMIT_CONFIG.DEFAULT_VERSION;
+      }
+      throw error;
+    });
+
+    const domain: TypedDataDomain = { name, version, chainId, verifyingContract: getAddress(tokenAddress) };
+    if (TypedDataEncoder.hashDomain(domain) !== domainSeparator) {
+      throw new GeneralWalletError(
+        HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Token ${tokenAddress} uses a non-standard EIP-712 domain for permits`
+      );
+    }
+    return { domain, nonce };
+  }
+
+  /**
+   * Get the nonce of the next Permit2 permit of an owner for a token and spender
+   * Note: Address and token validation is handled at wallet level
+   * @param tokenAddress - The token contract address
+   * @param owner - Address granting the allowance
+   * @param spender - Address allowed to spend the tokens through Permit2
+   */
+  async getPermit2Nonce(tokenAddress: string, owner: string, spender: string): Promise<number> {
+    const permit2 = new Contract(PERMIT_CONFIG.PERMIT2_ADDRESS, permit2Abi, this.connectionManager.getProvider());
+    const [, , nonce]: bigint[] = await permit2.allowance(owner, tokenAddress, spender);
+    return Number(nonce);
   }
 
   /**
@@ -188,31 +450,87 @@ export class Erc20TokenHandler extends BaseAssetHandler {
   }
 
   /**
-   * Get wallet nonce (always fresh, not cached)
+   * Parse a "block:logIndex" history cursor
+   * @private
+   */
+  private parseHistoryCursor(cursor: string): LogPosition {
+    const match = /^(\d+):(\d+)$/.exec(cursor);
+    if (!match) {
+      throw new ArgumentError(HibitIdSdkErrorCode.INVALID_ARGUMENT, `${CHAIN_CONFIG.CHAIN_NAME}: Invalid history cursor`, {
+        argumentName: 'cursor',
+        expectedType: 'cursor returned by getTransactionHistory',
+        providedValue: cursor
+      });
+    }
+    return { blockNumber: Number(match[1]), logIndex: Number(match[2]) };
+  }
+
+  /**
+   * Whether a log precedes the given position
    * @private
    */
-  private async getWalletNonce(): Promise<number> {
+  private isBefore(log: Log, position: LogPosition): boolean {
+    return (
+      log.blockNumber < position.blockNumber ||
+      (log.blockNumber === position.blockNumber && log.index < position.logIndex)
+    );
+  }
+
+  /**
+   * Convert a Transfer log into a transaction record, with fee and time from its receipt and block
+   * Logs only exist for successful transactions, so records are always confirmed
+   * @private
+   */
+  private async toTransactionRecord(
+    log: Log,
+    params: TransactionHistoryParams & { limit: number }
+  ): Promise<TransactionRecord> {
     const provider = this.connectionManager.getProvider();
-    const wallet = this.connectionManager.getConnectedWallet(provider);
-    return await wallet.getNonce();
+    const { args } = erc20Interface.parseLog(log)!;
+    const from: string = args.from;
+    const to: string = args.to;
+    const direction = getTransactionDirection(params.address, from, to, (value) => value.toLowerCase());
+
+    const [receipt, timestamp] = await Promise.all([
+      provider.getTransactionReceipt(log.transactionHash),
+      this.getBlockTimestamp(log.blockNumber)
+    ]);
+
+    return {
+      hash: log.transactionHash,
+      direction,
+      counterparty: direction === 'incoming' ? from : to,
+      amount: new BigNumber(args.value.toString()),
+      token: params.token,
+      fee: receipt ? new BigNumber(receipt.fee.toString()) : undefined,
+      status: 'confirmed',
+      timestamp
+    };
   }
 
   /**
-   * Get gas price with caching per network
+   * Get block timestamp in milliseconds, cached as mined blocks never change
    * @private
    */
   @Memoize({
-    ttl: CACHE_CONFIG.TTL.GAS_PRICE,
-    max: CACHE_CONFIG.SIZE.GAS_PRICE,
-    key: function (this: Erc20TokenHandler) {
+    ttl: CACHE_CONFIG.TTL.BLOCK_TIME,
+    max: CACHE_CONFIG.SIZE.BLOCK_TIME,
+    key: function (this: Erc20TokenHandler, blockNumber: number) {
       const provider = this.connectionManager.getProvider();
       const chainId = provider._network?.chainId?.toString() || 'default';
-      return `gasPrice:${chainId}`;
+      return `blockTime:${chainId}:${blockNumber}`;
     }
   })
-  private async getGasPrice(): Promise<bigint> {
-    const provider = this.connectionManager.getProvider();
-    const feeData = await provider.getFeeData();
-    return feeData.gasPrice || 0n;
+  private async getBlockTimestamp(blockNumber: number): Promise<number | undefined> {
+    const block = await this.connectionManager.getProvider().getBlock(blockNumber);
+    return block ? block.timestamp * 1000 : undefined;
   }
 }
+
+/**
+ * Whether a contract call failed because the contract lacks the function: it reverted without
+ * data, or returned nothing as addresses without code do
+ */
+function isMissingFunction(error: unknown): boolean {
+  return isError(error, 'CALL_EXCEPTION') || isError(error, 'BAD_DATA');
+}
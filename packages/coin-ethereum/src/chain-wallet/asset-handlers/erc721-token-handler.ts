@@ -0,0 +1,93 @@
+import BigNumber from 'bignumber.js';
+import { Contract, Interface, getAddress } from 'ethers';
+import {
+  ILogger,
+  BalanceQueryParams,
+  TransferParams,
+  ArgumentError,
+  HibitIdSdkErrorCode
+} from '@delandlabs/coin-base';
+import { BaseNftHandler } from './base-nft-handler';
+import { ConnectionManager } from '../shared/connection-manager';
+import { NonceManager } from '../shared/nonce-manager';
+import { FeeManager } from '../shared/fee-manager';
+import { erc721Abi } from '../utils';
+import { CHAIN_CONFIG } from '../config';
+
+const erc721Interface = new Interface(erc721Abi);
+
+/**
+ * Handler for ERC721 non-fungible token operations.
+ *
+ * Implements all operations specific to ERC721 tokens:
+ * - Token counts per owner, or ownership of a single token ID
+ * - safeTransferFrom transfers of one token
+ * - Gas estimation for token transfers
+ * - Metadata from tokenURI
+ */
+export class Erc721TokenHandler extends BaseNftHandler {
+  constructor(
+    connectionManager: ConnectionManager,
+    logger: ILogger,
+    nonceManager: NonceManager,
+    feeManager: FeeManager
+  ) {
+    super(connectionManager, logger, nonceManager, feeManager);
+  }
+
+  /**
+   * Get the number of tokens of the collection owned by the address,
+   * or 1 / 0 for whether the address owns the token when a token ID is given
+   * Note: Address and token validation is handled at wallet level
+   * Note: Balance queries should NOT have retry decorators per requirements
+   */
+  async balanceOf(params: BalanceQueryParams): Promise<BigNumber> {
+    const provider = this.connectionManager.getProvider();
+    const contract = new Contract(params.token.tokenAddress!, erc721Abi, provider);
+
+    if (params.token.tokenId === undefined) {
+      const balance = await contract.balanceOf(params.address);
+      return new BigNumber(balance.toString());
+    }
+
+    const owner: string = await contract.ownerOf(this.requireTokenId(params.token));
+    return new BigNumber(getAddress(owner) === getAddress(params.address) ? 1 : 0);
+  }
+
+  /**
+   * Clean up resources and references
+   * Called when the wallet is being destroyed
+   */
+  cleanup(): void {
+    // ERC721 handler doesn't maintain internal state that needs cleanup
+    // The connectionManager is managed by the parent wallet
+    this.logger.debug('ERC721 token handler cleanup completed', {
+      context: 'Erc721TokenHandler.cleanup'
+    });
+  }
+
+  /**
+   * Encode safeTransferFrom(from, to, tokenId)
+   * @throws {ArgumentError} When the amount is not 1, an ERC721 token cannot be split
+   */
+  protected encodeTransfer(params: TransferParams, from: string): string {
+    const tokenId = this.requireTokenId(params.token);
+    if (!params.amount.isEqualTo(1)) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: ERC721 transfers must have an amount of 1`,
+        { argumentName: 'amount', expectedType: '1', providedValue: params.amount.toString() }
+      );
+    }
+
+    return erc721Interface.encodeFunctionData('safeTransferFrom', [from, params.recipientAddress, tokenId]);
+  }
+
+  /**
+   * Read tokenURI(tokenId)
+   */
+  protected async readTokenUri(tokenAddress: string, tokenId: bigint): Promise<string> {
+    const contract = new Contract(tokenAddress, erc721Abi, this.connectionManager.getProvider());
+    return contract.tokenURI(tokenId);
+  }
+}
@@ -1,9 +1,25 @@
 import BigNumber from 'bignumber.js';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
-import { ILogger, BalanceQueryParams, TransferParams, Memoize } from '@delandlabs/coin-base';
+import {
+  ILogger,
+  BalanceQueryParams,
+  TransferParams,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  GeneralWalletError,
+  HibitIdSdkErrorCode
+} from '@delandlabs/coin-base';
 import { BaseAssetHandler } from './base-asset-handler';
 import { ConnectionManager } from '../shared/connection-manager';
-import { CACHE_CONFIG, EthereumRetry } from '../config';
+import { NonceManager } from '../shared/nonce-manager';
+import { FeeManager } from '../shared/fee-manager';
+import { CHAIN_CONFIG, EthereumRetry } from '../config';
+import {
+  EthereumCall,
+  EthereumFeeEstimate,
+  EthereumTransferParams,
+  EthereumUnsignedTransactionData
+} from '../types';
 
 /**
  * Handler for native Ethereum asset (ETH, BNB, etc.) operations.
@@ -11,11 +27,16 @@ import { CACHE_CONFIG, EthereumRetry } from '../config';
  * Implements all operations specific to native blockchain currency:
  * - Direct balance queries
  * - Native transfers with gas estimation
- * - Gas fee estimation with caching
+ * - Gas fee estimation in slow, normal and fast fee tiers
  */
 export class EthNativeHandler extends BaseAssetHandler {
-  constructor(connectionManager: ConnectionManager, logger: ILogger) {
-    super(connectionManager, logger);
+  constructor(
+    connectionManager: ConnectionManager,
+    logger: ILogger,
+    nonceManager: NonceManager,
+    feeManager: FeeManager
+  ) {
+    super(connectionManager, logger, nonceManager, feeManager);
   }
 
   // ============================================================================
@@ -34,68 +55,76 @@ export class EthNativeHandler extends BaseAssetHandler {
   }
 
   /**
-   * Transfer native ETH/BNB
+   * Build an unsigned native ETH/BNB transfer
    * Note: Address and amount validation is handled at wallet level
    * Note: Amount is expected in wei (smallest unit)
-   * Note: Transaction submissions should NOT have retry decorators per requirements
+   * Note: Transaction building should NOT have retry decorators per requirements
    */
-  async transfer(params: TransferParams): Promise<string> {
-    const { recipientAddress, amount } = params;
-
-    const provider = this.connectionManager.getProvider();
-    const wallet = this.connectionManager.getConnectedWallet(provider);
-    const walletAddress = wallet.address;
+  async buildTransfer(params: EthereumTransferParams): Promise<EthereumUnsignedTransactionData> {
+    const { recipientAddress, amount, feeTier } = params;
 
-    // Get current nonce
-    const nonce = await this.getWalletNonce();
+    // Reserve the next nonce so concurrent transfers do not share it
+    const nonce = await this.nonceManager.reserve();
 
     // Prepare transaction (amount is already in wei)
-    const tx = {
-      to: recipientAddress,
-      value: BigInt(amount.toFixed(0)),
-      nonce
-    };
-
-    // Send transaction
-    const txResponse = await wallet.sendTransaction(tx);
-
-    this.logger.info('Native transfer sent', {
-      context: 'EthNativeHandler.transfer',
+    const unsigned = await this.populateUnsignedTransaction(
+      {
+        to: recipientAddress,
+        value: BigInt(amount.toFixed(0)),
+        nonce
+      },
+      feeTier
+    );
+
+    this.logger.debug('Native transfer built', {
+      context: 'EthNativeHandler.buildTransfer',
       data: {
-        hash: txResponse.hash,
-        from: walletAddress,
         to: recipientAddress,
-        amountWei: amount.toString()
+        amountWei: amount.toString(),
+        nonce
       }
     });
 
-    return txResponse.hash;
+    return unsigned;
+  }
+
+  /**
+   * Build the call sending native ETH/BNB
+   * Note: Amount is expected in wei (smallest unit)
+   */
+  async buildCall(params: TransferParams): Promise<EthereumCall> {
+    return { to: params.recipientAddress, value: BigInt(params.amount.toFixed(0)), data: '0x' };
   }
 
   /**
-   * Estimate gas fee for native transfer in wei
+   * Estimate gas fee for native transfer in wei, for every fee tier
    * Note: Address and amount validation is handled at wallet level
    * Note: Amount is expected in wei (smallest unit)
    */
   @EthereumRetry()
-  async estimateFee(params: TransferParams): Promise<BigNumber> {
+  async estimateFee(params: TransferParams): Promise<EthereumFeeEstimate> {
     const { recipientAddress, amount } = params;
 
     const provider = this.connectionManager.getProvider();
     const wallet = this.connectionManager.getConnectedWallet(provider);
 
-    // Get gas price from cache or network
-    const gasPrice = await this.getGasPrice();
-
     // Estimate gas limit (amount is already in wei)
-    const gasLimit = await wallet.estimateGas({
-      to: recipientAddress,
-      value: BigInt(amount.toFixed(0))
-    });
+    const request = { to: recipientAddress, value: BigInt(amount.toFixed(0)) };
+    const gasLimit = await wallet.estimateGas(request);
+
+    // Price the gas limit in every fee tier
+    return this.feeManager.estimateFees(gasLimit, request);
+  }
 
-    // Calculate total fee in wei
-    const fee = gasPrice * gasLimit;
-    return new BigNumber(fee.toString());
+  /**
+   * Native transfers emit no logs and JSON-RPC has no per-address transaction index,
+   * so native history needs an external indexer
+   */
+  async getTransactionHistory(_params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage> {
+    throw new GeneralWalletError(
+      HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+      `${CHAIN_CONFIG.CHAIN_NAME}: Native transaction history is not available from JSON-RPC providers`
+    );
   }
 
   /**
@@ -124,37 +153,4 @@ export class EthNativeHandler extends BaseAssetHandler {
   async getDecimals(): Promise<number> {
     return 18;
   }
-
-  // ============================================================================
-  // Private Methods
-  // ============================================================================
-
-  /**
-   * Get wallet nonce (always fresh, not cached)
-   * @private
-   */
-  private async getWalletNonce(): Promise<number> {
-    const provider = this.connectionManager.getProvider();
-    const wallet = this.connectionManager.getConnectedWallet(provider);
-    return await wallet.getNonce();
-  }
-
-  /**
-   * Get gas price with caching per network
-   * @private
-   */
-  @Memoize({
-    ttl: CACHE_CONFIG.TTL.GAS_PRICE,
-    max: CACHE_CONFIG.SIZE.GAS_PRICE,
-    key: function (this: EthNativeHandler) {
-      const provider = this.connectionManager.getProvider();
-      const chainId = provider._network?.chainId?.toString() || 'default';
-      return `gasPrice:${chainId}`;
-    }
-  })
-  private async getGasPrice(): Promise<bigint> {
-    const provider = this.connectionManager.getProvider();
-    const feeData = await provider.getFeeData();
-    return feeData.gasPrice || 0n;
-  }
 }
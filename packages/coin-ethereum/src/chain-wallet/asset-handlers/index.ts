@@ -7,3 +7,6 @@
 export { BaseAssetHandler } from './base-asset-handler';
 export { EthNativeHandler } from './eth-native-handler';
 export { Erc20TokenHandler } from './erc20-token-handler';
+export { BaseNftHandler } from './base-nft-handler';
+export { Erc721TokenHandler } from './erc721-token-handler';
+export { Erc1155TokenHandler } from './erc1155-token-handler';
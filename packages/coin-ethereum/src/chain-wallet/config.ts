@@ -1,6 +1,7 @@
 import { ChainType } from '@delandlabs/hibit-basic-types';
 import { DEFAULT_NETWORK_CONFIG, mergeNetworkConfig } from '@delandlabs/coin-base';
 import { createChainRetry } from '@delandlabs/coin-base';
+import { EthereumNetworkProfile } from './types';
 
 /**
  * Unified configuration for Ethereum blockchain integration.
@@ -19,6 +20,14 @@ export const CHAIN_CONFIG = {
   DERIVING_PATH: "m/44'/60'/0'/0/0"
 } as const;
 
+/**
+ * BIP44 derivation path of the account at the given index
+ * Accounts differ in the address index, matching MetaMask and other EVM wallets
+ */
+export function getDerivingPath(accountIndex: number): string {
+  return `m/44'/60'/0'/0/${accountIndex}`;
+}
+
 // ============================================================
 // Network Configuration
 // ============================================================
@@ -50,6 +59,51 @@ export const ETHEREUM_NETWORK = {
   }
 } as const;
 
+// ============================================================
+// EVM Network Profiles
+// ============================================================
+
+/**
+ * Fee rules of EVM networks without a built-in profile
+ */
+export const DEFAULT_NETWORK_PROFILE: EthereumNetworkProfile = {
+  name: 'EVM',
+  feeModel: 'standard',
+  eip1559: true
+};
+
+/**
+ * Built-in network profiles by EVM chain ID
+ */
+export const NETWORK_PROFILES: Readonly<Record<string, EthereumNetworkProfile>> = {
+  '1': { name: 'Ethereum', feeModel: 'standard', eip1559: true },
+  '11155111': { name: 'Ethereum Sepolia', feeModel: 'standard', eip1559: true },
+  '10': { name: 'OP Mainnet', feeModel: 'op-stack', eip1559: true },
+  '11155420': { name: 'OP Sepolia', feeModel: 'op-stack', eip1559: true },
+  '8453': { name: 'Base', feeModel: 'op-stack', eip1559: true },
+  '84532': { name: 'Base Sepolia', feeModel: 'op-stack', eip1559: true },
+  '42161': { name: 'Arbitrum One', feeModel: 'arbitrum', eip1559: true },
+  '421614': { name: 'Arbitrum Sepolia', feeModel: 'arbitrum', eip1559: true },
+  // BSC has no base fee, transactions pay a legacy gas price
+  '56': { name: 'BNB Smart Chain', feeModel: 'standard', eip1559: false },
+  '97': { name: 'BNB Smart Chain Testnet', feeModel: 'standard', eip1559: false },
+  // Polygon validators drop transactions below a minimum priority fee
+  '137': { name: 'Polygon', feeModel: 'standard', eip1559: true, minPriorityFeePerGas: 30000000000n },
+  '80002': { name: 'Polygon Amoy', feeModel: 'standard', eip1559: true, minPriorityFeePerGas: 25000000000n }
+};
+
+/**
+ * Network profile of an EVM chain
+ * @param chainId - EVM chain ID
+ * @param overrides - Fields replacing those of the built-in profile, e.g. for chains without one
+ */
+export function getNetworkProfile(
+  chainId: bigint,
+  overrides?: Partial<EthereumNetworkProfile>
+): EthereumNetworkProfile {
+  return { ...(NETWORK_PROFILES[chainId.toString()] ?? DEFAULT_NETWORK_PROFILE), ...overrides };
+}
+
 // ============================================================
 // Cache Configuration
 // ============================================================
@@ -62,12 +116,16 @@ export const CACHE_CONFIG = {
     ...DEFAULT_NETWORK_CONFIG.CACHE.SIZE,
     PROVIDER: 10,
     GAS_PRICE: 10,
-    DECIMALS: 100 // Token decimals rarely change
+    DECIMALS: 100, // Token decimals rarely change
+    BLOCK_TIME: 500, // One entry per block on a history page
+    NFT_STANDARD: 100
   },
   TTL: {
     ...DEFAULT_NETWORK_CONFIG.CACHE.TTL,
     GAS_PRICE: 10 * 1000, // 10 seconds
-    DECIMALS: 24 * 60 * 60 * 1000 // 24 hours - decimals rarely change
+    DECIMALS: 24 * 60 * 60 * 1000, // 24 hours - decimals rarely change
+    BLOCK_TIME: 60 * 60 * 1000, // 1 hour - mined block timestamps never change
+    NFT_STANDARD: 24 * 60 * 60 * 1000 // 24 hours - the interfaces of a deployed contract rarely change
   }
 } as const;
 
@@ -82,9 +140,159 @@ export const PROTOCOL_CONFIG = {
   DEFAULT_GAS_LIMITS: {
     NATIVE_TRANSFER: 21000n,
     ERC20_TRANSFER: 65000n
+  },
+
+  // OP-stack predeploy quoting the L1 data fee of a transaction
+  OP_STACK_GAS_PRICE_ORACLE: '0x420000000000000000000000000000000000000F'
+} as const;
+
+// ============================================================
+// Fee Tiers
+// ============================================================
+export const FEE_CONFIG = {
+  // Recent blocks whose priority fees the tiers are derived from (eth_feeHistory)
+  HISTORY_BLOCKS: 10,
+  // Percentile of the priority fees paid in each block that a tier pays
+  REWARD_PERCENTILES: {
+    slow: 10,
+    normal: 50,
+    fast: 90
+  },
+  // maxFeePerGas allows the base fee to grow by this factor, about six full blocks
+  BASE_FEE_MULTIPLIER: 2n,
+  // Priority fee when the recent blocks paid none
+  DEFAULT_PRIORITY_FEE: 1000000000n, // 1 gwei
+  DEFAULT_TIER: 'normal'
+} as const;
+
+// ============================================================
+// NFTs
+// ============================================================
+export const NFT_CONFIG = {
+  // ERC-165 interface ID of ERC-1155, whose tokens share the ERC721 asset type
+  ERC1155_INTERFACE_ID: '0xd9b67a26',
+  // Gateways that serve ipfs:// and ar:// metadata URIs over HTTPS
+  IPFS_GATEWAY: 'https://ipfs.io/ipfs/',
+  ARWEAVE_GATEWAY: 'https://arweave.net/',
+  // Metadata requests are abandoned after this time
+  METADATA_TIMEOUT_MS: 10000,
+  // Larger metadata documents are rejected before parsing
+  MAX_METADATA_BYTES: 1024 * 1024
+} as const;
+
+// ============================================================
+// Nonce Management
+// ============================================================
+export const NONCE_CONFIG = {
+  // Reserved nonces whose transactions were never broadcast are handed out again after this time
+  RESERVATION_TTL: 5 * 60 * 1000, // 5 minutes
+  // Fee increase of a replacement transaction
+  REPLACEMENT_FEE_BUMP_PERCENT: 15,
+  // Nodes reject replacements that raise the fees by less than this
+  MIN_REPLACEMENT_FEE_BUMP_PERCENT: 10
+} as const;
+
+// ============================================================
+// Transaction History
+// ============================================================
+export const HISTORY_CONFIG = {
+  // Blocks per eth_getLogs request, within the range limit of common public RPC providers
+  BLOCK_RANGE: 5000,
+  // Windows scanned per history page before returning a cursor to continue from
+  MAX_BLOCK_RANGES: 10
+} as const;
+
+// ============================================================
+// ERC20 Allowances
+// ============================================================
+export const ALLOWANCE_CONFIG = {
+  // Allowances from this amount on are reported as infinite; some tokens decrease MaxUint256 allowances on use
+  INFINITE_THRESHOLD: 2n ** 255n,
+  // Windows of HISTORY_CONFIG.BLOCK_RANGE blocks scanned for Approval logs when listing allowances
+  SCAN_BLOCK_RANGES: 20
+} as const;
+
+// ============================================================
+// Permits
+// ============================================================
+export const PERMIT_CONFIG = {
+  // EIP-712 domain version of EIP-2612 tokens without a version() function
+  DEFAULT_VERSION: '1',
+  // Uniswap Permit2, deployed at the same address on every supported chain
+  PERMIT2_ADDRESS: '0x000000000022D473030F116dDEE9F6B43aC78BA3',
+  // Permit2 stores amounts as uint160 and expirations as uint48
+  PERMIT2_MAX_AMOUNT: 2n ** 160n - 1n,
+  PERMIT2_MAX_EXPIRATION: 2 ** 48 - 1
+} as const;
+
+// ============================================================
+// Sign-In with Ethereum
+// ============================================================
+export const SIWE_CONFIG = {
+  // The only message version defined by EIP-4361
+  VERSION: '1',
+  // Length of generated nonces; EIP-4361 requires at least 8 alphanumeric characters
+  NONCE_LENGTH: 17
+} as const;
+
+// ============================================================
+// Multicall3
+// ============================================================
+export const MULTICALL_CONFIG = {
+  // Multicall3, deployed at the same address on most EVM chains
+  ADDRESS: '0xcA11bde05977b3631167028862bE2a173976CA11',
+  // Calls per aggregate3 request; larger batches may exceed the node's eth_call gas limit
+  BATCH_SIZE: 500
+} as const;
+
+// ============================================================
+// EIP-1193 Provider
+// ============================================================
+export const EIP1193_CONFIG = {
+  // Read-only JSON-RPC methods passed through to the node; they are safe to repeat on another endpoint
+  READ_METHODS: [
+    'eth_blockNumber',
+    'eth_call',
+    'eth_estimateGas',
+    'eth_feeHistory',
+    'eth_gasPrice',
+    'eth_getBalance',
+    'eth_getBlockByHash',
+    'eth_getBlockByNumber',
+    'eth_getCode',
+    'eth_getLogs',
+    'eth_getStorageAt',
+    'eth_getTransactionByHash',
+    'eth_getTransactionCount',
+    'eth_getTransactionReceipt',
+    'eth_maxPriorityFeePerGas',
+    'net_version'
+  ] as readonly string[],
+  // Error codes of EIP-1193 and EIP-1474
+  ERROR_CODES: {
+    UNAUTHORIZED: 4100,
+    UNSUPPORTED_METHOD: 4200,
+    DISCONNECTED: 4900,
+    EXECUTION_REVERTED: 3,
+    INVALID_PARAMS: -32602,
+    INTERNAL_ERROR: -32603
   }
 } as const;
 
+// ============================================================
+// ERC-4337 Smart Accounts
+// ============================================================
+export const SMART_ACCOUNT_CONFIG = {
+  // Canonical EntryPoint v0.7 deployment
+  ENTRY_POINT: '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+  // SimpleAccountFactory v0.7 reference deployment
+  SIMPLE_ACCOUNT_FACTORY: '0x91E60e0613810449d098b26C15E9d91e6b9E3eD3',
+  // Signature of the right length and shape for gas estimation, before the operation is signed
+  DUMMY_SIGNATURE: '0xfffffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c',
+  // Interval between eth_getUserOperationReceipt requests while waiting for an operation
+  RECEIPT_POLL_INTERVAL: 2000 // 2 seconds
+} as const;
+
 // ============================================================
 // Error Messages
 // ============================================================
@@ -0,0 +1,349 @@
+import BigNumber from 'bignumber.js';
+import {
+  TypedDataDomain,
+  TypedDataField,
+  getAddress,
+  getBytes,
+  hexlify,
+  isAddress,
+  isError,
+  isHexString,
+  toQuantity
+} from 'ethers';
+import { ArgumentError, ConnectionStateChangedEvent, HibitIdSdkErrorCode, WalletError } from '@delandlabs/coin-base';
+import { EIP1193_CONFIG } from './config';
+import { EthereumChainWallet } from './wallet';
+
+const { ERROR_CODES } = EIP1193_CONFIG;
+
+/**
+ * Arguments of an EIP-1193 request
+ */
+export interface Eip1193RequestArguments {
+  /** JSON-RPC method, e.g. eth_sendTransaction */
+  method: string;
+  /** Parameters of the method; every supported method takes positional parameters */
+  params?: readonly unknown[] | object;
+}
+
+/**
+ * Listener of an EIP-1193 provider event
+ */
+export type Eip1193Listener = (...args: unknown[]) => void;
+
+/**
+ * EIP-1193 provider, as consumed by ethers BrowserProvider, viem custom transports and wagmi
+ */
+export interface Eip1193Provider {
+  /** Send a JSON-RPC request; fails with an Eip1193ProviderError */
+  request(args: Eip1193RequestArguments): Promise<unknown>;
+  /** Register a listener of connect, disconnect, chainChanged, accountsChanged or message */
+  on(event: string, listener: Eip1193Listener): this;
+  /** Remove a listener registered with on */
+  removeListener(event: string, listener: Eip1193Listener): this;
+}
+
+/**
+ * Error of an EIP-1193 request, with its EIP-1193 or JSON-RPC error code
+ */
+export class Eip1193ProviderError extends Error {
+  /**
+   * @param code - Error code, see EIP1193_CONFIG.ERROR_CODES
+   * @param message - Human-readable message
+   * @param data - Additional data, such as the revert data of a reverted call
+   */
+  constructor(
+    public readonly code: number,
+    message: string,
+    public readonly data?: unknown
+  ) {
+    super(message);
+    this.name = 'Eip1193ProviderError';
+  }
+}
+
+/**
+ * Wrap a wallet in an EIP-1193 provider, so ethers, viem and wagmi code can use its key
+ *
+ * Supported methods:
+ * - eth_accounts and eth_requestAccounts: the address of the wallet key
+ * - eth_chainId: the chain ID of the wallet's network
+ * - personal_sign: hex-encoded messages are signed as bytes, others as UTF-8 text
+ * - eth_signTypedData_v4: the domain must be for the wallet's chain
+ * - eth_sendTransaction: gas, fees and nonce of the request are ignored, the wallet prices and
+ *   numbers the transaction itself; not supported in smart-account mode, where the call would be
+ *   sent from the smart account rather than the reported account and return a user operation hash
+ * - the read methods of EIP1193_CONFIG.READ_METHODS, passed through to the wallet's node
+ *
+ * Signing requests must name the wallet's address. The account and chain never change, so only
+ * connect and disconnect events are emitted, when the wallet's connection state changes.
+ *
+ * @param wallet - The wallet holding the key
+ * @returns The provider
+ *
+ * @example
+ * ```typescript
+ * const provider = new BrowserProvider(toEip1193Provider(wallet));
+ * const signer = await provider.getSigner();
+ * const tx = await signer.sendTransaction({ to: recipient, value: parseEther('0.1') });
+ * ```
+ */
+export function toEip1193Provider(wallet: EthereumChainWallet): Eip1193Provider {
+  return new WalletEip1193Provider(wallet);
+}
+
+/**
+ * EIP-1193 provider backed by an EthereumChainWallet
+ */
+class WalletEip1193Provider implements Eip1193Provider {
+  private readonly listeners = new Map<string, Set<Eip1193Listener>>();
+  // Registered on the wallet while connect or disconnect have listeners, as it starts polling
+  private readonly onConnectionStateChanged = (event: ConnectionStateChangedEvent): void => {
+    if (event.state === 'connected') {
+      this.emit('connect', { chainId: this.getChainId() });
+    } else if (event.state === 'disconnected') {
+      this.emit('disconnect', new Eip1193ProviderError(ERROR_CODES.DISCONNECTED, 'Disconnected from the chain'));
+    }
+  };
+
+  constructor(private readonly wallet: EthereumChainWallet) {}
+
+  async request({ method, params }: Eip1193RequestArguments): Promise<unknown> {
+    try {
+      return await this.handleRequest(method, Array.isArray(params) ? params : []);
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  on(event: string, listener: Eip1193Listener): this {
+    const wasWatching = this.isWatchingConnection();
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+
+    if (!wasWatching && this.isWatchingConnection()) {
+      this.wallet.on('connectionStateChanged', this.onConnectionStateChanged);
+    }
+    return this;
+  }
+
+  removeListener(event: string, listener: Eip1193Listener): this {
+    const wasWatching = this.isWatchingConnection();
+    const listeners = this.listeners.get(event);
+    listeners?.delete(listener);
+    if (listeners?.size === 0) {
+      this.listeners.delete(event);
+    }
+
+    if (wasWatching && !this.isWatchingConnection()) {
+      this.wallet.off('connectionStateChanged', this.onConnectionStateChanged);
+    }
+    return this;
+  }
+
+  /**
+   * Dispatch a request to the wallet
+   * @private
+   */
+  private async handleRequest(method: string, params: readonly unknown[]): Promise<unknown> {
+    switch (method) {
+      case 'eth_accounts':
+      case 'eth_requestAccounts':
+        return [await this.getAccountAddress()];
+      case 'eth_chainId':
+        return this.getChainId();
+      case 'personal_sign':
+        return this.personalSign(params);
+      case 'eth_signTypedData_v4':
+        return this.signTypedData(params);
+      case 'eth_sendTransaction':
+        return this.sendTransaction(params);
+      default:
+        if (EIP1193_CONFIG.READ_METHODS.includes(method)) {
+          return this.wallet.sendRpcRequest(method, params);
+        }
+        throw new Eip1193ProviderError(ERROR_CODES.UNSUPPORTED_METHOD, `Method ${method} is not supported`);
+    }
+  }
+
+  /**
+   * personal_sign: [message, address]
+   * @private
+   */
+  private async personalSign(params: readonly unknown[]): Promise<string> {
+    const [message, address] = params;
+    if (typeof message !== 'string') {
+      throw new Eip1193ProviderError(ERROR_CODES.INVALID_PARAMS, 'personal_sign message must be a string');
+    }
+    await this.assertAccount(address);
+
+    // Dapps send the message hex-encoded, as the bytes to sign
+    const signature = isHexString(message)
+      ? await this.wallet.signMessageBytes(getBytes(message))
+      : await this.wallet.signMessage({ message });
+    return hexlify(signature);
+  }
+
+  /**
+   * eth_signTypedData_v4: [address, typedData], the typed data as JSON or an object
+   * @private
+   */
+  private async signTypedData(params: readonly unknown[]): Promise<string> {
+    const [address, typedData] = params;
+    await this.assertAccount(address);
+
+    let parsed: unknown = typedData;
+    if (typeof typedData === 'string') {
+      try {
+        parsed = JSON.parse(typedData);
+      } catch {
+        throw new Eip1193ProviderError(ERROR_CODES.INVALID_PARAMS, 'Typed data is not valid JSON');
+      }
+    }
+    const { domain, types, message } = (parsed ?? {}) as Record<string, unknown>;
+    if (!isObject(domain) || !isObject(types) || !isObject(message)) {
+      throw new Eip1193ProviderError(ERROR_CODES.INVALID_PARAMS, 'Typed data must have a domain, types and message');
+    }
+
+    const signature = await this.wallet.signTypedData(
+      domain as TypedDataDomain,
+      types as Record<string, TypedDataField[]>,
+      message
+    );
+    return hexlify(signature);
+  }
+
+  /**
+   * eth_sendTransaction: [transaction]
+   * @private
+   */
+  private async sendTransaction(params: readonly unknown[]): Promise<string> {
+    if (this.wallet.isSmartAccountMode()) {
+      throw new Eip1193ProviderError(
+        ERROR_CODES.UNSUPPORTED_METHOD,
+        'eth_sendTransaction is not supported in smart-account mode'
+      );
+    }
+    const [transaction] = params;
+    if (!isObject(transaction)) {
+      throw new Eip1193ProviderError(ERROR_CODES.INVALID_PARAMS, 'eth_sendTransaction expects a transaction object');
+    }
+    if (transaction.from !== undefined) {
+      await this.assertAccount(transaction.from);
+    }
+    if (typeof transaction.to !== 'string') {
+      throw new Eip1193ProviderError(ERROR_CODES.INVALID_PARAMS, 'Contract creation is not supported');
+    }
+
+    // Some libraries send the call data as input, the name of the field in transaction objects
+    const data = transaction.data ?? transaction.input;
+    return this.wallet.sendTransaction({
+      to: transaction.to,
+      value: transaction.value !== undefined ? new BigNumber(parseQuantity(transaction.value, 'value')) : undefined,
+      data: data !== undefined ? String(data) : undefined
+    });
+  }
+
+  /**
+   * Checksummed address of the wallet key
+   * @private
+   */
+  private async getAccountAddress(): Promise<string> {
+    return getAddress((await this.wallet.getAccount()).address);
+  }
+
+  /**
+   * Validate that a request names the wallet's address
+   * @throws {Eip1193ProviderError} When the address is invalid or of another account
+   * @private
+   */
+  private async assertAccount(address: unknown): Promise<void> {
+    if (typeof address !== 'string' || !isAddress(address)) {
+      throw new Eip1193ProviderError(ERROR_CODES.INVALID_PARAMS, `Invalid address: ${String(address)}`);
+    }
+    if (getAddress(address) !== (await this.getAccountAddress())) {
+      throw new Eip1193ProviderError(ERROR_CODES.UNAUTHORIZED, `Address ${address} is not an account of the wallet`);
+    }
+  }
+
+  /**
+   * Chain ID of the wallet's network as a hex quantity
+   * @private
+   */
+  private getChainId(): string {
+    return toQuantity(BigInt(this.wallet.chainInfo.chainId.network.toString()));
+  }
+
+  /**
+   * Whether connect or disconnect have listeners
+   * @private
+   */
+  private isWatchingConnection(): boolean {
+    return this.listeners.has('connect') || this.listeners.has('disconnect');
+  }
+
+  /**
+   * Call the listeners of an event
+   * @private
+   */
+  private emit(event: string, payload: unknown): void {
+    // Copy so listeners may remove themselves while being called
+    for (const listener of [...(this.listeners.get(event) ?? [])]) {
+      listener(payload);
+    }
+  }
+}
+
+/**
+ * Whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a JSON-RPC quantity, such as 0x2386f26fc10000
+ * @throws {Eip1193ProviderError} When the value is not a quantity
+ */
+function parseQuantity(value: unknown, name: string): string {
+  if ((typeof value !== 'string' || !isHexString(value)) && typeof value !== 'number' && typeof value !== 'bigint') {
+    throw new Eip1193ProviderError(ERROR_CODES.INVALID_PARAMS, `Transaction ${name} must be a hex quantity`);
+  }
+  return BigInt(value).toString();
+}
+
+/**
+ * Turn an error of the wallet into an error with an EIP-1193 or JSON-RPC error code
+ * Reverts keep their revert data, so libraries can decode custom errors.
+ */
+function toProviderError(error: unknown): Eip1193ProviderError {
+  if (error instanceof Eip1193ProviderError) {
+    return error;
+  }
+  if (!(error instanceof WalletError)) {
+    return new Eip1193ProviderError(ERROR_CODES.INTERNAL_ERROR, error instanceof Error ? error.message : String(error));
+  }
+
+  const { cause, details } = error;
+  if (isError(cause, 'CALL_EXCEPTION') || details?.revertData !== undefined) {
+    const data = isError(cause, 'CALL_EXCEPTION') ? cause.data : details?.revertData;
+    return new Eip1193ProviderError(ERROR_CODES.EXECUTION_REVERTED, error.message, data ?? undefined);
+  }
+  if (error instanceof ArgumentError) {
+    return new Eip1193ProviderError(ERROR_CODES.INVALID_PARAMS, error.message);
+  }
+  switch (error.code) {
+    case HibitIdSdkErrorCode.INVALID_ARGUMENT:
+      return new Eip1193ProviderError(ERROR_CODES.INVALID_PARAMS, error.message);
+    case HibitIdSdkErrorCode.WATCH_ONLY_WALLET:
+      return new Eip1193ProviderError(ERROR_CODES.UNAUTHORIZED, error.message);
+    case HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED:
+      return new Eip1193ProviderError(ERROR_CODES.UNSUPPORTED_METHOD, error.message);
+    default:
+      return new Eip1193ProviderError(ERROR_CODES.INTERNAL_ERROR, error.message);
+  }
+}
@@ -0,0 +1,37 @@
+import { isHexString } from 'ethers';
+import { Address, ArgumentError, HibitIdSdkErrorCode } from '@delandlabs/coin-base';
+import { ChainType } from '@delandlabs/hibit-basic-types';
+import { CHAIN_CONFIG } from './config';
+
+/**
+ * Whether a recipient is an ENS name, such as vitalik.eth, rather than an address
+ */
+export function isEnsName(value: string): boolean {
+  return value.includes('.') && !isHexString(value);
+}
+
+/**
+ * Create a transfer recipient from an ENS name
+ *
+ * createAddress only accepts addresses; transfers resolve a recipient created here to its
+ * address before building the transaction, and reject names without an address.
+ *
+ * @param name - ENS name, e.g. vitalik.eth
+ * @returns The name as a recipient address of Ethereum transfers
+ * @throws {ArgumentError} When the name is not an ENS name
+ *
+ * @example
+ * ```typescript
+ * await wallet.transfer({ recipientAddress: createEnsRecipient('vitalik.eth'), amount, token });
+ * ```
+ */
+export function createEnsRecipient(name: string): Address<ChainType.Ethereum> {
+  if (!isEnsName(name)) {
+    throw new ArgumentError(
+      HibitIdSdkErrorCode.INVALID_ARGUMENT,
+      `${CHAIN_CONFIG.CHAIN_NAME}: ${name} is not an ENS name`,
+      { argumentName: 'name', expectedType: 'ENS name', providedValue: name }
+    );
+  }
+  return name as Address<ChainType.Ethereum>;
+}
@@ -1,3 +1,7 @@
 export * from './wallet';
+export * from './eip1193-provider';
+export * from './siwe';
+export * from './ens';
 export * from './config';
 export * from './utils';
+export * from './types';
@@ -0,0 +1,175 @@
+import { JsonRpcProvider, toQuantity } from 'ethers';
+import { GeneralWalletError, HibitIdSdkErrorCode, ILogger } from '@delandlabs/coin-base';
+import { CHAIN_CONFIG } from '../config';
+import { EthereumUserOperation, EthereumUserOperationReceipt } from '../types';
+
+/**
+ * Gas limits of a user operation estimated by the bundler
+ */
+export interface UserOperationGasEstimate {
+  callGasLimit: bigint;
+  verificationGasLimit: bigint;
+  preVerificationGas: bigint;
+  paymasterVerificationGasLimit?: bigint;
+  paymasterPostOpGasLimit?: bigint;
+}
+
+/**
+ * Response of eth_getUserOperationReceipt, integers hex-encoded
+ */
+interface UserOperationReceiptResponse {
+  userOpHash: string;
+  success: boolean;
+  reason?: string;
+  actualGasCost: string;
+  actualGasUsed: string;
+  /** Receipt of the bundle transaction */
+  receipt: { transactionHash: string };
+}
+
+/**
+ * JSON-RPC error codes of bundlers for user operations that fail simulation (ERC-7769):
+ * rejected by the EntryPoint's validation, or reverted while executing the account call
+ */
+const SIMULATION_ERROR_CODES: ReadonlyArray<number> = [-32500, -32521];
+
+/**
+ * Get the reason a bundler rejected a user operation in simulation
+ * @param error - Error thrown by a BundlerClient request
+ * @returns The bundler's reason, e.g. an AA error or revert message, or undefined for other errors
+ */
+export function getUserOperationFailureReason(error: unknown): string | undefined {
+  if (!(error instanceof GeneralWalletError)) {
+    return undefined;
+  }
+  const { rpcCode, reason } = (error.details ?? {}) as { rpcCode?: number; reason?: string };
+  return rpcCode !== undefined && SIMULATION_ERROR_CODES.includes(rpcCode) ? reason : undefined;
+}
+
+/**
+ * JSON-RPC client of an ERC-4337 bundler.
+ *
+ * Bundlers are separate from the wallet's RPC endpoints: their failures are reported as
+ * GeneralWalletError so the endpoint pool does not fail over the RPC endpoints because of them.
+ */
+export class BundlerClient {
+  private readonly provider: JsonRpcProvider;
+
+  constructor(
+    url: string,
+    chainId: bigint,
+    private readonly logger: ILogger
+  ) {
+    // Several bundlers reject batched requests
+    this.provider = new JsonRpcProvider(url, chainId, { staticNetwork: true, batchMaxCount: 1 });
+  }
+
+  /**
+   * Estimate the gas limits of a user operation (eth_estimateUserOperationGas)
+   * @param userOperation - Operation with a dummy signature
+   * @param entryPoint - EntryPoint the operation is for
+   */
+  public async estimateUserOperationGas(
+    userOperation: EthereumUserOperation,
+    entryPoint: string
+  ): Promise<UserOperationGasEstimate> {
+    const result = await this.send<Record<string, string | undefined>>('eth_estimateUserOperationGas', [
+      serializeUserOperation(userOperation),
+      entryPoint
+    ]);
+    return {
+      callGasLimit: BigInt(result.callGasLimit ?? 0),
+      verificationGasLimit: BigInt(result.verificationGasLimit ?? 0),
+      preVerificationGas: BigInt(result.preVerificationGas ?? 0),
+      paymasterVerificationGasLimit: toOptionalBigInt(result.paymasterVerificationGasLimit),
+      paymasterPostOpGasLimit: toOptionalBigInt(result.paymasterPostOpGasLimit)
+    };
+  }
+
+  /**
+   * Submit a signed user operation (eth_sendUserOperation)
+   * @returns The user operation hash
+   */
+  public async sendUserOperation(userOperation: EthereumUserOperation, entryPoint: string): Promise<string> {
+    const userOpHash = await this.send<string>('eth_sendUserOperation', [
+      serializeUserOperation(userOperation),
+      entryPoint
+    ]);
+    this.logger.info('User operation sent', {
+      context: 'BundlerClient.sendUserOperation',
+      data: { userOpHash, sender: userOperation.sender, nonce: userOperation.nonce.toString() }
+    });
+    return userOpHash;
+  }
+
+  /**
+   * Whether the bundler knows the user operation, pending or included (eth_getUserOperationByHash)
+   */
+  public async hasUserOperation(userOpHash: string): Promise<boolean> {
+    return (await this.send<unknown>('eth_getUserOperationByHash', [userOpHash])) != null;
+  }
+
+  /**
+   * Get the receipt of an included user operation (eth_getUserOperationReceipt)
+   * @returns The receipt, or null while the operation is pending
+   */
+  public async getUserOperationReceipt(userOpHash: string): Promise<EthereumUserOperationReceipt | null> {
+    const result = await this.send<UserOperationReceiptResponse | null>('eth_getUserOperationReceipt', [userOpHash]);
+    if (!result) {
+      return null;
+    }
+    return {
+      userOpHash: result.userOpHash,
+      success: result.success,
+      reason: result.reason || undefined,
+      actualGasCost: BigInt(result.actualGasCost),
+      actualGasUsed: BigInt(result.actualGasUsed),
+      transactionHash: result.receipt.transactionHash
+    };
+  }
+
+  /**
+   * Close the connection to the bundler
+   * Called when the wallet is being destroyed
+   */
+  public cleanup(): void {
+    this.provider.destroy();
+  }
+
+  /**
+   * Send a request to the bundler
+   * @throws {GeneralWalletError} When the request fails, with the bundler's error message
+   * @private
+   */
+  private async send<T>(method: string, params: unknown[]): Promise<T> {
+    try {
+      return await this.provider.send(method, params);
+    } catch (error) {
+      // ethers keeps the JSON-RPC error of the bundler, e.g. an AA revert code, in error.error
+      const rpcError = (error as { error?: { code?: number; message?: string } }).error;
+      const message = rpcError?.message ?? (error instanceof Error ? error.message : String(error));
+      throw new GeneralWalletError(
+        HibitIdSdkErrorCode.UNKNOWN_ERROR,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Bundler request ${method} failed: ${message}`,
+        { method, rpcCode: rpcError?.code, reason: message }
+      );
+    }
+  }
+}
+
+/**
+ * Encode a user operation for bundler RPC methods: integers as hex quantities, unset fields omitted
+ */
+function serializeUserOperation(userOperation: EthereumUserOperation): Record<string, string> {
+  const serialized: Record<string, string> = {};
+  for (const [field, value] of Object.entries(userOperation)) {
+    if (value !== undefined) {
+      serialized[field] = typeof value === 'bigint' ? toQuantity(value) : value;
+    }
+  }
+  return serialized;
+}
+
+function toOptionalBigInt(value: string | undefined): bigint | undefined {
+  return value === undefined ? undefined : BigInt(value);
+}
@@ -1,7 +1,15 @@
-import { JsonRpcProvider, WebSocketProvider, Wallet } from 'ethers';
+import { JsonRpcProvider, VoidSigner, WebSocketProvider } from 'ethers';
 import { LRUCache } from 'lru-cache';
-import { NetworkError, HibitIdSdkErrorCode, ILogger, ChainInfo } from '@delandlabs/coin-base';
+import {
+  NetworkError,
+  HibitIdSdkErrorCode,
+  ILogger,
+  ChainInfo,
+  ConnectionState,
+  EndpointPool
+} from '@delandlabs/coin-base';
 import { CACHE_CONFIG, ETHEREUM_NETWORK } from '../config';
+import { EthereumSigner } from './ethereum-signer';
 
 /**
  * Manages Ethereum network connections and wallet instances.
@@ -11,20 +19,30 @@ import { CACHE_CONFIG, ETHEREUM_NETWORK } from '../config';
  *
  * Features:
  * - Automatic provider selection (HTTP vs WebSocket)
+ * - HTTP providers follow the current endpoint of the wallet's endpoint pool
  * - Provider connection pooling with LRU cache
  * - WebSocket auto-reconnection with exponential backoff
+ * - WebSocket connection state notifications
  * - Wallet instance lifecycle management
  */
 export class ConnectionManager {
-  private wallet: Wallet | null = null;
+  private wallet: EthereumSigner | VoidSigner | null = null;
   private readonly providerCache: LRUCache<string, JsonRpcProvider | WebSocketProvider>;
   private readonly reconnectAttempts: Record<string, number> = {};
 
   // Import configuration from centralized config
 
+  /**
+   * @param chainInfo - Chain configuration of the EVM network
+   * @param logger - Logger instance
+   * @param onConnectionStateChange - Called when a WebSocket provider loses its connection and reconnects
+   * @param endpointPool - Pool choosing the HTTP endpoint of the instance chain; defaults to rpc.primary
+   */
   constructor(
     private readonly chainInfo: ChainInfo,
-    private readonly logger: ILogger
+    private readonly logger: ILogger,
+    private readonly onConnectionStateChange?: (state: ConnectionState, error?: Error) => void,
+    private readonly endpointPool?: EndpointPool
   ) {
     // Initialize provider cache with disposal callback
     this.providerCache = new LRUCache<string, JsonRpcProvider | WebSocketProvider>({
@@ -35,9 +53,9 @@ export class ConnectionManager {
 
   /**
    * Initialize the connection manager with a wallet instance
-   * @param wallet The Ethers wallet instance to use for transactions
+   * @param wallet The Ethers signer to use for transactions, or a VoidSigner for watch-only wallets
    */
-  public initialize(wallet: Wallet): void {
+  public initialize(wallet: EthereumSigner | VoidSigner): void {
     this.wallet = wallet;
     this.logger.debug('Connection manager initialized', {
       context: 'ConnectionManager.initialize',
@@ -69,10 +87,10 @@ export class ConnectionManager {
 
   /**
    * Get the initialized wallet instance
-   * @returns The Ethers wallet instance
+   * @returns The Ethers signer
    * @throws Error if wallet is not initialized
    */
-  public getWallet(): Wallet {
+  public getWallet(): EthereumSigner | VoidSigner {
     if (!this.wallet) {
       throw new Error('Wallet not initialized. Call initialize() first.');
     }
@@ -84,7 +102,7 @@ export class ConnectionManager {
    * @param provider The provider to connect to
    * @returns The connected wallet instance
    */
-  public getConnectedWallet(provider: JsonRpcProvider | WebSocketProvider): Wallet {
+  public getConnectedWallet(provider: JsonRpcProvider | WebSocketProvider): EthereumSigner | VoidSigner {
     const wallet = this.getWallet();
     return wallet.connect(provider);
   }
@@ -122,7 +140,20 @@ export class ConnectionManager {
    * @private
    */
   private getProviderKey(chainInfo: ChainInfo): string {
-    return `${chainInfo.chainId.chain}_${chainInfo.chainId.network}`;
+    const key = `${chainInfo.chainId.chain}_${chainInfo.chainId.network}`;
+    // HTTP providers are keyed by endpoint so a failover creates a provider for the new endpoint
+    return chainInfo.rpc?.webSocket ? key : `${key}_${this.getHttpEndpoint(chainInfo)}`;
+  }
+
+  /**
+   * Get the HTTP endpoint of a chain, the pool's current endpoint for the instance chain
+   * @private
+   */
+  private getHttpEndpoint(chainInfo: ChainInfo): string | undefined {
+    if (chainInfo === this.chainInfo && this.endpointPool?.hasEndpoints()) {
+      return this.endpointPool.getCurrentUrl();
+    }
+    return chainInfo.rpc?.primary;
   }
 
   /**
@@ -135,11 +166,13 @@ export class ConnectionManager {
       this.setupWebSocketHandlers(provider, key);
       this.setupWebSocketPing(provider, key);
       return provider;
-    } else if (chainInfo.rpc?.primary) {
-      return new JsonRpcProvider(chainInfo.rpc.primary);
-    } else {
+    }
+
+    const endpoint = this.getHttpEndpoint(chainInfo);
+    if (!endpoint) {
       throw new NetworkError(HibitIdSdkErrorCode.NETWORK_UNAVAILABLE, 'No RPC endpoint configured for chain');
     }
+    return new JsonRpcProvider(endpoint);
   }
 
   /**
@@ -152,6 +185,7 @@ export class ConnectionManager {
         error,
         context: 'ConnectionManager.setupWebSocketHandlers'
       });
+      this.onConnectionStateChange?.('reconnecting', error);
       this.handleWebSocketReconnect(key);
     });
 
@@ -208,6 +242,7 @@ export class ConnectionManager {
       );
       this.providerCache.delete(key);
       delete this.reconnectAttempts[key];
+      this.onConnectionStateChange?.('disconnected', new Error('Max reconnection attempts reached'));
       return;
     }
 
@@ -234,6 +269,7 @@ export class ConnectionManager {
       this.logger.info(`WebSocket reconnection successful for ${key}`, {
         context: 'ConnectionManager.handleWebSocketReconnect'
       });
+      this.onConnectionStateChange?.('connected');
     } catch (error) {
       this.logger.error(
         `WebSocket reconnection failed for ${key}`,
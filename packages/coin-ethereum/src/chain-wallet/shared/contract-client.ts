@@ -0,0 +1,215 @@
+import { FunctionFragment, Interface, Transaction, TransactionLike, isError } from 'ethers';
+import { ArgumentError, GeneralWalletError, HibitIdSdkErrorCode, ILogger } from '@delandlabs/coin-base';
+import { CHAIN_CONFIG, EthereumRetry } from '../config';
+import {
+  EthereumCall,
+  EthereumContractCallParams,
+  EthereumContractReadParams,
+  EthereumFeeTier,
+  EthereumUnsignedTransactionData
+} from '../types';
+import { ConnectionManager } from './connection-manager';
+import { FeeManager } from './fee-manager';
+import { NonceManager } from './nonce-manager';
+
+/**
+ * Calls functions of arbitrary contracts from their ABI.
+ *
+ * Arguments are encoded and results decoded with the ABI; calls that revert fail with the revert
+ * reason: the Error(string) message, the panic, or the custom error of the ABI with its arguments.
+ * Note: Address, value and fee tier validation is handled at wallet level
+ */
+export class ContractClient {
+  constructor(
+    private readonly connectionManager: ConnectionManager,
+    private readonly nonceManager: NonceManager,
+    private readonly feeManager: FeeManager,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * Read a contract function with eth_call
+   * @param params - Contract, function and arguments
+   * @param from - Address the call is made from, the msg.sender of the function
+   * @returns The decoded result: the value of a single output, or a Result of several outputs
+   * @throws {GeneralWalletError} When the call reverts or the contract returns no data
+   */
+  @EthereumRetry()
+  async read(params: EthereumContractReadParams, from?: string): Promise<unknown> {
+    const { contract, fragment, call } = encodeContractCall(params);
+
+    let data: string;
+    try {
+      data = await this.connectionManager.getProvider().call({ ...call, from });
+    } catch (error) {
+      throw toRevertError(error, params.method, contract);
+    }
+
+    if (data === '0x' && fragment.outputs.length > 0) {
+      throw new GeneralWalletError(
+        HibitIdSdkErrorCode.UNKNOWN_ERROR,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Contract call ${params.method} returned no data, is ${params.to} a contract?`,
+        { method: params.method, to: params.to }
+      );
+    }
+    const result = contract.decodeFunctionResult(fragment, data);
+    return result.length === 1 ? result[0] : result;
+  }
+
+  /**
+   * Build the call of a contract function, as executed by a smart account
+   * @param params - Contract, function, arguments and value
+   * @throws {ArgumentError} When the ABI has no such function or the arguments do not match it
+   */
+  buildCall(params: EthereumContractReadParams): EthereumCall {
+    return encodeContractCall(params).call;
+  }
+
+  /**
+   * Build an unsigned transaction calling a contract function
+   * Gas estimation executes the call, so calls that would revert fail before anything is signed.
+   * Note: Transaction building should NOT have retry decorators per requirements
+   * @param params - Contract, function, arguments, value and fee tier
+   * @throws {GeneralWalletError} When the call reverts
+   */
+  async buildTransaction(params: EthereumContractCallParams): Promise<EthereumUnsignedTransactionData> {
+    const { contract, call } = encodeContractCall(params);
+    return this.populateTransaction(call, params.method, params.feeTier, contract);
+  }
+
+  /**
+   * Build an unsigned transaction of an already encoded call, such as one requested by a dapp
+   * Reverts are reported by function selector; custom errors cannot be decoded without the ABI.
+   * Note: Transaction building should NOT have retry decorators per requirements
+   * @param call - Recipient, value and call data
+   * @param feeTier - Fee tier of the transaction (default: normal)
+   * @throws {GeneralWalletError} When the call reverts
+   */
+  async buildRawTransaction(call: EthereumCall, feeTier?: EthereumFeeTier): Promise<EthereumUnsignedTransactionData> {
+    const selector = call.data.length >= 10 ? call.data.slice(0, 10) : 'fallback';
+    return this.populateTransaction(call, selector, feeTier);
+  }
+
+  /**
+   * Reserve a nonce and populate the gas and fees of a call
+   * @param method - Name of the call in logs and revert errors
+   * @param contract - Interface of the contract, to decode custom errors
+   * @private
+   */
+  private async populateTransaction(
+    call: EthereumCall,
+    method: string,
+    feeTier?: EthereumFeeTier,
+    contract?: Interface
+  ): Promise<EthereumUnsignedTransactionData> {
+    // Reserve the next nonce so concurrent transactions do not share it
+    const nonce = await this.nonceManager.reserve();
+    const provider = this.connectionManager.getProvider();
+    const wallet = this.connectionManager.getConnectedWallet(provider);
+
+    let populated: TransactionLike<string>;
+    try {
+      const fees = await this.feeManager.getTransactionFees(feeTier);
+      populated = await wallet.populateTransaction({ ...call, nonce, ...fees });
+    } catch (error) {
+      this.nonceManager.release(nonce);
+      throw toRevertError(error, method, contract);
+    }
+
+    this.logger.debug('Contract call built', {
+      context: 'ContractClient.populateTransaction',
+      data: { to: call.to, method, value: call.value.toString(), nonce }
+    });
+
+    // An unsigned transaction cannot carry a sender, it is recovered from the signature
+    const transaction = Transaction.from({ ...populated, from: undefined });
+    return { serializedTransaction: transaction.unsignedSerialized };
+  }
+}
+
+/**
+ * Encode the call of a contract function from its ABI
+ * @throws {ArgumentError} When the ABI has no such function, the arguments do not match it, or
+ * value is sent to a function that is not payable
+ */
+function encodeContractCall(params: EthereumContractReadParams): {
+  contract: Interface;
+  fragment: FunctionFragment;
+  call: EthereumCall;
+} {
+  const { abi, method, args = [], value } = params;
+  const contract = Interface.from(abi);
+
+  let fragment: FunctionFragment | null;
+  let data: string;
+  try {
+    fragment = contract.getFunction(method);
+    data = fragment ? contract.encodeFunctionData(fragment, args) : '0x';
+  } catch (error) {
+    // Ambiguous overloads and arguments that do not match the function's inputs
+    const detail = isError(error, 'INVALID_ARGUMENT') ? error.shortMessage : String(error);
+    throw new ArgumentError(
+      HibitIdSdkErrorCode.INVALID_ARGUMENT,
+      `${CHAIN_CONFIG.CHAIN_NAME}: Cannot encode contract call ${method}: ${detail}`,
+      { argumentName: 'args', providedValue: method }
+    );
+  }
+  if (!fragment) {
+    throw new ArgumentError(
+      HibitIdSdkErrorCode.INVALID_ARGUMENT,
+      `${CHAIN_CONFIG.CHAIN_NAME}: Contract ABI has no function ${method}`,
+      { argumentName: 'method', providedValue: method }
+    );
+  }
+
+  const wei = value ? BigInt(value.toFixed()) : 0n;
+  if (wei > 0n && !fragment.payable) {
+    throw new ArgumentError(
+      HibitIdSdkErrorCode.INVALID_ARGUMENT,
+      `${CHAIN_CONFIG.CHAIN_NAME}: Contract function ${method} is not payable`,
+      { argumentName: 'value', providedValue: value!.toString() }
+    );
+  }
+
+  return { contract, fragment, call: { to: params.to, value: wei, data } };
+}
+
+/**
+ * Turn a reverted contract call into an error with its revert reason
+ * Errors other than reverts are returned unchanged, so network errors still fail over.
+ * @param error - Error of eth_call or gas estimation
+ * @param method - Called function
+ * @param contract - Interface of the contract, to decode custom errors
+ */
+function toRevertError(error: unknown, method: string, contract?: Interface): unknown {
+  if (!isError(error, 'CALL_EXCEPTION')) {
+    return error;
+  }
+  const reason = getRevertReason(error.reason, error.data, contract) ?? error.shortMessage;
+  return new GeneralWalletError(
+    HibitIdSdkErrorCode.UNKNOWN_ERROR,
+    `${CHAIN_CONFIG.CHAIN_NAME}: Contract call ${method} reverted: ${reason}`,
+    { method, revertReason: reason, revertData: error.data ?? undefined },
+    error
+  );
+}
+
+/**
+ * Revert reason of a call: the Error(string) message or panic decoded by ethers, else the
+ * custom error of the ABI, e.g. InsufficientBalance(100, 250)
+ */
+function getRevertReason(reason: string | null, data: string | null, contract?: Interface): string | undefined {
+  if (reason) {
+    return reason;
+  }
+  if (!contract || !data || data === '0x') {
+    return undefined;
+  }
+  try {
+    const customError = contract.parseError(data);
+    return customError ? `${customError.name}(${customError.args.map(String).join(', ')})` : undefined;
+  } catch {
+    // Revert data that does not decode as the matching error
+    return undefined;
+  }
+}
@@ -0,0 +1,121 @@
+import {
+  AbstractSigner,
+  Provider,
+  Signature,
+  SigningKey,
+  Transaction,
+  TransactionLike,
+  TransactionRequest,
+  TypedDataDomain,
+  TypedDataEncoder,
+  TypedDataField,
+  assertArgument,
+  computeAddress,
+  copyRequest,
+  getAddress,
+  getBytes,
+  hashMessage,
+  hexlify,
+  resolveAddress,
+  resolveProperties
+} from 'ethers';
+import { ISigner } from '@delandlabs/coin-base';
+
+/**
+ * Ethers signer backed by an ISigner.
+ *
+ * Mirrors ethers' Wallet but never holds the private key: every signature is
+ * requested from the underlying signer as a digest signature.
+ */
+export class EthereumSigner extends AbstractSigner {
+  /**
+   * @param signer - The secp256k1 signer holding the key
+   * @param address - Checksummed address of the signer's key
+   * @param publicKey - Uncompressed public key of the signer's key (0x-prefixed)
+   * @param provider - Provider to connect to
+   */
+  private constructor(
+    private readonly signer: ISigner,
+    public readonly address: string,
+    public readonly publicKey: string,
+    provider?: null | Provider
+  ) {
+    super(provider);
+  }
+
+  /**
+   * Create an ethers signer for an ISigner
+   * @param signer - The secp256k1 signer holding the key
+   */
+  static async create(signer: ISigner): Promise<EthereumSigner> {
+    const publicKey = SigningKey.computePublicKey(await signer.getPublicKey(), false);
+    return new EthereumSigner(signer, computeAddress(publicKey), publicKey);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: null | Provider): EthereumSigner {
+    return new EthereumSigner(this.signer, this.address, this.publicKey, provider);
+  }
+
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    tx = copyRequest(tx);
+
+    // Replace any Addressable or ENS name with an address
+    const { to, from } = await resolveProperties({
+      to: tx.to ? resolveAddress(tx.to, this) : undefined,
+      from: tx.from ? resolveAddress(tx.from, this) : undefined
+    });
+    if (to != null) {
+      tx.to = to;
+    }
+    if (from != null) {
+      tx.from = from;
+    }
+    if (tx.from != null) {
+      assertArgument(
+        getAddress(tx.from as string) === this.address,
+        'transaction from address mismatch',
+        'tx.from',
+        tx.from
+      );
+      delete tx.from;
+    }
+
+    const transaction = Transaction.from(tx as TransactionLike<string>);
+    transaction.signature = await this.signDigest(transaction.unsignedHash);
+    return transaction.serialized;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return (await this.signDigest(hashMessage(message))).serialized;
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, Array<TypedDataField>>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    // Resolve any ENS names used in the typed data
+    const populated = await TypedDataEncoder.resolveNames(domain, types, value, (name: string) =>
+      resolveAddress(name, this)
+    );
+    return (await this.signDigest(TypedDataEncoder.hash(populated.domain, types, populated.value))).serialized;
+  }
+
+  /**
+   * Sign a 32-byte digest
+   * @param digest - Hex-encoded digest
+   * @returns The signature with an Ethereum recovery parameter
+   */
+  async signDigest(digest: string): Promise<Signature> {
+    const signature = await this.signer.signDigest(getBytes(digest));
+    return Signature.from({
+      r: hexlify(signature.slice(0, 32)),
+      s: hexlify(signature.slice(32, 64)),
+      v: 27 + signature[64]
+    });
+  }
+}
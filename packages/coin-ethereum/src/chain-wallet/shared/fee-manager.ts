@@ -0,0 +1,260 @@
+import BigNumber from 'bignumber.js';
+import { Contract, Transaction, TransactionRequest, toQuantity } from 'ethers';
+import { ArgumentError, HibitIdSdkErrorCode, ILogger, Memoize } from '@delandlabs/coin-base';
+import { CACHE_CONFIG, CHAIN_CONFIG, DEFAULT_NETWORK_PROFILE, FEE_CONFIG, PROTOCOL_CONFIG } from '../config';
+import {
+  EthereumFeeEstimate,
+  EthereumFeeTier,
+  EthereumFeeTierEstimate,
+  EthereumFeeTierPrices,
+  EthereumFeeTiers,
+  EthereumNetworkProfile
+} from '../types';
+import { gasPriceOracleAbi } from '../utils';
+import { ConnectionManager } from './connection-manager';
+
+const FEE_TIERS: readonly EthereumFeeTier[] = ['slow', 'normal', 'fast'];
+
+/**
+ * Assert that a value is a known fee tier
+ * @param feeTier - Fee tier to check
+ * @throws {ArgumentError} When the fee tier is unknown
+ */
+export function assertValidFeeTier(feeTier: string): asserts feeTier is EthereumFeeTier {
+  if (!FEE_TIERS.includes(feeTier as EthereumFeeTier)) {
+    throw new ArgumentError(
+      HibitIdSdkErrorCode.INVALID_ARGUMENT,
+      `${CHAIN_CONFIG.CHAIN_NAME}: Invalid fee tier ${feeTier}`,
+      { argumentName: 'feeTier', expectedType: FEE_TIERS.join(' | '), providedValue: feeTier }
+    );
+  }
+}
+
+/**
+ * Response of eth_feeHistory
+ */
+interface FeeHistory {
+  /** Base fees of the requested blocks and of the next block, hex-encoded */
+  baseFeePerGas?: string[];
+  /** Priority fees paid in each block at the requested percentiles, hex-encoded */
+  reward?: string[][];
+}
+
+/**
+ * Call that a fee estimate is for, as far as its L1 data fee is concerned
+ */
+interface FeeEstimateRequest {
+  to: string;
+  value?: bigint;
+  data?: string;
+}
+
+/**
+ * Prices transactions in slow, normal and fast fee tiers.
+ *
+ * On EIP-1559 networks the tiers pay the 10th, 50th and 90th percentile of the priority fees
+ * paid in recent blocks (eth_feeHistory), and allow the base fee to double before the
+ * transaction stops being includable. Networks without EIP-1559, or providers without
+ * eth_feeHistory, fall back to the provider's fee data for every tier.
+ *
+ * The network profile adapts this to the network: Arbitrum ignores priority fees, some networks
+ * require a minimum priority fee, and OP-stack networks add an L1 data fee to every estimate.
+ */
+export class FeeManager {
+  constructor(
+    private readonly connectionManager: ConnectionManager,
+    private readonly logger: ILogger,
+    private readonly networkProfile: EthereumNetworkProfile = DEFAULT_NETWORK_PROFILE
+  ) {}
+
+  /**
+   * Get the gas prices of all fee tiers, cached per network
+   * @returns The gas prices by tier
+   */
+  @Memoize({
+    ttl: CACHE_CONFIG.TTL.GAS_PRICE,
+    max: CACHE_CONFIG.SIZE.GAS_PRICE,
+    key: function (this: FeeManager) {
+      const provider = this.connectionManager.getProvider();
+      const chainId = provider._network?.chainId?.toString() || 'default';
+      return `feeTiers:${chainId}`;
+    }
+  })
+  public async getFeeTiers(): Promise<EthereumFeeTiers> {
+    if (PROTOCOL_CONFIG.EIP_1559_ENABLED && this.networkProfile.eip1559) {
+      const tiers = await this.getFeeHistoryTiers();
+      if (tiers) {
+        return tiers;
+      }
+    }
+    return this.getFeeDataTiers();
+  }
+
+  /**
+   * Get the fee fields of a transaction paying the given tier
+   * @param feeTier - Fee tier to pay (default: normal)
+   * @returns Transaction type and fee fields to populate the transaction with
+   * @throws {ArgumentError} When the fee tier is unknown
+   */
+  public async getTransactionFees(feeTier: EthereumFeeTier = FEE_CONFIG.DEFAULT_TIER): Promise<TransactionRequest> {
+    assertValidFeeTier(feeTier);
+
+    const { eip1559, tiers } = await this.getFeeTiers();
+    const prices = tiers[feeTier];
+    return eip1559
+      ? { type: 2, maxFeePerGas: prices.maxFeePerGas, maxPriorityFeePerGas: prices.maxPriorityFeePerGas }
+      : { type: 0, gasPrice: prices.maxFeePerGas };
+  }
+
+  /**
+   * Estimate the fee of a transaction in every tier
+   * @param gasLimit - Estimated gas limit of the transaction
+   * @param request - Recipient, value and data of the transaction, to quote the L1 data fee on OP-stack networks
+   * @returns The fee estimate by tier
+   */
+  public async estimateFees(gasLimit: bigint, request?: FeeEstimateRequest): Promise<EthereumFeeEstimate> {
+    const { eip1559, baseFeePerGas, tiers } = await this.getFeeTiers();
+    const l1DataFee =
+      this.networkProfile.feeModel === 'op-stack' && request
+        ? await this.getL1DataFee(request, gasLimit, tiers.normal, eip1559)
+        : 0n;
+
+    const estimateTier = (prices: EthereumFeeTierPrices): EthereumFeeTierEstimate => {
+      // The transaction pays the base fee plus the priority fee, capped at the maximum fee
+      const expectedPrice =
+        baseFeePerGas === undefined ? prices.maxFeePerGas : baseFeePerGas + prices.maxPriorityFeePerGas;
+      const price = expectedPrice < prices.maxFeePerGas ? expectedPrice : prices.maxFeePerGas;
+      return {
+        ...prices,
+        fee: new BigNumber((gasLimit * price + l1DataFee).toString()),
+        maxFee: new BigNumber((gasLimit * prices.maxFeePerGas + l1DataFee).toString())
+      };
+    };
+
+    return {
+      eip1559,
+      gasLimit,
+      baseFeePerGas,
+      l1DataFee: this.networkProfile.feeModel === 'op-stack' ? new BigNumber(l1DataFee.toString()) : undefined,
+      tiers: {
+        slow: estimateTier(tiers.slow),
+        normal: estimateTier(tiers.normal),
+        fast: estimateTier(tiers.fast)
+      }
+    };
+  }
+
+  /**
+   * Derive the tiers from the priority fees paid in recent blocks
+   * @returns The tiers, or undefined when the network has no base fee or no fee history
+   * @private
+   */
+  private async getFeeHistoryTiers(): Promise<EthereumFeeTiers | undefined> {
+    const provider = this.connectionManager.getProvider();
+    const percentiles = FEE_TIERS.map((tier) => FEE_CONFIG.REWARD_PERCENTILES[tier]);
+
+    let history: FeeHistory;
+    try {
+      history = await provider.send('eth_feeHistory', [toQuantity(FEE_CONFIG.HISTORY_BLOCKS), 'latest', percentiles]);
+    } catch (error) {
+      this.logger.debug('Fee history unavailable, using provider fee data', {
+        context: 'FeeManager.getFeeHistoryTiers',
+        data: { error: error instanceof Error ? error.message : String(error) }
+      });
+      return undefined;
+    }
+
+    // The last entry is the base fee of the next block
+    const baseFees = history.baseFeePerGas ?? [];
+    const nextBaseFee = baseFees.length > 0 ? BigInt(baseFees[baseFees.length - 1]) : 0n;
+    if (nextBaseFee === 0n) {
+      return undefined;
+    }
+
+    const getTierPrices = (percentileIndex: number): EthereumFeeTierPrices => {
+      // Empty blocks report no priority fee and say nothing about the fee market
+      const rewards = (history.reward ?? [])
+        .map((blockRewards) => BigInt(blockRewards[percentileIndex] ?? 0))
+        .filter((reward) => reward > 0n)
+        .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+      const priorityFee = this.applyPriorityFeeRules(
+        rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : FEE_CONFIG.DEFAULT_PRIORITY_FEE
+      );
+      return {
+        maxFeePerGas: nextBaseFee * FEE_CONFIG.BASE_FEE_MULTIPLIER + priorityFee,
+        maxPriorityFeePerGas: priorityFee
+      };
+    };
+
+    return {
+      eip1559: true,
+      baseFeePerGas: nextBaseFee,
+      tiers: {
+        slow: getTierPrices(0),
+        normal: getTierPrices(1),
+        fast: getTierPrices(2)
+      }
+    };
+  }
+
+  /**
+   * Use the provider's fee data for every tier
+   * @private
+   */
+  private async getFeeDataTiers(): Promise<EthereumFeeTiers> {
+    const feeData = await this.connectionManager.getProvider().getFeeData();
+
+    if (
+      PROTOCOL_CONFIG.EIP_1559_ENABLED &&
+      this.networkProfile.eip1559 &&
+      feeData.maxFeePerGas != null &&
+      feeData.maxPriorityFeePerGas != null
+    ) {
+      const priorityFee = this.applyPriorityFeeRules(feeData.maxPriorityFeePerGas);
+      const prices = {
+        maxFeePerGas: feeData.maxFeePerGas - feeData.maxPriorityFeePerGas + priorityFee,
+        maxPriorityFeePerGas: priorityFee
+      };
+      return { eip1559: true, tiers: { slow: prices, normal: prices, fast: prices } };
+    }
+
+    const gasPrice = feeData.gasPrice ?? 0n;
+    const prices = { maxFeePerGas: gasPrice, maxPriorityFeePerGas: gasPrice };
+    return { eip1559: false, tiers: { slow: prices, normal: prices, fast: prices } };
+  }
+
+  /**
+   * Adjust a priority fee to the rules of the network
+   * Arbitrum does not pay priority fees, and some networks drop transactions below a minimum.
+   * @private
+   */
+  private applyPriorityFeeRules(priorityFee: bigint): bigint {
+    if (this.networkProfile.feeModel === 'arbitrum') {
+      return 0n;
+    }
+    const minPriorityFee = this.networkProfile.minPriorityFeePerGas ?? 0n;
+    return priorityFee > minPriorityFee ? priorityFee : minPriorityFee;
+  }
+
+  /**
+   * Quote the L1 data fee of a transaction from the OP-stack GasPriceOracle predeploy
+   * The fee depends on the size of the transaction, so the quote is for the transaction with
+   * the given gas limit and prices at nonce 0; actual nonces change its size by a few bytes.
+   * @private
+   */
+  private async getL1DataFee(
+    request: FeeEstimateRequest,
+    gasLimit: bigint,
+    prices: EthereumFeeTierPrices,
+    eip1559: boolean
+  ): Promise<bigint> {
+    const provider = this.connectionManager.getProvider();
+    const fees = eip1559
+      ? { type: 2, maxFeePerGas: prices.maxFeePerGas, maxPriorityFeePerGas: prices.maxPriorityFeePerGas }
+      : { type: 0, gasPrice: prices.maxFeePerGas };
+    const tx = Transaction.from({ ...fees, ...request, chainId: provider._network?.chainId, nonce: 0, gasLimit });
+
+    const oracle = new Contract(PROTOCOL_CONFIG.OP_STACK_GAS_PRICE_ORACLE, gasPriceOracleAbi, provider);
+    return oracle.getL1Fee(tx.unsignedSerialized);
+  }
+}
@@ -5,3 +5,10 @@
  * that is shared across different asset type handlers.
  */
 export { ConnectionManager } from './connection-manager';
+export { EthereumSigner } from './ethereum-signer';
+export { NonceManager } from './nonce-manager';
+export { FeeManager, assertValidFeeTier } from './fee-manager';
+export { BundlerClient, getUserOperationFailureReason } from './bundler-client';
+export { SmartAccount, getUserOperationHash } from './smart-account';
+export { ContractClient } from './contract-client';
+export { MulticallClient } from './multicall-client';
@@ -0,0 +1,61 @@
+import { Contract } from 'ethers';
+import { ILogger, chunkItems } from '@delandlabs/coin-base';
+import { EthereumRetry, MULTICALL_CONFIG } from '../config';
+import { EthereumMulticallCall, EthereumMulticallResult } from '../types';
+import { multicall3Abi } from '../utils';
+import { ConnectionManager } from './connection-manager';
+
+/**
+ * Batches read-only calls into Multicall3 aggregate3 requests.
+ *
+ * Each call may fail on its own without failing the batch, so one bad token does not hide the
+ * others. Networks without Multicall3 are detected once; callers fall back to separate calls.
+ */
+export class MulticallClient {
+  /** Whether Multicall3 is deployed on the network, once known */
+  private deployed?: boolean;
+
+  constructor(
+    private readonly connectionManager: ConnectionManager,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * Whether Multicall3 is deployed on the network
+   */
+  @EthereumRetry()
+  async isAvailable(): Promise<boolean> {
+    if (this.deployed === undefined) {
+      const code = await this.connectionManager.getProvider().getCode(MULTICALL_CONFIG.ADDRESS);
+      this.deployed = code !== '0x';
+      if (!this.deployed) {
+        this.logger.debug('Multicall3 is not deployed, batched reads fall back to separate calls', {
+          context: 'MulticallClient.isAvailable',
+          data: { address: MULTICALL_CONFIG.ADDRESS }
+        });
+      }
+    }
+    return this.deployed;
+  }
+
+  /**
+   * Execute calls in aggregate3 batches of MULTICALL_CONFIG.BATCH_SIZE
+   * @param calls - Read-only calls; Multicall3 itself can be called, e.g. getEthBalance
+   * @returns The outcome of every call, in order
+   */
+  @EthereumRetry()
+  async aggregate(calls: EthereumMulticallCall[]): Promise<EthereumMulticallResult[]> {
+    const multicall = new Contract(MULTICALL_CONFIG.ADDRESS, multicall3Abi, this.connectionManager.getProvider());
+
+    const results = await Promise.all(
+      chunkItems(calls, MULTICALL_CONFIG.BATCH_SIZE).map(
+        (batch) =>
+          multicall.aggregate3.staticCall(
+            batch.map((call) => ({ target: call.target, allowFailure: true, callData: call.callData }))
+          ) as Promise<Array<{ success: boolean; returnData: string }>>
+      )
+    );
+
+    return results.flat().map(({ success, returnData }) => ({ success, returnData }));
+  }
+}
@@ -0,0 +1,172 @@
+import { ArgumentError, HibitIdSdkErrorCode, ILogger } from '@delandlabs/coin-base';
+import { CHAIN_CONFIG, NONCE_CONFIG } from '../config';
+import { ConnectionManager } from './connection-manager';
+
+/**
+ * Hands out the nonces of the wallet's transactions.
+ *
+ * Nonces are reserved locally when a transaction is built, so transactions built before the
+ * previous ones reached the node's mempool still get consecutive nonces. Every reservation is
+ * reconciled against the account's transaction count at the `pending` block tag, which lets the
+ * manager catch up with transactions sent from elsewhere.
+ *
+ * Features:
+ * - Reservations are serialized, so concurrent transfers never share a nonce
+ * - Nonces of transactions that were never broadcast are handed out again
+ * - Nonces of pending transactions can be reused to replace or cancel them
+ */
+export class NonceManager {
+  /** Next new nonce to hand out, undefined until the first reservation or broadcast */
+  private nextNonce?: number;
+  /** Reserved nonces whose transactions were not broadcast yet, with the reservation time */
+  private readonly reserved = new Map<number, number>();
+  /** Nonces given back below nextNonce, handed out again before new ones */
+  private readonly released = new Set<number>();
+  /** Hashes of the transactions broadcast by the wallet, by nonce */
+  private readonly broadcastHashes = new Map<number, string>();
+  /** Tail of the reservation queue */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly connectionManager: ConnectionManager,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * Reserve the nonce of a new transaction
+   * The nonce must be given back with release if the transaction is not broadcast.
+   * @returns The reserved nonce
+   */
+  public async reserve(): Promise<number> {
+    const reservation = this.queue.then(() => this.reserveNext());
+    // A failed reservation must not block the ones queued after it
+    this.queue = reservation.catch(() => undefined);
+    return reservation;
+  }
+
+  /**
+   * Give back a reserved nonce whose transaction will not be broadcast
+   * Nonces that are not reserved, such as those of replacements, are ignored.
+   * @param nonce - The reserved nonce
+   */
+  public release(nonce: number): void {
+    if (!this.reserved.delete(nonce)) {
+      return;
+    }
+    this.released.add(nonce);
+
+    // Hand out the highest nonces as new ones again so they leave no gap
+    while (this.nextNonce !== undefined && this.released.delete(this.nextNonce - 1)) {
+      this.nextNonce--;
+    }
+  }
+
+  /**
+   * Record that a transaction with the given nonce was broadcast
+   * @param nonce - Nonce of the transaction
+   * @param txHash - Hash of the transaction
+   */
+  public markBroadcast(nonce: number, txHash: string): void {
+    this.reserved.delete(nonce);
+    this.released.delete(nonce);
+    this.broadcastHashes.set(nonce, txHash);
+    this.nextNonce = Math.max(this.nextNonce ?? 0, nonce + 1);
+  }
+
+  /**
+   * Forget the locally tracked nonces, e.g. after a node rejected a nonce as too low
+   * Nonces of transactions that are still being built keep their reservation.
+   */
+  public resync(): void {
+    this.nextNonce = this.reserved.size > 0 ? Math.max(...this.reserved.keys()) + 1 : undefined;
+    this.released.clear();
+    this.logger.debug('Nonces resynchronized', {
+      context: 'NonceManager.resync',
+      data: { nextNonce: this.nextNonce }
+    });
+  }
+
+  /**
+   * Hash of the last transaction the wallet broadcast with the given nonce
+   * @param nonce - Nonce of the transaction
+   * @returns The transaction hash, or undefined if the wallet did not broadcast it
+   */
+  public getBroadcastHash(nonce: number): string | undefined {
+    return this.broadcastHashes.get(nonce);
+  }
+
+  /**
+   * Check that a transaction with the given nonce is still pending and can be replaced
+   * @param nonce - Nonce of the transaction to replace
+   * @throws {ArgumentError} When the nonce is already mined or not used by any transaction
+   */
+  public async assertReplaceable(nonce: number): Promise<void> {
+    const wallet = this.connectionManager.getConnectedWallet(this.connectionManager.getProvider());
+    const [latestNonce, pendingNonce] = await Promise.all([wallet.getNonce('latest'), wallet.getNonce('pending')]);
+
+    if (nonce < latestNonce) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Transaction with nonce ${nonce} is already mined`,
+        { argumentName: 'nonce', providedValue: nonce.toString() }
+      );
+    }
+    if (nonce >= Math.max(pendingNonce, this.nextNonce ?? 0)) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: No pending transaction with nonce ${nonce}`,
+        { argumentName: 'nonce', providedValue: nonce.toString() }
+      );
+    }
+  }
+
+  /**
+   * Clean up tracked nonces
+   * Called when the wallet is being destroyed
+   */
+  public cleanup(): void {
+    this.nextNonce = undefined;
+    this.reserved.clear();
+    this.released.clear();
+    this.broadcastHashes.clear();
+  }
+
+  /**
+   * Reserve the lowest free nonce at or above the account's pending transaction count
+   * @private
+   */
+  private async reserveNext(): Promise<number> {
+    const wallet = this.connectionManager.getConnectedWallet(this.connectionManager.getProvider());
+    const pendingNonce = await wallet.getNonce('pending');
+    const now = Date.now();
+
+    // Transactions built but never broadcast would otherwise leave a gap that blocks later ones
+    for (const [nonce, reservedAt] of this.reserved) {
+      if (now - reservedAt >= NONCE_CONFIG.RESERVATION_TTL) {
+        this.release(nonce);
+      }
+    }
+    // Nonces the node has already seen cannot be used again
+    for (const nonce of this.released) {
+      if (nonce < pendingNonce) {
+        this.released.delete(nonce);
+      }
+    }
+
+    let nonce: number;
+    if (this.released.size > 0) {
+      nonce = Math.min(...this.released);
+      this.released.delete(nonce);
+    } else {
+      nonce = Math.max(pendingNonce, this.nextNonce ?? 0);
+      this.nextNonce = nonce + 1;
+    }
+    this.reserved.set(nonce, now);
+
+    this.logger.debug('Nonce reserved', {
+      context: 'NonceManager.reserve',
+      data: { nonce, pendingNonce }
+    });
+    return nonce;
+  }
+}
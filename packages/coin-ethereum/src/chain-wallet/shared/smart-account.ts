@@ -0,0 +1,290 @@
+import { AbiCoder, Contract, Interface, concat, keccak256, toBeHex } from 'ethers';
+import { ILogger } from '@delandlabs/coin-base';
+import { FEE_CONFIG, SMART_ACCOUNT_CONFIG } from '../config';
+import {
+  EthereumCall,
+  EthereumFeeEstimate,
+  EthereumFeeTier,
+  EthereumPaymaster,
+  EthereumSmartAccountConfig,
+  EthereumUserOperation,
+  EthereumUserOperationReceipt
+} from '../types';
+import { entryPointAbi, simpleAccountAbi, simpleAccountFactoryAbi } from '../utils';
+import { BundlerClient } from './bundler-client';
+import { ConnectionManager } from './connection-manager';
+import { FeeManager, assertValidFeeTier } from './fee-manager';
+
+const simpleAccountInterface = new Interface(simpleAccountAbi);
+const simpleAccountFactoryInterface = new Interface(simpleAccountFactoryAbi);
+
+/**
+ * ERC-4337 SimpleAccount owned by the wallet key.
+ *
+ * The account address is derived counterfactually from the owner and salt through the factory,
+ * so it can receive funds before it is deployed; the first user operation deploys it. Operations
+ * are priced in the wallet's fee tiers, estimated and submitted through the bundler, and
+ * optionally sponsored by a paymaster.
+ */
+export class SmartAccount {
+  private readonly bundler: BundlerClient;
+  private readonly entryPoint: string;
+  private readonly factory: string;
+  private readonly salt: bigint;
+  private readonly paymaster?: EthereumPaymaster;
+  /** Account addresses by owner; they never change for a factory and salt */
+  private readonly addresses = new Map<string, string>();
+
+  constructor(
+    config: EthereumSmartAccountConfig,
+    private readonly chainId: bigint,
+    private readonly connectionManager: ConnectionManager,
+    private readonly feeManager: FeeManager,
+    private readonly logger: ILogger
+  ) {
+    this.bundler = new BundlerClient(config.bundlerUrl, chainId, logger);
+    this.entryPoint = config.entryPoint ?? SMART_ACCOUNT_CONFIG.ENTRY_POINT;
+    this.factory = config.factory ?? SMART_ACCOUNT_CONFIG.SIMPLE_ACCOUNT_FACTORY;
+    this.salt = config.salt ?? 0n;
+    this.paymaster = config.paymaster;
+  }
+
+  /**
+   * Get the counterfactual address of the account owned by the given key
+   * @param owner - Address of the owner key
+   * @returns The account address, whether or not the account is deployed
+   */
+  public async getAddress(owner: string): Promise<string> {
+    let address = this.addresses.get(owner);
+    if (!address) {
+      const factory = new Contract(this.factory, simpleAccountFactoryAbi, this.connectionManager.getProvider());
+      // getFunction, as Contract.getAddress returns the factory's own address
+      address = (await factory.getFunction('getAddress')(owner, this.salt)) as string;
+      this.addresses.set(owner, address);
+    }
+    return address;
+  }
+
+  /**
+   * Build a user operation executing the calls, with its gas estimated and paymaster data final
+   * The operation is not signed yet, see getUserOperationHash.
+   * @param owner - Address of the owner key
+   * @param calls - Calls to execute, in order; several calls are executed in one batch
+   * @param feeTier - Fee tier to pay (default: normal)
+   */
+  public async buildUserOperation(
+    owner: string,
+    calls: EthereumCall[],
+    feeTier: EthereumFeeTier = FEE_CONFIG.DEFAULT_TIER
+  ): Promise<EthereumUserOperation> {
+    const userOperation = await this.prepareUserOperation(owner, calls, feeTier);
+    if (!this.paymaster) {
+      return userOperation;
+    }
+    const paymasterData = await this.paymaster.getPaymasterData(userOperation, this.entryPoint, this.chainId);
+    return { ...userOperation, ...paymasterData };
+  }
+
+  /**
+   * Hash of a user operation as signed by the owner (EntryPoint v0.7 getUserOpHash)
+   */
+  public getUserOperationHash(userOperation: EthereumUserOperation): string {
+    return getUserOperationHash(userOperation, this.entryPoint, this.chainId);
+  }
+
+  /**
+   * Submit a signed user operation to the bundler
+   * @returns The user operation hash
+   */
+  public async sendUserOperation(userOperation: EthereumUserOperation): Promise<string> {
+    return this.bundler.sendUserOperation(userOperation, this.entryPoint);
+  }
+
+  /**
+   * Estimate the fee of a user operation executing the calls in every fee tier
+   * The bundler's preVerificationGas already covers L1 data costs on L2s. Sponsored operations
+   * are free for the account, the estimate is what the paymaster pays.
+   * @param owner - Address of the owner key
+   * @param calls - Calls to execute
+   */
+  public async estimateFees(owner: string, calls: EthereumCall[]): Promise<EthereumFeeEstimate> {
+    const userOperation = await this.prepareUserOperation(owner, calls, FEE_CONFIG.DEFAULT_TIER);
+    const gasLimit =
+      userOperation.callGasLimit +
+      userOperation.verificationGasLimit +
+      userOperation.preVerificationGas +
+      (userOperation.paymasterVerificationGasLimit ?? 0n) +
+      (userOperation.paymasterPostOpGasLimit ?? 0n);
+    return this.feeManager.estimateFees(gasLimit);
+  }
+
+  /**
+   * Whether a paymaster pays the fees of the account's operations
+   */
+  public isSponsored(): boolean {
+    return this.paymaster !== undefined;
+  }
+
+  /**
+   * Whether the hash is of a user operation the bundler knows, rather than of a transaction
+   */
+  public async isUserOperation(hash: string): Promise<boolean> {
+    return this.bundler.hasUserOperation(hash);
+  }
+
+  /**
+   * Wait until a user operation is included in a block
+   * @param userOpHash - Hash of the user operation
+   * @param timeoutMs - Time to wait for the inclusion
+   * @returns The receipt of the operation, or null when it was not included in time
+   */
+  public async waitForUserOperationReceipt(
+    userOpHash: string,
+    timeoutMs: number
+  ): Promise<EthereumUserOperationReceipt | null> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const receipt = await this.bundler.getUserOperationReceipt(userOpHash);
+      if (receipt || Date.now() >= deadline) {
+        return receipt;
+      }
+      const delay = Math.min(SMART_ACCOUNT_CONFIG.RECEIPT_POLL_INTERVAL, deadline - Date.now());
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Clean up the bundler connection and cached addresses
+   * Called when the wallet is being destroyed
+   */
+  public cleanup(): void {
+    this.bundler.cleanup();
+    this.addresses.clear();
+  }
+
+  /**
+   * Build a user operation with a dummy signature and its gas estimated by the bundler
+   * A paymaster provides stub data for the estimation.
+   * @private
+   */
+  private async prepareUserOperation(
+    owner: string,
+    calls: EthereumCall[],
+    feeTier: EthereumFeeTier
+  ): Promise<EthereumUserOperation> {
+    assertValidFeeTier(feeTier);
+
+    const provider = this.connectionManager.getProvider();
+    const sender = await this.getAddress(owner);
+    const entryPoint = new Contract(this.entryPoint, entryPointAbi, provider);
+    const [code, nonce, feeTiers] = await Promise.all([
+      provider.getCode(sender),
+      entryPoint.getNonce(sender, 0) as Promise<bigint>,
+      this.feeManager.getFeeTiers()
+    ]);
+    // Networks without EIP-1559 report their gas price as both prices of a tier
+    const prices = feeTiers.tiers[feeTier];
+
+    let userOperation: EthereumUserOperation = {
+      sender,
+      nonce,
+      // The first operation deploys the account
+      ...(code === '0x'
+        ? {
+            factory: this.factory,
+            factoryData: simpleAccountFactoryInterface.encodeFunctionData('createAccount', [owner, this.salt])
+          }
+        : {}),
+      callData: encodeCalls(calls),
+      callGasLimit: 0n,
+      verificationGasLimit: 0n,
+      preVerificationGas: 0n,
+      maxFeePerGas: prices.maxFeePerGas,
+      maxPriorityFeePerGas: prices.maxPriorityFeePerGas,
+      signature: SMART_ACCOUNT_CONFIG.DUMMY_SIGNATURE
+    };
+
+    if (this.paymaster) {
+      const stubData = this.paymaster.getPaymasterStubData
+        ? await this.paymaster.getPaymasterStubData(userOperation, this.entryPoint, this.chainId)
+        : await this.paymaster.getPaymasterData(userOperation, this.entryPoint, this.chainId);
+      userOperation = { ...userOperation, ...stubData };
+    }
+
+    const gas = await this.bundler.estimateUserOperationGas(userOperation, this.entryPoint);
+    userOperation = {
+      ...userOperation,
+      callGasLimit: gas.callGasLimit,
+      verificationGasLimit: gas.verificationGasLimit,
+      preVerificationGas: gas.preVerificationGas,
+      paymasterVerificationGasLimit: gas.paymasterVerificationGasLimit ?? userOperation.paymasterVerificationGasLimit,
+      paymasterPostOpGasLimit: gas.paymasterPostOpGasLimit ?? userOperation.paymasterPostOpGasLimit
+    };
+
+    this.logger.debug('User operation prepared', {
+      context: 'SmartAccount.prepareUserOperation',
+      data: {
+        sender,
+        nonce: nonce.toString(),
+        calls: calls.length,
+        deploys: userOperation.factory !== undefined,
+        paymaster: userOperation.paymaster
+      }
+    });
+    return userOperation;
+  }
+}
+
+/**
+ * Encode the account call executing the calls: execute for one call, executeBatch for several
+ */
+function encodeCalls(calls: EthereumCall[]): string {
+  if (calls.length === 1) {
+    const [{ to, value, data }] = calls;
+    return simpleAccountInterface.encodeFunctionData('execute', [to, value, data]);
+  }
+  return simpleAccountInterface.encodeFunctionData('executeBatch', [
+    calls.map((call) => call.to),
+    calls.map((call) => call.value),
+    calls.map((call) => call.data)
+  ]);
+}
+
+/**
+ * Hash of a user operation as computed by EntryPoint v0.7 getUserOpHash
+ * Gas limit and fee pairs are packed into 16-byte halves of one word, as in PackedUserOperation.
+ * @param userOperation - The user operation; its signature is not part of the hash
+ * @param entryPoint - EntryPoint the operation is for
+ * @param chainId - Chain ID of the network
+ */
+export function getUserOperationHash(
+  userOperation: EthereumUserOperation,
+  entryPoint: string,
+  chainId: bigint
+): string {
+  const abiCoder = AbiCoder.defaultAbiCoder();
+  const initCode = userOperation.factory ? concat([userOperation.factory, userOperation.factoryData ?? '0x']) : '0x';
+  const paymasterAndData = userOperation.paymaster
+    ? concat([
+        userOperation.paymaster,
+        toBeHex(userOperation.paymasterVerificationGasLimit ?? 0n, 16),
+        toBeHex(userOperation.paymasterPostOpGasLimit ?? 0n, 16),
+        userOperation.paymasterData ?? '0x'
+      ])
+    : '0x';
+
+  const packed = abiCoder.encode(
+    ['address', 'uint256', 'bytes32', 'bytes32', 'bytes32', 'uint256', 'bytes32', 'bytes32'],
+    [
+      userOperation.sender,
+      userOperation.nonce,
+      keccak256(initCode),
+      keccak256(userOperation.callData),
+      concat([toBeHex(userOperation.verificationGasLimit, 16), toBeHex(userOperation.callGasLimit, 16)]),
+      userOperation.preVerificationGas,
+      concat([toBeHex(userOperation.maxPriorityFeePerGas, 16), toBeHex(userOperation.maxFeePerGas, 16)]),
+      keccak256(paymasterAndData)
+    ]
+  );
+  return keccak256(abiCoder.encode(['bytes32', 'address', 'uint256'], [keccak256(packed), entryPoint, chainId]));
+}
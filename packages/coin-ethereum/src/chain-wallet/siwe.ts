@@ -0,0 +1,321 @@
+import { getAddress, hexlify, isAddress, randomBytes, verifyMessage } from 'ethers';
+import { ArgumentError, HibitIdSdkErrorCode } from '@delandlabs/coin-base';
+import { CHAIN_CONFIG, SIWE_CONFIG } from './config';
+import {
+  EthereumSignedSiweMessage,
+  EthereumSiweMessage,
+  EthereumSiweRequest,
+  EthereumSiweVerifyOptions
+} from './types';
+import { EthereumChainWallet } from './wallet';
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+const SCHEME_PATTERN = /^[a-zA-Z][a-zA-Z0-9+.-]*$/;
+// RFC 3986 authority: host and optional user info and port, without path, query or fragment
+const DOMAIN_PATTERN = /^[^\s/?#]+$/;
+const URI_PATTERN = /^[a-zA-Z][a-zA-Z0-9+.-]*:\S+$/;
+const NONCE_PATTERN = /^[a-zA-Z0-9]{8,}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+const NONCE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * Build a Sign-In with Ethereum message (EIP-4361)
+ * @param fields - Fields of the message
+ * @returns The message, ready to be signed with personal_sign
+ * @throws {ArgumentError} When a field does not follow EIP-4361, e.g. an address that is not checksummed
+ *
+ * @example
+ * ```typescript
+ * const message = createSiweMessage({
+ *   domain: 'example.com',
+ *   address,
+ *   statement: 'Sign in to Example',
+ *   uri: 'https://example.com/login',
+ *   version: '1',
+ *   chainId: 1,
+ *   nonce: generateSiweNonce(),
+ *   issuedAt: new Date().toISOString()
+ * });
+ * ```
+ */
+export function createSiweMessage(fields: EthereumSiweMessage): string {
+  assertValidSiweFields(fields);
+
+  const origin = fields.scheme !== undefined ? `${fields.scheme}://${fields.domain}` : fields.domain;
+  const lines = [origin + HEADER_SUFFIX, fields.address, ''];
+  if (fields.statement !== undefined) {
+    lines.push(fields.statement);
+  }
+  lines.push(
+    '',
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  );
+  if (fields.expirationTime !== undefined) {
+    lines.push(`Expiration Time: ${fields.expirationTime}`);
+  }
+  if (fields.notBefore !== undefined) {
+    lines.push(`Not Before: ${fields.notBefore}`);
+  }
+  if (fields.requestId !== undefined) {
+    lines.push(`Request ID: ${fields.requestId}`);
+  }
+  if (fields.resources?.length) {
+    lines.push('Resources:', ...fields.resources.map((resource) => `- ${resource}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Parse a Sign-In with Ethereum message (EIP-4361)
+ * @param message - The message as signed
+ * @returns The fields of the message
+ * @throws {ArgumentError} When the message does not follow EIP-4361
+ */
+export function parseSiweMessage(message: string): EthereumSiweMessage {
+  const lines = message.split('\n');
+  let index = 0;
+  const next = (): string | undefined => lines[index++];
+  const field = (name: string, optional = false): string | undefined => {
+    const line = lines[index];
+    if (line?.startsWith(`${name}: `)) {
+      index++;
+      return line.slice(name.length + 2);
+    }
+    if (!optional) {
+      throw invalidMessage(`expected the ${name} field on line ${index + 1}`);
+    }
+    return undefined;
+  };
+
+  const header = next();
+  if (!header?.endsWith(HEADER_SUFFIX)) {
+    throw invalidMessage('the first line must be "<domain> wants you to sign in with your Ethereum account:"');
+  }
+  const origin = header.slice(0, -HEADER_SUFFIX.length);
+  const schemeEnd = origin.indexOf('://');
+  const address = next() ?? '';
+  if (next() !== '') {
+    throw invalidMessage('expected an empty line after the address');
+  }
+
+  // An empty line, or a statement line followed by an empty line; older messages omit both
+  let statement: string | undefined;
+  if (lines[index] === '') {
+    index++;
+  } else if (!lines[index]?.startsWith('URI: ')) {
+    statement = next();
+    if (next() !== '') {
+      throw invalidMessage('expected an empty line after the statement');
+    }
+  }
+
+  const fields: EthereumSiweMessage = {
+    scheme: schemeEnd >= 0 ? origin.slice(0, schemeEnd) : undefined,
+    domain: schemeEnd >= 0 ? origin.slice(schemeEnd + 3) : origin,
+    address,
+    statement,
+    uri: field('URI')!,
+    version: field('Version') as EthereumSiweMessage['version'],
+    chainId: Number(field('Chain ID')),
+    nonce: field('Nonce')!,
+    issuedAt: field('Issued At')!,
+    expirationTime: field('Expiration Time', true),
+    notBefore: field('Not Before', true),
+    requestId: field('Request ID', true)
+  };
+  if (lines[index] === 'Resources:') {
+    index++;
+    fields.resources = [];
+    while (lines[index]?.startsWith('- ')) {
+      fields.resources.push(lines[index++].slice(2));
+    }
+  }
+  if (index < lines.length) {
+    throw invalidMessage(`unexpected content on line ${index + 1}`);
+  }
+
+  assertValidSiweFields(fields);
+  return fields;
+}
+
+/**
+ * Verify a signed Sign-In with Ethereum message
+ *
+ * Recovers the signer of the message, then checks that it is the address of the message, that
+ * the nonce is the one issued for the sign-in, that the message is for the server's domain (and
+ * chain, when given), and that the message is valid now. Only signatures
+ * of externally owned accounts are recovered; smart-contract accounts (ERC-1271) are not supported.
+ *
+ * @param message - The signed message
+ * @param signature - EIP-191 signature of the message, hex-encoded
+ * @param options - Nonce issued for the sign-in, expected domain and chain, and verification time
+ * @returns The fields of the verified message
+ * @throws {ArgumentError} When the message is malformed, signed by another address, for another
+ * nonce, domain or chain, expired, or not valid yet
+ *
+ * @example
+ * ```typescript
+ * const { address, chainId } = verifySiweMessage(message, signature, {
+ *   nonce: session.nonce,
+ *   domain: 'example.com'
+ * });
+ * ```
+ */
+export function verifySiweMessage(
+  message: string,
+  signature: string,
+  options: EthereumSiweVerifyOptions
+): EthereumSiweMessage {
+  const fields = parseSiweMessage(message);
+
+  let signer: string;
+  try {
+    signer = verifyMessage(message, signature);
+  } catch (error) {
+    throw verificationError(
+      `Invalid SIWE signature: ${error instanceof Error ? error.message : String(error)}`,
+      'signature'
+    );
+  }
+  if (signer !== fields.address) {
+    throw verificationError(`SIWE message of ${fields.address} is signed by ${signer}`, 'signature');
+  }
+
+  if (fields.nonce !== options.nonce) {
+    throw verificationError(`SIWE nonce ${fields.nonce} is not the nonce issued for this sign-in`, 'nonce');
+  }
+  if (fields.domain !== options.domain) {
+    throw verificationError(`SIWE message is for ${fields.domain}, not for ${options.domain}`, 'domain');
+  }
+  if (options.chainId !== undefined && fields.chainId !== options.chainId) {
+    throw verificationError(`SIWE message is for chain ${fields.chainId}, not for chain ${options.chainId}`, 'chainId');
+  }
+  const time = (options.time ?? new Date()).getTime();
+  if (fields.expirationTime !== undefined && Date.parse(fields.expirationTime) <= time) {
+    throw verificationError(`SIWE message expired at ${fields.expirationTime}`, 'message');
+  }
+  if (fields.notBefore !== undefined && Date.parse(fields.notBefore) > time) {
+    throw verificationError(`SIWE message is not valid before ${fields.notBefore}`, 'message');
+  }
+  return fields;
+}
+
+/**
+ * Sign in with the wallet's account: build the message for its address and chain, and sign it
+ * with signMessage
+ * @param wallet - The wallet signing in
+ * @param request - Fields chosen by the relying party, with the nonce it issued
+ * @returns The message and its signature, for verifySiweMessage on the server
+ * @throws {ArgumentError} When a field does not follow EIP-4361
+ *
+ * @example
+ * ```typescript
+ * const { message, signature } = await signSiweMessage(wallet, {
+ *   domain: 'example.com',
+ *   uri: 'https://example.com/login',
+ *   nonce: await fetchNonce()
+ * });
+ * ```
+ */
+export async function signSiweMessage(
+  wallet: EthereumChainWallet,
+  request: EthereumSiweRequest
+): Promise<EthereumSignedSiweMessage> {
+  const account = await wallet.getAccount();
+  const message = createSiweMessage({
+    ...request,
+    address: getAddress(account.address),
+    version: SIWE_CONFIG.VERSION,
+    chainId: Number(wallet.chainInfo.chainId.network.toString()),
+    issuedAt: request.issuedAt ?? new Date().toISOString()
+  });
+  const signature = await wallet.signMessage({ message });
+  return { message, signature: hexlify(signature) };
+}
+
+/**
+ * Generate a random alphanumeric nonce for a sign-in
+ * @returns A nonce of SIWE_CONFIG.NONCE_LENGTH characters
+ */
+export function generateSiweNonce(): string {
+  let nonce = '';
+  while (nonce.length < SIWE_CONFIG.NONCE_LENGTH) {
+    for (const byte of randomBytes(SIWE_CONFIG.NONCE_LENGTH)) {
+      // Bytes from 248 on are skipped, so every character is equally likely
+      if (byte < 248 && nonce.length < SIWE_CONFIG.NONCE_LENGTH) {
+        nonce += NONCE_ALPHABET[byte % NONCE_ALPHABET.length];
+      }
+    }
+  }
+  return nonce;
+}
+
+/**
+ * Validate the fields of a message against EIP-4361
+ * @throws {ArgumentError} When a field is invalid
+ */
+function assertValidSiweFields(fields: EthereumSiweMessage): void {
+  if (fields.scheme !== undefined && !SCHEME_PATTERN.test(fields.scheme)) {
+    throw invalidMessage(`invalid scheme ${fields.scheme}`);
+  }
+  if (!DOMAIN_PATTERN.test(fields.domain)) {
+    throw invalidMessage(`domain must be an RFC 3986 authority, got ${fields.domain}`);
+  }
+  if (!isAddress(fields.address) || getAddress(fields.address) !== fields.address) {
+    throw invalidMessage(`address must be EIP-55 checksummed, got ${fields.address}`);
+  }
+  if (fields.statement !== undefined && (fields.statement === '' || fields.statement.includes('\n'))) {
+    throw invalidMessage('statement must be a single non-empty line');
+  }
+  for (const uri of [fields.uri, ...(fields.resources ?? [])]) {
+    if (!URI_PATTERN.test(uri)) {
+      throw invalidMessage(`invalid URI ${uri}`);
+    }
+  }
+  if (fields.version !== SIWE_CONFIG.VERSION) {
+    throw invalidMessage(`version must be ${SIWE_CONFIG.VERSION}, got ${fields.version}`);
+  }
+  if (!Number.isSafeInteger(fields.chainId) || fields.chainId <= 0) {
+    throw invalidMessage(`chain ID must be a positive integer, got ${fields.chainId}`);
+  }
+  if (!NONCE_PATTERN.test(fields.nonce)) {
+    throw invalidMessage('nonce must be at least 8 alphanumeric characters');
+  }
+  const times: Array<[string, string | undefined]> = [
+    ['issued at', fields.issuedAt],
+    ['expiration time', fields.expirationTime],
+    ['not before', fields.notBefore]
+  ];
+  for (const [name, value] of times) {
+    if (value !== undefined && (!DATE_TIME_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+      throw invalidMessage(`${name} must be an ISO 8601 date-time, got ${value}`);
+    }
+  }
+  if (fields.requestId?.includes('\n')) {
+    throw invalidMessage('request ID must be a single line');
+  }
+}
+
+/**
+ * Error of a message that does not follow EIP-4361
+ */
+function invalidMessage(reason: string): ArgumentError {
+  return new ArgumentError(
+    HibitIdSdkErrorCode.INVALID_MESSAGE_FORMAT,
+    `${CHAIN_CONFIG.CHAIN_NAME}: Invalid SIWE message: ${reason}`,
+    { argumentName: 'message', expectedType: 'EIP-4361 message' }
+  );
+}
+
+/**
+ * Error of a well-formed message that fails verification
+ */
+function verificationError(reason: string, argumentName: string): ArgumentError {
+  return new ArgumentError(HibitIdSdkErrorCode.INVALID_ARGUMENT, `${CHAIN_CONFIG.CHAIN_NAME}: ${reason}`, {
+    argumentName
+  });
+}
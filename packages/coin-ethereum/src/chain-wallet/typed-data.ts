@@ -0,0 +1,144 @@
+import { TypedDataDomain, TypedDataEncoder, TypedDataField, getAddress } from 'ethers';
+import { ArgumentError, HibitIdSdkErrorCode } from '@delandlabs/coin-base';
+import { CHAIN_CONFIG } from './config';
+import { EthereumTypedDataPreview, EthereumTypedDataPreviewField } from './types';
+
+/**
+ * Struct types of an EIP-2612 permit
+ */
+export const PERMIT_TYPES: Record<string, TypedDataField[]> = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+
+const PERMIT2_DETAILS: TypedDataField[] = [
+  { name: 'token', type: 'address' },
+  { name: 'amount', type: 'uint160' },
+  { name: 'expiration', type: 'uint48' },
+  { name: 'nonce', type: 'uint48' }
+];
+
+/**
+ * Struct types of a Permit2 PermitSingle
+ */
+export const PERMIT_SINGLE_TYPES: Record<string, TypedDataField[]> = {
+  PermitSingle: [
+    { name: 'details', type: 'PermitDetails' },
+    { name: 'spender', type: 'address' },
+    { name: 'sigDeadline', type: 'uint256' }
+  ],
+  PermitDetails: PERMIT2_DETAILS
+};
+
+/**
+ * Struct types of a Permit2 PermitBatch
+ */
+export const PERMIT_BATCH_TYPES: Record<string, TypedDataField[]> = {
+  PermitBatch: [
+    { name: 'details', type: 'PermitDetails[]' },
+    { name: 'spender', type: 'address' },
+    { name: 'sigDeadline', type: 'uint256' }
+  ],
+  PermitDetails: PERMIT2_DETAILS
+};
+
+/**
+ * Remove the EIP712Domain type, which eth_signTypedData_v4 payloads include but ethers derives from the domain
+ * @param types - Struct types of the typed data
+ * @returns The struct types of the message
+ */
+export function getMessageTypes(types: Record<string, TypedDataField[]>): Record<string, TypedDataField[]> {
+  return Object.fromEntries(Object.entries(types).filter(([name]) => name !== 'EIP712Domain'));
+}
+
+/**
+ * Assert that typed data can be signed on the given chain
+ * @param domain - Domain of the typed data
+ * @param types - Struct types of the message
+ * @param value - Message to sign
+ * @param chainId - Chain id of the wallet's network
+ * @throws {ArgumentError} When the message does not match its types, or the domain has no or another chain id
+ */
+export function assertValidTypedData(
+  domain: TypedDataDomain,
+  types: Record<string, TypedDataField[]>,
+  value: Record<string, unknown>,
+  chainId: bigint
+): void {
+  try {
+    TypedDataEncoder.hash(domain, getMessageTypes(types), value);
+  } catch (error) {
+    throw new ArgumentError(
+      HibitIdSdkErrorCode.INVALID_ARGUMENT,
+      `${CHAIN_CONFIG.CHAIN_NAME}: Invalid typed data: ${error instanceof Error ? error.message : String(error)}`,
+      { argumentName: 'typedData' }
+    );
+  }
+
+  // Without the chain id a signature could be replayed on every chain the verifying contract is deployed on
+  if (domain.chainId == null) {
+    throw new ArgumentError(
+      HibitIdSdkErrorCode.INVALID_ARGUMENT,
+      `${CHAIN_CONFIG.CHAIN_NAME}: Typed data domain must specify a chainId`,
+      { argumentName: 'domain.chainId', expectedType: chainId.toString() }
+    );
+  }
+  if (BigInt(domain.chainId) !== chainId) {
+    throw new ArgumentError(
+      HibitIdSdkErrorCode.INVALID_ARGUMENT,
+      `${CHAIN_CONFIG.CHAIN_NAME}: Typed data is for chain ${domain.chainId}, but the wallet is on chain ${chainId}`,
+      { argumentName: 'domain.chainId', expectedType: chainId.toString(), providedValue: domain.chainId.toString() }
+    );
+  }
+}
+
+/**
+ * Prepare typed data for display
+ * Integers are shown in decimal, addresses checksummed and bytes hex-encoded.
+ * @param domain - Domain of the typed data
+ * @param types - Struct types of the message
+ * @param value - Message to sign
+ * @returns The primary type and the fields of the domain and the message
+ */
+export function createTypedDataPreview(
+  domain: TypedDataDomain,
+  types: Record<string, TypedDataField[]>,
+  value: Record<string, unknown>
+): EthereumTypedDataPreview {
+  const payload = TypedDataEncoder.getPayload(domain, getMessageTypes(types), value);
+  return {
+    primaryType: payload.primaryType,
+    domain: previewStruct('EIP712Domain', payload.domain as Record<string, unknown>, payload.types),
+    message: previewStruct(payload.primaryType, payload.message, payload.types)
+  };
+}
+
+function previewStruct(
+  structType: string,
+  struct: Record<string, unknown>,
+  types: Record<string, TypedDataField[]>
+): EthereumTypedDataPreviewField[] {
+  return types[structType].map((field) => previewField(field.name, field.type, struct[field.name], types));
+}
+
+function previewField(
+  name: string,
+  type: string,
+  value: unknown,
+  types: Record<string, TypedDataField[]>
+): EthereumTypedDataPreviewField {
+  const array = type.match(/^(.*)\[\d*\]$/);
+  if (array) {
+    const items = value as unknown[];
+    return { name, type, children: items.map((item, index) => previewField(index.toString(), array[1], item, types)) };
+  }
+  if (types[type]) {
+    return { name, type, children: previewStruct(type, value as Record<string, unknown>, types) };
+  }
+  return { name, type, value: type === 'address' ? getAddress(String(value)) : String(value) };
+}
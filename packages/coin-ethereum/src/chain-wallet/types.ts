@@ -0,0 +1,499 @@
+import BigNumber from 'bignumber.js';
+import { InterfaceAbi } from 'ethers';
+import { TokenIdentifier, TransferParams } from '@delandlabs/coin-base';
+
+/**
+ * Chain-specific data of an unsigned Ethereum transaction
+ */
+export interface EthereumUnsignedTransactionData {
+  /** Unsigned RLP-encoded transaction with nonce, gas and fee fields populated */
+  serializedTransaction: string;
+}
+
+/**
+ * Chain-specific data of a signed Ethereum transaction
+ */
+export interface EthereumSignedTransactionData {
+  /** Signed RLP-encoded transaction, ready for eth_sendRawTransaction */
+  serializedTransaction: string;
+}
+
+/**
+ * Speed of a transaction; faster tiers pay a higher priority fee
+ */
+export type EthereumFeeTier = 'slow' | 'normal' | 'fast';
+
+/**
+ * Transfer parameters with the fee tier to pay
+ */
+export interface EthereumTransferParams extends TransferParams {
+  /** Fee tier of the transaction (default: normal) */
+  feeTier?: EthereumFeeTier;
+}
+
+/**
+ * Gas prices of a fee tier in wei
+ * On networks without EIP-1559 both prices equal the legacy gas price.
+ */
+export interface EthereumFeeTierPrices {
+  /** Highest total price per gas the transaction pays */
+  maxFeePerGas: bigint;
+  /** Price per gas paid to the block producer on top of the base fee */
+  maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * Gas prices of all fee tiers
+ */
+export interface EthereumFeeTiers {
+  /** Whether transactions are priced with EIP-1559 base and priority fees */
+  eip1559: boolean;
+  /** Base fee per gas of the next block in wei, undefined on networks without EIP-1559 */
+  baseFeePerGas?: bigint;
+  /** Gas prices by tier */
+  tiers: Record<EthereumFeeTier, EthereumFeeTierPrices>;
+}
+
+/**
+ * Fee of a transaction in one fee tier
+ */
+export interface EthereumFeeTierEstimate extends EthereumFeeTierPrices {
+  /** Expected fee in wei: the gas limit at the base fee plus the priority fee */
+  fee: BigNumber;
+  /** Highest possible fee in wei: the gas limit at the maximum fee per gas */
+  maxFee: BigNumber;
+}
+
+/**
+ * Fee estimate of a transaction for every fee tier
+ */
+export interface EthereumFeeEstimate {
+  /** Whether transactions are priced with EIP-1559 base and priority fees */
+  eip1559: boolean;
+  /** Estimated gas limit of the transaction */
+  gasLimit: bigint;
+  /** Base fee per gas of the next block in wei, undefined on networks without EIP-1559 */
+  baseFeePerGas?: bigint;
+  /** Fee in wei for publishing the transaction's data on L1, on OP-stack networks; included in every tier */
+  l1DataFee?: BigNumber;
+  /** Fees by tier */
+  tiers: Record<EthereumFeeTier, EthereumFeeTierEstimate>;
+}
+
+/**
+ * How an EVM network charges for transactions
+ * - standard: gas only, as on Ethereum
+ * - op-stack: gas plus an L1 data fee quoted by the GasPriceOracle predeploy (Optimism, Base)
+ * - arbitrum: gas only, with L1 costs included in the gas estimate and priority fees ignored
+ */
+export type EthereumFeeModel = 'standard' | 'op-stack' | 'arbitrum';
+
+/**
+ * Fee rules of an EVM network
+ */
+export interface EthereumNetworkProfile {
+  /** Name of the network */
+  name: string;
+  /** How the network charges for transactions */
+  feeModel: EthereumFeeModel;
+  /** Whether the network prices transactions with an EIP-1559 base fee */
+  eip1559: boolean;
+  /** Lowest priority fee per gas in wei the network's validators accept */
+  minPriorityFeePerGas?: bigint;
+}
+
+/**
+ * Field of an EIP-712 message or domain prepared for display
+ */
+export interface EthereumTypedDataPreviewField {
+  /** Field name, or the index for array items */
+  name: string;
+  /** Solidity type of the field */
+  type: string;
+  /** Display value; undefined for structs and arrays, whose members are in children */
+  value?: string;
+  /** Members of a struct or items of an array */
+  children?: EthereumTypedDataPreviewField[];
+}
+
+/**
+ * Human-readable view of EIP-712 typed data, for confirmation screens
+ */
+export interface EthereumTypedDataPreview {
+  /** Name of the signed struct type, e.g. Permit */
+  primaryType: string;
+  /** Fields of the domain: name, version, chainId, verifyingContract and salt when present */
+  domain: EthereumTypedDataPreviewField[];
+  /** Fields of the signed message */
+  message: EthereumTypedDataPreviewField[];
+}
+
+/**
+ * Fields of a Sign-In with Ethereum message (EIP-4361)
+ */
+export interface EthereumSiweMessage {
+  /** URI scheme of the requesting origin, e.g. https; omitted from the message when undefined */
+  scheme?: string;
+  /** Authority of the requesting origin, e.g. example.com or localhost:3000 */
+  domain: string;
+  /** EIP-55 checksummed address signing in */
+  address: string;
+  /** Human-readable statement shown to the user, on a single line */
+  statement?: string;
+  /** URI of the resource that is the subject of the signing, e.g. https://example.com/login */
+  uri: string;
+  /** Message version, always 1 */
+  version: '1';
+  /** Chain ID the session is bound to */
+  chainId: number;
+  /** Random alphanumeric string of at least 8 characters chosen by the server, against replays */
+  nonce: string;
+  /** ISO 8601 time the message was issued at */
+  issuedAt: string;
+  /** ISO 8601 time after which the message is no longer valid */
+  expirationTime?: string;
+  /** ISO 8601 time before which the message is not yet valid */
+  notBefore?: string;
+  /** System-specific identifier of the sign-in request */
+  requestId?: string;
+  /** URIs the user wishes to have resolved as part of authentication */
+  resources?: string[];
+}
+
+/**
+ * Fields of a Sign-In with Ethereum message chosen by the relying party (signSiweMessage)
+ * The wallet fills in its address and chain ID, and the issue time unless given.
+ */
+export type EthereumSiweRequest = Omit<EthereumSiweMessage, 'address' | 'chainId' | 'version' | 'issuedAt'> & {
+  issuedAt?: string;
+};
+
+/**
+ * Signed Sign-In with Ethereum message, as sent to the relying party
+ */
+export interface EthereumSignedSiweMessage {
+  /** The EIP-4361 message */
+  message: string;
+  /** EIP-191 signature of the message, hex-encoded */
+  signature: string;
+}
+
+/**
+ * Checks of a Sign-In with Ethereum verification (verifySiweMessage)
+ */
+export interface EthereumSiweVerifyOptions {
+  /** Nonce the server issued for this sign-in */
+  nonce: string;
+  /** Expected domain, the server's own authority */
+  domain: string;
+  /** Expected EIP-155 chain ID, when the server accepts sign-ins from one chain only */
+  chainId?: number;
+  /** Time to check the expiration and not-before times against (default: now) */
+  time?: Date;
+}
+
+/**
+ * Metadata of an NFT as published at its token URI (ERC-721 tokenURI, ERC-1155 uri)
+ */
+export interface EthereumNftMetadata {
+  /** Token URI as returned by the contract */
+  tokenUri: string;
+  /** Name of the token */
+  name?: string;
+  /** Description of the token */
+  description?: string;
+  /** Image URL, with ipfs:// and ar:// URIs resolved to HTTPS gateways */
+  image?: string;
+  /** Traits of the token */
+  attributes?: Array<{ trait_type?: string; value: unknown }>;
+  /** The complete metadata document */
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Parameters of an ERC20 approval
+ */
+export interface EthereumApprovalParams {
+  /** ERC20 token whose allowance is set */
+  token: TokenIdentifier;
+  /** Address allowed to spend the wallet's tokens */
+  spender: string;
+  /** Allowance in the token's smallest unit; ethers' MaxUint256 approves an infinite amount */
+  amount: BigNumber;
+  /** Fee tier of the transaction (default: normal) */
+  feeTier?: EthereumFeeTier;
+}
+
+/**
+ * Allowance an owner granted a spender on an ERC20 token
+ */
+export interface EthereumAllowance {
+  /** Address allowed to spend the owner's tokens */
+  spender: string;
+  /** Remaining allowance in the token's smallest unit */
+  amount: BigNumber;
+  /** Whether the allowance is effectively unlimited, as granted by MaxUint256 approvals */
+  isInfinite: boolean;
+}
+
+/**
+ * EIP-2612 permit signed by the wallet, to be submitted with the token's permit function
+ */
+export interface EthereumPermit {
+  /** Address granting the allowance */
+  owner: string;
+  /** Address allowed to spend the owner's tokens */
+  spender: string;
+  /** Allowance in the token's smallest unit */
+  value: BigNumber;
+  /** Permit nonce of the owner at the token */
+  nonce: bigint;
+  /** Unix time in seconds until which the permit can be submitted */
+  deadline: number;
+  /** 65-byte signature */
+  signature: string;
+  /** The signature split into the v, r and s arguments of permit */
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * Allowance of one token granted in a Permit2 permit
+ */
+export interface EthereumPermit2Allowance {
+  /** ERC20 token approved to the Permit2 contract */
+  token: TokenIdentifier;
+  /** Allowance in the token's smallest unit, at most a uint160 */
+  amount: BigNumber;
+  /** Unix time in seconds when the allowance expires */
+  expiration: number;
+}
+
+/**
+ * PermitDetails struct of Permit2
+ */
+export interface EthereumPermit2Details {
+  token: string;
+  amount: bigint;
+  expiration: number;
+  /** Permit2 nonce of the owner for the token and spender */
+  nonce: number;
+}
+
+/**
+ * PermitSingle struct of Permit2, granting an allowance of one token
+ */
+export interface EthereumPermitSingle {
+  details: EthereumPermit2Details;
+  spender: string;
+  /** Unix time in seconds until which the permit can be submitted */
+  sigDeadline: number;
+}
+
+/**
+ * PermitBatch struct of Permit2, granting allowances of several tokens
+ */
+export interface EthereumPermitBatch {
+  details: EthereumPermit2Details[];
+  spender: string;
+  /** Unix time in seconds until which the permit can be submitted */
+  sigDeadline: number;
+}
+
+/**
+ * Permit2 permit signed by the wallet, to be submitted with Permit2's permit function
+ */
+export interface EthereumSignedPermit2<TPermit extends EthereumPermitSingle | EthereumPermitBatch> {
+  /** Address granting the allowances */
+  owner: string;
+  /** The signed permit */
+  permit: TPermit;
+  /** 65-byte signature */
+  signature: string;
+}
+
+/**
+ * Contract function read with eth_call (readContract)
+ */
+export interface EthereumContractReadParams {
+  /** Contract address */
+  to: string;
+  /** ABI of the contract; it needs the function and the custom errors it may revert with */
+  abi: InterfaceAbi;
+  /** Function name, or its signature for overloaded functions, e.g. 'safeTransferFrom(address,address,uint256)' */
+  method: string;
+  /** Function arguments, in order */
+  args?: readonly unknown[];
+  /** Wei sent with the call, for payable functions (default: 0) */
+  value?: BigNumber;
+}
+
+/**
+ * Contract function call sent as a transaction (callContract)
+ */
+export interface EthereumContractCallParams extends EthereumContractReadParams {
+  /** Fee tier of the transaction (default: normal) */
+  feeTier?: EthereumFeeTier;
+}
+
+/**
+ * Transaction of already encoded call data (sendTransaction), such as one requested by a dapp
+ */
+export interface EthereumTransactionParams {
+  /** Recipient or called contract */
+  to: string;
+  /** Wei sent with the transaction (default: 0) */
+  value?: BigNumber;
+  /** Hex-encoded call data (default: 0x) */
+  data?: string;
+  /** Fee tier of the transaction (default: normal) */
+  feeTier?: EthereumFeeTier;
+}
+
+/**
+ * Balance of one token in a batched balance query (balancesOf)
+ */
+export interface EthereumTokenBalance {
+  /** The queried token */
+  token: TokenIdentifier;
+  /** Balance in smallest unit, undefined when the query of this token failed */
+  balance?: BigNumber;
+  /** Decimals of the token, undefined when the query of this token failed */
+  decimals?: number;
+  /** Why the query of this token failed, e.g. the address is not an ERC20 contract */
+  error?: string;
+}
+
+/**
+ * Call of a Multicall3 aggregate3 batch
+ */
+export interface EthereumMulticallCall {
+  /** Called contract */
+  target: string;
+  /** Call data */
+  callData: string;
+}
+
+/**
+ * Outcome of a call of a Multicall3 aggregate3 batch; failed calls do not fail the batch
+ */
+export interface EthereumMulticallResult {
+  /** Whether the call succeeded */
+  success: boolean;
+  /** Return data of the call, or its revert data when it failed */
+  returnData: string;
+}
+
+/**
+ * Call executed by a smart account
+ */
+export interface EthereumCall {
+  /** Called address */
+  to: string;
+  /** Wei sent with the call */
+  value: bigint;
+  /** Call data, 0x for plain transfers */
+  data: string;
+}
+
+/**
+ * ERC-4337 v0.7 user operation, in the unpacked form used by bundler RPC methods
+ */
+export interface EthereumUserOperation {
+  /** Smart account executing the operation */
+  sender: string;
+  /** Nonce of the account in the EntryPoint */
+  nonce: bigint;
+  /** Factory deploying the account with the operation, when it is not deployed yet */
+  factory?: string;
+  /** Call data of the factory */
+  factoryData?: string;
+  /** Call the EntryPoint makes on the account */
+  callData: string;
+  callGasLimit: bigint;
+  verificationGasLimit: bigint;
+  /** Gas paying the bundler's overhead, including L1 data costs on L2s */
+  preVerificationGas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  /** Paymaster sponsoring the gas of the operation */
+  paymaster?: string;
+  paymasterVerificationGasLimit?: bigint;
+  paymasterPostOpGasLimit?: bigint;
+  paymasterData?: string;
+  /** Signature of the account owner over the operation hash */
+  signature: string;
+}
+
+/**
+ * Paymaster fields of a user operation
+ */
+export interface EthereumPaymasterData {
+  /** Paymaster contract address */
+  paymaster: string;
+  /** Data passed to the paymaster, e.g. its sponsorship signature */
+  paymasterData: string;
+  /** Gas limit of the paymaster's validation; estimated by the bundler when omitted */
+  paymasterVerificationGasLimit?: bigint;
+  /** Gas limit of the paymaster's postOp; estimated by the bundler when omitted */
+  paymasterPostOpGasLimit?: bigint;
+}
+
+/**
+ * Sponsors the gas of user operations, following the ERC-7677 paymaster service methods
+ */
+export interface EthereumPaymaster {
+  /**
+   * Placeholder paymaster fields used while the bundler estimates gas (pm_getPaymasterStubData)
+   * getPaymasterData is used for estimation too when this is omitted.
+   */
+  getPaymasterStubData?(
+    userOperation: EthereumUserOperation,
+    entryPoint: string,
+    chainId: bigint
+  ): Promise<EthereumPaymasterData>;
+  /**
+   * Paymaster fields of the operation to send, with its gas limits estimated (pm_getPaymasterData)
+   */
+  getPaymasterData(
+    userOperation: EthereumUserOperation,
+    entryPoint: string,
+    chainId: bigint
+  ): Promise<EthereumPaymasterData>;
+}
+
+/**
+ * Smart-account mode of the wallet: transfers are sent as ERC-4337 user operations of a
+ * SimpleAccount owned by the wallet key
+ */
+export interface EthereumSmartAccountConfig {
+  /** URL of the bundler's JSON-RPC endpoint */
+  bundlerUrl: string;
+  /** EntryPoint v0.7 contract (default: the canonical deployment) */
+  entryPoint?: string;
+  /** SimpleAccountFactory contract deploying the account (default: the v0.7 reference deployment) */
+  factory?: string;
+  /** Salt of the account address, to own several accounts with one key (default: 0) */
+  salt?: bigint;
+  /** Paymaster sponsoring the gas of the operations; the account pays its own gas when omitted */
+  paymaster?: EthereumPaymaster;
+}
+
+/**
+ * Outcome of an included user operation (eth_getUserOperationReceipt)
+ */
+export interface EthereumUserOperationReceipt {
+  /** Hash of the user operation */
+  userOpHash: string;
+  /** Whether the account's call succeeded; the bundle transaction succeeds either way */
+  success: boolean;
+  /** Revert reason of the call when it failed */
+  reason?: string;
+  /** Wei paid for the operation by the account or its paymaster */
+  actualGasCost: bigint;
+  /** Gas used by the operation */
+  actualGasUsed: bigint;
+  /** Hash of the bundle transaction that included the operation */
+  transactionHash: string;
+}
@@ -14,3 +14,61 @@ export const erc20Abi = [
   'event Transfer(address indexed from, address indexed to, uint256 value)',
   'event Approval(address indexed owner, address indexed spender, uint256 value)'
 ];
+
+// EIP-2612 permit extension of ERC20
+export const erc20PermitAbi = [
+  'function nonces(address owner) view returns (uint256)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  'function version() view returns (string)',
+  'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)'
+];
+
+// Uniswap Permit2 AllowanceTransfer ABI
+export const permit2Abi = [
+  'function allowance(address user, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)'
+];
+
+// ERC721 non-fungible token ABI
+export const erc721Abi = [
+  'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function tokenURI(uint256 tokenId) view returns (string)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)'
+];
+
+// ERC1155 multi-token ABI
+export const erc1155Abi = [
+  'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+  'function balanceOf(address account, uint256 id) view returns (uint256)',
+  'function uri(uint256 id) view returns (string)',
+  'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+
+  'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)'
+];
+
+// OP-stack GasPriceOracle predeploy ABI
+export const gasPriceOracleAbi = ['function getL1Fee(bytes data) view returns (uint256)'];
+
+// ERC-4337 EntryPoint v0.7 ABI
+export const entryPointAbi = ['function getNonce(address sender, uint192 key) view returns (uint256 nonce)'];
+
+// SimpleAccountFactory v0.7 ABI
+export const simpleAccountFactoryAbi = [
+  'function createAccount(address owner, uint256 salt) returns (address)',
+  'function getAddress(address owner, uint256 salt) view returns (address)'
+];
+
+// SimpleAccount v0.7 ABI
+export const simpleAccountAbi = [
+  'function execute(address dest, uint256 value, bytes func)',
+  'function executeBatch(address[] dest, uint256[] value, bytes[] func)'
+];
+
+// Multicall3 ABI
+export const multicall3Abi = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+  'function getEthBalance(address addr) view returns (uint256 balance)'
+];
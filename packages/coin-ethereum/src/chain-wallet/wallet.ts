@@ -1,12 +1,32 @@
 import BigNumber from 'bignumber.js';
-import { Wallet } from 'ethers';
+import {
+  Interface,
+  JsonRpcProvider,
+  MaxUint256,
+  Transaction,
+  TransactionRequest,
+  TransactionResponse,
+  TypedDataDomain,
+  TypedDataField,
+  VoidSigner,
+  Wallet,
+  ZeroAddress,
+  Signature,
+  getAddress,
+  getBytes,
+  isError,
+  isHexString
+} from 'ethers';
 import { ChainAccount, ChainAssetType, ChainId } from '@delandlabs/hibit-basic-types';
 import {
   BaseChainWallet,
   WalletConfig,
+  DerivationOptions,
   ChainInfo,
-  MnemonicError,
+  ISigner,
+  WatchOnlyAccount,
   NetworkError,
+  WalletError,
   GeneralWalletError,
   ArgumentError,
   HibitIdSdkErrorCode,
@@ -16,8 +36,19 @@ import {
   TransactionConfirmationParams,
   TransactionConfirmationResult,
   TokenIdentifier,
+  UnsignedTransaction,
+  SignedTransaction,
+  TransferSimulationResult,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
   ILogger,
   createReadyPromise,
+  createAddress,
+  createUnsignedTransaction,
+  createSignedTransaction,
+  assertTransactionForChain,
+  createFailedTransferSimulation,
+  createTransferBalanceChanges,
   cleanupReferences,
   assertValidAddressForBalance,
   assertValidAddressForTransaction,
@@ -30,18 +61,168 @@ import {
   assertValidTokenAddressForFeeEstimation,
   cleanSensitiveData,
   withLogging,
+  withErrorHandling,
   getAssetTypeName
 } from '@delandlabs/coin-base';
 import { deriveEcdsaPrivateKey, base } from '@delandlabs/crypto-lib';
-import { CHAIN_CONFIG, ERROR_MESSAGES } from './config';
-import { BaseAssetHandler, EthNativeHandler, Erc20TokenHandler } from './asset-handlers';
-import { ConnectionManager } from './shared';
+import {
+  ALLOWANCE_CONFIG,
+  CHAIN_CONFIG,
+  EIP1193_CONFIG,
+  ERROR_MESSAGES,
+  FEE_CONFIG,
+  MULTICALL_CONFIG,
+  NONCE_CONFIG,
+  PERMIT_CONFIG,
+  getDerivingPath,
+  getNetworkProfile
+} from './config';
+import {
+  BaseAssetHandler,
+  BaseNftHandler,
+  EthNativeHandler,
+  Erc20TokenHandler,
+  Erc721TokenHandler,
+  Erc1155TokenHandler
+} from './asset-handlers';
+import {
+  ConnectionManager,
+  ContractClient,
+  EthereumSigner,
+  FeeManager,
+  MulticallClient,
+  NonceManager,
+  SmartAccount,
+  assertValidFeeTier,
+  getUserOperationFailureReason
+} from './shared';
+import {
+  PERMIT_BATCH_TYPES,
+  PERMIT_SINGLE_TYPES,
+  PERMIT_TYPES,
+  assertValidTypedData,
+  createTypedDataPreview,
+  getMessageTypes
+} from './typed-data';
+import {
+  EthereumUnsignedTransactionData,
+  EthereumSignedTransactionData,
+  EthereumFeeEstimate,
+  EthereumFeeTier,
+  EthereumTransferParams,
+  EthereumTypedDataPreview,
+  EthereumNftMetadata,
+  EthereumApprovalParams,
+  EthereumAllowance,
+  EthereumNetworkProfile,
+  EthereumCall,
+  EthereumSmartAccountConfig,
+  EthereumPermit,
+  EthereumPermit2Allowance,
+  EthereumPermit2Details,
+  EthereumPermitSingle,
+  EthereumPermitBatch,
+  EthereumSignedPermit2,
+  EthereumContractReadParams,
+  EthereumContractCallParams,
+  EthereumTransactionParams,
+  EthereumTokenBalance,
+  EthereumMulticallCall,
+  EthereumMulticallResult
+} from './types';
+import { erc20Abi, multicall3Abi } from './utils';
+import { isEnsName } from './ens';
 
 // Note: Ethereum validator is now registered in the index.ts file using ChainValidation
 
+const erc20Interface = new Interface(erc20Abi);
+const multicall3Interface = new Interface(multicall3Abi);
+
+/**
+ * Whether the token is an ERC20 or NFT contract whose address must be validated
+ */
+function hasTokenContract(token: TokenIdentifier | undefined): boolean {
+  return token?.assetType === ChainAssetType.ERC20 || token?.assetType === ChainAssetType.ERC721;
+}
+
+/**
+ * Validate that a permit deadline or expiration is a future Unix time in seconds
+ * @throws {ArgumentError} When it is not an integer or already passed
+ */
+function assertFutureTimestamp(timestamp: number, argumentName: string): void {
+  if (!Number.isSafeInteger(timestamp) || timestamp <= Math.floor(Date.now() / 1000)) {
+    throw new ArgumentError(
+      HibitIdSdkErrorCode.INVALID_ARGUMENT,
+      `${CHAIN_CONFIG.CHAIN_NAME}: ${argumentName} must be a future Unix time in seconds`,
+      { argumentName, expectedType: 'Unix time in seconds', providedValue: String(timestamp) }
+    );
+  }
+}
+
+/**
+ * Validate the contract address and value of a contract call or transaction
+ * @throws {ArgumentError} When either is invalid
+ */
+function assertValidContractCall(params: Pick<EthereumContractReadParams, 'to' | 'value'>): void {
+  assertValidAddressForTransaction(params.to, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+  const { value } = params;
+  if (value !== undefined && (!value.isInteger() || value.isNegative())) {
+    throw new ArgumentError(
+      HibitIdSdkErrorCode.INVALID_ARGUMENT,
+      `${CHAIN_CONFIG.CHAIN_NAME}: Call value must be a non-negative integer in wei`,
+      { argumentName: 'value', expectedType: 'uint256', providedValue: value.toString() }
+    );
+  }
+}
+
+/**
+ * Decode the getEthBalance result of the native token in a Multicall3 batch
+ * A failed call is reported as failed, like the balance of a token that cannot be read.
+ */
+function decodeNativeBalance(token: TokenIdentifier, balance: EthereumMulticallResult): EthereumTokenBalance {
+  try {
+    if (balance.success) {
+      const [value] = multicall3Interface.decodeFunctionResult('getEthBalance', balance.returnData);
+      return { token, balance: new BigNumber(value.toString()), decimals: 18 };
+    }
+  } catch {
+    // Return data that does not decode
+  }
+  return { token, error: `${CHAIN_CONFIG.CHAIN_NAME}: Multicall3 getEthBalance failed` };
+}
+
+/**
+ * Decode the balanceOf and decimals results of an ERC20 token in a Multicall3 batch
+ * Addresses that are not ERC20 contracts revert or return no data; they are reported as failed.
+ */
+function decodeTokenBalance(
+  token: TokenIdentifier,
+  balance: EthereumMulticallResult,
+  decimals: EthereumMulticallResult
+): EthereumTokenBalance {
+  try {
+    if (balance.success && decimals.success) {
+      return {
+        token,
+        balance: new BigNumber(erc20Interface.decodeFunctionResult('balanceOf', balance.returnData)[0].toString()),
+        decimals: Number(erc20Interface.decodeFunctionResult('decimals', decimals.returnData)[0])
+      };
+    }
+  } catch {
+    // Return data that does not decode, such as the empty result of an address without code
+  }
+  return { token, error: `${token.tokenAddress} does not answer balanceOf and decimals, is it an ERC20 token?` };
+}
+
 /**
  * Ethereum blockchain wallet implementation supporting EVM-compatible chains.
  *
+ * Every EVM network uses ChainType.Ethereum; the network's chain ID selects its network profile,
+ * which holds the fee rules of L2s and sidechains such as OP-stack L1 data fees.
+ *
+ * In smart-account mode, transfers are sent from an ERC-4337 SimpleAccount owned by the wallet key,
+ * as user operations submitted to a bundler.
+ *
  * Uses the Strategy Pattern to handle different asset types (Native ETH/BNB and ERC20 tokens).
  * Each asset type has its own handler that encapsulates the specific logic for that asset type.
  *
@@ -53,239 +234,2055 @@ import { ConnectionManager } from './shared';
  */
 export class EthereumChainWallet extends BaseChainWallet {
   // Private fields
-  private wallet: Wallet | null = null;
+  private wallet: EthereumSigner | null = null;
   private readonly readyPromise: Promise<void>;
 
+  // Fee rules of the network
+  private readonly networkProfile: EthereumNetworkProfile;
+
   // Shared services
   private readonly connectionManager: ConnectionManager;
+  private readonly nonceManager: NonceManager;
+  private readonly feeManager: FeeManager;
+  private readonly contractClient: ContractClient;
+  private readonly multicallClient: MulticallClient;
+  // ERC-4337 account sending the transfers, in smart-account mode only
+  private readonly smartAccount?: SmartAccount;
 
   // Asset handlers
   private readonly assetHandlers: Map<ChainAssetType, BaseAssetHandler>;
+  // ERC1155 tokens share the ERC721 asset type, so this handler is not in the map
+  private erc1155Handler?: Erc1155TokenHandler;
 
-  constructor(chainInfo: ChainInfo, mnemonic: string, options?: { logger?: ILogger }) {
+  /**
+   * @param chainInfo - Chain configuration of the EVM network
+   * @param mnemonicOrSigner - Mnemonic phrase, a secp256k1 signer holding the wallet key, or an account to watch
+   * @param options - Logger, derivation options that only apply to mnemonics, network profile overrides,
+   * and the bundler and contracts of smart-account mode
+   */
+  constructor(
+    chainInfo: ChainInfo,
+    mnemonicOrSigner: string | ISigner | WatchOnlyAccount,
+    options?: {
+      logger?: ILogger;
+      networkProfile?: Partial<EthereumNetworkProfile>;
+      smartAccount?: EthereumSmartAccountConfig;
+    } & DerivationOptions
+  ) {
     if (chainInfo.chainId.chain !== CHAIN_CONFIG.CHAIN) {
       throw new NetworkError(HibitIdSdkErrorCode.INVALID_CONFIGURATION, ERROR_MESSAGES.INVALID_CHAIN);
     }
     const config: WalletConfig = {
       chainInfo,
-      logger: options?.logger
+      logger: options?.logger,
+      accountIndex: options?.accountIndex,
+      derivationPath: options?.derivationPath
     };
-    super(config, mnemonic);
+    super(config, mnemonicOrSigner);
+    this.networkProfile = getNetworkProfile(BigInt(chainInfo.chainId.network.toString()), options?.networkProfile);
 
     // Initialize shared services
-    this.connectionManager = new ConnectionManager(chainInfo, this.logger);
+    this.connectionManager = new ConnectionManager(
+      chainInfo,
+      this.logger,
+      (state, error) => this.setConnectionState(state, error),
+      this.endpointPool
+    );
+    this.nonceManager = new NonceManager(this.connectionManager, this.logger);
+    this.feeManager = new FeeManager(this.connectionManager, this.logger, this.networkProfile);
+    this.contractClient = new ContractClient(this.connectionManager, this.nonceManager, this.feeManager, this.logger);
+    this.multicallClient = new MulticallClient(this.connectionManager, this.logger);
+    if (options?.smartAccount) {
+      this.smartAccount = new SmartAccount(
+        options.smartAccount,
+        this.getEvmChainId(),
+        this.connectionManager,
+        this.feeManager,
+        this.logger
+      );
+    }
 
     // Initialize an asset handlers map
     this.assetHandlers = new Map();
 
     // Create a ready promise
     this.readyPromise = createReadyPromise(async () => {
-      await this.initializeWallet(mnemonic);
+      await this.initializeWallet();
       this.initializeAssetHandlers();
     });
   }
 
   // === PUBLIC METHODS ===
 
-  // === PROTECTED METHODS ===
+  /**
+   * Gets the fee rules of the wallet's network
+   * @returns The built-in profile of the network's chain ID, with the overrides passed to the constructor
+   */
+  public getNetworkProfile(): EthereumNetworkProfile {
+    return { ...this.networkProfile };
+  }
 
   /**
-   * Implementation of getAccount
+   * Gets the address of the wallet's ERC-4337 smart account
+   *
+   * The address is derived from the wallet key through the account factory, so it can receive
+   * funds before the account is deployed; the first transfer deploys it. getAccount still returns
+   * the address of the key, which signs the account's user operations.
+   *
+   * @returns A promise that resolves to the smart account address
+   * @throws {GeneralWalletError} When the wallet is not in smart-account mode
+   *
+   * @example
+   * ```typescript
+   * const wallet = new EthereumChainWallet(chainInfo, mnemonic, {
+   *   smartAccount: { bundlerUrl: 'https://bundler.example.com/rpc' }
+   * });
+   * const address = await wallet.getSmartAccountAddress();
+   * ```
    */
-  protected async getAccountImpl(): Promise<ChainAccount> {
+  @withLogging('Get smart account address', undefined, (result: string) => ({ address: result }))
+  @withErrorHandling({ errorType: 'general' }, 'Failed to get smart account address')
+  public async getSmartAccountAddress(): Promise<string> {
+    const smartAccount = this.getSmartAccount();
+    const owner = (await this.getAccountImpl()).address;
+    return this.endpointPool.execute(() => smartAccount.getAddress(owner));
+  }
+
+  /**
+   * Whether the wallet was constructed with the smartAccount option
+   * Transfers and contract calls are then executed by the smart account in user operations.
+   */
+  public isSmartAccountMode(): boolean {
+    return this.smartAccount !== undefined;
+  }
+
+  /**
+   * Estimates the fee of a transfer in the slow, normal and fast fee tiers
+   *
+   * On EIP-1559 networks the tiers pay the 10th, 50th and 90th percentile of the priority fees
+   * paid in recent blocks. estimateFee returns the expected fee of the transfer's `feeTier`.
+   *
+   * @param params - Parameters for the transfer
+   * @returns A promise that resolves to the gas limit and the gas prices and fees of every tier
+   *
+   * @example
+   * ```typescript
+   * const estimate = await wallet.estimateFeeTiers(params);
+   * console.log(`Fast: ${estimate.tiers.fast.fee} wei, at most ${estimate.tiers.fast.maxFee} wei`);
+   * const fastParams: EthereumTransferParams = { ...params, feeTier: 'fast' };
+   * await wallet.transfer(fastParams);
+   * ```
+   */
+  @withLogging(
+    'Estimate fee tiers',
+    (args: [TransferParams]) => ({
+      recipientAddress: args[0].recipientAddress,
+      amount: args[0].amount.toString(),
+      assetType: getAssetTypeName(args[0].token.assetType),
+      tokenAddress: args[0].token.tokenAddress || undefined
+    }),
+    (result: EthereumFeeEstimate) => ({
+      gasLimit: result.gasLimit.toString(),
+      normalFee: result.tiers.normal.fee.toString()
+    })
+  )
+  @withErrorHandling({ errorType: 'fee' }, 'Failed to estimate fee tiers')
+  public async estimateFeeTiers(params: TransferParams): Promise<EthereumFeeEstimate> {
+    return this.endpointPool.execute(() => this.estimateFeeTiersImpl(params));
+  }
+
+  /**
+   * Fetches the metadata of an NFT from its token URI (ERC-721 tokenURI, ERC-1155 uri)
+   *
+   * ipfs:// and ar:// URIs, including the metadata's image, are resolved to HTTPS gateways.
+   *
+   * @param token - ERC721 asset with the contract address and token ID; ERC-1155 contracts are detected
+   * @returns A promise that resolves to the token URI and its metadata
+   * @throws {ArgumentError} When the token is not an NFT or has no valid token ID
+   *
+   * @example
+   * ```typescript
+   * const metadata = await wallet.getNftMetadata({
+   *   assetType: ChainAssetType.ERC721,
+   *   tokenAddress: '0xBC4CA0EdA7647A8aB7C2061c2E118A18a936f13D',
+   *   tokenId: '1'
+   * });
+   * console.log(metadata.name, metadata.image);
+   * ```
+   */
+  @withLogging(
+    'Get NFT metadata',
+    (args: [TokenIdentifier]) => ({ tokenAddress: args[0].tokenAddress, tokenId: args[0].tokenId }),
+    (result: EthereumNftMetadata) => ({ tokenUri: result.tokenUri, name: result.name })
+  )
+  @withErrorHandling({ errorType: 'general' }, 'Failed to get NFT metadata')
+  public async getNftMetadata(token: TokenIdentifier): Promise<EthereumNftMetadata> {
+    await this.readyPromise;
+
+    if (token.assetType !== ChainAssetType.ERC721) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Metadata is only available for NFTs`,
+        { argumentName: 'token.assetType', expectedType: 'ERC721', providedValue: getAssetTypeName(token.assetType) }
+      );
+    }
+    await assertValidTokenAddressForBalance(token.tokenAddress, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+
+    // Only reading the token URI goes to the RPC endpoint, the metadata is fetched from wherever it points
+    const { handler, tokenUri } = await this.endpointPool.execute(async () => {
+      const handler = (await this.getTokenHandler(token)) as BaseNftHandler;
+      return { handler, tokenUri: await handler.getTokenUri(token) };
+    });
+    return handler.fetchMetadata(tokenUri);
+  }
+
+  /**
+   * Signs raw bytes as an EIP-191 personal message (personal_sign)
+   *
+   * signMessage signs the UTF-8 encoding of a string; use this for messages that are not text,
+   * such as a 32-byte hash.
+   *
+   * @param message - Bytes to sign
+   * @returns A promise that resolves to the 65-byte signature
+   *
+   * @example
+   * ```typescript
+   * const signature = await wallet.signMessageBytes(getBytes(orderHash));
+   * ```
+   */
+  @withLogging(
+    'Sign message bytes',
+    (args: [Uint8Array]) => ({ messageLength: args[0].length }),
+    (result: Uint8Array) => ({ signatureLength: result.length })
+  )
+  @withErrorHandling({ errorType: 'signing' }, 'Failed to sign message')
+  @cleanSensitiveData()
+  public async signMessageBytes(message: Uint8Array): Promise<Uint8Array> {
+    this.assertCanSign();
     await this.readyPromise;
 
     if (!this.wallet) {
       throw new Error(ERROR_MESSAGES.NOT_INITIALIZED);
     }
 
-    const chainId = new ChainId(this.chainInfo.chainId.chain, this.chainInfo.chainId.network);
-    const publicKeyHex = this.wallet.signingKey.publicKey.substring(2); // Remove '0x' prefix
-
-    return new ChainAccount(chainId, this.wallet.address, publicKeyHex);
+    const signature = await this.wallet.signMessage(message);
+    return base.fromHex(signature);
   }
 
   /**
-   * Implementation of balance query using strategy pattern
+   * Signs EIP-712 typed data (eth_signTypedData_v4)
+   *
+   * The domain must specify the chain id of the wallet's network, so the signature cannot be
+   * replayed on another chain. Use previewTypedData to show the user what they are signing.
+   *
+   * @param domain - Domain of the typed data
+   * @param types - Struct types of the message; an EIP712Domain entry is ignored
+   * @param value - Message to sign
+   * @returns A promise that resolves to the 65-byte signature
+   * @throws {ArgumentError} When the message does not match its types, or the domain is for another chain
+   *
+   * @example
+   * ```typescript
+   * const domain = { name: 'Ether Mail', version: '1', chainId: 1, verifyingContract: mailContract };
+   * const types = { Mail: [{ name: 'contents', type: 'string' }] };
+   * const preview = wallet.previewTypedData(domain, types, { contents: 'Hello, Bob!' });
+   * const signature = await wallet.signTypedData(domain, types, { contents: 'Hello, Bob!' });
+   * ```
    */
-  protected async balanceOfImpl(params: BalanceQueryParams): Promise<BigNumber> {
+  @withLogging(
+    'Sign typed data',
+    (args: [TypedDataDomain]) => ({ domainName: args[0].name, chainId: args[0].chainId?.toString() }),
+    (result: Uint8Array) => ({ signatureLength: result.length })
+  )
+  @withErrorHandling({ errorType: 'signing' }, 'Failed to sign typed data')
+  @cleanSensitiveData()
+  public async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<Uint8Array> {
+    this.assertCanSign();
     await this.readyPromise;
 
-    // Common validation: address format (applies to all asset types)
-    assertValidAddressForBalance(params.address, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
-
-    // Validate token address for ERC20
-    if (params.token?.assetType === ChainAssetType.ERC20) {
-      await assertValidTokenAddressForBalance(params.token.tokenAddress, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+    if (!this.wallet) {
+      throw new Error(ERROR_MESSAGES.NOT_INITIALIZED);
     }
 
-    const handler = this.getAssetHandler(params.token?.assetType);
-    return await handler.balanceOf(params);
+    assertValidTypedData(domain, types, value, this.getEvmChainId());
+    const signature = await this.wallet.signTypedData(domain, getMessageTypes(types), value);
+
+    return base.fromHex(signature);
   }
 
   /**
-   * Implementation of transfer using strategy pattern
+   * Prepares EIP-712 typed data for a confirmation screen
+   *
+   * Integers are shown in decimal, addresses checksummed and bytes hex-encoded; structs and
+   * arrays list their members as children.
+   *
+   * @param domain - Domain of the typed data
+   * @param types - Struct types of the message; an EIP712Domain entry is ignored
+   * @param value - Message to sign
+   * @returns The primary type and the fields of the domain and the message
+   * @throws {ArgumentError} When the message does not match its types, or the domain is for another chain
    */
-  protected async transferImpl(params: TransferParams): Promise<string> {
-    await this.readyPromise;
+  public previewTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): EthereumTypedDataPreview {
+    assertValidTypedData(domain, types, value, this.getEvmChainId());
+    return createTypedDataPreview(domain, types, value);
+  }
 
-    // Common validation: recipient address and transfer amount (applies to all asset types)
-    assertValidAddressForTransaction(params.recipientAddress, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
-    assertValidTransferAmount(params.amount, CHAIN_CONFIG.CHAIN_NAME);
+  /**
+   * Cancels a pending transaction by replacing it with a zero-value transfer to the wallet itself
+   *
+   * The replacement reuses the nonce with fees raised above those of the pending transaction, so
+   * miners prefer it and the original transaction can no longer be mined.
+   *
+   * @param nonce - Nonce of the pending transaction
+   * @returns A promise that resolves to the hash of the replacement transaction
+   * @throws {ArgumentError} When the nonce is already mined or not used by a pending transaction
+   *
+   * @example
+   * ```typescript
+   * const txHash = await wallet.cancelNonce(42);
+   * await wallet.waitForConfirmation({ txHash });
+   * ```
+   */
+  @withLogging(
+    'Cancel transaction by nonce',
+    (args: [number]) => ({ nonce: args[0] }),
+    (result: string) => ({ txHash: result })
+  )
+  @withErrorHandling({ errorType: 'transaction' }, 'Failed to cancel transaction')
+  public async cancelNonce(nonce: number): Promise<string> {
+    this.assertCanSign();
+    await this.readyPromise;
 
-    // Validate token address for ERC20
-    if (params.token?.assetType === ChainAssetType.ERC20) {
-      await assertValidTokenAddressForTransaction(
-        params.token.tokenAddress,
-        CHAIN_CONFIG.CHAIN,
-        CHAIN_CONFIG.CHAIN_NAME
-      );
+    if (!this.wallet) {
+      throw new Error(ERROR_MESSAGES.NOT_INITIALIZED);
     }
 
-    const handler = this.getAssetHandler(params.token?.assetType);
-    return await handler.transfer(params);
+    const request = { to: this.wallet.address, value: 0n };
+    return this.executeWithoutRetry(() => this.sendReplacement(nonce, request));
   }
 
   /**
-   * Implementation of fee estimation using strategy pattern
+   * Speeds up a pending transaction by re-sending it with the same nonce and higher fees
+   *
+   * The replacement keeps the recipient, value, data and gas limit of the pending transaction.
+   * Its fees are raised by `feeBump` percent, and at least to the current fast fee tier.
+   *
+   * @param txHash - Hash of the pending transaction
+   * @param feeBump - Fee increase in percent (default: 15, minimum: 10)
+   * @returns A promise that resolves to the hash of the replacement transaction
+   * @throws {ArgumentError} When the transaction is unknown, already mined or not sent by this wallet
+   *
+   * @example
+   * ```typescript
+   * const txHash = await wallet.speedUpTransaction(pendingTxHash, 25);
+   * await wallet.waitForConfirmation({ txHash });
+   * ```
    */
-  protected async estimateFeeImpl(params: TransferParams): Promise<BigNumber> {
+  @withLogging(
+    'Speed up transaction',
+    (args: [string, number?]) => ({ txHash: args[0], feeBump: args[1] }),
+    (result: string) => ({ replacementTxHash: result })
+  )
+  @withErrorHandling({ errorType: 'transaction' }, 'Failed to speed up transaction')
+  public async speedUpTransaction(
+    txHash: string,
+    feeBump: number = NONCE_CONFIG.REPLACEMENT_FEE_BUMP_PERCENT
+  ): Promise<string> {
+    this.assertCanSign();
     await this.readyPromise;
 
-    assertValidAddressForFeeEstimation(params.recipientAddress, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
-    assertValidAmountForFeeEstimation(params.amount, CHAIN_CONFIG.CHAIN_NAME);
-
-    // Validate token address for ERC20
-    if (params.token?.assetType === ChainAssetType.ERC20) {
-      await assertValidTokenAddressForFeeEstimation(
-        params.token.tokenAddress,
-        CHAIN_CONFIG.CHAIN,
-        CHAIN_CONFIG.CHAIN_NAME
+    if (!Number.isFinite(feeBump) || feeBump < NONCE_CONFIG.MIN_REPLACEMENT_FEE_BUMP_PERCENT) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Fee bump must be at least ${NONCE_CONFIG.MIN_REPLACEMENT_FEE_BUMP_PERCENT}%`,
+        { argumentName: 'feeBump', expectedType: 'number', providedValue: String(feeBump) }
       );
     }
 
-    const handler = this.getAssetHandler(params.token?.assetType);
-    return await handler.estimateFee(params);
+    return this.executeWithoutRetry(async () => {
+      const replaced = await this.getReplaceableTransaction(txHash);
+      const request: TransactionRequest = {
+        to: replaced.to,
+        value: replaced.value,
+        data: replaced.data,
+        gasLimit: replaced.gasLimit,
+        accessList: replaced.accessList
+      };
+      return this.sendReplacement(replaced.nonce, request, { replaced, feeBump });
+    });
   }
 
   /**
-   * Implementation of message signing
-   * Note: Message signing is only supported for the native chain wallet
+   * Cancels a pending transaction by replacing it with a zero-value transfer to the wallet itself
+   *
+   * @param txHash - Hash of the pending transaction
+   * @returns A promise that resolves to the hash of the replacement transaction
+   * @throws {ArgumentError} When the transaction is unknown, already mined or not sent by this wallet
+   *
+   * @example
+   * ```typescript
+   * const txHash = await wallet.cancelTransaction(pendingTxHash);
+   * await wallet.waitForConfirmation({ txHash });
+   * ```
    */
-  protected async signMessageImpl(params: SignMessageParams): Promise<Uint8Array> {
+  @withLogging(
+    'Cancel transaction',
+    (args: [string]) => ({ txHash: args[0] }),
+    (result: string) => ({ replacementTxHash: result })
+  )
+  @withErrorHandling({ errorType: 'transaction' }, 'Failed to cancel transaction')
+  public async cancelTransaction(txHash: string): Promise<string> {
+    this.assertCanSign();
     await this.readyPromise;
 
     if (!this.wallet) {
       throw new Error(ERROR_MESSAGES.NOT_INITIALIZED);
     }
 
-    const signature = await this.wallet.signMessage(params.message);
+    const request = { to: this.wallet.address, value: 0n };
+    return this.executeWithoutRetry(async () => {
+      const replaced = await this.getReplaceableTransaction(txHash);
+      return this.sendReplacement(replaced.nonce, request, { replaced });
+    });
+  }
 
-    // Convert hex signature to Uint8Array using unified hex utilities
-    return base.fromHex(signature);
+  /**
+   * Approves a spender to transfer up to `amount` of the wallet's ERC20 tokens
+   *
+   * The allowance replaces the current one. Approving MaxUint256 grants an infinite allowance,
+   * which is logged as a warning: the spender can then move every token the wallet ever holds.
+   *
+   * @param params - Token, spender, allowance in smallest unit and fee tier
+   * @returns A promise that resolves to the transaction hash
+   * @throws {ArgumentError} When the token is not ERC20, or the spender or amount is invalid
+   *
+   * @example
+   * ```typescript
+   * const txHash = await wallet.approve({
+   *   token: { assetType: ChainAssetType.ERC20, tokenAddress: usdcAddress },
+   *   spender: routerAddress,
+   *   amount: new BigNumber('250000000') // 250 USDC
+   * });
+   * ```
+   */
+  @withLogging(
+    'Approve ERC20 allowance',
+    (args: [EthereumApprovalParams]) => ({
+      tokenAddress: args[0].token.tokenAddress,
+      spender: args[0].spender,
+      amount: args[0].amount.toString()
+    }),
+    (result: string) => ({ txHash: result })
+  )
+  @withErrorHandling({ errorType: 'transaction' }, 'Failed to approve allowance')
+  public async approve(params: EthereumApprovalParams): Promise<string> {
+    this.assertCanSign();
+    await this.readyPromise;
+
+    this.assertValidApproval(params);
+    return this.executeWithoutRetry(() => this.sendApproval(params));
   }
 
   /**
-   * Clean up resources when wallet is no longer needed
+   * Raises the allowance of a spender by `amount`, up to MaxUint256
+   *
+   * ERC20 has no atomic increase, so this approves the current allowance plus `amount`. An
+   * allowance the spender uses in between is granted again.
+   *
+   * @param params - Token, spender, increase in smallest unit and fee tier
+   * @returns A promise that resolves to the transaction hash
+   * @throws {ArgumentError} When the token is not ERC20, or the spender or amount is invalid
    */
-  protected destroyImpl(): void {
-    // Clean up shared services
-    this.connectionManager.cleanup();
+  @withLogging(
+    'Increase ERC20 allowance',
+    (args: [EthereumApprovalParams]) => ({
+      tokenAddress: args[0].token.tokenAddress,
+      spender: args[0].spender,
+      increase: args[0].amount.toString()
+    }),
+    (result: string) => ({ txHash: result })
+  )
+  @withErrorHandling({ errorType: 'transaction' }, 'Failed to increase allowance')
+  public async increaseAllowance(params: EthereumApprovalParams): Promise<string> {
+    this.assertCanSign();
+    await this.readyPromise;
 
-    // Clean up asset handlers
-    this.assetHandlers.clear();
+    this.assertValidApproval(params);
+    const owner = (await this.getAccountImpl()).address;
 
-    // Clean up wallet reference
-    this.wallet = null;
+    return this.executeWithoutRetry(async () => {
+      const current = await this.getErc20Handler().getAllowance(params.token.tokenAddress!, owner, params.spender);
+      const increased = BigNumber.min(current.amount.plus(params.amount), MaxUint256.toString());
+      return this.sendApproval({ ...params, amount: increased });
+    });
+  }
 
-    // Clean up any remaining references
-    cleanupReferences(this, ['readyPromise']);
+  /**
+   * Gets the allowance an owner granted a spender on an ERC20 token
+   *
+   * @param token - ERC20 token
+   * @param spender - Address allowed to spend the tokens
+   * @param owner - Address whose tokens may be spent (default: the wallet's address)
+   * @returns A promise that resolves to the allowance in smallest unit and whether it is infinite
+   * @throws {ArgumentError} When the token is not ERC20 or an address is invalid
+   */
+  @withLogging(
+    'Get ERC20 allowance',
+    (args: [TokenIdentifier, string, string?]) => ({ tokenAddress: args[0].tokenAddress, spender: args[1] }),
+    (result: EthereumAllowance) => ({ amount: result.amount.toString(), isInfinite: result.isInfinite })
+  )
+  @withErrorHandling({ errorType: 'balance' }, 'Failed to get allowance')
+  public async getAllowance(token: TokenIdentifier, spender: string, owner?: string): Promise<EthereumAllowance> {
+    await this.readyPromise;
+
+    this.assertErc20Token(token);
+    assertValidAddressForBalance(spender, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+    if (owner !== undefined) {
+      assertValidAddressForBalance(owner, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+    }
+    const ownerAddress = owner ?? (await this.getAccountImpl()).address;
+
+    return this.endpointPool.execute(() =>
+      this.getErc20Handler().getAllowance(token.tokenAddress!, ownerAddress, spender)
+    );
   }
 
   /**
-   * Implementation of transaction confirmation waiting
+   * Revokes the allowance of a spender by approving zero
+   *
+   * @param token - ERC20 token
+   * @param spender - Address whose allowance is revoked
+   * @param feeTier - Fee tier of the transaction (default: normal)
+   * @returns A promise that resolves to the transaction hash
+   * @throws {ArgumentError} When the token is not ERC20, the spender is invalid or has no allowance
+   *
+   * @example
+   * ```typescript
+   * const token = { assetType: ChainAssetType.ERC20, tokenAddress: usdcAddress };
+   * for (const allowance of await wallet.listAllowances(token)) {
+   *   if (allowance.isInfinite) {
+   *     await wallet.revokeAllowance(token, allowance.spender);
+   *   }
+   * }
+   * ```
    */
-  protected async waitForConfirmationImpl(
-    params: TransactionConfirmationParams
-  ): Promise<TransactionConfirmationResult> {
+  @withLogging(
+    'Revoke ERC20 allowance',
+    (args: [TokenIdentifier, string, EthereumFeeTier?]) => ({ tokenAddress: args[0].tokenAddress, spender: args[1] }),
+    (result: string) => ({ txHash: result })
+  )
+  @withErrorHandling({ errorType: 'transaction' }, 'Failed to revoke allowance')
+  public async revokeAllowance(token: TokenIdentifier, spender: string, feeTier?: EthereumFeeTier): Promise<string> {
+    this.assertCanSign();
     await this.readyPromise;
 
-    const provider = this.connectionManager.getProvider();
-    const requiredConfirmations = params.requiredConfirmations ?? 1;
-    const timeoutMs = params.timeoutMs ?? 300000; // 5 minutes default
+    const params: EthereumApprovalParams = { token, spender, amount: new BigNumber(0), feeTier };
+    this.assertValidApproval(params);
+    const owner = (await this.getAccountImpl()).address;
 
-    // Use ethers.js built-in waitForTransaction method
-    const receipt = await provider.waitForTransaction(params.txHash, requiredConfirmations, timeoutMs);
+    return this.executeWithoutRetry(async () => {
+      const current = await this.getErc20Handler().getAllowance(token.tokenAddress!, owner, spender);
+      if (current.amount.isZero()) {
+        throw new ArgumentError(
+          HibitIdSdkErrorCode.INVALID_ARGUMENT,
+          `${CHAIN_CONFIG.CHAIN_NAME}: Spender ${spender} has no allowance to revoke`,
+          { argumentName: 'spender', providedValue: spender }
+        );
+      }
+      return this.sendApproval(params);
+    });
+  }
 
-    if (!receipt) {
-      return {
-        isConfirmed: false,
-        confirmations: 0,
-        requiredConfirmations,
-        status: 'timeout'
-      };
+  /**
+   * Lists the spenders an owner still has an allowance with on an ERC20 token
+   *
+   * Spenders are found in the Approval logs of recent blocks, or of the blocks from `fromBlock`
+   * on; allowances that were spent or revoked since are left out. Use it to find and revoke
+   * risky approvals, such as infinite ones.
+   *
+   * @param token - ERC20 token
+   * @param options - Owner (default: the wallet's address) and first block to scan
+   * @returns A promise that resolves to the allowances, most recently approved first
+   * @throws {ArgumentError} When the token is not ERC20 or the owner is invalid
+   */
+  @withLogging(
+    'List ERC20 allowances',
+    (args: [TokenIdentifier, { owner?: string; fromBlock?: number }?]) => ({
+      tokenAddress: args[0].tokenAddress,
+      owner: args[1]?.owner,
+      fromBlock: args[1]?.fromBlock
+    }),
+    (result: EthereumAllowance[]) => ({
+      count: result.length,
+      infinite: result.filter((allowance) => allowance.isInfinite).length
+    })
+  )
+  @withErrorHandling({ errorType: 'balance' }, 'Failed to list allowances')
+  public async listAllowances(
+    token: TokenIdentifier,
+    options: { owner?: string; fromBlock?: number } = {}
+  ): Promise<EthereumAllowance[]> {
+    await this.readyPromise;
+
+    this.assertErc20Token(token);
+    if (options.owner !== undefined) {
+      assertValidAddressForBalance(options.owner, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
     }
+    if (options.fromBlock !== undefined && !(Number.isInteger(options.fromBlock) && options.fromBlock >= 0)) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: fromBlock must be a non-negative integer`,
+        { argumentName: 'fromBlock', expectedType: 'number', providedValue: String(options.fromBlock) }
+      );
+    }
+    const owner = options.owner ?? (await this.getAccountImpl()).address;
 
-    // Calculate current confirmations
-    const currentBlockNumber = await provider.getBlockNumber();
-    const confirmations = currentBlockNumber - receipt.blockNumber + 1;
+    return this.endpointPool.execute(() =>
+      this.getErc20Handler().listAllowances(token.tokenAddress!, owner, options.fromBlock)
+    );
+  }
 
-    // Call progress callback if provided
-    if (params.onConfirmationUpdate) {
-      params.onConfirmationUpdate(confirmations, requiredConfirmations);
+  /**
+   * Signs an EIP-2612 permit, a gasless approval of a spender
+   *
+   * The spender submits the permit to the token's permit function, usually in the transaction
+   * that spends the tokens, so no separate approve transaction is needed. The permit is signed
+   * by the wallet key; the token must implement EIP-2612 with the standard EIP-712 domain.
+   *
+   * @param token - ERC20 token implementing EIP-2612
+   * @param spender - Address allowed to spend the tokens
+   * @param value - Allowance in the token's smallest unit
+   * @param deadline - Unix time in seconds until which the permit can be submitted
+   * @returns A promise that resolves to the permit message and its signature, also split into v, r and s
+   * @throws {ArgumentError} When the token is not ERC20, or the spender, value or deadline is invalid
+   * @throws {GeneralWalletError} When the token does not support EIP-2612 permits
+   *
+   * @example
+   * ```typescript
+   * const permit = await wallet.signPermit(
+   *   { assetType: ChainAssetType.ERC20, tokenAddress: usdcAddress },
+   *   routerAddress,
+   *   new BigNumber('250000000'), // 250 USDC
+   *   Math.floor(Date.now() / 1000) + 30 * 60
+   * );
+   * // router.permit(permit.owner, permit.spender, permit.value, permit.deadline, permit.v, permit.r, permit.s)
+   * ```
+   */
+  @withLogging(
+    'Sign ERC20 permit',
+    (args: [TokenIdentifier, string, BigNumber, number]) => ({
+      tokenAddress: args[0].tokenAddress,
+      spender: args[1],
+      value: args[2].toString(),
+      deadline: args[3]
+    }),
+    (result: EthereumPermit) => ({ nonce: result.nonce.toString() })
+  )
+  @withErrorHandling({ errorType: 'signing' }, 'Failed to sign permit')
+  @cleanSensitiveData()
+  public async signPermit(
+    token: TokenIdentifier,
+    spender: string,
+    value: BigNumber,
+    deadline: number
+  ): Promise<EthereumPermit> {
+    this.assertCanSign();
+    await this.readyPromise;
+
+    if (!this.wallet) {
+      throw new Error(ERROR_MESSAGES.NOT_INITIALIZED);
     }
 
-    // Check transaction status
-    const isConfirmed = receipt.status === 1 && confirmations >= requiredConfirmations;
-    const status = receipt.status === 0 ? 'failed' : isConfirmed ? 'confirmed' : 'pending';
+    this.assertValidApproval({ token, spender, amount: value });
+    assertFutureTimestamp(deadline, 'deadline');
 
-    return {
-      isConfirmed,
-      confirmations,
-      requiredConfirmations,
-      status,
-      blockHash: receipt.blockHash,
-      blockNumber: receipt.blockNumber,
-      gasUsed: receipt.gasUsed,
-      transactionFee: new BigNumber(receipt.gasUsed.toString()).multipliedBy(receipt.gasPrice?.toString() || '0')
-    };
+    const owner = this.wallet.address;
+    const { domain, nonce } = await this.endpointPool.execute(() =>
+      this.getErc20Handler().getPermitData(token.tokenAddress!, owner, this.getEvmChainId())
+    );
+    const message = { owner, spender: getAddress(spender), value: BigInt(value.toFixed()), nonce, deadline };
+    const signature = await this.wallet.signTypedData(domain, PERMIT_TYPES, message);
+    const { v, r, s } = Signature.from(signature);
+
+    return { ...message, value, signature, v, r, s };
   }
 
-  // === PRIVATE METHODS ===
+  /**
+   * Signs a Uniswap Permit2 PermitSingle, a gasless allowance of a spender through Permit2
+   *
+   * Works with any ERC20 token once the owner approved the Permit2 contract, e.g. with
+   * `approve({ token, spender: PERMIT_CONFIG.PERMIT2_ADDRESS, amount: MaxUint256 })`.
+   * The spender submits the permit to Permit2's permit function.
+   *
+   * @param allowance - Token, amount (at most uint160) and expiration of the allowance
+   * @param spender - Address allowed to spend the tokens
+   * @param sigDeadline - Unix time in seconds until which the permit can be submitted
+   * @returns A promise that resolves to the owner, the permit and its signature
+   * @throws {ArgumentError} When the token, spender, amount, expiration or deadline is invalid
+   */
+  @withLogging(
+    'Sign Permit2 permit',
+    (args: [EthereumPermit2Allowance, string, number]) => ({
+      tokenAddress: args[0].token.tokenAddress,
+      spender: args[1],
+      amount: args[0].amount.toString()
+    }),
+    (result: EthereumSignedPermit2<EthereumPermitSingle>) => ({ nonce: result.permit.details.nonce })
+  )
+  @withErrorHandling({ errorType: 'signing' }, 'Failed to sign Permit2 permit')
+  @cleanSensitiveData()
+  public async signPermit2(
+    allowance: EthereumPermit2Allowance,
+    spender: string,
+    sigDeadline: number
+  ): Promise<EthereumSignedPermit2<EthereumPermitSingle>> {
+    this.assertCanSign();
+    await this.readyPromise;
+
+    const { owner, details } = await this.getPermit2Details([allowance], spender, sigDeadline);
+    const permit = { details: details[0], spender: getAddress(spender), sigDeadline };
+    const signature = await this.signPermit2Message(PERMIT_SINGLE_TYPES, permit);
+
+    return { owner, permit, signature };
+  }
 
   /**
-   * Initialize the wallet from a mnemonic
-   * @private
+   * Signs a Uniswap Permit2 PermitBatch, gasless allowances of a spender on several tokens
+   *
+   * As signPermit2, for several tokens with one signature. The owner must have approved the
+   * Permit2 contract on every token.
+   *
+   * @param allowances - Token, amount (at most uint160) and expiration of every allowance
+   * @param spender - Address allowed to spend the tokens
+   * @param sigDeadline - Unix time in seconds until which the permit can be submitted
+   * @returns A promise that resolves to the owner, the permit and its signature
+   * @throws {ArgumentError} When there are no allowances, or any of them, the spender or deadline is invalid
    */
-  @withLogging('Initialize wallet')
+  @withLogging(
+    'Sign Permit2 batch permit',
+    (args: [EthereumPermit2Allowance[], string, number]) => ({ tokens: args[0].length, spender: args[1] }),
+    (result: EthereumSignedPermit2<EthereumPermitBatch>) => ({ tokens: result.permit.details.length })
+  )
+  @withErrorHandling({ errorType: 'signing' }, 'Failed to sign Permit2 batch permit')
   @cleanSensitiveData()
-  private async initializeWallet(mnemonic: string): Promise<void> {
-    if (!mnemonic || mnemonic.trim() === '') {
-      throw new MnemonicError(HibitIdSdkErrorCode.INVALID_MNEMONIC, `${CHAIN_CONFIG.CHAIN_NAME}: Empty mnemonic`);
+  public async signPermit2Batch(
+    allowances: EthereumPermit2Allowance[],
+    spender: string,
+    sigDeadline: number
+  ): Promise<EthereumSignedPermit2<EthereumPermitBatch>> {
+    this.assertCanSign();
+    await this.readyPromise;
+
+    if (allowances.length === 0) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: A Permit2 batch permit needs at least one allowance`,
+        { argumentName: 'allowances', expectedType: 'non-empty array', providedValue: '[]' }
+      );
     }
+    const { owner, details } = await this.getPermit2Details(allowances, spender, sigDeadline);
+    const permit = { details, spender: getAddress(spender), sigDeadline };
+    const signature = await this.signPermit2Message(PERMIT_BATCH_TYPES, permit);
+
+    return { owner, permit, signature };
+  }
 
-    // Derive private key from mnemonic
-    const privateKeyHex = await deriveEcdsaPrivateKey(mnemonic, CHAIN_CONFIG.DERIVING_PATH);
+  /**
+   * Reads a contract function with eth_call
+   *
+   * Arguments are encoded and the result decoded with the ABI. The call is made from the wallet's
+   * address, or its smart account in smart-account mode, so functions reading msg.sender see the wallet.
+   *
+   * @param params - Contract address, ABI, function, arguments and value
+   * @returns A promise that resolves to the value of a single output, or a Result of several outputs
+   * @throws {ArgumentError} When the address or value is invalid, or the arguments do not match the function
+   * @throws {GeneralWalletError} When the call reverts, with the revert reason in the message and details
+   *
+   * @example
+   * ```typescript
+   * const [reserve0, reserve1] = await wallet.readContract<Result>({
+   *   to: pairAddress,
+   *   abi: ['function getReserves() view returns (uint112, uint112, uint32)'],
+   *   method: 'getReserves'
+   * });
+   * ```
+   */
+  @withLogging('Read contract', (args: [EthereumContractReadParams]) => ({ to: args[0].to, method: args[0].method }))
+  @withErrorHandling({ errorType: 'general' }, 'Failed to read contract')
+  public async readContract<T = unknown>(params: EthereumContractReadParams): Promise<T> {
+    await this.readyPromise;
 
-    // Create a wallet instance
-    this.wallet = new Wallet(privateKeyHex);
+    assertValidContractCall(params);
+    const owner = (await this.getAccountImpl()).address;
 
-    // Initialize connection manager with wallet
-    this.connectionManager.initialize(this.wallet);
+    const result = await this.endpointPool.execute(async () => {
+      const from = this.smartAccount ? await this.smartAccount.getAddress(owner) : owner;
+      return this.contractClient.read(params, from);
+    });
+    return result as T;
   }
 
   /**
-   * Initialize asset handlers after wallet is ready
-   * @private
+   * Calls a contract function in a transaction
+   *
+   * The call is estimated before it is signed, so a call that would revert fails with its revert
+   * reason and nothing is sent. In smart-account mode the call is executed by the smart account in
+   * a user operation, whose hash is returned.
+   *
+   * @param params - Contract address, ABI, function, arguments, value and fee tier
+   * @returns A promise that resolves to the transaction hash
+   * @throws {ArgumentError} When the address, value or fee tier is invalid, or the arguments do not match the function
+   * @throws {GeneralWalletError} When the call reverts, with the revert reason in the message and details
+   *
+   * @example
+   * ```typescript
+   * const txHash = await wallet.callContract({
+   *   to: wethAddress,
+   *   abi: ['function deposit() payable'],
+   *   method: 'deposit',
+   *   value: new BigNumber('1000000000000000000') // 1 ETH
+   * });
+   * ```
    */
-  private initializeAssetHandlers(): void {
-    // Create and register Native handler
-    const nativeHandler = new EthNativeHandler(this.connectionManager, this.logger);
-    this.assetHandlers.set(ChainAssetType.Native, nativeHandler);
+  @withLogging(
+    'Call contract',
+    (args: [EthereumContractCallParams]) => ({
+      to: args[0].to,
+      method: args[0].method,
+      value: args[0].value?.toString()
+    }),
+    (result: string) => ({ txHash: result })
+  )
+  @withErrorHandling({ errorType: 'transaction' }, 'Failed to call contract')
+  public async callContract(params: EthereumContractCallParams): Promise<string> {
+    this.assertCanSign();
+    await this.readyPromise;
 
-    // Create and register ERC20 handler
-    const erc20Handler = new Erc20TokenHandler(this.connectionManager, this.logger);
-    this.assetHandlers.set(ChainAssetType.ERC20, erc20Handler);
+    assertValidContractCall(params);
+    assertValidFeeTier(params.feeTier ?? FEE_CONFIG.DEFAULT_TIER);
+
+    return this.executeWithoutRetry(async () => {
+      if (this.smartAccount) {
+        return this.executeUserOperation([this.contractClient.buildCall(params)], params.feeTier);
+      }
+      const data = await this.contractClient.buildTransaction(params);
+      // The unsigned transaction records the contract as its recipient and the value as its amount
+      const transfer: TransferParams = {
+        recipientAddress: createAddress(params.to, CHAIN_CONFIG.CHAIN),
+        amount: params.value ?? new BigNumber(0),
+        token: { assetType: ChainAssetType.Native }
+      };
+      return this.signAndBroadcast(createUnsignedTransaction(this.chainInfo, transfer, data));
+    });
+  }
+
+  /**
+   * Sends a transaction of already encoded call data
+   *
+   * For callers that encode calls themselves, such as dapps using the EIP-1193 provider; prefer
+   * callContract, which encodes the call from the ABI and decodes custom errors of reverts. The
+   * transaction is estimated before it is signed, so one that would revert is not sent. In
+   * smart-account mode it is executed by the smart account in a user operation, whose hash is returned.
+   *
+   * @param params - Recipient, value, call data and fee tier
+   * @returns A promise that resolves to the transaction hash
+   * @throws {ArgumentError} When the recipient, value, data or fee tier is invalid
+   * @throws {GeneralWalletError} When the transaction reverts, with the revert reason in the message and details
+   *
+   * @example
+   * ```typescript
+   * const txHash = await wallet.sendTransaction({ to: routerAddress, data: swapCallData });
+   * ```
+   */
+  @withLogging(
+    'Send transaction',
+    (args: [EthereumTransactionParams]) => ({ to: args[0].to, value: args[0].value?.toString() }),
+    (result: string) => ({ txHash: result })
+  )
+  @withErrorHandling({ errorType: 'transaction' }, 'Failed to send transaction')
+  public async sendTransaction(params: EthereumTransactionParams): Promise<string> {
+    this.assertCanSign();
+    await this.readyPromise;
+
+    assertValidContractCall(params);
+    if (params.data !== undefined && !isHexString(params.data)) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Transaction data must be hex-encoded bytes`,
+        { argumentName: 'data', expectedType: 'hex string', providedValue: params.data }
+      );
+    }
+    assertValidFeeTier(params.feeTier ?? FEE_CONFIG.DEFAULT_TIER);
+    const call: EthereumCall = {
+      to: params.to,
+      value: params.value ? BigInt(params.value.toFixed()) : 0n,
+      data: params.data ?? '0x'
+    };
+
+    return this.executeWithoutRetry(async () => {
+      if (this.smartAccount) {
+        return this.executeUserOperation([call], params.feeTier);
+      }
+      const data = await this.contractClient.buildRawTransaction(call, params.feeTier);
+      // The unsigned transaction records the recipient and the value as its amount
+      const transfer: TransferParams = {
+        recipientAddress: createAddress(params.to, CHAIN_CONFIG.CHAIN),
+        amount: params.value ?? new BigNumber(0),
+        token: { assetType: ChainAssetType.Native }
+      };
+      return this.signAndBroadcast(createUnsignedTransaction(this.chainInfo, transfer, data));
+    });
+  }
+
+  /**
+   * Resolves an ENS name to its address
+   *
+   * Transfers accept ENS names as recipients and resolve them themselves; use this to show the
+   * user the address before sending. buildTransfer records the resolved address as recipient too.
+   *
+   * @param name - ENS name, e.g. vitalik.eth
+   * @returns A promise that resolves to the address, or null without an address or ENS on the network
+   * @throws {ArgumentError} When the name is not an ENS name
+   *
+   * @example
+   * ```typescript
+   * const address = await wallet.resolveName('vitalik.eth');
+   * if (address) {
+   *   await wallet.transfer({ recipientAddress: createEnsRecipient('vitalik.eth'), amount, token });
+   * }
+   * ```
+   */
+  @withLogging(
+    'Resolve ENS name',
+    (args: [string]) => ({ name: args[0] }),
+    (result: string | null) => ({ address: result ?? undefined })
+  )
+  @withErrorHandling({ errorType: 'general' }, 'Failed to resolve ENS name')
+  public async resolveName(name: string): Promise<string | null> {
+    await this.readyPromise;
+
+    if (!isEnsName(name)) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: ${name} is not an ENS name`,
+        { argumentName: 'name', expectedType: 'ENS name', providedValue: name }
+      );
+    }
+    return this.endpointPool.execute(() => this.resolveNameImpl(name));
+  }
+
+  /**
+   * Looks up the primary ENS name of an address (reverse resolution)
+   *
+   * A name is only returned when it resolves back to the address, so it can be displayed in
+   * place of the address.
+   *
+   * @param address - Address to look up
+   * @returns A promise that resolves to the name, or null without a primary name or ENS on the network
+   * @throws {BalanceQueryError} When the address is invalid
+   */
+  @withLogging(
+    'Look up ENS name',
+    (args: [string]) => ({ address: args[0] }),
+    (result: string | null) => ({ name: result ?? undefined })
+  )
+  @withErrorHandling({ errorType: 'general' }, 'Failed to look up ENS name')
+  public async lookupName(address: string): Promise<string | null> {
+    await this.readyPromise;
+
+    assertValidAddressForBalance(address, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+
+    return this.endpointPool.execute(async () => {
+      try {
+        return await this.connectionManager.getProvider().lookupAddress(address);
+      } catch (error) {
+        // Networks without an ENS registry
+        if (isError(error, 'UNSUPPORTED_OPERATION')) {
+          return null;
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Gets the balances and decimals of native and ERC20 tokens in one request
+   *
+   * The balances are read in Multicall3 aggregate3 batches, so a portfolio is read in a single
+   * round-trip; networks without Multicall3 are queried with one request per token instead. A token
+   * that cannot be read, such as an address that is not an ERC20 contract, has an error instead of a
+   * balance and does not fail the others.
+   *
+   * @param address - Address whose balances to get
+   * @param tokens - Native and ERC20 tokens
+   * @returns A promise that resolves to the balance of every token in smallest unit, in order
+   * @throws {ArgumentError} When a token is not native or ERC20
+   *
+   * @example
+   * ```typescript
+   * const balances = await wallet.balancesOf(address, [
+   *   { assetType: ChainAssetType.Native },
+   *   { assetType: ChainAssetType.ERC20, tokenAddress: usdcAddress }
+   * ]);
+   * for (const { token, balance, decimals, error } of balances) {
+   *   console.log(token.tokenAddress ?? 'ETH', error ?? balance!.shiftedBy(-decimals!).toString());
+   * }
+   * ```
+   */
+  @withLogging(
+    'Get balances',
+    (args: [string, TokenIdentifier[]]) => ({ address: args[0], tokens: args[1].length }),
+    (result: EthereumTokenBalance[]) => ({ failed: result.filter((balance) => balance.error).length })
+  )
+  @withErrorHandling({ errorType: 'balance' }, 'Failed to get balances')
+  public async balancesOf(address: string, tokens: TokenIdentifier[]): Promise<EthereumTokenBalance[]> {
+    await this.readyPromise;
+
+    assertValidAddressForBalance(address, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+    for (const token of tokens) {
+      if (token.assetType === ChainAssetType.ERC20) {
+        await assertValidTokenAddressForBalance(token.tokenAddress, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+      } else if (token.assetType !== ChainAssetType.Native) {
+        throw new ArgumentError(
+          HibitIdSdkErrorCode.INVALID_ARGUMENT,
+          `${CHAIN_CONFIG.CHAIN_NAME}: Batched balances are only available for native and ERC20 tokens`,
+          {
+            argumentName: 'tokens',
+            expectedType: 'Native or ERC20',
+            providedValue: getAssetTypeName(token.assetType)
+          }
+        );
+      }
+    }
+    if (tokens.length === 0) {
+      return [];
+    }
+
+    return this.endpointPool.execute(async () => {
+      if (await this.multicallClient.isAvailable()) {
+        return this.readBalancesWithMulticall(address, tokens);
+      }
+      return Promise.all(tokens.map((token) => this.readBalance(address, token)));
+    });
+  }
+
+  /**
+   * Sends a read-only JSON-RPC request to the wallet's node
+   *
+   * Only the methods of EIP1193_CONFIG.READ_METHODS are allowed: requests are repeated on another
+   * endpoint when one fails, which is only safe for reads.
+   *
+   * @param method - JSON-RPC method, e.g. eth_getBalance
+   * @param params - Positional parameters of the method
+   * @returns A promise that resolves to the JSON-RPC result, as returned by the node
+   * @throws {GeneralWalletError} When the method is not a read method or the node returns an error
+   *
+   * @example
+   * ```typescript
+   * const blockNumber = await wallet.sendRpcRequest('eth_blockNumber'); // e.g. '0x13a2f1c'
+   * ```
+   */
+  @withLogging('Send RPC request', (args: [string]) => ({ method: args[0] }))
+  @withErrorHandling({ errorType: 'general' }, 'Failed to send RPC request')
+  public async sendRpcRequest(method: string, params: readonly unknown[] = []): Promise<unknown> {
+    await this.readyPromise;
+
+    if (!EIP1193_CONFIG.READ_METHODS.includes(method)) {
+      throw new GeneralWalletError(
+        HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+        `${CHAIN_CONFIG.CHAIN_NAME}: RPC method ${method} is not supported, only read methods are`,
+        { method }
+      );
+    }
+    return this.endpointPool.execute(() => this.connectionManager.getProvider().send(method, [...params]));
+  }
+
+  // === PROTECTED METHODS ===
+
+  /**
+   * Implementation of getAccount
+   */
+  protected async getAccountImpl(): Promise<ChainAccount> {
+    await this.readyPromise;
+
+    const chainId = new ChainId(this.chainInfo.chainId.chain, this.chainInfo.chainId.network);
+    const watchOnlyAccount = this.getWatchOnlyAccount();
+    if (watchOnlyAccount) {
+      return new ChainAccount(chainId, getAddress(watchOnlyAccount.address), watchOnlyAccount.publicKeyHex ?? '');
+    }
+
+    if (!this.wallet) {
+      throw new Error(ERROR_MESSAGES.NOT_INITIALIZED);
+    }
+
+    const publicKeyHex = this.wallet.publicKey.substring(2); // Remove '0x' prefix
+
+    return new ChainAccount(chainId, this.wallet.address, publicKeyHex);
+  }
+
+  /**
+   * Implementation of account derivation for getAccounts
+   */
+  @cleanSensitiveData()
+  protected async deriveAccountImpl(mnemonic: string, accountIndex: number): Promise<ChainAccount> {
+    const privateKeyHex = await deriveEcdsaPrivateKey(mnemonic, getDerivingPath(accountIndex));
+    const wallet = new Wallet(privateKeyHex);
+
+    const chainId = new ChainId(this.chainInfo.chainId.chain, this.chainInfo.chainId.network);
+    return new ChainAccount(chainId, wallet.address, wallet.signingKey.publicKey.substring(2));
+  }
+
+  /**
+   * Implementation of balance query using strategy pattern
+   */
+  protected async balanceOfImpl(params: BalanceQueryParams): Promise<BigNumber> {
+    await this.readyPromise;
+
+    // Common validation: address format (applies to all asset types)
+    assertValidAddressForBalance(params.address, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+
+    // Validate token address for ERC20 and NFT contracts
+    if (hasTokenContract(params.token)) {
+      await assertValidTokenAddressForBalance(params.token.tokenAddress, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+    }
+
+    const handler = await this.getTokenHandler(params.token);
+    return await handler.balanceOf(params);
+  }
+
+  /**
+   * Implementation of transfer building using strategy pattern
+   * Smart accounts send transfers as user operations, which only transfer builds, signs and sends.
+   */
+  protected async buildTransferImpl(
+    params: TransferParams
+  ): Promise<UnsignedTransaction<EthereumUnsignedTransactionData>> {
+    await this.readyPromise;
+
+    if (this.smartAccount) {
+      throw new GeneralWalletError(
+        HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Smart-account transfers cannot be built separately, use transfer`
+      );
+    }
+    // The unsigned transaction records the resolved address of an ENS recipient
+    const transfer = await this.resolveTransfer(params);
+
+    const handler = await this.getTokenHandler(transfer.token);
+    const data = await handler.buildTransfer(transfer);
+    return createUnsignedTransaction(this.chainInfo, transfer, data);
+  }
+
+  /**
+   * Implementation of transaction signing
+   * Signing is done locally and does not touch the network
+   */
+  protected async signTransactionImpl(
+    transaction: UnsignedTransaction<EthereumUnsignedTransactionData>
+  ): Promise<SignedTransaction<EthereumSignedTransactionData>> {
+    await this.readyPromise;
+
+    if (!this.wallet) {
+      throw new Error(ERROR_MESSAGES.NOT_INITIALIZED);
+    }
+
+    assertTransactionForChain(transaction, this.chainInfo, CHAIN_CONFIG.CHAIN_NAME);
+
+    const tx = Transaction.from(transaction.data.serializedTransaction);
+    tx.signature = await this.wallet.signDigest(tx.unsignedHash);
+
+    return createSignedTransaction(transaction, { serializedTransaction: tx.serialized }, tx.hash!);
+  }
+
+  /**
+   * Implementation of transfer
+   * Gives the reserved nonce back when the transaction cannot be signed.
+   * In smart-account mode the transfer is sent as a user operation, whose hash is returned.
+   */
+  protected async transferImpl(params: TransferParams): Promise<string> {
+    if (this.smartAccount) {
+      return this.sendUserOperation([params]);
+    }
+    const unsigned = await this.buildTransferImpl(params);
+    return this.signAndBroadcast(unsigned);
+  }
+
+  /**
+   * Implementation of batch transfers
+   * An EVM transaction carries a single transfer, so the transfers are broadcast one by one with
+   * consecutive nonces instead of waiting for each of them to be mined.
+   * A smart account executes all transfers in one user operation, whose hash every transfer shares.
+   */
+  protected async batchTransferImpl(transfers: TransferParams[]): Promise<string[]> {
+    await this.readyPromise;
+
+    if (this.smartAccount) {
+      const userOpHash = await this.sendUserOperation(transfers);
+      return transfers.map(() => userOpHash);
+    }
+
+    // Build everything first so an invalid transfer fails the batch before anything is sent;
+    // each build reserves the next nonce
+    const unsignedTransactions: UnsignedTransaction<EthereumUnsignedTransactionData>[] = [];
+    const txHashes: string[] = [];
+    try {
+      for (const params of transfers) {
+        unsignedTransactions.push(await this.buildTransferImpl(params));
+      }
+
+      for (const unsigned of unsignedTransactions) {
+        const signed = await this.signTransactionImpl(unsigned);
+        txHashes.push(await this.broadcastTransactionImpl(signed));
+      }
+    } catch (error) {
+      // Transfers that were not broadcast give their nonces back
+      for (const unsigned of unsignedTransactions.slice(txHashes.length).reverse()) {
+        this.nonceManager.release(Transaction.from(unsigned.data.serializedTransaction).nonce);
+      }
+      throw error;
+    }
+    return txHashes;
+  }
+
+  /**
+   * Implementation of transaction broadcasting
+   */
+  protected async broadcastTransactionImpl(
+    transaction: SignedTransaction<EthereumSignedTransactionData>
+  ): Promise<string> {
+    await this.readyPromise;
+
+    assertTransactionForChain(transaction, this.chainInfo, CHAIN_CONFIG.CHAIN_NAME);
+
+    const { nonce } = Transaction.from(transaction.data.serializedTransaction);
+    const provider = this.connectionManager.getProvider();
+    let txResponse: TransactionResponse;
+    try {
+      txResponse = await provider.broadcastTransaction(transaction.data.serializedTransaction);
+    } catch (error) {
+      this.nonceManager.release(nonce);
+      if (isError(error, 'NONCE_EXPIRED')) {
+        // The node has seen more transactions of the account than tracked locally
+        this.nonceManager.resync();
+      }
+      throw error;
+    }
+    this.nonceManager.markBroadcast(nonce, txResponse.hash);
+
+    this.logger.info('Transaction broadcast', {
+      context: 'EthereumChainWallet.broadcastTransactionImpl',
+      data: {
+        hash: txResponse.hash,
+        from: txResponse.from,
+        to: txResponse.to ?? undefined
+      }
+    });
+
+    return txResponse.hash;
+  }
+
+  /**
+   * Implementation of fee estimation using strategy pattern
+   */
+  protected async estimateFeeImpl(params: EthereumTransferParams): Promise<BigNumber> {
+    const feeTier = params.feeTier ?? FEE_CONFIG.DEFAULT_TIER;
+    assertValidFeeTier(feeTier);
+
+    const estimate = await this.estimateFeeTiersImpl(params);
+    return estimate.tiers[feeTier].fee;
+  }
+
+  /**
+   * Implementation of fee tier estimation using strategy pattern
+   */
+  private async estimateFeeTiersImpl(params: TransferParams): Promise<EthereumFeeEstimate> {
+    await this.readyPromise;
+
+    const transfer = await this.resolveRecipient(params);
+    assertValidAddressForFeeEstimation(transfer.recipientAddress, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+    assertValidAmountForFeeEstimation(transfer.amount, CHAIN_CONFIG.CHAIN_NAME);
+
+    // Validate token address for ERC20 and NFT contracts
+    if (hasTokenContract(transfer.token)) {
+      await assertValidTokenAddressForFeeEstimation(
+        transfer.token.tokenAddress,
+        CHAIN_CONFIG.CHAIN,
+        CHAIN_CONFIG.CHAIN_NAME
+      );
+    }
+
+    if (this.smartAccount) {
+      const owner = (await this.getAccountImpl()).address;
+      return this.smartAccount.estimateFees(owner, await this.buildCalls([transfer], owner));
+    }
+
+    const handler = await this.getTokenHandler(transfer.token);
+    return await handler.estimateFee(transfer);
+  }
+
+  /**
+   * Implementation of transfer simulation
+   * The built transaction is dry-run with eth_call; reverts are reported instead of thrown.
+   * In smart-account mode the user operation is simulated instead, see simulateUserOperation.
+   */
+  protected async simulateTransferImpl(params: TransferParams): Promise<TransferSimulationResult> {
+    if (this.smartAccount) {
+      return this.simulateUserOperation(params);
+    }
+
+    // Balance changes report the resolved address of an ENS recipient
+    const transfer = await this.resolveRecipient(params);
+    let transaction: Transaction;
+
+    try {
+      // Gas estimation while building already executes the transfer and fails on revert
+      const unsigned = await this.buildTransferImpl(transfer);
+      transaction = Transaction.from(unsigned.data.serializedTransaction);
+      // The simulated transaction is never broadcast
+      this.nonceManager.release(transaction.nonce);
+
+      const provider = this.connectionManager.getProvider();
+      const wallet = this.connectionManager.getConnectedWallet(provider);
+      await wallet.call({ to: transaction.to, data: transaction.data, value: transaction.value });
+    } catch (error) {
+      if (isError(error, 'CALL_EXCEPTION')) {
+        return createFailedTransferSimulation(error.reason ?? error.shortMessage);
+      }
+      if (isError(error, 'INSUFFICIENT_FUNDS')) {
+        return createFailedTransferSimulation(error.shortMessage);
+      }
+      throw error;
+    }
+
+    // Upper bound of the fee: the full gas limit at the maximum fee per gas
+    const gasPrice = transaction.maxFeePerGas ?? transaction.gasPrice ?? 0n;
+    const fee = new BigNumber((transaction.gasLimit * gasPrice).toString());
+
+    return this.simulateTransferWithBalances(transfer, fee, { assetType: ChainAssetType.Native });
+  }
+
+  /**
+   * Implementation of transaction history using strategy pattern
+   */
+  protected async getTransactionHistoryImpl(
+    params: TransactionHistoryParams & { limit: number }
+  ): Promise<TransactionHistoryPage> {
+    await this.readyPromise;
+
+    assertValidAddressForBalance(params.address, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+
+    // Validate token address for ERC20 and NFT contracts
+    if (hasTokenContract(params.token)) {
+      await assertValidTokenAddressForBalance(params.token.tokenAddress, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+    }
+
+    const handler = this.getAssetHandler(params.token?.assetType);
+    return await handler.getTransactionHistory(params);
+  }
+
+  /**
+   * Implementation of message signing
+   * Note: Message signing is only supported for the native chain wallet
+   */
+  protected async signMessageImpl(params: SignMessageParams): Promise<Uint8Array> {
+    await this.readyPromise;
+
+    if (!this.wallet) {
+      throw new Error(ERROR_MESSAGES.NOT_INITIALIZED);
+    }
+
+    const signature = await this.wallet.signMessage(params.message);
+
+    // Convert hex signature to Uint8Array using unified hex utilities
+    return base.fromHex(signature);
+  }
+
+  /**
+   * Implementation of endpoint probing: requests the latest block number
+   */
+  protected async checkEndpointImpl(url: string): Promise<void> {
+    const provider = new JsonRpcProvider(url, undefined, { staticNetwork: true });
+    try {
+      await provider.getBlockNumber();
+    } finally {
+      provider.destroy();
+    }
+  }
+
+  /**
+   * Clean up resources when wallet is no longer needed
+   */
+  protected destroyImpl(): void {
+    // Clean up shared services
+    this.connectionManager.cleanup();
+    this.nonceManager.cleanup();
+    this.smartAccount?.cleanup();
+
+    // Clean up asset handlers
+    this.assetHandlers.clear();
+    this.erc1155Handler = undefined;
+
+    // Clean up wallet reference
+    this.wallet = null;
+
+    // Clean up any remaining references
+    cleanupReferences(this, ['readyPromise']);
+  }
+
+  /**
+   * Implementation of transaction confirmation waiting
+   * Accepts the user operation hashes returned by transfers in smart-account mode.
+   */
+  protected async waitForConfirmationImpl(
+    params: TransactionConfirmationParams
+  ): Promise<TransactionConfirmationResult> {
+    await this.readyPromise;
+
+    if (this.smartAccount && (await this.smartAccount.isUserOperation(params.txHash))) {
+      return this.waitForUserOperation(this.smartAccount, params);
+    }
+    return this.waitForTransaction(params);
+  }
+
+  // === PRIVATE METHODS ===
+
+  /**
+   * Wait for the confirmations of a transaction
+   * @private
+   */
+  private async waitForTransaction(params: TransactionConfirmationParams): Promise<TransactionConfirmationResult> {
+    const provider = this.connectionManager.getProvider();
+    const requiredConfirmations = params.requiredConfirmations ?? 1;
+    const timeoutMs = params.timeoutMs ?? 300000; // 5 minutes default
+
+    // Use ethers.js built-in waitForTransaction method
+    const receipt = await provider.waitForTransaction(params.txHash, requiredConfirmations, timeoutMs);
+
+    if (!receipt) {
+      return {
+        isConfirmed: false,
+        confirmations: 0,
+        requiredConfirmations,
+        status: 'timeout'
+      };
+    }
+
+    // Calculate current confirmations
+    const currentBlockNumber = await provider.getBlockNumber();
+    const confirmations = currentBlockNumber - receipt.blockNumber + 1;
+
+    // Call progress callback if provided
+    if (params.onConfirmationUpdate) {
+      params.onConfirmationUpdate(confirmations, requiredConfirmations);
+    }
+
+    // Check transaction status
+    const isConfirmed = receipt.status === 1 && confirmations >= requiredConfirmations;
+    const status = receipt.status === 0 ? 'failed' : isConfirmed ? 'confirmed' : 'pending';
+
+    return {
+      isConfirmed,
+      confirmations,
+      requiredConfirmations,
+      status,
+      blockHash: receipt.blockHash,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed,
+      transactionFee: new BigNumber(receipt.gasUsed.toString()).multipliedBy(receipt.gasPrice?.toString() || '0')
+    };
+  }
+
+  /**
+   * Wait for a user operation to be included, then for the confirmations of its bundle transaction
+   * Status and fee are those of the operation: the bundle transaction succeeds even when the
+   * operation reverts, and pays for the other operations it carries too.
+   * @private
+   */
+  private async waitForUserOperation(
+    smartAccount: SmartAccount,
+    params: TransactionConfirmationParams
+  ): Promise<TransactionConfirmationResult> {
+    const requiredConfirmations = params.requiredConfirmations ?? 1;
+    const timeoutMs = params.timeoutMs ?? 300000; // 5 minutes default
+    const startedAt = Date.now();
+
+    const userOpReceipt = await smartAccount.waitForUserOperationReceipt(params.txHash, timeoutMs);
+    if (!userOpReceipt) {
+      return {
+        isConfirmed: false,
+        confirmations: 0,
+        requiredConfirmations,
+        status: 'timeout'
+      };
+    }
+
+    const result = await this.waitForTransaction({
+      ...params,
+      txHash: userOpReceipt.transactionHash,
+      timeoutMs: Math.max(timeoutMs - (Date.now() - startedAt), 1)
+    });
+    if (result.status === 'timeout') {
+      return result;
+    }
+
+    return {
+      ...result,
+      isConfirmed: result.isConfirmed && userOpReceipt.success,
+      status: userOpReceipt.success ? result.status : 'failed',
+      gasUsed: userOpReceipt.actualGasUsed,
+      transactionFee: new BigNumber(userOpReceipt.actualGasCost.toString())
+    };
+  }
+
+  /**
+   * Initialize the wallet from its signer
+   * Watch-only wallets get a VoidSigner, which populates and estimates transactions but cannot sign
+   * @private
+   */
+  @withLogging('Initialize wallet')
+  private async initializeWallet(): Promise<void> {
+    const watchOnlyAccount = this.getWatchOnlyAccount();
+    if (watchOnlyAccount) {
+      this.connectionManager.initialize(new VoidSigner(getAddress(watchOnlyAccount.address)));
+      return;
+    }
+
+    // Sign with the constructor's signer or a key derived from the mnemonic
+    const signer = this.createSigner('secp256k1', getDerivingPath);
+
+    // Create an ethers signer for it
+    this.wallet = await EthereumSigner.create(signer);
+
+    // Initialize connection manager with wallet
+    this.connectionManager.initialize(this.wallet);
+  }
+
+  /**
+   * Initialize asset handlers after wallet is ready
+   * @private
+   */
+  private initializeAssetHandlers(): void {
+    // Create and register Native handler
+    const nativeHandler = new EthNativeHandler(this.connectionManager, this.logger, this.nonceManager, this.feeManager);
+    this.assetHandlers.set(ChainAssetType.Native, nativeHandler);
+
+    // Create and register ERC20 handler
+    const erc20Handler = new Erc20TokenHandler(this.connectionManager, this.logger, this.nonceManager, this.feeManager);
+    this.assetHandlers.set(ChainAssetType.ERC20, erc20Handler);
+
+    // Create and register NFT handlers
+    const erc721Handler = new Erc721TokenHandler(
+      this.connectionManager,
+      this.logger,
+      this.nonceManager,
+      this.feeManager
+    );
+    this.assetHandlers.set(ChainAssetType.ERC721, erc721Handler);
+    this.erc1155Handler = new Erc1155TokenHandler(
+      this.connectionManager,
+      this.logger,
+      this.nonceManager,
+      this.feeManager
+    );
+  }
+
+  /**
+   * Chain id of the wallet's network as used in transactions and EIP-712 domains
+   * @private
+   */
+  private getEvmChainId(): bigint {
+    return BigInt(this.chainInfo.chainId.network.toString());
+  }
+
+  /**
+   * Get a pending transaction of this wallet that can be replaced
+   * @param txHash - Hash of the pending transaction
+   * @throws {ArgumentError} When the transaction is unknown, already mined or not sent by this wallet
+   * @private
+   */
+  private async getReplaceableTransaction(txHash: string): Promise<TransactionResponse> {
+    if (!isHexString(txHash, 32)) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Invalid transaction hash ${txHash}`,
+        { argumentName: 'txHash', expectedType: '32-byte hex string', providedValue: txHash }
+      );
+    }
+
+    const replaced = await this.connectionManager.getProvider().getTransaction(txHash);
+    if (!replaced) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Transaction ${txHash} not found`,
+        { argumentName: 'txHash', providedValue: txHash }
+      );
+    }
+    if (replaced.blockNumber != null) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Transaction ${txHash} is already mined`,
+        { argumentName: 'txHash', providedValue: txHash }
+      );
+    }
+    if (getAddress(replaced.from) !== this.wallet?.address) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Transaction ${txHash} was not sent by this wallet`,
+        { argumentName: 'txHash', providedValue: txHash }
+      );
+    }
+    return replaced;
+  }
+
+  /**
+   * Sign and broadcast a transaction that replaces the pending transaction with the given nonce
+   * Fees are raised above both the current network fees and the fees of the replaced transaction.
+   * @param nonce - Nonce of the pending transaction
+   * @param request - Transaction to send instead
+   * @param options - The replaced transaction, looked up by nonce when omitted, and the fee increase in percent
+   * @private
+   */
+  private async sendReplacement(
+    nonce: number,
+    request: TransactionRequest,
+    options: { replaced?: TransactionResponse; feeBump?: number } = {}
+  ): Promise<string> {
+    if (!this.wallet) {
+      throw new Error(ERROR_MESSAGES.NOT_INITIALIZED);
+    }
+
+    await this.nonceManager.assertReplaceable(nonce);
+
+    const provider = this.connectionManager.getProvider();
+    const replacedHash = options.replaced?.hash ?? this.nonceManager.getBroadcastHash(nonce);
+    const [feeTiers, replaced] = await Promise.all([
+      this.feeManager.getFeeTiers(),
+      options.replaced ?? (replacedHash ? provider.getTransaction(replacedHash) : null)
+    ]);
+
+    // Bump the replaced transaction's fee, or the current fast tier when the replaced one is unknown
+    const feeBump = BigInt(Math.ceil(options.feeBump ?? NONCE_CONFIG.REPLACEMENT_FEE_BUMP_PERCENT));
+    const raise = (currentFee: bigint, replacedFee?: bigint | null): bigint => {
+      const raised = ((replacedFee ?? currentFee) * (100n + feeBump)) / 100n;
+      return raised > currentFee ? raised : currentFee;
+    };
+    const current = feeTiers.tiers.fast;
+    const fees: TransactionRequest = feeTiers.eip1559
+      ? {
+          type: 2,
+          maxFeePerGas: raise(current.maxFeePerGas, replaced?.maxFeePerGas ?? replaced?.gasPrice),
+          maxPriorityFeePerGas: raise(
+            current.maxPriorityFeePerGas,
+            replaced?.maxPriorityFeePerGas ?? replaced?.gasPrice
+          )
+        }
+      : { type: 0, gasPrice: raise(current.maxFeePerGas, replaced?.gasPrice) };
+
+    const wallet = this.connectionManager.getConnectedWallet(provider);
+    const populated = await wallet.populateTransaction({ ...request, ...fees, nonce });
+    const tx = Transaction.from({ ...populated, from: undefined });
+    tx.signature = await this.wallet.signDigest(tx.unsignedHash);
+
+    const txResponse = await provider.broadcastTransaction(tx.serialized);
+    this.nonceManager.markBroadcast(nonce, txResponse.hash);
+
+    this.logger.info('Replacement transaction broadcast', {
+      context: 'EthereumChainWallet.sendReplacement',
+      data: { nonce, hash: txResponse.hash, replacedHash }
+    });
+
+    return txResponse.hash;
+  }
+
+  /**
+   * Resolve an ENS recipient and validate the recipient, amount and token address of a transfer
+   * @returns The transfer with the recipient's address
+   * @private
+   */
+  private async resolveTransfer<T extends TransferParams>(params: T): Promise<T> {
+    const transfer = await this.resolveRecipient(params);
+
+    // Common validation: recipient address and transfer amount (applies to all asset types)
+    assertValidAddressForTransaction(transfer.recipientAddress, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+    assertValidTransferAmount(transfer.amount, CHAIN_CONFIG.CHAIN_NAME);
+
+    // Validate token address for ERC20 and NFT contracts
+    if (hasTokenContract(transfer.token)) {
+      await assertValidTokenAddressForTransaction(
+        transfer.token.tokenAddress,
+        CHAIN_CONFIG.CHAIN,
+        CHAIN_CONFIG.CHAIN_NAME
+      );
+    }
+    return transfer;
+  }
+
+  /**
+   * Replace an ENS recipient with the address it resolves to
+   * Names without an address are kept, so the address validation rejects them.
+   * @private
+   */
+  private async resolveRecipient<T extends TransferParams>(params: T): Promise<T> {
+    const name = params.recipientAddress;
+    if (!isEnsName(name)) {
+      return params;
+    }
+    const address = await this.resolveNameImpl(name);
+    if (!address) {
+      return params;
+    }
+
+    this.logger.debug('ENS recipient resolved', {
+      context: 'EthereumChainWallet.resolveRecipient',
+      data: { name, address }
+    });
+    return { ...params, recipientAddress: createAddress(address, CHAIN_CONFIG.CHAIN) };
+  }
+
+  /**
+   * Resolve an ENS name with the connected provider
+   * @returns The address, or null when the name is invalid, has no address or the network has no ENS
+   * @private
+   */
+  private async resolveNameImpl(name: string): Promise<string | null> {
+    try {
+      return await this.connectionManager.getProvider().resolveName(name);
+    } catch (error) {
+      if (isError(error, 'UNSUPPORTED_OPERATION') || isError(error, 'INVALID_ARGUMENT')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read the balances of the tokens in Multicall3 batches
+   * Native balances are read with Multicall3's getEthBalance, ERC20 tokens with balanceOf and decimals.
+   * @private
+   */
+  private async readBalancesWithMulticall(owner: string, tokens: TokenIdentifier[]): Promise<EthereumTokenBalance[]> {
+    const calls: EthereumMulticallCall[] = tokens.flatMap((token) =>
+      token.assetType === ChainAssetType.Native
+        ? [
+            {
+              target: MULTICALL_CONFIG.ADDRESS,
+              callData: multicall3Interface.encodeFunctionData('getEthBalance', [owner])
+            }
+          ]
+        : [
+            { target: token.tokenAddress!, callData: erc20Interface.encodeFunctionData('balanceOf', [owner]) },
+            { target: token.tokenAddress!, callData: erc20Interface.encodeFunctionData('decimals') }
+          ]
+    );
+    const results = await this.multicallClient.aggregate(calls);
+
+    let index = 0;
+    return tokens.map((token) => {
+      if (token.assetType === ChainAssetType.Native) {
+        return decodeNativeBalance(token, results[index++]);
+      }
+      const balance = results[index++];
+      const decimals = results[index++];
+      return decodeTokenBalance(token, balance, decimals);
+    });
+  }
+
+  /**
+   * Read the balance and decimals of a token with separate requests, without Multicall3
+   * Tokens that cannot be read are reported as failed like in a Multicall3 batch; other errors are thrown.
+   * @private
+   */
+  private async readBalance(owner: string, token: TokenIdentifier): Promise<EthereumTokenBalance> {
+    const handler = this.getAssetHandler(token.assetType);
+    try {
+      const [balance, decimals] = await Promise.all([
+        handler.balanceOf({ address: createAddress(owner, CHAIN_CONFIG.CHAIN), token }),
+        this.getAssetDecimalsImpl(token)
+      ]);
+      return { token, balance, decimals };
+    } catch (error) {
+      // Reverts and empty results of addresses that are not ERC20 contracts, and failed decimals queries
+      if (isError(error, 'CALL_EXCEPTION') || isError(error, 'BAD_DATA') || error instanceof WalletError) {
+        return { token, error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send transfers from the smart account in one user operation
+   * The operation pays the fee tier of the first transfer.
+   * @returns The user operation hash
+   * @private
+   */
+  private async sendUserOperation(transfers: EthereumTransferParams[]): Promise<string> {
+    await this.readyPromise;
+
+    const resolved: EthereumTransferParams[] = [];
+    for (const params of transfers) {
+      resolved.push(await this.resolveTransfer(params));
+    }
+
+    const owner = (await this.getAccountImpl()).address;
+    const calls = await this.buildCalls(resolved, owner);
+    return this.executeUserOperation(calls, transfers[0].feeTier);
+  }
+
+  /**
+   * Simulate a transfer from the smart account
+   * The bundler's gas estimation runs the validation and execution of the user operation; operations
+   * it rejects or that revert are reported instead of thrown. Balance changes are of the smart account.
+   * @private
+   */
+  private async simulateUserOperation(params: TransferParams): Promise<TransferSimulationResult> {
+    await this.readyPromise;
+
+    const transfer = await this.resolveTransfer(params);
+    const smartAccount = this.getSmartAccount();
+    const owner = (await this.getAccountImpl()).address;
+    const sender = await smartAccount.getAddress(owner);
+
+    let estimate: EthereumFeeEstimate;
+    try {
+      estimate = await smartAccount.estimateFees(owner, await this.buildCalls([transfer], owner));
+    } catch (error) {
+      const failureReason = getUserOperationFailureReason(error);
+      if (failureReason !== undefined) {
+        return createFailedTransferSimulation(failureReason);
+      }
+      throw error;
+    }
+
+    // Upper bound of the fee, as for transactions; the paymaster pays the fee of sponsored operations
+    const fee = smartAccount.isSponsored() ? new BigNumber(0) : estimate.tiers[FEE_CONFIG.DEFAULT_TIER].maxFee;
+    return {
+      success: true,
+      fee,
+      balanceChanges: createTransferBalanceChanges(sender, transfer, fee, { assetType: ChainAssetType.Native })
+    };
+  }
+
+  /**
+   * Execute calls from the smart account in one user operation signed by the wallet key
+   * @returns The user operation hash
+   * @private
+   */
+  private async executeUserOperation(calls: EthereumCall[], feeTier?: EthereumFeeTier): Promise<string> {
+    if (!this.wallet) {
+      throw new Error(ERROR_MESSAGES.NOT_INITIALIZED);
+    }
+
+    const smartAccount = this.getSmartAccount();
+    const owner = this.wallet.address;
+    const userOperation = await smartAccount.buildUserOperation(owner, calls, feeTier);
+    // SimpleAccount accepts an EIP-191 signature of the operation hash by its owner
+    const signature = await this.wallet.signMessage(getBytes(smartAccount.getUserOperationHash(userOperation)));
+
+    return smartAccount.sendUserOperation({ ...userOperation, signature });
+  }
+
+  /**
+   * Build the calls the smart account executes for the transfers
+   * @param owner - Address of the wallet key owning the account
+   * @private
+   */
+  private async buildCalls(transfers: TransferParams[], owner: string): Promise<EthereumCall[]> {
+    const sender = await this.getSmartAccount().getAddress(owner);
+    const calls: EthereumCall[] = [];
+    for (const params of transfers) {
+      const handler = await this.getTokenHandler(params.token);
+      calls.push(await handler.buildCall(params, sender));
+    }
+    return calls;
+  }
+
+  /**
+   * Get the smart account of the wallet
+   * @throws {GeneralWalletError} When the wallet is not in smart-account mode
+   * @private
+   */
+  private getSmartAccount(): SmartAccount {
+    if (!this.smartAccount) {
+      throw new GeneralWalletError(
+        HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Smart-account mode is not enabled, pass the smartAccount option`
+      );
+    }
+    return this.smartAccount;
+  }
+
+  /**
+   * Sign and broadcast a built transaction
+   * Gives the reserved nonce back when the transaction cannot be signed
+   * @private
+   */
+  private async signAndBroadcast(unsigned: UnsignedTransaction<EthereumUnsignedTransactionData>): Promise<string> {
+    let signed: SignedTransaction<EthereumSignedTransactionData>;
+    try {
+      signed = await this.signTransactionImpl(unsigned);
+    } catch (error) {
+      this.nonceManager.release(Transaction.from(unsigned.data.serializedTransaction).nonce);
+      throw error;
+    }
+    return this.broadcastTransactionImpl(signed);
+  }
+
+  /**
+   * Build, sign and broadcast an ERC20 approval
+   * @private
+   */
+  private async sendApproval(params: EthereumApprovalParams): Promise<string> {
+    if (params.amount.isGreaterThanOrEqualTo(ALLOWANCE_CONFIG.INFINITE_THRESHOLD.toString())) {
+      this.logger.warn('Approving an infinite allowance', {
+        context: 'EthereumChainWallet.sendApproval',
+        data: { tokenAddress: params.token.tokenAddress, spender: params.spender }
+      });
+    }
+
+    const data = await this.getErc20Handler().buildApprove(params);
+    // The unsigned transaction records the spender as its recipient and the allowance as its amount
+    const transfer: TransferParams = {
+      recipientAddress: createAddress(params.spender, CHAIN_CONFIG.CHAIN),
+      amount: params.amount,
+      token: params.token
+    };
+    return this.signAndBroadcast(createUnsignedTransaction(this.chainInfo, transfer, data));
+  }
+
+  /**
+   * Validate the token, spender, amount and fee tier of an approval
+   * @throws {ArgumentError} When any of them is invalid
+   * @private
+   */
+  private assertValidApproval(params: EthereumApprovalParams): void {
+    this.assertErc20Token(params.token);
+    assertValidAddressForTransaction(params.spender, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+    if (getAddress(params.spender) === ZeroAddress) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Cannot approve the zero address`,
+        { argumentName: 'spender', providedValue: params.spender }
+      );
+    }
+    const { amount } = params;
+    if (!amount.isInteger() || amount.isNegative() || amount.isGreaterThan(MaxUint256.toString())) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Allowance must be a uint256 in the token's smallest unit`,
+        { argumentName: 'amount', expectedType: 'uint256', providedValue: amount.toString() }
+      );
+    }
+    assertValidFeeTier(params.feeTier ?? FEE_CONFIG.DEFAULT_TIER);
+  }
+
+  /**
+   * Validate Permit2 allowances and read their nonces
+   * @returns The owner, the wallet's address, and the permit details of every allowance
+   * @throws {ArgumentError} When an allowance, the spender or the deadline is invalid
+   * @private
+   */
+  private async getPermit2Details(
+    allowances: EthereumPermit2Allowance[],
+    spender: string,
+    sigDeadline: number
+  ): Promise<{ owner: string; details: EthereumPermit2Details[] }> {
+    for (const { token, amount, expiration } of allowances) {
+      this.assertValidApproval({ token, spender, amount });
+      if (amount.isGreaterThan(PERMIT_CONFIG.PERMIT2_MAX_AMOUNT.toString())) {
+        throw new ArgumentError(
+          HibitIdSdkErrorCode.INVALID_ARGUMENT,
+          `${CHAIN_CONFIG.CHAIN_NAME}: Permit2 allowance must be a uint160 in the token's smallest unit`,
+          { argumentName: 'amount', expectedType: 'uint160', providedValue: amount.toString() }
+        );
+      }
+      assertFutureTimestamp(expiration, 'expiration');
+      if (expiration > PERMIT_CONFIG.PERMIT2_MAX_EXPIRATION) {
+        throw new ArgumentError(
+          HibitIdSdkErrorCode.INVALID_ARGUMENT,
+          `${CHAIN_CONFIG.CHAIN_NAME}: Permit2 expiration must be a uint48`,
+          { argumentName: 'expiration', expectedType: 'uint48', providedValue: String(expiration) }
+        );
+      }
+    }
+    assertFutureTimestamp(sigDeadline, 'sigDeadline');
+
+    const owner = (await this.getAccountImpl()).address;
+    const handler = this.getErc20Handler();
+    const details = await this.endpointPool.execute(() =>
+      Promise.all(
+        allowances.map(async ({ token, amount, expiration }) => ({
+          token: getAddress(token.tokenAddress!),
+          amount: BigInt(amount.toFixed()),
+          expiration,
+          nonce: await handler.getPermit2Nonce(token.tokenAddress!, owner, spender)
+        }))
+      )
+    );
+    return { owner, details };
+  }
+
+  /**
+   * Sign a Permit2 message with the Permit2 domain of the wallet's network
+   * @private
+   */
+  private async signPermit2Message(
+    types: Record<string, TypedDataField[]>,
+    message: Record<string, unknown>
+  ): Promise<string> {
+    if (!this.wallet) {
+      throw new Error(ERROR_MESSAGES.NOT_INITIALIZED);
+    }
+    const domain = { name: 'Permit2', chainId: this.getEvmChainId(), verifyingContract: PERMIT_CONFIG.PERMIT2_ADDRESS };
+    return this.wallet.signTypedData(domain, types, message);
+  }
+
+  /**
+   * Validate that a token is an ERC20 token with a valid address
+   * @throws {ArgumentError} When the token is not ERC20
+   * @private
+   */
+  private assertErc20Token(token: TokenIdentifier): void {
+    if (token.assetType !== ChainAssetType.ERC20) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Allowances only exist for ERC20 tokens`,
+        { argumentName: 'token.assetType', expectedType: 'ERC20', providedValue: getAssetTypeName(token.assetType) }
+      );
+    }
+    assertValidTokenAddressForTransaction(token.tokenAddress, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+  }
+
+  /**
+   * Get the ERC20 handler
+   * @private
+   */
+  private getErc20Handler(): Erc20TokenHandler {
+    return this.getAssetHandler(ChainAssetType.ERC20) as Erc20TokenHandler;
+  }
+
+  /**
+   * Get the asset handler of a token
+   * ERC721 tokens of contracts that implement ERC1155 go to the ERC1155 handler.
+   * @private
+   */
+  private async getTokenHandler(token: TokenIdentifier | undefined): Promise<BaseAssetHandler> {
+    const handler = this.getAssetHandler(token?.assetType);
+    if (
+      token?.assetType === ChainAssetType.ERC721 &&
+      this.erc1155Handler &&
+      (await this.erc1155Handler.isErc1155Contract(token.tokenAddress!))
+    ) {
+      return this.erc1155Handler;
+    }
+    return handler;
   }
 
   /**
@@ -322,8 +2319,8 @@ export class EthereumChainWallet extends BaseChainWallet {
       return 18;
     }
 
-    // For ERC20 tokens, validate token address first
-    if (token.assetType === ChainAssetType.ERC20) {
+    // For ERC20 and NFT tokens, validate token address first
+    if (hasTokenContract(token)) {
       await assertValidTokenAddressForDecimals(token.tokenAddress, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
 
       const handler = this.getAssetHandler(token.assetType);
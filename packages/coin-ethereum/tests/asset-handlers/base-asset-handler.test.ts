@@ -1,6 +1,8 @@
 import { expect, test, describe, vi, beforeEach } from 'vitest';
 import { BaseAssetHandler } from '../../src/chain-wallet/asset-handlers/base-asset-handler';
 import { ConnectionManager } from '../../src/chain-wallet/shared/connection-manager';
+import { NonceManager } from '../../src/chain-wallet/shared/nonce-manager';
+import { FeeManager } from '../../src/chain-wallet/shared/fee-manager';
 import { ILogger, NoOpLogger, SignMessageParams } from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
 import { isAddress } from 'ethers';
@@ -12,12 +14,18 @@ class TestAssetHandler extends BaseAssetHandler {
   async balanceOf(): Promise<any> {
     return null;
   }
-  async transfer(): Promise<string> {
-    return '';
+  async buildTransfer(): Promise<any> {
+    return { serializedTransaction: '0x' };
+  }
+  async buildCall(): Promise<any> {
+    return { to: '0x', value: 0n, data: '0x' };
   }
   async estimateFee(): Promise<any> {
     return null;
   }
+  async getTransactionHistory(): Promise<any> {
+    return { records: [] };
+  }
   async signMessage(_params: SignMessageParams): Promise<Uint8Array> {
     throw new Error('Message signing is not supported by this asset handler');
   }
@@ -56,7 +64,12 @@ describe('BaseAssetHandler', () => {
       getConnectedWallet: vi.fn(),
       cleanup: vi.fn()
     } as any;
-    handler = new TestAssetHandler(connectionManager, logger);
+    handler = new TestAssetHandler(
+      connectionManager,
+      logger,
+      new NonceManager(connectionManager, logger),
+      new FeeManager(connectionManager, logger)
+    );
   });
 
   describe('constructor', () => {
@@ -0,0 +1,156 @@
+import { expect, test, describe, vi, beforeEach } from 'vitest';
+import { Erc1155TokenHandler } from '../../src/chain-wallet/asset-handlers/erc1155-token-handler';
+import { ConnectionManager } from '../../src/chain-wallet/shared/connection-manager';
+import { NonceManager } from '../../src/chain-wallet/shared/nonce-manager';
+import { FeeManager } from '../../src/chain-wallet/shared/fee-manager';
+import { ILogger, NoOpLogger, TransferParams, createAddress } from '@delandlabs/coin-base';
+import { ChainAssetType } from '@delandlabs/hibit-basic-types';
+import BigNumber from 'bignumber.js';
+import { Interface, Transaction, makeError } from 'ethers';
+import { erc1155Abi } from '../../src/chain-wallet/utils';
+// Import test setup to ensure address validator is registered
+import '../setup';
+import { CHAIN_CONFIG } from '../setup';
+
+// Mock the ethers Contract class
+const mockContract = {
+  balanceOf: vi.fn(),
+  supportsInterface: vi.fn(),
+  uri: vi.fn()
+};
+
+vi.mock('ethers', async () => {
+  const actual = await vi.importActual('ethers');
+  return {
+    ...actual,
+    Contract: vi.fn().mockImplementation(() => mockContract)
+  };
+});
+
+// Test addresses
+const testAddress = '0x742d35cC6634C0532925a3B844BC9e7C68F8C574';
+const recipientAddress = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const collectionAddress = '0x76BE3b62873462d2142405439777e971754E8E77';
+
+// Create address helper that uses the registered validator
+const createEthAddress = (addr: string) => createAddress(addr, CHAIN_CONFIG.CHAIN);
+
+const token = (tokenId: string) => ({ assetType: ChainAssetType.ERC721, tokenAddress: collectionAddress, tokenId });
+
+describe('Erc1155TokenHandler', () => {
+  let handler: Erc1155TokenHandler;
+  let connectionManager: ConnectionManager;
+  let logger: ILogger;
+  let mockProvider: any;
+  let mockWallet: any;
+
+  beforeEach(() => {
+    logger = new NoOpLogger();
+
+    // Reset all mocks before each test
+    vi.clearAllMocks();
+
+    // Mock wallet
+    mockWallet = {
+      address: testAddress,
+      getAddress: vi.fn().mockResolvedValue(testAddress),
+      getNonce: vi.fn().mockResolvedValue(3),
+      estimateGas: vi.fn().mockResolvedValue(60000n),
+      populateTransaction: vi.fn().mockImplementation(async (tx: any) => ({
+        ...tx,
+        from: testAddress,
+        chainId: 1n,
+        gasLimit: 60000n
+      }))
+    };
+
+    // Mock provider
+    mockProvider = {
+      _network: { chainId: 1 }
+    };
+
+    // Mock connection manager
+    connectionManager = {
+      getProvider: vi.fn().mockReturnValue(mockProvider),
+      getConnectedWallet: vi.fn().mockReturnValue(mockWallet),
+      cleanup: vi.fn()
+    } as any;
+
+    // Legacy gas price for every tier, as on networks without EIP-1559
+    const feeManager = new FeeManager(connectionManager, logger);
+    const prices = { maxFeePerGas: 30000000000n, maxPriorityFeePerGas: 30000000000n };
+    vi.spyOn(feeManager, 'getFeeTiers').mockResolvedValue({
+      eip1559: false,
+      tiers: { slow: prices, normal: prices, fast: prices }
+    });
+
+    handler = new Erc1155TokenHandler(
+      connectionManager,
+      logger,
+      new NonceManager(connectionManager, logger),
+      feeManager
+    );
+  });
+
+  describe('balanceOf', () => {
+    test('should return the balance of the token ID', async () => {
+      mockContract.balanceOf.mockResolvedValue(25n);
+
+      const result = await handler.balanceOf({ address: createEthAddress(testAddress), token: token('10') });
+
+      expect(result.toString()).toBe('25');
+      expect(mockContract.balanceOf).toHaveBeenCalledWith(testAddress, 10n);
+    });
+  });
+
+  describe('buildTransfer', () => {
+    test('should build an unsigned safeTransferFrom of the amount with empty data', async () => {
+      const params: TransferParams = {
+        recipientAddress: createEthAddress(recipientAddress),
+        amount: new BigNumber(5),
+        token: token('10')
+      };
+
+      const result = await handler.buildTransfer(params);
+
+      const tx = Transaction.from(result.serializedTransaction);
+      expect(tx.to).toBe(collectionAddress);
+      expect(tx.value).toBe(0n);
+
+      const decoded = new Interface(erc1155Abi).decodeFunctionData('safeTransferFrom', tx.data);
+      expect(decoded[0]).toBe(testAddress);
+      expect(decoded[1]).toBe(recipientAddress);
+      expect(decoded[2]).toBe(10n);
+      expect(decoded[3]).toBe(5n);
+      expect(decoded[4]).toBe('0x');
+    });
+  });
+
+  describe('isErc1155Contract', () => {
+    test('should detect the ERC1155 interface through ERC-165', async () => {
+      mockContract.supportsInterface.mockResolvedValue(true);
+
+      await expect(handler.isErc1155Contract(collectionAddress)).resolves.toBe(true);
+      expect(mockContract.supportsInterface).toHaveBeenCalledWith('0xd9b67a26');
+    });
+
+    test('should report contracts without ERC-165 as not ERC1155', async () => {
+      mockContract.supportsInterface.mockRejectedValue(makeError('execution reverted', 'CALL_EXCEPTION'));
+
+      // A separate address, results are cached per contract
+      await expect(handler.isErc1155Contract(recipientAddress)).resolves.toBe(false);
+    });
+  });
+
+  describe('getTokenUri', () => {
+    test('should substitute the token ID for the {id} placeholder', async () => {
+      mockContract.uri.mockResolvedValue('https://api.example.com/tokens/{id}.json');
+
+      const tokenUri = await handler.getTokenUri(token('314'));
+
+      expect(tokenUri).toBe(
+        'https://api.example.com/tokens/000000000000000000000000000000000000000000000000000000000000013a.json'
+      );
+    });
+  });
+});
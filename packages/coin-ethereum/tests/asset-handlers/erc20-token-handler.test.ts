@@ -1,10 +1,20 @@
 import { expect, test, describe, vi, beforeEach } from 'vitest';
 import { Erc20TokenHandler } from '../../src/chain-wallet/asset-handlers/erc20-token-handler';
 import { ConnectionManager } from '../../src/chain-wallet/shared/connection-manager';
-import { ILogger, NoOpLogger, BalanceQueryParams, TransferParams, createAddress } from '@delandlabs/coin-base';
+import { NonceManager } from '../../src/chain-wallet/shared/nonce-manager';
+import { FeeManager } from '../../src/chain-wallet/shared/fee-manager';
+import {
+  ILogger,
+  NoOpLogger,
+  BalanceQueryParams,
+  TransferParams,
+  HibitIdSdkErrorCode,
+  createAddress
+} from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
 import BigNumber from 'bignumber.js';
-import { parseUnits } from 'ethers';
+import { parseUnits, Interface, MaxUint256, Transaction, TypedDataEncoder, makeError } from 'ethers';
+import { erc20Abi } from '../../src/chain-wallet/utils';
 // Import test setup to ensure address validator is registered
 import '../setup';
 import { CHAIN_CONFIG } from '../setup';
@@ -12,13 +22,17 @@ import { CHAIN_CONFIG } from '../setup';
 // Mock the ethers Contract class
 const mockContract = {
   balanceOf: vi.fn(),
+  allowance: vi.fn(),
   transfer: vi.fn(),
   estimateGas: {
     transfer: vi.fn()
   },
   decimals: vi.fn(),
   symbol: vi.fn(),
-  name: vi.fn()
+  name: vi.fn(),
+  nonces: vi.fn(),
+  DOMAIN_SEPARATOR: vi.fn(),
+  version: vi.fn()
 };
 
 vi.mock('ethers', async () => {
@@ -57,7 +71,12 @@ describe('Erc20TokenHandler', () => {
     mockWallet = {
       address: '0x742d35cC6634C0532925a3B844BC9e7C68F8C574',
       getNonce: vi.fn(),
-      sendTransaction: vi.fn()
+      populateTransaction: vi.fn().mockImplementation(async (tx: any) => ({
+        ...tx,
+        from: '0x742d35cC6634C0532925a3B844BC9e7C68F8C574',
+        chainId: 1n,
+        gasLimit: 65000n
+      }))
     };
 
     // Mock provider
@@ -75,7 +94,20 @@ describe('Erc20TokenHandler', () => {
       cleanup: vi.fn()
     } as any;
 
-    handler = new Erc20TokenHandler(connectionManager, logger);
+    // Legacy gas price for every tier, as on networks without EIP-1559
+    const feeManager = new FeeManager(connectionManager, logger);
+    const prices = { maxFeePerGas: 30000000000n, maxPriorityFeePerGas: 30000000000n };
+    vi.spyOn(feeManager, 'getFeeTiers').mockResolvedValue({
+      eip1559: false,
+      tiers: { slow: prices, normal: prices, fast: prices }
+    });
+
+    handler = new Erc20TokenHandler(
+      connectionManager,
+      logger,
+      new NonceManager(connectionManager, logger),
+      feeManager
+    );
 
     // Mock Contract.from is not needed since we're mocking getContract
   });
@@ -138,14 +170,10 @@ describe('Erc20TokenHandler', () => {
     });
   });
 
-  describe('transfer', () => {
-    test('should execute ERC20 transfer with smallest unit amount', async () => {
+  describe('buildTransfer', () => {
+    test('should build unsigned ERC20 transfer with smallest unit amount', async () => {
       const tokenAddress = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
-      const txHash = '0xabcdef1234567890';
-      const mockTxResponse = { hash: txHash };
 
-      mockContract.decimals.mockResolvedValue(6);
-      mockContract.transfer.mockResolvedValue(mockTxResponse);
       mockWallet.getNonce.mockResolvedValue(10);
 
       // Amount is now in smallest unit (100.5 USDC = 100.5 * 10^6 = 100500000)
@@ -159,22 +187,28 @@ describe('Erc20TokenHandler', () => {
         }
       };
 
-      const result = await handler.transfer(params);
+      const result = await handler.buildTransfer(params);
 
-      expect(result).toBe(txHash);
-      expect(mockContract.transfer).toHaveBeenCalledWith(
-        params.recipientAddress,
-        BigInt(amountInSmallestUnit), // Amount should be in smallest unit
-        expect.any(Object) // Transaction options (nonce, etc.)
-      );
+      const tx = Transaction.from(result.serializedTransaction);
+      expect(tx.isSigned()).toBe(false);
+      expect(tx.to).toBe(tokenAddress);
+      expect(tx.value).toBe(0n);
+      expect(tx.nonce).toBe(10);
+      expect(tx.type).toBe(0);
+      expect(tx.gasPrice).toBe(30000000000n);
+
+      // Call data should encode transfer(recipient, amount) with amount in smallest unit
+      const decoded = new Interface(erc20Abi).decodeFunctionData('transfer', tx.data);
+      expect(decoded[0]).toBe(recipientAddress);
+      expect(decoded[1]).toBe(BigInt(amountInSmallestUnit));
     });
 
     // Note: Token address validation is handled at the wallet layer,
     // not in the handler. These tests have been moved to wallet tests.
 
-    test('should handle transfer failure', async () => {
-      mockContract.decimals.mockResolvedValue(6);
-      mockContract.transfer.mockRejectedValue(new Error('transfer amount exceeds balance'));
+    test('should handle gas estimation failure while building transfer', async () => {
+      mockWallet.getNonce.mockResolvedValue(10);
+      mockWallet.populateTransaction.mockRejectedValue(new Error('transfer amount exceeds balance'));
 
       // Amount is now in smallest unit (100000 USDC = 100000 * 10^6)
       const amountInSmallestUnit = parseUnits('100000', 6).toString();
@@ -187,7 +221,7 @@ describe('Erc20TokenHandler', () => {
         }
       };
 
-      await expect(handler.transfer(params)).rejects.toThrow('transfer amount exceeds balance');
+      await expect(handler.buildTransfer(params)).rejects.toThrow('transfer amount exceeds balance');
     });
   });
 
@@ -214,6 +248,70 @@ describe('Erc20TokenHandler', () => {
     }, 10000);
   });
 
+  describe('getAllowance', () => {
+    const tokenAddress = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+    test('should return a limited allowance in smallest unit', async () => {
+      mockContract.allowance.mockResolvedValue(parseUnits('250', 6));
+
+      const allowance = await handler.getAllowance(tokenAddress, testAddress, recipientAddress);
+
+      expect(mockContract.allowance).toHaveBeenCalledWith(testAddress, recipientAddress);
+      expect(allowance).toEqual({ spender: recipientAddress, amount: new BigNumber('250000000'), isInfinite: false });
+    });
+
+    test('should detect infinite allowances that were partly spent', async () => {
+      mockContract.allowance.mockResolvedValue(MaxUint256 - parseUnits('10', 6));
+
+      const allowance = await handler.getAllowance(tokenAddress, testAddress, recipientAddress);
+
+      expect(allowance.isInfinite).toBe(true);
+    });
+  });
+
+  describe('getPermitData', () => {
+    const tokenAddress = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+    const domain = { name: 'USD Coin', version: '2', chainId: 1n, verifyingContract: tokenAddress };
+
+    beforeEach(() => {
+      mockContract.name.mockResolvedValue('USD Coin');
+      mockContract.nonces.mockResolvedValue(7n);
+      mockContract.version.mockResolvedValue('2');
+      mockContract.DOMAIN_SEPARATOR.mockResolvedValue(TypedDataEncoder.hashDomain(domain));
+    });
+
+    test('should return the domain matching the token domain separator and the owner nonce', async () => {
+      const permitData = await handler.getPermitData(tokenAddress, testAddress, 1n);
+
+      expect(mockContract.nonces).toHaveBeenCalledWith(testAddress);
+      expect(permitData).toEqual({ domain, nonce: 7n });
+    });
+
+    test('should default the version of tokens without version()', async () => {
+      const versionless = { ...domain, version: '1' };
+      mockContract.DOMAIN_SEPARATOR.mockResolvedValue(TypedDataEncoder.hashDomain(versionless));
+      mockContract.version.mockRejectedValue(makeError('missing revert data', 'CALL_EXCEPTION'));
+
+      const permitData = await handler.getPermitData(tokenAddress, testAddress, 1n);
+
+      expect(permitData.domain).toEqual(versionless);
+    });
+
+    test('should reject tokens without EIP-2612', async () => {
+      mockContract.nonces.mockRejectedValue(makeError('missing revert data', 'CALL_EXCEPTION'));
+
+      await expect(handler.getPermitData(tokenAddress, testAddress, 1n)).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED
+      });
+    });
+
+    test('should reject tokens whose domain separator does not match the standard domain', async () => {
+      mockContract.DOMAIN_SEPARATOR.mockResolvedValue(TypedDataEncoder.hashDomain({ ...domain, chainId: 5n }));
+
+      await expect(handler.getPermitData(tokenAddress, testAddress, 1n)).rejects.toThrow('non-standard EIP-712 domain');
+    });
+  });
+
   // Note: getTokenDecimals is a private method tested indirectly through public methods
   // Unit tests should focus on public API behavior, not implementation details
 
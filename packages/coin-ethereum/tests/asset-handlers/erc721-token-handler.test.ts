@@ -0,0 +1,247 @@
+import { expect, test, describe, vi, beforeEach } from 'vitest';
+import { Erc721TokenHandler } from '../../src/chain-wallet/asset-handlers/erc721-token-handler';
+import { ConnectionManager } from '../../src/chain-wallet/shared/connection-manager';
+import { NonceManager } from '../../src/chain-wallet/shared/nonce-manager';
+import { FeeManager } from '../../src/chain-wallet/shared/fee-manager';
+import {
+  ArgumentError,
+  GeneralWalletError,
+  ILogger,
+  NoOpLogger,
+  TransferParams,
+  createAddress
+} from '@delandlabs/coin-base';
+import { ChainAssetType } from '@delandlabs/hibit-basic-types';
+import BigNumber from 'bignumber.js';
+import { Interface, Transaction } from 'ethers';
+import { erc721Abi } from '../../src/chain-wallet/utils';
+import { NFT_CONFIG } from '../../src/chain-wallet/config';
+// Import test setup to ensure address validator is registered
+import '../setup';
+import { CHAIN_CONFIG } from '../setup';
+
+// Mock the ethers Contract class
+const mockContract = {
+  balanceOf: vi.fn(),
+  ownerOf: vi.fn(),
+  tokenURI: vi.fn()
+};
+
+vi.mock('ethers', async () => {
+  const actual = await vi.importActual('ethers');
+  return {
+    ...actual,
+    Contract: vi.fn().mockImplementation(() => mockContract)
+  };
+});
+
+// Test addresses
+const testAddress = '0x742d35cC6634C0532925a3B844BC9e7C68F8C574';
+const recipientAddress = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const collectionAddress = '0xBC4CA0EdA7647A8aB7C2061c2E118A18a936f13D';
+
+// Create address helper that uses the registered validator
+const createEthAddress = (addr: string) => createAddress(addr, CHAIN_CONFIG.CHAIN);
+
+const nft = (tokenId?: string) => ({ assetType: ChainAssetType.ERC721, tokenAddress: collectionAddress, tokenId });
+
+describe('Erc721TokenHandler', () => {
+  let handler: Erc721TokenHandler;
+  let connectionManager: ConnectionManager;
+  let logger: ILogger;
+  let mockProvider: any;
+  let mockWallet: any;
+
+  beforeEach(() => {
+    logger = new NoOpLogger();
+
+    // Reset all mocks before each test
+    vi.clearAllMocks();
+
+    // Mock wallet
+    mockWallet = {
+      address: testAddress,
+      getAddress: vi.fn().mockResolvedValue(testAddress),
+      getNonce: vi.fn().mockResolvedValue(3),
+      estimateGas: vi.fn().mockResolvedValue(90000n),
+      populateTransaction: vi.fn().mockImplementation(async (tx: any) => ({
+        ...tx,
+        from: testAddress,
+        chainId: 1n,
+        gasLimit: 90000n
+      }))
+    };
+
+    // Mock provider
+    mockProvider = {
+      _network: { chainId: 1 }
+    };
+
+    // Mock connection manager
+    connectionManager = {
+      getProvider: vi.fn().mockReturnValue(mockProvider),
+      getConnectedWallet: vi.fn().mockReturnValue(mockWallet),
+      cleanup: vi.fn()
+    } as any;
+
+    // Legacy gas price for every tier, as on networks without EIP-1559
+    const feeManager = new FeeManager(connectionManager, logger);
+    const prices = { maxFeePerGas: 30000000000n, maxPriorityFeePerGas: 30000000000n };
+    vi.spyOn(feeManager, 'getFeeTiers').mockResolvedValue({
+      eip1559: false,
+      tiers: { slow: prices, normal: prices, fast: prices }
+    });
+
+    handler = new Erc721TokenHandler(
+      connectionManager,
+      logger,
+      new NonceManager(connectionManager, logger),
+      feeManager
+    );
+  });
+
+  describe('balanceOf', () => {
+    test('should count the tokens of the collection without a token ID', async () => {
+      mockContract.balanceOf.mockResolvedValue(4n);
+
+      const result = await handler.balanceOf({ address: createEthAddress(testAddress), token: nft() });
+
+      expect(result.toString()).toBe('4');
+      expect(mockContract.ownerOf).not.toHaveBeenCalled();
+    });
+
+    test('should return 1 when the address owns the token', async () => {
+      // Owners are compared regardless of checksum casing
+      mockContract.ownerOf.mockResolvedValue(testAddress.toLowerCase());
+
+      const result = await handler.balanceOf({ address: createEthAddress(testAddress), token: nft('42') });
+
+      expect(result.toString()).toBe('1');
+      expect(mockContract.ownerOf).toHaveBeenCalledWith(42n);
+    });
+
+    test('should return 0 when another address owns the token', async () => {
+      mockContract.ownerOf.mockResolvedValue(recipientAddress);
+
+      const result = await handler.balanceOf({ address: createEthAddress(testAddress), token: nft('42') });
+
+      expect(result.toString()).toBe('0');
+    });
+
+    test('should reject a token ID that is not an integer', async () => {
+      const params = { address: createEthAddress(testAddress), token: nft('0x2a') };
+
+      await expect(handler.balanceOf(params)).rejects.toThrow(ArgumentError);
+    });
+  });
+
+  describe('buildTransfer', () => {
+    test('should build an unsigned safeTransferFrom from the wallet', async () => {
+      const params: TransferParams = {
+        recipientAddress: createEthAddress(recipientAddress),
+        amount: new BigNumber(1),
+        token: nft('42')
+      };
+
+      const result = await handler.buildTransfer(params);
+
+      const tx = Transaction.from(result.serializedTransaction);
+      expect(tx.to).toBe(collectionAddress);
+      expect(tx.value).toBe(0n);
+      expect(tx.nonce).toBe(3);
+
+      const decoded = new Interface(erc721Abi).decodeFunctionData('safeTransferFrom', tx.data);
+      expect(decoded[0]).toBe(testAddress);
+      expect(decoded[1]).toBe(recipientAddress);
+      expect(decoded[2]).toBe(42n);
+    });
+
+    test('should reject an amount other than 1', async () => {
+      const params: TransferParams = {
+        recipientAddress: createEthAddress(recipientAddress),
+        amount: new BigNumber(2),
+        token: nft('42')
+      };
+
+      await expect(handler.buildTransfer(params)).rejects.toThrow('ERC721 transfers must have an amount of 1');
+      expect(mockWallet.getNonce).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('estimateFee', () => {
+    test('should price the estimated gas of the transfer', async () => {
+      const params: TransferParams = {
+        recipientAddress: createEthAddress(recipientAddress),
+        amount: new BigNumber(1),
+        token: nft('42')
+      };
+
+      const estimate = await handler.estimateFee(params);
+
+      expect(mockWallet.estimateGas).toHaveBeenCalledWith(expect.objectContaining({ to: collectionAddress }));
+      // 90000 gas * 30 gwei
+      expect(estimate.tiers.normal.fee.toString()).toBe('2700000000000000');
+    });
+  });
+
+  describe('metadata', () => {
+    test('should decode metadata from a base64 data URI and resolve its IPFS image', async () => {
+      const document = {
+        name: 'Ape #42',
+        image: 'ipfs://QmImage/42.png',
+        attributes: [{ trait_type: 'Fur', value: 'Gold' }]
+      };
+      mockContract.tokenURI.mockResolvedValue(
+        `data:application/json;base64,${Buffer.from(JSON.stringify(document)).toString('base64')}`
+      );
+
+      const tokenUri = await handler.getTokenUri(nft('42'));
+      const metadata = await handler.fetchMetadata(tokenUri);
+
+      expect(mockContract.tokenURI).toHaveBeenCalledWith(42n);
+      expect(metadata.name).toBe('Ape #42');
+      expect(metadata.image).toBe('https://ipfs.io/ipfs/QmImage/42.png');
+      expect(metadata.attributes).toEqual([{ trait_type: 'Fur', value: 'Gold' }]);
+    });
+
+    test('should fetch IPFS metadata through the gateway', async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, 'fetch')
+        .mockResolvedValue(new Response(JSON.stringify({ name: 'Ape #7' }), { status: 200 }));
+
+      const metadata = await handler.fetchMetadata('ipfs://QmCollection/7');
+
+      expect(fetchMock).toHaveBeenCalledWith('https://ipfs.io/ipfs/QmCollection/7', {
+        signal: expect.any(AbortSignal)
+      });
+      expect(metadata.name).toBe('Ape #7');
+      fetchMock.mockRestore();
+    });
+
+    test('should reject metadata larger than the configured limit', async () => {
+      const oversized = JSON.stringify({ name: 'x'.repeat(NFT_CONFIG.MAX_METADATA_BYTES) });
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(oversized, { status: 200 }));
+
+      await expect(handler.fetchMetadata('https://example.com/1.json')).rejects.toThrow(
+        `Response exceeds ${NFT_CONFIG.MAX_METADATA_BYTES} bytes`
+      );
+      fetchMock.mockRestore();
+    });
+
+    test('should reject metadata that is not a JSON object', async () => {
+      await expect(handler.fetchMetadata('data:application/json,%5B1%2C2%5D')).rejects.toThrow(GeneralWalletError);
+    });
+  });
+
+  describe('getAssetType', () => {
+    test('should return ERC721 asset type', () => {
+      expect(handler.getAssetType()).toBe(ChainAssetType.ERC721);
+    });
+  });
+
+  describe('getDecimals', () => {
+    test('should return 0 decimals', async () => {
+      await expect(handler.getDecimals()).resolves.toBe(0);
+    });
+  });
+});
@@ -1,10 +1,12 @@
 import { expect, test, describe, vi, beforeEach } from 'vitest';
 import { EthNativeHandler } from '../../src/chain-wallet/asset-handlers/eth-native-handler';
 import { ConnectionManager } from '../../src/chain-wallet/shared/connection-manager';
+import { NonceManager } from '../../src/chain-wallet/shared/nonce-manager';
+import { FeeManager } from '../../src/chain-wallet/shared/fee-manager';
 import { ILogger, NoOpLogger, BalanceQueryParams, TransferParams, createAddress } from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
 import BigNumber from 'bignumber.js';
-import { parseEther } from 'ethers';
+import { parseEther, Transaction } from 'ethers';
 // Import test setup to ensure address validator is registered
 import '../setup';
 import { CHAIN_CONFIG } from '../setup';
@@ -15,6 +17,7 @@ const createEthAddress = (addr: string) => createAddress(addr, CHAIN_CONFIG.CHAI
 describe('EthNativeHandler', () => {
   let handler: EthNativeHandler;
   let connectionManager: ConnectionManager;
+  let feeManager: FeeManager;
   let logger: ILogger;
   let mockProvider: any;
   let mockWallet: any;
@@ -25,7 +28,12 @@ describe('EthNativeHandler', () => {
     // Mock wallet
     mockWallet = {
       address: '0x742d35cC6634C0532925a3B844BC9e7C68F8C574',
-      sendTransaction: vi.fn(),
+      populateTransaction: vi.fn().mockImplementation(async (tx: any) => ({
+        ...tx,
+        from: '0x742d35cC6634C0532925a3B844BC9e7C68F8C574',
+        chainId: 1n,
+        gasLimit: 21000n
+      })),
       getNonce: vi.fn(),
       estimateGas: vi.fn().mockResolvedValue(21000n), // Default gas limit
       signMessage: vi.fn()
@@ -47,10 +55,19 @@ describe('EthNativeHandler', () => {
       initialize: vi.fn()
     } as any;
 
-    handler = new EthNativeHandler(connectionManager, logger);
+    // Fee tiers are cached per network, so they are mocked rather than read from the provider
+    feeManager = new FeeManager(connectionManager, logger);
+    vi.spyOn(feeManager, 'getFeeTiers').mockResolvedValue({
+      eip1559: true,
+      baseFeePerGas: 19000000000n,
+      tiers: {
+        slow: { maxFeePerGas: 38500000000n, maxPriorityFeePerGas: 500000000n },
+        normal: { maxFeePerGas: 39000000000n, maxPriorityFeePerGas: 1000000000n },
+        fast: { maxFeePerGas: 41000000000n, maxPriorityFeePerGas: 3000000000n }
+      }
+    });
 
-    // Spy on the private getGasPrice method to ensure it works
-    vi.spyOn(handler as any, 'getGasPrice').mockResolvedValue(20000000000n);
+    handler = new EthNativeHandler(connectionManager, logger, new NonceManager(connectionManager, logger), feeManager);
   });
 
   describe('balanceOf', () => {
@@ -95,13 +112,9 @@ describe('EthNativeHandler', () => {
     });
   });
 
-  describe('transfer', () => {
-    test('should execute native transfer successfully with wei amount', async () => {
-      const txHash = '0x1234567890abcdef';
-      const txResponse = { hash: txHash };
-
+  describe('buildTransfer', () => {
+    test('should build unsigned native transfer with wei amount', async () => {
       mockWallet.getNonce.mockResolvedValue(5);
-      mockWallet.sendTransaction.mockResolvedValue(txResponse);
 
       // Amount is now in wei (smallest unit)
       const amountInWei = parseEther('0.1').toString(); // 0.1 ETH in wei
@@ -111,19 +124,62 @@ describe('EthNativeHandler', () => {
         token: { assetType: ChainAssetType.Native }
       };
 
-      const result = await handler.transfer(params);
+      const result = await handler.buildTransfer(params);
 
-      expect(result).toBe(txHash);
       expect(mockWallet.getNonce).toHaveBeenCalled();
-      expect(mockWallet.sendTransaction).toHaveBeenCalledWith({
+      expect(mockWallet.populateTransaction).toHaveBeenCalledWith({
         to: params.recipientAddress,
         value: BigInt(amountInWei), // Value should be in wei
-        nonce: 5
+        nonce: 5,
+        type: 2,
+        maxFeePerGas: 39000000000n,
+        maxPriorityFeePerGas: 1000000000n
+      });
+
+      const tx = Transaction.from(result.serializedTransaction);
+      expect(tx.isSigned()).toBe(false);
+      expect(tx.to).toBe(params.recipientAddress);
+      expect(tx.value).toBe(BigInt(amountInWei));
+      expect(tx.nonce).toBe(5);
+      expect(tx.gasLimit).toBe(21000n);
+      expect(tx.chainId).toBe(1n);
+    });
+
+    test('should pay the requested fee tier', async () => {
+      mockWallet.getNonce.mockResolvedValue(5);
+
+      const result = await handler.buildTransfer({
+        recipientAddress: createEthAddress('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'),
+        amount: new BigNumber(parseEther('0.1').toString()),
+        token: { assetType: ChainAssetType.Native },
+        feeTier: 'fast'
       });
+
+      const tx = Transaction.from(result.serializedTransaction);
+      expect(tx.type).toBe(2);
+      expect(tx.maxFeePerGas).toBe(41000000000n);
+      expect(tx.maxPriorityFeePerGas).toBe(3000000000n);
+    });
+
+    test('should reject an unknown fee tier without using a nonce', async () => {
+      mockWallet.getNonce.mockResolvedValue(5);
+      const params = {
+        recipientAddress: createEthAddress('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'),
+        amount: new BigNumber(parseEther('0.1').toString()),
+        token: { assetType: ChainAssetType.Native }
+      };
+
+      await expect(handler.buildTransfer({ ...params, feeTier: 'urgent' as any })).rejects.toThrow(
+        'Invalid fee tier urgent'
+      );
+      const result = await handler.buildTransfer(params);
+
+      expect(Transaction.from(result.serializedTransaction).nonce).toBe(5);
     });
 
     test('should handle insufficient funds error', async () => {
-      mockWallet.sendTransaction.mockRejectedValue(new Error('insufficient funds for gas * price + value'));
+      mockWallet.getNonce.mockResolvedValue(5);
+      mockWallet.populateTransaction.mockRejectedValue(new Error('insufficient funds for gas * price + value'));
 
       // Amount is now in wei (smallest unit)
       const amountInWei = parseEther('100').toString(); // 100 ETH in wei
@@ -133,11 +189,42 @@ describe('EthNativeHandler', () => {
         token: { assetType: ChainAssetType.Native }
       };
 
-      await expect(handler.transfer(params)).rejects.toThrow('insufficient funds for gas * price + value');
+      await expect(handler.buildTransfer(params)).rejects.toThrow('insufficient funds for gas * price + value');
+    });
+
+    test('should give distinct nonces to concurrent transfers', async () => {
+      mockWallet.getNonce.mockResolvedValue(5);
+
+      const params: TransferParams = {
+        recipientAddress: createEthAddress('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'),
+        amount: new BigNumber(parseEther('0.1').toString()),
+        token: { assetType: ChainAssetType.Native }
+      };
+
+      const results = await Promise.all([handler.buildTransfer(params), handler.buildTransfer(params)]);
+
+      expect(results.map((result) => Transaction.from(result.serializedTransaction).nonce)).toEqual([5, 6]);
+      expect(mockWallet.getNonce).toHaveBeenCalledWith('pending');
+    });
+
+    test('should reuse the nonce of a transfer that failed to build', async () => {
+      mockWallet.getNonce.mockResolvedValue(5);
+      mockWallet.populateTransaction.mockRejectedValueOnce(new Error('insufficient funds for gas * price + value'));
+
+      const params: TransferParams = {
+        recipientAddress: createEthAddress('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'),
+        amount: new BigNumber(parseEther('0.1').toString()),
+        token: { assetType: ChainAssetType.Native }
+      };
+
+      await expect(handler.buildTransfer(params)).rejects.toThrow('insufficient funds');
+      const result = await handler.buildTransfer(params);
+
+      expect(Transaction.from(result.serializedTransaction).nonce).toBe(5);
     });
 
-    test('should handle network errors during transfer', async () => {
-      mockWallet.sendTransaction.mockRejectedValue(new Error('network timeout'));
+    test('should handle network errors while building transfer', async () => {
+      mockWallet.getNonce.mockRejectedValue(new Error('network timeout'));
 
       // Amount is now in wei (smallest unit)
       const amountInWei = parseEther('0.1').toString(); // 0.1 ETH in wei
@@ -147,7 +234,7 @@ describe('EthNativeHandler', () => {
         token: { assetType: ChainAssetType.Native }
       };
 
-      await expect(handler.transfer(params)).rejects.toThrow('network timeout');
+      await expect(handler.buildTransfer(params)).rejects.toThrow('network timeout');
     });
   });
 
@@ -167,9 +254,13 @@ describe('EthNativeHandler', () => {
 
       const result = await handler.estimateFee(params);
 
-      expect(result).toBeInstanceOf(BigNumber);
-      // Fee should be in wei, not ETH (21000 * 20000000000 = 420000000000000 wei)
-      expect(result.toString()).toBe('420000000000000');
+      expect(result.gasLimit).toBe(21000n);
+      expect(result.tiers.normal.fee).toBeInstanceOf(BigNumber);
+      // Fee should be in wei, not ETH (21000 * (19 gwei base fee + 1 gwei priority fee) = 420000000000000 wei)
+      expect(result.tiers.normal.fee.toString()).toBe('420000000000000');
+      // At most 21000 * 39 gwei if the base fee rises
+      expect(result.tiers.normal.maxFee.toString()).toBe('819000000000000');
+      expect(result.tiers.fast.fee.toString()).toBe('462000000000000');
       expect(mockWallet.estimateGas).toHaveBeenCalledWith({
         to: params.recipientAddress,
         value: BigInt(amountInWei)
@@ -203,6 +294,6 @@ describe('EthNativeHandler', () => {
     });
   });
 
-  // Private methods getWalletNonce and getGasPrice are tested indirectly through public methods
+  // Nonces and fees come from the shared NonceManager and FeeManager, tested in their own suites
   // Unit tests should focus on public API behavior, not implementation details
 });
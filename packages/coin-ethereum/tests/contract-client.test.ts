@@ -0,0 +1,129 @@
+import { describe, expect, test, vi } from 'vitest';
+import { Interface, Transaction, makeError } from 'ethers';
+import BigNumber from 'bignumber.js';
+import { ArgumentError, GeneralWalletError, NoOpLogger } from '@delandlabs/coin-base';
+import { ContractClient } from '../src/chain-wallet/shared/contract-client';
+
+const vaultAddress = '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD';
+const ownerAddress = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const vaultAbi = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1)',
+  'function deposit() payable',
+  'function withdraw(uint256 amount)',
+  'error InsufficientBalance(uint256 available, uint256 required)'
+];
+const vault = new Interface(vaultAbi);
+
+function createContractClient(provider: { call?: any }, wallet: { populateTransaction?: any } = {}) {
+  const nonceManager = { reserve: vi.fn().mockResolvedValue(5), release: vi.fn() };
+  const feeManager = { getTransactionFees: vi.fn().mockResolvedValue({ type: 0, gasPrice: 1000000000n }) };
+  const connectionManager = {
+    getProvider: vi.fn().mockReturnValue(provider),
+    getConnectedWallet: vi.fn().mockReturnValue(wallet)
+  } as any;
+  return {
+    contractClient: new ContractClient(connectionManager, nonceManager as any, feeManager as any, new NoOpLogger()),
+    nonceManager
+  };
+}
+
+function createRevert(data: string, reason: string | null = null) {
+  return makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'call',
+    data,
+    reason,
+    transaction: { to: vaultAddress, data: '0x' },
+    invocation: null,
+    revert: null
+  });
+}
+
+describe('ContractClient', () => {
+  test('should read a single output from the wallet address', async () => {
+    const call = vi.fn().mockResolvedValue(vault.encodeFunctionResult('balanceOf', [42n]));
+    const { contractClient } = createContractClient({ call });
+
+    const balance = await contractClient.read(
+      { to: vaultAddress, abi: vaultAbi, method: 'balanceOf', args: [ownerAddress] },
+      ownerAddress
+    );
+
+    expect(balance).toBe(42n);
+    expect(call).toHaveBeenCalledWith({
+      to: vaultAddress,
+      value: 0n,
+      data: vault.encodeFunctionData('balanceOf', [ownerAddress]),
+      from: ownerAddress
+    });
+  });
+
+  test('should decode several outputs by position and name', async () => {
+    const call = vi.fn().mockResolvedValue(vault.encodeFunctionResult('getReserves', [10n, 20n]));
+    const { contractClient } = createContractClient({ call });
+
+    const reserves: any = await contractClient.read({ to: vaultAddress, abi: vaultAbi, method: 'getReserves' });
+
+    expect([...reserves]).toEqual([10n, 20n]);
+    expect(reserves.reserve1).toBe(20n);
+  });
+
+  test('should report custom errors of the ABI with their arguments', async () => {
+    const data = vault.encodeErrorResult('InsufficientBalance', [100n, 250n]);
+    const { contractClient } = createContractClient({ call: vi.fn().mockRejectedValue(createRevert(data)) });
+
+    const read = contractClient.read({ to: vaultAddress, abi: vaultAbi, method: 'balanceOf', args: [ownerAddress] });
+
+    await expect(read).rejects.toThrow(GeneralWalletError);
+    await expect(read).rejects.toMatchObject({
+      message: 'Ethereum: Contract call balanceOf reverted: InsufficientBalance(100, 250)',
+      details: { revertReason: 'InsufficientBalance(100, 250)', revertData: data }
+    });
+  });
+
+  test('should reject unknown functions, mismatched arguments and value for non-payable functions', () => {
+    const { contractClient } = createContractClient({});
+
+    expect(() => contractClient.buildCall({ to: vaultAddress, abi: vaultAbi, method: 'mint' })).toThrow(
+      'Contract ABI has no function mint'
+    );
+    expect(() =>
+      contractClient.buildCall({ to: vaultAddress, abi: vaultAbi, method: 'withdraw', args: ['not a number'] })
+    ).toThrow(ArgumentError);
+    expect(() =>
+      contractClient.buildCall({
+        to: vaultAddress,
+        abi: vaultAbi,
+        method: 'withdraw',
+        args: [1n],
+        value: new BigNumber(1)
+      })
+    ).toThrow('is not payable');
+  });
+
+  test('should build a transaction sending value to a payable function', async () => {
+    const populateTransaction = vi.fn(async (request: any) => ({ ...request, chainId: 1n, gasLimit: 50000n }));
+    const { contractClient } = createContractClient({}, { populateTransaction });
+
+    const unsigned = await contractClient.buildTransaction({
+      to: vaultAddress,
+      abi: vaultAbi,
+      method: 'deposit',
+      value: new BigNumber('1000000000000000000')
+    });
+
+    const tx = Transaction.from(unsigned.serializedTransaction);
+    expect(tx).toMatchObject({ to: vaultAddress, value: 1000000000000000000n, nonce: 5, gasPrice: 1000000000n });
+    expect(tx.data).toBe(vault.encodeFunctionData('deposit'));
+  });
+
+  test('should give the nonce back when gas estimation reverts', async () => {
+    const populateTransaction = vi.fn().mockRejectedValue(createRevert('0x', 'Vault: paused'));
+    const { contractClient, nonceManager } = createContractClient({}, { populateTransaction });
+
+    await expect(
+      contractClient.buildTransaction({ to: vaultAddress, abi: vaultAbi, method: 'withdraw', args: [1n] })
+    ).rejects.toThrow('Contract call withdraw reverted: Vault: paused');
+    expect(nonceManager.release).toHaveBeenCalledWith(5);
+  });
+});
@@ -0,0 +1,138 @@
+import 'reflect-metadata';
+import { describe, expect, test, vi } from 'vitest';
+import { Interface, Transaction, hexlify, makeError, toUtf8Bytes, verifyMessage, verifyTypedData } from 'ethers';
+import { EthereumChainWallet } from '../src/chain-wallet/wallet';
+import { toEip1193Provider } from '../src/chain-wallet/eip1193-provider';
+import { Ethereum } from './test-chains';
+
+const testMnemonic = 'test test test test test test test test test test test junk';
+const account = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const otherAccount = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const vaultAddress = '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD';
+const vault = new Interface(['function deposit() payable', 'error Paused()']);
+
+function createProvider(options?: ConstructorParameters<typeof EthereumChainWallet>[2]) {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic, options);
+  const mockProvider: Record<string, any> = {
+    send: vi.fn(),
+    getFeeData: vi.fn().mockResolvedValue({ maxFeePerGas: 20000000000n, maxPriorityFeePerGas: 1000000000n }),
+    broadcastTransaction: vi.fn().mockImplementation(async (serialized: string) => ({
+      hash: Transaction.from(serialized).hash,
+      from: '0x',
+      to: null
+    }))
+  };
+  const mockWallet = {
+    getNonce: vi.fn().mockResolvedValue(7),
+    populateTransaction: vi.fn(async (request: any) => ({ type: 2, gasLimit: 60000n, chainId: 1n, ...request }))
+  };
+  const internals = wallet as any;
+  vi.spyOn(internals.connectionManager, 'getProvider').mockReturnValue(mockProvider);
+  vi.spyOn(internals.connectionManager, 'getConnectedWallet').mockReturnValue(mockWallet);
+  return { provider: toEip1193Provider(wallet), mockProvider };
+}
+
+describe('toEip1193Provider', () => {
+  test('should report the wallet account and chain', async () => {
+    const { provider } = createProvider();
+
+    await expect(provider.request({ method: 'eth_accounts' })).resolves.toEqual([account]);
+    await expect(provider.request({ method: 'eth_requestAccounts' })).resolves.toEqual([account]);
+    await expect(provider.request({ method: 'eth_chainId' })).resolves.toBe('0x1');
+  });
+
+  test('should sign personal messages given as hex bytes or text', async () => {
+    const { provider } = createProvider();
+    const hash = '0x' + 'ab'.repeat(32);
+
+    const bytesSignature = await provider.request({ method: 'personal_sign', params: [hash, account] });
+    const textSignature = await provider.request({ method: 'personal_sign', params: ['Sign in', account] });
+
+    expect(verifyMessage(new Uint8Array(32).fill(0xab), bytesSignature as string)).toBe(account);
+    expect(verifyMessage('Sign in', textSignature as string)).toBe(account);
+    // Hex-encoded text signs the same as the text
+    const hexText = hexlify(toUtf8Bytes('Sign in'));
+    await expect(provider.request({ method: 'personal_sign', params: [hexText, account] })).resolves.toBe(
+      textSignature
+    );
+  });
+
+  test('should sign typed data sent as JSON', async () => {
+    const { provider } = createProvider();
+    const domain = { name: 'Ether Mail', version: '1', chainId: 1, verifyingContract: vaultAddress };
+    const types = { Mail: [{ name: 'contents', type: 'string' }] };
+    const message = { contents: 'Hello, Bob!' };
+    const typedData = JSON.stringify({
+      domain,
+      types: { EIP712Domain: [{ name: 'name', type: 'string' }], ...types },
+      primaryType: 'Mail',
+      message
+    });
+
+    const signature = await provider.request({ method: 'eth_signTypedData_v4', params: [account, typedData] });
+
+    expect(verifyTypedData(domain, types, message, signature as string)).toBe(account);
+  });
+
+  test('should reject requests for other accounts and unsupported methods with their error codes', async () => {
+    const { provider } = createProvider();
+
+    await expect(provider.request({ method: 'personal_sign', params: ['0x00', otherAccount] })).rejects.toMatchObject({
+      code: 4100
+    });
+    await expect(
+      provider.request({ method: 'eth_sendTransaction', params: [{ from: account, data: '0x00' }] })
+    ).rejects.toMatchObject({ code: -32602, message: 'Contract creation is not supported' });
+    await expect(provider.request({ method: 'eth_sign', params: [account, '0x00'] })).rejects.toMatchObject({
+      code: 4200
+    });
+  });
+
+  test('should send transactions priced and numbered by the wallet', async () => {
+    const { provider, mockProvider } = createProvider();
+    const data = vault.encodeFunctionData('deposit');
+
+    const txHash = await provider.request({
+      method: 'eth_sendTransaction',
+      params: [{ from: account, to: vaultAddress, value: '0xde0b6b3a7640000', data, gas: '0x1', nonce: '0x0' }]
+    });
+
+    const broadcast = Transaction.from(mockProvider.broadcastTransaction.mock.calls[0][0]);
+    expect(broadcast.hash).toBe(txHash);
+    expect(broadcast).toMatchObject({ to: vaultAddress, value: 1000000000000000000n, data, nonce: 7 });
+    expect(broadcast.gasLimit).toBe(60000n);
+    expect(broadcast.from).toBe(account);
+  });
+
+  test('should reject transactions in smart-account mode', async () => {
+    const { provider, mockProvider } = createProvider({ smartAccount: { bundlerUrl: 'https://bundler.example.com' } });
+
+    await expect(
+      provider.request({ method: 'eth_sendTransaction', params: [{ from: account, to: vaultAddress, value: '0x1' }] })
+    ).rejects.toMatchObject({ code: 4200, message: 'eth_sendTransaction is not supported in smart-account mode' });
+    expect(mockProvider.broadcastTransaction).not.toHaveBeenCalled();
+  });
+
+  test('should pass read methods through to the node and keep the revert data of calls', async () => {
+    const { provider, mockProvider } = createProvider();
+    mockProvider.send.mockResolvedValueOnce('0x13a2f1c');
+
+    await expect(provider.request({ method: 'eth_blockNumber', params: [] })).resolves.toBe('0x13a2f1c');
+    expect(mockProvider.send).toHaveBeenCalledWith('eth_blockNumber', []);
+
+    const revertData = vault.encodeErrorResult('Paused');
+    mockProvider.send.mockRejectedValueOnce(
+      makeError('execution reverted', 'CALL_EXCEPTION', {
+        action: 'call',
+        data: revertData,
+        reason: null,
+        transaction: { to: vaultAddress, data: '0x' },
+        invocation: null,
+        revert: null
+      })
+    );
+    await expect(
+      provider.request({ method: 'eth_call', params: [{ to: vaultAddress, data: '0x' }, 'latest'] })
+    ).rejects.toMatchObject({ code: 3, data: revertData });
+  });
+});
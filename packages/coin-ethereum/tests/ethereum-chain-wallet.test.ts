@@ -1,8 +1,32 @@
 import 'reflect-metadata';
-import { expect, test, vitest } from 'vitest';
+import { expect, test, vi, vitest } from 'vitest';
+import {
+  Interface,
+  MaxUint256,
+  Signature,
+  Transaction,
+  TypedDataEncoder,
+  makeError,
+  verifyMessage,
+  verifyTypedData
+} from 'ethers';
 import { EthereumChainWallet } from '../src/chain-wallet/wallet';
-import { ChainId, ChainNetwork, ChainType } from '@delandlabs/hibit-basic-types';
-import { Ethereum } from './test-chains';
+import { ChainAssetType, ChainId, ChainNetwork, ChainType } from '@delandlabs/hibit-basic-types';
+import BigNumber from 'bignumber.js';
+import {
+  ArgumentError,
+  HibitIdSdkErrorCode,
+  ISigner,
+  MnemonicSigner,
+  UnsignedTransaction
+} from '@delandlabs/coin-base';
+import { EthereumUnsignedTransactionData, EthereumSignedTransactionData } from '../src/chain-wallet/types';
+import { erc20Abi, erc20PermitAbi, multicall3Abi, permit2Abi } from '../src/chain-wallet/utils';
+import { MULTICALL_CONFIG, PERMIT_CONFIG } from '../src/chain-wallet/config';
+import { PERMIT_BATCH_TYPES, PERMIT_SINGLE_TYPES, PERMIT_TYPES } from '../src/chain-wallet/typed-data';
+import { createEnsRecipient } from '../src/chain-wallet/ens';
+import { Ethereum, EthereumBsc, EthereumSepolia } from './test-chains';
+import { getWalletInternals } from './test-utils';
 
 // set timeout to 60 seconds
 vitest.setConfig({
@@ -21,6 +45,50 @@ test('EthereumChainWallet invalid chain type should throw', async () => {
   expect(() => new EthereumChainWallet(invalidChainInfo, testMnemonic)).toThrow('Ethereum: Invalid chain type');
 });
 
+test('EthereumChainWallet derives the configured account index', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic, { accountIndex: 1 });
+  const account = await wallet.getAccount();
+
+  expect(account.address).toBe('0x70997970C51812dc3A010C7d01b50e0d17dc79C8');
+});
+
+test('EthereumChainWallet derives a custom derivation path', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic, { derivationPath: "m/44'/60'/0'/0/2" });
+  const account = await wallet.getAccount();
+
+  expect(account.address).toBe('0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC');
+});
+
+test('EthereumChainWallet getAccounts derives consecutive accounts', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const accounts = await wallet.getAccounts({ start: 0, count: 3 });
+
+  expect(accounts.map((account) => account.address)).toEqual([
+    '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+    '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC'
+  ]);
+  expect(accounts[0].address).toBe((await wallet.getAccount()).address);
+});
+
+test('EthereumChainWallet selects the network profile of the chain ID', async () => {
+  expect(new EthereumChainWallet(EthereumBsc, testMnemonic).getNetworkProfile()).toEqual({
+    name: 'BNB Smart Chain',
+    feeModel: 'standard',
+    eip1559: false
+  });
+  // Overrides replace fields of the built-in profile
+  const wallet = new EthereumChainWallet(EthereumSepolia, testMnemonic, {
+    networkProfile: { minPriorityFeePerGas: 2000000000n }
+  });
+  expect(wallet.getNetworkProfile()).toEqual({
+    name: 'Ethereum Sepolia',
+    feeModel: 'standard',
+    eip1559: true,
+    minPriorityFeePerGas: 2000000000n
+  });
+});
+
 test('EthereumChainWallet signMessage', async () => {
   const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
   const signature = await wallet.signMessage({ message: 'Hello World' });
@@ -40,3 +108,891 @@ test('EthereumChainWallet signMessage empty message should not throw', async ()
   expect(signature).toBeInstanceOf(Uint8Array);
   expect(signature.length).toBeGreaterThan(0);
 });
+
+test('EthereumChainWallet signs through the signer it was constructed with', async () => {
+  const mnemonicSigner = new MnemonicSigner(testMnemonic, { keyType: 'secp256k1', derivationPath: "m/44'/60'/0'/0/1" });
+  // Stand-in for a remote signer that never exposes its key
+  const signer: ISigner = {
+    keyType: 'secp256k1',
+    getPublicKey: () => mnemonicSigner.getPublicKey(),
+    signBytes: (message) => mnemonicSigner.signBytes(message),
+    signDigest: vi.fn((digest: Uint8Array) => mnemonicSigner.signDigest(digest))
+  };
+  const wallet = new EthereumChainWallet(Ethereum, signer);
+
+  const account = await wallet.getAccount();
+  const signature = await wallet.signMessage({ message: 'Hello World' });
+  const signed = await wallet.signTransaction(createUnsignedTransfer());
+
+  expect(account.address).toBe('0x70997970C51812dc3A010C7d01b50e0d17dc79C8');
+  expect(verifyMessage('Hello World', new Uint8Array(signature))).toBe(account.address);
+  expect(Transaction.from((signed.data as EthereumSignedTransactionData).serializedTransaction).from).toBe(
+    account.address
+  );
+  expect(signer.signDigest).toHaveBeenCalledTimes(2);
+});
+
+const permitDomain = {
+  name: 'USD Coin',
+  version: '2',
+  chainId: 1,
+  verifyingContract: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+};
+const permitTypes = {
+  EIP712Domain: [
+    { name: 'name', type: 'string' },
+    { name: 'version', type: 'string' },
+    { name: 'chainId', type: 'uint256' },
+    { name: 'verifyingContract', type: 'address' }
+  ],
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+const permitValue = {
+  owner: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  spender: '0x70997970c51812dc3a010c7d01b50e0d17dc79c8',
+  value: 1000000n,
+  nonce: 0,
+  deadline: 1700000000
+};
+
+test('EthereumChainWallet signTypedData signs EIP-712 messages', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const account = await wallet.getAccount();
+
+  const signature = await wallet.signTypedData(permitDomain, permitTypes, permitValue);
+
+  expect(signature).toHaveLength(65);
+  const { EIP712Domain: _, ...types } = permitTypes;
+  expect(verifyTypedData(permitDomain, types, permitValue, new Uint8Array(signature))).toBe(account.address);
+});
+
+test('EthereumChainWallet signTypedData rejects domains of other chains', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  await wallet.getAccount();
+
+  await expect(wallet.signTypedData({ ...permitDomain, chainId: 56 }, permitTypes, permitValue)).rejects.toThrow(
+    'Typed data is for chain 56, but the wallet is on chain 1'
+  );
+  const { chainId: _, ...domainWithoutChainId } = permitDomain;
+  await expect(wallet.signTypedData(domainWithoutChainId, permitTypes, permitValue)).rejects.toThrow(ArgumentError);
+});
+
+test('EthereumChainWallet previewTypedData formats the message for display', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+
+  const preview = wallet.previewTypedData(permitDomain, permitTypes, permitValue);
+
+  expect(preview.primaryType).toBe('Permit');
+  expect(preview.domain).toContainEqual({
+    name: 'verifyingContract',
+    type: 'address',
+    value: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'
+  });
+  expect(preview.message).toEqual([
+    { name: 'owner', type: 'address', value: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' },
+    { name: 'spender', type: 'address', value: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' },
+    { name: 'value', type: 'uint256', value: '1000000' },
+    { name: 'nonce', type: 'uint256', value: '0' },
+    { name: 'deadline', type: 'uint256', value: '1700000000' }
+  ]);
+});
+
+test('EthereumChainWallet previewTypedData lists the members of nested structs and arrays', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const types = {
+    Person: [{ name: 'wallet', type: 'address' }],
+    Mail: [
+      { name: 'to', type: 'Person[]' },
+      { name: 'contents', type: 'string' }
+    ]
+  };
+
+  const preview = wallet.previewTypedData(permitDomain, types, {
+    to: [{ wallet: permitValue.spender }],
+    contents: 'Hello'
+  });
+
+  expect(preview.message[0]).toEqual({
+    name: 'to',
+    type: 'Person[]',
+    children: [
+      {
+        name: '0',
+        type: 'Person',
+        children: [{ name: 'wallet', type: 'address', value: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' }]
+      }
+    ]
+  });
+});
+
+test('EthereumChainWallet rejects Ed25519 signers', async () => {
+  const signer = new MnemonicSigner(testMnemonic, { keyType: 'ed25519', derivationPath: "m/44'/501'/0'/0'" });
+  const wallet = new EthereumChainWallet(Ethereum, signer);
+
+  await expect(wallet.getAccount()).rejects.toThrow('Signer key type ed25519 is not supported');
+});
+
+test('EthereumChainWallet watch-only wallets report the account but cannot sign', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, { address: '0x70997970c51812dc3a010c7d01b50e0d17dc79c8' });
+
+  const account = await wallet.getAccount();
+
+  expect(wallet.isWatchOnly()).toBe(true);
+  expect(account.address).toBe('0x70997970C51812dc3A010C7d01b50e0d17dc79C8');
+  await expect(wallet.signMessage({ message: 'Hello World' })).rejects.toMatchObject({
+    code: HibitIdSdkErrorCode.WATCH_ONLY_WALLET
+  });
+  await expect(wallet.signTransaction(createUnsignedTransfer())).rejects.toMatchObject({
+    code: HibitIdSdkErrorCode.WATCH_ONLY_WALLET
+  });
+});
+
+function createUnsignedTransfer(chainInfo = Ethereum): UnsignedTransaction<EthereumUnsignedTransactionData> {
+  const tx = Transaction.from({
+    type: 2,
+    to: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+    value: 1000n,
+    nonce: 0,
+    gasLimit: 21000n,
+    maxFeePerGas: 30000000000n,
+    maxPriorityFeePerGas: 1000000000n,
+    chainId: 1n
+  });
+
+  return {
+    chain: chainInfo.chainId.chain.toString(),
+    network: chainInfo.chainId.network.toString(),
+    recipientAddress: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+    amount: '1000',
+    token: { assetType: ChainAssetType.Native },
+    data: { serializedTransaction: tx.unsignedSerialized }
+  };
+}
+
+test('EthereumChainWallet signTransaction signs offline with the wallet key', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const account = await wallet.getAccount();
+
+  const signed = await wallet.signTransaction(createUnsignedTransfer());
+  const tx = Transaction.from((signed.data as EthereumSignedTransactionData).serializedTransaction);
+
+  expect(tx.isSigned()).toBe(true);
+  expect(tx.from).toBe(account.address);
+  expect(signed.txHash).toBe(tx.hash);
+});
+
+test('EthereumChainWallet signTransaction rejects transactions built for another network', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+
+  await expect(wallet.signTransaction(createUnsignedTransfer(EthereumSepolia))).rejects.toThrow(ArgumentError);
+});
+
+test('EthereumChainWallet broadcastTransaction sends the signed transaction without signing again', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const signed = await wallet.signTransaction(createUnsignedTransfer());
+
+  const mockProvider = {
+    broadcastTransaction: vi.fn().mockResolvedValue({ hash: signed.txHash, from: '0x', to: null })
+  };
+  vi.spyOn(getWalletInternals(wallet).connectionManager, 'getProvider').mockReturnValue(mockProvider);
+
+  await expect(wallet.broadcastTransaction(signed)).resolves.toBe(signed.txHash);
+  await expect(wallet.broadcastTransaction(signed)).resolves.toBe(signed.txHash);
+  expect(mockProvider.broadcastTransaction).toHaveBeenCalledTimes(2);
+  expect(mockProvider.broadcastTransaction).toHaveBeenCalledWith(
+    (signed.data as EthereumSignedTransactionData).serializedTransaction
+  );
+});
+
+/**
+ * Mock the network of a wallet whose account has the given transaction counts
+ * Transactions are populated with fixed fees and broadcast successfully unless mocked otherwise.
+ */
+function mockTransferNetwork(wallet: EthereumChainWallet, nonces: { latest?: number; pending: number }) {
+  const internals = wallet as any;
+  const mockProvider = {
+    getFeeData: vi.fn().mockResolvedValue({ maxFeePerGas: 20000000000n, maxPriorityFeePerGas: 1000000000n }),
+    getTransaction: vi.fn(),
+    broadcastTransaction: vi.fn().mockImplementation(async (serialized: string) => ({
+      hash: Transaction.from(serialized).hash,
+      from: '0x',
+      to: null
+    }))
+  };
+  const mockWallet = {
+    getNonce: vi.fn(async (blockTag: string) => (blockTag === 'latest' ? (nonces.latest ?? 0) : nonces.pending)),
+    populateTransaction: vi.fn(async (request: any) => ({
+      type: 2,
+      gasLimit: 21000n,
+      maxFeePerGas: 30000000000n,
+      maxPriorityFeePerGas: 1000000000n,
+      chainId: 1n,
+      ...request
+    }))
+  };
+  vi.spyOn(internals.connectionManager, 'getProvider').mockReturnValue(mockProvider);
+  vi.spyOn(internals.connectionManager, 'getConnectedWallet').mockReturnValue(mockWallet);
+  return { mockProvider, mockWallet };
+}
+
+const nativeTransfer = {
+  recipientAddress: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as any,
+  amount: new BigNumber('1000'),
+  token: { assetType: ChainAssetType.Native }
+};
+
+test('EthereumChainWallet batchTransfer broadcasts transfers with consecutive nonces', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  await wallet.getAccount();
+  const { mockProvider } = mockTransferNetwork(wallet, { pending: 0 });
+
+  const txHashes = await wallet.batchTransfer([nativeTransfer, nativeTransfer, nativeTransfer]);
+
+  const broadcast = mockProvider.broadcastTransaction.mock.calls.map(([serialized]) => Transaction.from(serialized));
+  expect(broadcast.map((tx) => tx.nonce)).toEqual([0, 1, 2]);
+  expect(txHashes).toEqual(broadcast.map((tx) => tx.hash));
+});
+
+test('EthereumChainWallet concurrent transfers use distinct nonces', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  await wallet.getAccount();
+  // The node does not see the first transfer before the second one is built
+  const { mockProvider } = mockTransferNetwork(wallet, { pending: 4 });
+
+  await Promise.all([wallet.transfer(nativeTransfer), wallet.transfer(nativeTransfer)]);
+
+  const broadcast = mockProvider.broadcastTransaction.mock.calls.map(([serialized]) => Transaction.from(serialized));
+  expect(broadcast.map((tx) => tx.nonce).sort((a, b) => a - b)).toEqual([4, 5]);
+});
+
+test('EthereumChainWallet batchTransfer gives back the nonces of transfers that were not broadcast', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  await wallet.getAccount();
+  const { mockProvider } = mockTransferNetwork(wallet, { pending: 0 });
+  mockProvider.broadcastTransaction
+    .mockResolvedValueOnce({ hash: '0x01', from: '0x', to: null })
+    .mockRejectedValueOnce(new Error('insufficient funds for gas * price + value'));
+
+  await expect(wallet.batchTransfer([nativeTransfer, nativeTransfer, nativeTransfer])).rejects.toThrow(
+    'insufficient funds'
+  );
+  await wallet.transfer(nativeTransfer);
+
+  const nonces = mockProvider.broadcastTransaction.mock.calls.map(([serialized]) => Transaction.from(serialized).nonce);
+  expect(nonces).toEqual([0, 1, 1]);
+});
+
+test('EthereumChainWallet cancelNonce replaces the pending transaction with higher fees', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const account = await wallet.getAccount();
+  const { mockProvider } = mockTransferNetwork(wallet, { latest: 0, pending: 0 });
+  const txHash = await wallet.transfer(nativeTransfer);
+  mockProvider.getTransaction.mockResolvedValue({ maxFeePerGas: 30000000000n, maxPriorityFeePerGas: 1000000000n });
+
+  const cancelHash = await wallet.cancelNonce(0);
+
+  const replacement = Transaction.from(mockProvider.broadcastTransaction.mock.calls[1][0]);
+  expect(cancelHash).toBe(replacement.hash);
+  expect(mockProvider.getTransaction).toHaveBeenCalledWith(txHash);
+  expect(replacement.nonce).toBe(0);
+  expect(replacement.to).toBe(account.address);
+  expect(replacement.value).toBe(0n);
+  expect(replacement.from).toBe(account.address);
+  // 15% above the replaced transaction's fees
+  expect(replacement.maxFeePerGas).toBe(34500000000n);
+  expect(replacement.maxPriorityFeePerGas).toBe(1150000000n);
+});
+
+test('EthereumChainWallet cancelNonce refuses mined nonces', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  await wallet.getAccount();
+  const { mockProvider } = mockTransferNetwork(wallet, { latest: 3, pending: 3 });
+
+  await expect(wallet.cancelNonce(2)).rejects.toThrow('Transaction with nonce 2 is already mined');
+  expect(mockProvider.broadcastTransaction).not.toHaveBeenCalled();
+});
+
+function pendingTransaction(from: string, overrides: Record<string, unknown> = {}) {
+  return {
+    hash: '0x' + 'ab'.repeat(32),
+    from,
+    to: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    nonce: 0,
+    value: 0n,
+    data: '0xa9059cbb',
+    gasLimit: 65000n,
+    maxFeePerGas: 30000000000n,
+    maxPriorityFeePerGas: 1000000000n,
+    accessList: [],
+    blockNumber: null,
+    ...overrides
+  };
+}
+
+test('EthereumChainWallet speedUpTransaction re-sends the pending transaction with the bumped fees', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const account = await wallet.getAccount();
+  const { mockProvider } = mockTransferNetwork(wallet, { latest: 0, pending: 1 });
+  const pending = pendingTransaction(account.address);
+  mockProvider.getTransaction.mockResolvedValue(pending);
+
+  const txHash = await wallet.speedUpTransaction(pending.hash, 50);
+
+  const replacement = Transaction.from(mockProvider.broadcastTransaction.mock.calls[0][0]);
+  expect(txHash).toBe(replacement.hash);
+  expect(replacement.nonce).toBe(0);
+  expect(replacement.to).toBe(pending.to);
+  expect(replacement.data).toBe(pending.data);
+  expect(replacement.gasLimit).toBe(65000n);
+  // 50% above the pending transaction's fees
+  expect(replacement.maxFeePerGas).toBe(45000000000n);
+  expect(replacement.maxPriorityFeePerGas).toBe(1500000000n);
+});
+
+test('EthereumChainWallet speedUpTransaction rejects a fee bump nodes would not accept', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  await wallet.getAccount();
+
+  await expect(wallet.speedUpTransaction('0x' + 'ab'.repeat(32), 5)).rejects.toThrow('Fee bump must be at least 10%');
+});
+
+test('EthereumChainWallet cancelTransaction replaces the pending transaction with a transfer to itself', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const account = await wallet.getAccount();
+  const { mockProvider } = mockTransferNetwork(wallet, { latest: 2, pending: 3 });
+  const pending = pendingTransaction(account.address, { nonce: 2 });
+  mockProvider.getTransaction.mockResolvedValue(pending);
+
+  await wallet.cancelTransaction(pending.hash);
+
+  const replacement = Transaction.from(mockProvider.broadcastTransaction.mock.calls[0][0]);
+  expect(replacement.nonce).toBe(2);
+  expect(replacement.to).toBe(account.address);
+  expect(replacement.value).toBe(0n);
+  expect(replacement.data).toBe('0x');
+  expect(replacement.maxFeePerGas).toBe(34500000000n);
+});
+
+test('EthereumChainWallet cancelTransaction refuses mined transactions', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const account = await wallet.getAccount();
+  const { mockProvider } = mockTransferNetwork(wallet, { latest: 1, pending: 1 });
+  const mined = pendingTransaction(account.address, { blockNumber: 100 });
+  mockProvider.getTransaction.mockResolvedValue(mined);
+
+  await expect(wallet.cancelTransaction(mined.hash)).rejects.toThrow(`Transaction ${mined.hash} is already mined`);
+  expect(mockProvider.broadcastTransaction).not.toHaveBeenCalled();
+});
+
+test('EthereumChainWallet cancelTransaction refuses transactions of other accounts', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  await wallet.getAccount();
+  const { mockProvider } = mockTransferNetwork(wallet, { latest: 0, pending: 1 });
+  const foreign = pendingTransaction('0x70997970C51812dc3A010C7d01b50e0d17dc79C8');
+  mockProvider.getTransaction.mockResolvedValue(foreign);
+
+  await expect(wallet.cancelTransaction(foreign.hash)).rejects.toThrow('was not sent by this wallet');
+  expect(mockProvider.broadcastTransaction).not.toHaveBeenCalled();
+});
+
+test('EthereumChainWallet simulateTransfer returns fee and balance changes without broadcasting', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const account = await wallet.getAccount();
+  const internals = wallet as any;
+
+  const mockProvider = {
+    getBalance: vi.fn().mockResolvedValue(10n ** 18n),
+    broadcastTransaction: vi.fn()
+  };
+  vi.spyOn(internals, 'buildTransferImpl').mockResolvedValue(createUnsignedTransfer());
+  vi.spyOn(internals.connectionManager, 'getProvider').mockReturnValue(mockProvider);
+  vi.spyOn(internals.connectionManager, 'getConnectedWallet').mockReturnValue({
+    call: vi.fn().mockResolvedValue('0x')
+  });
+
+  const result = await wallet.simulateTransfer({
+    recipientAddress: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as any,
+    amount: new BigNumber('1000'),
+    token: { assetType: ChainAssetType.Native }
+  });
+
+  // 21000 gas at 30 gwei
+  expect(result.success).toBe(true);
+  expect(result.fee.toString()).toBe('630000000000000');
+  expect(result.balanceChanges[0]).toEqual({
+    address: account.address,
+    token: { assetType: ChainAssetType.Native },
+    amount: new BigNumber('-630000000001000')
+  });
+  expect(mockProvider.broadcastTransaction).not.toHaveBeenCalled();
+});
+
+test('EthereumChainWallet simulateTransfer reports the revert reason', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const internals = wallet as any;
+
+  vi.spyOn(internals, 'buildTransferImpl').mockResolvedValue(createUnsignedTransfer());
+  vi.spyOn(internals.connectionManager, 'getProvider').mockReturnValue({});
+  vi.spyOn(internals.connectionManager, 'getConnectedWallet').mockReturnValue({
+    call: vi.fn().mockRejectedValue(
+      makeError('execution reverted', 'CALL_EXCEPTION', {
+        action: 'call',
+        data: null,
+        reason: 'ERC20: transfer amount exceeds balance',
+        transaction: { to: null, data: '0x' },
+        invocation: null,
+        revert: null
+      })
+    )
+  });
+
+  const result = await wallet.simulateTransfer({
+    recipientAddress: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as any,
+    amount: new BigNumber('1000'),
+    token: { assetType: ChainAssetType.Native }
+  });
+
+  expect(result.success).toBe(false);
+  expect(result.failureReason).toBe('ERC20: transfer amount exceeds balance');
+  expect(result.balanceChanges).toEqual([]);
+});
+
+function createTransferLog(from: string, to: string, value: bigint, blockNumber: number, index: number) {
+  const { topics, data } = new Interface(erc20Abi).encodeEventLog('Transfer', [from, to, value]);
+  return { topics, data, blockNumber, index, transactionHash: `0x${blockNumber.toString(16).padStart(64, '0')}` };
+}
+
+test('EthereumChainWallet getTransactionHistory lists ERC20 transfers newest first', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const { address } = await wallet.getAccount();
+  const counterparty = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+  const token = { assetType: ChainAssetType.ERC20, tokenAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' };
+
+  const sent = [createTransferLog(address, counterparty, 500n, 990, 3)];
+  const received = [
+    createTransferLog(counterparty, address, 700n, 995, 1),
+    createTransferLog(counterparty, address, 1n, 10, 0)
+  ];
+  const mockProvider = {
+    getBlockNumber: vi.fn().mockResolvedValue(1000),
+    getLogs: vi.fn().mockImplementation(async (filter: any) => {
+      const logs = filter.topics[1] ? sent : received;
+      return logs.filter((log) => log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock);
+    }),
+    getTransactionReceipt: vi.fn().mockResolvedValue({ fee: 21000n }),
+    getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({ timestamp: blockNumber }))
+  };
+  vi.spyOn(getWalletInternals(wallet).connectionManager, 'getProvider').mockReturnValue(mockProvider);
+
+  const page = await wallet.getTransactionHistory({ address: address as any, token, limit: 2 });
+
+  expect(page.records).toEqual([
+    {
+      hash: received[0].transactionHash,
+      direction: 'incoming',
+      counterparty,
+      amount: new BigNumber(700),
+      token,
+      fee: new BigNumber(21000),
+      status: 'confirmed',
+      timestamp: 995000
+    },
+    expect.objectContaining({ direction: 'outgoing', counterparty, amount: new BigNumber(500), timestamp: 990000 })
+  ]);
+  expect(page.nextCursor).toBe('990:3');
+
+  const older = await wallet.getTransactionHistory({ address: address as any, token, cursor: page.nextCursor });
+
+  expect(older.records.map((record) => record.amount.toString())).toEqual(['1']);
+  expect(older.nextCursor).toBeUndefined();
+});
+
+test('EthereumChainWallet getTransactionHistory rejects native assets', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const { address } = await wallet.getAccount();
+
+  await expect(
+    wallet.getTransactionHistory({ address: address as any, token: { assetType: ChainAssetType.Native } })
+  ).rejects.toMatchObject({ code: HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED });
+});
+
+const usdc = { assetType: ChainAssetType.ERC20, tokenAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' };
+const router = '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD';
+const bridge = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+/**
+ * Answer allowance() calls of the mocked provider with the given allowances by spender
+ */
+function mockAllowances(mockProvider: any, allowances: Record<string, bigint>) {
+  const erc20 = new Interface(erc20Abi);
+  mockProvider.call = vi.fn(async (tx: any) => {
+    const [, spender] = erc20.decodeFunctionData('allowance', tx.data);
+    return erc20.encodeFunctionResult('allowance', [allowances[spender] ?? 0n]);
+  });
+}
+
+function createApprovalLog(owner: string, spender: string, value: bigint, blockNumber: number) {
+  const { topics, data } = new Interface(erc20Abi).encodeEventLog('Approval', [owner, spender, value]);
+  return { topics, data, blockNumber, index: 0 };
+}
+
+test('EthereumChainWallet approve sends an approval of the token to the spender', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  await wallet.getAccount();
+  const { mockProvider } = mockTransferNetwork(wallet, { pending: 2 });
+
+  const txHash = await wallet.approve({ token: usdc, spender: router, amount: new BigNumber('250000000') });
+
+  const tx = Transaction.from(mockProvider.broadcastTransaction.mock.calls[0][0]);
+  expect(txHash).toBe(tx.hash);
+  expect(tx.to).toBe(usdc.tokenAddress);
+  expect(tx.nonce).toBe(2);
+  const [spender, amount] = new Interface(erc20Abi).decodeFunctionData('approve', tx.data);
+  expect(spender).toBe(router);
+  expect(amount).toBe(250000000n);
+});
+
+test('EthereumChainWallet approve rejects the zero address and amounts outside uint256', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  await wallet.getAccount();
+  const { mockProvider } = mockTransferNetwork(wallet, { pending: 0 });
+  const tooLarge = new BigNumber(MaxUint256.toString()).plus(1);
+
+  await expect(
+    wallet.approve({ token: usdc, spender: '0x0000000000000000000000000000000000000000', amount: new BigNumber(1) })
+  ).rejects.toThrow('Cannot approve the zero address');
+  await expect(wallet.approve({ token: usdc, spender: router, amount: tooLarge })).rejects.toThrow(ArgumentError);
+  expect(mockProvider.broadcastTransaction).not.toHaveBeenCalled();
+});
+
+test('EthereumChainWallet revokeAllowance approves zero and refuses spenders without allowance', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  await wallet.getAccount();
+  const { mockProvider } = mockTransferNetwork(wallet, { pending: 0 });
+  mockAllowances(mockProvider, { [router]: MaxUint256 });
+
+  await wallet.revokeAllowance(usdc, router);
+
+  const tx = Transaction.from(mockProvider.broadcastTransaction.mock.calls[0][0]);
+  expect(new Interface(erc20Abi).decodeFunctionData('approve', tx.data)[1]).toBe(0n);
+  await expect(wallet.revokeAllowance(usdc, bridge)).rejects.toThrow('has no allowance to revoke');
+});
+
+test('EthereumChainWallet listAllowances reports the remaining allowances of approved spenders', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const { address } = await wallet.getAccount();
+  const mockProvider = {
+    getBlockNumber: vi.fn().mockResolvedValue(1000),
+    getLogs: vi.fn().mockResolvedValue([
+      createApprovalLog(address, bridge, 100n, 900),
+      createApprovalLog(address, router, MaxUint256, 950)
+    ])
+  };
+  // The bridge spent its allowance since
+  mockAllowances(mockProvider, { [router]: MaxUint256 - 5n });
+  vi.spyOn(getWalletInternals(wallet).connectionManager, 'getProvider').mockReturnValue(mockProvider);
+
+  const allowances = await wallet.listAllowances(usdc, { fromBlock: 0 });
+
+  expect(mockProvider.getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 0, toBlock: 1000 }));
+  expect(allowances).toEqual([
+    { spender: router, amount: new BigNumber((MaxUint256 - 5n).toString()), isInfinite: true }
+  ]);
+});
+
+const permitDeadline = () => Math.floor(Date.now() / 1000) + 3600;
+
+/**
+ * Answer the calls of the mocked provider as an EIP-2612 token with the given domain and nonce
+ */
+function mockPermitToken(mockProvider: any, domain: Record<string, unknown>, nonce: bigint) {
+  const token = new Interface([...erc20Abi, ...erc20PermitAbi]);
+  const results: Record<string, unknown[]> = {
+    name: [domain.name],
+    version: [domain.version],
+    nonces: [nonce],
+    DOMAIN_SEPARATOR: [TypedDataEncoder.hashDomain(domain)]
+  };
+  mockProvider.call = vi.fn(async (tx: any) => {
+    const { name } = token.parseTransaction({ data: tx.data })!;
+    return token.encodeFunctionResult(name, results[name]);
+  });
+}
+
+/**
+ * Answer Permit2 allowance() calls of the mocked provider with the given nonces by token
+ */
+function mockPermit2Nonces(mockProvider: any, nonces: Record<string, bigint>) {
+  const permit2 = new Interface(permit2Abi);
+  mockProvider.call = vi.fn(async (tx: any) => {
+    const [, token] = permit2.decodeFunctionData('allowance', tx.data);
+    return permit2.encodeFunctionResult('allowance', [0n, 0n, nonces[token] ?? 0n]);
+  });
+}
+
+test('EthereumChainWallet signPermit signs an EIP-2612 permit for the token domain', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const { address } = await wallet.getAccount();
+  const domain = { name: 'USD Coin', version: '2', chainId: 1n, verifyingContract: usdc.tokenAddress };
+  const mockProvider = {};
+  mockPermitToken(mockProvider, domain, 3n);
+  vi.spyOn(getWalletInternals(wallet).connectionManager, 'getProvider').mockReturnValue(mockProvider);
+  const deadline = permitDeadline();
+
+  const permit = await wallet.signPermit(usdc, router, new BigNumber('250000000'), deadline);
+
+  expect(permit).toMatchObject({ owner: address, spender: router, value: new BigNumber('250000000'), nonce: 3n });
+  const message = { owner: address, spender: router, value: 250000000n, nonce: 3n, deadline };
+  expect(verifyTypedData(domain, PERMIT_TYPES, message, permit.signature)).toBe(address);
+  expect(Signature.from({ v: permit.v, r: permit.r, s: permit.s }).serialized).toBe(permit.signature);
+});
+
+test('EthereumChainWallet signPermit rejects tokens without permits and past deadlines', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  await wallet.getAccount();
+  // Addresses without code return no data
+  const mockProvider = { call: vi.fn().mockResolvedValue('0x') };
+  vi.spyOn(getWalletInternals(wallet).connectionManager, 'getProvider').mockReturnValue(mockProvider);
+
+  await expect(wallet.signPermit(usdc, router, new BigNumber(1), permitDeadline())).rejects.toMatchObject({
+    code: HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED
+  });
+  await expect(wallet.signPermit(usdc, router, new BigNumber(1), 1700000000)).rejects.toThrow(
+    'deadline must be a future Unix time in seconds'
+  );
+});
+
+test('EthereumChainWallet signPermit2 signs a PermitSingle with the Permit2 nonce', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const { address } = await wallet.getAccount();
+  const mockProvider = {};
+  mockPermit2Nonces(mockProvider, { [usdc.tokenAddress]: 4n });
+  vi.spyOn(getWalletInternals(wallet).connectionManager, 'getProvider').mockReturnValue(mockProvider);
+  const expiration = permitDeadline() + 86400;
+  const sigDeadline = permitDeadline();
+
+  const signed = await wallet.signPermit2(
+    { token: usdc, amount: new BigNumber('250000000'), expiration },
+    router,
+    sigDeadline
+  );
+
+  expect(signed.permit).toEqual({
+    details: { token: usdc.tokenAddress, amount: 250000000n, expiration, nonce: 4 },
+    spender: router,
+    sigDeadline
+  });
+  const domain = { name: 'Permit2', chainId: 1n, verifyingContract: PERMIT_CONFIG.PERMIT2_ADDRESS };
+  expect(verifyTypedData(domain, PERMIT_SINGLE_TYPES, signed.permit, signed.signature)).toBe(address);
+  expect(signed.owner).toBe(address);
+});
+
+test('EthereumChainWallet signPermit2Batch signs the allowances of several tokens', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const { address } = await wallet.getAccount();
+  const dai = { assetType: ChainAssetType.ERC20, tokenAddress: '0x6B175474E89094C44Da98b954EedeAC495271d0F' };
+  const mockProvider = {};
+  mockPermit2Nonces(mockProvider, { [usdc.tokenAddress]: 1n, [dai.tokenAddress]: 2n });
+  vi.spyOn(getWalletInternals(wallet).connectionManager, 'getProvider').mockReturnValue(mockProvider);
+  const expiration = permitDeadline();
+
+  const signed = await wallet.signPermit2Batch(
+    [
+      { token: usdc, amount: new BigNumber(100), expiration },
+      { token: dai, amount: new BigNumber(200), expiration }
+    ],
+    router,
+    permitDeadline()
+  );
+
+  expect(signed.permit.details.map((details) => details.nonce)).toEqual([1, 2]);
+  const domain = { name: 'Permit2', chainId: 1n, verifyingContract: PERMIT_CONFIG.PERMIT2_ADDRESS };
+  expect(verifyTypedData(domain, PERMIT_BATCH_TYPES, signed.permit, signed.signature)).toBe(address);
+});
+
+test('EthereumChainWallet signPermit2 rejects amounts outside uint160', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  await wallet.getAccount();
+  const amount = new BigNumber((PERMIT_CONFIG.PERMIT2_MAX_AMOUNT + 1n).toString());
+
+  await expect(
+    wallet.signPermit2({ token: usdc, amount, expiration: permitDeadline() }, router, permitDeadline())
+  ).rejects.toThrow('Permit2 allowance must be a uint160');
+});
+
+test('EthereumChainWallet callContract broadcasts the encoded call with its value', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  await wallet.getAccount();
+  const { mockProvider } = mockTransferNetwork(wallet, { pending: 1 });
+  const weth = new Interface(['function deposit() payable']);
+
+  const txHash = await wallet.callContract({
+    to: router,
+    abi: ['function deposit() payable'],
+    method: 'deposit',
+    value: new BigNumber('1000000000000000000')
+  });
+
+  const tx = Transaction.from(mockProvider.broadcastTransaction.mock.calls[0][0]);
+  expect(txHash).toBe(tx.hash);
+  expect(tx).toMatchObject({ to: router, value: 1000000000000000000n, nonce: 1 });
+  expect(tx.data).toBe(weth.encodeFunctionData('deposit'));
+});
+
+test('EthereumChainWallet readContract calls from the wallet address and rejects invalid contracts', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const { address } = await wallet.getAccount();
+  const erc20 = new Interface(erc20Abi);
+  const mockProvider = { call: vi.fn().mockResolvedValue(erc20.encodeFunctionResult('balanceOf', [7n])) };
+  vi.spyOn(getWalletInternals(wallet).connectionManager, 'getProvider').mockReturnValue(mockProvider);
+
+  const balance = await wallet.readContract<bigint>({
+    to: usdc.tokenAddress,
+    abi: erc20Abi,
+    method: 'balanceOf',
+    args: [address]
+  });
+
+  expect(balance).toBe(7n);
+  expect(mockProvider.call).toHaveBeenCalledWith(expect.objectContaining({ from: address }));
+  await expect(wallet.readContract({ to: 'not an address', abi: erc20Abi, method: 'decimals' })).rejects.toThrow(
+    ArgumentError
+  );
+});
+
+test('EthereumChainWallet buildTransfer resolves ENS recipients and records the address', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  await wallet.getAccount();
+  const { mockProvider } = mockTransferNetwork(wallet, { pending: 0 });
+  const resolveName = vi.fn().mockResolvedValue(bridge);
+  Object.assign(mockProvider, { resolveName });
+
+  const unsigned = await wallet.buildTransfer({ ...nativeTransfer, recipientAddress: createEnsRecipient('alice.eth') });
+
+  expect(resolveName).toHaveBeenCalledWith('alice.eth');
+  expect(unsigned.recipientAddress).toBe(bridge);
+  expect(Transaction.from(unsigned.data.serializedTransaction).to).toBe(bridge);
+});
+
+test('createEnsRecipient accepts ENS names and rejects addresses', () => {
+  expect(createEnsRecipient('vitalik.eth')).toBe('vitalik.eth');
+  expect(() => createEnsRecipient(bridge)).toThrow(ArgumentError);
+});
+
+test('EthereumChainWallet transfer rejects ENS names that do not resolve', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  await wallet.getAccount();
+  const { mockProvider } = mockTransferNetwork(wallet, { pending: 0 });
+  Object.assign(mockProvider, { resolveName: vi.fn().mockResolvedValue(null) });
+
+  await expect(
+    wallet.transfer({ ...nativeTransfer, recipientAddress: createEnsRecipient('nobody.eth') })
+  ).rejects.toThrow('Invalid recipient address');
+  expect(mockProvider.broadcastTransaction).not.toHaveBeenCalled();
+});
+
+test('EthereumChainWallet lookupName returns the primary name, or null without ENS', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const lookupAddress = vi.fn().mockResolvedValue('alice.eth');
+  vi.spyOn(getWalletInternals(wallet).connectionManager, 'getProvider').mockReturnValue({ lookupAddress });
+
+  await expect(wallet.lookupName(bridge)).resolves.toBe('alice.eth');
+  expect(lookupAddress).toHaveBeenCalledWith(bridge);
+
+  lookupAddress.mockRejectedValue(makeError('network does not support ENS', 'UNSUPPORTED_OPERATION'));
+  await expect(wallet.lookupName(bridge)).resolves.toBeNull();
+});
+
+test('EthereumChainWallet balancesOf reads native and ERC20 balances in one Multicall3 request', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const { address } = await wallet.getAccount();
+  const multicall = new Interface(multicall3Abi);
+  const token = new Interface(erc20Abi);
+  const call = vi.fn(async (tx: any) => {
+    const [calls] = multicall.decodeFunctionData('aggregate3', tx.data);
+    const results = calls.map(({ target, callData }: any) => {
+      if (target === MULTICALL_CONFIG.ADDRESS) {
+        return [true, multicall.encodeFunctionResult('getEthBalance', [500000000000000000n])];
+      }
+      if (target === usdc.tokenAddress) {
+        const { name } = token.parseTransaction({ data: callData })!;
+        return [true, token.encodeFunctionResult(name, [name === 'balanceOf' ? 250000000n : 6n])];
+      }
+      // The router is not a token contract
+      return [false, '0x'];
+    });
+    return multicall.encodeFunctionResult('aggregate3', [results]);
+  });
+  const mockProvider = { getCode: vi.fn().mockResolvedValue('0x6080'), call };
+  vi.spyOn(getWalletInternals(wallet).connectionManager, 'getProvider').mockReturnValue(mockProvider);
+  const notToken = { assetType: ChainAssetType.ERC20, tokenAddress: router };
+
+  const balances = await wallet.balancesOf(address, [{ assetType: ChainAssetType.Native }, usdc, notToken]);
+
+  expect(call).toHaveBeenCalledTimes(1);
+  expect(balances).toEqual([
+    { token: { assetType: ChainAssetType.Native }, balance: new BigNumber('500000000000000000'), decimals: 18 },
+    { token: usdc, balance: new BigNumber('250000000'), decimals: 6 },
+    { token: notToken, error: expect.stringContaining('is it an ERC20 token?') }
+  ]);
+});
+
+test('EthereumChainWallet balancesOf reports a failed native balance call of a Multicall3 batch', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const { address } = await wallet.getAccount();
+  const multicall = new Interface(multicall3Abi);
+  const call = vi.fn(async () => multicall.encodeFunctionResult('aggregate3', [[[false, '0x']]]));
+  const mockProvider = { getCode: vi.fn().mockResolvedValue('0x6080'), call };
+  vi.spyOn(getWalletInternals(wallet).connectionManager, 'getProvider').mockReturnValue(mockProvider);
+
+  const balances = await wallet.balancesOf(address, [{ assetType: ChainAssetType.Native }]);
+
+  expect(balances).toEqual([
+    { token: { assetType: ChainAssetType.Native }, error: expect.stringContaining('getEthBalance failed') }
+  ]);
+});
+
+test('EthereumChainWallet balancesOf falls back to separate requests without Multicall3', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const { address } = await wallet.getAccount();
+  const dai = { assetType: ChainAssetType.ERC20, tokenAddress: '0x6B175474E89094C44Da98b954EedeAC495271d0F' };
+  const token = new Interface(erc20Abi);
+  const mockProvider = {
+    getCode: vi.fn().mockResolvedValue('0x'),
+    getBalance: vi.fn().mockResolvedValue(42n),
+    call: vi.fn(async (tx: any) => {
+      if (tx.to !== dai.tokenAddress) {
+        // Addresses without code return no data
+        return '0x';
+      }
+      const { name } = token.parseTransaction({ data: tx.data })!;
+      return token.encodeFunctionResult(name, [name === 'balanceOf' ? 7n * 10n ** 18n : 18n]);
+    })
+  };
+  vi.spyOn(getWalletInternals(wallet).connectionManager, 'getProvider').mockReturnValue(mockProvider);
+  const notToken = { assetType: ChainAssetType.ERC20, tokenAddress: router };
+
+  const balances = await wallet.balancesOf(address, [{ assetType: ChainAssetType.Native }, dai, notToken]);
+
+  expect(mockProvider.getBalance).toHaveBeenCalledWith(address);
+  expect(balances.slice(0, 2)).toEqual([
+    { token: { assetType: ChainAssetType.Native }, balance: new BigNumber('42'), decimals: 18 },
+    { token: dai, balance: new BigNumber('7000000000000000000'), decimals: 18 }
+  ]);
+  expect(balances[2]).toMatchObject({ token: notToken, error: expect.any(String) });
+  expect(balances[2].balance).toBeUndefined();
+});
+
+test('EthereumChainWallet balancesOf rejects NFTs', async () => {
+  const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+  const { address } = await wallet.getAccount();
+  const nft = { assetType: ChainAssetType.ERC721, tokenAddress: router, tokenId: '1' };
+
+  await expect(wallet.balancesOf(address, [nft])).rejects.toThrow('only available for native and ERC20 tokens');
+});
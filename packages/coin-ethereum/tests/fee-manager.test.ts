@@ -0,0 +1,148 @@
+import { describe, expect, test, vi } from 'vitest';
+import { Interface, Transaction } from 'ethers';
+import { ArgumentError, NoOpLogger } from '@delandlabs/coin-base';
+import { FeeManager } from '../src/chain-wallet/shared/fee-manager';
+import { DEFAULT_NETWORK_PROFILE, getNetworkProfile } from '../src/chain-wallet/config';
+import { gasPriceOracleAbi } from '../src/chain-wallet/utils';
+import { EthereumNetworkProfile } from '../src/chain-wallet/types';
+
+const gwei = (value: number) => BigInt(value * 1e9);
+const hex = (value: bigint) => `0x${value.toString(16)}`;
+
+// Fee tiers are cached per chain id, so every test uses its own network
+let nextChainId = 1000;
+
+function createFeeManager(
+  provider: { send?: any; getFeeData?: any; call?: any },
+  networkProfile: EthereumNetworkProfile = DEFAULT_NETWORK_PROFILE
+) {
+  const mockProvider = {
+    send: vi.fn().mockRejectedValue(new Error('the method eth_feeHistory does not exist')),
+    getFeeData: vi.fn().mockResolvedValue({ gasPrice: gwei(20) }),
+    ...provider,
+    _network: { chainId: BigInt(nextChainId++) }
+  };
+  const connectionManager = { getProvider: vi.fn().mockReturnValue(mockProvider) } as any;
+  return {
+    feeManager: new FeeManager(connectionManager, new NoOpLogger(), networkProfile),
+    provider: mockProvider
+  };
+}
+
+const feeHistory = {
+  baseFeePerGas: [hex(gwei(10)), hex(gwei(10))],
+  reward: [[hex(gwei(1)), hex(gwei(2)), hex(gwei(3))]]
+};
+
+describe('FeeManager', () => {
+  test('should derive the tiers from the priority fees of recent blocks', async () => {
+    const { feeManager, provider } = createFeeManager({
+      send: vi.fn().mockResolvedValue({
+        baseFeePerGas: [hex(gwei(9)), hex(gwei(10)), hex(gwei(10))],
+        reward: [
+          [hex(gwei(1)), hex(gwei(2)), hex(gwei(5))],
+          // Empty block
+          ['0x0', '0x0', '0x0'],
+          [hex(gwei(1)), hex(gwei(3)), hex(gwei(4))]
+        ]
+      })
+    });
+
+    const feeTiers = await feeManager.getFeeTiers();
+
+    expect(provider.send).toHaveBeenCalledWith('eth_feeHistory', ['0xa', 'latest', [10, 50, 90]]);
+    expect(feeTiers).toEqual({
+      eip1559: true,
+      baseFeePerGas: gwei(10),
+      tiers: {
+        slow: { maxFeePerGas: gwei(21), maxPriorityFeePerGas: gwei(1) },
+        normal: { maxFeePerGas: gwei(23), maxPriorityFeePerGas: gwei(3) },
+        fast: { maxFeePerGas: gwei(25), maxPriorityFeePerGas: gwei(5) }
+      }
+    });
+  });
+
+  test('should fall back to the provider fee data without fee history', async () => {
+    const { feeManager } = createFeeManager({
+      getFeeData: vi.fn().mockResolvedValue({ maxFeePerGas: gwei(30), maxPriorityFeePerGas: gwei(2) })
+    });
+
+    const feeTiers = await feeManager.getFeeTiers();
+
+    expect(feeTiers.eip1559).toBe(true);
+    expect(feeTiers.tiers.fast).toEqual({ maxFeePerGas: gwei(30), maxPriorityFeePerGas: gwei(2) });
+  });
+
+  test('should pay the legacy gas price on networks without a base fee', async () => {
+    const { feeManager } = createFeeManager({
+      send: vi.fn().mockResolvedValue({ baseFeePerGas: ['0x0', '0x0'], reward: [] })
+    });
+
+    await expect(feeManager.getTransactionFees('fast')).resolves.toEqual({ type: 0, gasPrice: gwei(20) });
+  });
+
+  test('should reject an unknown fee tier', async () => {
+    const { feeManager } = createFeeManager({});
+
+    await expect(feeManager.getTransactionFees('urgent' as any)).rejects.toThrow(ArgumentError);
+  });
+
+  test('should estimate the expected fee at the base fee and the highest fee at the maximum fee', async () => {
+    const { feeManager } = createFeeManager({ send: vi.fn().mockResolvedValue(feeHistory) });
+
+    const estimate = await feeManager.estimateFees(21000n);
+
+    expect(estimate.gasLimit).toBe(21000n);
+    // 21000 * (10 gwei base fee + 2 gwei priority fee)
+    expect(estimate.tiers.normal.fee.toString()).toBe('252000000000000');
+    // 21000 * (2 * 10 gwei base fee + 2 gwei priority fee)
+    expect(estimate.tiers.normal.maxFee.toString()).toBe('462000000000000');
+  });
+
+  describe('network profiles', () => {
+    test('should add the L1 data fee quoted by the GasPriceOracle on OP-stack networks', async () => {
+      const oracle = new Interface(gasPriceOracleAbi);
+      const call = vi.fn().mockResolvedValue(oracle.encodeFunctionResult('getL1Fee', [50000000000000n]));
+      const { feeManager } = createFeeManager(
+        { send: vi.fn().mockResolvedValue(feeHistory), call },
+        getNetworkProfile(8453n)
+      );
+      const request = { to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', value: 1000n };
+
+      const estimate = await feeManager.estimateFees(21000n, request);
+
+      expect(call).toHaveBeenCalledWith(expect.objectContaining({ to: '0x420000000000000000000000000000000000000F' }));
+      const [quoted] = oracle.decodeFunctionData('getL1Fee', call.mock.calls[0][0].data);
+      expect(Transaction.from(quoted)).toMatchObject({ to: request.to, value: request.value, gasLimit: 21000n });
+      expect(estimate.l1DataFee?.toString()).toBe('50000000000000');
+      // 21000 * (10 gwei base fee + 2 gwei priority fee) + L1 data fee
+      expect(estimate.tiers.normal.fee.toString()).toBe('302000000000000');
+    });
+
+    test('should not pay priority fees on Arbitrum', async () => {
+      const send = vi.fn().mockResolvedValue(feeHistory);
+      const { feeManager } = createFeeManager({ send }, getNetworkProfile(42161n));
+
+      const feeTiers = await feeManager.getFeeTiers();
+
+      expect(feeTiers.tiers.fast).toEqual({ maxFeePerGas: gwei(20), maxPriorityFeePerGas: 0n });
+    });
+
+    test('should pay at least the minimum priority fee of Polygon', async () => {
+      const send = vi.fn().mockResolvedValue(feeHistory);
+      const { feeManager } = createFeeManager({ send }, getNetworkProfile(137n));
+
+      const feeTiers = await feeManager.getFeeTiers();
+
+      expect(feeTiers.tiers.normal).toEqual({ maxFeePerGas: gwei(50), maxPriorityFeePerGas: gwei(30) });
+    });
+
+    test('should use the legacy gas price on networks without EIP-1559', async () => {
+      const send = vi.fn().mockResolvedValue(feeHistory);
+      const { feeManager } = createFeeManager({ send }, getNetworkProfile(56n));
+
+      await expect(feeManager.getTransactionFees('normal')).resolves.toEqual({ type: 0, gasPrice: gwei(20) });
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+});
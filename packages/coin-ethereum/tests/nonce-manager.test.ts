@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { ArgumentError, NoOpLogger } from '@delandlabs/coin-base';
+import { NonceManager } from '../src/chain-wallet/shared/nonce-manager';
+import { NONCE_CONFIG } from '../src/chain-wallet/config';
+
+function createNonceManager(nonces: { latest?: number; pending: number }) {
+  const wallet = {
+    getNonce: vi.fn(async (blockTag: string) => (blockTag === 'latest' ? (nonces.latest ?? 0) : nonces.pending))
+  };
+  const connectionManager = {
+    getProvider: vi.fn().mockReturnValue({}),
+    getConnectedWallet: vi.fn().mockReturnValue(wallet)
+  } as any;
+  return { nonceManager: new NonceManager(connectionManager, new NoOpLogger()), wallet };
+}
+
+describe('NonceManager', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('should reserve consecutive nonces before the node sees the transactions', async () => {
+    const { nonceManager, wallet } = createNonceManager({ pending: 7 });
+
+    const nonces = await Promise.all([nonceManager.reserve(), nonceManager.reserve(), nonceManager.reserve()]);
+
+    expect(nonces).toEqual([7, 8, 9]);
+    expect(wallet.getNonce).toHaveBeenCalledWith('pending');
+  });
+
+  test('should catch up with transactions sent from elsewhere', async () => {
+    const nonces = { pending: 3 };
+    const { nonceManager } = createNonceManager(nonces);
+
+    await nonceManager.reserve();
+    nonces.pending = 10;
+
+    await expect(nonceManager.reserve()).resolves.toBe(10);
+  });
+
+  test('should hand out released nonces again before new ones', async () => {
+    const { nonceManager } = createNonceManager({ pending: 0 });
+    await nonceManager.reserve();
+    const released = await nonceManager.reserve();
+    await nonceManager.reserve();
+
+    nonceManager.release(released);
+
+    await expect(nonceManager.reserve()).resolves.toBe(released);
+    await expect(nonceManager.reserve()).resolves.toBe(3);
+  });
+
+  test('should ignore released nonces the node has already seen', async () => {
+    const nonces = { pending: 0 };
+    const { nonceManager } = createNonceManager(nonces);
+    const released = await nonceManager.reserve();
+    await nonceManager.reserve();
+    nonceManager.release(released);
+
+    nonces.pending = 2;
+
+    await expect(nonceManager.reserve()).resolves.toBe(2);
+  });
+
+  test('should hand out nonces of expired reservations again', async () => {
+    vi.useFakeTimers();
+    const { nonceManager } = createNonceManager({ pending: 4 });
+    await nonceManager.reserve();
+
+    vi.advanceTimersByTime(NONCE_CONFIG.RESERVATION_TTL);
+
+    await expect(nonceManager.reserve()).resolves.toBe(4);
+  });
+
+  test('should keep the queue going after a failed reservation', async () => {
+    const { nonceManager, wallet } = createNonceManager({ pending: 1 });
+    wallet.getNonce.mockRejectedValueOnce(new Error('network timeout'));
+
+    await expect(nonceManager.reserve()).rejects.toThrow('network timeout');
+    await expect(nonceManager.reserve()).resolves.toBe(1);
+  });
+
+  test('should advance past nonces of broadcast transactions', async () => {
+    const { nonceManager } = createNonceManager({ pending: 0 });
+
+    nonceManager.markBroadcast(5, '0xabc');
+
+    expect(nonceManager.getBroadcastHash(5)).toBe('0xabc');
+    await expect(nonceManager.reserve()).resolves.toBe(6);
+  });
+
+  describe('assertReplaceable', () => {
+    test('should accept the nonce of a pending transaction', async () => {
+      const { nonceManager } = createNonceManager({ latest: 3, pending: 5 });
+
+      await expect(nonceManager.assertReplaceable(4)).resolves.toBeUndefined();
+    });
+
+    test('should reject a mined nonce', async () => {
+      const { nonceManager } = createNonceManager({ latest: 3, pending: 5 });
+
+      await expect(nonceManager.assertReplaceable(2)).rejects.toThrow(ArgumentError);
+      await expect(nonceManager.assertReplaceable(2)).rejects.toThrow('Transaction with nonce 2 is already mined');
+    });
+
+    test('should reject a nonce without a pending transaction', async () => {
+      const { nonceManager } = createNonceManager({ latest: 3, pending: 5 });
+
+      await expect(nonceManager.assertReplaceable(5)).rejects.toThrow('No pending transaction with nonce 5');
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import 'reflect-metadata';
+import { describe, expect, test } from 'vitest';
+import { Wallet } from 'ethers';
+import { ArgumentError } from '@delandlabs/coin-base';
+import { EthereumChainWallet } from '../src/chain-wallet/wallet';
+import {
+  createSiweMessage,
+  generateSiweNonce,
+  parseSiweMessage,
+  signSiweMessage,
+  verifySiweMessage
+} from '../src/chain-wallet/siwe';
+import { EthereumSiweMessage } from '../src/chain-wallet/types';
+import { Ethereum } from './test-chains';
+
+const testMnemonic = 'test test test test test test test test test test test junk';
+const account = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const fields: EthereumSiweMessage = {
+  scheme: 'https',
+  domain: 'example.com',
+  address: account,
+  statement: 'Sign in to Example',
+  uri: 'https://example.com/login',
+  version: '1',
+  chainId: 1,
+  nonce: '32891756abcDEF',
+  issuedAt: '2026-01-01T00:00:00.000Z',
+  expirationTime: '2026-01-01T00:10:00.000Z',
+  resources: ['ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq', 'https://example.com/terms']
+};
+
+describe('Sign-In with Ethereum', () => {
+  test('should build messages in the EIP-4361 format', () => {
+    expect(createSiweMessage(fields)).toBe(
+      [
+        'https://example.com wants you to sign in with your Ethereum account:',
+        account,
+        '',
+        'Sign in to Example',
+        '',
+        'URI: https://example.com/login',
+        'Version: 1',
+        'Chain ID: 1',
+        'Nonce: 32891756abcDEF',
+        'Issued At: 2026-01-01T00:00:00.000Z',
+        'Expiration Time: 2026-01-01T00:10:00.000Z',
+        'Resources:',
+        '- ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq',
+        '- https://example.com/terms'
+      ].join('\n')
+    );
+  });
+
+  test('should parse the messages it builds, with or without a statement', () => {
+    expect(parseSiweMessage(createSiweMessage(fields))).toEqual(fields);
+
+    const minimal = {
+      ...fields,
+      scheme: undefined,
+      statement: undefined,
+      expirationTime: undefined,
+      resources: undefined
+    };
+    const message = createSiweMessage(minimal);
+    expect(message).toContain(`${account}\n\n\nURI: `);
+    expect(parseSiweMessage(message)).toEqual(minimal);
+  });
+
+  test('should reject malformed fields and messages', () => {
+    expect(() => createSiweMessage({ ...fields, address: account.toLowerCase() })).toThrow('EIP-55 checksummed');
+    expect(() => createSiweMessage({ ...fields, nonce: 'short' })).toThrow('at least 8 alphanumeric');
+    expect(() => createSiweMessage({ ...fields, statement: 'Line one\nLine two' })).toThrow('single non-empty line');
+    expect(() => createSiweMessage({ ...fields, domain: 'example.com/login' })).toThrow('RFC 3986 authority');
+    expect(() => createSiweMessage({ ...fields, issuedAt: 'yesterday' })).toThrow('ISO 8601');
+
+    const message = createSiweMessage(fields);
+    expect(() => parseSiweMessage(message.replace('Version: 1\n', ''))).toThrow(ArgumentError);
+    expect(() => parseSiweMessage(message + '\nInjected: field')).toThrow('unexpected content');
+  });
+
+  test('should sign in with the wallet and verify the signature', async () => {
+    const wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+    const nonce = generateSiweNonce();
+
+    const { message, signature } = await signSiweMessage(wallet, {
+      domain: 'example.com',
+      uri: 'https://example.com/login',
+      nonce
+    });
+
+    expect(nonce).toMatch(/^[a-zA-Z0-9]{17}$/);
+    const verified = verifySiweMessage(message, signature, { nonce, domain: 'example.com' });
+    expect(verified).toMatchObject({ address: account, chainId: 1, nonce, statement: undefined });
+  });
+
+  test('should reject other signers, nonces, domains, chains and expired messages', async () => {
+    const message = createSiweMessage(fields);
+    const signature = await Wallet.fromPhrase(testMnemonic).signMessage(message);
+    const options = { nonce: fields.nonce, domain: fields.domain, time: new Date('2026-01-01T00:05:00.000Z') };
+
+    expect(verifySiweMessage(message, signature, options).address).toBe(account);
+    const otherSignature = await Wallet.createRandom().signMessage(message);
+    expect(() => verifySiweMessage(message, otherSignature, options)).toThrow('is signed by');
+    expect(() => verifySiweMessage(message, signature, { ...options, nonce: 'abcdefgh1234' })).toThrow(
+      'is not the nonce issued'
+    );
+    expect(() => verifySiweMessage(message, signature, { ...options, domain: 'evil.example' })).toThrow(
+      'not for evil.example'
+    );
+    expect(() => verifySiweMessage(message, signature, { ...options, chainId: 10 })).toThrow('not for chain 10');
+    expect(() =>
+      verifySiweMessage(message, signature, { ...options, time: new Date('2026-01-01T00:10:00.000Z') })
+    ).toThrow('expired at');
+  });
+});
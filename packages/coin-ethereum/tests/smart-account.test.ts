@@ -0,0 +1,348 @@
+import 'reflect-metadata';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { Interface, getBytes, verifyMessage } from 'ethers';
+import { ChainAssetType } from '@delandlabs/hibit-basic-types';
+import BigNumber from 'bignumber.js';
+import { EthereumChainWallet } from '../src/chain-wallet/wallet';
+import { getUserOperationHash } from '../src/chain-wallet/shared';
+import { SMART_ACCOUNT_CONFIG } from '../src/chain-wallet/config';
+import { entryPointAbi, erc20Abi, simpleAccountAbi, simpleAccountFactoryAbi } from '../src/chain-wallet/utils';
+import { EthereumPaymaster, EthereumUserOperation } from '../src/chain-wallet/types';
+import { Ethereum } from './test-chains';
+import { getWalletInternals } from './test-utils';
+import './setup';
+
+const testMnemonic = 'test test test test test test test test test test test junk';
+const owner = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const accountAddress = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const recipient = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const userOpHash = `0x${'ab'.repeat(32)}`;
+const bundleTxHash = `0x${'cd'.repeat(32)}`;
+
+const entryPointInterface = new Interface(entryPointAbi);
+const factoryInterface = new Interface(simpleAccountFactoryAbi);
+const accountInterface = new Interface(simpleAccountAbi);
+const erc20Interface = new Interface(erc20Abi);
+
+const nativeTransfer = {
+  recipientAddress: recipient,
+  amount: new BigNumber('1000'),
+  token: { assetType: ChainAssetType.Native }
+};
+
+const USER_OPERATION_INTEGERS = [
+  'nonce',
+  'callGasLimit',
+  'verificationGasLimit',
+  'preVerificationGas',
+  'maxFeePerGas',
+  'maxPriorityFeePerGas',
+  'paymasterVerificationGasLimit',
+  'paymasterPostOpGasLimit'
+];
+
+/**
+ * Decode a user operation as sent to the bundler
+ */
+function parseUserOperation(serialized: Record<string, string>): EthereumUserOperation {
+  const userOperation: Record<string, unknown> = { ...serialized };
+  for (const field of USER_OPERATION_INTEGERS) {
+    if (serialized[field] !== undefined) {
+      userOperation[field] = BigInt(serialized[field]);
+    }
+  }
+  return userOperation as unknown as EthereumUserOperation;
+}
+
+/**
+ * Local stand-in for an ERC-4337 bundler: records the requests and answers like a bundler would
+ */
+async function startBundler() {
+  const bundler = {
+    requests: [] as Array<{ method: string; params: any[] }>,
+    sent: new Map<string, Record<string, string>>(),
+    receipt: null as Record<string, unknown> | null,
+    sendError: undefined as string | undefined,
+    estimateError: undefined as { code: number; message: string } | undefined,
+    url: '',
+    server: undefined as unknown as Server
+  };
+
+  bundler.server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      bundler.requests.push({ method, params });
+      res.setHeader('Content-Type', 'application/json');
+      const reply = (result: unknown) => res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+
+      switch (method) {
+        case 'eth_estimateUserOperationGas':
+          if (bundler.estimateError) {
+            return res.end(JSON.stringify({ jsonrpc: '2.0', id, error: bundler.estimateError }));
+          }
+          return reply({ callGasLimit: '0x9c40', verificationGasLimit: '0x186a0', preVerificationGas: '0xc350' });
+        case 'eth_sendUserOperation':
+          if (bundler.sendError) {
+            return res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32500, message: bundler.sendError } }));
+          }
+          bundler.sent.set(userOpHash, params[0]);
+          return reply(userOpHash);
+        case 'eth_getUserOperationByHash':
+          return reply(bundler.sent.has(params[0]) ? { userOperation: bundler.sent.get(params[0]) } : null);
+        case 'eth_getUserOperationReceipt':
+          return reply(bundler.receipt);
+        default:
+          return res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32601, message: 'Method not found' } }));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => bundler.server.listen(0, '127.0.0.1', resolve));
+  bundler.url = `http://127.0.0.1:${(bundler.server.address() as AddressInfo).port}`;
+  return bundler;
+}
+
+/**
+ * Mock the RPC endpoint: the factory, the EntryPoint and the account code
+ */
+function mockNetwork(wallet: EthereumChainWallet, options: { deployed: boolean }) {
+  const mockProvider = {
+    getFeeData: vi.fn().mockResolvedValue({ maxFeePerGas: 20000000000n, maxPriorityFeePerGas: 1000000000n }),
+    getCode: vi.fn().mockResolvedValue(options.deployed ? '0x6080' : '0x'),
+    call: vi.fn(async (tx: { to: string; data: string }) =>
+      tx.to.toLowerCase() === SMART_ACCOUNT_CONFIG.SIMPLE_ACCOUNT_FACTORY.toLowerCase()
+        ? factoryInterface.encodeFunctionResult('getAddress', [accountAddress])
+        : entryPointInterface.encodeFunctionResult('getNonce', [options.deployed ? 5n : 0n])
+    ),
+    waitForTransaction: vi.fn().mockResolvedValue({
+      status: 1,
+      blockHash: '0xabcd1234',
+      blockNumber: 1000,
+      gasUsed: 300000n,
+      gasPrice: 10000000000n
+    }),
+    getBlockNumber: vi.fn().mockResolvedValue(1001)
+  };
+  vi.spyOn(getWalletInternals(wallet).connectionManager, 'getProvider').mockReturnValue(mockProvider);
+  return mockProvider;
+}
+
+describe('EthereumChainWallet smart-account mode', () => {
+  let bundler: Awaited<ReturnType<typeof startBundler>>;
+  let wallet: EthereumChainWallet;
+
+  beforeEach(async () => {
+    bundler = await startBundler();
+  });
+
+  afterEach(async () => {
+    wallet?.destroy();
+    await new Promise((resolve) => bundler.server.close(resolve));
+  });
+
+  async function createWallet(paymaster?: EthereumPaymaster) {
+    wallet = new EthereumChainWallet(Ethereum, testMnemonic, {
+      smartAccount: { bundlerUrl: bundler.url, paymaster }
+    });
+    // Wait for wallet initialization
+    await wallet.getAccount();
+  }
+
+  function sentUserOperation(): EthereumUserOperation {
+    const request = bundler.requests.find((r) => r.method === 'eth_sendUserOperation')!;
+    expect(request.params[1]).toBe(SMART_ACCOUNT_CONFIG.ENTRY_POINT);
+    return parseUserOperation(request.params[0]);
+  }
+
+  test('should derive the smart account address from the wallet key', async () => {
+    await createWallet();
+    const mockProvider = mockNetwork(wallet, { deployed: false });
+
+    await expect(wallet.getSmartAccountAddress()).resolves.toBe(accountAddress);
+    expect((await wallet.getAccount()).address).toBe(owner);
+    const [factoryCall] = mockProvider.call.mock.calls[0];
+    expect(factoryInterface.decodeFunctionData('getAddress', factoryCall.data).toArray()).toEqual([owner, 0n]);
+  });
+
+  test('should reject smart-account calls on a plain wallet', async () => {
+    wallet = new EthereumChainWallet(Ethereum, testMnemonic);
+
+    await expect(wallet.getSmartAccountAddress()).rejects.toThrow('Smart-account mode is not enabled');
+  });
+
+  test('should send a transfer as a signed user operation that deploys the account', async () => {
+    await createWallet();
+    mockNetwork(wallet, { deployed: false });
+
+    await expect(wallet.transfer(nativeTransfer)).resolves.toBe(userOpHash);
+
+    const estimated = bundler.requests.find((r) => r.method === 'eth_estimateUserOperationGas')!;
+    expect(estimated.params[0].signature).toBe(SMART_ACCOUNT_CONFIG.DUMMY_SIGNATURE);
+
+    const userOperation = sentUserOperation();
+    expect(userOperation).toMatchObject({
+      sender: accountAddress,
+      nonce: 0n,
+      factory: SMART_ACCOUNT_CONFIG.SIMPLE_ACCOUNT_FACTORY,
+      callGasLimit: 40000n,
+      verificationGasLimit: 100000n,
+      preVerificationGas: 50000n,
+      maxFeePerGas: 20000000000n,
+      maxPriorityFeePerGas: 1000000000n
+    });
+    expect(factoryInterface.decodeFunctionData('createAccount', userOperation.factoryData!).toArray()).toEqual([
+      owner,
+      0n
+    ]);
+    expect(accountInterface.decodeFunctionData('execute', userOperation.callData).toArray()).toEqual([
+      recipient,
+      1000n,
+      '0x'
+    ]);
+
+    const hash = getUserOperationHash(userOperation, SMART_ACCOUNT_CONFIG.ENTRY_POINT, 1n);
+    expect(verifyMessage(getBytes(hash), userOperation.signature)).toBe(owner);
+  });
+
+  test('should execute a batch of transfers in one user operation', async () => {
+    await createWallet();
+    mockNetwork(wallet, { deployed: true });
+    const tokenTransfer = {
+      recipientAddress: recipient,
+      amount: new BigNumber('2500000'),
+      token: { assetType: ChainAssetType.ERC20, tokenAddress: usdc }
+    };
+
+    await expect(wallet.batchTransfer([nativeTransfer, tokenTransfer])).resolves.toEqual([userOpHash, userOpHash]);
+
+    const userOperation = sentUserOperation();
+    expect(userOperation.nonce).toBe(5n);
+    expect(userOperation.factory).toBeUndefined();
+    expect(accountInterface.decodeFunctionData('executeBatch', userOperation.callData).toArray()).toEqual([
+      [recipient, usdc],
+      [1000n, 0n],
+      ['0x', erc20Interface.encodeFunctionData('transfer', [recipient, 2500000n])]
+    ]);
+  });
+
+  test('should estimate gas with paymaster stub data and send the final paymaster data', async () => {
+    const paymaster = {
+      getPaymasterStubData: vi.fn().mockResolvedValue({
+        paymaster: usdc,
+        paymasterData: '0x01',
+        paymasterVerificationGasLimit: 60000n,
+        paymasterPostOpGasLimit: 1000n
+      }),
+      getPaymasterData: vi.fn().mockResolvedValue({ paymaster: usdc, paymasterData: '0x02' })
+    };
+    await createWallet(paymaster);
+    mockNetwork(wallet, { deployed: true });
+
+    await wallet.transfer(nativeTransfer);
+
+    const estimated = bundler.requests.find((r) => r.method === 'eth_estimateUserOperationGas')!;
+    expect(estimated.params[0]).toMatchObject({ paymaster: usdc, paymasterData: '0x01' });
+    const [estimatedOperation, entryPoint, chainId] = paymaster.getPaymasterData.mock.calls[0];
+    expect(estimatedOperation.callGasLimit).toBe(40000n);
+    expect([entryPoint, chainId]).toEqual([SMART_ACCOUNT_CONFIG.ENTRY_POINT, 1n]);
+    expect(sentUserOperation()).toMatchObject({
+      paymaster: usdc,
+      paymasterData: '0x02',
+      paymasterVerificationGasLimit: 60000n,
+      paymasterPostOpGasLimit: 1000n
+    });
+  });
+
+  test('should report the bundler error of a rejected user operation', async () => {
+    await createWallet();
+    mockNetwork(wallet, { deployed: false });
+    bundler.sendError = "AA21 didn't pay prefund";
+
+    await expect(wallet.transfer(nativeTransfer)).rejects.toThrow("AA21 didn't pay prefund");
+  });
+
+  test('should simulate a transfer as a user operation of the smart account', async () => {
+    await createWallet();
+    mockNetwork(wallet, { deployed: false });
+
+    const result = await wallet.simulateTransfer(nativeTransfer);
+
+    expect(result.success).toBe(true);
+    expect(result.fee.gt(0)).toBe(true);
+    expect(result.balanceChanges).toEqual([
+      { address: accountAddress, token: nativeTransfer.token, amount: result.fee.plus(1000).negated() },
+      { address: recipient, token: nativeTransfer.token, amount: new BigNumber('1000') }
+    ]);
+    expect(bundler.requests.map((r) => r.method)).toEqual(['eth_estimateUserOperationGas']);
+  });
+
+  test('should report a user operation that reverts in simulation as failed', async () => {
+    await createWallet();
+    mockNetwork(wallet, { deployed: true });
+    bundler.estimateError = { code: -32521, message: 'execution reverted: ERC20: transfer amount exceeds balance' };
+
+    const result = await wallet.simulateTransfer({
+      recipientAddress: recipient,
+      amount: new BigNumber('2500000'),
+      token: { assetType: ChainAssetType.ERC20, tokenAddress: usdc }
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      balanceChanges: [],
+      failureReason: 'execution reverted: ERC20: transfer amount exceeds balance'
+    });
+  });
+
+  test('should wait for the user operation and the confirmations of its bundle transaction', async () => {
+    await createWallet();
+    const mockProvider = mockNetwork(wallet, { deployed: false });
+    const hash = await wallet.transfer(nativeTransfer);
+    bundler.receipt = {
+      userOpHash,
+      success: true,
+      actualGasCost: '0x5af3107a4000',
+      actualGasUsed: '0x249f0',
+      receipt: { transactionHash: bundleTxHash }
+    };
+
+    const result = await wallet.waitForConfirmation({ txHash: hash, requiredConfirmations: 2 });
+
+    expect(mockProvider.waitForTransaction).toHaveBeenCalledWith(bundleTxHash, 2, expect.any(Number));
+    expect(result).toMatchObject({ isConfirmed: true, status: 'confirmed', confirmations: 2, gasUsed: 150000n });
+    // The fee of the operation, not of the whole bundle
+    expect(result.transactionFee?.toString()).toBe('100000000000000');
+  });
+
+  test('should report a reverted user operation as failed', async () => {
+    await createWallet();
+    mockNetwork(wallet, { deployed: false });
+    const hash = await wallet.transfer(nativeTransfer);
+    bundler.receipt = {
+      userOpHash,
+      success: false,
+      reason: '0x',
+      actualGasCost: '0x5af3107a4000',
+      actualGasUsed: '0x249f0',
+      receipt: { transactionHash: bundleTxHash }
+    };
+
+    const result = await wallet.waitForConfirmation({ txHash: hash });
+
+    expect(result).toMatchObject({ isConfirmed: false, status: 'failed' });
+  });
+
+  test('should wait for plain transactions of the wallet key', async () => {
+    await createWallet();
+    const mockProvider = mockNetwork(wallet, { deployed: false });
+
+    const result = await wallet.waitForConfirmation({ txHash: bundleTxHash });
+
+    expect(mockProvider.waitForTransaction).toHaveBeenCalledWith(bundleTxHash, 1, 300000);
+    expect(result.status).toBe('confirmed');
+  });
+});
@@ -3,6 +3,7 @@
  * This provides type-safe access to internal properties for testing purposes
  */
 
+import { EndpointPool } from '@delandlabs/coin-base';
 import { EthereumChainWallet } from '../src/chain-wallet/wallet';
 
 /**
@@ -19,6 +20,7 @@ export function getWalletInternals(wallet: EthereumChainWallet) {
       providerCache: { size: number };
       reconnectAttempts: Record<string, number>;
     },
+    endpointPool: w.endpointPool as EndpointPool,
     readyPromise: w.readyPromise as Promise<void>,
     transferImpl: w.transferImpl?.bind(w) as ((params: any) => Promise<string>) | undefined,
     estimateFeeImpl: w.estimateFeeImpl?.bind(w) as ((params: any) => Promise<any>) | undefined
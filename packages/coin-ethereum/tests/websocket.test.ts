@@ -96,6 +96,29 @@ test('should fallback to HTTP provider when WebSocket not configured', async ()
   expect(provider).toBeInstanceOf(JsonRpcProvider);
 });
 
+test('should switch the HTTP provider to a fallback endpoint on failover', async () => {
+  const wallet = createTestWallet({
+    ...HttpOnlyChain,
+    rpc: { primary: 'https://mainnet.infura.io', fallbacks: ['https://eth.llamarpc.com'] }
+  });
+  await wallet.getAccount();
+
+  const internals = getWalletInternals(wallet);
+  const connectionManager = internals.connectionManager;
+  const onFailover = vi.fn();
+  wallet.on('rpcFailover', onFailover);
+  expect(connectionManager.getProvider()._getConnection().url).toBe('https://mainnet.infura.io');
+
+  await expect(
+    internals.endpointPool.execute(() => Promise.reject(new Error('fetch failed')), { retry: false })
+  ).rejects.toThrow('fetch failed');
+
+  expect(onFailover).toHaveBeenCalledWith(
+    expect.objectContaining({ from: 'https://mainnet.infura.io', to: 'https://eth.llamarpc.com' })
+  );
+  expect(connectionManager.getProvider()._getConnection().url).toBe('https://eth.llamarpc.com');
+});
+
 test('should handle WebSocket connection lifecycle', async () => {
   const wallet = createTestWallet(WebSocketChain);
 
@@ -1,7 +1,18 @@
 import BigNumber from 'bignumber.js';
-import { ILogger, BalanceQueryParams, TransferParams } from '@delandlabs/coin-base';
+import {
+  ILogger,
+  BalanceQueryParams,
+  TransferParams,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  NetworkError,
+  GeneralWalletError,
+  HibitIdSdkErrorCode
+} from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
-import { RpcClient, Krc20RpcClient, Keypair, NetworkId } from '@kcoin/kaspa-web3.js';
+import { RpcClient, Krc20RpcClient, Keypair, Address, NetworkId, NetworkType } from '@kcoin/kaspa-web3.js';
+import { CHAIN_NAME, KASPA_INDEXER_CONFIG } from '../config';
+import { KaspaUnsignedTransactionData, KaspaSignedTransactionData } from '../types';
 
 /**
  * Abstract base class for Kaspa asset handlers.
@@ -16,12 +27,17 @@ import { RpcClient, Krc20RpcClient, Keypair, NetworkId } from '@kcoin/kaspa-web3
  * not at handler level, since Kaspa uses the same address format for all assets.
  */
 export abstract class BaseAssetHandler {
+  /**
+   * @param keyPair - Signing key pair, null for watch-only wallets
+   * @param watchAddress - Address of a watch-only wallet
+   */
   constructor(
     protected readonly rpcClient: RpcClient,
     protected readonly krc20RpcClient: Krc20RpcClient | null,
-    protected readonly keyPair: Keypair,
+    protected readonly keyPair: Keypair | null,
     protected readonly networkId: NetworkId,
-    protected readonly logger: ILogger
+    protected readonly logger: ILogger,
+    protected readonly watchAddress?: Address
   ) {}
 
   /**
@@ -32,11 +48,18 @@ export abstract class BaseAssetHandler {
   abstract balanceOf(params: BalanceQueryParams): Promise<BigNumber>;
 
   /**
-   * Execute transfer for the specified asset
+   * Build an unsigned transfer for the specified asset
    * @param params - Transfer parameters including recipient, amount, and token info
-   * @returns Promise resolving to the transaction ID
+   * @returns Promise resolving to the chain-specific unsigned transaction data
+   */
+  abstract buildTransfer(params: TransferParams): Promise<KaspaUnsignedTransactionData>;
+
+  /**
+   * Sign a transfer previously built by buildTransfer
+   * @param data - Chain-specific unsigned transaction data
+   * @returns Promise resolving to the signed transactions, ready for submission
    */
-  abstract transfer(params: TransferParams): Promise<string>;
+  abstract signTransfer(data: KaspaUnsignedTransactionData): Promise<KaspaSignedTransactionData>;
 
   /**
    * Estimate transaction fee for the specified asset
@@ -45,6 +68,13 @@ export abstract class BaseAssetHandler {
    */
   abstract estimateFee(params: TransferParams): Promise<BigNumber>;
 
+  /**
+   * List transfers of the asset to and from an address, newest first
+   * @param params - History query parameters with the page size already resolved
+   * @returns Promise resolving to one page of transaction records
+   */
+  abstract getTransactionHistory(params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage>;
+
   /**
    * Get the asset type this handler supports
    * @returns The ChainAssetType this handler is responsible for
@@ -56,7 +86,7 @@ export abstract class BaseAssetHandler {
    * @returns The wallet address string
    */
   getWalletAddress(): string {
-    return this.keyPair.toAddress(this.networkId.networkType).toString();
+    return this.getAddress().toString();
   }
 
   /**
@@ -66,4 +96,61 @@ export abstract class BaseAssetHandler {
   cleanup(): void {
     // Default implementation - handlers can override if needed
   }
+
+  /**
+   * Get the wallet address transfers are sent from
+   */
+  protected getAddress(): Address {
+    return this.keyPair ? this.keyPair.toAddress(this.networkId.networkType) : this.watchAddress!;
+  }
+
+  /**
+   * Get the signing key pair
+   * @throws {GeneralWalletError} When the wallet is watch-only
+   */
+  protected getKeyPair(): Keypair {
+    if (!this.keyPair) {
+      throw new GeneralWalletError(
+        HibitIdSdkErrorCode.WATCH_ONLY_WALLET,
+        `${CHAIN_NAME}: Watch-only wallets cannot sign`
+      );
+    }
+    return this.keyPair;
+  }
+
+  /**
+   * Pick the indexer endpoint matching the wallet's network
+   * @param urls - Mainnet and testnet endpoints
+   */
+  protected getIndexerUrl(urls: { MAINNET: string; TESTNET: string }): string {
+    return this.networkId.networkType === NetworkType.Mainnet ? urls.MAINNET : urls.TESTNET;
+  }
+
+  /**
+   * Fetch JSON from an indexer API
+   * @param url - Request URL
+   * @returns Parsed response body and headers
+   * @throws {NetworkError} When the request fails, times out or gets an error status
+   */
+  protected async fetchIndexer<T>(url: string): Promise<{ body: T; headers: Headers }> {
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: AbortSignal.timeout(KASPA_INDEXER_CONFIG.REQUEST_TIMEOUT_MS) });
+    } catch (error) {
+      throw new NetworkError(
+        HibitIdSdkErrorCode.NETWORK_REQUEST_FAILED,
+        `${CHAIN_NAME}: Indexer request failed: ${error instanceof Error ? error.message : String(error)}`,
+        url,
+        undefined,
+        error instanceof Error ? error : undefined
+      );
+    }
+    if (!response.ok) {
+      throw new NetworkError(
+        HibitIdSdkErrorCode.NETWORK_REQUEST_FAILED,
+        `${CHAIN_NAME}: Indexer request failed with status ${response.status}`
+      );
+    }
+    return { body: (await response.json()) as T, headers: response.headers };
+  }
 }
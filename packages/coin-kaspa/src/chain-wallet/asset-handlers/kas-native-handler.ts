@@ -1,11 +1,25 @@
 import BigNumber from 'bignumber.js';
-import { BalanceQueryParams, TransferParams } from '@delandlabs/coin-base';
+import {
+  BalanceQueryParams,
+  TransferParams,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  TransactionRecord,
+  TransactionError,
+  HibitIdSdkErrorCode
+} from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
 import { base } from '@delandlabs/crypto-lib';
-import { Address, SendKasParams, Fees } from '@kcoin/kaspa-web3.js';
+import { Address, SendKasParams, Fees, PaymentOutput, GeneratorSummary } from '@kcoin/kaspa-web3.js';
 import { BaseAssetHandler } from './base-asset-handler';
 import { TransactionHelper } from '../utils';
-import { KaspaRetry } from '../config';
+import { CHAIN_NAME, KaspaRetry, KASPA_INDEXER_CONFIG } from '../config';
+import {
+  KaspaUnsignedTransactionData,
+  KaspaSignedTransactionData,
+  KaspaIndexedTransaction,
+  KaspaSubmittableTransaction
+} from '../types';
 
 const DEFAULT_FEES = new Fees(0n);
 
@@ -14,7 +28,7 @@ const DEFAULT_FEES = new Fees(0n);
  *
  * Implements all operations specific to native KAS currency:
  * - Balance queries
- * - Transfers with optional payload
+ * - Transfer building and signing with optional payload
  * - Fee estimation
  */
 export class KasNativeHandler extends BaseAssetHandler {
@@ -36,39 +50,89 @@ export class KasNativeHandler extends BaseAssetHandler {
   }
 
   /**
-   * Transfer native KAS tokens
+   * Build an unsigned native KAS transfer
+   * The transactions are generated here, so their inputs, outputs and fee are what gets reviewed
    * Note: Address, amount and token validation is handled at wallet level
    * Note: Amount is expected in sompi (smallest unit)
    */
-  async transfer(params: TransferParams): Promise<string> {
+  async buildTransfer(params: TransferParams): Promise<KaspaUnsignedTransactionData> {
     const { recipientAddress, amount, payload } = params;
 
     // Common validation (address, amount) is handled at wallet level
     // Amount is already in sompi (smallest unit)
     const amountInSompi = BigInt(amount.integerValue(BigNumber.ROUND_FLOOR).toString());
 
-    const sendParam = new SendKasParams(
-      this.keyPair.toAddress(this.networkId.networkType),
-      amountInSompi,
-      Address.fromString(recipientAddress),
-      this.networkId,
-      DEFAULT_FEES,
-      payload ? base.toUtf8(payload) : undefined
+    const sendParam = this.createSendParams(recipientAddress, amountInSompi, DEFAULT_FEES, payload);
+    const {
+      priorityFee,
+      result: { transactions, summary }
+    } = await this.createTransactionsByOutputs(sendParam);
+
+    return {
+      recipientAddress,
+      amount: amountInSompi.toString(),
+      priorityFee: priorityFee.amount.toString(),
+      payload,
+      transactions: transactions.map((transaction) => transaction.toSubmittableJsonTx()),
+      txId: this.getFinalTransactionId(summary)
+    };
+  }
+
+  /**
+   * Sign the transactions of a built native KAS transfer
+   * They are regenerated from exactly the UTXOs they spend, which are read from the node, and
+   * signed only if the final transaction ID matches: the final transaction spends the outputs
+   * of every transaction before it, so its ID commits to the inputs and outputs of all of them.
+   * @throws {TransactionError} When the UTXOs of the transfer were spent since it was built
+   */
+  async signTransfer(data: KaspaUnsignedTransactionData): Promise<KaspaSignedTransactionData> {
+    const sendParam = this.createSendParams(
+      data.recipientAddress,
+      BigInt(data.amount),
+      new Fees(BigInt(data.priorityFee)),
+      data.payload
     );
 
     const {
       result: { transactions, summary }
-    } = await this.createTransactionsByOutputs(sendParam);
+    } = await this.createTransactionsByOutputs(sendParam, undefined, getSpentOutpoints(data.transactions));
 
-    await TransactionHelper.submitTransactions(transactions, this.keyPair, async (reqMessage) => {
-      return await this.rpcClient.submitTransaction({
-        transaction: reqMessage,
-        allowOrphan: false
-      });
+    if (summary.finalTransactionId?.toString() !== data.txId) {
+      throw new TransactionError(
+        HibitIdSdkErrorCode.TRANSACTION_SIGNING_FAILED,
+        `${CHAIN_NAME}: The UTXOs of the transfer changed since it was built, build it again`,
+        data.txId
+      );
+    }
+
+    return {
+      transactions: TransactionHelper.signTransactions(transactions, this.getKeyPair()),
+      txId: data.txId
+    };
+  }
+
+  /**
+   * Sign native KAS transfers to several recipients as one transfer with an output per recipient
+   * The priority fee is calculated from the generated transactions, as for an unreviewed transfer
+   * Note: Address, amount and token validation is handled at wallet level
+   */
+  async signBatchTransfer(transfers: TransferParams[]): Promise<KaspaSignedTransactionData> {
+    const outputs = transfers.map(({ recipientAddress, amount }) => {
+      const amountInSompi = BigInt(amount.integerValue(BigNumber.ROUND_FLOOR).toString());
+      return new PaymentOutput(Address.fromString(recipientAddress), amountInSompi);
     });
+    const totalInSompi = outputs.reduce((total, output) => total + output.amount, 0n);
+
+    // The send parameters fix sender and network; their single output is replaced by the batch outputs
+    const sendParam = this.createSendParams(transfers[0].recipientAddress, totalInSompi, DEFAULT_FEES);
+    const {
+      result: { transactions, summary }
+    } = await this.createTransactionsByOutputs(sendParam, outputs);
 
-    const txHash = summary.finalTransactionId?.toString() ?? '';
-    return txHash;
+    return {
+      transactions: TransactionHelper.signTransactions(transactions, this.getKeyPair()),
+      txId: this.getFinalTransactionId(summary)
+    };
   }
 
   /**
@@ -84,13 +148,7 @@ export class KasNativeHandler extends BaseAssetHandler {
     // Amount is already in sompi (smallest unit)
     const amountInSompi = BigInt(amount.integerValue(BigNumber.ROUND_FLOOR).toString());
 
-    const sendKasParam = new SendKasParams(
-      this.keyPair.toAddress(this.networkId.networkType),
-      amountInSompi,
-      Address.fromString(recipientAddress),
-      this.networkId,
-      DEFAULT_FEES
-    );
+    const sendKasParam = this.createSendParams(recipientAddress, amountInSompi, DEFAULT_FEES);
 
     const { priorityFee } = await this.createTransactionsByOutputs(sendKasParam);
 
@@ -100,6 +158,32 @@ export class KasNativeHandler extends BaseAssetHandler {
     return fee;
   }
 
+  /**
+   * List native KAS transfers of an address from the Kaspa REST API, newest first
+   * Spending any owned input makes a transaction outgoing; its amount is what left the address.
+   * The cursor is the block time to continue before, as reported by the API.
+   * Note: Address validation is handled at wallet level
+   */
+  @KaspaRetry({})
+  async getTransactionHistory(params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage> {
+    const { address, token, cursor, limit } = params;
+    const baseUrl = this.getIndexerUrl(KASPA_INDEXER_CONFIG.REST_API_URL);
+    const query = new URLSearchParams({
+      limit: String(limit),
+      before: cursor ?? '0',
+      resolve_previous_outpoints: 'light'
+    });
+
+    const { body, headers } = await this.fetchIndexer<KaspaIndexedTransaction[]>(
+      `${baseUrl}/addresses/${address}/full-transactions-page?${query.toString()}`
+    );
+
+    const records = body.map((transaction) => this.toTransactionRecord(transaction, address, token));
+    const nextBefore = headers.get('X-Next-Page-Before');
+    const nextCursor = body.length === limit && nextBefore && nextBefore !== '0' ? nextBefore : undefined;
+    return { records, nextCursor };
+  }
+
   getAssetType(): ChainAssetType {
     return ChainAssetType.Native;
   }
@@ -113,15 +197,44 @@ export class KasNativeHandler extends BaseAssetHandler {
     return 8;
   }
 
+  /**
+   * Create send parameters for a transfer from the wallet address
+   * @private
+   */
+  private createSendParams(
+    recipientAddress: string,
+    amountInSompi: bigint,
+    fees: Fees,
+    payload?: string
+  ): SendKasParams {
+    return new SendKasParams(
+      this.getAddress(),
+      amountInSompi,
+      Address.fromString(recipientAddress),
+      this.networkId,
+      fees,
+      payload ? base.toUtf8(payload) : undefined
+    );
+  }
+
   /**
    * Create transactions by outputs with fee calculation
+   * @param outputs - Outputs replacing the single output of the send parameters
+   * @param spentOutpoints - Outpoints, as transaction ID and index, the UTXOs are restricted to
    * @private
    */
-  private async createTransactionsByOutputs(sendParam: SendKasParams): Promise<{
+  private async createTransactionsByOutputs(
+    sendParam: SendKasParams,
+    outputs?: PaymentOutput[],
+    spentOutpoints?: Set<string>
+  ): Promise<{
     priorityFee: Fees;
     result: ReturnType<typeof TransactionHelper.createTransactions>;
   }> {
-    const { entries: utxos } = await this.rpcClient.getUtxosByAddresses([sendParam.sender.toString()]);
+    const { entries } = await this.rpcClient.getUtxosByAddresses([sendParam.sender.toString()]);
+    const utxos = spentOutpoints
+      ? entries.filter(({ outpoint }) => spentOutpoints.has(`${outpoint.transactionId}:${outpoint.index}`))
+      : entries;
 
     this.logger.debug('Retrieved UTXOs for transaction creation', {
       context: 'KasNativeHandler.createTransactionsByOutputs',
@@ -132,6 +245,9 @@ export class KasNativeHandler extends BaseAssetHandler {
     });
 
     const settings = sendParam.toGeneratorSettings(utxos);
+    if (outputs) {
+      settings.outputs = outputs;
+    }
     const txResult = TransactionHelper.createTransactions(settings);
 
     if (sendParam.priorityFee?.amount) {
@@ -161,4 +277,77 @@ export class KasNativeHandler extends BaseAssetHandler {
       result: txResultWithFee
     };
   }
+
+  /**
+   * ID of the final generated transaction, which carries the transfer outputs
+   * @throws {TransactionError} When no transaction was generated
+   * @private
+   */
+  private getFinalTransactionId(summary: GeneratorSummary): string {
+    const txId = summary.finalTransactionId?.toString();
+    if (!txId) {
+      throw new TransactionError(
+        HibitIdSdkErrorCode.TRANSACTION_SIGNING_FAILED,
+        `${CHAIN_NAME}: No transaction was generated for the transfer`
+      );
+    }
+    return txId;
+  }
+
+  /**
+   * Convert an indexed transaction into a transaction record relative to the owner address
+   * @private
+   */
+  private toTransactionRecord(
+    transaction: KaspaIndexedTransaction,
+    owner: string,
+    token: TransactionHistoryParams['token']
+  ): TransactionRecord {
+    const inputs = transaction.inputs ?? [];
+    const outputs = transaction.outputs ?? [];
+    const sum = (amounts: number[]) => amounts.reduce((total, amount) => total.plus(amount), new BigNumber(0));
+
+    const ownInputs = inputs.filter((input) => input.previous_outpoint_address === owner);
+    const ownOutputs = outputs.filter((output) => output.script_public_key_address === owner);
+    const foreignOutputs = outputs.filter((output) => output.script_public_key_address !== owner);
+    const inputTotal = sum(inputs.map((input) => input.previous_outpoint_amount ?? 0));
+    const fee = inputTotal.minus(sum(outputs.map((output) => output.amount)));
+
+    let record: Pick<TransactionRecord, 'direction' | 'counterparty' | 'amount'>;
+    if (ownInputs.length === 0) {
+      record = {
+        direction: 'incoming',
+        counterparty: inputs[0]?.previous_outpoint_address ?? '',
+        amount: sum(ownOutputs.map((output) => output.amount))
+      };
+    } else if (foreignOutputs.length === 0) {
+      record = { direction: 'self', counterparty: owner, amount: sum(ownOutputs.map((output) => output.amount)) };
+    } else {
+      record = {
+        direction: 'outgoing',
+        counterparty: foreignOutputs[0].script_public_key_address,
+        amount: sum(foreignOutputs.map((output) => output.amount))
+      };
+    }
+
+    return {
+      hash: transaction.transaction_id,
+      ...record,
+      token,
+      fee: ownInputs.length > 0 && fee.gte(0) ? fee : undefined,
+      status: transaction.is_accepted ? 'confirmed' : 'pending',
+      timestamp: transaction.block_time
+    };
+  }
+}
+
+/**
+ * Outpoints spent by transactions, as transaction ID and index
+ */
+function getSpentOutpoints(transactions: KaspaSubmittableTransaction[]): Set<string> {
+  return new Set(
+    transactions.flatMap(({ inputs }) =>
+      inputs.map(({ previousOutpoint }) => `${previousOutpoint.transactionId}:${previousOutpoint.index}`)
+    )
+  );
 }
@@ -2,15 +2,21 @@ import BigNumber from 'bignumber.js';
 import {
   BalanceQueryParams,
   TransferParams,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  TransactionRecord,
   BalanceQueryError,
   TransactionError,
-  HibitIdSdkErrorCode
+  GeneralWalletError,
+  HibitIdSdkErrorCode,
+  getTransactionDirection
 } from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
 import { Krc20TransferOptions, Krc20TransferParams, Fees, Hash } from '@kcoin/kaspa-web3.js';
 import { BaseAssetHandler } from './base-asset-handler';
 import { TransactionHelper } from '../utils';
-import { CHAIN_NAME, KASPA_CONFIG, KaspaRetry } from '../config';
+import { CHAIN_NAME, KASPA_CONFIG, KASPA_INDEXER_CONFIG, KaspaRetry } from '../config';
+import { KaspaUnsignedTransactionData, KaspaSignedTransactionData, Krc20OperationPage } from '../types';
 
 const DEFAULT_FEES = new Fees(0n);
 
@@ -19,7 +25,7 @@ const DEFAULT_FEES = new Fees(0n);
  *
  * Implements all operations specific to KRC20 tokens:
  * - Token balance queries
- * - Token transfers using commit/reveal pattern
+ * - Token transfers using commit/reveal pattern (single-step only)
  * - Fee estimation for token transfers
  * - Token metadata queries (decimals)
  */
@@ -65,6 +71,27 @@ export class Krc20TokenHandler extends BaseAssetHandler {
     );
   }
 
+  /**
+   * KRC20 transfers cannot be built ahead of signing
+   * The reveal transaction spends the commit output, so the pair is executed by transfer instead
+   */
+  async buildTransfer(_params: TransferParams): Promise<KaspaUnsignedTransactionData> {
+    throw new GeneralWalletError(
+      HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+      `${CHAIN_NAME}: KRC20 transfers cannot be split into build, sign and broadcast steps`
+    );
+  }
+
+  /**
+   * KRC20 transfers cannot be signed separately, see buildTransfer
+   */
+  async signTransfer(_data: KaspaUnsignedTransactionData): Promise<KaspaSignedTransactionData> {
+    throw new GeneralWalletError(
+      HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+      `${CHAIN_NAME}: KRC20 transfers cannot be split into build, sign and broadcast steps`
+    );
+  }
+
   /**
    * Transfer KRC20 tokens using commit/reveal pattern
    * Note: Address, amount and token validation is handled at wallet level
@@ -87,7 +114,7 @@ export class Krc20TokenHandler extends BaseAssetHandler {
     };
 
     const krc20TransferParams = new Krc20TransferParams(
-      this.keyPair.toAddress(this.networkId.networkType),
+      this.getAddress(),
       this.networkId,
       DEFAULT_FEES,
       transferOptions,
@@ -127,7 +154,7 @@ export class Krc20TokenHandler extends BaseAssetHandler {
     };
 
     const krc20TransferParams = new Krc20TransferParams(
-      this.keyPair.toAddress(this.networkId.networkType),
+      this.getAddress(),
       this.networkId,
       DEFAULT_FEES,
       transferOptions,
@@ -143,6 +170,56 @@ export class Krc20TokenHandler extends BaseAssetHandler {
     return fee;
   }
 
+  /**
+   * List KRC20 transfers of an address from the Kasplex API, newest first
+   * Mint and deploy operations are skipped. Kasplex pages have a fixed size, so the cursor
+   * combines the Kasplex page cursor with an offset into that page.
+   * Note: Address and token validation is handled at wallet level
+   */
+  @KaspaRetry({})
+  async getTransactionHistory(params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage> {
+    const { address, token, cursor, limit } = params;
+    const [pageCursor, offsetText] = cursor ? cursor.split('|') : ['', '0'];
+    const offset = Number(offsetText) || 0;
+
+    const baseUrl = this.getIndexerUrl(KASPA_INDEXER_CONFIG.KASPLEX_API_URL);
+    const query = new URLSearchParams({ address, tick: token.tokenAddress!.toLowerCase() });
+    if (pageCursor) {
+      query.set('next', pageCursor);
+    }
+
+    const { body } = await this.fetchIndexer<Krc20OperationPage>(`${baseUrl}/krc20/oplist?${query.toString()}`);
+    if (body.message !== 'successful') {
+      throw new BalanceQueryError(HibitIdSdkErrorCode.BALANCE_QUERY_FAILED, `${CHAIN_NAME}: KRC20 oplist failed`);
+    }
+
+    const operations = body.result.slice(offset, offset + limit);
+    const records = operations
+      .filter((operation) => operation.op === 'transfer')
+      .map((operation): TransactionRecord => {
+        const direction = getTransactionDirection(address, operation.from ?? '', operation.to ?? '');
+        return {
+          hash: operation.hashRev,
+          direction,
+          counterparty: (direction === 'incoming' ? operation.from : operation.to) ?? '',
+          amount: new BigNumber(operation.amt ?? 0),
+          token,
+          fee: direction === 'incoming' ? undefined : new BigNumber(operation.feeRev ?? 0),
+          status: operation.opAccept === '1' ? 'confirmed' : operation.opAccept === '-1' ? 'failed' : 'pending',
+          timestamp: Number(operation.mtsAdd)
+        };
+      });
+
+    let nextCursor: string | undefined;
+    if (offset + limit < body.result.length) {
+      nextCursor = `${pageCursor}|${offset + limit}`;
+    } else if (body.next) {
+      nextCursor = `${body.next}|0`;
+    }
+
+    return { records, nextCursor };
+  }
+
   getAssetType(): ChainAssetType {
     return ChainAssetType.KRC20;
   }
@@ -208,12 +285,16 @@ export class Krc20TokenHandler extends BaseAssetHandler {
       result: { transactions: commitTxs }
     } = await this.createTransactionsByOutputs(krc20TransferParams);
 
-    const commitTxId = await TransactionHelper.submitTransactions(commitTxs, this.keyPair, async (reqMessage) => {
-      return await this.rpcClient.submitTransaction({
-        transaction: reqMessage,
-        allowOrphan: false
-      });
-    });
+    const commitTxId = await TransactionHelper.submitTransactions(
+      commitTxs,
+      this.getKeyPair(),
+      async (reqMessage) => {
+        return await this.rpcClient.submitTransaction({
+          transaction: reqMessage,
+          allowOrphan: false
+        });
+      }
+    );
 
     this.logger.debug('KRC20 commit transaction completed', {
       context: 'Krc20TokenHandler.processKrc20CommitTransaction',
@@ -239,7 +320,7 @@ export class Krc20TokenHandler extends BaseAssetHandler {
 
     const revealTxId = await TransactionHelper.submitKrc20RevealTransactions(
       revealTxs,
-      this.keyPair,
+      this.getKeyPair(),
       krc20TransferParams,
       async (reqMessage) => {
         this.logger.debug('Submitting KRC20 reveal transaction', {
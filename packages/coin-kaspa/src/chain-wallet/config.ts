@@ -8,6 +8,14 @@ import { createChainRetry } from '@delandlabs/coin-base';
  */
 export const DERIVING_PATH = "m/44'/111111'/0'/0/0";
 
+/**
+ * HD wallet derivation path of the account at the given index
+ * Accounts differ in the address index of the default BIP44 account
+ */
+export function getDerivingPath(accountIndex: number): string {
+  return `m/44'/111111'/0'/0/${accountIndex}`;
+}
+
 /**
  * Chain type identifier for Kaspa blockchain
  */
@@ -45,6 +53,25 @@ export const KASPA_CONFIG = {
   CACHE_KEY_NATIVE: 'native'
 } as const;
 
+/**
+ * Indexer endpoints used for transaction history
+ *
+ * Kaspa nodes keep no per-address transaction index, so history is read from the
+ * Kaspa REST API (native KAS) and the Kasplex API (KRC20 operations).
+ */
+export const KASPA_INDEXER_CONFIG = {
+  REST_API_URL: {
+    MAINNET: 'https://api.kaspa.org',
+    TESTNET: 'https://api-tn10.kaspa.org'
+  },
+  KASPLEX_API_URL: {
+    MAINNET: 'https://api.kasplex.org/v1',
+    TESTNET: 'https://tn10api.kasplex.org/v1'
+  },
+  /** Time to wait for an indexer response before giving up */
+  REQUEST_TIMEOUT_MS: 15000
+} as const;
+
 /**
  * Retry configuration for network operations
  *
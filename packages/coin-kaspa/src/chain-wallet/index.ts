@@ -3,3 +3,6 @@ export { KaspaChainWallet } from './wallet';
 
 // Also export asset handlers for advanced users who might want direct access
 export { BaseAssetHandler, KasNativeHandler, Krc20TokenHandler } from './asset-handlers';
+
+// Transaction data types for the build / sign / broadcast flow
+export type { KaspaUnsignedTransactionData, KaspaSignedTransactionData, KaspaSubmittableTransaction } from './types';
@@ -1,3 +1,5 @@
+import type { RpcClient } from '@kcoin/kaspa-web3.js';
+
 /**
  * WebSocket event type definitions for Kaspa UTXO changes
  */
@@ -28,11 +30,16 @@ export interface ChainChangeEvent {
   }>;
 }
 
+/**
+ * Transaction in the JSON form submitted to the node, as taken by RpcClient.submitTransaction
+ */
+export type KaspaSubmittableTransaction = Parameters<RpcClient['submitTransaction']>[0]['transaction'];
+
 /**
  * Transaction submission function type
  */
 export interface TransactionSubmitFunction {
-  (transaction: any): Promise<{ transactionId: string }>;
+  (transaction: KaspaSubmittableTransaction): Promise<{ transactionId: string }>;
 }
 
 /**
@@ -43,3 +50,69 @@ export interface Krc20TransferParams {
     encodePayToScriptHashSignatureScript(signature: Uint8Array): Uint8Array;
   };
 }
+
+/**
+ * Chain-specific data of an unsigned Kaspa transfer
+ * Carries the transactions generated from the sender's UTXO set at build time, with the
+ * transfer they were generated for, so signing can regenerate and check them.
+ */
+export interface KaspaUnsignedTransactionData {
+  /** Recipient address */
+  recipientAddress: string;
+  /** Amount in sompi */
+  amount: string;
+  /** Priority fee in sompi, fixed at build time */
+  priorityFee: string;
+  /** Optional UTF-8 payload */
+  payload?: string;
+  /** Unsigned transactions with their inputs and outputs, in submission order */
+  transactions: KaspaSubmittableTransaction[];
+  /** ID of the final transaction, which carries the transfer output */
+  txId: string;
+}
+
+/**
+ * Chain-specific data of a signed Kaspa transfer
+ */
+export interface KaspaSignedTransactionData {
+  /** Signed transactions in submittable form, in submission order */
+  transactions: KaspaSubmittableTransaction[];
+  /** ID of the final transaction, which carries the transfer output */
+  txId: string;
+}
+
+/**
+ * Transaction as listed by the Kaspa REST API `/addresses/{address}/full-transactions-page`
+ */
+export interface KaspaIndexedTransaction {
+  transaction_id: string;
+  block_time: number;
+  is_accepted: boolean;
+  inputs: Array<{ previous_outpoint_address?: string; previous_outpoint_amount?: number }> | null;
+  outputs: Array<{ script_public_key_address: string; amount: number }> | null;
+}
+
+/**
+ * KRC20 operation as listed by the Kasplex API `/krc20/oplist`
+ */
+export interface Krc20Operation {
+  op: string;
+  tick: string;
+  amt?: string;
+  from?: string;
+  to?: string;
+  hashRev: string;
+  feeRev?: string;
+  /** "1" accepted, "-1" rejected, "0" not yet processed */
+  opAccept: string;
+  mtsAdd: string;
+}
+
+/**
+ * Page of the Kasplex API `/krc20/oplist`
+ */
+export interface Krc20OperationPage {
+  message: string;
+  next?: string;
+  result: Krc20Operation[];
+}
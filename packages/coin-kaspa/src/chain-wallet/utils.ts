@@ -1,5 +1,5 @@
 import { GeneratorSettings, SignableTransaction, GeneratorSummary, Generator, Keypair } from '@kcoin/kaspa-web3.js';
-import { TransactionSubmitFunction, Krc20TransferParams } from './types';
+import { TransactionSubmitFunction, Krc20TransferParams, KaspaSubmittableTransaction } from './types';
 
 /**
  * Transaction utilities for Kaspa blockchain operations
@@ -30,22 +30,28 @@ export class TransactionHelper {
   }
 
   /**
-   * Submit multiple transactions sequentially
+   * Sign multiple transactions and convert them to submittable form
    * @param transactions - Array of signable transactions
    * @param keypair - Keypair for signing transactions
+   * @returns Signed transactions ready for submission, in the same order
+   */
+  static signTransactions(transactions: SignableTransaction[], keypair: Keypair): KaspaSubmittableTransaction[] {
+    return transactions.map((tx) => tx.sign([keypair.privateKey!]).toSubmittableJsonTx());
+  }
+
+  /**
+   * Submit multiple signed transactions sequentially
+   * @param reqMessages - Signed transactions in submittable form
    * @param submitFn - Function to submit a single transaction
    * @returns Promise resolving to the last transaction ID
    */
-  static async submitTransactions(
-    transactions: SignableTransaction[],
-    keypair: Keypair,
+  static async submitSignedTransactions(
+    reqMessages: KaspaSubmittableTransaction[],
     submitFn: TransactionSubmitFunction
   ): Promise<string> {
     let lastTxId = '';
 
-    for (const tx of transactions) {
-      const signedTx = tx.sign([keypair.privateKey!]);
-      const reqMessage = signedTx.toSubmittableJsonTx();
+    for (const reqMessage of reqMessages) {
       const result = await submitFn(reqMessage);
       lastTxId = result.transactionId;
     }
@@ -53,6 +59,21 @@ export class TransactionHelper {
     return lastTxId;
   }
 
+  /**
+   * Sign and submit multiple transactions sequentially
+   * @param transactions - Array of signable transactions
+   * @param keypair - Keypair for signing transactions
+   * @param submitFn - Function to submit a single transaction
+   * @returns Promise resolving to the last transaction ID
+   */
+  static async submitTransactions(
+    transactions: SignableTransaction[],
+    keypair: Keypair,
+    submitFn: TransactionSubmitFunction
+  ): Promise<string> {
+    return this.submitSignedTransactions(this.signTransactions(transactions, keypair), submitFn);
+  }
+
   /**
    * Submit KRC20 reveal transactions with special signature handling
    * @param transactions - Array of reveal transactions
@@ -4,12 +4,19 @@ import {
   BaseChainWallet,
   ChainInfo,
   WalletConfig,
+  DerivationOptions,
   SignMessageParams,
   BalanceQueryParams,
   TransferParams,
+  UnsignedTransaction,
+  SignedTransaction,
+  TransferSimulationResult,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
   TransactionConfirmationParams,
   TransactionConfirmationResult,
   TokenIdentifier,
+  WatchOnlyAccount,
   NetworkError,
   MnemonicError,
   MessageSigningError,
@@ -31,13 +38,22 @@ import {
   withErrorHandling,
   withLogging,
   cleanSensitiveData,
-  getAssetTypeName
+  getAssetTypeName,
+  createUnsignedTransaction,
+  createSignedTransaction,
+  assertTransactionForChain
 } from '@delandlabs/coin-base';
 import { deriveEcdsaPrivateKey, base } from '@delandlabs/crypto-lib';
-import { Keypair, NetworkId, RpcClient, Krc20RpcClient, Resolver } from '@kcoin/kaspa-web3.js';
+import { Address, Keypair, NetworkId, RpcClient, Krc20RpcClient, Resolver } from '@kcoin/kaspa-web3.js';
 import { BaseAssetHandler, KasNativeHandler, Krc20TokenHandler } from './asset-handlers';
-import { CHAIN, CHAIN_NAME, DERIVING_PATH, KASPA_CONFIG } from './config';
-import { UtxoChangedEvent, ChainChangeEvent } from './types';
+import { CHAIN, CHAIN_NAME, KASPA_CONFIG, getDerivingPath } from './config';
+import {
+  UtxoChangedEvent,
+  ChainChangeEvent,
+  KaspaUnsignedTransactionData,
+  KaspaSignedTransactionData
+} from './types';
+import { TransactionHelper } from './utils';
 
 // Register Kaspa validators
 
@@ -75,6 +91,7 @@ export class KaspaChainWallet extends BaseChainWallet {
   private rpcClient: RpcClient | null = null;
   private krc20RpcClient: Krc20RpcClient | null = null;
   private keyPair?: Keypair;
+  private watchAddress?: Address;
   private addressSet: Set<string> = new Set(); // Track addresses for UTXO subscription
   private pingInterval: NodeJS.Timeout | null = null;
   private readonly readyPromise: Promise<void>;
@@ -82,28 +99,38 @@ export class KaspaChainWallet extends BaseChainWallet {
   private destroyed: boolean = false;
   // Cache address validator to avoid repeated async lookups
 
-  constructor(chainInfo: ChainInfo, mnemonic: string, options?: { logger?: ILogger }) {
+  constructor(
+    chainInfo: ChainInfo,
+    mnemonicOrAccount: string | WatchOnlyAccount,
+    options?: { logger?: ILogger } & DerivationOptions
+  ) {
     if (chainInfo.chainId.chain !== CHAIN) {
       throw new NetworkError(HibitIdSdkErrorCode.INVALID_CONFIGURATION, `${CHAIN_NAME}: Invalid chain type`);
     }
 
     // Validate mnemonic early to fail fast
-    if (!mnemonic || mnemonic.trim() === '') {
+    if (typeof mnemonicOrAccount === 'string' && mnemonicOrAccount.trim() === '') {
       throw new MnemonicError(HibitIdSdkErrorCode.INVALID_MNEMONIC, `${CHAIN_NAME}: Empty mnemonic`);
     }
 
     const config: WalletConfig = {
       chainInfo,
-      logger: options?.logger
+      logger: options?.logger,
+      accountIndex: options?.accountIndex,
+      derivationPath: options?.derivationPath
     };
-    super(config, mnemonic);
+    super(config, mnemonicOrAccount);
 
     this.networkId = chainInfo.isMainnet ? NetworkId.Mainnet : NetworkId.Testnet10;
 
     // Create address validator function using new ChainValidation API
 
     this.readyPromise = createReadyPromise(async () => {
-      await this.initWallet(mnemonic);
+      if (typeof mnemonicOrAccount === 'string') {
+        await this.initWallet(mnemonicOrAccount);
+      } else {
+        await this.initWatchOnlyWallet(mnemonicOrAccount);
+      }
       this.initializeAssetHandlers();
     });
   }
@@ -118,21 +145,25 @@ export class KaspaChainWallet extends BaseChainWallet {
   protected async getAccountImpl(): Promise<ChainAccount> {
     await this.readyPromise;
 
+    if (this.watchAddress) {
+      const chainId = new ChainId(this.chainInfo.chainId.chain, this.chainInfo.chainId.network);
+      return new ChainAccount(chainId, this.watchAddress.toString(), this.getWatchOnlyAccount()?.publicKeyHex ?? '');
+    }
+
     if (!this.keyPair) {
       throw new NetworkError(HibitIdSdkErrorCode.NETWORK_UNAVAILABLE, `${CHAIN_NAME}: Wallet not initialized`);
     }
 
-    const address = this.keyPair.toAddress(this.networkId.networkType).toString();
-    const publicKey =
-      this.keyPair.publicKey && typeof this.keyPair.publicKey !== 'string'
-        ? Array.from(new Uint8Array(this.keyPair.publicKey))
-            .map((b) => b.toString(16).padStart(2, '0'))
-            .join('')
-        : this.keyPair.publicKey || '';
-
-    const chainId = new ChainId(this.chainInfo.chainId.chain, this.chainInfo.chainId.network);
+    return this.createChainAccount(this.keyPair);
+  }
 
-    return new ChainAccount(chainId, address, publicKey);
+  /**
+   * Implementation of account derivation for getAccounts
+   */
+  @cleanSensitiveData()
+  protected async deriveAccountImpl(mnemonic: string, accountIndex: number): Promise<ChainAccount> {
+    const privateKeyHex = await deriveEcdsaPrivateKey(mnemonic, getDerivingPath(accountIndex));
+    return this.createChainAccount(Keypair.fromPrivateKeyHex(privateKeyHex));
   }
 
   /**
@@ -177,22 +208,98 @@ export class KaspaChainWallet extends BaseChainWallet {
   }
 
   /**
-   * Implementation of transfer - delegates to appropriate handler
+   * Implementation of transfer
+   * KRC20 transfers use a commit/reveal pair where the reveal spends the commit output,
+   * so they bypass the build/sign/broadcast split and are executed by the handler in one step
    */
   protected async transferImpl(params: TransferParams): Promise<string> {
+    if (params.token?.assetType !== ChainAssetType.KRC20) {
+      return super.transferImpl(params);
+    }
+
     await this.readyPromise;
+    await this.assertValidTransferParams(params);
 
-    // Common validation for all assets: address and amount validation
-    assertValidAddressForTransaction(params.recipientAddress, CHAIN, CHAIN_NAME);
-    assertValidTransferAmount(params.amount, CHAIN_NAME);
+    const handler = this.getAssetHandler(params.token.assetType) as Krc20TokenHandler;
+    return await handler.transfer(params);
+  }
 
-    // Validate token address for KRC20 tokens
-    if (params.token?.assetType === ChainAssetType.KRC20) {
-      await assertValidTokenAddressForTransaction(params.token.tokenAddress, CHAIN, CHAIN_NAME);
+  /**
+   * Implementation of batch transfers
+   * Native transfers without payload are sent together with an output per recipient;
+   * KRC20 transfers and transfers with payload are sent one by one afterwards
+   */
+  protected async batchTransferImpl(transfers: TransferParams[]): Promise<string[]> {
+    await this.readyPromise;
+    for (const params of transfers) {
+      await this.assertValidTransferParams(params);
     }
 
+    const txHashes: string[] = new Array(transfers.length);
+    const isBatchable = (params: TransferParams) =>
+      params.token?.assetType === ChainAssetType.Native && !params.payload;
+
+    const batchable = transfers.filter(isBatchable);
+    if (batchable.length > 0) {
+      const handler = this.getAssetHandler(ChainAssetType.Native) as KasNativeHandler;
+      const txHash = await this.submitSignedTransfer(await handler.signBatchTransfer(batchable));
+      transfers.forEach((params, index) => {
+        if (isBatchable(params)) {
+          txHashes[index] = txHash;
+        }
+      });
+    }
+
+    for (const [index, params] of transfers.entries()) {
+      if (!isBatchable(params)) {
+        txHashes[index] = await this.transferImpl(params);
+      }
+    }
+    return txHashes;
+  }
+
+  /**
+   * Implementation of transfer building - delegates to appropriate handler
+   */
+  protected async buildTransferImpl(
+    params: TransferParams
+  ): Promise<UnsignedTransaction<KaspaUnsignedTransactionData>> {
+    await this.readyPromise;
+    await this.assertValidTransferParams(params);
+
     const handler = this.getAssetHandler(params.token?.assetType);
-    return await handler.transfer(params);
+    const data = await handler.buildTransfer(params);
+    return createUnsignedTransaction(this.chainInfo, params, data);
+  }
+
+  /**
+   * Implementation of transaction signing
+   * The built transactions are regenerated from the UTXOs they spend, which are read from the node
+   */
+  protected async signTransactionImpl(
+    transaction: UnsignedTransaction<KaspaUnsignedTransactionData>
+  ): Promise<SignedTransaction<KaspaSignedTransactionData>> {
+    await this.readyPromise;
+
+    assertTransactionForChain(transaction, this.chainInfo, CHAIN_NAME);
+
+    const handler = this.getAssetHandler(transaction.token?.assetType);
+    const data = await handler.signTransfer(transaction.data);
+    return createSignedTransaction(transaction, data, data.txId);
+  }
+
+  /**
+   * Implementation of transaction broadcasting
+   * Transactions are submitted in order; the last one carries the transfer output
+   */
+  protected async broadcastTransactionImpl(
+    transaction: SignedTransaction<KaspaSignedTransactionData>
+  ): Promise<string> {
+    await this.readyPromise;
+
+    assertTransactionForChain(transaction, this.chainInfo, CHAIN_NAME);
+
+    return this.submitSignedTransfer(transaction.data);
   }
 
   /**
@@ -214,6 +321,34 @@ export class KaspaChainWallet extends BaseChainWallet {
     return await handler.estimateFee(params);
   }
 
+  /**
+   * Implementation of transfer simulation
+   * Checks the estimated fee and amount against current balances
+   */
+  protected async simulateTransferImpl(params: TransferParams): Promise<TransferSimulationResult> {
+    const fee = await this.estimateFeeImpl(params);
+    return this.simulateTransferWithBalances(params, fee, { assetType: ChainAssetType.Native });
+  }
+
+  /**
+   * Implementation of transaction history - delegates to appropriate handler
+   */
+  protected async getTransactionHistoryImpl(
+    params: TransactionHistoryParams & { limit: number }
+  ): Promise<TransactionHistoryPage> {
+    await this.readyPromise;
+
+    assertValidAddressForBalance(params.address, CHAIN, CHAIN_NAME);
+
+    // Validate token address for KRC20 tokens
+    if (params.token?.assetType === ChainAssetType.KRC20) {
+      await assertValidTokenAddressForBalance(params.token.tokenAddress, CHAIN, CHAIN_NAME);
+    }
+
+    const handler = this.getAssetHandler(params.token?.assetType);
+    return await handler.getTransactionHistory(params);
+  }
+
   /**
    * Implementation of transaction confirmation waiting
    */
@@ -503,6 +638,36 @@ export class KaspaChainWallet extends BaseChainWallet {
     throw new Error(`Cannot get decimals for asset type: ${token.assetType}`);
   }
 
+  /**
+   * Implementation of endpoint probing: requests the block DAG info
+   */
+  protected async checkEndpointImpl(url: string): Promise<void> {
+    await this.createRpcClient(url).getBlockDagInfo();
+  }
+
+  /**
+   * Reconnect to the endpoint the endpoint pool switched to
+   * Recreates the RPC clients and asset handlers and moves the UTXO subscription to the new client.
+   */
+  protected async onRpcEndpointChanged(_url: string): Promise<void> {
+    if (!this.rpcClient || this.destroyed) {
+      // Not initialized yet; initialization connects to the pool's current endpoint
+      return;
+    }
+
+    const previousClient = this.rpcClient;
+    const addresses = Array.from(this.addressSet);
+    this.initRpcClients();
+    this.initializeAssetHandlers();
+
+    if (addresses.length > 0) {
+      previousClient.unsubscribeUtxosChanged(addresses).catch(() => {
+        // The previous endpoint is failing; its subscription ends with the connection
+      });
+      await this.rpcClient!.subscribeUtxosChanged(addresses);
+    }
+  }
+
   /**
    * Clean up resources when wallet is disposed
    */
@@ -547,7 +712,7 @@ export class KaspaChainWallet extends BaseChainWallet {
     }
 
     // Generate keypair from mnemonic
-    const privateKeyHex = await deriveEcdsaPrivateKey(mnemonic, DERIVING_PATH);
+    const privateKeyHex = await deriveEcdsaPrivateKey(mnemonic, this.resolveDerivationPath(getDerivingPath));
     this.keyPair = Keypair.fromPrivateKeyHex(privateKeyHex);
 
     // Clear sensitive data from memory immediately after use
@@ -559,13 +724,7 @@ export class KaspaChainWallet extends BaseChainWallet {
       }
     }
 
-    // Initialize RPC clients
-    this.rpcClient = new RpcClient({
-      networkId: this.networkId,
-      resolver: Resolver.createWithEndpoints([this.getEndpoint(this.chainInfo)])
-    });
-    this.rpcClient.addEventListener('UtxosChanged', this.handleUtxoChange.bind(this));
-    this.krc20RpcClient = new Krc20RpcClient({ networkId: this.networkId });
+    this.initRpcClients();
 
     // Clear mnemonic parameter to prevent memory retention
     // Note: This only clears the local reference, the original string may still exist
@@ -573,6 +732,56 @@ export class KaspaChainWallet extends BaseChainWallet {
     (mnemonic as any) = null;
   }
 
+  /**
+   * Initialize a watch-only wallet from its address
+   * @private
+   */
+  @withErrorHandling({ errorType: 'general' }, 'Failed to initialize watch-only wallet')
+  @withLogging('Initialize watch-only wallet')
+  private async initWatchOnlyWallet(account: WatchOnlyAccount): Promise<void> {
+    this.watchAddress = Address.fromString(account.address);
+    this.initRpcClients();
+  }
+
+  /**
+   * Initialize RPC clients
+   * @private
+   */
+  private initRpcClients(): void {
+    this.rpcClient = this.createRpcClient(this.getEndpoint());
+    this.rpcClient.addEventListener('UtxosChanged', this.handleUtxoChange.bind(this));
+    this.krc20RpcClient = new Krc20RpcClient({ networkId: this.networkId });
+  }
+
+  /**
+   * Create an RPC client for an endpoint
+   * @private
+   */
+  private createRpcClient(endpoint: string): RpcClient {
+    return new RpcClient({
+      networkId: this.networkId,
+      resolver: Resolver.createWithEndpoints([endpoint])
+    });
+  }
+
+  /**
+   * Build the chain account of a key pair
+   * @private
+   */
+  private createChainAccount(keyPair: Keypair): ChainAccount {
+    const address = keyPair.toAddress(this.networkId.networkType).toString();
+    const publicKey =
+      keyPair.publicKey && typeof keyPair.publicKey !== 'string'
+        ? Array.from(new Uint8Array(keyPair.publicKey))
+            .map((b) => b.toString(16).padStart(2, '0'))
+            .join('')
+        : keyPair.publicKey || '';
+
+    const chainId = new ChainId(this.chainInfo.chainId.chain, this.chainInfo.chainId.network);
+
+    return new ChainAccount(chainId, address, publicKey);
+  }
+
   /**
    * Initialize asset handlers after wallet is ready
    * @private
@@ -584,7 +793,7 @@ export class KaspaChainWallet extends BaseChainWallet {
       return;
     }
 
-    if (!this.rpcClient || !this.keyPair) {
+    if (!this.rpcClient || (!this.keyPair && !this.watchAddress)) {
       throw new NetworkError(
         HibitIdSdkErrorCode.NETWORK_UNAVAILABLE,
         `${CHAIN_NAME}: Wallet not initialized - missing RPC client or keypair`
@@ -595,9 +804,10 @@ export class KaspaChainWallet extends BaseChainWallet {
     const nativeHandler = new KasNativeHandler(
       this.rpcClient,
       this.krc20RpcClient,
-      this.keyPair,
+      this.keyPair ?? null,
       this.networkId,
-      this.logger
+      this.logger,
+      this.watchAddress
     );
     this.assetHandlers.set(ChainAssetType.Native, nativeHandler);
 
@@ -605,9 +815,10 @@ export class KaspaChainWallet extends BaseChainWallet {
     const krc20Handler = new Krc20TokenHandler(
       this.rpcClient,
       this.krc20RpcClient,
-      this.keyPair,
+      this.keyPair ?? null,
       this.networkId,
-      this.logger
+      this.logger,
+      this.watchAddress
     );
     this.assetHandlers.set(ChainAssetType.KRC20, krc20Handler);
   }
@@ -637,6 +848,42 @@ export class KaspaChainWallet extends BaseChainWallet {
     return handler;
   }
 
+  /**
+   * Submit the signed transactions of a transfer in order
+   * @private
+   * @returns The id of the last transaction, which carries the transfer outputs
+   */
+  private async submitSignedTransfer(data: KaspaSignedTransactionData): Promise<string> {
+    if (!this.rpcClient) {
+      throw new NetworkError(HibitIdSdkErrorCode.NETWORK_UNAVAILABLE, `${CHAIN_NAME}: RPC client not initialized`);
+    }
+
+    const rpcClient = this.rpcClient;
+    await TransactionHelper.submitSignedTransactions(data.transactions, async (reqMessage) => {
+      return await rpcClient.submitTransaction({
+        transaction: reqMessage,
+        allowOrphan: false
+      });
+    });
+
+    return data.txId;
+  }
+
+  /**
+   * Validate transfer parameters common to all assets
+   * @private
+   */
+  private async assertValidTransferParams(params: TransferParams): Promise<void> {
+    // Common validation for all assets: address and amount validation
+    assertValidAddressForTransaction(params.recipientAddress, CHAIN, CHAIN_NAME);
+    assertValidTransferAmount(params.amount, CHAIN_NAME);
+
+    // Validate token address for KRC20 tokens
+    if (params.token?.assetType === ChainAssetType.KRC20) {
+      await assertValidTokenAddressForTransaction(params.token.tokenAddress, CHAIN, CHAIN_NAME);
+    }
+  }
+
   /**
    * Refresh UTXO subscription for balance monitoring
    * @private
@@ -677,6 +924,7 @@ export class KaspaChainWallet extends BaseChainWallet {
 
   /**
    * Handle UTXO change events from the Kaspa network
+   * Changes of a tracked address refresh the balance reported by balanceChanged.
    * @private
    * @param data - UTXO change event data
    */
@@ -686,15 +934,15 @@ export class KaspaChainWallet extends BaseChainWallet {
       const utxoEvent = data as UtxoChangedEvent;
       const addresses = Array.from(this.addressSet);
 
-      addresses.forEach((address) => {
-        const hasChange =
+      const hasChange = addresses.some(
+        (address) =>
           utxoEvent.UtxosChanged.added?.some((item) => item.address === address) ||
-          utxoEvent.UtxosChanged.removed?.some((item) => item.address === address);
+          utxoEvent.UtxosChanged.removed?.some((item) => item.address === address)
+      );
 
-        if (hasChange) {
-          // Change detected for address - logging handled by decorator
-        }
-      });
+      if (hasChange) {
+        this.refreshWalletState();
+      }
     }
   }
 
@@ -764,16 +1012,15 @@ export class KaspaChainWallet extends BaseChainWallet {
   }
 
   /**
-   * Get RPC endpoint from chain configuration
+   * Get the current RPC endpoint of the endpoint pool
    * @private
-   * @param chainInfo - Chain information
    * @returns RPC endpoint URL
    */
   @withLogging('Get RPC endpoint', undefined, (result: string) => ({ endpoint: result }))
-  private getEndpoint(chainInfo: ChainInfo): string {
-    // Use RPC URL from chainInfo
-    if (chainInfo.rpc && chainInfo.rpc.primary) {
-      return chainInfo.rpc.primary;
+  private getEndpoint(): string {
+    // Use the current RPC URL of the endpoint pool built from chainInfo
+    if (this.endpointPool.hasEndpoints()) {
+      return this.endpointPool.getCurrentUrl();
     }
 
     // This should never happen - chainInfo must provide RPC endpoint
@@ -1,7 +1,7 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import BigNumber from 'bignumber.js';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
-import { BalanceQueryParams } from '@delandlabs/coin-base';
+import { BalanceQueryParams, HibitIdSdkErrorCode } from '@delandlabs/coin-base';
 import { KasNativeHandler, Krc20TokenHandler } from '../src/chain-wallet/asset-handlers';
 import { createTestLogger, createMockKeypair } from './test-utils';
 
@@ -61,6 +61,94 @@ describe('Kaspa Asset Handlers', () => {
     });
   });
 
+  describe('KasNativeHandler transaction history', () => {
+    const COUNTERPARTY = 'kaspa:qz0c4vhqd6w2ur4ktqfl0eeqsh5cw7pcvqcjqxmhs2ry7wpqzlhuyrcmx8h4d';
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should list incoming and outgoing transfers from the Kaspa REST API', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        headers: new Headers({ 'X-Next-Page-Before': '1699999999000' }),
+        json: async () => [
+          {
+            transaction_id: 'tx-in',
+            block_time: 1700000001000,
+            is_accepted: true,
+            inputs: [{ previous_outpoint_address: COUNTERPARTY, previous_outpoint_amount: 5000 }],
+            outputs: [
+              { script_public_key_address: VALID_KASPA_ADDRESS, amount: 3000 },
+              { script_public_key_address: COUNTERPARTY, amount: 1900 }
+            ]
+          },
+          {
+            transaction_id: 'tx-out',
+            block_time: 1699999999000,
+            is_accepted: false,
+            inputs: [{ previous_outpoint_address: VALID_KASPA_ADDRESS, previous_outpoint_amount: 10000 }],
+            outputs: [
+              { script_public_key_address: COUNTERPARTY, amount: 6000 },
+              { script_public_key_address: VALID_KASPA_ADDRESS, amount: 3900 }
+            ]
+          }
+        ]
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const networkId: any = { networkType: 'testnet-10' };
+      const handler = new KasNativeHandler({} as any, {} as any, createMockKeypair(), networkId, logger);
+
+      const page = await handler.getTransactionHistory({
+        address: VALID_KASPA_ADDRESS as any,
+        token: { assetType: ChainAssetType.Native },
+        limit: 2
+      });
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        `https://api-tn10.kaspa.org/addresses/${VALID_KASPA_ADDRESS}/full-transactions-page?limit=2&before=0&resolve_previous_outpoints=light`,
+        { signal: expect.any(AbortSignal) }
+      );
+      expect(page.records).toEqual([
+        {
+          hash: 'tx-in',
+          direction: 'incoming',
+          counterparty: COUNTERPARTY,
+          amount: new BigNumber(3000),
+          token: { assetType: ChainAssetType.Native },
+          fee: undefined,
+          status: 'confirmed',
+          timestamp: 1700000001000
+        },
+        {
+          hash: 'tx-out',
+          direction: 'outgoing',
+          counterparty: COUNTERPARTY,
+          amount: new BigNumber(6000),
+          token: { assetType: ChainAssetType.Native },
+          fee: new BigNumber(100),
+          status: 'pending',
+          timestamp: 1699999999000
+        }
+      ]);
+      expect(page.nextCursor).toBe('1699999999000');
+    });
+
+    it('should report failed indexer requests as network errors', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+
+      const networkId: any = { networkType: 'testnet-10' };
+      const handler = new KasNativeHandler({} as any, {} as any, createMockKeypair(), networkId, logger);
+
+      await expect((handler as any).fetchIndexer('https://api-tn10.kaspa.org/info')).rejects.toMatchObject({
+        name: 'NetworkError',
+        code: HibitIdSdkErrorCode.NETWORK_REQUEST_FAILED,
+        message: 'Kaspa: Indexer request failed: fetch failed'
+      });
+    });
+  });
+
   describe('Krc20TokenHandler', () => {
     it('should return KRC20 asset type', () => {
       const mockRpcClient: any = {};
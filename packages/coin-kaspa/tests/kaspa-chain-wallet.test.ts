@@ -131,6 +131,47 @@ describe('KaspaChainWallet Advanced Features', () => {
       // The handler should process the event without throwing
       expect(mockLogger.debug).toHaveBeenCalled();
     });
+
+    test('should refresh the balance reported by balanceChanged on UTXO changes', async () => {
+      await wallet.getAccount();
+
+      const privateWallet = wallet as any;
+      privateWallet.addressSet.add(validKaspaAddress);
+      const refreshSpy = vi.spyOn(privateWallet, 'refreshWalletState').mockResolvedValue(undefined);
+
+      await privateWallet.handleUtxoChange({ UtxosChanged: { added: [], removed: [{ address: 'kaspa:other' }] } });
+      expect(refreshSpy).not.toHaveBeenCalled();
+
+      await privateWallet.handleUtxoChange({ UtxosChanged: { added: [{ address: validKaspaAddress }], removed: [] } });
+      expect(refreshSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Endpoint Failover', () => {
+    beforeEach(() => {
+      wallet = new KaspaChainWallet(
+        { ...Kaspa, rpc: { primary: 'https://api.kaspa.org', fallbacks: ['https://api-2.kaspa.org'] } },
+        testMnemonic,
+        { logger: mockLogger }
+      );
+    });
+
+    test('should move the UTXO subscription to a new RPC client on failover', async () => {
+      await wallet.getAccount();
+
+      const privateWallet = wallet as any;
+      const previousClient = privateWallet.rpcClient;
+      privateWallet.addressSet.add(validKaspaAddress);
+
+      await expect(
+        privateWallet.endpointPool.execute(() => Promise.reject(new Error('fetch failed')), { retry: false })
+      ).rejects.toThrow('fetch failed');
+
+      expect(privateWallet.rpcClient).not.toBe(previousClient);
+      expect(previousClient.unsubscribeUtxosChanged).toHaveBeenCalledWith([validKaspaAddress]);
+      expect(privateWallet.rpcClient.subscribeUtxosChanged).toHaveBeenCalledWith([validKaspaAddress]);
+      expect(wallet.getEndpointHealth().find((endpoint) => endpoint.active)?.url).toBe('https://api-2.kaspa.org');
+    });
   });
 
   describe('Transaction Creation Patterns', () => {
@@ -166,6 +207,104 @@ describe('KaspaChainWallet Advanced Features', () => {
     });
   });
 
+  describe('Build, Sign and Broadcast', () => {
+    beforeEach(() => {
+      wallet = new KaspaChainWallet(Kaspa, testMnemonic, { logger: mockLogger });
+    });
+
+    test('should sign a native transfer without submitting it', async () => {
+      const unsigned = await wallet.buildTransfer({
+        recipientAddress: createAddress(validKaspaAddress, CHAIN),
+        amount: new BigNumber('1'),
+        token: { assetType: ChainAssetType.Native },
+        payload: 'test payload'
+      });
+
+      expect(unsigned.data.amount).toBe('1');
+      expect(unsigned.data.payload).toBe('test payload');
+
+      const signed = await wallet.signTransaction(unsigned);
+      const rpcClient = (wallet as any).rpcClient;
+
+      expect(signed.txHash).toMatch(/^[a-f0-9]{64}$/);
+      expect(signed.data.transactions.length).toBeGreaterThan(0);
+      expect(rpcClient.submitTransaction).not.toHaveBeenCalled();
+
+      const txHash = await wallet.broadcastTransaction(signed);
+
+      expect(txHash).toBe(signed.txHash);
+      expect(rpcClient.submitTransaction).toHaveBeenCalledTimes(signed.data.transactions.length);
+    });
+
+    test('should sign the transactions of a native transfer from the UTXOs they were built with', async () => {
+      const { Generator } = await import('@kcoin/kaspa-web3.js');
+      const rpcClient = (wallet as any).rpcClient;
+      const unsigned = await wallet.buildTransfer({
+        recipientAddress: createAddress(validKaspaAddress, CHAIN),
+        amount: new BigNumber('1'),
+        token: { assetType: ChainAssetType.Native }
+      });
+      expect(unsigned.data.transactions).toHaveLength(1);
+
+      // A UTXO received after building must not be spent by the signed transactions
+      const { entries } = await rpcClient.getUtxosByAddresses([validKaspaAddress]);
+      const received = { ...entries[0], outpoint: { transactionId: 'f'.repeat(64), index: 1 } };
+      rpcClient.getUtxosByAddresses.mockResolvedValueOnce({ entries: [...entries, received] });
+
+      const signed = await wallet.signTransaction(unsigned);
+
+      const settings = vi.mocked(Generator).mock.calls.at(-1)![0] as any;
+      expect(settings.utxos).toEqual(entries);
+      expect(signed.txHash).toBe(unsigned.data.txId);
+    });
+
+    test('should refuse to sign a native transfer whose UTXOs changed since it was built', async () => {
+      const { Generator } = await import('@kcoin/kaspa-web3.js');
+      const unsigned = await wallet.buildTransfer({
+        recipientAddress: createAddress(validKaspaAddress, CHAIN),
+        amount: new BigNumber('1'),
+        token: { assetType: ChainAssetType.Native }
+      });
+      const staleGenerator = {
+        generateTransaction: vi.fn().mockReturnValue(undefined),
+        summary: vi.fn().mockReturnValue({ finalTransactionId: 'e'.repeat(64) })
+      };
+      vi.mocked(Generator).mockImplementationOnce(() => staleGenerator as any);
+
+      await expect(wallet.signTransaction(unsigned)).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.TRANSACTION_SIGNING_FAILED
+      });
+    });
+
+    test('should send native batch transfers as one transfer with an output per recipient', async () => {
+      const { Generator } = await import('@kcoin/kaspa-web3.js');
+      const native = { assetType: ChainAssetType.Native };
+
+      const txHashes = await wallet.batchTransfer([
+        { recipientAddress: createAddress(validKaspaAddress, CHAIN), amount: new BigNumber('1'), token: native },
+        { recipientAddress: createAddress(validKaspaAddress, CHAIN), amount: new BigNumber('2'), token: native }
+      ]);
+
+      const settings = vi.mocked(Generator).mock.calls.at(-1)![0] as any;
+      expect(settings.outputs.map((output: any) => output.amount)).toEqual([1n, 2n]);
+      expect(txHashes).toHaveLength(2);
+      expect(txHashes[0]).toMatch(/^[a-f0-9]{64}$/);
+      expect(txHashes[1]).toBe(txHashes[0]);
+    });
+
+    test('should reject building KRC20 transfers', async () => {
+      await expect(
+        wallet.buildTransfer({
+          recipientAddress: createAddress(validKaspaAddress, CHAIN),
+          amount: new BigNumber('1'),
+          token: { assetType: ChainAssetType.KRC20, tokenAddress: 'KASPLEX' }
+        })
+      ).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED
+      });
+    });
+  });
+
   describe('Network Error Handling', () => {
     beforeEach(() => {
       wallet = new KaspaChainWallet(Kaspa, testMnemonic, { logger: mockLogger });
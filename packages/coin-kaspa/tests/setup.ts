@@ -227,10 +227,15 @@ vi.mock('@kcoin/kaspa-web3.js', async () => {
     },
     sign: vi.fn().mockReturnThis(),
     toSubmittableJsonTx: vi.fn().mockReturnValue({
-      transaction: {
-        inputs: [],
-        outputs: []
-      }
+      inputs: [
+        {
+          previousOutpoint: {
+            transactionId: 'abc1234567890abcdef1234567890abcdef1234567890abcdef1234567890abc',
+            index: 0
+          }
+        }
+      ],
+      outputs: []
     })
   });
 
@@ -100,6 +100,33 @@ describe('KaspaChainWallet', () => {
 
       wallet2.destroy();
     });
+
+    test('should derive further accounts by address index', async () => {
+      const accounts = await wallet.getAccounts({ count: 2 });
+      const account = await wallet.getAccount();
+
+      expect(accounts[0].address).toBe(account.address);
+      expect(accounts[1].address).not.toBe(account.address);
+
+      const wallet2 = new KaspaChainWallet(Kaspa, testMnemonic, { accountIndex: 1 });
+      expect((await wallet2.getAccount()).address).toBe(accounts[1].address);
+
+      wallet2.destroy();
+    });
+  });
+
+  describe('Watch-only Wallets', () => {
+    test('should report the watched account but refuse to sign', async () => {
+      wallet = new KaspaChainWallet(Kaspa, { address: validKaspaAddress });
+
+      const account = await wallet.getAccount();
+
+      expect(account.address).toBe(validKaspaAddress);
+      expect(account.publicKeyHex).toBe('');
+      await expect(wallet.signMessage({ message: 'Hello, Kaspa!' })).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.WATCH_ONLY_WALLET
+      });
+    });
   });
 
   describe('Address Validation', () => {
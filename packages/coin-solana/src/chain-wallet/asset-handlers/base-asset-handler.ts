@@ -1,13 +1,30 @@
 import BigNumber from 'bignumber.js';
-import { ILogger, BalanceQueryParams, TransferParams } from '@delandlabs/coin-base';
+import {
+  ILogger,
+  BalanceQueryParams,
+  TransferParams,
+  TransactionHistoryParams,
+  TransactionHistoryPage
+} from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
-import { ConnectionManager } from '../shared';
+import {
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  VersionedMessage
+} from '@solana/web3.js';
+import { base } from '@delandlabs/crypto-lib';
+import { MEMO_PROGRAM_ID } from '../config';
+import { ConnectionManager, type ExtendedTransferParams } from '../shared';
+import { ParsedHistoryTransaction } from '../types';
 
 /**
  * Abstract base class for asset handlers in Solana chain wallet.
  *
  * Each asset type (Native SOL, SPL tokens, etc.) should extend this class
- * to provide specific implementation for balance queries, transfers, and fee estimation.
+ * to provide specific implementation for balance queries, transfer building, and fee estimation.
  *
  * This follows the Strategy pattern to separate concerns and make the codebase
  * more maintainable and extensible.
@@ -26,11 +43,12 @@ export abstract class BaseAssetHandler {
   abstract balanceOf(params: BalanceQueryParams): Promise<BigNumber>;
 
   /**
-   * Execute transfer for the specified asset
+   * Build the transfer instructions for the specified asset
+   * The wallet compiles them into a legacy or version 0 transaction, as the transfer requests.
    * @param params - Transfer parameters including recipient, amount, and token info
-   * @returns Promise resolving to the transaction signature
+   * @returns Promise resolving to an unsigned transaction without fee payer or blockhash
    */
-  abstract transfer(params: TransferParams): Promise<string>;
+  abstract buildTransfer(params: TransferParams): Promise<Transaction>;
 
   /**
    * Estimate transaction fee for the specified asset
@@ -39,6 +57,13 @@ export abstract class BaseAssetHandler {
    */
   abstract estimateFee(params: TransferParams): Promise<BigNumber>;
 
+  /**
+   * List transfers of the asset to and from an address, newest first
+   * @param params - History query parameters with the page size already resolved
+   * @returns Promise resolving to one page of transaction records
+   */
+  abstract getTransactionHistory(params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage>;
+
   /**
    * Get the asset type this handler supports
    * @returns The ChainAssetType this handler is responsible for
@@ -57,4 +82,91 @@ export abstract class BaseAssetHandler {
    * @returns Promise resolving to the number of decimals
    */
   abstract getDecimals(tokenAddress?: string): Promise<number>;
+
+  /**
+   * Fetch one page of parsed transactions that touched an account, newest first
+   * @param account - Account whose signatures are listed
+   * @param cursor - Signature to continue before, as returned in nextCursor
+   * @param limit - Maximum number of transactions
+   * @returns Parsed transactions with the cursor of the next page
+   */
+  protected async getParsedTransactionPage(
+    account: PublicKey,
+    cursor: string | undefined,
+    limit: number
+  ): Promise<{ transactions: ParsedHistoryTransaction[]; nextCursor?: string }> {
+    const connection = this.connectionManager.getConnection();
+    const signatures = await connection.getSignaturesForAddress(account, { before: cursor, limit });
+    const signatureIds = signatures.map((info) => info.signature);
+    const parsed = await connection.getParsedTransactions(signatureIds, { maxSupportedTransactionVersion: 0 });
+
+    // Transactions the node no longer stores are skipped
+    const transactions: ParsedHistoryTransaction[] = [];
+    signatures.forEach((info, index) => {
+      const transaction = parsed[index];
+      if (transaction) {
+        transactions.push({ signature: info.signature, transaction });
+      }
+    });
+
+    // A short page means the account has no older signatures
+    const nextCursor = signatures.length === limit ? signatures[signatures.length - 1].signature : undefined;
+    return { transactions, nextCursor };
+  }
+
+  /**
+   * Collect the parsed top-level and inner instructions of a transaction for one program
+   * @param transaction - Parsed transaction
+   * @param program - Parsed program name, e.g. "system" or "spl-token"
+   * @returns Parsed instructions of the program in execution order
+   */
+  protected getParsedInstructions(transaction: ParsedTransactionWithMeta, program: string): ParsedInstruction[] {
+    const inner = (transaction.meta?.innerInstructions ?? []).flatMap((group) => group.instructions);
+    return [...transaction.transaction.message.instructions, ...inner].filter(
+      (instruction): instruction is ParsedInstruction => 'parsed' in instruction && instruction.program === program
+    );
+  }
+
+  /**
+   * Compile the message a fee is quoted for, in the transaction version the transfer requests
+   * Version 0 messages are compiled against the transfer's address lookup tables with a recent blockhash.
+   * @param transaction - Transaction holding the instructions
+   * @param params - Transfer parameters selecting the transaction version
+   * @returns The message to pass to getFeeForMessage
+   */
+  protected async compileFeeMessage(transaction: Transaction, params: TransferParams): Promise<VersionedMessage> {
+    const { transactionVersion, addressLookupTables } = params as ExtendedTransferParams;
+    if (transactionVersion !== 0) {
+      return transaction.compileMessage();
+    }
+
+    const prepared = await this.connectionManager.prepareVersionedTransaction(transaction, addressLookupTables);
+    return prepared.transaction.message;
+  }
+
+  /**
+   * Append a memo program instruction carrying the memo as UTF-8 text
+   * The instruction lists no accounts, so it needs no signature besides the fee payer's.
+   * @param transaction - Transaction to append to, after its transfer instructions
+   * @param memo - Memo text; its size is validated at wallet level
+   */
+  protected addMemoInstruction(transaction: Transaction, memo: string): void {
+    transaction.add(
+      new TransactionInstruction({
+        keys: [],
+        programId: new PublicKey(MEMO_PROGRAM_ID),
+        data: Buffer.from(base.toUtf8(memo))
+      })
+    );
+  }
+
+  /**
+   * Read the memo of a parsed transaction
+   * @param transaction - Parsed transaction
+   * @returns Text of the first memo instruction, or undefined when the transaction has none
+   */
+  protected getMemo(transaction: ParsedTransactionWithMeta): string | undefined {
+    const [memo] = this.getParsedInstructions(transaction, 'spl-memo');
+    return memo ? String(memo.parsed) : undefined;
+  }
 }
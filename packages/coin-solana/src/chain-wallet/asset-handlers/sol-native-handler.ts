@@ -1,10 +1,18 @@
 import BigNumber from 'bignumber.js';
-import { PublicKey, Transaction, SystemProgram, TransactionInstruction, ComputeBudgetProgram } from '@solana/web3.js';
-import { BalanceQueryParams, TransferParams, FeeEstimationError, HibitIdSdkErrorCode } from '@delandlabs/coin-base';
+import { PublicKey, Transaction, SystemProgram, ComputeBudgetProgram } from '@solana/web3.js';
+import {
+  BalanceQueryParams,
+  TransferParams,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  TransactionRecord,
+  FeeEstimationError,
+  HibitIdSdkErrorCode,
+  getTransactionDirection
+} from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
-import { base } from '@delandlabs/crypto-lib';
 import { BaseAssetHandler } from './base-asset-handler';
-import { CHAIN_NAME, MEMO_PROGRAM_ID, SolanaRetry } from '../config';
+import { CHAIN_NAME, SolanaRetry } from '../config';
 import { ExtendedTransferParams } from '../shared/connection-manager';
 
 /**
@@ -32,15 +40,15 @@ export class SolNativeHandler extends BaseAssetHandler {
   }
 
   /**
-   * Transfer native SOL
+   * Build a native SOL transfer
    * Note: Amount is expected in lamports (smallest unit)
    */
-  async transfer(params: TransferParams): Promise<string> {
+  async buildTransfer(params: TransferParams): Promise<Transaction> {
     const { recipientAddress, amount, payload } = params;
     const extendedParams = params as ExtendedTransferParams;
 
     const wallet = this.connectionManager.getWallet();
-    const fromPublicKey = wallet.keypair.publicKey;
+    const fromPublicKey = wallet.publicKey;
     const toPublicKey = new PublicKey(recipientAddress);
 
     // Amount is already in lamports
@@ -67,15 +75,10 @@ export class SolNativeHandler extends BaseAssetHandler {
 
     // Add memo if payload is provided
     if (payload) {
-      this.addMemoToTransaction(transaction, payload);
+      this.addMemoInstruction(transaction, payload);
     }
 
-    // Simulate transaction if requested
-    if (extendedParams.simulateBeforeSend) {
-      await this.connectionManager.simulateTransaction(transaction);
-    }
-
-    return await this.connectionManager.sendAndConfirmTransaction(transaction);
+    return transaction;
   }
 
   /**
@@ -99,16 +102,16 @@ export class SolNativeHandler extends BaseAssetHandler {
       );
     }
 
-    // Add a dummy transfer instruction
+    // Add a dummy transfer instruction from the wallet, which pays the fee and signs alone
     dummyTransaction.add(
       SystemProgram.transfer({
-        fromPubkey: PublicKey.default,
+        fromPubkey: this.connectionManager.getWallet().publicKey,
         toPubkey: PublicKey.default,
         lamports: 1
       })
     );
 
-    const message = dummyTransaction.compileMessage();
+    const message = await this.compileFeeMessage(dummyTransaction, params);
     const fee = await connection.getFeeForMessage(message);
 
     if (fee.value === null) {
@@ -122,6 +125,50 @@ export class SolNativeHandler extends BaseAssetHandler {
     return new BigNumber(fee.value);
   }
 
+  /**
+   * List native SOL transfers of an address, newest first
+   * Transactions without a system transfer from or to the address are skipped,
+   * so a page may hold fewer records than the limit. Memos are read from the memo program instruction.
+   */
+  @SolanaRetry({})
+  async getTransactionHistory(params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage> {
+    const { address, token, cursor, limit } = params;
+    const { transactions, nextCursor } = await this.getParsedTransactionPage(new PublicKey(address), cursor, limit);
+
+    const records: TransactionRecord[] = [];
+    for (const { signature, transaction } of transactions) {
+      const transfers = this.getParsedInstructions(transaction, 'system').filter(
+        ({ parsed }) =>
+          (parsed.type === 'transfer' || parsed.type === 'transferWithSeed') &&
+          (parsed.info.source === address || parsed.info.destination === address)
+      );
+      if (transfers.length === 0) {
+        continue;
+      }
+
+      // Report the first transfer, merged with repeated transfers between the same accounts
+      const { source, destination } = transfers[0].parsed.info;
+      const amount = transfers
+        .filter(({ parsed }) => parsed.info.source === source && parsed.info.destination === destination)
+        .reduce((total, { parsed }) => total.plus(parsed.info.lamports), new BigNumber(0));
+      const direction = getTransactionDirection(address, source, destination);
+
+      records.push({
+        hash: signature,
+        direction,
+        counterparty: direction === 'incoming' ? source : destination,
+        amount,
+        token,
+        fee: new BigNumber(transaction.meta?.fee ?? 0),
+        status: transaction.meta?.err ? 'failed' : 'confirmed',
+        timestamp: transaction.blockTime ? transaction.blockTime * 1000 : undefined,
+        memo: this.getMemo(transaction)
+      });
+    }
+
+    return { records, nextCursor };
+  }
+
   /**
    * Get the asset type this handler supports
    */
@@ -143,19 +190,4 @@ export class SolNativeHandler extends BaseAssetHandler {
   async getDecimals(): Promise<number> {
     return 9;
   }
-
-  /**
-   * Add memo instruction to transaction
-   * @private
-   */
-  private addMemoToTransaction(transaction: Transaction, memo: string): void {
-    const memoProgramId = new PublicKey(MEMO_PROGRAM_ID);
-    const memoData = Buffer.from(base.toUtf8(memo));
-    const instruction = new TransactionInstruction({
-      keys: [],
-      programId: memoProgramId,
-      data: memoData
-    });
-    transaction.add(instruction);
-  }
 }
@@ -1,5 +1,5 @@
 import BigNumber from 'bignumber.js';
-import { PublicKey, Transaction, ComputeBudgetProgram } from '@solana/web3.js';
+import { PublicKey, Transaction, ComputeBudgetProgram, ParsedTransactionWithMeta } from '@solana/web3.js';
 import {
   getAccount,
   getAssociatedTokenAddress,
@@ -11,10 +11,14 @@ import {
 import {
   BalanceQueryParams,
   TransferParams,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  TransactionRecord,
   FeeEstimationError,
   HibitIdSdkErrorCode,
   Cacheable,
-  Memoize
+  Memoize,
+  getTransactionDirection
 } from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
 import { BaseAssetHandler } from './base-asset-handler';
@@ -26,7 +30,7 @@ import { ExtendedTransferParams } from '../shared/connection-manager';
  *
  * This handler manages operations specific to SPL tokens including:
  * - Balance queries with decimal handling
- * - Token transfers with automatic account creation
+ * - Token transfers with automatic account creation and memo support
  * - Fee estimation with account creation costs
  * - Token contract interaction
  */
@@ -68,16 +72,16 @@ export class SplTokenHandler extends BaseAssetHandler {
   }
 
   /**
-   * Transfer SPL tokens
+   * Build an SPL token transfer
    * Note: Amount is expected in smallest unit
    * Note: Address and token validation is handled at wallet level
    */
-  async transfer(params: TransferParams): Promise<string> {
+  async buildTransfer(params: TransferParams): Promise<Transaction> {
     const { recipientAddress, amount, token, payload } = params;
     const extendedParams = params as ExtendedTransferParams;
 
     const wallet = this.connectionManager.getWallet();
-    const fromPublicKey = wallet.keypair.publicKey;
+    const fromPublicKey = wallet.publicKey;
     const toPublicKey = new PublicKey(recipientAddress);
     const mintPublicKey = new PublicKey(token.tokenAddress!);
 
@@ -108,21 +112,12 @@ export class SplTokenHandler extends BaseAssetHandler {
       createTransferInstruction(fromTokenAccount, toTokenAccount, fromPublicKey, BigInt(tokenAmount.toString()))
     );
 
-    // Add memo if payload is provided (handled by connection manager)
+    // Add memo if payload is provided
     if (payload) {
-      // Memo handling would be implemented in a shared utility
-      this.logger.debug('Memo support for SPL tokens', {
-        context: 'SplTokenHandler.transfer',
-        data: { payload }
-      });
-    }
-
-    // Simulate transaction if requested
-    if (extendedParams.simulateBeforeSend) {
-      await this.connectionManager.simulateTransaction(transaction);
+      this.addMemoInstruction(transaction, payload);
     }
 
-    return await this.connectionManager.sendAndConfirmTransaction(transaction);
+    return transaction;
   }
 
   /**
@@ -161,7 +156,7 @@ export class SplTokenHandler extends BaseAssetHandler {
       );
     }
 
-    const message = dummyTransaction.compileMessage();
+    const message = await this.compileFeeMessage(dummyTransaction, params);
     const fee = await connection.getFeeForMessage(message);
 
     if (fee.value === null) {
@@ -182,6 +177,51 @@ export class SplTokenHandler extends BaseAssetHandler {
     return totalFee;
   }
 
+  /**
+   * List SPL token transfers of an address, newest first
+   * Reads the history of the address's associated token account; counterparties are reported
+   * as wallet owners where the transaction's token balances reveal them.
+   * Note: Address and token validation is handled at wallet level
+   */
+  @SolanaRetry({})
+  async getTransactionHistory(params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage> {
+    const { address, token, cursor, limit } = params;
+    const mintPublicKey = new PublicKey(token.tokenAddress!);
+    const tokenAccountPublicKey = await getAssociatedTokenAddress(mintPublicKey, new PublicKey(address));
+    const tokenAccount = tokenAccountPublicKey.toBase58();
+    const { transactions, nextCursor } = await this.getParsedTransactionPage(tokenAccountPublicKey, cursor, limit);
+
+    const records: TransactionRecord[] = [];
+    for (const { signature, transaction } of transactions) {
+      const transfer = this.getParsedInstructions(transaction, 'spl-token').find(
+        ({ parsed }) =>
+          (parsed.type === 'transfer' || parsed.type === 'transferChecked') &&
+          (parsed.info.source === tokenAccount || parsed.info.destination === tokenAccount)
+      );
+      if (!transfer) {
+        continue;
+      }
+
+      const { source, destination, amount, tokenAmount } = transfer.parsed.info;
+      const direction = getTransactionDirection(tokenAccount, source, destination);
+      const counterpartyAccount = direction === 'incoming' ? source : destination;
+
+      records.push({
+        hash: signature,
+        direction,
+        counterparty: this.getTokenAccountOwner(transaction, counterpartyAccount) ?? counterpartyAccount,
+        amount: new BigNumber(amount ?? tokenAmount.amount),
+        token,
+        fee: new BigNumber(transaction.meta?.fee ?? 0),
+        status: transaction.meta?.err ? 'failed' : 'confirmed',
+        timestamp: transaction.blockTime ? transaction.blockTime * 1000 : undefined,
+        memo: this.getMemo(transaction)
+      });
+    }
+
+    return { records, nextCursor };
+  }
+
   /**
    * Get the asset type this handler supports
    */
@@ -246,6 +286,16 @@ export class SplTokenHandler extends BaseAssetHandler {
     return await connection.getMinimumBalanceForRentExemption(TOKEN_ACCOUNT_SIZE);
   }
 
+  /**
+   * Look up the owner of a token account in a transaction's token balances
+   * @returns The owner address, or undefined when the transaction does not record it
+   */
+  private getTokenAccountOwner(transaction: ParsedTransactionWithMeta, tokenAccount: string): string | undefined {
+    const accountKeys = transaction.transaction.message.accountKeys;
+    const balances = [...(transaction.meta?.preTokenBalances ?? []), ...(transaction.meta?.postTokenBalances ?? [])];
+    return balances.find((balance) => accountKeys[balance.accountIndex]?.pubkey.toBase58() === tokenAccount)?.owner;
+  }
+
   /**
    * Ensure token account exists for recipient
    */
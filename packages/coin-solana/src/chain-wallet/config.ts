@@ -20,6 +20,14 @@ export const CHAIN = ChainType.Solana;
 /** BIP44 derivation path for Solana wallets */
 export const DERIVING_PATH = "m/44'/501'/0'/0'";
 
+/**
+ * BIP44 derivation path of the account at the given index
+ * Accounts differ in the account level, matching Phantom and Solflare
+ */
+export function getDerivingPath(accountIndex: number): string {
+  return `m/44'/501'/${accountIndex}'/0'`;
+}
+
 /** Default commitment level for Solana transactions */
 export const DEFAULT_COMMITMENT: Commitment = 'confirmed';
 
@@ -57,6 +65,12 @@ export const TOKEN_ACCOUNT_SIZE = 165;
 /** Program ID for the Memo program to add memos to transactions */
 export const MEMO_PROGRAM_ID = 'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr';
 
+/** Maximum memo size in UTF-8 bytes (what fits beside a single transfer in the 1232-byte packet limit) */
+export const MAX_MEMO_BYTES = 566;
+
+/** Maximum number of native SOL transfers combined into one transaction (keeps it under the 1232-byte packet limit) */
+export const MAX_BATCH_TRANSFERS = 8;
+
 // ============================================================
 // Cache Configuration
 // ============================================================
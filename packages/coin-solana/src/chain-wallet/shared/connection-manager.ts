@@ -1,12 +1,24 @@
 import {
+  AddressLookupTableAccount,
   Connection,
-  Keypair,
+  PublicKey,
   Transaction,
-  sendAndConfirmTransaction,
+  TransactionMessage,
+  TransactionVersion,
+  VersionedTransaction,
+  sendAndConfirmRawTransaction,
   Commitment,
   SignatureStatus
 } from '@solana/web3.js';
-import { ChainInfo, NetworkError, TransactionError, HibitIdSdkErrorCode, ILogger } from '@delandlabs/coin-base';
+import {
+  ArgumentError,
+  ChainInfo,
+  EndpointPool,
+  NetworkError,
+  TransactionError,
+  HibitIdSdkErrorCode,
+  ILogger
+} from '@delandlabs/coin-base';
 import { CHAIN_NAME, DEFAULT_COMMITMENT } from '../config';
 import { WebSocketManager, SignatureStatusCallback, WebSocketConfig } from './websocket-manager';
 
@@ -14,7 +26,7 @@ import { WebSocketManager, SignatureStatusCallback, WebSocketConfig } from './we
  * Wallet information interface
  */
 export interface SolanaWalletInfo {
-  keypair: Keypair;
+  publicKey: PublicKey;
   address: string;
 }
 
@@ -24,6 +36,8 @@ export interface SolanaWalletInfo {
 export interface ExtendedTransferParams {
   priorityFee?: number; // in microLamports
   simulateBeforeSend?: boolean;
+  transactionVersion?: TransactionVersion; // 'legacy' (default) or 0
+  addressLookupTables?: string[]; // addresses of lookup tables, version 0 only
 }
 
 /**
@@ -42,11 +56,13 @@ export class ConnectionManager {
   private readonly chainInfo: ChainInfo;
   private readonly logger: ILogger;
   private readonly webSocketConfig: WebSocketConfig;
+  private readonly endpointPool?: EndpointPool;
 
-  constructor(chainInfo: ChainInfo, logger: ILogger, webSocketConfig?: WebSocketConfig) {
+  constructor(chainInfo: ChainInfo, logger: ILogger, webSocketConfig?: WebSocketConfig, endpointPool?: EndpointPool) {
     this.chainInfo = chainInfo;
     this.logger = logger;
     this.webSocketConfig = webSocketConfig || {};
+    this.endpointPool = endpointPool;
   }
 
   // ============================================================
@@ -66,9 +82,7 @@ export class ConnectionManager {
       this.walletInfo = walletInfo;
 
       // Initialize WebSocket manager if enabled
-      if (this.webSocketConfig.enableAutoReconnect !== false) {
-        this.webSocketManager = new WebSocketManager(this.connection, this.logger, this.webSocketConfig);
-      }
+      this.webSocketManager = this.createWebSocketManager(this.connection);
 
       this.logger.debug('Connection manager initialized', {
         context: 'ConnectionManager.initialize',
@@ -87,6 +101,33 @@ export class ConnectionManager {
     }
   }
 
+  /**
+   * Replace the connection with one to another RPC endpoint
+   * Signature subscriptions of the previous connection are closed; waits fall back to polling.
+   * Does nothing before initialize, which connects to the endpoint pool's current endpoint.
+   */
+  switchEndpoint(rpcUrl: string): void {
+    if (!this.connection) {
+      return;
+    }
+
+    const previousWebSocketManager = this.webSocketManager;
+    this.connection = new Connection(rpcUrl, DEFAULT_COMMITMENT);
+    this.webSocketManager = this.createWebSocketManager(this.connection);
+
+    previousWebSocketManager?.cleanup().catch((error) => {
+      this.logger.debug('Failed to clean up previous WebSocket manager', {
+        context: 'ConnectionManager.switchEndpoint',
+        data: { error: error instanceof Error ? error.message : String(error) }
+      });
+    });
+
+    this.logger.debug('Connection switched to new endpoint', {
+      context: 'ConnectionManager.switchEndpoint',
+      data: { rpcUrl }
+    });
+  }
+
   /**
    * Get the Solana connection instance
    */
@@ -108,33 +149,102 @@ export class ConnectionManager {
   }
 
   /**
-   * Send and confirm a transaction
+   * Prepare a transaction for signing by setting the fee payer and a recent blockhash
+   * @returns The last block height at which the blockhash is still valid
    */
-  async sendAndConfirmTransaction(
+  async prepareTransaction(transaction: Transaction): Promise<number> {
+    const wallet = this.getWallet();
+    const { blockhash, lastValidBlockHeight } = await this.getLatestBlockhash();
+
+    transaction.feePayer = wallet.publicKey;
+    transaction.recentBlockhash = blockhash;
+    transaction.lastValidBlockHeight = lastValidBlockHeight;
+    return lastValidBlockHeight;
+  }
+
+  /**
+   * Compile the instructions of a transaction into a version 0 transaction ready for signing
+   * Accounts held by the lookup tables are referenced by index, so the transaction may use
+   * more accounts than a legacy transaction fits.
+   * @param transaction - Transaction holding the instructions
+   * @param addressLookupTables - Addresses of the address lookup tables to compile against
+   * @returns The unsigned transaction and the last block height at which its blockhash is still valid
+   */
+  async prepareVersionedTransaction(
     transaction: Transaction,
-    signers?: Keypair[],
-    options?: {
-      commitment?: Commitment;
-      preflightCommitment?: Commitment;
-    }
-  ): Promise<string> {
-    const connection = this.getConnection();
+    addressLookupTables: string[] = []
+  ): Promise<{ transaction: VersionedTransaction; lastValidBlockHeight: number }> {
     const wallet = this.getWallet();
+    const lookupTableAccounts = await this.getAddressLookupTables(addressLookupTables);
+    const { blockhash, lastValidBlockHeight } = await this.getLatestBlockhash();
+
+    const message = new TransactionMessage({
+      payerKey: wallet.publicKey,
+      recentBlockhash: blockhash,
+      instructions: transaction.instructions
+    }).compileToV0Message(lookupTableAccounts);
+    return { transaction: new VersionedTransaction(message), lastValidBlockHeight };
+  }
+
+  /**
+   * Fetch address lookup tables
+   * @param addresses - Addresses of the lookup tables
+   * @returns The lookup tables, in order
+   * @throws {ArgumentError} When a lookup table does not exist
+   */
+  async getAddressLookupTables(addresses: string[]): Promise<AddressLookupTableAccount[]> {
+    const connection = this.getConnection();
+
+    return Promise.all(
+      addresses.map(async (address) => {
+        let lookupTable: AddressLookupTableAccount | null;
+        try {
+          lookupTable = (await connection.getAddressLookupTable(new PublicKey(address))).value;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          throw new NetworkError(
+            HibitIdSdkErrorCode.NETWORK_UNAVAILABLE,
+            `${CHAIN_NAME}: Failed to get address lookup table ${address}: ${errorMessage}`
+          );
+        }
 
-    const allSigners = signers ? [wallet.keypair, ...signers] : [wallet.keypair];
+        if (!lookupTable) {
+          throw new ArgumentError(
+            HibitIdSdkErrorCode.INVALID_ARGUMENT,
+            `${CHAIN_NAME}: Address lookup table ${address} not found`,
+            { argumentName: 'addressLookupTables', providedValue: address }
+          );
+        }
+        return lookupTable;
+      })
+    );
+  }
+
+  /**
+   * Send and confirm an already signed, serialized transaction
+   */
+  async sendAndConfirmRawTransaction(
+    rawTransaction: Buffer,
+    blockhash: string,
+    lastValidBlockHeight: number,
+    signature: string
+  ): Promise<string> {
+    const connection = this.getConnection();
 
     try {
-      const signature = await sendAndConfirmTransaction(connection, transaction, allSigners, {
-        commitment: options?.commitment || DEFAULT_COMMITMENT,
-        preflightCommitment: options?.preflightCommitment || DEFAULT_COMMITMENT
-      });
+      const confirmedSignature = await sendAndConfirmRawTransaction(
+        connection,
+        rawTransaction,
+        { signature, blockhash, lastValidBlockHeight },
+        { commitment: DEFAULT_COMMITMENT, preflightCommitment: DEFAULT_COMMITMENT }
+      );
 
-      this.logger.debug('Transaction confirmed', {
-        context: 'ConnectionManager.sendAndConfirmTransaction',
-        data: { signature }
+      this.logger.debug('Raw transaction confirmed', {
+        context: 'ConnectionManager.sendAndConfirmRawTransaction',
+        data: { signature: confirmedSignature }
       });
 
-      return signature;
+      return confirmedSignature;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new TransactionError(
@@ -145,21 +255,35 @@ export class ConnectionManager {
   }
 
   /**
-   * Simulate a transaction
+   * Simulate a legacy or version 0 transaction
    */
-  async simulateTransaction(transaction: Transaction): Promise<void> {
+  async simulateTransaction(transaction: Transaction | VersionedTransaction): Promise<void> {
+    const failureReason = await this.getSimulationFailure(transaction);
+
+    if (failureReason) {
+      throw new TransactionError(
+        HibitIdSdkErrorCode.TRANSACTION_SIGNING_FAILED,
+        `${CHAIN_NAME}: Transaction simulation failed - ${failureReason}`
+      );
+    }
+  }
+
+  /**
+   * Simulate a transaction and report why it would fail
+   * @returns The parsed failure reason, or undefined if the simulation succeeds
+   */
+  async getSimulationFailure(transaction: Transaction | VersionedTransaction): Promise<string | undefined> {
     const connection = this.getConnection();
-    const wallet = this.getWallet();
 
     try {
-      const simulation = await connection.simulateTransaction(transaction, [wallet.keypair]);
+      // Simulated without signatures, the node skips signature verification
+      const simulation =
+        transaction instanceof VersionedTransaction
+          ? await connection.simulateTransaction(transaction, { sigVerify: false })
+          : await connection.simulateTransaction(transaction);
 
       if (simulation.value.err) {
-        const errorMessage = this.parseSimulationError(simulation.value.err);
-        throw new TransactionError(
-          HibitIdSdkErrorCode.TRANSACTION_SIGNING_FAILED,
-          `${CHAIN_NAME}: Transaction simulation failed - ${errorMessage}`
-        );
+        return this.parseSimulationError(simulation.value.err);
       }
 
       if (simulation.value.logs) {
@@ -170,10 +294,9 @@ export class ConnectionManager {
           }
         });
       }
+
+      return undefined;
     } catch (error) {
-      if (error instanceof TransactionError) {
-        throw error;
-      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new TransactionError(
         HibitIdSdkErrorCode.TRANSACTION_SIGNING_FAILED,
@@ -339,9 +462,40 @@ export class ConnectionManager {
   // ============================================================
 
   /**
-   * Get the RPC URL from chain configuration
+   * Create a WebSocket manager for a connection unless WebSocket support is disabled
+   */
+  private createWebSocketManager(connection: Connection): WebSocketManager | null {
+    if (this.webSocketConfig.enableAutoReconnect === false) {
+      return null;
+    }
+    return new WebSocketManager(connection, this.logger, this.webSocketConfig);
+  }
+
+  /**
+   * Get a recent blockhash with the last block height at which it is still valid
+   */
+  private async getLatestBlockhash(): Promise<{ blockhash: string; lastValidBlockHeight: number }> {
+    const connection = this.getConnection();
+
+    try {
+      return await connection.getLatestBlockhash(DEFAULT_COMMITMENT);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new NetworkError(
+        HibitIdSdkErrorCode.NETWORK_UNAVAILABLE,
+        `${CHAIN_NAME}: Failed to get latest blockhash: ${errorMessage}`
+      );
+    }
+  }
+
+  /**
+   * Get the RPC URL from the endpoint pool, or from chain configuration without one
    */
   private getRpcUrl(): string {
+    if (this.endpointPool?.hasEndpoints()) {
+      return this.endpointPool.getCurrentUrl();
+    }
+
     // Use RPC URL from chainInfo
     if (this.chainInfo.rpc && this.chainInfo.rpc.primary) {
       return this.chainInfo.rpc.primary;
@@ -0,0 +1,33 @@
+import type { ParsedTransactionWithMeta, TransactionVersion } from '@solana/web3.js';
+
+/**
+ * Chain-specific data of an unsigned Solana transaction
+ */
+export interface SolanaUnsignedTransactionData {
+  /** Base64 encoded transaction message with fee payer and recent blockhash set */
+  serializedTransaction: string;
+  /** Last block height at which the recent blockhash is still valid */
+  lastValidBlockHeight: number;
+  /** Transaction version, omitted for legacy transactions */
+  version?: TransactionVersion;
+}
+
+/**
+ * Chain-specific data of a signed Solana transaction
+ */
+export interface SolanaSignedTransactionData {
+  /** Base64 encoded, fully signed transaction ready for broadcast */
+  serializedTransaction: string;
+  /** Last block height at which the recent blockhash is still valid */
+  lastValidBlockHeight: number;
+  /** Transaction version, omitted for legacy transactions */
+  version?: TransactionVersion;
+}
+
+/**
+ * Parsed transaction of an account's history with its signature
+ */
+export interface ParsedHistoryTransaction {
+  signature: string;
+  transaction: ParsedTransactionWithMeta;
+}
@@ -1,12 +1,22 @@
 import BigNumber from 'bignumber.js';
-import { Keypair, Commitment } from '@solana/web3.js';
-import * as nacl from 'tweetnacl';
+import {
+  Connection,
+  PublicKey,
+  Commitment,
+  Transaction,
+  VersionedTransaction,
+  ComputeBudgetProgram,
+  PACKET_DATA_SIZE
+} from '@solana/web3.js';
 import { ChainAccount, ChainAssetType, ChainId } from '@delandlabs/hibit-basic-types';
 import {
   BaseChainWallet,
   WalletConfig,
+  DerivationOptions,
   ChainInfo,
-  MnemonicError,
+  ISigner,
+  MnemonicSigner,
+  WatchOnlyAccount,
   NetworkError,
   GeneralWalletError,
   ArgumentError,
@@ -14,12 +24,21 @@ import {
   SignMessageParams,
   BalanceQueryParams,
   TransferParams,
+  UnsignedTransaction,
+  SignedTransaction,
+  TransferSimulationResult,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
   TransactionConfirmationParams,
   TransactionConfirmationResult,
   TokenIdentifier,
   ILogger,
   createReadyPromise,
   cleanupReferences,
+  createUnsignedTransaction,
+  createSignedTransaction,
+  assertTransactionForChain,
+  createFailedTransferSimulation,
   assertValidAddressForBalance,
   assertValidAddressForTransaction,
   assertValidTransferAmount,
@@ -32,22 +51,29 @@ import {
   withLogging,
   withErrorHandling,
   cleanSensitiveData,
-  getAssetTypeName
+  getAssetTypeName,
+  assertValidDerivationPath,
+  chunkItems,
+  ChainValidation
 } from '@delandlabs/coin-base';
-import { deriveEd25519PrivateKey, EncodingFormat, base } from '@delandlabs/crypto-lib';
+import { base } from '@delandlabs/crypto-lib';
 import {
   CHAIN,
-  DERIVING_PATH,
   CHAIN_CONFIG,
+  getDerivingPath,
   ERROR_MESSAGES,
   DEFAULT_CONFIRMATION_TIMEOUT_MS,
   DEFAULT_CONFIRMATION_POLL_INTERVAL_MS,
   MAX_CONFIRMATION_POLL_INTERVAL_MS,
+  MAX_BATCH_TRANSFERS,
+  MAX_MEMO_BYTES,
+  DEFAULT_COMMITMENT,
   ConfirmationStrategyConfig,
   DEFAULT_CONFIRMATION_STRATEGY
 } from './config';
 import { BaseAssetHandler, SolNativeHandler, SplTokenHandler } from './asset-handlers';
-import { ConnectionManager, type SolanaWalletInfo } from './shared';
+import { ConnectionManager, type SolanaWalletInfo, type ExtendedTransferParams } from './shared';
+import { SolanaUnsignedTransactionData, SolanaSignedTransactionData } from './types';
 
 /**
  * Solana blockchain wallet implementation supporting SOL and SPL tokens.
@@ -66,6 +92,7 @@ import { ConnectionManager, type SolanaWalletInfo } from './shared';
 export class SolanaChainWallet extends BaseChainWallet {
   // Private fields
   private walletInfo: SolanaWalletInfo | null = null;
+  private signer: ISigner | null = null;
   private readonly readyPromise: Promise<void>;
   private readonly confirmationStrategy: Required<ConfirmationStrategyConfig>;
 
@@ -75,22 +102,33 @@ export class SolanaChainWallet extends BaseChainWallet {
   // Asset handlers
   private readonly assetHandlers: Map<ChainAssetType, BaseAssetHandler>;
 
+  /**
+   * @param chainInfo - Chain configuration of the Solana cluster
+   * @param mnemonicOrSigner - Mnemonic phrase, an Ed25519 signer holding the wallet key, or an account to watch
+   * @param options - Logger, confirmation strategy and derivation options; derivation options only apply to mnemonics
+   */
   constructor(
     chainInfo: ChainInfo,
-    mnemonic: string,
+    mnemonicOrSigner: string | ISigner | WatchOnlyAccount,
     options?: {
       logger?: ILogger;
       confirmationStrategy?: ConfirmationStrategyConfig;
-    }
+    } & DerivationOptions
   ) {
     if (chainInfo.chainId.chain !== CHAIN) {
       throw new NetworkError(HibitIdSdkErrorCode.INVALID_CONFIGURATION, ERROR_MESSAGES.INVALID_CHAIN);
     }
+    // Ed25519 (SLIP-0010) derivation only supports hardened segments
+    if (options?.derivationPath !== undefined) {
+      assertValidDerivationPath(options.derivationPath, CHAIN_CONFIG.CHAIN_NAME, true);
+    }
     const config: WalletConfig = {
       chainInfo,
-      logger: options?.logger
+      logger: options?.logger,
+      accountIndex: options?.accountIndex,
+      derivationPath: options?.derivationPath
     };
-    super(config, mnemonic);
+    super(config, mnemonicOrSigner);
 
     // Apply confirmation strategy configuration
     this.confirmationStrategy = {
@@ -115,7 +153,8 @@ export class SolanaChainWallet extends BaseChainWallet {
             enableAutoReconnect: true,
             ...this.confirmationStrategy.webSocketConfig
           }
-        : undefined
+        : undefined,
+      this.endpointPool
     );
 
     // Initialize asset handlers map
@@ -123,7 +162,7 @@ export class SolanaChainWallet extends BaseChainWallet {
 
     // Create ready promise
     this.readyPromise = createReadyPromise(async () => {
-      await this.initializeWallet(mnemonic);
+      await this.initializeWallet();
       this.initializeAssetHandlers();
     });
   }
@@ -147,11 +186,27 @@ export class SolanaChainWallet extends BaseChainWallet {
     }
 
     const chainId = new ChainId(this.chainInfo.chainId.chain, this.chainInfo.chainId.network);
-    const publicKeyHex = base.toHex(this.walletInfo.keypair.publicKey.toBytes());
+    const publicKeyHex = base.toHex(this.walletInfo.publicKey.toBytes());
 
     return new ChainAccount(chainId, this.walletInfo.address, publicKeyHex);
   }
 
+  /**
+   * Implementation of account derivation for getAccounts
+   */
+  @cleanSensitiveData()
+  protected async deriveAccountImpl(mnemonic: string, accountIndex: number): Promise<ChainAccount> {
+    const signer = new MnemonicSigner(mnemonic, { keyType: 'ed25519', derivationPath: getDerivingPath(accountIndex) });
+    try {
+      const publicKey = await signer.getPublicKey();
+
+      const chainId = new ChainId(this.chainInfo.chainId.chain, this.chainInfo.chainId.network);
+      return new ChainAccount(chainId, new PublicKey(publicKey).toBase58(), base.toHex(publicKey));
+    } finally {
+      signer.destroy();
+    }
+  }
+
   /**
    * Implementation of balance query using strategy pattern
    */
@@ -171,22 +226,150 @@ export class SolanaChainWallet extends BaseChainWallet {
   }
 
   /**
-   * Implementation of transfer using strategy pattern
+   * Implementation of transfer building using strategy pattern
+   * Builds a legacy transaction unless the transfer selects version 0, which may use address lookup tables
    */
-  protected async transferImpl(params: TransferParams): Promise<string> {
+  protected async buildTransferImpl(
+    params: TransferParams
+  ): Promise<UnsignedTransaction<SolanaUnsignedTransactionData>> {
     await this.readyPromise;
+    await this.assertValidTransferParams(params);
 
-    // Validate recipient address and transfer amount using coin-base standard validation
-    assertValidAddressForTransaction(params.recipientAddress, CHAIN, CHAIN_CONFIG.CHAIN_NAME);
-    assertValidTransferAmount(params.amount, CHAIN_CONFIG.CHAIN_NAME);
+    const { transactionVersion, addressLookupTables, simulateBeforeSend } = params as ExtendedTransferParams;
+    const handler = this.getAssetHandler(params.token?.assetType);
+    const transaction = await handler.buildTransfer(params);
+
+    let data: SolanaUnsignedTransactionData;
+    if (transactionVersion === 0) {
+      const prepared = await this.connectionManager.prepareVersionedTransaction(transaction, addressLookupTables);
+      this.assertTransactionSize(prepared.transaction);
+      data = {
+        serializedTransaction: base.toBase64(prepared.transaction.serialize()),
+        lastValidBlockHeight: prepared.lastValidBlockHeight,
+        version: 0
+      };
+    } else {
+      const lastValidBlockHeight = await this.connectionManager.prepareTransaction(transaction);
+      this.assertTransactionSize(transaction);
+      data = {
+        serializedTransaction: base.toBase64(
+          transaction.serialize({ requireAllSignatures: false, verifySignatures: false })
+        ),
+        lastValidBlockHeight
+      };
+    }
 
-    // Validate token address for SPL tokens
-    if (params.token?.assetType === ChainAssetType.SPL) {
-      await assertValidTokenAddressForTransaction(params.token.tokenAddress, CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+    // Simulate on a copy so the unsigned transaction is left untouched
+    if (simulateBeforeSend) {
+      await this.connectionManager.simulateTransaction(this.deserializeTransaction(data));
     }
 
-    const handler = this.getAssetHandler(params.token?.assetType);
-    return await handler.transfer(params);
+    return createUnsignedTransaction(this.chainInfo, params, data);
+  }
+
+  /**
+   * Implementation of transaction signing
+   * Signing is done locally and does not touch the network
+   */
+  protected async signTransactionImpl(
+    transaction: UnsignedTransaction<SolanaUnsignedTransactionData>
+  ): Promise<SignedTransaction<SolanaSignedTransactionData>> {
+    await this.readyPromise;
+
+    if (!this.walletInfo || !this.signer) {
+      throw new Error(ERROR_MESSAGES.NOT_INITIALIZED);
+    }
+
+    assertTransactionForChain(transaction, this.chainInfo, CHAIN_CONFIG.CHAIN_NAME);
+
+    const tx = this.deserializeTransaction(transaction.data);
+    const txHash = await this.signTransfer(tx);
+
+    return createSignedTransaction(
+      transaction,
+      { ...transaction.data, serializedTransaction: base.toBase64(tx.serialize()) },
+      txHash
+    );
+  }
+
+  /**
+   * Implementation of batch transfers
+   * Native SOL transfers are combined into transactions of up to MAX_BATCH_TRANSFERS transfers.
+   * SPL transfers may create the recipient's token account and are sent one by one, as are
+   * transfers with a memo, so each memo belongs to the only transfer of its transaction, and
+   * transfers selecting a version 0 transaction.
+   */
+  protected async batchTransferImpl(transfers: TransferParams[]): Promise<string[]> {
+    await this.readyPromise;
+    for (const params of transfers) {
+      await this.assertValidTransferParams(params);
+    }
+
+    const txHashes: string[] = new Array(transfers.length);
+    const isBatched = (params: TransferParams) =>
+      (params.token?.assetType ?? ChainAssetType.Native) === ChainAssetType.Native &&
+      !params.payload &&
+      (params as ExtendedTransferParams).transactionVersion !== 0;
+    const nativeIndexes = transfers.flatMap((params, index) => (isBatched(params) ? [index] : []));
+    const handler = this.getAssetHandler(ChainAssetType.Native);
+
+    for (const batch of chunkItems(nativeIndexes, MAX_BATCH_TRANSFERS)) {
+      // A transaction carries a single compute unit price, so use the highest one requested
+      const priorityFee = Math.max(
+        0,
+        ...batch.map((index) => (transfers[index] as ExtendedTransferParams).priorityFee ?? 0)
+      );
+      const transaction = new Transaction();
+      if (priorityFee > 0) {
+        transaction.add(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFee }));
+      }
+      for (const index of batch) {
+        const built = await handler.buildTransfer({ ...transfers[index], priorityFee: undefined } as TransferParams);
+        transaction.add(...built.instructions);
+      }
+
+      const lastValidBlockHeight = await this.connectionManager.prepareTransaction(transaction);
+      const txHash = await this.signTransfer(transaction);
+      await this.connectionManager.sendAndConfirmRawTransaction(
+        Buffer.from(transaction.serialize()),
+        transaction.recentBlockhash!,
+        lastValidBlockHeight,
+        txHash
+      );
+      batch.forEach((index) => (txHashes[index] = txHash));
+    }
+
+    for (const [index, params] of transfers.entries()) {
+      if (!isBatched(params)) {
+        txHashes[index] = await this.transferImpl(params);
+      }
+    }
+    return txHashes;
+  }
+
+  /**
+   * Implementation of transaction broadcasting
+   */
+  protected async broadcastTransactionImpl(
+    transaction: SignedTransaction<SolanaSignedTransactionData>
+  ): Promise<string> {
+    await this.readyPromise;
+
+    assertTransactionForChain(transaction, this.chainInfo, CHAIN_CONFIG.CHAIN_NAME);
+
+    const rawTransaction = Buffer.from(base.fromBase64(transaction.data.serializedTransaction));
+    const tx = this.deserializeTransaction(transaction.data);
+    const [blockhash, signature] =
+      tx instanceof VersionedTransaction
+        ? [tx.message.recentBlockhash, tx.signatures[0]]
+        : [tx.recentBlockhash!, tx.signature!];
+
+    return await this.connectionManager.sendAndConfirmRawTransaction(
+      rawTransaction,
+      blockhash,
+      transaction.data.lastValidBlockHeight,
+      base.toBase58(signature)
+    );
   }
 
   /**
@@ -208,6 +391,44 @@ export class SolanaChainWallet extends BaseChainWallet {
     return await handler.estimateFee(params);
   }
 
+  /**
+   * Implementation of transfer simulation
+   * Runs the built transaction through the RPC node's simulateTransaction
+   */
+  protected async simulateTransferImpl(params: TransferParams): Promise<TransferSimulationResult> {
+    const unsigned = await this.buildTransferImpl(params);
+    const transaction = this.deserializeTransaction(unsigned.data);
+
+    const handler = this.getAssetHandler(params.token?.assetType);
+    const fee = await handler.estimateFee(params);
+
+    const failureReason = await this.connectionManager.getSimulationFailure(transaction);
+    if (failureReason) {
+      return createFailedTransferSimulation(failureReason, fee);
+    }
+
+    return this.simulateTransferWithBalances(params, fee, { assetType: ChainAssetType.Native });
+  }
+
+  /**
+   * Implementation of transaction history using strategy pattern
+   */
+  protected async getTransactionHistoryImpl(
+    params: TransactionHistoryParams & { limit: number }
+  ): Promise<TransactionHistoryPage> {
+    await this.readyPromise;
+
+    assertValidAddressForBalance(params.address, CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+
+    // Validate token address for SPL tokens
+    if (params.token?.assetType === ChainAssetType.SPL) {
+      await assertValidTokenAddressForBalance(params.token.tokenAddress, CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+    }
+
+    const handler = this.getAssetHandler(params.token?.assetType);
+    return await handler.getTransactionHistory(params);
+  }
+
   /**
    * Implementation of message signing
    * Note: Only supported for native SOL in Solana
@@ -224,19 +445,19 @@ export class SolanaChainWallet extends BaseChainWallet {
       );
     }
 
-    if (!this.walletInfo) {
+    if (!this.signer) {
       throw new MessageSigningError(
         HibitIdSdkErrorCode.MESSAGE_SIGNING_FAILED,
         `${CHAIN_CONFIG.CHAIN_NAME}: Wallet not initialized`
       );
     }
 
-    // Solana always uses deterministic signing with nacl
+    // Ed25519 signatures are always deterministic
     // The deterministic parameter is included for interface compatibility
     void deterministic; // Suppress unused variable warning
 
     const messageBytes = base.toUtf8(message);
-    return nacl.sign.detached(messageBytes, this.walletInfo.keypair.secretKey);
+    return this.signer.signBytes(messageBytes);
   }
 
   /**
@@ -394,6 +615,20 @@ export class SolanaChainWallet extends BaseChainWallet {
     });
   }
 
+  /**
+   * Implementation of endpoint probing: requests the current slot
+   */
+  protected async checkEndpointImpl(url: string): Promise<void> {
+    await new Connection(url, DEFAULT_COMMITMENT).getSlot();
+  }
+
+  /**
+   * Reconnect to the endpoint the endpoint pool switched to
+   */
+  protected async onRpcEndpointChanged(url: string): Promise<void> {
+    this.connectionManager.switchEndpoint(url);
+  }
+
   /**
    * Clean up resources when wallet is no longer needed
    */
@@ -404,8 +639,9 @@ export class SolanaChainWallet extends BaseChainWallet {
     // Clean up asset handlers
     this.assetHandlers.clear();
 
-    // Clean up wallet info reference
+    // Clean up wallet info and signer references
     this.walletInfo = null;
+    this.signer = null;
 
     // Clean up any remaining references
     cleanupReferences(this, ['readyPromise']);
@@ -416,42 +652,25 @@ export class SolanaChainWallet extends BaseChainWallet {
   // ============================================================
 
   /**
-   * Initialize the wallet from mnemonic
+   * Initialize the wallet from its signer
+   * Watch-only wallets have no signer; their address is the public key
    * @private
    */
   @withErrorHandling({ errorType: 'general' }, 'Failed to initialize wallet')
   @withLogging('Initialize wallet')
-  @cleanSensitiveData()
-  private async initializeWallet(mnemonic: string): Promise<void> {
-    if (!mnemonic || mnemonic.trim() === '') {
-      throw new MnemonicError(HibitIdSdkErrorCode.INVALID_MNEMONIC, `${CHAIN_CONFIG.CHAIN_NAME}: Empty mnemonic`);
+  private async initializeWallet(): Promise<void> {
+    const watchOnlyAccount = this.getWatchOnlyAccount();
+    let publicKey: PublicKey;
+    if (watchOnlyAccount) {
+      publicKey = new PublicKey(watchOnlyAccount.address);
+    } else {
+      // Sign with the constructor's signer or a key derived from the mnemonic
+      this.signer = this.createSigner('ed25519', getDerivingPath);
+      publicKey = new PublicKey(await this.signer.getPublicKey());
     }
 
-    // Derive Ed25519 private key for Solana
-    const privateKeyHex = await deriveEd25519PrivateKey(
-      mnemonic,
-      DERIVING_PATH,
-      false, // includePublicKey
-      EncodingFormat.HEX // encodingFormat
-    );
-    // Convert hex to Uint8Array
-    const privateKeyBytes = base.fromHex(privateKeyHex);
-
-    // Solana uses 64-byte keys (32-byte private key + 32-byte public key)
-    // Create the full keypair from the 32-byte private key
-    const secretKey = new Uint8Array(64);
-    secretKey.set(privateKeyBytes.slice(0, 32));
-    const publicKey = nacl.sign.keyPair.fromSeed(privateKeyBytes.slice(0, 32)).publicKey;
-    secretKey.set(publicKey, 32);
-
-    const keypair = Keypair.fromSecretKey(secretKey);
-    const address = keypair.publicKey.toBase58();
-
     // Store wallet information
-    this.walletInfo = {
-      keypair,
-      address
-    };
+    this.walletInfo = { publicKey, address: publicKey.toBase58() };
 
     // Initialize connection manager with wallet info
     this.connectionManager.initialize(this.walletInfo);
@@ -494,6 +713,106 @@ export class SolanaChainWallet extends BaseChainWallet {
     return handler;
   }
 
+  /**
+   * Validate transfer parameters common to all assets
+   */
+  private async assertValidTransferParams(params: TransferParams): Promise<void> {
+    // Validate recipient address and transfer amount using coin-base standard validation
+    assertValidAddressForTransaction(params.recipientAddress, CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+    assertValidTransferAmount(params.amount, CHAIN_CONFIG.CHAIN_NAME);
+
+    // Validate token address for SPL tokens
+    if (params.token?.assetType === ChainAssetType.SPL) {
+      await assertValidTokenAddressForTransaction(params.token.tokenAddress, CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+    }
+
+    // Validate memo size, the transaction size is checked once it is built
+    if (params.payload && base.toUtf8(params.payload).length > MAX_MEMO_BYTES) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Memo exceeds ${MAX_MEMO_BYTES} bytes`,
+        { argumentName: 'payload', expectedType: `string of at most ${MAX_MEMO_BYTES} UTF-8 bytes` }
+      );
+    }
+
+    // Validate the transaction version and its address lookup tables
+    const { transactionVersion, addressLookupTables = [] } = params as ExtendedTransferParams;
+    if (transactionVersion !== undefined && transactionVersion !== 'legacy' && transactionVersion !== 0) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Unsupported transaction version ${transactionVersion}`,
+        { argumentName: 'transactionVersion', expectedType: "'legacy' or 0", providedValue: String(transactionVersion) }
+      );
+    }
+    if (addressLookupTables.length > 0 && transactionVersion !== 0) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Address lookup tables require a version 0 transaction`,
+        { argumentName: 'addressLookupTables' }
+      );
+    }
+    for (const address of addressLookupTables) {
+      if (!ChainValidation.isValidWalletAddress(address, CHAIN)) {
+        throw new ArgumentError(
+          HibitIdSdkErrorCode.INVALID_ARGUMENT,
+          `${CHAIN_CONFIG.CHAIN_NAME}: Invalid address lookup table address ${address}`,
+          { argumentName: 'addressLookupTables', expectedType: 'Solana address', providedValue: address }
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate that a prepared transaction fits in a single network packet once signed
+   * Memos and token account creation make a transfer larger, so the size is checked before signing.
+   * @throws {ArgumentError} When the signed transaction would exceed PACKET_DATA_SIZE
+   * @private
+   */
+  private assertTransactionSize(transaction: Transaction | VersionedTransaction): void {
+    const message = transaction instanceof VersionedTransaction ? transaction.message : transaction.compileMessage();
+    // Signatures are prefixed with their count as a compact-u16, a single byte for fewer than 128
+    const size = 1 + message.header.numRequiredSignatures * 64 + message.serialize().length;
+    if (size > PACKET_DATA_SIZE) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Transaction of ${size} bytes exceeds the ${PACKET_DATA_SIZE}-byte packet limit`,
+        { argumentName: 'payload', providedValue: String(size) }
+      );
+    }
+  }
+
+  /**
+   * Add the fee payer signature to a prepared legacy or version 0 transaction
+   * @returns The fee payer signature, which doubles as the transaction id
+   */
+  private async signTransfer(transaction: Transaction | VersionedTransaction): Promise<string> {
+    if (!this.walletInfo || !this.signer) {
+      throw new Error(ERROR_MESSAGES.NOT_INITIALIZED);
+    }
+
+    if (transaction instanceof VersionedTransaction) {
+      const signature = await this.signer.signBytes(transaction.message.serialize());
+      transaction.addSignature(this.walletInfo.publicKey, signature);
+      return base.toBase58(transaction.signatures[0]);
+    }
+
+    const signature = await this.signer.signBytes(transaction.serializeMessage());
+    transaction.addSignature(this.walletInfo.publicKey, Buffer.from(signature));
+    return base.toBase58(transaction.signature!);
+  }
+
+  /**
+   * Deserialize the transaction of unsigned or signed transaction data
+   * Data without a version holds a legacy transaction.
+   * @private
+   */
+  private deserializeTransaction(
+    data: SolanaUnsignedTransactionData | SolanaSignedTransactionData
+  ): Transaction | VersionedTransaction {
+    const bytes = base.fromBase64(data.serializedTransaction);
+    return data.version === 0 ? VersionedTransaction.deserialize(bytes) : Transaction.from(bytes);
+  }
+
   /**
    * Implementation of getAssetDecimals
    * Returns the number of decimals for the specified asset
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
+import { Transaction } from '@solana/web3.js';
 import { BaseAssetHandler } from '../../src/chain-wallet/asset-handlers/base-asset-handler';
 import { ConnectionManager } from '../../src/chain-wallet/shared/connection-manager';
 import { BalanceQueryParams, TransferParams } from '@delandlabs/coin-base';
@@ -11,14 +12,18 @@ class TestAssetHandler extends BaseAssetHandler {
     return Promise.resolve(new (await import('bignumber.js')).default(100));
   }
 
-  async transfer(_params: TransferParams) {
-    return Promise.resolve('test-signature');
+  async buildTransfer(_params: TransferParams) {
+    return Promise.resolve(new Transaction());
   }
 
   async estimateFee(_params: TransferParams) {
     return Promise.resolve(new (await import('bignumber.js')).default(0.001));
   }
 
+  async getTransactionHistory() {
+    return { records: [] };
+  }
+
   getAssetType(): ChainAssetType {
     return ChainAssetType.Native;
   }
@@ -65,7 +70,7 @@ describe('BaseAssetHandler', () => {
 
     // Test that abstract methods are implemented
     await expect(handler.balanceOf(mockBalanceParams)).resolves.toBeDefined();
-    await expect(handler.transfer(mockTransferParams)).resolves.toBeDefined();
+    await expect(handler.buildTransfer(mockTransferParams)).resolves.toBeDefined();
     await expect(handler.estimateFee(mockTransferParams)).resolves.toBeDefined();
   });
 });
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SolNativeHandler } from '../../src/chain-wallet/asset-handlers/sol-native-handler';
-import { ConnectionManager } from '../../src/chain-wallet/shared/connection-manager';
+import { ConnectionManager, ExtendedTransferParams } from '../../src/chain-wallet/shared/connection-manager';
 import { BalanceQueryParams, TransferParams, FeeEstimationError, HibitIdSdkErrorCode } from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
 import BigNumber from 'bignumber.js';
@@ -72,10 +72,9 @@ describe('SolNativeHandler', () => {
     // Mock the connection manager methods
     vi.spyOn(connectionManager, 'getConnection').mockReturnValue(mockConnection);
     vi.spyOn(connectionManager, 'getWallet').mockReturnValue({
-      keypair: mockKeypair,
+      publicKey: mockKeypair.publicKey,
       address: createSolanaAddress('test-address')
     });
-    vi.spyOn(connectionManager, 'sendAndConfirmTransaction').mockResolvedValue('test-signature');
     vi.spyOn(connectionManager, 'simulateTransaction').mockResolvedValue();
 
     handler = new SolNativeHandler(connectionManager, createMockLogger());
@@ -119,21 +118,23 @@ describe('SolNativeHandler', () => {
     });
   });
 
-  describe('transfer', () => {
-    it('should transfer native SOL successfully', async () => {
+  describe('buildTransfer', () => {
+    it('should build a native SOL transfer without sending it', async () => {
+      const { SystemProgram } = await import('@solana/web3.js');
       const params: TransferParams = {
         recipientAddress: createSolanaAddress('11111111111111111111111111111112'),
         amount: new BigNumber(1),
         token: { assetType: ChainAssetType.Native }
       };
 
-      const signature = await handler.transfer(params);
+      const transaction = await handler.buildTransfer(params);
 
-      expect(signature).toBe('test-signature');
-      expect(connectionManager.sendAndConfirmTransaction).toHaveBeenCalled();
+      expect(transaction.add).toHaveBeenCalled();
+      expect(SystemProgram.transfer).toHaveBeenCalledWith(expect.objectContaining({ lamports: 1 }));
     });
 
     it('should add memo to transaction when payload is provided', async () => {
+      const { TransactionInstruction } = await import('@solana/web3.js');
       const params: TransferParams = {
         recipientAddress: createSolanaAddress('11111111111111111111111111111112'),
         amount: new BigNumber(1),
@@ -141,21 +142,20 @@ describe('SolNativeHandler', () => {
         payload: 'test memo'
       };
 
-      await handler.transfer(params);
+      const transaction = await handler.buildTransfer(params);
 
-      expect(connectionManager.sendAndConfirmTransaction).toHaveBeenCalled();
+      expect(TransactionInstruction).toHaveBeenCalled();
+      expect(transaction.add).toHaveBeenCalledTimes(2);
     });
 
-    it('should handle transfer errors', async () => {
-      connectionManager.sendAndConfirmTransaction = vi.fn().mockRejectedValue(new Error('Transaction failed'));
-
+    it('should reject invalid recipient addresses', async () => {
       const params: TransferParams = {
-        recipientAddress: createSolanaAddress('11111111111111111111111111111112'),
+        recipientAddress: createSolanaAddress('invalid-address'),
         amount: new BigNumber(1),
         token: { assetType: ChainAssetType.Native }
       };
 
-      await expect(handler.transfer(params)).rejects.toThrow('Transaction failed');
+      await expect(handler.buildTransfer(params)).rejects.toThrow('Invalid public key input');
     });
   });
 
@@ -176,6 +176,29 @@ describe('SolNativeHandler', () => {
       expect(mockConnection.getFeeForMessage).toHaveBeenCalled();
     });
 
+    it('should quote the fee of a version 0 message when one is requested', async () => {
+      const message = { version: 0 };
+      mockConnection.getFeeForMessage.mockResolvedValue({ value: 5000 });
+      vi.spyOn(connectionManager, 'prepareVersionedTransaction').mockResolvedValue({
+        transaction: { message } as any,
+        lastValidBlockHeight: 1000
+      });
+
+      const params: TransferParams & ExtendedTransferParams = {
+        recipientAddress: createSolanaAddress('11111111111111111111111111111112'),
+        amount: new BigNumber(1),
+        token: { assetType: ChainAssetType.Native },
+        transactionVersion: 0,
+        addressLookupTables: ['lookup-table-address']
+      };
+
+      await expect(handler.estimateFee(params)).resolves.toEqual(new BigNumber(5000));
+      expect(connectionManager.prepareVersionedTransaction).toHaveBeenCalledWith(expect.anything(), [
+        'lookup-table-address'
+      ]);
+      expect(mockConnection.getFeeForMessage).toHaveBeenCalledWith(message);
+    });
+
     it('should handle null fee response', async () => {
       // Mock the estimateFee method directly to avoid retry decorator in test
       const originalEstimateFee = handler.estimateFee.bind(handler);
@@ -199,6 +222,80 @@ describe('SolNativeHandler', () => {
     });
   });
 
+  describe('getTransactionHistory', () => {
+    const owner = 'owner-address';
+    const counterparty = 'counterparty-address';
+
+    function createParsedTransfer(source: string, destination: string, lamports: number, err: unknown = null) {
+      return {
+        blockTime: 1700000000,
+        meta: { fee: 5000, err, innerInstructions: [] },
+        transaction: {
+          message: {
+            instructions: [
+              { program: 'system', parsed: { type: 'transfer', info: { source, destination, lamports } } },
+              { program: 'spl-memo', parsed: 'memo' }
+            ]
+          }
+        }
+      };
+    }
+
+    it('should list system transfers with the last signature as cursor', async () => {
+      mockConnection.getSignaturesForAddress.mockResolvedValue([
+        { signature: 'sig-2' },
+        { signature: 'sig-1' },
+        { signature: 'sig-0' }
+      ]);
+      mockConnection.getParsedTransactions.mockResolvedValue([
+        createParsedTransfer(counterparty, owner, 700),
+        createParsedTransfer(owner, counterparty, 500, { InstructionError: [0, 'Custom'] }),
+        { ...createParsedTransfer(owner, owner, 1), transaction: { message: { instructions: [] } } }
+      ]);
+
+      const page = await handler.getTransactionHistory({
+        address: createSolanaAddress(owner),
+        token: { assetType: ChainAssetType.Native },
+        cursor: 'sig-3',
+        limit: 3
+      });
+
+      expect(mockConnection.getSignaturesForAddress).toHaveBeenCalledWith(expect.anything(), {
+        before: 'sig-3',
+        limit: 3
+      });
+      expect(page.records).toEqual([
+        {
+          hash: 'sig-2',
+          direction: 'incoming',
+          counterparty,
+          amount: new BigNumber(700),
+          token: { assetType: ChainAssetType.Native },
+          fee: new BigNumber(5000),
+          status: 'confirmed',
+          timestamp: 1700000000000,
+          memo: 'memo'
+        },
+        expect.objectContaining({ hash: 'sig-1', direction: 'outgoing', counterparty, status: 'failed' })
+      ]);
+      expect(page.nextCursor).toBe('sig-0');
+    });
+
+    it('should end pagination on a short page', async () => {
+      mockConnection.getSignaturesForAddress.mockResolvedValue([{ signature: 'sig-0' }]);
+      mockConnection.getParsedTransactions.mockResolvedValue([createParsedTransfer(owner, counterparty, 1)]);
+
+      const page = await handler.getTransactionHistory({
+        address: createSolanaAddress(owner),
+        token: { assetType: ChainAssetType.Native },
+        limit: 20
+      });
+
+      expect(page.records).toHaveLength(1);
+      expect(page.nextCursor).toBeUndefined();
+    });
+  });
+
   describe('asset type', () => {
     it('should return native asset type', () => {
       expect(handler.getAssetType()).toBe(ChainAssetType.Native);
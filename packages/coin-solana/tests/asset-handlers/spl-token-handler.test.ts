@@ -56,6 +56,7 @@ vi.mock('@solana/web3.js', () => ({
   ComputeBudgetProgram: {
     setComputeUnitPrice: vi.fn()
   },
+  TransactionInstruction: vi.fn().mockImplementation((instruction) => instruction),
   LAMPORTS_PER_SOL: 1000000000
 }));
 
@@ -75,10 +76,9 @@ describe('SplTokenHandler', () => {
     // Mock the connection manager methods
     vi.spyOn(connectionManager, 'getConnection').mockReturnValue(mockConnection);
     vi.spyOn(connectionManager, 'getWallet').mockReturnValue({
-      keypair: mockKeypair,
+      publicKey: mockKeypair.publicKey,
       address: createSolanaAddress('test-address')
     });
-    vi.spyOn(connectionManager, 'sendAndConfirmTransaction').mockResolvedValue('test-signature');
     vi.spyOn(connectionManager, 'simulateTransaction').mockResolvedValue();
 
     handler = new SplTokenHandler(connectionManager, createMockLogger());
@@ -144,8 +144,8 @@ describe('SplTokenHandler', () => {
     });
   });
 
-  describe('transfer', () => {
-    it('should transfer SPL tokens successfully', async () => {
+  describe('buildTransfer', () => {
+    it('should build an SPL token transfer without sending it', async () => {
       const { getAssociatedTokenAddress, getMint, getAccount, createTransferInstruction } = await import(
         '@solana/spl-token'
       );
@@ -164,10 +164,15 @@ describe('SplTokenHandler', () => {
         }
       };
 
-      const signature = await handler.transfer(params);
+      const transaction = await handler.buildTransfer(params);
 
-      expect(signature).toBe('test-signature');
-      expect(connectionManager.sendAndConfirmTransaction).toHaveBeenCalled();
+      expect(createTransferInstruction).toHaveBeenCalledWith(
+        'token-account-address',
+        'token-account-address',
+        mockKeypair.publicKey,
+        BigInt(1)
+      );
+      expect(transaction.add).toHaveBeenCalled();
     });
 
     it('should create associated token account if needed', async () => {
@@ -197,12 +202,37 @@ describe('SplTokenHandler', () => {
         }
       };
 
-      const signature = await handler.transfer(params);
+      await handler.buildTransfer(params);
 
-      expect(signature).toBe('test-signature');
       expect(createAssociatedTokenAccountInstruction).toHaveBeenCalled();
     });
 
+    it('should add a memo instruction after the transfer when payload is provided', async () => {
+      const { getAssociatedTokenAddress, getAccount, createTransferInstruction } = await import('@solana/spl-token');
+
+      (getAssociatedTokenAddress as any).mockResolvedValue('token-account-address');
+      (getAccount as any).mockResolvedValue({ amount: BigInt('1000000') });
+      (createTransferInstruction as any).mockReturnValue({ data: 'transfer' });
+
+      const params: TransferParams = {
+        recipientAddress: createSolanaAddress('11111111111111111111111111111112'),
+        amount: new BigNumber(1),
+        token: {
+          assetType: ChainAssetType.SPL,
+          tokenAddress: '11111111111111111111111111111112'
+        },
+        payload: 'deposit-42'
+      };
+
+      const transaction = await handler.buildTransfer(params);
+
+      const added = vi.mocked(transaction.add).mock.calls.map(([instruction]) => instruction as any);
+      expect(added).toHaveLength(2);
+      expect(added[0]).toEqual({ data: 'transfer' });
+      expect(added[1].programId.toBase58()).toBe('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+      expect(added[1].data).toEqual(Buffer.from('deposit-42'));
+    });
+
     it('should throw error when token address is missing', async () => {
       const params: TransferParams = {
         recipientAddress: createSolanaAddress('11111111111111111111111111111112'),
@@ -210,7 +240,7 @@ describe('SplTokenHandler', () => {
         token: { assetType: ChainAssetType.SPL }
       };
 
-      await expect(handler.transfer(params)).rejects.toThrow('Invalid public key input');
+      await expect(handler.buildTransfer(params)).rejects.toThrow('Invalid public key input');
     });
   });
 
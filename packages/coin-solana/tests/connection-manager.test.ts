@@ -1,16 +1,27 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  AddressLookupTableAccount,
+  Keypair,
+  SystemProgram,
+  Transaction,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { EndpointPool } from '@delandlabs/coin-base';
 import { ConnectionManager } from '../src/chain-wallet/shared/connection-manager';
 import { createMockChainInfo, createMockLogger, createSolanaAddress } from './test-utils';
 
-// Mock Solana Web3
-vi.mock('@solana/web3.js', () => ({
+// Mock Solana Web3 connections, keeping the transaction classes
+vi.mock('@solana/web3.js', async () => ({
+  ...(await vi.importActual<typeof import('@solana/web3.js')>('@solana/web3.js')),
   Connection: vi.fn().mockImplementation((url, commitment) => ({
     url,
     commitment,
     simulateTransaction: vi.fn(),
-    sendTransaction: vi.fn()
+    sendTransaction: vi.fn(),
+    getAddressLookupTable: vi.fn(),
+    getLatestBlockhash: vi.fn().mockResolvedValue({ blockhash: 'test-blockhash', lastValidBlockHeight: 1000 })
   })),
-  sendAndConfirmTransaction: vi.fn()
+  sendAndConfirmRawTransaction: vi.fn()
 }));
 
 describe('ConnectionManager', () => {
@@ -32,7 +43,7 @@ describe('ConnectionManager', () => {
   describe('initialization', () => {
     it('should initialize with wallet info', () => {
       const walletInfo = {
-        keypair: mockKeypair,
+        publicKey: mockKeypair.publicKey,
         address: createSolanaAddress('test-address')
       };
 
@@ -48,7 +59,7 @@ describe('ConnectionManager', () => {
       const invalidManager = new ConnectionManager(invalidChainInfo as any, createMockLogger());
 
       const walletInfo = {
-        keypair: mockKeypair,
+        publicKey: mockKeypair.publicKey,
         address: createSolanaAddress('test-address')
       };
 
@@ -59,7 +70,7 @@ describe('ConnectionManager', () => {
   describe('connection access', () => {
     beforeEach(() => {
       connectionManager.initialize({
-        keypair: mockKeypair,
+        publicKey: mockKeypair.publicKey,
         address: createSolanaAddress('test-address')
       });
     });
@@ -72,7 +83,7 @@ describe('ConnectionManager', () => {
     it('should provide wallet info', () => {
       const wallet = connectionManager.getWallet();
       expect(wallet.address).toBe('test-address');
-      expect(wallet.keypair).toBe(mockKeypair);
+      expect(wallet.publicKey).toBe(mockKeypair.publicKey);
     });
 
     it('should throw error when not initialized', () => {
@@ -83,23 +94,86 @@ describe('ConnectionManager', () => {
     });
   });
 
+  describe('endpoint switching', () => {
+    const walletInfo = () => ({
+      publicKey: mockKeypair.publicKey,
+      address: createSolanaAddress('test-address')
+    });
+
+    it('should connect to the current endpoint of the endpoint pool', () => {
+      const chainInfo = {
+        ...createMockChainInfo(),
+        rpc: { primary: '', fallbacks: ['https://solana-rpc.publicnode.com'] }
+      };
+      const manager = new ConnectionManager(
+        chainInfo,
+        createMockLogger(),
+        undefined,
+        new EndpointPool(chainInfo.rpc, { chainName: 'Solana' })
+      );
+
+      manager.initialize(walletInfo());
+
+      expect((manager.getConnection() as any).url).toBe('https://solana-rpc.publicnode.com');
+    });
+
+    it('should replace the connection when switching endpoints', () => {
+      connectionManager.initialize(walletInfo());
+      const previousConnection = connectionManager.getConnection();
+
+      connectionManager.switchEndpoint('https://solana-rpc.publicnode.com');
+
+      expect(connectionManager.getConnection()).not.toBe(previousConnection);
+      expect((connectionManager.getConnection() as any).url).toBe('https://solana-rpc.publicnode.com');
+      expect(connectionManager.isInitialized()).toBe(true);
+    });
+  });
+
   describe('transaction management', () => {
     beforeEach(() => {
       connectionManager.initialize({
-        keypair: mockKeypair,
+        publicKey: mockKeypair.publicKey,
         address: createSolanaAddress('test-address')
       });
     });
 
-    it('should send and confirm transaction', async () => {
-      const { sendAndConfirmTransaction } = await import('@solana/web3.js');
-      (sendAndConfirmTransaction as any).mockResolvedValue('test-signature');
+    it('should set fee payer and recent blockhash when preparing a transaction', async () => {
+      const mockTransaction: any = { add: vi.fn() };
 
-      const mockTransaction = { add: vi.fn() };
-      const signature = await connectionManager.sendAndConfirmTransaction(mockTransaction as any);
+      const lastValidBlockHeight = await connectionManager.prepareTransaction(mockTransaction);
+
+      expect(lastValidBlockHeight).toBe(1000);
+      expect(mockTransaction.feePayer).toBe(mockKeypair.publicKey);
+      expect(mockTransaction.recentBlockhash).toBe('test-blockhash');
+    });
+
+    it('should send and confirm a raw transaction', async () => {
+      const { sendAndConfirmRawTransaction } = await import('@solana/web3.js');
+      (sendAndConfirmRawTransaction as any).mockResolvedValue('test-signature');
+
+      const signature = await connectionManager.sendAndConfirmRawTransaction(
+        Buffer.from([1, 2, 3]),
+        'test-blockhash',
+        1000,
+        'test-signature'
+      );
 
       expect(signature).toBe('test-signature');
-      expect(sendAndConfirmTransaction).toHaveBeenCalled();
+      expect(sendAndConfirmRawTransaction).toHaveBeenCalledWith(
+        expect.anything(),
+        Buffer.from([1, 2, 3]),
+        { signature: 'test-signature', blockhash: 'test-blockhash', lastValidBlockHeight: 1000 },
+        expect.any(Object)
+      );
+    });
+
+    it('should wrap raw transaction broadcast errors', async () => {
+      const { sendAndConfirmRawTransaction } = await import('@solana/web3.js');
+      (sendAndConfirmRawTransaction as any).mockRejectedValue(new Error('Blockhash not found'));
+
+      await expect(
+        connectionManager.sendAndConfirmRawTransaction(Buffer.from([1]), 'test-blockhash', 1000, 'test-signature')
+      ).rejects.toThrow('Transaction failed: Blockhash not found');
     });
 
     it('should simulate transaction successfully', async () => {
@@ -130,12 +204,84 @@ describe('ConnectionManager', () => {
         'Transaction simulation failed'
       );
     });
+
+    it('should report the simulation failure reason without throwing', async () => {
+      const mockConnection = connectionManager.getConnection();
+      vi.spyOn(mockConnection, 'simulateTransaction').mockResolvedValue({
+        context: { slot: 123456 },
+        value: {
+          err: { InstructionError: [0, 'Custom program error'] },
+          logs: ['error']
+        }
+      });
+
+      const mockTransaction = { add: vi.fn() };
+
+      await expect(connectionManager.getSimulationFailure(mockTransaction as any)).resolves.toBe(
+        'Instruction 0 failed: "Custom program error"'
+      );
+    });
+
+    it('should compile version 0 transactions against address lookup tables', async () => {
+      const payer = Keypair.generate().publicKey;
+      const recipient = Keypair.generate().publicKey;
+      const lookupTable = new AddressLookupTableAccount({
+        key: Keypair.generate().publicKey,
+        state: {
+          deactivationSlot: BigInt('18446744073709551615'),
+          lastExtendedSlot: 0,
+          lastExtendedSlotStartIndex: 0,
+          addresses: [recipient]
+        }
+      });
+      connectionManager.initialize({ publicKey: payer, address: createSolanaAddress(payer.toBase58()) });
+      const mockConnection = connectionManager.getConnection();
+      vi.spyOn(mockConnection, 'getAddressLookupTable').mockResolvedValue({
+        context: { slot: 123456 },
+        value: lookupTable
+      });
+      const transaction = new Transaction().add(
+        SystemProgram.transfer({ fromPubkey: payer, toPubkey: recipient, lamports: 1 })
+      );
+
+      const prepared = await connectionManager.prepareVersionedTransaction(transaction, [lookupTable.key.toBase58()]);
+
+      expect(prepared.lastValidBlockHeight).toBe(1000);
+      expect(prepared.transaction.version).toBe(0);
+      expect(prepared.transaction.message.recentBlockhash).toBe('test-blockhash');
+      expect(prepared.transaction.message.staticAccountKeys).not.toContainEqual(recipient);
+      expect(prepared.transaction.message.addressTableLookups).toEqual([
+        { accountKey: lookupTable.key, writableIndexes: [0], readonlyIndexes: [] }
+      ]);
+    });
+
+    it('should reject missing address lookup tables', async () => {
+      const mockConnection = connectionManager.getConnection();
+      vi.spyOn(mockConnection, 'getAddressLookupTable').mockResolvedValue({ context: { slot: 123456 }, value: null });
+      const address = Keypair.generate().publicKey.toBase58();
+
+      await expect(connectionManager.prepareVersionedTransaction(new Transaction(), [address])).rejects.toThrow(
+        `Address lookup table ${address} not found`
+      );
+    });
+
+    it('should simulate version 0 transactions without signature verification', async () => {
+      const mockConnection = connectionManager.getConnection();
+      vi.spyOn(mockConnection, 'simulateTransaction').mockResolvedValue({
+        context: { slot: 123456 },
+        value: { err: null, logs: [], accounts: null, unitsConsumed: 150 }
+      });
+      const transaction = Object.create(VersionedTransaction.prototype);
+
+      await expect(connectionManager.getSimulationFailure(transaction)).resolves.toBeUndefined();
+      expect(mockConnection.simulateTransaction).toHaveBeenCalledWith(transaction, { sigVerify: false });
+    });
   });
 
   describe('cleanup', () => {
     it('should cleanup resources', async () => {
       connectionManager.initialize({
-        keypair: mockKeypair,
+        publicKey: mockKeypair.publicKey,
         address: createSolanaAddress('test-address')
       });
 
@@ -2,37 +2,53 @@ import './setup';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { SolanaChainWallet } from '../src/chain-wallet/wallet';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
+import { HibitIdSdkErrorCode, ISigner, SignerKeyType, TransferParams } from '@delandlabs/coin-base';
+import type { ExtendedTransferParams } from '../src/chain-wallet/shared';
 import { createMockChainInfo, createMockLogger, createSolanaAddress } from './test-utils';
 import BigNumber from 'bignumber.js';
 
 // Mock dependencies
 vi.mock('@solana/web3.js', () => ({
   PublicKey: vi.fn().mockImplementation((key) => ({
-    toBase58: () => key,
+    toBase58: () => (typeof key === 'string' ? key : '11111111111111111111111111111112'),
     toString: () => key,
     toBytes: () => new Uint8Array(32)
   })),
-  Keypair: {
-    fromSecretKey: vi.fn().mockReturnValue({
-      publicKey: {
-        toBase58: () => '11111111111111111111111111111112',
-        toBytes: () => new Uint8Array(32)
-      },
-      secretKey: new Uint8Array(64)
-    })
-  },
-  Connection: vi.fn()
-}));
-
-vi.mock('tweetnacl', () => ({
-  sign: {
-    keyPair: {
-      fromSeed: vi.fn().mockReturnValue({
-        publicKey: new Uint8Array(32),
-        secretKey: new Uint8Array(32)
-      })
-    },
-    detached: vi.fn().mockReturnValue(new Uint8Array([1, 2, 3]))
+  Connection: vi.fn(),
+  PACKET_DATA_SIZE: 1232,
+  Transaction: Object.assign(
+    vi.fn().mockImplementation(() => {
+      const instructions: unknown[] = [];
+      return {
+        instructions,
+        add: vi.fn().mockImplementation((...added: unknown[]) => instructions.push(...added)),
+        serializeMessage: vi.fn().mockReturnValue(Buffer.from([7, 8, 9])),
+        addSignature: vi.fn(),
+        serialize: vi.fn().mockReturnValue(new Uint8Array([4, 5, 6])),
+        signature: new Uint8Array(64),
+        recentBlockhash: 'test-blockhash'
+      };
+    }),
+    {
+      from: vi.fn().mockImplementation(() => ({
+        serializeMessage: vi.fn().mockReturnValue(Buffer.from([7, 8, 9])),
+        addSignature: vi.fn(),
+        serialize: vi.fn().mockReturnValue(new Uint8Array([4, 5, 6])),
+        signature: new Uint8Array(64),
+        recentBlockhash: 'test-blockhash'
+      }))
+    }
+  ),
+  VersionedTransaction: class MockVersionedTransaction {
+    static deserialize = vi.fn().mockImplementation(() => new MockVersionedTransaction());
+    message = {
+      header: { numRequiredSignatures: 1 },
+      recentBlockhash: 'test-blockhash',
+      serialize: vi.fn().mockReturnValue(new Uint8Array([7, 8, 9]))
+    };
+    signatures = [new Uint8Array(64)];
+    addSignature = vi.fn();
+    serialize = vi.fn().mockReturnValue(new Uint8Array([4, 5, 6]));
   }
 }));
 
@@ -40,12 +56,18 @@ vi.mock('@delandlabs/crypto-lib', () => ({
   deriveEd25519PrivateKey: vi
     .fn()
     .mockResolvedValue('0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef'),
+  getEd25519PublicKey: vi.fn().mockReturnValue(new Uint8Array(32)),
+  signEd25519: vi.fn().mockReturnValue(new Uint8Array([1, 2, 3])),
+  clearSensitiveArrays: vi.fn(),
   validateMnemonic: vi.fn().mockReturnValue(true),
   EncodingFormat: { HEX: 'hex' },
   base: {
     fromHex: vi.fn().mockReturnValue(new Uint8Array(32)),
     toHex: vi.fn().mockReturnValue('test-hex'),
-    toUtf8: vi.fn().mockReturnValue(new Uint8Array([116, 101, 115, 116]))
+    toUtf8: vi.fn().mockReturnValue(new Uint8Array([116, 101, 115, 116])),
+    toBase64: vi.fn().mockReturnValue('dGVzdA=='),
+    fromBase64: vi.fn().mockReturnValue(new Uint8Array([1, 2, 3])),
+    toBase58: vi.fn().mockReturnValue('test-signature')
   }
 }));
 
@@ -53,12 +75,26 @@ vi.mock('@delandlabs/crypto-lib', () => ({
 vi.mock('../src/chain-wallet/asset-handlers', () => ({
   SolNativeHandler: vi.fn().mockImplementation(() => ({
     balanceOf: vi.fn().mockResolvedValue(new BigNumber(1)),
-    transfer: vi.fn().mockResolvedValue('test-signature'),
+    buildTransfer: vi.fn().mockResolvedValue({
+      instructions: [{ data: 'transfer' }],
+      compileMessage: vi.fn().mockReturnValue({
+        header: { numRequiredSignatures: 1 },
+        serialize: vi.fn().mockReturnValue(new Uint8Array(150))
+      }),
+      serialize: vi.fn().mockReturnValue(new Uint8Array([1, 2, 3]))
+    }),
     estimateFee: vi.fn().mockResolvedValue(new BigNumber(0.001))
   })),
   SplTokenHandler: vi.fn().mockImplementation(() => ({
     balanceOf: vi.fn().mockResolvedValue(new BigNumber(100)),
-    transfer: vi.fn().mockResolvedValue('test-signature'),
+    buildTransfer: vi.fn().mockResolvedValue({
+      instructions: [{ data: 'transfer' }],
+      compileMessage: vi.fn().mockReturnValue({
+        header: { numRequiredSignatures: 1 },
+        serialize: vi.fn().mockReturnValue(new Uint8Array(150))
+      }),
+      serialize: vi.fn().mockReturnValue(new Uint8Array([1, 2, 3]))
+    }),
     estimateFee: vi.fn().mockResolvedValue(new BigNumber(0.002))
   })),
   BaseAssetHandler: vi.fn()
@@ -70,6 +106,11 @@ vi.mock('../src/chain-wallet/shared', () => ({
     initialize: vi.fn(),
     getConnection: vi.fn(),
     getWallet: vi.fn(),
+    prepareTransaction: vi.fn().mockResolvedValue(1000),
+    prepareVersionedTransaction: vi.fn(),
+    simulateTransaction: vi.fn().mockResolvedValue(undefined),
+    getSimulationFailure: vi.fn().mockResolvedValue(undefined),
+    sendAndConfirmRawTransaction: vi.fn().mockResolvedValue('test-signature'),
     cleanup: vi.fn(),
     isInitialized: vi.fn().mockReturnValue(true)
   }))
@@ -118,6 +159,120 @@ describe('SolanaChainWallet', () => {
       expect(account.address).toBe('11111111111111111111111111111112');
       expect(account.publicKeyHex).toBe('test-hex');
     });
+
+    it('should derive the configured account index', async () => {
+      const { deriveEd25519PrivateKey } = await import('@delandlabs/crypto-lib');
+      vi.mocked(deriveEd25519PrivateKey).mockClear();
+
+      const indexedWallet = new SolanaChainWallet(createMockChainInfo(), testMnemonic, {
+        logger: createMockLogger(),
+        accountIndex: 2
+      });
+      await indexedWallet.getAccount();
+
+      expect(deriveEd25519PrivateKey).toHaveBeenCalledWith(testMnemonic, "m/44'/501'/2'/0'", false, 'hex');
+    });
+
+    it('should derive a range of accounts', async () => {
+      const { deriveEd25519PrivateKey } = await import('@delandlabs/crypto-lib');
+      vi.mocked(deriveEd25519PrivateKey).mockClear();
+
+      const accounts = await wallet.getAccounts({ start: 1, count: 2 });
+
+      expect(accounts).toHaveLength(2);
+      expect(deriveEd25519PrivateKey).toHaveBeenCalledWith(testMnemonic, "m/44'/501'/1'/0'", false, 'hex');
+      expect(deriveEd25519PrivateKey).toHaveBeenCalledWith(testMnemonic, "m/44'/501'/2'/0'", false, 'hex');
+    });
+
+    it('should reject custom derivation paths with non-hardened segments', () => {
+      expect(
+        () =>
+          new SolanaChainWallet(createMockChainInfo(), testMnemonic, {
+            logger: createMockLogger(),
+            derivationPath: "m/44'/501'/0'/0"
+          })
+      ).toThrow('all segments must be hardened');
+    });
+  });
+
+  describe('signers', () => {
+    const createSigner = (keyType: SignerKeyType = 'ed25519'): ISigner => ({
+      keyType,
+      getPublicKey: vi.fn().mockResolvedValue(new Uint8Array(32)),
+      signBytes: vi.fn().mockResolvedValue(new Uint8Array([4, 5, 6])),
+      signDigest: vi.fn()
+    });
+
+    it('should sign with the signer it was constructed with', async () => {
+      const { deriveEd25519PrivateKey } = await import('@delandlabs/crypto-lib');
+      vi.mocked(deriveEd25519PrivateKey).mockClear();
+      const signer = createSigner();
+
+      const signerWallet = new SolanaChainWallet(createMockChainInfo(), signer, { logger: createMockLogger() });
+
+      const account = await signerWallet.getAccount();
+      expect(account.address).toBe('11111111111111111111111111111112');
+
+      const signature = await signerWallet.signMessage({ message: 'test message' });
+      expect(signature).toEqual(new Uint8Array([4, 5, 6]));
+      expect(signer.signBytes).toHaveBeenCalledWith(new Uint8Array([116, 101, 115, 116]));
+      expect(deriveEd25519PrivateKey).not.toHaveBeenCalled();
+    });
+
+    it('should add the signer signature to transactions', async () => {
+      const signer = createSigner();
+      const signerWallet = new SolanaChainWallet(createMockChainInfo(), signer, { logger: createMockLogger() });
+      const unsigned = await signerWallet.buildTransfer({
+        recipientAddress: createSolanaAddress('11111111111111111111111111111113'),
+        amount: new BigNumber(1),
+        token: { assetType: ChainAssetType.Native }
+      });
+
+      await signerWallet.signTransaction(unsigned);
+
+      expect(signer.signBytes).toHaveBeenCalledWith(Buffer.from([7, 8, 9]));
+    });
+
+    it('should reject secp256k1 signers', async () => {
+      const signerWallet = new SolanaChainWallet(createMockChainInfo(), createSigner('secp256k1'), {
+        logger: createMockLogger()
+      });
+
+      await expect(signerWallet.getAccount()).rejects.toThrow('Signer key type secp256k1 is not supported');
+    });
+  });
+
+  describe('watch-only wallets', () => {
+    it('should report the watched account and reject signing', async () => {
+      const watchOnlyWallet = new SolanaChainWallet(
+        createMockChainInfo(),
+        { address: '11111111111111111111111111111113' },
+        { logger: createMockLogger() }
+      );
+
+      const account = await watchOnlyWallet.getAccount();
+
+      expect(account.address).toBe('11111111111111111111111111111113');
+      await expect(watchOnlyWallet.signMessage({ message: 'test message' })).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.WATCH_ONLY_WALLET
+      });
+    });
+
+    it('should build transfers from the watched account', async () => {
+      const watchOnlyWallet = new SolanaChainWallet(
+        createMockChainInfo(),
+        { address: '11111111111111111111111111111113' },
+        { logger: createMockLogger() }
+      );
+
+      const unsigned = await watchOnlyWallet.buildTransfer({
+        recipientAddress: createSolanaAddress('11111111111111111111111111111112'),
+        amount: new BigNumber(1),
+        token: { assetType: ChainAssetType.Native }
+      });
+
+      expect(unsigned.data).toEqual({ serializedTransaction: 'dGVzdA==', lastValidBlockHeight: 1000 });
+    });
   });
 
   describe('balance queries', () => {
@@ -168,6 +323,217 @@ describe('SolanaChainWallet', () => {
 
       expect(signature).toBe('test-signature');
     });
+
+    it('should combine native transfers into one transaction', async () => {
+      const nativeTransfer = {
+        recipientAddress: createSolanaAddress('11111111111111111111111111111113'),
+        amount: new BigNumber(1),
+        token: { assetType: ChainAssetType.Native }
+      };
+
+      const txHashes = await wallet.batchTransfer([
+        nativeTransfer,
+        {
+          recipientAddress: createSolanaAddress('11111111111111111111111111111113'),
+          amount: new BigNumber(10),
+          token: { assetType: ChainAssetType.SPL, tokenAddress: '11111111111111111111111111111114' }
+        },
+        nativeTransfer
+      ]);
+
+      expect(txHashes).toEqual(['test-signature', 'test-signature', 'test-signature']);
+      const connectionManager = (wallet as any).connectionManager;
+      expect(connectionManager.sendAndConfirmRawTransaction).toHaveBeenCalledTimes(2);
+      expect(connectionManager.prepareTransaction.mock.calls[0][0].instructions).toHaveLength(2);
+    });
+
+    it('should send native transfers with a memo in their own transaction', async () => {
+      const nativeTransfer = {
+        recipientAddress: createSolanaAddress('11111111111111111111111111111113'),
+        amount: new BigNumber(1),
+        token: { assetType: ChainAssetType.Native }
+      };
+
+      await wallet.batchTransfer([nativeTransfer, { ...nativeTransfer, payload: 'deposit-42' }, nativeTransfer]);
+
+      const connectionManager = (wallet as any).connectionManager;
+      const nativeHandler = (wallet as any).assetHandlers.get(ChainAssetType.Native);
+      expect(connectionManager.sendAndConfirmRawTransaction).toHaveBeenCalledTimes(2);
+      expect(connectionManager.prepareTransaction.mock.calls[0][0].instructions).toHaveLength(2);
+      expect(nativeHandler.buildTransfer).toHaveBeenLastCalledWith(expect.objectContaining({ payload: 'deposit-42' }));
+    });
+
+    it('should reject memos that do not fit in a transaction', async () => {
+      const { base } = await import('@delandlabs/crypto-lib');
+      const transfer = {
+        recipientAddress: createSolanaAddress('11111111111111111111111111111113'),
+        amount: new BigNumber(1),
+        token: { assetType: ChainAssetType.Native },
+        payload: 'deposit-42'
+      };
+
+      vi.mocked(base.toUtf8).mockReturnValueOnce(new Uint8Array(567));
+      await expect(wallet.transfer(transfer)).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        message: 'Solana: Memo exceeds 566 bytes'
+      });
+
+      const nativeHandler = (wallet as any).assetHandlers.get(ChainAssetType.Native);
+      nativeHandler.buildTransfer.mockResolvedValueOnce({
+        instructions: [],
+        compileMessage: vi.fn().mockReturnValue({
+          header: { numRequiredSignatures: 1 },
+          serialize: vi.fn().mockReturnValue(new Uint8Array(1200))
+        })
+      });
+      await expect(wallet.transfer(transfer)).rejects.toThrow(
+        'Solana: Transaction of 1265 bytes exceeds the 1232-byte packet limit'
+      );
+      expect((wallet as any).connectionManager.sendAndConfirmRawTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('offline signing', () => {
+    it('should build and sign a transfer without broadcasting it', async () => {
+      const unsigned = await wallet.buildTransfer({
+        recipientAddress: createSolanaAddress('11111111111111111111111111111113'),
+        amount: new BigNumber(1),
+        token: { assetType: ChainAssetType.Native }
+      });
+
+      expect(unsigned.chain).toBe(createMockChainInfo().chainId.chain.toString());
+      expect(unsigned.amount).toBe('1');
+      expect(unsigned.data).toEqual({ serializedTransaction: 'dGVzdA==', lastValidBlockHeight: 1000 });
+
+      const signed = await wallet.signTransaction(unsigned);
+
+      expect(signed.txHash).toBe('test-signature');
+      expect(signed.data).toEqual({ serializedTransaction: 'dGVzdA==', lastValidBlockHeight: 1000 });
+
+      const connectionManager = (wallet as any).connectionManager;
+      expect(connectionManager.sendAndConfirmRawTransaction).not.toHaveBeenCalled();
+
+      await expect(wallet.broadcastTransaction(signed)).resolves.toBe('test-signature');
+      expect(connectionManager.sendAndConfirmRawTransaction).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        'test-blockhash',
+        1000,
+        'test-signature'
+      );
+    });
+
+    it('should build, sign and broadcast version 0 transactions with address lookup tables', async () => {
+      const { VersionedTransaction } = await import('@solana/web3.js');
+      const connectionManager = (wallet as any).connectionManager;
+      connectionManager.prepareVersionedTransaction.mockResolvedValueOnce({
+        transaction: new (VersionedTransaction as any)(),
+        lastValidBlockHeight: 1000
+      });
+      const transfer: TransferParams & ExtendedTransferParams = {
+        recipientAddress: createSolanaAddress('11111111111111111111111111111113'),
+        amount: new BigNumber(1),
+        token: { assetType: ChainAssetType.Native },
+        transactionVersion: 0,
+        addressLookupTables: ['11111111111111111111111111111115']
+      };
+
+      const unsigned = await wallet.buildTransfer(transfer);
+
+      expect(connectionManager.prepareVersionedTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ instructions: [{ data: 'transfer' }] }),
+        ['11111111111111111111111111111115']
+      );
+      expect(connectionManager.prepareTransaction).not.toHaveBeenCalled();
+      expect(unsigned.data).toEqual({ serializedTransaction: 'dGVzdA==', lastValidBlockHeight: 1000, version: 0 });
+
+      const signed = await wallet.signTransaction(unsigned);
+
+      expect(VersionedTransaction.deserialize).toHaveBeenCalled();
+      expect(signed.txHash).toBe('test-signature');
+      expect(signed.data.version).toBe(0);
+
+      await expect(wallet.broadcastTransaction(signed)).resolves.toBe('test-signature');
+      expect(connectionManager.sendAndConfirmRawTransaction).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        'test-blockhash',
+        1000,
+        'test-signature'
+      );
+    });
+
+    it('should reject address lookup tables for legacy transactions', async () => {
+      const transfer: TransferParams & ExtendedTransferParams = {
+        recipientAddress: createSolanaAddress('11111111111111111111111111111113'),
+        amount: new BigNumber(1),
+        token: { assetType: ChainAssetType.Native },
+        addressLookupTables: ['11111111111111111111111111111115']
+      };
+
+      const invalidLookupTable: TransferParams & ExtendedTransferParams = {
+        ...transfer,
+        transactionVersion: 0,
+        addressLookupTables: ['not-an-address']
+      };
+
+      await expect(wallet.buildTransfer(transfer)).rejects.toThrow(
+        'Address lookup tables require a version 0 transaction'
+      );
+      await expect(wallet.buildTransfer(invalidLookupTable)).rejects.toThrow(
+        'Invalid address lookup table address not-an-address'
+      );
+    });
+
+    it('should reject transactions built for another network', async () => {
+      const unsigned = await wallet.buildTransfer({
+        recipientAddress: createSolanaAddress('11111111111111111111111111111113'),
+        amount: new BigNumber(1),
+        token: { assetType: ChainAssetType.Native }
+      });
+
+      await expect(wallet.signTransaction({ ...unsigned, network: 'devnet' })).rejects.toThrow(
+        'Transaction was built for a different chain'
+      );
+    });
+  });
+
+  describe('transfer simulation', () => {
+    it('should return fee and balance changes when the simulation succeeds', async () => {
+      const result = await wallet.simulateTransfer({
+        recipientAddress: createSolanaAddress('11111111111111111111111111111113'),
+        amount: new BigNumber(0.5),
+        token: { assetType: ChainAssetType.Native }
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.fee.toString()).toBe('0.001');
+      expect(result.balanceChanges).toEqual([
+        {
+          address: '11111111111111111111111111111112',
+          token: { assetType: ChainAssetType.Native },
+          amount: new BigNumber(-0.501)
+        },
+        {
+          address: '11111111111111111111111111111113',
+          token: { assetType: ChainAssetType.Native },
+          amount: new BigNumber(0.5)
+        }
+      ]);
+    });
+
+    it('should report the simulation failure reason', async () => {
+      const connectionManager = (wallet as any).connectionManager;
+      connectionManager.getSimulationFailure.mockResolvedValueOnce('Instruction 0 failed: {"Custom":1}');
+
+      const result = await wallet.simulateTransfer({
+        recipientAddress: createSolanaAddress('11111111111111111111111111111113'),
+        amount: new BigNumber(0.5),
+        token: { assetType: ChainAssetType.Native }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.failureReason).toBe('Instruction 0 failed: {"Custom":1}');
+      expect(connectionManager.sendAndConfirmRawTransaction).not.toHaveBeenCalled();
+    });
   });
 
   describe('fee estimation', () => {
@@ -61,7 +61,9 @@ export function createMockConnection() {
     getBalance: vi.fn(),
     getFeeForMessage: vi.fn(),
     getMinimumBalanceForRentExemption: vi.fn(),
-    simulateTransaction: vi.fn()
+    simulateTransaction: vi.fn(),
+    getSignaturesForAddress: vi.fn(),
+    getParsedTransactions: vi.fn()
   };
 }
 
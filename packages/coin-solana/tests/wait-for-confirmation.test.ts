@@ -18,6 +18,9 @@ vi.mock('@delandlabs/crypto-lib', () => ({
     .fn()
     .mockResolvedValue('37df573b3ac4ad5b522e064e25b63ea16bcbe79d449e81a0268d1047948bb445'),
   EncodingFormat: { HEX: 'hex' },
+  getEd25519PublicKey: vi.fn().mockReturnValue(new Uint8Array(32)),
+  signEd25519: vi.fn().mockReturnValue(new Uint8Array(64)),
+  clearSensitiveArrays: vi.fn(),
   validateMnemonic: vi.fn().mockReturnValue(true),
   hexToBytes: vi.fn().mockImplementation((hex) => {
     const cleanHex = hex.startsWith('0x') ? hex.slice(2) : hex;
@@ -50,33 +53,12 @@ vi.mock('@delandlabs/crypto-lib', () => ({
   }
 }));
 
-// Mock tweetnacl
-vi.mock('tweetnacl', () => ({
-  sign: {
-    keyPair: {
-      fromSeed: vi.fn().mockReturnValue({
-        publicKey: new Uint8Array(32),
-        secretKey: new Uint8Array(64)
-      })
-    },
-    detached: vi.fn().mockReturnValue(new Uint8Array(64))
-  }
-}));
-
 // Mock Solana Web3 dependencies
 vi.mock('@solana/web3.js', () => ({
-  Keypair: {
-    fromSecretKey: vi.fn().mockReturnValue({
-      publicKey: {
-        toBase58: () => 'test-public-key',
-        toBytes: () => new Uint8Array(32)
-      },
-      secretKey: new Uint8Array(64)
-    })
-  },
   PublicKey: vi.fn().mockImplementation((key) => ({
-    toBase58: () => key,
-    toString: () => key
+    toBase58: () => (typeof key === 'string' ? key : 'test-public-key'),
+    toString: () => key,
+    toBytes: () => new Uint8Array(32)
   })),
   Connection: vi.fn().mockImplementation(() => ({
     getSignatureStatus: vi.fn(),
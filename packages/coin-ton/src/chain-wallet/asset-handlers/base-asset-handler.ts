@@ -1,14 +1,23 @@
 import BigNumber from 'bignumber.js';
-import { ILogger, BalanceQueryParams, TransferParams } from '@delandlabs/coin-base';
+import {
+  ILogger,
+  BalanceQueryParams,
+  TransferParams,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  ArgumentError,
+  HibitIdSdkErrorCode
+} from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
-import { TonClient, WalletContractV4 } from '@ton/ton';
-import { KeyPair } from '@ton/crypto';
+import { Address, TonClient, Transaction, WalletContractV4 } from '@ton/ton';
+import { TON_CONFIG } from '../config';
+import { TonUnsignedTransactionData } from '../types';
 
 /**
  * Abstract base class for TON asset handlers.
  *
  * Each asset type (Native TON, Jetton tokens, etc.) should extend this class
- * to provide specific implementation for balance queries, transfers, and fee estimation.
+ * to provide specific implementation for balance queries, transfer building, and fee estimation.
  *
  * This follows the Strategy pattern to separate concerns and make the codebase
  * more maintainable and extensible.
@@ -20,7 +29,6 @@ export abstract class BaseAssetHandler {
   constructor(
     protected readonly client: TonClient,
     protected readonly wallet: WalletContractV4,
-    protected readonly keyPair: KeyPair,
     protected readonly logger: ILogger
   ) {}
 
@@ -32,11 +40,11 @@ export abstract class BaseAssetHandler {
   abstract balanceOf(params: BalanceQueryParams): Promise<BigNumber>;
 
   /**
-   * Execute transfer for the specified asset
+   * Build an unsigned wallet transfer for the specified asset
    * @param params - Transfer parameters including recipient, amount, and token info
-   * @returns Promise resolving to the transaction ID
+   * @returns Promise resolving to the seqno, send mode and internal messages to sign
    */
-  abstract transfer(params: TransferParams): Promise<string>;
+  abstract buildTransfer(params: TransferParams): Promise<TonUnsignedTransactionData>;
 
   /**
    * Estimate transaction fee for the specified asset
@@ -45,6 +53,13 @@ export abstract class BaseAssetHandler {
    */
   abstract estimateFee(params: TransferParams): Promise<BigNumber>;
 
+  /**
+   * List transfers of the asset to and from an address, newest first
+   * @param params - History query parameters with the page size already resolved
+   * @returns Promise resolving to one page of transaction records
+   */
+  abstract getTransactionHistory(params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage>;
+
   /**
    * Get the asset type this handler supports
    * @returns The ChainAssetType this handler is responsible for
@@ -73,4 +88,56 @@ export abstract class BaseAssetHandler {
   cleanup(): void {
     // Default implementation - subclasses can override if needed
   }
+
+  /**
+   * Fetch one page of transactions of a contract, newest first
+   * The cursor is the "lt:hash" of the last transaction of the previous page.
+   * @param address - Contract whose transactions are listed
+   * @param cursor - Cursor returned in nextCursor
+   * @param limit - Maximum number of transactions
+   * @returns Transactions with the cursor of the next page
+   */
+  protected async getTransactionPage(
+    address: Address,
+    cursor: string | undefined,
+    limit: number
+  ): Promise<{ transactions: Transaction[]; nextCursor?: string }> {
+    let transactions: Transaction[];
+    if (cursor) {
+      const [lt, hash] = this.parseHistoryCursor(cursor);
+      // Listing starts at the cursor transaction itself, which the previous page already returned
+      const page = await this.client.getTransactions(address, { limit: limit + 1, lt, hash });
+      transactions = page.filter((transaction) => transaction.lt.toString() !== lt);
+    } else {
+      transactions = await this.client.getTransactions(address, { limit });
+    }
+
+    transactions = transactions.slice(0, limit);
+    const last = transactions[transactions.length - 1];
+    const nextCursor =
+      transactions.length === limit ? `${last.lt.toString()}:${last.hash().toString('base64')}` : undefined;
+    return { transactions, nextCursor };
+  }
+
+  /**
+   * Split an "lt:hash" history cursor
+   */
+  private parseHistoryCursor(cursor: string): [string, string] {
+    const [lt, hash] = cursor.split(':');
+    if (!/^\d+$/.test(lt ?? '') || !hash) {
+      throw new ArgumentError(HibitIdSdkErrorCode.INVALID_ARGUMENT, `${TON_CONFIG.CHAIN_NAME}: Invalid history cursor`, {
+        argumentName: 'cursor',
+        expectedType: 'cursor returned by getTransactionHistory',
+        providedValue: cursor
+      });
+    }
+    return [lt, hash];
+  }
+
+  /**
+   * Whether a transaction failed in its compute or action phase
+   */
+  protected isFailedTransaction(transaction: Transaction): boolean {
+    return transaction.description.type === 'generic' && transaction.description.aborted;
+  }
 }
@@ -1,9 +1,13 @@
 import BigNumber from 'bignumber.js';
-import { Address, toNano, internal, SendMode, JettonMaster, JettonWallet, beginCell } from '@ton/ton';
+import { Address, toNano, SendMode, JettonMaster, JettonWallet, beginCell, Transaction } from '@ton/ton';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
 import {
   BalanceQueryParams,
   TransferParams,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  TransactionRecord,
+  TransactionDirection,
   TransactionError,
   BalanceQueryError,
   HibitIdSdkErrorCode,
@@ -11,7 +15,7 @@ import {
 } from '@delandlabs/coin-base';
 import { BaseAssetHandler } from './base-asset-handler';
 import { TON_CONFIG, TonRetry, TON_CACHE_CONFIG } from '../config';
-import { base } from '@delandlabs/crypto-lib';
+import { TonUnsignedTransactionData } from '../types';
 
 /**
  * Handler for Jetton (TON token standard) operations.
@@ -48,11 +52,11 @@ export class JettonHandler extends BaseAssetHandler {
   }
 
   /**
-   * Transfer Jetton tokens
+   * Build an unsigned Jetton transfer
    * Note: Address, amount and token validation is handled at wallet level
    * Note: Amount is expected in smallest unit
    */
-  async transfer(params: TransferParams): Promise<string> {
+  async buildTransfer(params: TransferParams): Promise<TonUnsignedTransactionData> {
     const { recipientAddress, amount, token } = params;
 
     if (!token?.tokenAddress) {
@@ -101,29 +105,18 @@ export class JettonHandler extends BaseAssetHandler {
       .storeBit(false) // forward_payload in this cell, not separate cell
       .endCell();
 
-    // Create wallet transfer
-    const transfer = this.wallet.createTransfer({
-      secretKey: this.keyPair.secretKey,
+    return {
       seqno,
       sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
       messages: [
-        internal({
-          value: toNano(TON_CONFIG.JETTON_TRANSFER_AMOUNT.toString()),
-          to: jettonWallet.address,
+        {
+          to: jettonWallet.address.toString(),
+          value: toNano(TON_CONFIG.JETTON_TRANSFER_AMOUNT.toString()).toString(),
           bounce: true,
-          body: jettonTransfer
-        })
+          body: jettonTransfer.toBoc().toString('base64')
+        }
       ]
-    });
-
-    // Send transaction
-    const openedWallet = this.client.open(this.wallet);
-    await openedWallet.send(transfer);
-
-    // Calculate transaction hash
-    const hash = base.toHex(transfer.hash());
-
-    return hash;
+    };
   }
 
   /**
@@ -136,6 +129,39 @@ export class JettonHandler extends BaseAssetHandler {
     return new BigNumber(toNano(feeInTon.toString()).toString());
   }
 
+  /**
+   * List Jetton transfers of a wallet, newest first
+   * Reads the owner's Jetton wallet: transfer requests from the owner are outgoing,
+   * internal transfers from other Jetton wallets are incoming. Other messages are skipped.
+   * Fees are paid across several contracts and are not reported.
+   * Note: Address and token validation is handled at wallet level
+   */
+  async getTransactionHistory(params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage> {
+    const { address, token, cursor, limit } = params;
+    const jettonWallet = await this.getJettonWallet(address, token.tokenAddress!);
+    const { transactions, nextCursor } = await this.getTransactionPage(jettonWallet.address, cursor, limit);
+
+    const records: TransactionRecord[] = [];
+    for (const transaction of transactions) {
+      const transfer = this.parseJettonTransfer(transaction);
+      if (!transfer) {
+        continue;
+      }
+
+      records.push({
+        hash: transaction.hash().toString('hex'),
+        direction: transfer.direction,
+        counterparty: transfer.counterparty,
+        amount: transfer.amount,
+        token,
+        status: this.isFailedTransaction(transaction) ? 'failed' : 'confirmed',
+        timestamp: transaction.now * 1000
+      });
+    }
+
+    return { records, nextCursor };
+  }
+
   getAssetType(): ChainAssetType {
     return ChainAssetType.Jetton;
   }
@@ -235,6 +261,36 @@ export class JettonHandler extends BaseAssetHandler {
     return jettonWallet;
   }
 
+  /**
+   * Decode the Jetton transfer carried by the in-message of a Jetton wallet transaction
+   * @returns Direction, owner-level counterparty and amount, or undefined for other messages
+   */
+  private parseJettonTransfer(
+    transaction: Transaction
+  ): { direction: TransactionDirection; counterparty: string; amount: BigNumber } | undefined {
+    const message = transaction.inMessage;
+    if (message?.info.type !== 'internal') {
+      return undefined;
+    }
+
+    const body = message.body.beginParse();
+    if (body.remainingBits < 32) {
+      return undefined;
+    }
+
+    const op = body.loadUint(32);
+    if (op !== TON_CONFIG.JETTON_TRANSFER_OPCODE && op !== TON_CONFIG.JETTON_INTERNAL_TRANSFER_OPCODE) {
+      return undefined;
+    }
+
+    body.skip(64); // query_id
+    const amount = new BigNumber(body.loadCoins().toString());
+    // transfer carries the destination owner, internal_transfer the sending owner
+    const counterparty = body.loadAddress().toString();
+    const direction = op === TON_CONFIG.JETTON_TRANSFER_OPCODE ? 'outgoing' : 'incoming';
+    return { direction, counterparty, amount };
+  }
+
   /**
    * Query raw native balance for gas checks (no caching for balance queries)
    */
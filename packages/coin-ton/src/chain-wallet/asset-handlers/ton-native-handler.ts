@@ -1,10 +1,17 @@
 import BigNumber from 'bignumber.js';
-import { Address, toNano, internal, SendMode } from '@ton/ton';
+import { Address, toNano, internal, SendMode, comment } from '@ton/ton';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
-import { BalanceQueryParams, TransferParams } from '@delandlabs/coin-base';
+import {
+  BalanceQueryParams,
+  TransferParams,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  TransactionRecord,
+  getTransactionDirection
+} from '@delandlabs/coin-base';
 import { BaseAssetHandler } from './base-asset-handler';
 import { TON_CONFIG } from '../config';
-import { base } from '@delandlabs/crypto-lib';
+import { TonUnsignedTransactionData } from '../types';
 
 /**
  * Handler for native TON asset operations.
@@ -29,42 +36,34 @@ export class TonNativeHandler extends BaseAssetHandler {
   }
 
   /**
-   * Transfer native TON
+   * Build an unsigned native TON transfer
    * Note: Address, amount and token validation is handled at wallet level
    * Note: Amount is expected in nanotons (smallest unit)
    */
-  async transfer(params: TransferParams): Promise<string> {
+  async buildTransfer(params: TransferParams): Promise<TonUnsignedTransactionData> {
     const { recipientAddress, amount, payload } = params;
 
     // Get initial sequence number
     const seqno = await this.getCurrentSeqno();
 
-    // Amount is already in nanotons, convert to bigint for TON SDK
-    const nanotonAmount = BigInt(amount.integerValue(BigNumber.ROUND_FLOOR).toString());
+    // Amount is already in nanotons
+    const nanotonAmount = amount.integerValue(BigNumber.ROUND_FLOOR);
+
+    // Payload is sent as a text comment
+    const body = comment(payload || '');
 
-    // Prepare transaction
-    const transfer = this.wallet.createTransfer({
-      secretKey: this.keyPair.secretKey,
+    return {
       seqno,
       sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
       messages: [
-        internal({
-          value: nanotonAmount,
-          to: Address.parse(recipientAddress),
+        {
+          to: recipientAddress,
+          value: nanotonAmount.toFixed(),
           bounce: this.getAddressBounceable(recipientAddress),
-          body: payload || ''
-        })
+          body: body.toBoc().toString('base64')
+        }
       ]
-    });
-
-    // Send transaction
-    const openedWallet = this.client.open(this.wallet);
-    await openedWallet.send(transfer);
-
-    // Calculate transaction hash
-    const hash = base.toHex(transfer.hash());
-
-    return hash;
+    };
   }
 
   /**
@@ -106,6 +105,46 @@ export class TonNativeHandler extends BaseAssetHandler {
     return new BigNumber(totalFeeNano.toString());
   }
 
+  /**
+   * List native TON transfers of a wallet, newest first
+   * Incoming transfers are read from the internal in-message, outgoing ones from the first internal out-message.
+   * Transactions moving no value, such as failed external messages, are skipped.
+   * Note: Address validation is handled at wallet level
+   */
+  async getTransactionHistory(params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage> {
+    const { address, token, cursor, limit } = params;
+    const owner = Address.parse(address);
+    const { transactions, nextCursor } = await this.getTransactionPage(owner, cursor, limit);
+    const normalize = (value: string) => Address.parse(value).toRawString();
+
+    const records: TransactionRecord[] = [];
+    for (const transaction of transactions) {
+      const inInfo = transaction.inMessage?.info;
+      const outInfo = transaction.outMessages.values().find((message) => message.info.type === 'internal')?.info;
+      const transfer = inInfo?.type === 'internal' ? inInfo : outInfo?.type === 'internal' ? outInfo : undefined;
+      if (!transfer) {
+        continue;
+      }
+
+      const from = transfer.src.toString();
+      const to = transfer.dest.toString();
+      const direction = getTransactionDirection(address, from, to, normalize);
+
+      records.push({
+        hash: transaction.hash().toString('hex'),
+        direction,
+        counterparty: direction === 'incoming' ? from : to,
+        amount: new BigNumber(transfer.value.coins.toString()),
+        token,
+        fee: new BigNumber(transaction.totalFees.coins.toString()),
+        status: this.isFailedTransaction(transaction) ? 'failed' : 'confirmed',
+        timestamp: transaction.now * 1000
+      });
+    }
+
+    return { records, nextCursor };
+  }
+
   getAssetType(): ChainAssetType {
     return ChainAssetType.Native;
   }
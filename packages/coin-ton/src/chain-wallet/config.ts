@@ -15,6 +15,9 @@ export const TON_CONFIG = {
   // Derivation path (merged from defaults.ts)
   DERIVING_PATH: "m/44'/607'/0'",
 
+  // Default wallet v4 subwallet ID on the basechain
+  DEFAULT_WALLET_ID: 698983191,
+
   // Transaction fees (lazy initialization to avoid module loading issues)
   get JETTON_TRANSFER_AMOUNT() {
     return new BigNumber(0.1);
@@ -23,6 +26,9 @@ export const TON_CONFIG = {
     return new BigNumber(0.0001);
   },
 
+  // Internal messages per wallet v4 transfer
+  MAX_TRANSFER_MESSAGES: 4,
+
   // Retry configuration
   MAX_RETRIES: 10,
   RETRY_DELAY_MS: 3000,
@@ -46,9 +52,17 @@ export const TON_CONFIG = {
 
   // Jetton operation codes
   JETTON_TRANSFER_OPCODE: 0x0f8a7ea5, // opcode for jetton transfer
+  JETTON_INTERNAL_TRANSFER_OPCODE: 0x178d4519, // opcode for jetton transfer between jetton wallets
   JETTON_COMMENT_OPCODE: 0 // 0 opcode means we have a comment
 } as const;
 
+/**
+ * Derivation path of the account at the given index, used with Ed25519 key derivation
+ */
+export function getDerivingPath(accountIndex: number): string {
+  return `m/44'/607'/${accountIndex}'`;
+}
+
 /**
  * Cache configuration for TON chain wallet operations
  */
@@ -71,16 +85,6 @@ export const TON_CACHE_CONFIG = {
     ttl: 10 * 60 * 1000, // 10 minutes
     max: 50, // Cache up to 50 jetton wallet contracts
     key: (ownerAddress: string, contractAddress: string) => `ton:jetton-wallet:${ownerAddress}:${contractAddress}`
-  },
-
-  /**
-   * Network RPC endpoint cache configuration
-   * RPC endpoints are stable
-   */
-  RPC_ENDPOINT: {
-    ttl: 60 * 60 * 1000, // 1 hour
-    max: 5, // Few different networks
-    key: (network: string) => `ton:rpc-endpoint:${network}`
   }
 } as const;
 
@@ -14,3 +14,4 @@
  */
 
 export * from './wallet';
+export type { TonTransferMessage, TonUnsignedTransactionData, TonSignedTransactionData } from './types';
@@ -0,0 +1,63 @@
+import nacl from 'tweetnacl';
+import { mnemonicToPrivateKey } from '@ton/crypto';
+import type { KeyPair } from '@ton/crypto';
+import { GeneralWalletError, HibitIdSdkErrorCode, ISigner, SignerKeyType } from '@delandlabs/coin-base';
+import { TON_CONFIG } from './config';
+
+/**
+ * Signer holding the key of a TON native mnemonic
+ *
+ * TON mnemonics derive their key with @ton/crypto rather than along a BIP32 path, so
+ * MnemonicSigner cannot derive it. The key is derived on first use; the mnemonic is
+ * released as soon as it has been derived.
+ */
+export class TonMnemonicSigner implements ISigner {
+  public readonly keyType: SignerKeyType = 'ed25519';
+  private mnemonic: string | null;
+  private keyPair: Promise<KeyPair> | null = null;
+
+  /**
+   * @param mnemonic - The TON mnemonic phrase to derive the key from
+   */
+  constructor(mnemonic: string) {
+    this.mnemonic = mnemonic;
+  }
+
+  public async getPublicKey(): Promise<Uint8Array> {
+    return new Uint8Array((await this.getKeyPair()).publicKey);
+  }
+
+  public async signBytes(message: Uint8Array): Promise<Uint8Array> {
+    return nacl.sign.detached(message, (await this.getKeyPair()).secretKey);
+  }
+
+  public async signDigest(): Promise<Uint8Array> {
+    throw new GeneralWalletError(
+      HibitIdSdkErrorCode.OPERATION_NOT_SUPPORTED,
+      `${TON_CONFIG.CHAIN_NAME}: Ed25519 keys cannot sign precomputed digests`
+    );
+  }
+
+  public destroy(): void {
+    this.mnemonic = null;
+    this.keyPair?.then((keyPair) => keyPair.secretKey.fill(0)).catch(() => undefined);
+    this.keyPair = null;
+  }
+
+  /**
+   * Derive the key pair on first use and cache it
+   */
+  private getKeyPair(): Promise<KeyPair> {
+    if (!this.keyPair) {
+      if (!this.mnemonic) {
+        throw new GeneralWalletError(
+          HibitIdSdkErrorCode.WALLET_NOT_CONNECTED,
+          `${TON_CONFIG.CHAIN_NAME}: Signer has been destroyed`
+        );
+      }
+      this.keyPair = mnemonicToPrivateKey(this.mnemonic.split(' '));
+      this.mnemonic = null;
+    }
+    return this.keyPair;
+  }
+}
@@ -25,3 +25,34 @@ export interface TonKeyPair {
   publicKey: Buffer;
   secretKey: Buffer;
 }
+
+/**
+ * Internal message carried by an unsigned TON wallet transfer
+ */
+export interface TonTransferMessage {
+  /** Destination address */
+  to: string;
+  /** Attached value in nanotons, as a decimal string */
+  value: string;
+  bounce: boolean;
+  /** Base64 encoded BOC of the message body */
+  body: string;
+}
+
+/**
+ * Chain-specific data of an unsigned TON transaction
+ */
+export interface TonUnsignedTransactionData {
+  /** Wallet sequence number the transfer is bound to */
+  seqno: number;
+  sendMode: number;
+  messages: TonTransferMessage[];
+}
+
+/**
+ * Chain-specific data of a signed TON transaction
+ */
+export interface TonSignedTransactionData {
+  /** Base64 encoded BOC of the external message, ready for sendBoc */
+  boc: string;
+}
@@ -1,25 +1,47 @@
 import BigNumber from 'bignumber.js';
 import { deriveEd25519PrivateKey, base } from '@delandlabs/crypto-lib';
-import { TonClient, WalletContractV4 } from '@ton/ton';
+import {
+  TonClient,
+  WalletContractV4,
+  Address,
+  Cell,
+  beginCell,
+  external,
+  internal,
+  loadMessage,
+  storeMessage
+} from '@ton/ton';
 import { mnemonicToPrivateKey } from '@ton/crypto';
 import nacl from 'tweetnacl';
 import { ChainAccount, ChainNetwork, ChainType, ChainAssetType } from '@delandlabs/hibit-basic-types';
 import {
   BaseChainWallet,
   WalletConfig,
+  DerivationOptions,
   ChainInfo,
+  ISigner,
+  WatchOnlyAccount,
   NetworkError,
+  MnemonicError,
   MessageSigningError,
   GeneralWalletError,
   ArgumentError,
   HibitIdSdkErrorCode,
   BalanceQueryParams,
   TransferParams,
+  UnsignedTransaction,
+  SignedTransaction,
+  TransferSimulationResult,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
   SignMessageParams,
   TokenIdentifier,
   ILogger,
   createReadyPromise,
   cleanupReferences,
+  createUnsignedTransaction,
+  createSignedTransaction,
+  assertTransactionForChain,
   assertValidAddressForBalance,
   assertValidAddressForTransaction,
   assertValidTransferAmount,
@@ -33,18 +55,22 @@ import {
   TransactionConfirmationResult,
   withLogging,
   clearAllCaches,
-  Cacheable,
   cleanSensitiveData,
-  getAssetTypeName
+  getAssetTypeName,
+  assertValidDerivationPath,
+  chunkItems,
+  TransactionError
 } from '@delandlabs/coin-base';
 import type { KeyPair } from '@ton/crypto';
 
 export interface TonWalletOptions {
   keyDerivationMethod?: 'ton-native' | 'ed25519';
 }
-import { TON_CONFIG, TON_CACHE_CONFIG } from './config';
+import { TON_CONFIG, getDerivingPath } from './config';
 import { BaseAssetHandler, TonNativeHandler, JettonHandler } from './asset-handlers';
 import { sleep } from './utils';
+import { TonMnemonicSigner } from './ton-mnemonic-signer';
+import { TonUnsignedTransactionData, TonSignedTransactionData, TonTransferMessage } from './types';
 
 // Register TON validators
 
@@ -78,7 +104,7 @@ import { sleep } from './utils';
  */
 export class TonChainWallet extends BaseChainWallet {
   // Private fields
-  private keyPair: KeyPair | null = null;
+  private signer: ISigner | null = null;
   private client: TonClient | null = null;
   private wallet: WalletContractV4 | null = null;
   private readonly readyPromise: Promise<void>;
@@ -89,7 +115,17 @@ export class TonChainWallet extends BaseChainWallet {
   // Key derivation method
   private keyDerivationMethod: 'ton-native' | 'ed25519' = 'ton-native';
 
-  constructor(chainInfo: ChainInfo, mnemonic: string, options?: TonWalletOptions & { logger?: ILogger }) {
+  /**
+   * @param chainInfo - Chain configuration of the TON network
+   * @param mnemonicOrSigner - Mnemonic phrase, an Ed25519 signer holding the wallet key, or an account to watch;
+   * watched accounts need publicKeyHex
+   * @param options - Key derivation method, logger and derivation options; key derivation only applies to mnemonics
+   */
+  constructor(
+    chainInfo: ChainInfo,
+    mnemonicOrSigner: string | ISigner | WatchOnlyAccount,
+    options?: TonWalletOptions & { logger?: ILogger } & DerivationOptions
+  ) {
     if (chainInfo.chainId.chain !== ChainType.Ton) {
       throw new NetworkError(
         HibitIdSdkErrorCode.INVALID_CONFIGURATION,
@@ -97,11 +133,35 @@ export class TonChainWallet extends BaseChainWallet {
       );
     }
 
+    // TON native keys are not derived along a path; Ed25519 (SLIP-0010) paths must be fully hardened
+    if (options?.derivationPath !== undefined) {
+      if (options.keyDerivationMethod !== 'ed25519') {
+        throw new MnemonicError(
+          HibitIdSdkErrorCode.INVALID_DERIVATION_PATH,
+          `${TON_CONFIG.CHAIN_NAME}: Custom derivation paths require the ed25519 key derivation method`,
+          { derivationPath: options.derivationPath }
+        );
+      }
+      assertValidDerivationPath(options.derivationPath, TON_CONFIG.CHAIN_NAME, true);
+    }
+
     const config: WalletConfig = {
       chainInfo,
-      logger: options?.logger
+      logger: options?.logger,
+      accountIndex: options?.accountIndex,
+      derivationPath: options?.derivationPath
     };
-    super(config, mnemonic);
+    super(config, mnemonicOrSigner);
+
+    // The wallet contract is derived from the public key, so an address alone cannot be watched
+    const watchOnlyAccount = this.getWatchOnlyAccount();
+    if (watchOnlyAccount && watchOnlyAccount.publicKeyHex === undefined) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${TON_CONFIG.CHAIN_NAME}: Watch-only wallets require publicKeyHex`,
+        { argumentName: 'publicKeyHex', expectedType: 'hex string' }
+      );
+    }
 
     // Set key derivation method
     if (options?.keyDerivationMethod) {
@@ -110,7 +170,11 @@ export class TonChainWallet extends BaseChainWallet {
 
     // Create ready promise
     this.readyPromise = createReadyPromise(async () => {
-      await this.initializeWallet(mnemonic);
+      if (watchOnlyAccount) {
+        await this.initializeWatchOnlyWallet(watchOnlyAccount);
+      } else {
+        await this.initializeWallet(typeof mnemonicOrSigner === 'string' ? mnemonicOrSigner : null);
+      }
       this.initializeAssetHandlers();
     });
   }
@@ -129,7 +193,17 @@ export class TonChainWallet extends BaseChainWallet {
   protected async getAccountImpl(): Promise<ChainAccount> {
     await this.readyPromise;
     const address = this.wallet!.address;
-    return new ChainAccount(this.chainInfo.chainId, address.toRawString(), this.keyPair!.publicKey.toString('hex'));
+    return new ChainAccount(this.chainInfo.chainId, address.toRawString(), this.wallet!.publicKey.toString('hex'));
+  }
+
+  /**
+   * Derive the account at an account index for getAccounts
+   */
+  @cleanSensitiveData()
+  protected async deriveAccountImpl(mnemonic: string, accountIndex: number): Promise<ChainAccount> {
+    const keyPair = await this.deriveKeyPair(mnemonic, getDerivingPath(accountIndex));
+    const wallet = this.createWalletContract(keyPair.publicKey, accountIndex);
+    return new ChainAccount(this.chainInfo.chainId, wallet.address.toRawString(), keyPair.publicKey.toString('hex'));
   }
 
   /**
@@ -148,8 +222,7 @@ export class TonChainWallet extends BaseChainWallet {
 
     const messageBytes = typeof message === 'string' ? new TextEncoder().encode(message) : message;
 
-    const signature = nacl.sign.detached(messageBytes, this.keyPair!.secretKey);
-    return signature;
+    return this.signer!.signBytes(messageBytes);
   }
 
   /**
@@ -171,22 +244,116 @@ export class TonChainWallet extends BaseChainWallet {
   }
 
   /**
-   * Transfer assets - delegates to appropriate handler
+   * Build unsigned transfer - delegates to appropriate handler
    */
-  protected async transferImpl(params: TransferParams): Promise<string> {
+  protected async buildTransferImpl(params: TransferParams): Promise<UnsignedTransaction<TonUnsignedTransactionData>> {
     await this.readyPromise;
+    await this.assertValidTransferParams(params);
 
-    // Validate address and amount using coin-base validators
-    assertValidAddressForTransaction(params.recipientAddress, ChainType.Ton, TON_CONFIG.CHAIN_NAME);
-    assertValidTransferAmount(params.amount, TON_CONFIG.CHAIN_NAME);
+    const handler = this.getAssetHandler(params.token?.assetType);
+    const data = await handler.buildTransfer(params);
+    return createUnsignedTransaction(this.chainInfo, params, data);
+  }
 
-    // Validate token address for Jetton
-    if (params.token?.assetType === ChainAssetType.Jetton) {
-      await assertValidTokenAddressForTransaction(params.token.tokenAddress, ChainType.Ton, TON_CONFIG.CHAIN_NAME);
+  /**
+   * Sign transfer locally into an external message
+   * The transaction hash is the hash of the signed wallet transfer body
+   */
+  protected async signTransactionImpl(
+    transaction: UnsignedTransaction<TonUnsignedTransactionData>
+  ): Promise<SignedTransaction<TonSignedTransactionData>> {
+    await this.readyPromise;
+
+    assertTransactionForChain(transaction, this.chainInfo, TON_CONFIG.CHAIN_NAME);
+
+    const { boc, txHash } = await this.signTransfer(transaction.data);
+    return createSignedTransaction(transaction, { boc }, txHash);
+  }
+
+  /**
+   * Implementation of batch transfers
+   * Up to TON_CONFIG.MAX_TRANSFER_MESSAGES transfers share one wallet transfer. Each further
+   * wallet transfer is sent once the previous one has advanced the wallet's seqno.
+   */
+  protected async batchTransferImpl(transfers: TransferParams[]): Promise<string[]> {
+    await this.readyPromise;
+    for (const params of transfers) {
+      await this.assertValidTransferParams(params);
     }
 
-    const handler = this.getAssetHandler(params.token?.assetType);
-    return handler.transfer(params);
+    const txHashes: string[] = [];
+    let previousSeqno: number | undefined;
+    for (const batch of chunkItems(transfers, TON_CONFIG.MAX_TRANSFER_MESSAGES)) {
+      if (previousSeqno !== undefined) {
+        await this.waitForSeqnoIncrement(previousSeqno);
+      }
+
+      const built: TonUnsignedTransactionData[] = [];
+      for (const params of batch) {
+        built.push(await this.getAssetHandler(params.token?.assetType).buildTransfer(params));
+      }
+      const messages: TonTransferMessage[] = built.flatMap((data) => data.messages);
+
+      const { boc, txHash } = await this.signTransfer({ ...built[0], messages });
+      await this.client!.sendFile(Buffer.from(boc, 'base64'));
+      txHashes.push(...batch.map(() => txHash));
+      previousSeqno = built[0].seqno;
+    }
+    return txHashes;
+  }
+
+  /**
+   * Sign a wallet transfer into an external message
+   * The signer signs the hash of the transfer's signing message
+   * @private
+   * @returns Base64 encoded BOC of the external message and the hash of the signed transfer body
+   */
+  private async signTransfer(data: TonUnsignedTransactionData): Promise<{ boc: string; txHash: string }> {
+    const { seqno, sendMode, messages } = data;
+    const signer = this.signer!;
+    const transfer = await this.wallet!.createTransfer({
+      signer: async (message: Cell) => Buffer.from(await signer.signBytes(message.hash())),
+      seqno,
+      sendMode,
+      messages: messages.map((message) =>
+        internal({
+          to: Address.parse(message.to),
+          value: BigInt(message.value),
+          bounce: message.bounce,
+          body: Cell.fromBase64(message.body)
+        })
+      )
+    });
+
+    // A wallet that has never sent anything is not deployed yet and needs its state init
+    const externalMessage = external({
+      to: this.wallet!.address,
+      init: seqno === 0 ? this.wallet!.init : undefined,
+      body: transfer
+    });
+    const boc = beginCell()
+      .store(storeMessage(externalMessage))
+      .endCell()
+      .toBoc()
+      .toString('base64');
+
+    return { boc, txHash: base.toHex(transfer.hash()) };
+  }
+
+  /**
+   * Broadcast a signed external message
+   */
+  protected async broadcastTransactionImpl(
+    transaction: SignedTransaction<TonSignedTransactionData>
+  ): Promise<string> {
+    await this.readyPromise;
+
+    assertTransactionForChain(transaction, this.chainInfo, TON_CONFIG.CHAIN_NAME);
+
+    const externalMessage = loadMessage(Cell.fromBase64(transaction.data.boc).beginParse());
+    await this.client!.sendFile(Buffer.from(transaction.data.boc, 'base64'));
+
+    return base.toHex(externalMessage.body.hash());
   }
 
   /**
@@ -208,12 +375,65 @@ export class TonChainWallet extends BaseChainWallet {
     return handler.estimateFee(params);
   }
 
+  /**
+   * Simulate transfer - checks the estimated fee and amount against current balances
+   */
+  protected async simulateTransferImpl(params: TransferParams): Promise<TransferSimulationResult> {
+    const fee = await this.estimateFeeImpl(params);
+    return this.simulateTransferWithBalances(params, fee, { assetType: ChainAssetType.Native });
+  }
+
+  /**
+   * List transaction history - delegates to appropriate handler
+   */
+  protected async getTransactionHistoryImpl(
+    params: TransactionHistoryParams & { limit: number }
+  ): Promise<TransactionHistoryPage> {
+    await this.readyPromise;
+
+    assertValidAddressForBalance(params.address, ChainType.Ton, TON_CONFIG.CHAIN_NAME);
+
+    // Validate token address for Jetton
+    if (params.token?.assetType === ChainAssetType.Jetton) {
+      await assertValidTokenAddressForBalance(params.token.tokenAddress, ChainType.Ton, TON_CONFIG.CHAIN_NAME);
+    }
+
+    const handler = this.getAssetHandler(params.token?.assetType);
+    return handler.getTransactionHistory(params);
+  }
+
+  /**
+   * Implementation of endpoint probing: requests the masterchain info
+   */
+  protected async checkEndpointImpl(url: string): Promise<void> {
+    await new TonClient({ endpoint: url }).getMasterchainInfo();
+  }
+
+  /**
+   * Reconnect to the endpoint the endpoint pool switched to
+   * The asset handlers hold the client, so they are recreated with the new one.
+   */
+  protected async onRpcEndpointChanged(url: string): Promise<void> {
+    if (!this.client) {
+      // Not initialized yet; initialization connects to the pool's current endpoint
+      return;
+    }
+
+    this.client = new TonClient({ endpoint: url });
+    this.initializeAssetHandlers();
+  }
+
   /**
    * Clean up wallet resources
    */
   protected destroyImpl(): void {
+    // Only the TON native signer was created by this wallet; createSigner's signers are destroyed by the base class
+    if (this.signer instanceof TonMnemonicSigner) {
+      this.signer.destroy();
+    }
+
     // Clear references to prevent memory leaks
-    cleanupReferences(this, ['keyPair', 'client', 'wallet']);
+    cleanupReferences(this, ['signer', 'client', 'wallet']);
 
     // Clear all caches
     clearAllCaches();
@@ -224,75 +444,132 @@ export class TonChainWallet extends BaseChainWallet {
   // ============================================
 
   /**
-   * Initialize the wallet from mnemonic
+   * Initialize the wallet from its signer
+   * TON native mnemonics are signed with a TonMnemonicSigner, Ed25519 mnemonics and signers through createSigner
    * @private
+   * @param mnemonic - The mnemonic the wallet was constructed with, or null for a signer
    */
   @withLogging('Initialize wallet')
   @cleanSensitiveData()
-  private async initializeWallet(mnemonic: string): Promise<void> {
+  private async initializeWallet(mnemonic: string | null): Promise<void> {
     // Get RPC endpoint
     const endpoint = await this.getRpcEndpoint();
 
     // Initialize TON client
     this.client = new TonClient({ endpoint });
 
-    // Derive key pair using configured method (strict mode - no fallback)
-    if (this.keyDerivationMethod === 'ed25519') {
-      await this.deriveEd25519KeyPair(mnemonic);
-    } else {
-      // Use TON native derivation without fallback
-      const keyPair = await mnemonicToPrivateKey(mnemonic.split(' '));
-      this.keyPair = keyPair;
-    }
+    // Sign with the configured key derivation method (strict mode - no fallback)
+    this.signer =
+      mnemonic !== null && this.keyDerivationMethod === 'ton-native'
+        ? new TonMnemonicSigner(mnemonic)
+        : this.createSigner('ed25519', getDerivingPath);
 
     // Create wallet contract
-    const walletContract = WalletContractV4.create({
-      workchain: 0,
-      publicKey: this.keyPair!.publicKey
-    });
-    this.wallet = walletContract;
+    this.wallet = this.createWalletContract(Buffer.from(await this.signer.getPublicKey()), this.accountIndex);
 
     // Logging handled by decorator
   }
 
+  /**
+   * Initialize a watch-only wallet from the watched account's public key
+   * @private
+   */
+  @withLogging('Initialize watch-only wallet')
+  private async initializeWatchOnlyWallet(account: WatchOnlyAccount): Promise<void> {
+    const endpoint = await this.getRpcEndpoint();
+    this.client = new TonClient({ endpoint });
+
+    // Watched accounts are v4 wallets with the default wallet id
+    this.wallet = this.createWalletContract(Buffer.from(base.fromHex(account.publicKeyHex!)), 0);
+    if (Address.parse(account.address).toRawString() !== this.wallet.address.toRawString()) {
+      throw new ArgumentError(
+        HibitIdSdkErrorCode.INVALID_ARGUMENT,
+        `${TON_CONFIG.CHAIN_NAME}: Watch-only address does not match publicKeyHex`,
+        { argumentName: 'address', providedValue: account.address }
+      );
+    }
+  }
+
+  /**
+   * Derive key pair using the configured key derivation method
+   * The derivation path only applies to Ed25519 derivation
+   * @private
+   */
+  private async deriveKeyPair(mnemonic: string, derivationPath: string): Promise<KeyPair> {
+    if (this.keyDerivationMethod === 'ed25519') {
+      return this.deriveEd25519KeyPair(mnemonic, derivationPath);
+    }
+    // Use TON native derivation without fallback
+    return mnemonicToPrivateKey(mnemonic.split(' '));
+  }
+
   /**
    * Derive Ed25519 key pair from mnemonic
    * @private
    */
   @withLogging('Derive Ed25519 key pair')
   @cleanSensitiveData()
-  private async deriveEd25519KeyPair(mnemonic: string): Promise<void> {
-    const privateKeyHex = await deriveEd25519PrivateKey(mnemonic, TON_CONFIG.DERIVING_PATH, false, 'hex' as any);
+  private async deriveEd25519KeyPair(mnemonic: string, derivationPath: string): Promise<KeyPair> {
+    const privateKeyHex = await deriveEd25519PrivateKey(mnemonic, derivationPath, false, 'hex' as any);
     const privateKeyBytes = base.fromHex(privateKeyHex);
     const keyPair = nacl.sign.keyPair.fromSeed(privateKeyBytes.slice(0, 32));
     const combinedKey = base.concatBytes(keyPair.secretKey.slice(0, 32), keyPair.publicKey);
-    this.keyPair = {
+    return {
       publicKey: Buffer.from(keyPair.publicKey),
       secretKey: Buffer.from(combinedKey)
     };
   }
 
+  /**
+   * Create the wallet v4 contract of an account
+   * TON native keys cannot be derived per account, so their accounts are subwallets of the same key
+   * @private
+   */
+  private createWalletContract(publicKey: Buffer, accountIndex: number): WalletContractV4 {
+    const subwalletIndex = this.keyDerivationMethod === 'ton-native' ? accountIndex : 0;
+    return WalletContractV4.create({
+      workchain: 0,
+      publicKey,
+      walletId: TON_CONFIG.DEFAULT_WALLET_ID + subwalletIndex
+    });
+  }
+
   /**
    * Initialize asset handlers after wallet is ready
    * @private
    */
   @withLogging('Initialize asset handlers')
   private initializeAssetHandlers(): void {
-    if (!this.client || !this.wallet || !this.keyPair) {
+    if (!this.client || !this.wallet) {
       throw new Error('Wallet not initialized');
     }
 
     // Create and register Native handler
-    const nativeHandler = new TonNativeHandler(this.client, this.wallet, this.keyPair, this.logger);
+    const nativeHandler = new TonNativeHandler(this.client, this.wallet, this.logger);
     this.assetHandlers.set(ChainAssetType.Native, nativeHandler);
 
     // Create and register Jetton handler
-    const jettonHandler = new JettonHandler(this.client, this.wallet, this.keyPair, this.logger);
+    const jettonHandler = new JettonHandler(this.client, this.wallet, this.logger);
     this.assetHandlers.set(ChainAssetType.Jetton, jettonHandler);
 
     // Logging handled by decorator
   }
 
+  /**
+   * Validate transfer parameters common to all assets
+   * @private
+   */
+  private async assertValidTransferParams(params: TransferParams): Promise<void> {
+    // Validate address and amount using coin-base validators
+    assertValidAddressForTransaction(params.recipientAddress, ChainType.Ton, TON_CONFIG.CHAIN_NAME);
+    assertValidTransferAmount(params.amount, TON_CONFIG.CHAIN_NAME);
+
+    // Validate token address for Jetton
+    if (params.token?.assetType === ChainAssetType.Jetton) {
+      await assertValidTokenAddressForTransaction(params.token.tokenAddress, ChainType.Ton, TON_CONFIG.CHAIN_NAME);
+    }
+  }
+
   /**
    * Get the appropriate asset handler for the given asset type
    * @private
@@ -319,26 +596,15 @@ export class TonChainWallet extends BaseChainWallet {
   }
 
   /**
-   * Get RPC endpoint with caching
+   * Get the current RPC endpoint of the endpoint pool
    * @private
    */
-  @Cacheable({
-    ttl: TON_CACHE_CONFIG.RPC_ENDPOINT.ttl,
-    max: TON_CACHE_CONFIG.RPC_ENDPOINT.max,
-    key: function (this: TonChainWallet) {
-      const networkType = this.chainInfo?.chainId?.network === ChainNetwork.TonTestNet ? 'testnet' : 'mainnet';
-      return TON_CACHE_CONFIG.RPC_ENDPOINT.key(networkType);
-    },
-    logger: function (this: TonChainWallet) {
-      return this.logger;
-    }
-  })
   @withLogging('Get RPC endpoint', undefined, (result: any) => ({ endpoint: result }))
   private async getRpcEndpoint(): Promise<string> {
-    // Use RPC URL from chainInfo if available
-    if (this.chainInfo.rpc && this.chainInfo.rpc.primary) {
+    // Use RPC URLs from chainInfo if available
+    if (this.endpointPool.hasEndpoints()) {
       // Logging handled by decorator
-      return this.chainInfo.rpc.primary;
+      return this.endpointPool.getCurrentUrl();
     }
 
     // Fallback to default endpoints
@@ -368,6 +634,25 @@ export class TonChainWallet extends BaseChainWallet {
     return (await openedWallet.getSeqno()) || 0;
   }
 
+  /**
+   * Wait until the wallet has processed the transfer sent with a seqno
+   * @private
+   */
+  private async waitForSeqnoIncrement(seqno: number): Promise<void> {
+    const startTime = Date.now();
+    while (Date.now() - startTime < TON_CONFIG.CONFIRMATION_TIMEOUT_MS) {
+      if ((await this.getCurrentSeqno()) > seqno) {
+        return;
+      }
+      await sleep(TON_CONFIG.CONFIRMATION_CHECK_INTERVAL_MS);
+    }
+
+    throw new TransactionError(
+      HibitIdSdkErrorCode.TRANSACTION_TIMEOUT,
+      `${TON_CONFIG.CHAIN_NAME}: Timed out waiting for transfer with seqno ${seqno}`
+    );
+  }
+
 
   /**
    * Wait for transaction confirmation
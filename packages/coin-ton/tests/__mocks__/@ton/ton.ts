@@ -313,6 +313,7 @@ export const beginCell = vi.fn().mockImplementation(() => ({
   storeBit: vi.fn().mockReturnThis(),
   storeStringTail: vi.fn().mockReturnThis(),
   storeSlice: vi.fn().mockReturnThis(),
+  store: vi.fn().mockReturnThis(),
   endCell: vi.fn().mockReturnValue(createMockCell())
 }));
 
@@ -352,6 +353,12 @@ export const external = vi.fn().mockImplementation(() => ({
 
 export const storeMessage = vi.fn().mockReturnValue(createMockCell());
 
+export const loadMessage = vi.fn().mockImplementation(() => ({
+  body: createMockCell()
+}));
+
+export const comment = vi.fn().mockImplementation(() => createMockCell());
+
 export const SendMode = {
   PAY_GAS_SEPARATELY: 1,
   IGNORE_ERRORS: 2,
@@ -1,8 +1,9 @@
 import { expect, test, describe, vi, beforeEach } from 'vitest';
 import { BaseAssetHandler } from '../../src/chain-wallet/asset-handlers/base-asset-handler';
-import { ILogger, NoOpLogger, BalanceQueryParams, TransferParams } from '@delandlabs/coin-base';
+import { ILogger, NoOpLogger, BalanceQueryParams, TransferParams, TransactionHistoryPage } from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
 import BigNumber from 'bignumber.js';
+import { TonUnsignedTransactionData } from '../../src/chain-wallet/types';
 import '../setup';
 
 // Concrete implementation for testing
@@ -11,14 +12,18 @@ class TestAssetHandler extends BaseAssetHandler {
     return new BigNumber('1');
   }
 
-  async transfer(_params: TransferParams): Promise<string> {
-    return 'test-hash';
+  async buildTransfer(_params: TransferParams): Promise<TonUnsignedTransactionData> {
+    return { seqno: 0, sendMode: 3, messages: [] };
   }
 
   async estimateFee(_params: TransferParams): Promise<BigNumber> {
     return new BigNumber('0.01');
   }
 
+  async getTransactionHistory(): Promise<TransactionHistoryPage> {
+    return { records: [] };
+  }
+
   getAssetType(): ChainAssetType {
     return ChainAssetType.Native;
   }
@@ -33,17 +38,10 @@ describe('BaseAssetHandler', () => {
   let logger: ILogger;
   let mockClient: any;
   let mockWallet: any;
-  let mockKeyPair: any;
 
   beforeEach(() => {
     logger = new NoOpLogger();
 
-    // Mock KeyPair
-    mockKeyPair = {
-      publicKey: Buffer.from('test-public-key', 'utf8'),
-      secretKey: Buffer.from('test-secret-key', 'utf8')
-    };
-
     // Mock TonClient
     mockClient = {
       getBalance: vi.fn()
@@ -56,7 +54,7 @@ describe('BaseAssetHandler', () => {
       }
     };
 
-    handler = new TestAssetHandler(mockClient, mockWallet, mockKeyPair, logger);
+    handler = new TestAssetHandler(mockClient, mockWallet, logger);
   });
 
   describe('constructor', () => {
@@ -64,7 +62,6 @@ describe('BaseAssetHandler', () => {
       expect(handler).toBeInstanceOf(BaseAssetHandler);
       expect(handler['client']).toBe(mockClient);
       expect(handler['wallet']).toBe(mockWallet);
-      expect(handler['keyPair']).toBe(mockKeyPair);
       expect(handler['logger']).toBe(logger);
     });
   });
@@ -80,15 +77,15 @@ describe('BaseAssetHandler', () => {
       expect(result).toEqual(new BigNumber('1'));
     });
 
-    test('should implement transfer', async () => {
+    test('should implement buildTransfer', async () => {
       const params: TransferParams = {
         recipientAddress: 'EQBvW8Z5huBkMJYdnfAEM5JqTNkuWX3diqYENkWsIL0XggGG' as any,
         amount: new BigNumber('0.5'),
         token: { assetType: ChainAssetType.Native } as any
       };
 
-      const result = await handler.transfer(params);
-      expect(result).toBe('test-hash');
+      const result = await handler.buildTransfer(params);
+      expect(result).toEqual({ seqno: 0, sendMode: 3, messages: [] });
     });
 
     test('should implement estimateFee', async () => {
@@ -118,7 +115,6 @@ describe('BaseAssetHandler', () => {
       // Test that protected properties are accessible to subclasses
       expect(handler['client']).toBeDefined();
       expect(handler['wallet']).toBeDefined();
-      expect(handler['keyPair']).toBeDefined();
       expect(handler['logger']).toBeDefined();
     });
   });
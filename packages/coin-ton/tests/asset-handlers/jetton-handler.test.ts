@@ -25,7 +25,6 @@ describe('JettonHandler', () => {
   let logger: ILogger;
   let mockClient: any;
   let mockWallet: any;
-  let mockKeyPair: any;
   let mockJettonWallet: any;
   let mockJettonMaster: any;
 
@@ -38,13 +37,6 @@ describe('JettonHandler', () => {
 
     logger = new NoOpLogger();
 
-    // Mock KeyPair
-    const encoder = new TextEncoder();
-    mockKeyPair = {
-      publicKey: encoder.encode('test-public-key'),
-      secretKey: encoder.encode('test-secret-key')
-    };
-
     // Mock JettonWallet with proper Address mock that internal() can use
     const mockJettonWalletAddress = {
       toString: () => 'EQD4FPq-PRDieyQKkizFTRtSDyucUIqrj0v_zXJmqaDp6_0t',
@@ -115,7 +107,7 @@ describe('JettonHandler', () => {
       getSeqno: vi.fn().mockResolvedValue(0)
     };
 
-    handler = new JettonHandler(mockClient, mockWallet, mockKeyPair, logger);
+    handler = new JettonHandler(mockClient, mockWallet, logger);
   });
 
   describe('constructor', () => {
@@ -245,106 +237,88 @@ describe('JettonHandler', () => {
     });
   });
 
-  describe('transfer', () => {
+  describe('buildTransfer', () => {
     const validParams: TransferParams = {
       recipientAddress: 'EQD4FPq-PRDieyQKkizFTRtSDyucUIqrj0v_zXJmqaDp6_0t' as any,
-      amount: new BigNumber('0.5'),
+      amount: new BigNumber('500000000'),
       token: {
         assetType: ChainAssetType.Jetton,
         tokenAddress: 'EQD4FPq-PRDieyQKkizFTRtSDyucUIqrj0v_zXJmqaDp6_0t'
       }
     };
 
-    test('should execute jetton transfer successfully', async () => {
-      // Import mocked functions
-      const { base } = await import('@delandlabs/crypto-lib');
-
-      // Mock base.toHex to return our expected hash
-      vi.spyOn(base, 'toHex').mockReturnValue('1234567890abcdef12345678');
-
-      const mockTransfer = {
-        hash: vi.fn().mockReturnValue(base.fromHex('mockhash1234567890abcdef'))
-      };
-      mockWallet.createTransfer.mockReturnValue(mockTransfer);
-
-      // Mock send method on the opened wallet
+    test('should build jetton transfer without signing or sending', async () => {
       const mockSend = vi.fn().mockResolvedValue(undefined);
-      const mockOpenedWallet = {
-        ...mockWallet,
-        send: mockSend,
-        getSeqno: vi
-          .fn()
-          .mockResolvedValueOnce(0) // First call returns 0
-          .mockResolvedValueOnce(1) // Second call returns 1 (transaction confirmed)
-      };
-
-      // Update client mock to return proper opened contracts
       mockClient.open = vi.fn((contract) => {
         if (contract === mockWallet) {
-          return mockOpenedWallet;
+          return { ...mockWallet, send: mockSend, getSeqno: vi.fn().mockResolvedValue(5) };
         }
-        if (contract.constructor.name === 'JettonMaster') {
+        if (contract._type === 'JettonMaster') {
           return mockJettonMaster;
         }
-        if (contract.constructor.name === 'JettonWallet') {
+        if (contract._type === 'JettonWallet') {
           return mockJettonWallet;
         }
         return contract;
       });
 
-      const result = await handler.transfer(validParams);
+      const result = await handler.buildTransfer(validParams);
 
-      expect(mockWallet.createTransfer).toHaveBeenCalled();
-      expect(mockSend).toHaveBeenCalled();
-      // The result includes a prefix from the hash calculation
-      expect(result).toMatch(/[0-9a-f]{24}$/); // Should end with hex characters
+      expect(result.seqno).toBe(5);
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0]).toMatchObject({
+        to: 'EQD4FPq-PRDieyQKkizFTRtSDyucUIqrj0v_zXJmqaDp6_0t',
+        bounce: true,
+        body: expect.any(String)
+      });
+      expect(mockWallet.createTransfer).not.toHaveBeenCalled();
+      expect(mockSend).not.toHaveBeenCalled();
     });
 
     test('should throw error when token address is missing', async () => {
       const invalidParams: TransferParams = {
         recipientAddress: 'EQD4FPq-PRDieyQKkizFTRtSDyucUIqrj0v_zXJmqaDp6_0t' as any,
-        amount: new BigNumber('0.5'),
+        amount: new BigNumber('500000000'),
         token: {
           assetType: ChainAssetType.Jetton
           // tokenAddress is intentionally missing
         } as any
       };
 
-      await expect(handler.transfer(invalidParams)).rejects.toThrow(TransactionError);
+      await expect(handler.buildTransfer(invalidParams)).rejects.toThrow(TransactionError);
     });
 
     test('should throw error for invalid recipient address', async () => {
+      const { Address } = await import('../__mocks__/@ton/ton');
+      const originalParse = Address.parse.getMockImplementation()!;
+      Address.parse.mockImplementation((addr: string) => {
+        if (addr === 'invalid-address') {
+          throw new Error('Invalid address');
+        }
+        return originalParse(addr);
+      });
+
       const invalidParams: TransferParams = {
         recipientAddress: 'invalid-address' as any,
-        amount: new BigNumber('0.5'),
+        amount: new BigNumber('500000000'),
         token: {
           assetType: ChainAssetType.Jetton,
           tokenAddress: 'EQD4FPq-PRDieyQKkizFTRtSDyucUIqrj0v_zXJmqaDp6_0t'
         }
       };
 
-      // Address validation happens at wallet level now, so handler will throw when trying to parse
-      await expect(handler.transfer(invalidParams)).rejects.toThrow();
+      try {
+        // Address validation happens at wallet level now, so handler will throw when trying to parse
+        await expect(handler.buildTransfer(invalidParams)).rejects.toThrow('Invalid address');
+      } finally {
+        Address.parse.mockImplementation(originalParse);
+      }
     });
 
     test('should throw error when insufficient gas balance', async () => {
       mockClient.getBalance.mockResolvedValue(BigInt('1000')); // Very low balance
 
-      await expect(handler.transfer(validParams)).rejects.toThrow(TransactionError);
-    });
-
-    test('should throw error when amount precision exceeds decimals', async () => {
-      const invalidParams: TransferParams = {
-        recipientAddress: 'EQD4FPq-PRDieyQKkizFTRtSDyucUIqrj0v_zXJmqaDp6_0t' as any,
-        amount: new BigNumber('0.1234567890123'), // Too many decimal places
-        token: {
-          assetType: ChainAssetType.Jetton,
-          tokenAddress: 'EQD4FPq-PRDieyQKkizFTRtSDyucUIqrj0v_zXJmqaDp6_0t'
-        }
-      };
-
-      // The test might fail for a different reason due to mocking issues
-      await expect(handler.transfer(invalidParams)).rejects.toThrow();
+      await expect(handler.buildTransfer(validParams)).rejects.toThrow(TransactionError);
     });
   });
 
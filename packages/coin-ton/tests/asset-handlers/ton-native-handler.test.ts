@@ -12,21 +12,15 @@ describe('TonNativeHandler', () => {
   let logger: ILogger;
   let mockClient: any;
   let mockWallet: any;
-  let mockKeyPair: any;
 
   beforeEach(() => {
     logger = new NoOpLogger();
 
-    // Mock KeyPair
-    mockKeyPair = {
-      publicKey: Buffer.from('test-public-key', 'utf8'),
-      secretKey: Buffer.from('test-secret-key', 'utf8')
-    };
-
     // Mock TonClient
     mockClient = {
       getBalance: vi.fn(),
-      estimateExternalMessageFee: vi.fn()
+      estimateExternalMessageFee: vi.fn(),
+      getTransactions: vi.fn()
     };
 
     // Mock WalletContractV4
@@ -39,7 +33,7 @@ describe('TonNativeHandler', () => {
       getSeqno: vi.fn().mockResolvedValue(0)
     };
 
-    handler = new TonNativeHandler(mockClient, mockWallet, mockKeyPair, logger);
+    handler = new TonNativeHandler(mockClient, mockWallet, logger);
   });
 
   describe('constructor', () => {
@@ -100,39 +94,34 @@ describe('TonNativeHandler', () => {
     });
   });
 
-  describe('transfer', () => {
+  describe('buildTransfer', () => {
     const validParams: TransferParams = {
       recipientAddress: 'EQBvW8Z5huBkMJYdnfAEM5JqTNkuWX3diqYENkWsIL0XggGG' as any,
-      amount: new BigNumber('0.5'),
+      amount: new BigNumber('500000000'),
       token: { assetType: ChainAssetType.Native } as any
     };
 
-    test('should execute transfer successfully', async () => {
-      const mockTransfer = { hash: () => Buffer.from('mock-hash', 'utf8') };
-      mockWallet.createTransfer.mockReturnValue(mockTransfer);
-
-      // Mock sequence number changes to simulate confirmed transaction
-      let seqno = 0;
+    test('should build transfer without signing or sending', async () => {
+      const send = vi.fn();
       mockClient.open = vi.fn().mockReturnValue({
-        send: vi.fn().mockImplementation(() => {
-          // Simulate transaction being sent - change seqno immediately
-          seqno = 1;
-          return Promise.resolve();
-        }),
-        getSeqno: vi.fn().mockImplementation(() => Promise.resolve(seqno))
+        send,
+        getSeqno: vi.fn().mockResolvedValue(3)
       });
 
-      const result = await handler.transfer(validParams);
-
-      expect(mockWallet.createTransfer).toHaveBeenCalledWith(
-        expect.objectContaining({
-          secretKey: mockKeyPair.secretKey,
-          seqno: 0,
-          sendMode: expect.any(Number),
-          messages: expect.any(Array)
-        })
-      );
-      expect(result).toBeDefined();
+      const result = await handler.buildTransfer({ ...validParams, payload: 'hello' });
+
+      expect(result.seqno).toBe(3);
+      expect(result.sendMode).toEqual(expect.any(Number));
+      expect(result.messages).toEqual([
+        {
+          to: 'EQBvW8Z5huBkMJYdnfAEM5JqTNkuWX3diqYENkWsIL0XggGG',
+          value: '500000000',
+          bounce: expect.any(Boolean),
+          body: expect.any(String)
+        }
+      ]);
+      expect(mockWallet.createTransfer).not.toHaveBeenCalled();
+      expect(send).not.toHaveBeenCalled();
     });
 
     test('should throw error for invalid recipient address', async () => {
@@ -143,7 +132,7 @@ describe('TonNativeHandler', () => {
       };
 
       // Address validation happens at wallet level now, so handler will throw when trying to parse
-      await expect(handler.transfer(invalidParams)).rejects.toThrow();
+      await expect(handler.buildTransfer(invalidParams)).rejects.toThrow();
     });
   });
 
@@ -191,7 +180,7 @@ describe('TonNativeHandler', () => {
         sendMessage: vi.fn()
       } as any; // TODO: Create proper TonClient mock interface
 
-      const freshHandler = new TonNativeHandler(freshMockClient, mockWallet, mockKeyPair, logger);
+      const freshHandler = new TonNativeHandler(freshMockClient, mockWallet, logger);
       const result = await freshHandler.estimateFee(differentParams);
 
       // Verify mock was called and returned null
@@ -215,4 +204,77 @@ describe('TonNativeHandler', () => {
 
   // NOTE: signMessage is not part of BaseAssetHandler
   // Message signing is a wallet-level concern, not asset handler concern
+
+  describe('getTransactionHistory', () => {
+    const owner = 'EQBvW8Z5huBkMJYdnfAEM5JqTNkuWX3diqYENkWsIL0XggGG';
+    const counterparty = 'EQCounterpartyAddress';
+    const address = (value: string) => ({ toString: () => value });
+
+    const createTransaction = (lt: bigint, inInfo: any, outInfos: any[] = []) => ({
+      lt,
+      hash: () => Buffer.from([Number(lt)]),
+      now: 1700000000,
+      inMessage: { info: inInfo },
+      outMessages: { values: () => outInfos.map((info) => ({ info })) },
+      totalFees: { coins: 1000n },
+      description: { type: 'generic', aborted: false }
+    });
+    const internalInfo = (src: string, dest: string, coins: bigint) => ({
+      type: 'internal',
+      src: address(src),
+      dest: address(dest),
+      value: { coins }
+    });
+
+    test('should list incoming and outgoing transfers with an lt:hash cursor', async () => {
+      mockClient.getTransactions.mockResolvedValue([
+        createTransaction(3n, internalInfo(counterparty, owner, 700n)),
+        createTransaction(2n, { type: 'external-in' }, [internalInfo(owner, counterparty, 500n)])
+      ]);
+
+      const page = await handler.getTransactionHistory({
+        address: owner as any,
+        token: { assetType: ChainAssetType.Native },
+        limit: 2
+      });
+
+      expect(page.records).toEqual([
+        {
+          hash: '03',
+          direction: 'incoming',
+          counterparty,
+          amount: new BigNumber(700),
+          token: { assetType: ChainAssetType.Native },
+          fee: new BigNumber(1000),
+          status: 'confirmed',
+          timestamp: 1700000000000
+        },
+        expect.objectContaining({ hash: '02', direction: 'outgoing', counterparty, amount: new BigNumber(500) })
+      ]);
+      expect(page.nextCursor).toBe(`2:${Buffer.from([2]).toString('base64')}`);
+    });
+
+    test('should skip the cursor transaction on the next page', async () => {
+      const cursor = `2:${Buffer.from([2]).toString('base64')}`;
+      mockClient.getTransactions.mockResolvedValue([
+        createTransaction(2n, { type: 'external-in' }, [internalInfo(owner, counterparty, 500n)]),
+        createTransaction(1n, internalInfo(counterparty, owner, 1n))
+      ]);
+
+      const page = await handler.getTransactionHistory({
+        address: owner as any,
+        token: { assetType: ChainAssetType.Native },
+        cursor,
+        limit: 2
+      });
+
+      expect(mockClient.getTransactions).toHaveBeenCalledWith(expect.anything(), {
+        limit: 3,
+        lt: '2',
+        hash: Buffer.from([2]).toString('base64')
+      });
+      expect(page.records.map((record) => record.hash)).toEqual(['01']);
+      expect(page.nextCursor).toBeUndefined();
+    });
+  });
 });
@@ -4,7 +4,14 @@ import BigNumber from 'bignumber.js';
 import { TonChainWallet } from '../src/chain-wallet/wallet';
 import { TonMainNet as Ton, TonTestnet } from './test-chains';
 import { ChainAssetType, ChainType } from '@delandlabs/hibit-basic-types';
-import { BalanceQueryParams, TransferParams, createAddress } from '@delandlabs/coin-base';
+import {
+  BalanceQueryParams,
+  HibitIdSdkErrorCode,
+  ISigner,
+  SignerKeyType,
+  TransferParams,
+  createAddress
+} from '@delandlabs/coin-base';
 
 // Import setup to use professional mocks
 import './setup';
@@ -22,7 +29,8 @@ vi.mock('@ton/ton', async () => {
     })),
     estimateExternalMessageFee: vi.fn().mockResolvedValue({
       source_fees: { fwd_fee: BigInt(1000), in_fwd_fee: BigInt(500), storage_fee: BigInt(200), gas_fee: BigInt(10000) }
-    })
+    }),
+    sendFile: vi.fn().mockResolvedValue(undefined)
   };
 
   return {
@@ -36,11 +44,12 @@ vi.mock('@ton/ton', async () => {
       parseFriendly: vi.fn().mockReturnValue({ isBounceable: true })
     },
     WalletContractV4: {
-      create: vi.fn().mockImplementation(() => ({
+      create: vi.fn().mockImplementation((params: any) => ({
         address: { 
           toString: () => 'EQD4FPq-PRDieyQKkizFTRtSDyucUIqrj0v_zXJmqaDp6_0t',
           toRawString: () => '0:f850fabfe3d10e27b240a9228c54d1b520f2b9c508aab8f4bffcd7266a9a0e9e'
         },
+        publicKey: params.publicKey,
         init: { code: null, data: null },
         createTransfer: vi.fn().mockReturnValue({ hash: () => new Uint8Array([1, 2, 3, 4]) })
       }))
@@ -67,9 +76,17 @@ vi.mock('@ton/ton', async () => {
     beginCell: vi.fn().mockImplementation(() => ({
       storeUint: vi.fn().mockReturnThis(),
       storeWritable: vi.fn().mockReturnThis(),
+      store: vi.fn().mockReturnThis(),
       endCell: vi.fn().mockReturnValue({ toBoc: vi.fn().mockReturnValue(Buffer.from('mock')) })
     })),
+    Cell: {
+      fromBase64: vi.fn().mockReturnValue({ beginParse: vi.fn() })
+    },
+    comment: vi.fn().mockReturnValue({ toBoc: vi.fn().mockReturnValue(Buffer.from('comment')) }),
     internal: vi.fn().mockImplementation(() => ({ body: '', value: 0n, to: null, bounce: false })),
+    external: vi.fn().mockImplementation((src: any) => src),
+    storeMessage: vi.fn(),
+    loadMessage: vi.fn().mockReturnValue({ body: { hash: () => new Uint8Array([1, 2, 3, 4]) } }),
     SendMode: { PAY_GAS_SEPARATELY: 1, IGNORE_ERRORS: 2 }
   };
 });
@@ -95,6 +112,102 @@ describe('TonChainWallet - Core Functionality', () => {
     });
   });
 
+  describe('Multiple Accounts', () => {
+    test('should derive TON native accounts as subwallets of the same key', async () => {
+      const { WalletContractV4 } = await import('@ton/ton');
+      const wallet = new TonChainWallet(Ton, testMnemonic);
+      await wallet.getAccount();
+      vi.mocked(WalletContractV4.create).mockClear();
+
+      const accounts = await wallet.getAccounts({ start: 1, count: 2 });
+
+      expect(accounts).toHaveLength(2);
+      expect(accounts[0].publicKeyHex).toBe(accounts[1].publicKeyHex);
+      expect(WalletContractV4.create).toHaveBeenCalledWith(expect.objectContaining({ walletId: 698983192 }));
+      expect(WalletContractV4.create).toHaveBeenCalledWith(expect.objectContaining({ walletId: 698983193 }));
+    });
+
+    test('should reject custom derivation paths for TON native keys', () => {
+      expect(() => new TonChainWallet(Ton, testMnemonic, { derivationPath: "m/44'/607'/1'" })).toThrow(
+        'Custom derivation paths require the ed25519 key derivation method'
+      );
+    });
+  });
+
+  describe('Watch-only Wallets', () => {
+    const watchOnlyAccount = {
+      address: 'f850fabfe3d10e27b240a9228c54d1b520f2b9c508aab8f4bffcd7266a9a0e9e',
+      publicKeyHex: '01'.repeat(32)
+    };
+
+    test('should require the public key of the wallet contract', () => {
+      expect(() => new TonChainWallet(Ton, { address: watchOnlyAccount.address })).toThrow(
+        'TON: Watch-only wallets require publicKeyHex'
+      );
+    });
+
+    test('should report the account but refuse to sign', async () => {
+      const wallet = new TonChainWallet(Ton, watchOnlyAccount);
+
+      const account = await wallet.getAccount();
+
+      expect(account.address).toBe('0:' + watchOnlyAccount.address);
+      expect(account.publicKeyHex).toBe(watchOnlyAccount.publicKeyHex);
+      expect(wallet.isWatchOnly()).toBe(true);
+      await expect(wallet.signMessage({ message: 'test message' })).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.WATCH_ONLY_WALLET
+      });
+    });
+
+    test('should reject addresses that do not match the public key', async () => {
+      const wallet = new TonChainWallet(Ton, { ...watchOnlyAccount, address: 'abcdef' });
+
+      await expect(wallet.getAccount()).rejects.toThrow('Watch-only address does not match publicKeyHex');
+    });
+  });
+
+  describe('Signers', () => {
+    const createSigner = (keyType: SignerKeyType = 'ed25519'): ISigner => ({
+      keyType,
+      getPublicKey: vi.fn().mockResolvedValue(new Uint8Array(32).fill(2)),
+      signBytes: vi.fn().mockResolvedValue(new Uint8Array(64).fill(3)),
+      signDigest: vi.fn()
+    });
+
+    test('should sign through the signer it was constructed with', async () => {
+      const { mnemonicToPrivateKey } = await import('@ton/crypto');
+      vi.mocked(mnemonicToPrivateKey).mockClear();
+      const signer = createSigner();
+      const wallet = new TonChainWallet(Ton, signer);
+
+      const account = await wallet.getAccount();
+      const signature = await wallet.signMessage({ message: 'test message' });
+      await wallet.signTransaction(
+        await wallet.buildTransfer({
+          recipientAddress: createAddress('EQD4FPq-PRDieyQKkizFTRtSDyucUIqrj0v_zXJmqaDp6_0t', ChainType.Ton),
+          amount: new BigNumber(0.1),
+          token: { assetType: ChainAssetType.Native }
+        })
+      );
+      // The wallet contract asks the signer for the signature of the transfer's signing message
+      const { signer: signTransfer } = (wallet as any).wallet.createTransfer.mock.calls[0][0];
+      const transferSignature = await signTransfer({ hash: () => Buffer.from([1, 2, 3]) });
+
+      expect(account.publicKeyHex).toBe('02'.repeat(32));
+      expect(signature).toEqual(new Uint8Array(64).fill(3));
+      expect(transferSignature).toEqual(Buffer.from(new Uint8Array(64).fill(3)));
+      expect(signer.signBytes).toHaveBeenCalledWith(new TextEncoder().encode('test message'));
+      expect(signer.signBytes).toHaveBeenCalledWith(Buffer.from([1, 2, 3]));
+      expect(mnemonicToPrivateKey).not.toHaveBeenCalled();
+    });
+
+    test('should reject secp256k1 signers', async () => {
+      const wallet = new TonChainWallet(Ton, createSigner('secp256k1'));
+
+      await expect(wallet.getAccount()).rejects.toThrow('Signer key type secp256k1 is not supported');
+    });
+  });
+
   describe('Balance Operations', () => {
     let wallet: TonChainWallet;
 
@@ -126,6 +239,27 @@ describe('TonChainWallet - Core Functionality', () => {
       expect(balance).toBeInstanceOf(BigNumber);
       expect(balance.isPositive()).toBe(true);
     });
+
+    test('should query the fallback endpoint when the primary endpoint fails', async () => {
+      const { TonClient } = await import('@ton/ton');
+      const fallback = 'https://ton-fallback.example.com/api/v2/jsonRPC';
+      const failoverWallet = new TonChainWallet({ ...Ton, rpc: { ...Ton.rpc, fallbacks: [fallback] } }, testMnemonic);
+      await failoverWallet.getAccount();
+      const client = vi.mocked(TonClient).mock.results.at(-1)!.value;
+      client.getBalance.mockRejectedValueOnce(new Error('fetch failed'));
+
+      const balance = await failoverWallet.balanceOf({
+        address: createAddress('EQD4FPq-PRDieyQKkizFTRtSDyucUIqrj0v_zXJmqaDp6_0t', ChainType.Ton),
+        token: { assetType: ChainAssetType.Native }
+      });
+
+      expect(balance.toString()).toBe('1000000000');
+      expect(TonClient).toHaveBeenLastCalledWith({ endpoint: fallback });
+      expect(failoverWallet.getEndpointHealth()).toEqual([
+        expect.objectContaining({ url: Ton.rpc.primary, active: false, totalFailures: 1 }),
+        expect.objectContaining({ url: fallback, active: true, totalFailures: 0 })
+      ]);
+    });
   });
 
   describe('Transfer Operations', () => {
@@ -147,6 +281,41 @@ describe('TonChainWallet - Core Functionality', () => {
       expect(txHash).toBeTruthy();
     });
 
+    test('should build, sign and broadcast as separate steps', async () => {
+      const params: TransferParams = {
+        recipientAddress: createAddress('EQD4FPq-PRDieyQKkizFTRtSDyucUIqrj0v_zXJmqaDp6_0t', ChainType.Ton),
+        amount: new BigNumber(100000000),
+        token: { assetType: ChainAssetType.Native }
+      };
+
+      const unsigned = await wallet.buildTransfer(params);
+      expect(unsigned.data.seqno).toBe(1);
+      expect(unsigned.data.messages[0].value).toBe('100000000');
+
+      const signed = await wallet.signTransaction(unsigned);
+      expect(signed.txHash).toBeTruthy();
+      expect(signed.data.boc).toEqual(expect.any(String));
+
+      const txHash = await wallet.broadcastTransaction(signed);
+      expect(txHash).toBe(signed.txHash);
+    });
+
+    test('should send batched transfers in one wallet transfer', async () => {
+      const params: TransferParams = {
+        recipientAddress: createAddress('EQD4FPq-PRDieyQKkizFTRtSDyucUIqrj0v_zXJmqaDp6_0t', ChainType.Ton),
+        amount: new BigNumber(0.1),
+        token: { assetType: ChainAssetType.Native }
+      };
+
+      const txHashes = await wallet.batchTransfer([params, { ...params, amount: new BigNumber(0.2) }]);
+
+      expect(txHashes).toHaveLength(2);
+      expect(txHashes[0]).toBe(txHashes[1]);
+      const createTransfer = (wallet as any).wallet.createTransfer;
+      expect(createTransfer).toHaveBeenCalledTimes(1);
+      expect(createTransfer.mock.calls[0][0].messages).toHaveLength(2);
+    });
+
     test('should estimate fee for native transfer', async () => {
       const params: TransferParams = {
         recipientAddress: createAddress('EQD4FPq-PRDieyQKkizFTRtSDyucUIqrj0v_zXJmqaDp6_0t', ChainType.Ton),
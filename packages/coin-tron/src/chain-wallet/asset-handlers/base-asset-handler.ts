@@ -1,13 +1,21 @@
 import BigNumber from 'bignumber.js';
-import { ILogger, BalanceQueryParams, TransferParams } from '@delandlabs/coin-base';
+import {
+  ILogger,
+  BalanceQueryParams,
+  TransferParams,
+  TransactionHistoryParams,
+  TransactionHistoryPage
+} from '@delandlabs/coin-base';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
+import type { Types } from 'tronweb';
 import { ConnectionManager } from '../shared/connection-manager';
+import { TronGridPage } from '../types';
 
 /**
  * Abstract base class for asset handlers in TRON chain wallet.
  *
  * Each asset type (Native TRX, TRC20 tokens, etc.) should extend this class
- * to provide specific implementation for balance queries, transfers, and fee estimation.
+ * to provide specific implementation for balance queries, transfer building, and fee estimation.
  *
  * This follows the Strategy pattern to separate concerns and make the codebase
  * more maintainable and extensible.
@@ -26,11 +34,21 @@ export abstract class BaseAssetHandler {
   abstract balanceOf(params: BalanceQueryParams): Promise<BigNumber>;
 
   /**
-   * Execute transfer for the specified asset
+   * Build an unsigned transfer transaction for the specified asset
    * @param params - Transfer parameters including recipient, amount, and token info
-   * @returns Promise resolving to the transaction ID
+   * @returns Promise resolving to the unsigned transaction
    */
-  abstract transfer(params: TransferParams): Promise<string>;
+  abstract buildTransfer(params: TransferParams): Promise<Types.Transaction>;
+
+  /**
+   * Dry-run a transfer of the specified asset without broadcasting it
+   * Assets without contract execution have nothing to dry-run beyond the balance check done at wallet level
+   * @param _params - Transfer parameters to simulate
+   * @returns Promise resolving to the failure reason, or undefined when the transfer would succeed
+   */
+  async simulateTransfer(_params: TransferParams): Promise<string | undefined> {
+    return undefined;
+  }
 
   /**
    * Estimate transaction fee for the specified asset
@@ -39,6 +57,13 @@ export abstract class BaseAssetHandler {
    */
   abstract estimateFee(params: TransferParams): Promise<BigNumber>;
 
+  /**
+   * List transfers of the asset to and from an address, newest first
+   * @param params - History query parameters with the page size already resolved
+   * @returns Promise resolving to one page of transaction records
+   */
+  abstract getTransactionHistory(params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage>;
+
   /**
    * Get the asset type this handler supports
    * @returns The ChainAssetType this handler is responsible for
@@ -50,4 +75,25 @@ export abstract class BaseAssetHandler {
    * Called when the wallet is being destroyed
    */
   abstract cleanup(): void;
+
+  /**
+   * Query a TronGrid v1 list endpoint on the configured full node
+   * @param path - Endpoint path relative to the node URL
+   * @param query - Query string parameters; undefined values are omitted
+   * @returns Promise resolving to the requested page
+   */
+  protected async requestTronGrid<T>(
+    path: string,
+    query: Record<string, string | number | boolean | undefined>
+  ): Promise<TronGridPage<T>> {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) {
+        search.set(key, String(value));
+      }
+    }
+
+    const tronWeb = this.connectionManager.getTronWeb();
+    return await tronWeb.fullNode.request<TronGridPage<T>>(`${path}?${search.toString()}`, {}, 'get');
+  }
 }
@@ -1,6 +1,16 @@
 import BigNumber from 'bignumber.js';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
-import { ILogger, BalanceQueryParams, TransferParams } from '@delandlabs/coin-base';
+import {
+  ILogger,
+  BalanceQueryParams,
+  TransferParams,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  TransactionError,
+  HibitIdSdkErrorCode,
+  getTransactionDirection
+} from '@delandlabs/coin-base';
+import type { Types } from 'tronweb';
 import { BaseAssetHandler } from './base-asset-handler';
 import { ConnectionManager } from '../shared/connection-manager';
 import {
@@ -10,6 +20,7 @@ import {
   MemoizeTokenDecimals,
   CacheAccountResources
 } from '../config';
+import { TronGridTrc20Transfer } from '../types';
 
 /**
  * Handler for TRC20 token operations.
@@ -50,32 +61,77 @@ export class Trc20TokenHandler extends BaseAssetHandler {
   }
 
   /**
-   * Transfer TRC20 tokens
+   * Build an unsigned TRC20 token transfer
    * Note: Address, amount and token validation is handled at wallet level
    * Note: Amount is expected in smallest unit
    */
-  async transfer(params: TransferParams): Promise<string> {
+  async buildTransfer(params: TransferParams): Promise<Types.Transaction> {
     const { recipientAddress, amount, token } = params;
 
-    // Token address validation is handled at wallet level
-
+    const tronWeb = this.connectionManager.getTronWeb();
     const walletInfo = this.connectionManager.getWallet();
 
-    // Get cached contract instance
-    const contract = await this.getContractInstance(token.tokenAddress!);
-
     // Amount is already in smallest unit
     const amountInSmallestUnit = amount.integerValue(BigNumber.ROUND_FLOOR);
 
-    // Create transfer transaction
-    const transaction = await contract.transfer(recipientAddress, amountInSmallestUnit.toString()).send({
-      feeLimit: CHAIN_CONFIG.TRC20_FEE_LIMIT,
-      from: walletInfo.address
-    });
+    const { result, transaction } = await tronWeb.transactionBuilder.triggerSmartContract(
+      token.tokenAddress!,
+      'transfer(address,uint256)',
+      { feeLimit: CHAIN_CONFIG.TRC20_FEE_LIMIT },
+      [
+        { type: 'address', value: recipientAddress },
+        { type: 'uint256', value: amountInSmallestUnit.toFixed() }
+      ],
+      walletInfo.address
+    );
+
+    if (!result?.result) {
+      throw new TransactionError(
+        HibitIdSdkErrorCode.TRANSACTION_SIGNING_FAILED,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Failed to build TRC20 transfer`
+      );
+    }
 
     return transaction;
   }
 
+  /**
+   * Dry-run a TRC20 token transfer as a constant contract call
+   * Note: Address, amount and token validation is handled at wallet level
+   * @returns The revert reason, or undefined when the contract accepts the transfer
+   */
+  @TronRetry({})
+  async simulateTransfer(params: TransferParams): Promise<string | undefined> {
+    const { recipientAddress, amount, token } = params;
+
+    const tronWeb = this.connectionManager.getTronWeb();
+    const walletInfo = this.connectionManager.getWallet();
+
+    const response = await tronWeb.transactionBuilder.triggerConstantContract(
+      token.tokenAddress!,
+      'transfer(address,uint256)',
+      {},
+      [
+        { type: 'address', value: recipientAddress },
+        { type: 'uint256', value: amount.integerValue(BigNumber.ROUND_FLOOR).toFixed() }
+      ],
+      walletInfo.address
+    );
+
+    if (!response.result?.result) {
+      // The node reports failure messages hex encoded
+      const message = response.result?.message;
+      return message ? tronWeb.toUtf8(message) : 'TRC20 transfer simulation failed';
+    }
+
+    const status = response.transaction?.ret?.[0]?.ret;
+    if (status && status !== 'SUCCESS') {
+      return `TRC20 transfer reverted with ${status}`;
+    }
+
+    return undefined;
+  }
+
   /**
    * Estimate fee for TRC20 token transfer in sun (smallest unit)
    * Note: Address, amount and token validation is handled at wallet level
@@ -95,6 +151,40 @@ export class Trc20TokenHandler extends BaseAssetHandler {
     return this.calculateTrc20TransferFee(accountResources);
   }
 
+  /**
+   * List TRC20 transfers of an address from TronGrid, newest first
+   * Transfers are read from contract events, which only exist for successful transactions.
+   * Note: Address and token validation is handled at wallet level
+   */
+  @TronRetry({})
+  async getTransactionHistory(params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage> {
+    const { address, token, cursor, limit } = params;
+
+    const page = await this.requestTronGrid<TronGridTrc20Transfer>(`v1/accounts/${address}/transactions/trc20`, {
+      contract_address: token.tokenAddress,
+      limit,
+      fingerprint: cursor,
+      order_by: 'block_timestamp,desc'
+    });
+
+    const records = page.data
+      .filter((transfer) => transfer.type === 'Transfer')
+      .map((transfer) => {
+        const direction = getTransactionDirection(address, transfer.from, transfer.to);
+        return {
+          hash: transfer.transaction_id,
+          direction,
+          counterparty: direction === 'incoming' ? transfer.from : transfer.to,
+          amount: new BigNumber(transfer.value),
+          token,
+          status: 'confirmed' as const,
+          timestamp: transfer.block_timestamp
+        };
+      });
+
+    return { records, nextCursor: page.meta.fingerprint };
+  }
+
   /**
    * Get the asset type this handler manages
    */
@@ -1,9 +1,19 @@
 import BigNumber from 'bignumber.js';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
-import { ILogger, BalanceQueryParams, TransferParams } from '@delandlabs/coin-base';
+import {
+  ILogger,
+  BalanceQueryParams,
+  TransferParams,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
+  TransactionRecord,
+  getTransactionDirection
+} from '@delandlabs/coin-base';
+import type { Types } from 'tronweb';
 import { BaseAssetHandler } from './base-asset-handler';
 import { ConnectionManager } from '../shared/connection-manager';
 import { CHAIN_CONFIG, CacheAccountResources, TronRetry } from '../config';
+import { TronGridTransaction } from '../types';
 
 /**
  * Handler for native TRX operations.
@@ -39,11 +49,11 @@ export class TrxNativeHandler extends BaseAssetHandler {
   }
 
   /**
-   * Transfer native TRX
+   * Build an unsigned native TRX transfer
    * Note: Address, amount and token validation is handled at wallet level
    * Note: Amount is expected in sun (smallest unit)
    */
-  async transfer(params: TransferParams): Promise<string> {
+  async buildTransfer(params: TransferParams): Promise<Types.Transaction> {
     const { recipientAddress, amount } = params;
 
     const tronWeb = this.connectionManager.getTronWeb();
@@ -52,20 +62,7 @@ export class TrxNativeHandler extends BaseAssetHandler {
     // Amount is already in sun (smallest unit)
     const amountInSun = amount.integerValue(BigNumber.ROUND_FLOOR).toNumber();
 
-    // Create transaction
-    const transaction = await tronWeb.transactionBuilder.sendTrx(recipientAddress, amountInSun, walletInfo.address);
-
-    // Sign transaction
-    const signedTransaction = await tronWeb.trx.sign(transaction);
-
-    // Broadcast transaction
-    const result = await tronWeb.trx.sendRawTransaction(signedTransaction);
-
-    if (!result.result) {
-      throw new Error(result.message || 'Transaction failed');
-    }
-
-    return result.txid;
+    return await tronWeb.transactionBuilder.sendTrx(recipientAddress, amountInSun, walletInfo.address);
   }
 
   /**
@@ -83,6 +80,50 @@ export class TrxNativeHandler extends BaseAssetHandler {
     return this.calculateNativeTransferFee(accountResources);
   }
 
+  /**
+   * List native TRX transfers of an address from TronGrid, newest first
+   * Other transactions of the account are skipped, so a page may hold fewer records than the limit.
+   * Note: Address validation is handled at wallet level
+   */
+  @TronRetry({})
+  async getTransactionHistory(params: TransactionHistoryParams & { limit: number }): Promise<TransactionHistoryPage> {
+    const { address, token, cursor, limit } = params;
+    const tronWeb = this.connectionManager.getTronWeb();
+
+    const page = await this.requestTronGrid<TronGridTransaction>(`v1/accounts/${address}/transactions`, {
+      limit,
+      fingerprint: cursor,
+      order_by: 'block_timestamp,desc'
+    });
+
+    const records: TransactionRecord[] = [];
+    for (const transaction of page.data) {
+      const contract = transaction.raw_data.contract[0];
+      if (contract?.type !== 'TransferContract') {
+        continue;
+      }
+
+      const { owner_address, to_address, amount } = contract.parameter.value;
+      const from = tronWeb.address.fromHex(owner_address!);
+      const to = tronWeb.address.fromHex(to_address!);
+      const direction = getTransactionDirection(address, from, to);
+      const result = transaction.ret?.[0];
+
+      records.push({
+        hash: transaction.txID,
+        direction,
+        counterparty: direction === 'incoming' ? from : to,
+        amount: new BigNumber(amount ?? 0),
+        token,
+        fee: new BigNumber(result?.fee ?? 0),
+        status: result?.contractRet === 'SUCCESS' ? 'confirmed' : 'failed',
+        timestamp: transaction.block_timestamp
+      });
+    }
+
+    return { records, nextCursor: page.meta.fingerprint };
+  }
+
   /**
    * Get the asset type this handler supports
    */
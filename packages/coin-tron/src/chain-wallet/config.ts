@@ -39,6 +39,14 @@ export const CHAIN_CONFIG = {
   TRC20_FEE_LIMIT: 100_000_000 // 100 TRX fee limit for TRC20 operations
 } as const;
 
+/**
+ * BIP44 derivation path of the account at the given index
+ * Accounts differ in the address index, matching TronLink
+ */
+export function getDerivingPath(accountIndex: number): string {
+  return `m/44'/195'/0'/0/${accountIndex}`;
+}
+
 // ============================================================
 // Cache Configuration
 // ============================================================
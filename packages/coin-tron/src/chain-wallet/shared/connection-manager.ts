@@ -1,6 +1,6 @@
 import TronWebDefault from 'tronweb';
 const { TronWeb } = TronWebDefault;
-import { ChainInfo, NetworkError, HibitIdSdkErrorCode, ILogger } from '@delandlabs/coin-base';
+import { ChainInfo, EndpointPool, NetworkError, HibitIdSdkErrorCode, ILogger } from '@delandlabs/coin-base';
 import { CHAIN_CONFIG } from '../config';
 
 /**
@@ -8,8 +8,8 @@ import { CHAIN_CONFIG } from '../config';
  */
 export interface TronWalletInfo {
   address: string;
-  privateKey: string;
-  publicKey: Uint8Array;
+  /** Absent for watch-only wallets created without a public key */
+  publicKey?: Uint8Array;
 }
 
 /**
@@ -23,10 +23,12 @@ export class ConnectionManager {
   private walletInfo: TronWalletInfo | null = null;
   private readonly chainInfo: ChainInfo;
   private readonly logger: ILogger;
+  private readonly endpointPool?: EndpointPool;
 
-  constructor(chainInfo: ChainInfo, logger: ILogger) {
+  constructor(chainInfo: ChainInfo, logger: ILogger, endpointPool?: EndpointPool) {
     this.chainInfo = chainInfo;
     this.logger = logger;
+    this.endpointPool = endpointPool;
   }
 
   /**
@@ -35,12 +37,7 @@ export class ConnectionManager {
   initialize(walletInfo: TronWalletInfo): void {
     // Initialize TronWeb
     const endpoint = this.getEndpoint();
-    this.tronWeb = new TronWeb({
-      fullHost: endpoint
-    });
-
-    // Set the private key in TronWeb
-    this.tronWeb.setPrivateKey(walletInfo.privateKey);
+    this.tronWeb = this.createTronWeb(endpoint, walletInfo);
 
     // Store wallet information
     this.walletInfo = walletInfo;
@@ -54,6 +51,30 @@ export class ConnectionManager {
     });
   }
 
+  /**
+   * Replace the TronWeb instance with one connected to another endpoint
+   * Does nothing before initialize, which connects to the endpoint pool's current endpoint.
+   */
+  switchEndpoint(endpoint: string): void {
+    if (!this.walletInfo) {
+      return;
+    }
+
+    this.tronWeb = this.createTronWeb(endpoint, this.walletInfo);
+
+    this.logger.debug('TronWeb switched to new endpoint', {
+      context: 'ConnectionManager.switchEndpoint',
+      data: { endpoint }
+    });
+  }
+
+  /**
+   * Request the current block from an endpoint, rejecting when it does not answer
+   */
+  async checkEndpoint(endpoint: string): Promise<void> {
+    await new TronWeb({ fullHost: endpoint }).trx.getCurrentBlock();
+  }
+
   /**
    * Get the TronWeb instance
    */
@@ -100,9 +121,26 @@ export class ConnectionManager {
   }
 
   /**
-   * Get the endpoint URL from chain configuration
+   * Create a TronWeb instance for an endpoint and the wallet's account
+   */
+  private createTronWeb(endpoint: string, walletInfo: TronWalletInfo): InstanceType<typeof TronWeb> {
+    const tronWeb = new TronWeb({
+      fullHost: endpoint
+    });
+
+    // TronWeb only builds transactions from the wallet's address; the wallet signs them with its signer
+    tronWeb.setAddress(walletInfo.address);
+    return tronWeb;
+  }
+
+  /**
+   * Get the endpoint URL from the endpoint pool, or from chain configuration without one
    */
   private getEndpoint(): string {
+    if (this.endpointPool?.hasEndpoints()) {
+      return this.endpointPool.getCurrentUrl();
+    }
+
     // Use RPC URL from chainInfo
     if (this.chainInfo.rpc && this.chainInfo.rpc.primary && this.chainInfo.rpc.primary.trim() !== '') {
       return this.chainInfo.rpc.primary;
@@ -0,0 +1,62 @@
+import type { Types } from 'tronweb';
+
+/**
+ * Chain-specific data of an unsigned TRON transaction
+ */
+export interface TronUnsignedTransactionData {
+  /** Transaction object as returned by the TronWeb transaction builder */
+  transaction: Types.Transaction;
+}
+
+/**
+ * Chain-specific data of a signed TRON transaction
+ */
+export interface TronSignedTransactionData {
+  /** Signed transaction object, ready for broadcast */
+  transaction: Types.SignedTransaction;
+}
+
+/**
+ * Page of a TronGrid v1 list endpoint
+ */
+export interface TronGridPage<T> {
+  data: T[];
+  success: boolean;
+  meta: {
+    /** Cursor of the next page, absent on the last page */
+    fingerprint?: string;
+  };
+}
+
+/**
+ * Transaction as listed by TronGrid `/v1/accounts/{address}/transactions`
+ */
+export interface TronGridTransaction {
+  txID: string;
+  block_timestamp: number;
+  ret?: Array<{ contractRet?: string; fee?: number }>;
+  raw_data: {
+    contract: Array<{
+      type: string;
+      parameter: {
+        value: {
+          owner_address?: string;
+          to_address?: string;
+          amount?: number;
+        };
+      };
+    }>;
+  };
+}
+
+/**
+ * Transfer event as listed by TronGrid `/v1/accounts/{address}/transactions/trc20`
+ */
+export interface TronGridTrc20Transfer {
+  transaction_id: string;
+  block_timestamp: number;
+  from: string;
+  to: string;
+  type: string;
+  value: string;
+}
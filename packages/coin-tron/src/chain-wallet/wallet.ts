@@ -1,24 +1,37 @@
 import BigNumber from 'bignumber.js';
 import * as secp256k1 from '@noble/secp256k1';
+import TronWebDefault from 'tronweb';
 import {
   BaseChainWallet,
   ILogger,
   WalletConfig,
+  DerivationOptions,
   ChainInfo,
   BalanceQueryParams,
   TransferParams,
+  UnsignedTransaction,
+  SignedTransaction,
+  TransferSimulationResult,
+  TransactionHistoryParams,
+  TransactionHistoryPage,
   SignMessageParams,
   TransactionConfirmationParams,
   TransactionConfirmationResult,
   TokenIdentifier,
+  ISigner,
+  WatchOnlyAccount,
   NetworkError,
-  MnemonicError,
   MessageSigningError,
   GeneralWalletError,
   ArgumentError,
+  TransactionError,
   HibitIdSdkErrorCode,
   createReadyPromise,
   cleanupReferences,
+  createUnsignedTransaction,
+  createSignedTransaction,
+  assertTransactionForChain,
+  createFailedTransferSimulation,
   assertValidAddressForBalance,
   assertValidAddressForTransaction,
   assertValidTransferAmount,
@@ -34,11 +47,14 @@ import {
 } from '@delandlabs/coin-base';
 import { ChainAccount, ChainId, ChainAssetType } from '@delandlabs/hibit-basic-types';
 import { deriveEcdsaPrivateKey, base } from '@delandlabs/crypto-lib';
-import { CHAIN_CONFIG, ERROR_MESSAGES } from './config';
+import { CHAIN_CONFIG, ERROR_MESSAGES, getDerivingPath } from './config';
 import { BaseAssetHandler } from './asset-handlers/base-asset-handler';
 import { TrxNativeHandler } from './asset-handlers/trx-native-handler';
 import { Trc20TokenHandler } from './asset-handlers/trc20-token-handler';
 import { ConnectionManager, TronWalletInfo } from './shared/connection-manager';
+import { TronUnsignedTransactionData, TronSignedTransactionData } from './types';
+
+const { utils: tronWebUtils } = TronWebDefault;
 
 // Register TRON validators
 // Validator is now registered in the index.ts file using ChainValidation
@@ -84,6 +100,7 @@ export interface TronWalletOptions {
 export class TronChainWallet extends BaseChainWallet {
   // Private fields
   private walletInfo: TronWalletInfo | null = null;
+  private signer: ISigner | null = null;
   private readonly readyPromise: Promise<void>;
 
   // Shared services
@@ -92,26 +109,37 @@ export class TronChainWallet extends BaseChainWallet {
   // Asset handlers
   private readonly assetHandlers: Map<ChainAssetType, BaseAssetHandler>;
 
-  constructor(chainInfo: ChainInfo, mnemonic: string, options?: TronWalletOptions & { logger?: ILogger }) {
+  /**
+   * @param chainInfo - Chain configuration of the TRON network
+   * @param mnemonicOrSigner - Mnemonic phrase, a secp256k1 signer holding the wallet key, or an account to watch
+   * @param options - Key derivation method, logger and derivation options; derivation options only apply to mnemonics
+   */
+  constructor(
+    chainInfo: ChainInfo,
+    mnemonicOrSigner: string | ISigner | WatchOnlyAccount,
+    options?: TronWalletOptions & { logger?: ILogger } & DerivationOptions
+  ) {
     if (chainInfo.chainId.chain !== CHAIN_CONFIG.CHAIN) {
       throw new NetworkError(HibitIdSdkErrorCode.INVALID_CONFIGURATION, ERROR_MESSAGES.INVALID_CHAIN);
     }
 
     const config: WalletConfig = {
       chainInfo,
-      logger: options?.logger
+      logger: options?.logger,
+      accountIndex: options?.accountIndex,
+      derivationPath: options?.derivationPath
     };
-    super(config, mnemonic);
+    super(config, mnemonicOrSigner);
 
     // Initialize shared services
-    this.connectionManager = new ConnectionManager(chainInfo, this.logger);
+    this.connectionManager = new ConnectionManager(chainInfo, this.logger, this.endpointPool);
 
     // Initialize asset handlers map
     this.assetHandlers = new Map();
 
     // Create ready promise
     this.readyPromise = createReadyPromise(async () => {
-      await this.initializeWallet(mnemonic);
+      await this.initializeWallet();
       this.initializeAssetHandlers();
     });
   }
@@ -135,11 +163,23 @@ export class TronChainWallet extends BaseChainWallet {
     }
 
     const chainId = new ChainId(this.chainInfo.chainId.chain, this.chainInfo.chainId.network);
-    const publicKeyHex = base.hex.encode(this.walletInfo.publicKey);
+    const publicKeyHex = this.walletInfo.publicKey ? base.hex.encode(this.walletInfo.publicKey) : '';
 
     return new ChainAccount(chainId, this.walletInfo.address, publicKeyHex);
   }
 
+  /**
+   * Implementation of account derivation for getAccounts
+   */
+  @cleanSensitiveData()
+  protected async deriveAccountImpl(mnemonic: string, accountIndex: number): Promise<ChainAccount> {
+    const privateKey = base.hex.decode(await deriveEcdsaPrivateKey(mnemonic, getDerivingPath(accountIndex)));
+    const walletInfo = this.createWalletInfo(secp256k1.getPublicKey(privateKey, false));
+
+    const chainId = new ChainId(this.chainInfo.chainId.chain, this.chainInfo.chainId.network);
+    return new ChainAccount(chainId, walletInfo.address, base.hex.encode(walletInfo.publicKey!));
+  }
+
   /**
    * Implementation of balance query using strategy pattern
    */
@@ -159,9 +199,9 @@ export class TronChainWallet extends BaseChainWallet {
   }
 
   /**
-   * Implementation of transfer using strategy pattern
+   * Implementation of transfer building using strategy pattern
    */
-  protected async transferImpl(params: TransferParams): Promise<string> {
+  protected async buildTransferImpl(params: TransferParams): Promise<UnsignedTransaction<TronUnsignedTransactionData>> {
     await this.readyPromise;
 
     // Common validation at wallet level
@@ -178,7 +218,60 @@ export class TronChainWallet extends BaseChainWallet {
     }
 
     const handler = this.getAssetHandler(params.token?.assetType);
-    return await handler.transfer(params);
+    const transaction = await handler.buildTransfer(params);
+    return createUnsignedTransaction(this.chainInfo, params, { transaction });
+  }
+
+  /**
+   * Implementation of transaction signing
+   * The signer signs the transaction ID, the SHA-256 digest of the raw data; this does not touch the network
+   */
+  protected async signTransactionImpl(
+    transaction: UnsignedTransaction<TronUnsignedTransactionData>
+  ): Promise<SignedTransaction<TronSignedTransactionData>> {
+    await this.readyPromise;
+
+    assertTransactionForChain(transaction, this.chainInfo, CHAIN_CONFIG.CHAIN_NAME);
+
+    const unsignedTransaction = transaction.data.transaction;
+    const txID = base.toHex(base.sha256(base.fromHex(unsignedTransaction.raw_data_hex)));
+    if (txID !== unsignedTransaction.txID.toLowerCase()) {
+      throw new TransactionError(
+        HibitIdSdkErrorCode.TRANSACTION_SIGNING_FAILED,
+        `${CHAIN_CONFIG.CHAIN_NAME}: Transaction ID does not match the raw transaction data`,
+        unsignedTransaction.txID
+      );
+    }
+
+    const signature = await this.signDigest(base.fromHex(txID));
+    const signedTransaction = { ...unsignedTransaction, signature: [base.toHex(signature)] };
+
+    return createSignedTransaction(transaction, { transaction: signedTransaction }, signedTransaction.txID);
+  }
+
+  /**
+   * Implementation of transaction broadcasting
+   * A transaction the node has already accepted is treated as broadcast successfully
+   */
+  protected async broadcastTransactionImpl(
+    transaction: SignedTransaction<TronSignedTransactionData>
+  ): Promise<string> {
+    await this.readyPromise;
+
+    assertTransactionForChain(transaction, this.chainInfo, CHAIN_CONFIG.CHAIN_NAME);
+
+    const tronWeb = this.connectionManager.getTronWeb();
+    const result = await tronWeb.trx.sendRawTransaction(transaction.data.transaction);
+
+    if (!result.result && result.code !== 'DUP_TRANSACTION_ERROR') {
+      throw new TransactionError(
+        HibitIdSdkErrorCode.TRANSACTION_BROADCAST_FAILED,
+        `${CHAIN_CONFIG.CHAIN_NAME}: ${result.message || 'Transaction failed'}`,
+        transaction.data.transaction.txID
+      );
+    }
+
+    return transaction.data.transaction.txID;
   }
 
   /**
@@ -204,6 +297,41 @@ export class TronChainWallet extends BaseChainWallet {
     return await handler.estimateFee(params);
   }
 
+  /**
+   * Implementation of transfer simulation
+   * TRC20 transfers are dry-run against the contract before balances are checked
+   */
+  protected async simulateTransferImpl(params: TransferParams): Promise<TransferSimulationResult> {
+    const fee = await this.estimateFeeImpl(params);
+
+    const handler = this.getAssetHandler(params.token?.assetType);
+    const failureReason = await handler.simulateTransfer(params);
+    if (failureReason) {
+      return createFailedTransferSimulation(failureReason, fee);
+    }
+
+    return this.simulateTransferWithBalances(params, fee, { assetType: ChainAssetType.Native });
+  }
+
+  /**
+   * Implementation of transaction history using strategy pattern
+   */
+  protected async getTransactionHistoryImpl(
+    params: TransactionHistoryParams & { limit: number }
+  ): Promise<TransactionHistoryPage> {
+    await this.readyPromise;
+
+    assertValidAddressForBalance(params.address, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+
+    // Validate token address for TRC20
+    if (params.token?.assetType === ChainAssetType.TRC20) {
+      await assertValidTokenAddressForBalance(params.token.tokenAddress, CHAIN_CONFIG.CHAIN, CHAIN_CONFIG.CHAIN_NAME);
+    }
+
+    const handler = this.getAssetHandler(params.token?.assetType);
+    return await handler.getTransactionHistory(params);
+  }
+
   /**
    * Implementation of message signing
    * Note: Only supported by native asset handler
@@ -219,13 +347,10 @@ export class TronChainWallet extends BaseChainWallet {
       );
     }
 
-    // Sign message using TronWeb directly since only native supports it
-    const tronWeb = this.connectionManager.getTronWeb();
-
-    const signature = await tronWeb.trx.signMessageV2(params.message);
+    // TIP-191 digest, as signed by TronWeb's signMessageV2
+    const digest = tronWebUtils.message.hashMessage(params.message);
 
-    // Convert signature to Uint8Array using unified hex utilities
-    return base.fromHex(signature);
+    return this.signDigest(base.fromHex(digest.replace(/^0x/, '')));
   }
 
   /**
@@ -336,6 +461,20 @@ export class TronChainWallet extends BaseChainWallet {
     throw new Error(`Cannot get decimals for asset type: ${token.assetType}`);
   }
 
+  /**
+   * Implementation of endpoint probing: requests the current block
+   */
+  protected async checkEndpointImpl(url: string): Promise<void> {
+    await this.connectionManager.checkEndpoint(url);
+  }
+
+  /**
+   * Reconnect to the endpoint the endpoint pool switched to
+   */
+  protected async onRpcEndpointChanged(url: string): Promise<void> {
+    this.connectionManager.switchEndpoint(url);
+  }
+
   /**
    * Clean up resources when wallet is no longer needed
    */
@@ -346,8 +485,9 @@ export class TronChainWallet extends BaseChainWallet {
     // Clean up asset handlers
     this.assetHandlers.clear();
 
-    // Clean up wallet information (contains private key!)
+    // Clean up wallet information and signer references
     this.walletInfo = null;
+    this.signer = null;
 
     // Clean up any remaining references
     cleanupReferences(this, ['readyPromise']);
@@ -358,37 +498,26 @@ export class TronChainWallet extends BaseChainWallet {
   // ============================================================
 
   /**
-   * Initialize the wallet from mnemonic
+   * Initialize the wallet from its signer
+   * Watch-only wallets have no signer; they are initialized from the watched address
    * @private
    */
   @withErrorHandling({ errorType: 'general' }, 'Failed to initialize TRON wallet')
   @withLogging('Initialize TRON wallet')
-  @cleanSensitiveData()
-  private async initializeWallet(mnemonic: string): Promise<void> {
-    if (!mnemonic || mnemonic.trim() === '') {
-      throw new MnemonicError(HibitIdSdkErrorCode.INVALID_MNEMONIC, `${CHAIN_CONFIG.CHAIN_NAME}: Empty mnemonic`);
+  private async initializeWallet(): Promise<void> {
+    const watchOnlyAccount = this.getWatchOnlyAccount();
+    if (watchOnlyAccount) {
+      this.walletInfo = {
+        address: watchOnlyAccount.address,
+        publicKey: watchOnlyAccount.publicKeyHex ? base.fromHex(watchOnlyAccount.publicKeyHex) : undefined
+      };
+    } else {
+      // Sign with the constructor's signer or a key derived from the mnemonic
+      this.signer = this.createSigner('secp256k1', getDerivingPath);
+      const publicKey = secp256k1.ProjectivePoint.fromHex(await this.signer.getPublicKey()).toRawBytes(false);
+      this.walletInfo = this.createWalletInfo(publicKey);
     }
 
-    // Generate keypair using secp256k1 derivation
-    const privateKeyHex = await deriveEcdsaPrivateKey(mnemonic, CHAIN_CONFIG.DERIVING_PATH);
-    const privateKeyBytes = base.hex.decode(privateKeyHex);
-
-    // Convert to hex string for TronWeb
-    const privateKey = base.hex.encode(privateKeyBytes);
-
-    // Get public key using secp256k1
-    const publicKey = secp256k1.getPublicKey(privateKeyBytes, false);
-
-    // Generate Tron address from public key
-    const address = this.generateAddress(publicKey);
-
-    // Store wallet information
-    this.walletInfo = {
-      address,
-      privateKey,
-      publicKey
-    };
-
     // Initialize connection manager with wallet info
     this.connectionManager.initialize(this.walletInfo);
   }
@@ -430,6 +559,31 @@ export class TronChainWallet extends BaseChainWallet {
     return handler;
   }
 
+  /**
+   * Create the wallet information of an uncompressed public key
+   * @private
+   */
+  private createWalletInfo(publicKey: Uint8Array): TronWalletInfo {
+    return {
+      address: this.generateAddress(publicKey),
+      publicKey
+    };
+  }
+
+  /**
+   * Sign a 32-byte digest with the wallet's signer
+   * @returns The 65-byte signature r || s || v with TRON's recovery parameter v = 27 + recovery id
+   * @private
+   */
+  private async signDigest(digest: Uint8Array): Promise<Uint8Array> {
+    if (!this.signer) {
+      throw new GeneralWalletError(HibitIdSdkErrorCode.WALLET_NOT_CONNECTED, ERROR_MESSAGES.NOT_INITIALIZED);
+    }
+
+    const signature = await this.signer.signDigest(digest);
+    return Uint8Array.from([...signature.slice(0, 64), 27 + signature[64]]);
+  }
+
   /**
    * Generate TRON address from public key
    * @private
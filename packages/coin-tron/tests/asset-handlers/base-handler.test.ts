@@ -64,7 +64,8 @@ describe('Asset Handlers', () => {
         signMessageV2: vi.fn()
       },
       transactionBuilder: {
-        sendTrx: vi.fn()
+        sendTrx: vi.fn(),
+        triggerSmartContract: vi.fn()
       },
       contract: vi.fn().mockReturnValue({
         at: vi.fn().mockResolvedValue({
@@ -86,7 +87,6 @@ describe('Asset Handlers', () => {
     vi.spyOn(connectionManager, 'getTronWeb').mockReturnValue(mockTronWeb);
     vi.spyOn(connectionManager, 'getWallet').mockReturnValue({
       address: 'TN3W4H6rK2ce4vX9YnFQHwKENnHjoxb3m9',
-      privateKey: 'mock-private-key',
       publicKey: new Uint8Array(33)
     });
   });
@@ -116,22 +116,20 @@ describe('Asset Handlers', () => {
       expect(mockTronWeb.trx.getBalance).toHaveBeenCalledWith('TN3W4H6rK2ce4vX9YnFQHwKENnHjoxb3m9');
     });
 
-    test('should execute transfer successfully', async () => {
-      const mockTransaction = { id: 'mock-tx-id' };
-      const mockSignedTransaction = { ...mockTransaction, signature: 'mock-signature' };
-      const mockBroadcastResult = { result: true, txid: 'mock-tx-hash' };
+    test('should build transfer without signing or broadcasting', async () => {
+      const mockTransaction = { txID: 'mock-tx-id' };
 
       mockTronWeb.transactionBuilder.sendTrx.mockResolvedValue(mockTransaction);
-      mockTronWeb.trx.sign.mockResolvedValue(mockSignedTransaction);
-      mockTronWeb.trx.sendRawTransaction.mockResolvedValue(mockBroadcastResult);
 
-      const txId = await handler.transfer({
+      const transaction = await handler.buildTransfer({
         recipientAddress: createAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', Tron.chainId.chain),
         amount: new BigNumber('1500000'), // 1500000 sun = 1.5 TRX
         token: { assetType: ChainAssetType.Native }
       });
 
-      expect(txId).toBe('mock-tx-hash');
+      expect(transaction).toBe(mockTransaction);
+      expect(mockTronWeb.trx.sign).not.toHaveBeenCalled();
+      expect(mockTronWeb.trx.sendRawTransaction).not.toHaveBeenCalled();
       expect(mockTronWeb.transactionBuilder.sendTrx).toHaveBeenCalledWith(
         'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t',
         1500000,
@@ -200,19 +198,14 @@ describe('Asset Handlers', () => {
       expect(mockContract.balanceOf).toHaveBeenCalled();
     });
 
-    test('should execute transfer successfully', async () => {
-      const mockContract = {
-        decimals: vi.fn().mockReturnValue({
-          call: vi.fn().mockResolvedValue(6)
-        }),
-        transfer: vi.fn().mockReturnValue({
-          send: vi.fn().mockResolvedValue('mock-tx-hash')
-        })
-      };
-
-      mockTronWeb.contract().at.mockResolvedValue(mockContract);
+    test('should build transfer without signing or broadcasting', async () => {
+      const mockTransaction = { txID: 'mock-tx-id' };
+      mockTronWeb.transactionBuilder.triggerSmartContract.mockResolvedValue({
+        result: { result: true },
+        transaction: mockTransaction
+      });
 
-      const txId = await handler.transfer({
+      const transaction = await handler.buildTransfer({
         recipientAddress: createAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', Tron.chainId.chain),
         amount: new BigNumber('100500000'), // 100.5 tokens with 6 decimals
         token: {
@@ -221,8 +214,18 @@ describe('Asset Handlers', () => {
         }
       });
 
-      expect(txId).toBe('mock-tx-hash');
-      expect(mockContract.transfer).toHaveBeenCalledWith('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', '100500000');
+      expect(transaction).toBe(mockTransaction);
+      expect(mockTronWeb.transactionBuilder.triggerSmartContract).toHaveBeenCalledWith(
+        'TJmmqjb1DK9TTZbQXzRQ2AuA94z4gKAPFa',
+        'transfer(address,uint256)',
+        { feeLimit: 100_000_000 },
+        [
+          { type: 'address', value: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t' },
+          { type: 'uint256', value: '100500000' }
+        ],
+        'TN3W4H6rK2ce4vX9YnFQHwKENnHjoxb3m9'
+      );
+      expect(mockTronWeb.trx.sendRawTransaction).not.toHaveBeenCalled();
     });
 
     test('should estimate fee correctly', async () => {
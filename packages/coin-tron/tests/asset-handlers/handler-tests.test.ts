@@ -74,7 +74,6 @@ describe('TrxNativeHandler', () => {
     vi.spyOn(connectionManager, 'getTronWeb').mockReturnValue(mockTronWeb);
     vi.spyOn(connectionManager, 'getWallet').mockReturnValue({
       address: 'TN3W4H6rK2ce4vX9YnFQHwKENnHjoxb3m9',
-      privateKey: 'mock-private-key',
       publicKey: new Uint8Array(33)
     });
 
@@ -114,23 +113,21 @@ describe('TrxNativeHandler', () => {
     });
   });
 
-  describe('Transfer', () => {
-    test('should execute transfer successfully', async () => {
-      const mockTransaction = { id: 'mock-tx-id' };
-      const mockSignedTransaction = { ...mockTransaction, signature: 'mock-signature' };
-      const mockBroadcastResult = { result: true, txid: 'mock-tx-hash' };
+  describe('Build Transfer', () => {
+    test('should build transfer without signing or broadcasting', async () => {
+      const mockTransaction = { txID: 'mock-tx-id' };
 
       mockTronWeb.transactionBuilder.sendTrx.mockResolvedValue(mockTransaction);
-      mockTronWeb.trx.sign.mockResolvedValue(mockSignedTransaction);
-      mockTronWeb.trx.sendRawTransaction.mockResolvedValue(mockBroadcastResult);
 
-      const txId = await handler.transfer({
+      const transaction = await handler.buildTransfer({
         recipientAddress: createAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', ChainType.Tron),
         amount: new BigNumber('1500000'), // 1500000 sun = 1.5 TRX
         token: { assetType: ChainAssetType.Native }
       });
 
-      expect(txId).toBe('mock-tx-hash');
+      expect(transaction).toBe(mockTransaction);
+      expect(mockTronWeb.trx.sign).not.toHaveBeenCalled();
+      expect(mockTronWeb.trx.sendRawTransaction).not.toHaveBeenCalled();
       expect(mockTronWeb.transactionBuilder.sendTrx).toHaveBeenCalledWith(
         'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t',
         1500000,
@@ -138,29 +135,11 @@ describe('TrxNativeHandler', () => {
       );
     });
 
-    test('should handle transfer failure', async () => {
-      const mockTransaction = { id: 'mock-tx-id' };
-      const mockSignedTransaction = { ...mockTransaction, signature: 'mock-signature' };
-      const mockBroadcastResult = { result: false, message: 'Insufficient balance' };
-
-      mockTronWeb.transactionBuilder.sendTrx.mockResolvedValue(mockTransaction);
-      mockTronWeb.trx.sign.mockResolvedValue(mockSignedTransaction);
-      mockTronWeb.trx.sendRawTransaction.mockResolvedValue(mockBroadcastResult);
-
-      await expect(
-        handler.transfer({
-          recipientAddress: createAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', ChainType.Tron),
-          amount: new BigNumber('1000'),
-          token: { assetType: ChainAssetType.Native }
-        })
-      ).rejects.toThrow('Insufficient balance');
-    });
-
-    test('should handle network errors during transfer', async () => {
+    test('should handle network errors during build', async () => {
       mockTronWeb.transactionBuilder.sendTrx.mockRejectedValue(new Error('Network timeout'));
 
       await expect(
-        handler.transfer({
+        handler.buildTransfer({
           recipientAddress: createAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', ChainType.Tron),
           amount: new BigNumber('1000000'), // 1000000 sun = 1 TRX
           token: { assetType: ChainAssetType.Native }
@@ -236,6 +215,14 @@ describe('Trc20TokenHandler', () => {
       trx: {
         getAccountResources: vi.fn()
       },
+      transactionBuilder: {
+        triggerSmartContract: vi.fn(),
+        triggerConstantContract: vi.fn()
+      },
+      toUtf8: vi.fn((hex: string) => Buffer.from(hex, 'hex').toString('utf8')),
+      fullNode: {
+        request: vi.fn()
+      },
       contract: vi.fn().mockReturnValue({
         at: vi.fn()
       })
@@ -246,7 +233,6 @@ describe('Trc20TokenHandler', () => {
     vi.spyOn(connectionManager, 'getTronWeb').mockReturnValue(mockTronWeb);
     vi.spyOn(connectionManager, 'getWallet').mockReturnValue({
       address: 'TN3W4H6rK2ce4vX9YnFQHwKENnHjoxb3m9',
-      privateKey: 'mock-private-key',
       publicKey: new Uint8Array(33)
     });
 
@@ -313,30 +299,27 @@ describe('Trc20TokenHandler', () => {
     });
   });
 
-  describe('Transfer', () => {
+  describe('Build Transfer', () => {
     test('should throw error when token address missing', async () => {
+      mockTronWeb.transactionBuilder.triggerSmartContract.mockRejectedValue(new Error('Invalid contract address'));
+
       await expect(
-        handler.transfer({
+        handler.buildTransfer({
           recipientAddress: createAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', ChainType.Tron),
           amount: new BigNumber('1000000'), // 1 token with 6 decimals
           token: { assetType: ChainAssetType.TRC20 }
         })
-      ).rejects.toThrow(); // Runtime error when accessing undefined tokenAddress
+      ).rejects.toThrow();
     });
 
-    test('should execute transfer successfully', async () => {
-      const mockContract = {
-        decimals: vi.fn().mockReturnValue({
-          call: vi.fn().mockResolvedValue(6)
-        }),
-        transfer: vi.fn().mockReturnValue({
-          send: vi.fn().mockResolvedValue('mock-tx-hash')
-        })
-      };
-
-      mockTronWeb.contract().at.mockResolvedValue(mockContract);
+    test('should build transfer successfully', async () => {
+      const mockTransaction = { txID: 'mock-tx-id' };
+      mockTronWeb.transactionBuilder.triggerSmartContract.mockResolvedValue({
+        result: { result: true },
+        transaction: mockTransaction
+      });
 
-      const txId = await handler.transfer({
+      const transaction = await handler.buildTransfer({
         recipientAddress: createAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', ChainType.Tron),
         amount: new BigNumber('100500000'), // 100.5 tokens with 6 decimals
         token: {
@@ -345,24 +328,42 @@ describe('Trc20TokenHandler', () => {
         }
       });
 
-      expect(txId).toBe('mock-tx-hash');
-      expect(mockContract.transfer).toHaveBeenCalledWith('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', '100500000');
+      expect(transaction).toBe(mockTransaction);
+      expect(mockTronWeb.transactionBuilder.triggerSmartContract).toHaveBeenCalledWith(
+        'TJmmqjb1DK9TTZbQXzRQ2AuA94z4gKAPFa',
+        'transfer(address,uint256)',
+        expect.objectContaining({ feeLimit: expect.any(Number) }),
+        [
+          { type: 'address', value: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t' },
+          { type: 'uint256', value: '100500000' }
+        ],
+        'TN3W4H6rK2ce4vX9YnFQHwKENnHjoxb3m9'
+      );
     });
 
-    test('should handle network errors during transfer', async () => {
-      const mockContract = {
-        decimals: vi.fn().mockReturnValue({
-          call: vi.fn().mockResolvedValue(6)
-        }),
-        transfer: vi.fn().mockReturnValue({
-          send: vi.fn().mockRejectedValue(new Error('Network timeout'))
+    test('should fail when the node cannot build the contract call', async () => {
+      mockTronWeb.transactionBuilder.triggerSmartContract.mockResolvedValue({
+        result: { result: false },
+        transaction: undefined
+      });
+
+      await expect(
+        handler.buildTransfer({
+          recipientAddress: createAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', ChainType.Tron),
+          amount: new BigNumber('100'),
+          token: {
+            assetType: ChainAssetType.TRC20,
+            tokenAddress: 'TJmmqjb1DK9TTZbQXzRQ2AuA94z4gKAPFa'
+          }
         })
-      };
+      ).rejects.toThrow('Failed to build TRC20 transfer');
+    });
 
-      mockTronWeb.contract().at.mockResolvedValue(mockContract);
+    test('should handle network errors during build', async () => {
+      mockTronWeb.transactionBuilder.triggerSmartContract.mockRejectedValue(new Error('Network timeout'));
 
       await expect(
-        handler.transfer({
+        handler.buildTransfer({
           recipientAddress: createAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', ChainType.Tron),
           amount: new BigNumber('100'),
           token: {
@@ -374,6 +375,97 @@ describe('Trc20TokenHandler', () => {
     });
   });
 
+  describe('Transfer Simulation', () => {
+    const transferParams = {
+      recipientAddress: createAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', ChainType.Tron),
+      amount: new BigNumber('100'),
+      token: {
+        assetType: ChainAssetType.TRC20,
+        tokenAddress: 'TJmmqjb1DK9TTZbQXzRQ2AuA94z4gKAPFa'
+      }
+    };
+
+    test('should report no failure when the contract accepts the transfer', async () => {
+      mockTronWeb.transactionBuilder.triggerConstantContract.mockResolvedValue({
+        result: { result: true },
+        transaction: { ret: [{ ret: 'SUCCESS' }] }
+      });
+
+      await expect(handler.simulateTransfer(transferParams)).resolves.toBeUndefined();
+      expect(mockTronWeb.transactionBuilder.triggerConstantContract).toHaveBeenCalledWith(
+        'TJmmqjb1DK9TTZbQXzRQ2AuA94z4gKAPFa',
+        'transfer(address,uint256)',
+        {},
+        [
+          { type: 'address', value: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t' },
+          { type: 'uint256', value: '100' }
+        ],
+        'TN3W4H6rK2ce4vX9YnFQHwKENnHjoxb3m9'
+      );
+    });
+
+    test('should decode the failure message reported by the node', async () => {
+      mockTronWeb.transactionBuilder.triggerConstantContract.mockResolvedValue({
+        result: { result: false, message: Buffer.from('REVERT opcode executed').toString('hex') }
+      });
+
+      await expect(handler.simulateTransfer(transferParams)).resolves.toBe('REVERT opcode executed');
+    });
+
+    test('should report reverted executions', async () => {
+      mockTronWeb.transactionBuilder.triggerConstantContract.mockResolvedValue({
+        result: { result: true },
+        transaction: { ret: [{ ret: 'REVERT' }] }
+      });
+
+      await expect(handler.simulateTransfer(transferParams)).resolves.toBe('TRC20 transfer reverted with REVERT');
+    });
+  });
+
+  describe('Transaction History', () => {
+    test('should list TRC20 transfers with the TronGrid fingerprint as cursor', async () => {
+      const owner = 'TN3W4H6rK2ce4vX9YnFQHwKENnHjoxb3m9';
+      const counterparty = 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t';
+      const token = { assetType: ChainAssetType.TRC20, tokenAddress: 'TJmmqjb1DK9TTZbQXzRQ2AuA94z4gKAPFa' };
+
+      mockTronWeb.fullNode.request.mockResolvedValue({
+        success: true,
+        data: [
+          { transaction_id: 'tx2', block_timestamp: 2000, from: counterparty, to: owner, type: 'Transfer', value: '5' },
+          { transaction_id: 'tx1', block_timestamp: 1000, from: owner, to: counterparty, type: 'Transfer', value: '3' },
+          { transaction_id: 'tx0', block_timestamp: 500, from: owner, to: counterparty, type: 'Approval', value: '9' }
+        ],
+        meta: { fingerprint: 'next-page' }
+      });
+
+      const page = await handler.getTransactionHistory({
+        address: createAddress(owner, ChainType.Tron),
+        token,
+        cursor: 'this-page',
+        limit: 3
+      });
+
+      expect(mockTronWeb.fullNode.request).toHaveBeenCalledWith(
+        `v1/accounts/${owner}/transactions/trc20?contract_address=${token.tokenAddress}&limit=3&fingerprint=this-page&order_by=block_timestamp%2Cdesc`,
+        {},
+        'get'
+      );
+      expect(page.records).toEqual([
+        {
+          hash: 'tx2',
+          direction: 'incoming',
+          counterparty,
+          amount: new BigNumber(5),
+          token,
+          status: 'confirmed',
+          timestamp: 2000
+        },
+        expect.objectContaining({ hash: 'tx1', direction: 'outgoing', counterparty, amount: new BigNumber(3) })
+      ]);
+      expect(page.nextCursor).toBe('next-page');
+    });
+  });
+
   describe('Fee Estimation', () => {
     test('should estimate zero fee when sufficient resources', async () => {
       const mockAccountResources = {
@@ -3,7 +3,7 @@ import './setup';
 import { describe, expect, test, vi, beforeEach } from 'vitest';
 import { ConnectionManager, TronWalletInfo } from '../src/chain-wallet/shared/connection-manager';
 import { Tron, TronShasta } from './test-chains';
-import { NetworkError, HibitIdSdkErrorCode } from '@delandlabs/coin-base';
+import { NetworkError, HibitIdSdkErrorCode, EndpointPool } from '@delandlabs/coin-base';
 
 // Mock coin-base decorators and functions
 vi.mock('@delandlabs/coin-base', async () => {
@@ -40,7 +40,6 @@ describe('ConnectionManager', () => {
 
     mockWalletInfo = {
       address: 'TN3W4H6rK2ce4vX9YnFQHwKENnHjoxb3m9',
-      privateKey: '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
       publicKey: new Uint8Array(65) // Mock public key
     };
 
@@ -144,7 +143,7 @@ describe('ConnectionManager', () => {
 
   describe('Wallet Info Validation', () => {
     test('should validate wallet info structure', () => {
-      const requiredFields = ['address', 'privateKey', 'publicKey'];
+      const requiredFields = ['address', 'publicKey'];
 
       requiredFields.forEach((field) => {
         expect(mockWalletInfo).toHaveProperty(field);
@@ -155,13 +154,9 @@ describe('ConnectionManager', () => {
       expect(mockWalletInfo.address).toMatch(/^T[1-9A-HJ-NP-Za-km-z]{33}$/);
     });
 
-    test('should validate private key format', () => {
-      expect(mockWalletInfo.privateKey).toMatch(/^[0-9a-fA-F]{64}$/);
-    });
-
     test('should validate public key format', () => {
       expect(mockWalletInfo.publicKey).toBeInstanceOf(Uint8Array);
-      expect(mockWalletInfo.publicKey.length).toBe(65); // Uncompressed secp256k1 public key
+      expect(mockWalletInfo.publicKey?.length).toBe(65); // Uncompressed secp256k1 public key
     });
   });
 
@@ -196,6 +191,27 @@ describe('ConnectionManager', () => {
         manager.initialize(mockWalletInfo);
       }).toThrow(NetworkError);
     });
+
+    test('should connect to the current endpoint of the endpoint pool', () => {
+      const chain = { ...Tron, rpc: { primary: '', fallbacks: ['https://api.tronstack.io'] } };
+      const manager = new ConnectionManager(chain, mockLogger, new EndpointPool(chain.rpc, { chainName: 'Tron' }));
+
+      manager.initialize(mockWalletInfo);
+
+      expect(manager.getTronWeb().fullNode.host).toBe('https://api.tronstack.io');
+    });
+
+    test('should recreate TronWeb for the wallet when switching endpoints', () => {
+      connectionManager.initialize(mockWalletInfo);
+      const previousTronWeb = connectionManager.getTronWeb();
+
+      connectionManager.switchEndpoint('https://api.tronstack.io');
+
+      const tronWeb = connectionManager.getTronWeb();
+      expect(tronWeb).not.toBe(previousTronWeb);
+      expect(tronWeb.fullNode.host).toBe('https://api.tronstack.io');
+      expect(tronWeb.defaultAddress.base58).toBe(previousTronWeb.defaultAddress.base58);
+    });
   });
 
   describe('Logging Integration', () => {
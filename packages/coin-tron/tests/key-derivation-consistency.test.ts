@@ -41,6 +41,22 @@ describe('TRON Key Derivation Consistency', () => {
       expect(account.address).toMatch(/^T[1-9A-HJ-NP-Za-km-z]{33}$/);
     });
 
+    test('should derive further accounts by address index', async () => {
+      const wallet = new TronChainWallet(Tron, TEST_VECTORS[0].mnemonic);
+      const accounts = await wallet.getAccounts({ count: 2 });
+
+      expect(accounts[0].address).toBe(TEST_VECTORS[0].expectedAddress);
+      expect(accounts[1].address).not.toBe(accounts[0].address);
+
+      // The second account matches a wallet configured with account index 1 and its explicit path
+      const secondWallet = new TronChainWallet(Tron, TEST_VECTORS[0].mnemonic, { accountIndex: 1 });
+      const customPathWallet = new TronChainWallet(Tron, TEST_VECTORS[0].mnemonic, {
+        derivationPath: "m/44'/195'/0'/0/1"
+      });
+      expect((await secondWallet.getAccount()).address).toBe(accounts[1].address);
+      expect((await customPathWallet.getAccount()).address).toBe(accounts[1].address);
+    });
+
     test('should derive keys consistently with secp256k1', async () => {
       for (const vector of TEST_VECTORS) {
         const wallet = new TronChainWallet(Tron, vector.mnemonic, {
@@ -5,9 +5,13 @@ import { TronChainWallet } from '../src/chain-wallet/wallet';
 import { Tron, TronShasta } from './test-chains';
 import BigNumber from 'bignumber.js';
 import { ChainAssetType } from '@delandlabs/hibit-basic-types';
-import { TransactionError, HibitIdSdkErrorCode, createAddress } from '@delandlabs/coin-base';
+import { TransactionError, HibitIdSdkErrorCode, ISigner, MnemonicSigner, createAddress } from '@delandlabs/coin-base';
 import { ChainNetwork, ChainType } from '@delandlabs/hibit-basic-types';
+import { base } from '@delandlabs/crypto-lib';
+import TronWebDefault from 'tronweb';
+import { TronSignedTransactionData } from '../src/chain-wallet/types';
 
+const { utils: tronWebUtils } = TronWebDefault;
 const testMnemonic = 'eight record heavy smile elephant venue spend burst initial cousin casual order';
 
 describe('TronChainWallet Implementation', () => {
@@ -196,6 +200,131 @@ describe('TronChainWallet Implementation', () => {
     });
   });
 
+  describe('Signers', () => {
+    test('should sign through the signer it was constructed with', async () => {
+      const mnemonicSigner = new MnemonicSigner(testMnemonic, {
+        keyType: 'secp256k1',
+        derivationPath: "m/44'/195'/0'/0/1"
+      });
+      // Stand-in for a remote signer that never exposes its key
+      const signer: ISigner = {
+        keyType: 'secp256k1',
+        getPublicKey: () => mnemonicSigner.getPublicKey(),
+        signBytes: (message) => mnemonicSigner.signBytes(message),
+        signDigest: vi.fn((digest: Uint8Array) => mnemonicSigner.signDigest(digest))
+      };
+      const expected = await new TronChainWallet(Tron, testMnemonic, { accountIndex: 1 }).getAccount();
+      wallet = new TronChainWallet(Tron, signer);
+
+      const account = await wallet.getAccount();
+      const signature = await wallet.signMessage({ message: 'Hello World' });
+
+      const txID = base.toHex(base.sha256(base.fromHex('00')));
+      const tronWeb = (wallet as any).connectionManager.getTronWeb();
+      vi.spyOn(tronWeb.transactionBuilder, 'sendTrx').mockResolvedValue({
+        txID,
+        raw_data: {},
+        raw_data_hex: '00',
+        visible: false
+      });
+      const signed = await wallet.signTransaction(
+        await wallet.buildTransfer({
+          recipientAddress: createAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', ChainType.Tron),
+          amount: new BigNumber('1000000'),
+          token: { assetType: ChainAssetType.Native }
+        })
+      );
+      const [transactionSignature] = (signed.data as TronSignedTransactionData).transaction.signature;
+
+      expect(account.address).toBe(expected.address);
+      expect(account.publicKeyHex).toBe(expected.publicKeyHex);
+      expect(tronWebUtils.message.verifyMessage('Hello World', base.toHex(signature))).toBe(account.address);
+      expect(tronWebUtils.address.fromHex(tronWebUtils.crypto.ecRecover(txID, transactionSignature))).toBe(
+        account.address
+      );
+      expect(signer.signDigest).toHaveBeenCalledTimes(2);
+    });
+
+    test('should reject Ed25519 signers', async () => {
+      const signer = new MnemonicSigner(testMnemonic, { keyType: 'ed25519', derivationPath: "m/44'/501'/0'/0'" });
+      wallet = new TronChainWallet(Tron, signer);
+
+      await expect(wallet.getAccount()).rejects.toThrow('Signer key type ed25519 is not supported');
+    });
+  });
+
+  describe('Watch-only Wallets', () => {
+    test('should report the watched account but refuse to sign', async () => {
+      const { address, publicKeyHex } = await new TronChainWallet(Tron, testMnemonic).getAccount();
+      wallet = new TronChainWallet(Tron, { address, publicKeyHex });
+
+      const account = await wallet.getAccount();
+
+      expect(account.address).toBe(address);
+      expect(account.publicKeyHex).toBe(publicKeyHex);
+      await expect(wallet.signMessage({ message: 'test message' })).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.WATCH_ONLY_WALLET
+      });
+    });
+  });
+
+  describe('Offline Signing and Broadcast', () => {
+    // The transaction ID is the SHA-256 digest of the raw data
+    const txID = base.toHex(base.sha256(base.fromHex('00')));
+    const mockTransaction = { txID, raw_data: {}, raw_data_hex: '00', visible: false };
+    let tronWeb: any;
+
+    beforeEach(async () => {
+      wallet = new TronChainWallet(Tron, testMnemonic);
+      await wallet.getAccount();
+      tronWeb = (wallet as any).connectionManager.getTronWeb();
+      vi.spyOn(tronWeb.transactionBuilder, 'sendTrx').mockResolvedValue(mockTransaction);
+    });
+
+    const buildAndSign = async () => {
+      const unsigned = await wallet.buildTransfer({
+        recipientAddress: createAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', ChainType.Tron),
+        amount: new BigNumber('1000000'),
+        token: { assetType: ChainAssetType.Native }
+      });
+      return await wallet.signTransaction(unsigned);
+    };
+
+    test('should sign without broadcasting', async () => {
+      const sendRawTransaction = vi.spyOn(tronWeb.trx, 'sendRawTransaction');
+
+      const signed = await buildAndSign();
+
+      expect(signed.txHash).toBe(txID);
+      expect(sendRawTransaction).not.toHaveBeenCalled();
+    });
+
+    test('should allow broadcasting the same signed transaction again', async () => {
+      vi.spyOn(tronWeb.trx, 'sendRawTransaction')
+        .mockResolvedValueOnce({ result: true, txid: txID })
+        .mockResolvedValueOnce({ result: false, code: 'DUP_TRANSACTION_ERROR' });
+
+      const signed = await buildAndSign();
+
+      await expect(wallet.broadcastTransaction(signed)).resolves.toBe(txID);
+      await expect(wallet.broadcastTransaction(signed)).resolves.toBe(txID);
+    });
+
+    test('should report rejected broadcasts', async () => {
+      vi.spyOn(tronWeb.trx, 'sendRawTransaction').mockResolvedValue({
+        result: false,
+        code: 'CONTRACT_VALIDATE_ERROR',
+        message: 'Insufficient balance'
+      });
+
+      const signed = await buildAndSign();
+
+      await expect(wallet.broadcastTransaction(signed)).rejects.toMatchObject({
+        code: HibitIdSdkErrorCode.TRANSACTION_BROADCAST_FAILED
+      });
+    });
+  });
+
   describe('Error Code Validation', () => {
     test('should use correct error codes for different scenarios', async () => {
       wallet = new TronChainWallet(Tron, testMnemonic);
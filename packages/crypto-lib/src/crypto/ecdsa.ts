@@ -1,9 +1,12 @@
 import * as base from '../base';
 import { HDKey } from '@scure/bip32';
 import * as bip39 from '@scure/bip39';
+import * as secp256k1 from '@noble/secp256k1';
 
 import { clearSensitiveArrays } from '../utils';
 
+secp256k1.etc.hmacSha256Sync = (key, ...messages) => base.hmacSHA256(key, secp256k1.etc.concatBytes(...messages));
+
 /**
  * Derives an ECDSA private key from a mnemonic phrase
  * @param mnemonic - BIP39 mnemonic phrase
@@ -40,4 +43,28 @@ const deriveEcdsaPrivateKey = async (mnemonic: string, derivationPath: string):
   }
 };
 
-export { deriveEcdsaPrivateKey };
+/**
+ * Computes the compressed secp256k1 public key of a private key
+ * @param privateKey - 32-byte private key
+ * @returns The 33-byte compressed public key
+ */
+const getEcdsaPublicKey = (privateKey: Uint8Array): Uint8Array => {
+  return secp256k1.getPublicKey(privateKey, true);
+};
+
+/**
+ * Signs a 32-byte digest with a secp256k1 private key
+ * Signatures are deterministic (RFC 6979) and normalized to low-s form.
+ * @param privateKey - 32-byte private key
+ * @param digest - 32-byte message digest
+ * @returns The 65-byte signature: r (32 bytes) || s (32 bytes) || recovery id (1 byte)
+ */
+const signEcdsaDigest = (privateKey: Uint8Array, digest: Uint8Array): Uint8Array => {
+  if (digest.length !== 32) {
+    throw new Error(`Digest must be 32 bytes, got ${digest.length}`);
+  }
+  const signature = secp256k1.sign(digest, privateKey);
+  return base.concatBytes(signature.toCompactRawBytes(), new Uint8Array([signature.recovery]));
+};
+
+export { deriveEcdsaPrivateKey, getEcdsaPublicKey, signEcdsaDigest };
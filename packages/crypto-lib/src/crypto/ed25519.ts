@@ -185,4 +185,23 @@ async function deriveEd25519PrivateKey(
   }
 }
 
-export { isValidPath, deriveEd25519PrivateKey };
+/**
+ * Computes the Ed25519 public key of a private key
+ * @param privateKey - 32-byte private key seed
+ * @returns The 32-byte public key
+ */
+function getEd25519PublicKey(privateKey: Uint8Array): Uint8Array {
+  return ed25519.getPublicKey(privateKey);
+}
+
+/**
+ * Signs a message with an Ed25519 private key
+ * @param privateKey - 32-byte private key seed
+ * @param message - Message bytes, hashed as part of the Ed25519 scheme
+ * @returns The 64-byte signature
+ */
+function signEd25519(privateKey: Uint8Array, message: Uint8Array): Uint8Array {
+  return ed25519.sign(message, privateKey);
+}
+
+export { isValidPath, deriveEd25519PrivateKey, getEd25519PublicKey, signEd25519 };
@@ -1,4 +1,4 @@
 export * from './types';
-export { deriveEcdsaPrivateKey } from './ecdsa';
-export { deriveEd25519PrivateKey, isValidPath } from './ed25519';
+export { deriveEcdsaPrivateKey, getEcdsaPublicKey, signEcdsaDigest } from './ecdsa';
+export { deriveEd25519PrivateKey, isValidPath, getEd25519PublicKey, signEd25519 } from './ed25519';
 export * from './mnemonic';